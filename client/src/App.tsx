@@ -8,6 +8,7 @@ import { SidebarProvider } from "./components/ui/sidebar";
 import { AppSidebar } from "./components/app-sidebar";
 import { CookieConsent } from "./components/CookieConsent";
 import { useAuth } from "./hooks/useAuth";
+import { useMessagingSocket } from "./hooks/useMessagingSocket";
 import { NotificationCenter } from "./components/NotificationCenter";
 import { Avatar, AvatarFallback, AvatarImage } from "./components/ui/avatar";
 import { Badge } from "./components/ui/badge";
@@ -50,6 +51,7 @@ import CompanyVideos from "./pages/company-videos";
 import CompanyCreatorWorkflow from "./pages/company-creator-workflow";
 import CompanyRetainers from "./pages/company-retainers";
 import CompanyRetainerDetail from "./pages/company-retainer-detail";
+import CompanyWallet from "./pages/company-wallet";
 import AdminDashboard from "./pages/admin-dashboard";
 import AdminReviews from "./pages/admin-reviews";
 import AdminCompanies from "./pages/admin-companies";
@@ -61,6 +63,8 @@ import AdminAuditLogs from "./pages/admin-audit-logs";
 import AdminPlatformSettings from "./pages/admin-platform-settings";
 import AdminMessages from "./pages/admin-messages";
 import AdminPaymentDisputes from "./pages/admin-payment-disputes";
+import AdminLedger from "./pages/admin-ledger";
+import AdminFraudReview from "./pages/admin-fraud-review";
 import AdminNiches from "./pages/admin-niches";
 import AdminKeywordManagement from "./pages/admin-keyword-management";
 import AdminModerationDashboard from "./pages/admin-moderation-dashboard";
@@ -283,11 +287,37 @@ function ProtectedRouter() {
     return <OAuthCallback />;
   }
 
+  // Keep conversation unread counts live; poll only while the messaging socket is down
+  const { state: messagingState } = useMessagingSocket((event) => {
+    if (event.type === "unread_counts") {
+      queryClient.setQueryData<any[]>(["/api/conversations"], (prev) =>
+        prev?.map((conv) =>
+          conv.id === event.conversationId
+            ? { ...conv, creatorUnreadCount: event.creatorUnreadCount, companyUnreadCount: event.companyUnreadCount }
+            : conv
+        )
+      );
+    } else if (event.type === "new_message") {
+      queryClient.setQueryData<any[]>(["/api/conversations"], (prev) =>
+        prev?.map((conv) =>
+          conv.id === event.message.conversationId
+            ? {
+                ...conv,
+                lastMessage: event.message.content,
+                lastMessageSenderId: event.message.senderId,
+                lastMessageAt: event.message.createdAt,
+              }
+            : conv
+        )
+      );
+    }
+  }, !!user && user.role !== 'admin');
+
   // Fetch conversations to get unread count
   const { data: conversations } = useQuery<any[]>({
     queryKey: ["/api/conversations"],
     enabled: !!user,
-    refetchInterval: 30000, // Refetch every 30 seconds
+    refetchInterval: messagingState === "live" ? false : 30000, // Refetch every 30 seconds while offline
   });
 
   // Fetch company stats (for company users only) to get company profile status
@@ -385,6 +415,7 @@ function ProtectedRouter() {
               <Route path="/company/reviews" component={CompanyReviews} />
               <Route path="/company/website-verification" component={CompanyWebsiteVerification} />
               <Route path="/company/payment-settings" component={PaymentSettings} />
+              <Route path="/company/wallet" component={CompanyWallet} />
               <Route path="/payments/:id" component={PaymentDetail} />
             </>
           )}
@@ -404,6 +435,8 @@ function ProtectedRouter() {
               <Route path="/admin/reviews" component={AdminReviews} />
               <Route path="/admin/messages" component={AdminMessages} />
               <Route path="/admin/payment-disputes" component={AdminPaymentDisputes} />
+              <Route path="/admin/ledger" component={AdminLedger} />
+              <Route path="/admin/fraud" component={AdminFraudReview} />
               <Route path="/admin/niches" component={AdminNiches} />
               <Route path="/admin/audit-logs" component={AdminAuditLogs} />
               <Route path="/admin/platform-settings" component={AdminPlatformSettings} />
@@ -0,0 +1,87 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Users } from "lucide-react";
+
+export interface CreatorCohortData {
+  cohortMonth: string;
+  creators: number;
+  activeByMonth: number[];
+}
+
+interface CreatorCohortCardProps {
+  offerId?: string;
+  months?: number;
+}
+
+function formatCohortMonth(cohortMonth: string) {
+  const [year, month] = cohortMonth.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString("en-US", { month: "short", year: "numeric", timeZone: "UTC" });
+}
+
+export function CreatorCohortCard({ offerId, months = 6 }: CreatorCohortCardProps) {
+  const { data } = useQuery<{ months: number; cohorts: CreatorCohortData[] }>({
+    queryKey: [`/api/analytics/cohorts?months=${months}${offerId ? `&offerId=${offerId}` : ""}`],
+  });
+  const cohorts = data?.cohorts ?? [];
+  const columns = Math.max(0, ...cohorts.map((cohort) => cohort.activeByMonth.length));
+
+  return (
+    <Card className="border-card-border" data-testid="card-creator-cohorts">
+      <CardHeader>
+        <CardTitle>Creator Retention by Approval Month</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {cohorts.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground">
+                  <th className="text-left font-medium py-2 pr-4">Cohort</th>
+                  <th className="text-right font-medium py-2 pr-4">Creators</th>
+                  {Array.from({ length: columns }, (_, index) => (
+                    <th key={index} className="text-center font-medium py-2 px-1">Month {index}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {cohorts.map((cohort) => (
+                  <tr key={cohort.cohortMonth} data-testid={`cohort-row-${cohort.cohortMonth}`}>
+                    <td className="py-1 pr-4 whitespace-nowrap">{formatCohortMonth(cohort.cohortMonth)}</td>
+                    <td className="py-1 pr-4 text-right">{cohort.creators}</td>
+                    {Array.from({ length: columns }, (_, index) => {
+                      if (index >= cohort.activeByMonth.length) {
+                        return <td key={index} className="py-1 px-1" />;
+                      }
+                      const active = cohort.activeByMonth[index];
+                      const share = cohort.creators > 0 ? active / cohort.creators : 0;
+                      return (
+                        <td key={index} className="py-1 px-1">
+                          <div
+                            className="rounded text-center py-1"
+                            style={{ backgroundColor: `rgba(37, 99, 235, ${0.08 + share * 0.72})`, color: share > 0.5 ? "white" : undefined }}
+                            title={`${active} of ${cohort.creators} creators drove clicks`}
+                          >
+                            {(share * 100).toFixed(0)}%
+                          </div>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-muted-foreground mt-3">
+              Share of each cohort still driving clicks, by months since first approval.
+            </p>
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <Users className="h-12 w-12 text-muted-foreground/50 mx-auto mb-4" />
+            <p className="text-muted-foreground">No cohorts yet</p>
+            <p className="text-sm text-muted-foreground mt-1">Approve creators to start tracking retention.</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,266 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { useToast } from "../hooks/use-toast";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import { Copy, Link2, Plus, Trash2 } from "lucide-react";
+import { GenericErrorDialog } from "./GenericErrorDialog";
+import type { DeepLink, SubIdField } from "../../../shared/schema";
+
+const SUB_ID_FIELDS: SubIdField[] = ["sub1", "sub2", "sub3", "sub4", "sub5"];
+
+interface DeepLinkRow extends DeepLink {
+  clicks: number;
+  conversions: number;
+  trackingLink: string | null;
+}
+
+interface SubIdBreakdown {
+  field: SubIdField;
+  rows: { value: string | null; clicks: number; conversions: number; earnings: string }[];
+}
+
+type DeepLinkForm = { destinationUrl: string; label: string } & Record<SubIdField, string>;
+
+const EMPTY_FORM: DeepLinkForm = { destinationUrl: "", label: "", sub1: "", sub2: "", sub3: "", sub4: "", sub5: "" };
+
+interface DeepLinksManagerProps {
+  applicationId: string;
+  trackingLink: string;
+  // Verified company website deep links must point to; null when the company hasn't verified one
+  companyWebsite: string | null;
+}
+
+export function DeepLinksManager({ applicationId, trackingLink, companyWebsite }: DeepLinksManagerProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<DeepLinkForm>(EMPTY_FORM);
+  const [showForm, setShowForm] = useState(false);
+  const [breakdownField, setBreakdownField] = useState<SubIdField>("sub1");
+  const [errorDialog, setErrorDialog] = useState<{ open: boolean; title?: string; description?: string }>({ open: false });
+
+  const { data: deepLinks = [] } = useQuery<DeepLinkRow[]>({
+    queryKey: [`/api/applications/${applicationId}/deep-links`],
+  });
+
+  const { data: breakdown } = useQuery<SubIdBreakdown>({
+    queryKey: [`/api/applications/${applicationId}/sub-ids?field=${breakdownField}`],
+  });
+
+  const showError = (title: string) => (error: Error) => {
+    setErrorDialog({ open: true, title, description: error.message });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (current: DeepLinkForm) => {
+      const response = await apiRequest("POST", `/api/applications/${applicationId}/deep-links`, current);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/applications/${applicationId}/deep-links`] });
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+      toast({ title: "Success", description: "Deep link created" });
+    },
+    onError: showError("Could not create deep link"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (deepLink: DeepLinkRow) => {
+      return await apiRequest("DELETE", `/api/applications/${applicationId}/deep-links/${deepLink.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/applications/${applicationId}/deep-links`] });
+      toast({ title: "Success", description: "Deep link deleted" });
+    },
+    onError: showError("Could not delete deep link"),
+  });
+
+  const copyLink = (link: string) => {
+    navigator.clipboard.writeText(link);
+    toast({ title: "Copied!", description: "Link copied to clipboard" });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Link2 className="h-5 w-5" />
+              Deep Links & Sub-IDs
+            </CardTitle>
+            <CardDescription>
+              Link straight to a product page and tag your links with sub1–sub5 to see which video or post drove each sale.
+            </CardDescription>
+          </div>
+          {companyWebsite && !showForm && (
+            <Button size="sm" onClick={() => setShowForm(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Deep Link
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-xs text-muted-foreground">
+          Sub-ids also work on any of your links as query parameters, e.g.{" "}
+          <span className="font-mono break-all">{trackingLink}?sub1=video-42&sub2=pinned-comment</span>
+        </p>
+
+        {!companyWebsite && (
+          <p className="text-sm text-muted-foreground">
+            Deep links become available once the company verifies its website.
+          </p>
+        )}
+
+        {showForm && companyWebsite && (
+          <form
+            className="space-y-3 rounded-lg border p-4"
+            onSubmit={(event) => {
+              event.preventDefault();
+              createMutation.mutate(form);
+            }}
+          >
+            <div className="space-y-1">
+              <Label htmlFor="deep-link-url">Product page URL</Label>
+              <Input
+                id="deep-link-url"
+                placeholder={`${companyWebsite.replace(/\/$/, "")}/products/...`}
+                value={form.destinationUrl}
+                onChange={(event) => setForm({ ...form, destinationUrl: event.target.value })}
+                required
+              />
+              <p className="text-xs text-muted-foreground">Must be a page on {companyWebsite}</p>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="deep-link-label">Label (optional)</Label>
+              <Input
+                id="deep-link-label"
+                placeholder="Spring haul video"
+                maxLength={100}
+                value={form.label}
+                onChange={(event) => setForm({ ...form, label: event.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+              {SUB_ID_FIELDS.map((field) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`deep-link-${field}`}>{field}</Label>
+                  <Input
+                    id={`deep-link-${field}`}
+                    maxLength={100}
+                    value={form[field]}
+                    onChange={(event) => setForm({ ...form, [field]: event.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => { setShowForm(false); setForm(EMPTY_FORM); }}>
+                Cancel
+              </Button>
+              <Button type="submit" size="sm" disabled={createMutation.isPending}>
+                {createMutation.isPending ? "Creating..." : "Create Link"}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {deepLinks.length > 0 && (
+          <div className="space-y-3">
+            {deepLinks.map((deepLink) => {
+              const subIds = SUB_ID_FIELDS.filter((field) => deepLink[field]).map((field) => `${field}=${deepLink[field]}`);
+              return (
+                <div key={deepLink.id} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">{deepLink.label || deepLink.destinationUrl}</div>
+                      <div className="text-xs text-muted-foreground truncate">{deepLink.destinationUrl}</div>
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      {deepLink.trackingLink && (
+                        <Button size="sm" variant="outline" onClick={() => copyLink(deepLink.trackingLink!)}>
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => deleteMutation.mutate(deepLink)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  {deepLink.trackingLink && (
+                    <div className="font-mono text-xs break-all bg-muted rounded px-2 py-1">{deepLink.trackingLink}</div>
+                  )}
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                    <span>{deepLink.clicks} clicks</span>
+                    <span>{deepLink.conversions} conversions</span>
+                    {subIds.length > 0 && <span className="font-mono">{subIds.join(" · ")}</span>}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <h4 className="text-sm font-semibold">Performance by sub-id</h4>
+            <Select value={breakdownField} onValueChange={(value) => setBreakdownField(value as SubIdField)}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUB_ID_FIELDS.map((field) => (
+                  <SelectItem key={field} value={field}>{field}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {!breakdown || breakdown.rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No clicks yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b">
+                    <th className="py-2 pr-4 font-medium">{breakdown.field}</th>
+                    <th className="py-2 pr-4 font-medium text-right">Clicks</th>
+                    <th className="py-2 pr-4 font-medium text-right">Conversions</th>
+                    <th className="py-2 font-medium text-right">Earnings</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {breakdown.rows.map((row) => (
+                    <tr key={row.value ?? ""} className="border-b last:border-0">
+                      <td className="py-2 pr-4 font-mono">{row.value ?? <span className="text-muted-foreground">(none)</span>}</td>
+                      <td className="py-2 pr-4 text-right">{row.clicks}</td>
+                      <td className="py-2 pr-4 text-right">{row.conversions}</td>
+                      <td className="py-2 text-right">${parseFloat(row.earnings).toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+
+      <GenericErrorDialog
+        open={errorDialog.open}
+        onOpenChange={(open) => setErrorDialog({ open })}
+        title={errorDialog.title}
+        description={errorDialog.description}
+        variant="error"
+      />
+    </Card>
+  );
+}
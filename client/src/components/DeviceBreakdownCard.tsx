@@ -0,0 +1,97 @@
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Monitor } from "lucide-react";
+import { Bar, BarChart, Cell, Pie, PieChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import type { DeviceBreakdownData } from "../lib/export-utils";
+
+const DEVICE_COLORS: Record<string, string> = {
+  mobile: "#2563eb",
+  desktop: "#10b981",
+  tablet: "#f97316",
+  bot: "#ef4444",
+};
+const FALLBACK_COLORS = ["#a855f7", "#facc15", "#ec4899", "#94a3b8"];
+
+const DEVICE_LABELS: Record<string, string> = {
+  mobile: "Mobile",
+  desktop: "Desktop",
+  tablet: "Tablet",
+  bot: "Bots",
+};
+
+interface DeviceBreakdownCardProps {
+  breakdown: DeviceBreakdownData | null | undefined;
+  title?: string;
+}
+
+function BreakdownBars({ title, items }: { title: string; items: Array<{ name: string; clicks: number }> }) {
+  return (
+    <div>
+      <h4 className="text-sm font-medium mb-2">{title}</h4>
+      <div style={{ height: Math.max(items.length * 32, 64) }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={items} layout="vertical" margin={{ left: 8, right: 16 }}>
+            <XAxis type="number" hide allowDecimals={false} />
+            <YAxis type="category" dataKey="name" width={110} tick={{ fontSize: 12 }} />
+            <Tooltip formatter={(value: number) => [value, "Clicks"]} />
+            <Bar dataKey="clicks" fill="#2563eb" radius={[0, 4, 4, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+export function DeviceBreakdownCard({ breakdown, title = "Audience Devices" }: DeviceBreakdownCardProps) {
+  const total = breakdown?.totalClicks ?? 0;
+  const devices = (breakdown?.devices ?? []).map((item) => ({
+    ...item,
+    label: DEVICE_LABELS[item.name] ?? item.name,
+  }));
+
+  return (
+    <Card className="border-card-border" data-testid="card-device-breakdown">
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {total > 0 ? (
+          <div className="grid gap-6 lg:grid-cols-3">
+            <div>
+              <h4 className="text-sm font-medium mb-2">Device Type</h4>
+              <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                  <PieChart>
+                    <Tooltip formatter={(value: number) => [value, "Clicks"]} />
+                    <Pie data={devices} dataKey="clicks" nameKey="label" innerRadius={45} outerRadius={75}>
+                      {devices.map((entry, index) => (
+                        <Cell key={entry.name} fill={DEVICE_COLORS[entry.name] ?? FALLBACK_COLORS[index % FALLBACK_COLORS.length]} />
+                      ))}
+                    </Pie>
+                  </PieChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="space-y-1 pt-2 text-sm">
+                {devices.map((entry) => (
+                  <div key={entry.name} className="flex items-center justify-between">
+                    <span>{entry.label}</span>
+                    <span className="text-muted-foreground">
+                      {((entry.clicks / total) * 100).toFixed(1)}%
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <BreakdownBars title="Operating System" items={breakdown?.operatingSystems ?? []} />
+            <BreakdownBars title="Browser" items={breakdown?.browsers ?? []} />
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <Monitor className="h-12 w-12 text-muted-foreground/50 mx-auto mb-4" />
+            <p className="text-muted-foreground">No device data yet</p>
+            <p className="text-sm text-muted-foreground mt-1">Devices appear here as your tracking links get clicks.</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,699 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { Textarea } from "./ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { useToast } from "../hooks/use-toast";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import { FlaskConical, Pencil, Plus, Trash2 } from "lucide-react";
+import { GenericErrorDialog } from "./GenericErrorDialog";
+import type { FraudRule, FraudRuleType } from "../../../shared/schema";
+
+interface FraudRulesResponse {
+  rules: FraudRule[];
+  blockScore: number;
+  conversionHoldScore: number;
+  reviewScore: number;
+  listFiles: string[];
+}
+
+interface DryRunResult {
+  days: number;
+  clicksEvaluated: number;
+  truncated: boolean;
+  blockScore: number;
+  current: { flagged: number; blocked: number };
+  proposed: { flagged: number; blocked: number };
+  newlyFlagged: number;
+  noLongerFlagged: number;
+  newlyBlocked: number;
+  noLongerBlocked: number;
+  rules: { code: string; name: string; type: FraudRuleType; matches: number }[];
+  conversionRulesSkipped: string[];
+}
+
+type RulePayload = Pick<FraudRule, "code" | "name" | "description" | "type" | "config" | "weight" | "isEnabled">;
+
+const RULE_TYPE_LABELS: Record<FraudRuleType, string> = {
+  user_agent: "User agent patterns",
+  missing_header: "Missing header",
+  ip_blocklist: "IP / CIDR blocklist",
+  ip_list_file: "IP list file (ASN / datacenter)",
+  velocity: "Click velocity",
+  conversion_without_click: "Conversion without click",
+  fast_conversion: "Fast click-to-conversion",
+  duplicate_order_id: "Duplicate order id",
+  sale_amount_outlier: "Sale amount outlier",
+  conversion_velocity: "Conversion velocity",
+  conversion_ip_without_click: "Converting IP never clicked",
+  pixel_without_click: "Pixel without click",
+};
+
+const VELOCITY_SCOPE_LABELS: Record<string, string> = {
+  ip: "Same IP",
+  ip_application: "Same IP + tracking link",
+  visitor: "Same visitor",
+};
+
+const CONVERSION_VELOCITY_SCOPE_LABELS: Record<string, string> = {
+  application: "Same tracking link",
+  ip: "Same IP",
+};
+
+// Editable form state; list fields are one entry per line
+interface RuleForm {
+  id: string | null;
+  code: string;
+  name: string;
+  description: string;
+  type: FraudRuleType;
+  weight: string;
+  isEnabled: boolean;
+  patterns: string;
+  header: string;
+  entries: string;
+  file: string;
+  asns: string;
+  scope: string;
+  windowSeconds: string;
+  maxClicks: string;
+  windowHours: string;
+  minSeconds: string;
+  maxMultiple: string;
+  maxConversions: string;
+}
+
+const emptyForm: RuleForm = {
+  id: null,
+  code: "",
+  name: "",
+  description: "",
+  type: "user_agent",
+  weight: "20",
+  isEnabled: true,
+  patterns: "",
+  header: "referer",
+  entries: "",
+  file: "",
+  asns: "",
+  scope: "ip",
+  windowSeconds: "60",
+  maxClicks: "10",
+  windowHours: "24",
+  minSeconds: "10",
+  maxMultiple: "10",
+  maxConversions: "5",
+};
+
+const splitLines = (value: string) => value.split("\n").map((line) => line.trim()).filter(Boolean);
+
+function formFromRule(rule: FraudRule): RuleForm {
+  const config = (rule.config || {}) as Record<string, any>;
+  return {
+    ...emptyForm,
+    id: rule.id,
+    code: rule.code,
+    name: rule.name,
+    description: rule.description || "",
+    type: rule.type,
+    weight: String(rule.weight),
+    isEnabled: rule.isEnabled,
+    patterns: (config.patterns || []).join("\n"),
+    header: config.header || emptyForm.header,
+    entries: (config.entries || []).join("\n"),
+    file: config.file || "",
+    asns: (config.asns || []).join(", "),
+    scope: config.scope || emptyForm.scope,
+    windowSeconds: config.windowSeconds ? String(config.windowSeconds) : emptyForm.windowSeconds,
+    maxClicks: config.maxClicks ? String(config.maxClicks) : emptyForm.maxClicks,
+    windowHours: config.windowHours ? String(config.windowHours) : emptyForm.windowHours,
+    minSeconds: config.minSeconds ? String(config.minSeconds) : emptyForm.minSeconds,
+    maxMultiple: config.maxMultiple ? String(config.maxMultiple) : emptyForm.maxMultiple,
+    maxConversions: config.maxConversions ? String(config.maxConversions) : emptyForm.maxConversions,
+  };
+}
+
+function configFromForm(form: RuleForm): Record<string, unknown> {
+  switch (form.type) {
+    case "user_agent":
+      return { patterns: splitLines(form.patterns) };
+    case "missing_header":
+      return { header: form.header };
+    case "ip_blocklist":
+      return { entries: splitLines(form.entries) };
+    case "ip_list_file": {
+      const asns = form.asns.split(/[\s,]+/).map((asn) => parseInt(asn.replace(/^AS/i, ""), 10)).filter((asn) => asn > 0);
+      return asns.length > 0 ? { file: form.file, asns } : { file: form.file };
+    }
+    case "velocity":
+      return { scope: form.scope, windowSeconds: parseInt(form.windowSeconds, 10), maxClicks: parseInt(form.maxClicks, 10) };
+    case "conversion_without_click":
+      return { windowHours: parseInt(form.windowHours, 10) };
+    case "fast_conversion":
+      return { minSeconds: parseInt(form.minSeconds, 10) };
+    case "duplicate_order_id":
+      return {};
+    case "sale_amount_outlier":
+      return { maxMultiple: parseFloat(form.maxMultiple) };
+    case "conversion_velocity":
+      return { scope: form.scope, windowSeconds: parseInt(form.windowSeconds, 10), maxConversions: parseInt(form.maxConversions, 10) };
+    case "conversion_ip_without_click":
+    case "pixel_without_click":
+      return { windowHours: parseInt(form.windowHours, 10) };
+  }
+}
+
+function payloadFromForm(form: RuleForm): RulePayload {
+  return {
+    code: form.code.trim(),
+    name: form.name.trim(),
+    description: form.description.trim() || null,
+    type: form.type,
+    config: configFromForm(form),
+    weight: parseInt(form.weight, 10),
+    isEnabled: form.isEnabled,
+  };
+}
+
+function describeConfig(rule: FraudRule): string {
+  const config = (rule.config || {}) as Record<string, any>;
+  switch (rule.type) {
+    case "user_agent":
+      return `${(config.patterns || []).length} patterns`;
+    case "missing_header":
+      return `No ${config.header} header`;
+    case "ip_blocklist":
+      return `${(config.entries || []).length} IPs / ranges`;
+    case "ip_list_file":
+      return config.asns?.length ? `${config.file} (AS${config.asns.join(", AS")})` : config.file;
+    case "velocity":
+      return `${VELOCITY_SCOPE_LABELS[config.scope] || config.scope}: ${config.maxClicks}+ clicks in ${config.windowSeconds}s`;
+    case "conversion_without_click":
+      return `No click in the ${config.windowHours}h before`;
+    case "fast_conversion":
+      return `Under ${config.minSeconds}s after the click`;
+    case "duplicate_order_id":
+      return "Order id already used by the company or creator";
+    case "sale_amount_outlier":
+      return `Over ${config.maxMultiple}x above or below the average order value`;
+    case "conversion_velocity":
+      return `${CONVERSION_VELOCITY_SCOPE_LABELS[config.scope] || config.scope}: ${config.maxConversions}+ conversions in ${config.windowSeconds}s`;
+    case "conversion_ip_without_click":
+      return `Converting IP did not click in the ${config.windowHours}h before`;
+    case "pixel_without_click":
+      return `Pixel with no matching click in the ${config.windowHours}h before`;
+  }
+}
+
+function DryRunSummary({ result }: { result: DryRunResult }) {
+  const delta = (proposed: number, current: number) => {
+    const diff = proposed - current;
+    return diff === 0 ? "no change" : `${diff > 0 ? "+" : ""}${diff.toLocaleString()}`;
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border bg-gray-50 p-4 text-sm" data-testid="fraud-dry-run-result">
+      <p className="text-muted-foreground">
+        Replayed {result.clicksEvaluated.toLocaleString()} clicks from the last {result.days} days
+        (block score {result.blockScore}).
+        {result.truncated && " Only the most recent clicks were replayed."}
+      </p>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <div className="font-medium">Flagged for review</div>
+          <div>
+            {result.current.flagged.toLocaleString()} → {result.proposed.flagged.toLocaleString()}{" "}
+            <span className="text-muted-foreground">({delta(result.proposed.flagged, result.current.flagged)})</span>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {result.newlyFlagged.toLocaleString()} newly flagged, {result.noLongerFlagged.toLocaleString()} no longer flagged
+          </div>
+        </div>
+        <div>
+          <div className="font-medium">Blocked from analytics</div>
+          <div>
+            {result.current.blocked.toLocaleString()} → {result.proposed.blocked.toLocaleString()}{" "}
+            <span className="text-muted-foreground">({delta(result.proposed.blocked, result.current.blocked)})</span>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {result.newlyBlocked.toLocaleString()} newly blocked, {result.noLongerBlocked.toLocaleString()} no longer blocked
+          </div>
+        </div>
+      </div>
+      {result.rules.length > 0 && (
+        <div className="space-y-1">
+          <div className="font-medium">Matches per rule</div>
+          {result.rules.map((rule) => (
+            <div key={rule.code} className="flex justify-between">
+              <span>{rule.name} <span className="text-xs text-muted-foreground">({rule.code})</span></span>
+              <span className="font-mono">{rule.matches.toLocaleString()}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      {result.conversionRulesSkipped.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Conversion rules ({result.conversionRulesSkipped.join(", ")}) apply to new conversions and are not replayed.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function FraudRulesEditor() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [formDryRun, setFormDryRun] = useState<DryRunResult | null>(null);
+  const [dryRunDays, setDryRunDays] = useState("7");
+  const [dryRunBlockScore, setDryRunBlockScore] = useState("");
+  const [dryRun, setDryRun] = useState<DryRunResult | null>(null);
+  const [errorDialog, setErrorDialog] = useState<{ open: boolean; title?: string; description?: string }>({ open: false });
+
+  const { data, isLoading } = useQuery<FraudRulesResponse>({
+    queryKey: ["/api/admin/fraud/rules"],
+  });
+
+  const showError = (title: string) => (error: Error) => {
+    setErrorDialog({ open: true, title, description: error.message });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (current: RuleForm) => {
+      const payload = payloadFromForm(current);
+      const response = current.id
+        ? await apiRequest("PUT", `/api/admin/fraud/rules/${current.id}`, payload)
+        : await apiRequest("POST", "/api/admin/fraud/rules", payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/fraud/rules"] });
+      toast({ title: "Success", description: "Fraud rule saved" });
+      setForm(null);
+      setFormDryRun(null);
+    },
+    onError: showError("Could not save rule"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ rule, isEnabled }: { rule: FraudRule; isEnabled: boolean }) => {
+      return await apiRequest("PUT", `/api/admin/fraud/rules/${rule.id}`, { ...payloadFromForm(formFromRule(rule)), isEnabled });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/fraud/rules"] });
+    },
+    onError: showError("Could not update rule"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (rule: FraudRule) => {
+      return await apiRequest("DELETE", `/api/admin/fraud/rules/${rule.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/fraud/rules"] });
+      toast({ title: "Success", description: "Fraud rule deleted" });
+    },
+    onError: showError("Could not delete rule"),
+  });
+
+  const dryRunMutation = useMutation({
+    mutationFn: async (body: { rules?: RulePayload[]; blockScore?: number; days: number }) => {
+      const response = await apiRequest("POST", "/api/admin/fraud/rules/dry-run", body);
+      return (await response.json()) as DryRunResult;
+    },
+    onError: showError("Dry run failed"),
+  });
+
+  const savedRules = data?.rules || [];
+
+  // Saved rules with the rule being edited swapped in (or added)
+  const rulesWithDraft = (draft: RuleForm): RulePayload[] => {
+    const payload = payloadFromForm(draft);
+    const others = savedRules.filter((rule) => rule.id !== draft.id).map((rule) => payloadFromForm(formFromRule(rule)));
+    return [...others, payload];
+  };
+
+  const runFormDryRun = () => {
+    if (!form) return;
+    dryRunMutation.mutate(
+      { rules: rulesWithDraft(form), days: parseInt(dryRunDays, 10) },
+      { onSuccess: setFormDryRun },
+    );
+  };
+
+  const runDryRun = () => {
+    const blockScore = dryRunBlockScore.trim() ? parseInt(dryRunBlockScore, 10) : undefined;
+    dryRunMutation.mutate({ blockScore, days: parseInt(dryRunDays, 10) }, { onSuccess: setDryRun });
+  };
+
+  const updateForm = (updates: Partial<RuleForm>) => {
+    setForm((current) => (current ? { ...current, ...updates } : current));
+    setFormDryRun(null);
+  };
+
+  return (
+    <Card id="admin-fraud-rules" className="scroll-mt-24">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Fraud Rules</CardTitle>
+            <CardDescription>
+              Each matching rule adds its weight to a click's fraud score. Clicks scoring {data?.reviewScore ?? 25}+ are
+              queued for review; clicks at or above the block score ({data?.blockScore ?? 50}, setting fraud_block_score)
+              are left out of analytics. Conversions scoring {data?.conversionHoldScore ?? 50}+ (setting
+              fraud_conversion_hold_score) are held as pending verification until the company or an admin approves them.
+            </CardDescription>
+          </div>
+          <Button size="sm" className="gap-1 shrink-0" onClick={() => { setForm({ ...emptyForm }); setFormDryRun(null); }} data-testid="button-add-fraud-rule">
+            <Plus className="h-4 w-4" />
+            Add Rule
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading...</div>
+        ) : savedRules.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground border rounded-lg border-dashed">
+            No fraud rules configured. Clicks are not scored until a rule is added.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {savedRules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between gap-4 p-4 border rounded-lg" data-testid={`fraud-rule-${rule.code}`}>
+                <div className="min-w-0 flex-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <h3 className="font-medium">{rule.name}</h3>
+                    <Badge variant="outline" className="text-xs">{RULE_TYPE_LABELS[rule.type]}</Badge>
+                    <Badge variant="secondary" className="text-xs">weight {rule.weight}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1 font-mono">{rule.code}</p>
+                  <p className="text-sm text-muted-foreground mt-1">{rule.description || describeConfig(rule)}</p>
+                  {rule.description && <p className="text-xs text-muted-foreground">{describeConfig(rule)}</p>}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Switch
+                    checked={rule.isEnabled}
+                    onCheckedChange={(checked) => toggleMutation.mutate({ rule, isEnabled: checked })}
+                    disabled={toggleMutation.isPending}
+                  />
+                  <Button variant="outline" size="sm" onClick={() => { setForm(formFromRule(rule)); setFormDryRun(null); }}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                    onClick={() => {
+                      if (window.confirm(`Delete the "${rule.name}" rule?`)) deleteMutation.mutate(rule);
+                    }}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3 border-t pt-6">
+          <div>
+            <h3 className="font-medium">Dry run</h3>
+            <p className="text-sm text-muted-foreground">
+              Replay recent clicks against the saved rules to see how a different block score would change what gets
+              flagged. Rule edits can be previewed from the rule dialog before saving.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label>Period</Label>
+              <Select value={dryRunDays} onValueChange={setDryRunDays}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1">Last day</SelectItem>
+                  <SelectItem value="7">Last 7 days</SelectItem>
+                  <SelectItem value="14">Last 14 days</SelectItem>
+                  <SelectItem value="30">Last 30 days</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="dry-run-block-score">Block score</Label>
+              <Input
+                id="dry-run-block-score"
+                type="number"
+                min={1}
+                max={100}
+                className="w-28"
+                placeholder={String(data?.blockScore ?? 50)}
+                value={dryRunBlockScore}
+                onChange={(e) => setDryRunBlockScore(e.target.value)}
+              />
+            </div>
+            <Button variant="outline" className="gap-1" onClick={runDryRun} disabled={dryRunMutation.isPending} data-testid="button-fraud-dry-run">
+              <FlaskConical className="h-4 w-4" />
+              {dryRunMutation.isPending && !form ? "Running..." : "Run Dry Run"}
+            </Button>
+          </div>
+          {dryRun && <DryRunSummary result={dryRun} />}
+        </div>
+      </CardContent>
+
+      <Dialog open={!!form} onOpenChange={(open) => { if (!open) { setForm(null); setFormDryRun(null); } }}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{form?.id ? "Edit Fraud Rule" : "Add Fraud Rule"}</DialogTitle>
+            <DialogDescription>
+              Preview the rule against recent clicks before saving it.
+            </DialogDescription>
+          </DialogHeader>
+
+          {form && (
+            <div className="space-y-4 py-2">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="rule-name">Name</Label>
+                  <Input id="rule-name" value={form.name} onChange={(e) => updateForm({ name: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rule-code">Code</Label>
+                  <Input
+                    id="rule-code"
+                    value={form.code}
+                    placeholder="e.g. headless_browser"
+                    disabled={!!form.id}
+                    onChange={(e) => updateForm({ code: e.target.value.toLowerCase() })}
+                  />
+                  <p className="text-xs text-muted-foreground">Recorded in click fraud flags; can't be changed later</p>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="rule-description">Description</Label>
+                <Input id="rule-description" value={form.description} onChange={(e) => updateForm({ description: e.target.value })} />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Type</Label>
+                  <Select value={form.type} onValueChange={(value) => updateForm({ type: value as FraudRuleType, scope: value === "conversion_velocity" ? "application" : "ip" })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(RULE_TYPE_LABELS) as FraudRuleType[]).map((type) => (
+                        <SelectItem key={type} value={type}>{RULE_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rule-weight">Weight (0-100)</Label>
+                  <Input id="rule-weight" type="number" min={0} max={100} value={form.weight} onChange={(e) => updateForm({ weight: e.target.value })} />
+                </div>
+              </div>
+
+              {form.type === "user_agent" && (
+                <div className="space-y-2">
+                  <Label htmlFor="rule-patterns">User agent patterns (one per line, case-insensitive)</Label>
+                  <Textarea id="rule-patterns" className="min-h-[140px] font-mono text-sm" value={form.patterns} onChange={(e) => updateForm({ patterns: e.target.value })} />
+                </div>
+              )}
+
+              {form.type === "missing_header" && (
+                <div className="space-y-2">
+                  <Label>Header</Label>
+                  <Select value={form.header} onValueChange={(value) => updateForm({ header: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="user-agent">User-Agent</SelectItem>
+                      <SelectItem value="referer">Referer</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {form.type === "ip_blocklist" && (
+                <div className="space-y-2">
+                  <Label htmlFor="rule-entries">IP addresses or CIDR ranges (one per line)</Label>
+                  <Textarea id="rule-entries" className="min-h-[140px] font-mono text-sm" placeholder="203.0.113.0/24" value={form.entries} onChange={(e) => updateForm({ entries: e.target.value })} />
+                </div>
+              )}
+
+              {form.type === "ip_list_file" && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>List file</Label>
+                    <Select value={form.file} onValueChange={(value) => updateForm({ file: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a file" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(data?.listFiles || []).map((file) => (
+                          <SelectItem key={file} value={file}>{file}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="rule-asns">Only these ASNs (optional)</Label>
+                    <Input id="rule-asns" placeholder="AS14061, AS24940" value={form.asns} onChange={(e) => updateForm({ asns: e.target.value })} />
+                  </div>
+                </div>
+              )}
+
+              {form.type === "velocity" && (
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label>Count clicks from</Label>
+                    <Select value={form.scope} onValueChange={(value) => updateForm({ scope: value })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(VELOCITY_SCOPE_LABELS).map(([scope, label]) => (
+                          <SelectItem key={scope} value={scope}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="rule-max-clicks">Max clicks</Label>
+                    <Input id="rule-max-clicks" type="number" min={1} value={form.maxClicks} onChange={(e) => updateForm({ maxClicks: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="rule-window">Window (seconds)</Label>
+                    <Input id="rule-window" type="number" min={1} value={form.windowSeconds} onChange={(e) => updateForm({ windowSeconds: e.target.value })} />
+                  </div>
+                </div>
+              )}
+
+              {form.type === "conversion_without_click" && (
+                <div className="space-y-2">
+                  <Label htmlFor="rule-window-hours">Look back for a click (hours)</Label>
+                  <Input id="rule-window-hours" type="number" min={1} value={form.windowHours} onChange={(e) => updateForm({ windowHours: e.target.value })} />
+                </div>
+              )}
+
+              {form.type === "fast_conversion" && (
+                <div className="space-y-2">
+                  <Label htmlFor="rule-min-seconds">Flag conversions faster than (seconds after the click)</Label>
+                  <Input id="rule-min-seconds" type="number" min={1} value={form.minSeconds} onChange={(e) => updateForm({ minSeconds: e.target.value })} />
+                </div>
+              )}
+
+              {form.type === "duplicate_order_id" && (
+                <p className="text-sm text-muted-foreground">
+                  Matches order ids case- and punctuation-insensitively against every conversion of the same company or creator.
+                </p>
+              )}
+
+              {form.type === "sale_amount_outlier" && (
+                <div className="space-y-2">
+                  <Label htmlFor="rule-max-multiple">Flag sales more than this many times above or below the offer's average order value</Label>
+                  <Input id="rule-max-multiple" type="number" min={1.5} step={0.5} value={form.maxMultiple} onChange={(e) => updateForm({ maxMultiple: e.target.value })} />
+                  <p className="text-xs text-muted-foreground">Offers without an average order value are not checked</p>
+                </div>
+              )}
+
+              {form.type === "conversion_velocity" && (
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label>Count conversions from</Label>
+                    <Select value={form.scope} onValueChange={(value) => updateForm({ scope: value })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(CONVERSION_VELOCITY_SCOPE_LABELS).map(([scope, label]) => (
+                          <SelectItem key={scope} value={scope}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="rule-max-conversions">Max conversions</Label>
+                    <Input id="rule-max-conversions" type="number" min={1} value={form.maxConversions} onChange={(e) => updateForm({ maxConversions: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="rule-conversion-window">Window (seconds)</Label>
+                    <Input id="rule-conversion-window" type="number" min={1} value={form.windowSeconds} onChange={(e) => updateForm({ windowSeconds: e.target.value })} />
+                  </div>
+                </div>
+              )}
+
+              {(form.type === "conversion_ip_without_click" || form.type === "pixel_without_click") && (
+                <div className="space-y-2">
+                  <Label htmlFor="rule-window-hours">Look back for a click (hours)</Label>
+                  <Input id="rule-window-hours" type="number" min={1} value={form.windowHours} onChange={(e) => updateForm({ windowHours: e.target.value })} />
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Switch checked={form.isEnabled} onCheckedChange={(checked) => updateForm({ isEnabled: checked })} />
+                <span className="text-sm">{form.isEnabled ? "Enabled" : "Disabled"}</span>
+              </div>
+
+              {formDryRun && <DryRunSummary result={formDryRun} />}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" className="gap-1" onClick={runFormDryRun} disabled={dryRunMutation.isPending || saveMutation.isPending}>
+              <FlaskConical className="h-4 w-4" />
+              {dryRunMutation.isPending && form ? "Running..." : `Dry Run (${dryRunDays}d)`}
+            </Button>
+            <Button onClick={() => form && saveMutation.mutate(form)} disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : "Save Rule"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <GenericErrorDialog
+        open={errorDialog.open}
+        onOpenChange={(open) => setErrorDialog({ open })}
+        title={errorDialog.title}
+        description={errorDialog.description}
+        variant="error"
+      />
+    </Card>
+  );
+}
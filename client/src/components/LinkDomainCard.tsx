@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { useToast } from "../hooks/use-toast";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import { CheckCircle2, Clock, Copy, Link2, RefreshCw, Trash2 } from "lucide-react";
+import { GenericErrorDialog } from "./GenericErrorDialog";
+import type { CompanyLinkDomain } from "../../../shared/schema";
+
+type LinkDomainData = {
+  linkDomain: CompanyLinkDomain | null;
+  instructions: {
+    dns_txt: string;
+    cname: string;
+  } | null;
+};
+
+const LINK_DOMAIN_TXT_PREFIX = "_affiliatexchange-link";
+
+export function LinkDomainCard() {
+  const { toast } = useToast();
+  const [domain, setDomain] = useState("");
+  const [errorDialog, setErrorDialog] = useState<{ open: boolean; title?: string; description?: string }>({ open: false });
+
+  const { data } = useQuery<LinkDomainData>({
+    queryKey: ["/api/company/link-domain"],
+  });
+
+  const showError = (title: string) => (error: Error) => {
+    setErrorDialog({ open: true, title, description: error.message });
+  };
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/company/link-domain"] });
+
+  const createMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const response = await apiRequest("POST", "/api/company/link-domain", { domain: value });
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setDomain("");
+      toast({ title: "Domain Added", description: "Add the DNS records below, then verify the domain." });
+    },
+    onError: showError("Could not add link domain"),
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/company/link-domain/verify");
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Verification Successful", description: "Your creators' links now work on your domain." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Verification Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("DELETE", "/api/company/link-domain");
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Domain Removed", description: "Links on this domain no longer resolve." });
+    },
+    onError: showError("Could not remove link domain"),
+  });
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({ title: "Copied", description: "Copied to clipboard" });
+  };
+
+  const linkDomain = data?.linkDomain;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="h-5 w-5" />
+          Branded Link Domain
+        </CardTitle>
+        <CardDescription>
+          Let your creators share tracking links on your own domain (e.g. go.yourbrand.com/jane-techgear). Clicks are
+          tracked and checked for fraud exactly like platform links.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!linkDomain && (
+          <form
+            className="flex flex-col sm:flex-row gap-2 sm:items-end"
+            onSubmit={(event) => {
+              event.preventDefault();
+              createMutation.mutate(domain);
+            }}
+          >
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="link-domain">Domain</Label>
+              <Input
+                id="link-domain"
+                placeholder="go.yourbrand.com"
+                value={domain}
+                onChange={(event) => setDomain(event.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" disabled={createMutation.isPending}>
+              {createMutation.isPending ? "Adding..." : "Add Domain"}
+            </Button>
+          </form>
+        )}
+
+        {linkDomain && (
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <p className="text-sm text-muted-foreground">Link domain</p>
+              <p className="font-medium font-mono">{linkDomain.domain}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              {linkDomain.verified ? (
+                <Badge className="bg-green-100 text-green-800 border-green-200 flex items-center gap-1">
+                  <CheckCircle2 className="h-3 w-3" />
+                  Verified
+                </Badge>
+              ) : (
+                <Badge variant="secondary" className="flex items-center gap-1">
+                  <Clock className="h-3 w-3" />
+                  Pending DNS
+                </Badge>
+              )}
+              <Button size="sm" variant="outline" disabled={deleteMutation.isPending} onClick={() => deleteMutation.mutate()}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {linkDomain && !linkDomain.verified && data?.instructions && (
+          <div className="space-y-3">
+            <ol className="list-decimal list-inside space-y-2 text-sm text-muted-foreground">
+              <li>{data.instructions.cname}</li>
+              <li>Add a TXT record on <code className="bg-muted px-1 rounded">{LINK_DOMAIN_TXT_PREFIX}.{linkDomain.domain}</code> with this value:</li>
+            </ol>
+            <div className="relative">
+              <pre className="p-4 bg-muted rounded-lg text-sm overflow-x-auto">
+                <code>{linkDomain.verificationToken}</code>
+              </pre>
+              <Button
+                variant="outline"
+                size="sm"
+                className="absolute top-2 right-2"
+                onClick={() => copyToClipboard(linkDomain.verificationToken)}
+              >
+                <Copy className="h-4 w-4 mr-1" />
+                Copy
+              </Button>
+            </div>
+            <Button onClick={() => verifyMutation.mutate()} disabled={verifyMutation.isPending} className="w-full">
+              {verifyMutation.isPending ? (
+                <>
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  Verifying...
+                </>
+              ) : (
+                <>
+                  <CheckCircle2 className="h-4 w-4 mr-2" />
+                  Verify Domain
+                </>
+              )}
+            </Button>
+          </div>
+        )}
+
+        {linkDomain?.verified && (
+          <p className="text-sm text-muted-foreground">
+            Creators promoting your offers see a branded link on their application page. Only links to your own offers
+            resolve on this domain.
+          </p>
+        )}
+      </CardContent>
+
+      <GenericErrorDialog
+        open={errorDialog.open}
+        onOpenChange={(open) => setErrorDialog({ open })}
+        title={errorDialog.title}
+        description={errorDialog.description}
+        variant="error"
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Badge } from "./ui/badge";
+import { DollarSign, MousePointerClick, Radio } from "lucide-react";
+import { useLiveAnalytics, type LiveAnalyticsEvent } from "../hooks/useLiveAnalytics";
+
+// Same threshold the server uses to queue items for fraud review
+const FRAUD_REVIEW_MIN_SCORE = 25;
+
+const STATE_STYLES = {
+  live: { dot: "bg-green-500 animate-pulse", label: "Live" },
+  connecting: { dot: "bg-amber-400", label: "Connecting" },
+  offline: { dot: "bg-gray-400", label: "Offline" },
+} as const;
+
+interface LiveActivityFeedProps {
+  applicationId?: string;
+  // Companies and admins see fraud scores; the feed never sends them to creators
+  showFraud?: boolean;
+  // Queries to refresh as events arrive (defaults to /api/analytics)
+  refreshKeys?: string[];
+}
+
+function eventDetails(event: LiveAnalyticsEvent): string {
+  const parts: string[] = [];
+  if (event.country) parts.push(event.country);
+  if (event.type === "click") {
+    const utm = [event.utmSource, event.utmMedium, event.utmCampaign].filter(Boolean).join(" / ");
+    if (utm) parts.push(utm);
+  } else {
+    if (event.source) parts.push(event.source);
+    if (event.saleAmount) parts.push(`sale ${Number(event.saleAmount).toFixed(2)} ${event.currency}`);
+  }
+  if (event.sub1) parts.push(`sub1=${event.sub1}`);
+  return parts.join(" · ");
+}
+
+export function LiveActivityFeed({ applicationId, showFraud = false, refreshKeys }: LiveActivityFeedProps) {
+  const { events, counts, state } = useLiveAnalytics({ applicationId, refreshKeys });
+  const stateStyle = STATE_STYLES[state];
+
+  return (
+    <Card className="border-card-border shadow-sm" data-testid="card-live-activity">
+      <CardHeader className="border-b bg-muted/30">
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="text-xl flex items-center gap-2">
+            <Radio className="h-5 w-5" />
+            Live Activity
+          </CardTitle>
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <span className={`h-2 w-2 rounded-full ${stateStyle.dot}`} />
+            {stateStyle.label}
+          </div>
+        </div>
+        <div className="flex gap-6 text-sm mt-2">
+          <span>
+            <span className="font-semibold font-mono" data-testid="text-live-clicks">{counts.clicks}</span>{" "}
+            <span className="text-muted-foreground">clicks</span>
+          </span>
+          <span>
+            <span className="font-semibold font-mono" data-testid="text-live-conversions">{counts.conversions}</span>{" "}
+            <span className="text-muted-foreground">conversions since you opened this page</span>
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-4">
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            Waiting for clicks and conversions...
+          </p>
+        ) : (
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {events.map((event, index) => (
+              <div
+                key={`${event.type}-${event.id ?? index}-${event.timestamp}`}
+                className="flex items-center gap-3 p-2 rounded-md border"
+              >
+                {event.type === "click" ? (
+                  <MousePointerClick className="h-4 w-4 text-blue-500 flex-shrink-0" />
+                ) : (
+                  <DollarSign className="h-4 w-4 text-green-600 flex-shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="text-sm font-medium truncate">
+                      {event.type === "click" ? "Click" : "Conversion"} · {event.offerTitle}
+                    </span>
+                    {event.geoBlocked && <Badge variant="outline">Geo-blocked</Badge>}
+                    {showFraud && event.fraudBlocked && <Badge variant="destructive">Blocked</Badge>}
+                    {showFraud && !event.fraudBlocked && event.fraudScore >= FRAUD_REVIEW_MIN_SCORE && (
+                      <Badge variant="outline" className="border-amber-500 text-amber-700">Fraud score {event.fraudScore}</Badge>
+                    )}
+                    {event.status === "pending_verification" && <Badge variant="outline">Held</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">{eventDetails(event) || "—"}</p>
+                </div>
+                <div className="text-right flex-shrink-0">
+                  {event.type === "conversion" && event.earnings && (
+                    <div className="text-sm font-mono text-green-600 dark:text-green-400">
+                      {Number(event.earnings).toFixed(2)} {event.currency}
+                    </div>
+                  )}
+                  <div className="text-xs text-muted-foreground">
+                    {new Date(event.timestamp).toLocaleTimeString()}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
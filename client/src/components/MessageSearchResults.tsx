@@ -0,0 +1,177 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Input } from "./ui/input";
+import { Checkbox } from "./ui/checkbox";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Loader2, Paperclip, SearchX } from "lucide-react";
+import { conversationSubject, type ConversationContext } from "../lib/conversations";
+
+export interface MessageSearchResult {
+  messageId: string;
+  conversationId: string;
+  senderId: string;
+  senderType: string | null;
+  createdAt: string | null;
+  hasAttachment: boolean;
+  snippet: Array<{ text: string; match: boolean }>;
+  contextType: ConversationContext;
+  offerId: string | null;
+  offerTitle: string | null;
+  retainerContractTitle: string | null;
+  creator: { id: string; name: string | null };
+  company: { id: string; name: string | null };
+}
+
+// A counterparty the results can be narrowed to; param is the query parameter it is sent as
+export interface MessageSearchCounterparty {
+  param: "counterpartyId" | "creatorId" | "companyId";
+  value: string;
+  label: string;
+}
+
+interface MessageSearchResultsProps {
+  endpoint: "/api/messages/search" | "/api/admin/messages/search";
+  query: string;
+  offers: Array<{ id: string; title: string }>;
+  counterparties: MessageSearchCounterparty[];
+  // Which side of the conversation to name on each result
+  showParties: "creator" | "company" | "both";
+  onOpenResult: (result: MessageSearchResult) => void;
+}
+
+const ANY = "any";
+const SEARCH_DEBOUNCE_MS = 300;
+
+export function MessageSearchResults({ endpoint, query, offers, counterparties, showParties, onOpenResult }: MessageSearchResultsProps) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+  const [offerId, setOfferId] = useState(ANY);
+  const [counterparty, setCounterparty] = useState(ANY);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [hasAttachment, setHasAttachment] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const params = new URLSearchParams({ q: debouncedQuery });
+  if (offerId !== ANY) params.set("offerId", offerId);
+  if (counterparty !== ANY) {
+    const [param, value] = counterparty.split(":");
+    params.set(param, value);
+  }
+  if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+  if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+  if (hasAttachment) params.set("hasAttachment", "true");
+
+  const { data, isLoading, error } = useQuery<{ results: MessageSearchResult[]; total: number }>({
+    queryKey: [`${endpoint}?${params.toString()}`],
+    enabled: debouncedQuery.length >= 2,
+    staleTime: 30000,
+  });
+  const results = data?.results ?? [];
+
+  const partyLabel = (result: MessageSearchResult) => {
+    if (showParties === "creator") return result.creator.name;
+    if (showParties === "company") return result.company.name;
+    return `${result.creator.name} · ${result.company.name}`;
+  };
+
+  return (
+    <div className="flex flex-col" data-testid="message-search-results">
+      <div className="p-3 border-b space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={offerId} onValueChange={setOfferId}>
+            <SelectTrigger className="h-9" data-testid="select-search-offer">
+              <SelectValue placeholder="Offer" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All offers</SelectItem>
+              {offers.map((offer) => (
+                <SelectItem key={offer.id} value={offer.id}>{offer.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={counterparty} onValueChange={setCounterparty}>
+            <SelectTrigger className="h-9" data-testid="select-search-counterparty">
+              <SelectValue placeholder="With" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Anyone</SelectItem>
+              {counterparties.map((option) => (
+                <SelectItem key={`${option.param}:${option.value}`} value={`${option.param}:${option.value}`}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input type="date" className="h-9" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} title="From" />
+          <Input type="date" className="h-9" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} title="To" />
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="search-has-attachment"
+            checked={hasAttachment}
+            onCheckedChange={(checked) => setHasAttachment(checked === true)}
+          />
+          <Label htmlFor="search-has-attachment" className="text-sm font-normal">Has attachment</Label>
+          {data && (
+            <span className="ml-auto text-xs text-muted-foreground">
+              {data.total} {data.total === 1 ? "match" : "matches"}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {debouncedQuery.length < 2 ? (
+        <p className="p-6 text-center text-sm text-muted-foreground">Type at least 2 characters to search messages</p>
+      ) : isLoading ? (
+        <div className="p-6 flex justify-center">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : error ? (
+        <p className="p-6 text-center text-sm text-destructive">{(error as Error).message}</p>
+      ) : results.length === 0 ? (
+        <div className="p-12 text-center">
+          <SearchX className="h-12 w-12 text-muted-foreground/50 mx-auto mb-4" />
+          <p className="text-sm text-muted-foreground">No messages found</p>
+          <p className="text-xs text-muted-foreground mt-2">Try other words or fewer filters</p>
+        </div>
+      ) : (
+        <div className="divide-y">
+          {results.map((result) => (
+            <button
+              key={result.messageId}
+              onClick={() => onOpenResult(result)}
+              className="w-full p-3 text-left hover-elevate hover:bg-accent/50 transition-colors"
+              data-testid={`search-result-${result.messageId}`}
+            >
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <div className="font-semibold text-sm truncate">{partyLabel(result)}</div>
+                <div className="text-xs text-muted-foreground shrink-0">
+                  {result.createdAt && format(new Date(result.createdAt), "MMM d, yyyy")}
+                </div>
+              </div>
+              <div className="text-xs text-muted-foreground truncate mb-1">{conversationSubject(result)}</div>
+              <p className="text-sm text-muted-foreground line-clamp-3 break-words">
+                {result.hasAttachment && <Paperclip className="inline h-3 w-3 mr-1" />}
+                {result.snippet.map((part, index) =>
+                  part.match ? (
+                    <mark key={index} className="bg-yellow-200 dark:bg-yellow-800 text-foreground rounded-sm px-0.5">
+                      {part.text}
+                    </mark>
+                  ) : (
+                    <span key={index}>{part.text}</span>
+                  ),
+                )}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
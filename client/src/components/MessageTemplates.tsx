@@ -1,5 +1,9 @@
 import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import { Badge } from "./ui/badge";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -8,87 +12,255 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "./ui/dropdown-menu";
-import { FileText, CheckCircle, AlertCircle, DollarSign, ThumbsUp } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { FileText, Pencil, Plus, Settings, Trash2, Loader2 } from "lucide-react";
+import { apiRequest } from "../lib/queryClient";
+import { useToast } from "../hooks/use-toast";
 
-interface MessageTemplate {
+export interface MessageTemplate {
   id: string;
-  label: string;
+  title: string;
   content: string;
-  icon: React.ReactNode;
+  usageCount: number;
+  lastUsedAt: string | null;
+}
+
+interface MessageTemplatesResponse {
+  templates: MessageTemplate[];
+  variables: string[];
 }
 
+const TEMPLATES_QUERY_KEY = ["/api/company/message-templates"];
+
 interface MessageTemplatesProps {
-  onSelectTemplate: (content: string) => void;
-  trackingLink?: string;
-  creatorName?: string;
+  conversationId: string;
+  // The template id is sent with the message so the use is counted once it is actually sent
+  onSelectTemplate: (content: string, templateId: string) => void;
 }
 
-export function MessageTemplates({
-  onSelectTemplate,
-  trackingLink,
-  creatorName = "there",
-}: MessageTemplatesProps) {
-  const templates: MessageTemplate[] = [
-    {
-      id: "application-approved",
-      label: "Application Approved",
-      content: trackingLink
-        ? `Great news! Your application has been approved. Here's your tracking link:\n\n${trackingLink}\n\nPlease use this link in your content and let us know once you've posted!`
-        : `Great news! Your application has been approved! Your tracking link will be available shortly. Please let us know once you've posted your content.`,
-      icon: <CheckCircle className="h-4 w-4 text-green-500" />,
-    },
-    {
-      id: "content-approval",
-      label: "Request Content Approval",
-      content: `Hi ${creatorName},\n\nBefore you post your content, could you please share a preview with us for approval? This helps ensure it aligns with our brand guidelines.\n\nThanks for your cooperation!`,
-      icon: <AlertCircle className="h-4 w-4 text-yellow-500" />,
-    },
-    {
-      id: "payment-processed",
-      label: "Payment Processed",
-      content: `Good news! Your payment has been processed and should arrive within 3-5 business days.\n\nThank you for your great work promoting our product!`,
-      icon: <DollarSign className="h-4 w-4 text-blue-500" />,
+export function MessageTemplates({ conversationId, onSelectTemplate }: MessageTemplatesProps) {
+  const { toast } = useToast();
+  const [manageOpen, setManageOpen] = useState(false);
+  const { data } = useQuery<MessageTemplatesResponse>({ queryKey: TEMPLATES_QUERY_KEY });
+  const templates = data?.templates ?? [];
+
+  const renderMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      const response = await apiRequest("POST", `/api/conversations/${conversationId}/message-templates/${templateId}/render`);
+      return response.json() as Promise<{ content: string; template: MessageTemplate }>;
     },
-    {
-      id: "thank-you",
-      label: "Thank You",
-      content: `Thank you so much for promoting our product! We really appreciate the effort you put into creating quality content.\n\nLooking forward to continuing our partnership!`,
-      icon: <ThumbsUp className="h-4 w-4 text-purple-500" />,
+    onSuccess: (result) => {
+      onSelectTemplate(result.content, result.template.id);
     },
-    {
-      id: "follow-up",
-      label: "Follow Up",
-      content: `Hi ${creatorName},\n\nJust following up to see how things are going. Have you had a chance to create content for this campaign?\n\nLet me know if you need any assets or have any questions!`,
-      icon: <FileText className="h-4 w-4 text-gray-500" />,
+    onError: (error: Error) => {
+      toast({ title: "Template unavailable", description: error.message, variant: "destructive" });
     },
-  ];
+  });
 
   return (
-    <DropdownMenu>
-      <DropdownMenuTrigger asChild>
-        <Button
-          variant="outline"
-          size="icon"
-          className="h-11 w-11 shrink-0"
-          title="Message Templates"
-        >
-          <FileText className="h-5 w-5" />
-        </Button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent align="start" className="w-64">
-        <DropdownMenuLabel>Message Templates</DropdownMenuLabel>
-        <DropdownMenuSeparator />
-        {templates.map((template) => (
-          <DropdownMenuItem
-            key={template.id}
-            onClick={() => onSelectTemplate(template.content)}
-            className="flex items-center gap-2 cursor-pointer"
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-11 w-11 shrink-0"
+            title="Message Templates"
+            disabled={renderMutation.isPending}
+            data-testid="button-message-templates"
           >
-            {template.icon}
-            <span className="text-sm">{template.label}</span>
+            {renderMutation.isPending ? <Loader2 className="h-5 w-5 animate-spin" /> : <FileText className="h-5 w-5" />}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-72">
+          <DropdownMenuLabel>Message Templates</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {templates.length === 0 && (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground">No templates yet</p>
+          )}
+          {templates.map((template) => (
+            <DropdownMenuItem
+              key={template.id}
+              onClick={() => renderMutation.mutate(template.id)}
+              className="flex items-center justify-between gap-2 cursor-pointer"
+              data-testid={`template-${template.id}`}
+            >
+              <span className="text-sm truncate">{template.title}</span>
+              <span className="text-xs text-muted-foreground shrink-0" title="Times used">
+                {template.usageCount}
+              </span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setManageOpen(true)} className="flex items-center gap-2 cursor-pointer">
+            <Settings className="h-4 w-4" />
+            <span className="text-sm">Manage templates</span>
           </DropdownMenuItem>
-        ))}
-      </DropdownMenuContent>
-    </DropdownMenu>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <ManageMessageTemplatesDialog
+        open={manageOpen}
+        onOpenChange={setManageOpen}
+        templates={templates}
+        variables={data?.variables ?? []}
+      />
+    </>
+  );
+}
+
+interface ManageMessageTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templates: MessageTemplate[];
+  variables: string[];
+}
+
+// Create, edit and delete the company's templates; changes are visible to the whole team
+function ManageMessageTemplatesDialog({ open, onOpenChange, templates, variables }: ManageMessageTemplatesDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [title, setTitle] = useState("");
+  const [content, setContent] = useState("");
+
+  const resetForm = () => {
+    setEditingId(null);
+    setTitle("");
+    setContent("");
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = { title: title.trim(), content: content.trim() };
+      return editingId
+        ? apiRequest("PUT", `/api/company/message-templates/${editingId}`, body)
+        : apiRequest("POST", "/api/company/message-templates", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TEMPLATES_QUERY_KEY });
+      toast({ title: editingId ? "Template updated" : "Template created" });
+      resetForm();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save template", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/company/message-templates/${id}`),
+    onSuccess: (_data, id) => {
+      queryClient.invalidateQueries({ queryKey: TEMPLATES_QUERY_KEY });
+      if (id === editingId) resetForm();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not delete template", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) resetForm();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-2xl" data-testid="dialog-manage-templates">
+        <DialogHeader>
+          <DialogTitle>Message Templates</DialogTitle>
+          <DialogDescription>Saved replies shared with everyone on your company account.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-60 overflow-y-auto">
+          {templates.map((template) => (
+            <div key={template.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{template.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  Used {template.usageCount} {template.usageCount === 1 ? "time" : "times"}
+                </p>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Edit"
+                  onClick={() => {
+                    setEditingId(template.id);
+                    setTitle(template.title);
+                    setContent(template.content);
+                  }}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Delete"
+                  onClick={() => deleteMutation.mutate(template.id)}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <p className="text-sm font-medium">{editingId ? "Edit template" : "New template"}</p>
+          <Input
+            placeholder="Title"
+            value={title}
+            maxLength={100}
+            onChange={(e) => setTitle(e.target.value)}
+            data-testid="input-template-title"
+          />
+          <Textarea
+            placeholder="Hi {{creatorName}}, ..."
+            value={content}
+            rows={5}
+            maxLength={5000}
+            onChange={(e) => setContent(e.target.value)}
+            data-testid="input-template-content"
+          />
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="text-xs text-muted-foreground mr-1">Insert:</span>
+            {variables.map((variable) => (
+              <Badge
+                key={variable}
+                variant="secondary"
+                className="cursor-pointer"
+                onClick={() => setContent((current) => `${current}{{${variable}}}`)}
+              >
+                {`{{${variable}}}`}
+              </Badge>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!title.trim() || !content.trim() || saveMutation.isPending}
+              data-testid="button-save-template"
+            >
+              {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : !editingId && <Plus className="h-4 w-4 mr-2" />}
+              {editingId ? "Save" : "Add template"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
   );
 }
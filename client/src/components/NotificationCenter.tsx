@@ -27,6 +27,7 @@ import { ScrollArea } from "./ui/scroll-area";
 import { formatDistanceToNow } from "date-fns";
 import { useLocation } from "wouter";
 import { useToast } from "../hooks/use-toast";
+import { useMessagingSocket } from "../hooks/useMessagingSocket";
 import { ToastAction } from "./ui/toast";
 
 interface Notification {
@@ -110,6 +111,14 @@ export function NotificationCenter() {
     refetchInterval: 30000, // Poll every 30 seconds
   });
 
+  // New messages come with a new_message notification; pick it up without waiting for the next poll
+  useMessagingSocket((event) => {
+    if (event.type === "new_message") {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications/unread/count"] });
+    }
+  });
+
   // Show toast for new company registration notifications
   useEffect(() => {
     if (isLoading || notifications.length === 0) return;
@@ -241,6 +250,8 @@ export function NotificationCenter() {
       case "payment_pending":
         return <DollarSign {...iconProps} className="h-5 w-5 text-yellow-600" />;
       case "payment_failed_insufficient_funds":
+      case "escrow_low_balance":
+      case "conversion_pending_verification":
         return <AlertTriangle {...iconProps} className="h-5 w-5 text-orange-600" />;
       case "new_application":
         return <FileText {...iconProps} />;
@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Checkbox } from "./ui/checkbox";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "./ui/alert-dialog";
+import { Loader2, Megaphone, Send } from "lucide-react";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import { useToast } from "../hooks/use-toast";
+
+type BroadcastStatus = "approved" | "active" | "paused" | "completed";
+type PerformanceSegment = "high" | "medium" | "low";
+
+export interface OfferBroadcast {
+  id: string;
+  content: string;
+  targetStatuses: BroadcastStatus[];
+  targetSegments: PerformanceSegment[];
+  recipientCount: number;
+  delivered: number;
+  failed: number;
+  read: number;
+  createdAt: string;
+}
+
+const STATUS_OPTIONS: Array<{ value: BroadcastStatus; label: string }> = [
+  { value: "approved", label: "Approved" },
+  { value: "active", label: "Active" },
+  { value: "paused", label: "Paused" },
+  { value: "completed", label: "Completed" },
+];
+
+// Same labels as the performance tiers on the creators page
+const SEGMENT_OPTIONS: Array<{ value: PerformanceSegment; label: string }> = [
+  { value: "high", label: "High" },
+  { value: "medium", label: "Medium" },
+  { value: "low", label: "Needs Attention" },
+];
+
+function toggle<T>(values: T[], value: T, checked: boolean): T[] {
+  return checked ? [...values, value] : values.filter((item) => item !== value);
+}
+
+interface OfferBroadcastCardProps {
+  offerId: string;
+}
+
+export function OfferBroadcastCard({ offerId }: OfferBroadcastCardProps) {
+  const { toast } = useToast();
+  const [content, setContent] = useState("");
+  const [statuses, setStatuses] = useState<BroadcastStatus[]>(["approved", "active"]);
+  const [segments, setSegments] = useState<PerformanceSegment[]>([]);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  const { data: audience = [] } = useQuery<Array<{ applicationId: string; status: BroadcastStatus; segment: PerformanceSegment }>>({
+    queryKey: [`/api/offers/${offerId}/broadcasts/audience`],
+  });
+  const { data: broadcasts = [] } = useQuery<OfferBroadcast[]>({
+    queryKey: [`/api/offers/${offerId}/broadcasts`],
+    // Poll faster while a recent broadcast is still being delivered
+    refetchInterval: (query) =>
+      query.state.data?.some((broadcast) =>
+        broadcast.delivered + broadcast.failed < broadcast.recipientCount &&
+        Date.now() - new Date(broadcast.createdAt).getTime() < 60 * 60 * 1000)
+        ? 5000
+        : 60000,
+  });
+
+  const recipients = audience.filter(
+    (member) => statuses.includes(member.status) && (segments.length === 0 || segments.includes(member.segment)),
+  ).length;
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/offers/${offerId}/broadcasts`, {
+        content: content.trim(),
+        statuses,
+        segments,
+      });
+      return response.json() as Promise<OfferBroadcast>;
+    },
+    onSuccess: (broadcast) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/offers/${offerId}/broadcasts`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      setContent("");
+      setConfirmOpen(false);
+      toast({
+        title: "Broadcast queued",
+        description: `Sending to ${broadcast.recipientCount} ${broadcast.recipientCount === 1 ? "creator" : "creators"}. Delivery stats update below.`,
+      });
+    },
+    onError: (error: Error) => {
+      setConfirmOpen(false);
+      toast({ title: "Broadcast not sent", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="border-card-border" data-testid="card-offer-broadcast">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Megaphone className="h-5 w-5" />
+          Broadcast to Creators
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4">
+          <Textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            placeholder="Share a promo code, new assets or a deadline change with your creators..."
+            rows={4}
+            maxLength={5000}
+            data-testid="input-broadcast-message"
+          />
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Application status</p>
+              {STATUS_OPTIONS.map((option) => (
+                <div key={option.value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`broadcast-status-${option.value}`}
+                    checked={statuses.includes(option.value)}
+                    onCheckedChange={(checked) => setStatuses((current) => toggle(current, option.value, checked === true))}
+                  />
+                  <Label htmlFor={`broadcast-status-${option.value}`} className="text-sm font-normal">{option.label}</Label>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Performance <span className="text-muted-foreground font-normal">(none = all)</span></p>
+              {SEGMENT_OPTIONS.map((option) => (
+                <div key={option.value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`broadcast-segment-${option.value}`}
+                    checked={segments.includes(option.value)}
+                    onCheckedChange={(checked) => setSegments((current) => toggle(current, option.value, checked === true))}
+                  />
+                  <Label htmlFor={`broadcast-segment-${option.value}`} className="text-sm font-normal">{option.label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground" data-testid="text-broadcast-recipients">
+              {recipients} {recipients === 1 ? "creator" : "creators"} will receive this message
+            </p>
+            <Button
+              onClick={() => setConfirmOpen(true)}
+              disabled={!content.trim() || statuses.length === 0 || recipients === 0 || sendMutation.isPending}
+              data-testid="button-send-broadcast"
+            >
+              {sendMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              Send Broadcast
+            </Button>
+          </div>
+        </div>
+
+        {broadcasts.length > 0 && (
+          <div className="space-y-3 border-t pt-4">
+            <p className="text-sm font-medium">Past broadcasts</p>
+            {broadcasts.map((broadcast) => (
+              <div key={broadcast.id} className="rounded-md border p-3 space-y-2" data-testid={`broadcast-${broadcast.id}`}>
+                <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                  <span>{format(new Date(broadcast.createdAt), "MMM d, yyyy h:mm a")}</span>
+                  <div className="flex flex-wrap gap-1 justify-end">
+                    {broadcast.targetStatuses.map((status) => (
+                      <Badge key={status} variant="outline" className="capitalize">{status}</Badge>
+                    ))}
+                    {broadcast.targetSegments.map((segment) => (
+                      <Badge key={segment} variant="secondary">
+                        {SEGMENT_OPTIONS.find((option) => option.value === segment)?.label ?? segment}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <p className="text-sm whitespace-pre-wrap line-clamp-3">{broadcast.content}</p>
+                <div className="grid grid-cols-3 gap-2 text-center text-sm">
+                  <div>
+                    <div className="text-xs text-muted-foreground">Delivered</div>
+                    <div className="font-semibold">{broadcast.delivered} / {broadcast.recipientCount}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground">Read</div>
+                    <div className="font-semibold">
+                      {broadcast.read}
+                      {broadcast.delivered > 0 && ` (${((broadcast.read / broadcast.delivered) * 100).toFixed(0)}%)`}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground">Failed</div>
+                    <div className={`font-semibold ${broadcast.failed > 0 ? "text-destructive" : ""}`}>{broadcast.failed}</div>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Send to {recipients} {recipients === 1 ? "creator" : "creators"}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The message is sent into each creator's conversation for this offer and can't be recalled.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={sendMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                sendMutation.mutate();
+              }}
+              disabled={sendMutation.isPending}
+            >
+              {sendMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Send
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
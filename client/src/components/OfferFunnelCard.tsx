@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Filter } from "lucide-react";
+
+export interface OfferFunnelData {
+  offerId: string;
+  offerTitle: string;
+  views: number;
+  applications: number;
+  approved: number;
+  clicked: number;
+  converted: number;
+  medianHoursToFirstClick: number | null;
+  medianHoursToFirstConversion: number | null;
+}
+
+const STAGES: Array<{ key: keyof OfferFunnelData; label: string }> = [
+  { key: "views", label: "Offer Views" },
+  { key: "applications", label: "Applications" },
+  { key: "approved", label: "Approved" },
+  { key: "clicked", label: "First Click" },
+  { key: "converted", label: "First Conversion" },
+];
+
+const ALL_OFFERS = "all";
+
+function formatHours(hours: number | null) {
+  if (hours === null) return "—";
+  if (hours < 48) return `${hours.toFixed(1)}h`;
+  return `${(hours / 24).toFixed(1)}d`;
+}
+
+// Sum of every offer's stages; medians can't be combined, so they are left out
+function combineFunnels(funnels: OfferFunnelData[]): OfferFunnelData {
+  return funnels.reduce<OfferFunnelData>(
+    (total, funnel) => ({
+      ...total,
+      views: total.views + funnel.views,
+      applications: total.applications + funnel.applications,
+      approved: total.approved + funnel.approved,
+      clicked: total.clicked + funnel.clicked,
+      converted: total.converted + funnel.converted,
+    }),
+    {
+      offerId: ALL_OFFERS,
+      offerTitle: "All offers",
+      views: 0,
+      applications: 0,
+      approved: 0,
+      clicked: 0,
+      converted: 0,
+      medianHoursToFirstClick: null,
+      medianHoursToFirstConversion: null,
+    },
+  );
+}
+
+interface OfferFunnelCardProps {
+  // Shows just this offer; otherwise every offer of the company, with an offer picker
+  offerId?: string;
+}
+
+export function OfferFunnelCard({ offerId }: OfferFunnelCardProps) {
+  const [selectedOfferId, setSelectedOfferId] = useState(offerId ?? ALL_OFFERS);
+  const { data: funnels = [] } = useQuery<OfferFunnelData[]>({
+    queryKey: ["/api/analytics/funnel"],
+    enabled: !offerId,
+  });
+  const { data: singleFunnel } = useQuery<OfferFunnelData>({
+    queryKey: [`/api/offers/${offerId}/funnel`],
+    enabled: !!offerId,
+  });
+
+  const funnel = offerId
+    ? singleFunnel ?? combineFunnels([])
+    : selectedOfferId === ALL_OFFERS
+    ? combineFunnels(funnels)
+    : funnels.find((item) => item.offerId === selectedOfferId) ?? combineFunnels([]);
+  const top = Math.max(funnel.views, funnel.applications, 1);
+
+  return (
+    <Card className="border-card-border" data-testid="card-offer-funnel">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <CardTitle>Offer Funnel</CardTitle>
+        {!offerId && funnels.length > 0 && (
+          <Select value={selectedOfferId} onValueChange={setSelectedOfferId}>
+            <SelectTrigger className="w-56" data-testid="select-funnel-offer">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_OFFERS}>All offers</SelectItem>
+              {funnels.map((item) => (
+                <SelectItem key={item.offerId} value={item.offerId}>{item.offerTitle}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </CardHeader>
+      <CardContent>
+        {funnel.views > 0 || funnel.applications > 0 ? (
+          <div className="space-y-3">
+            {STAGES.map((stage, index) => {
+              const value = funnel[stage.key] as number;
+              const previous = index > 0 ? (funnel[STAGES[index - 1].key] as number) : null;
+              return (
+                <div key={stage.key} data-testid={`funnel-stage-${stage.key}`}>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="font-medium">{stage.label}</span>
+                    <span className="text-muted-foreground">
+                      {value.toLocaleString()}
+                      {previous !== null && previous > 0 && ` · ${((value / previous) * 100).toFixed(1)}% of previous`}
+                    </span>
+                  </div>
+                  <div className="h-3 rounded-full bg-muted overflow-hidden">
+                    <div className="h-full rounded-full bg-primary" style={{ width: `${(value / top) * 100}%` }} />
+                  </div>
+                </div>
+              );
+            })}
+            {selectedOfferId !== ALL_OFFERS && (
+              <div className="grid grid-cols-2 gap-4 pt-3 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Median approval → first click</p>
+                  <p className="font-semibold">{formatHours(funnel.medianHoursToFirstClick)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Median first click → first conversion</p>
+                  <p className="font-semibold">{formatHours(funnel.medianHoursToFirstConversion)}</p>
+                </div>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <Filter className="h-12 w-12 text-muted-foreground/50 mx-auto mb-4" />
+            <p className="text-muted-foreground">No funnel data yet</p>
+            <p className="text-sm text-muted-foreground mt-1">Views and applications on your offers will appear here.</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { useToast } from "../hooks/use-toast";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import { Copy, Sparkles, X } from "lucide-react";
+import { GenericErrorDialog } from "./GenericErrorDialog";
+
+interface VanitySlugEditorProps {
+  applicationId: string;
+  vanitySlug: string | null;
+  vanityLink: string | null;
+  // Link under the company's verified link domain, when it has one
+  brandedLink: string | null;
+}
+
+export function VanitySlugEditor({ applicationId, vanitySlug, vanityLink, brandedLink }: VanitySlugEditorProps) {
+  const { toast } = useToast();
+  const [slug, setSlug] = useState(vanitySlug || "");
+  const [editing, setEditing] = useState(false);
+  const [errorDialog, setErrorDialog] = useState<{ open: boolean; title?: string; description?: string }>({ open: false });
+
+  const refreshApplication = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/applications/${applicationId}`] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const response = await apiRequest("PUT", `/api/applications/${applicationId}/vanity-slug`, { slug: value });
+      return response.json();
+    },
+    onSuccess: () => {
+      refreshApplication();
+      setEditing(false);
+      toast({ title: "Success", description: "Vanity link saved" });
+    },
+    onError: (error: Error) => {
+      setErrorDialog({ open: true, title: "Could not save slug", description: error.message });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("DELETE", `/api/applications/${applicationId}/vanity-slug`);
+    },
+    onSuccess: () => {
+      refreshApplication();
+      setSlug("");
+      toast({ title: "Success", description: "Vanity link removed" });
+    },
+    onError: (error: Error) => {
+      setErrorDialog({ open: true, title: "Could not remove slug", description: error.message });
+    },
+  });
+
+  const copyLink = (link: string) => {
+    navigator.clipboard.writeText(link);
+    toast({ title: "Copied!", description: "Link copied to clipboard" });
+  };
+
+  const links = [
+    brandedLink && { label: "Branded link", url: brandedLink },
+    vanityLink && { label: "Vanity link", url: vanityLink },
+  ].filter(Boolean) as { label: string; url: string }[];
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-lg border border-blue-200 dark:border-blue-700 p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-semibold text-blue-700 dark:text-blue-300">
+          <Sparkles className="h-4 w-4" />
+          Vanity Link
+        </div>
+        {!editing && (
+          <Button size="sm" variant="outline" onClick={() => setEditing(true)}>
+            {vanitySlug ? "Change" : "Claim a slug"}
+          </Button>
+        )}
+      </div>
+
+      {links.map((link) => (
+        <div key={link.label} className="flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <div className="text-xs text-muted-foreground">{link.label}</div>
+            <code className="text-sm text-blue-600 dark:text-blue-400 break-all">{link.url}</code>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => copyLink(link.url)}>
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      {!vanitySlug && !editing && (
+        <p className="text-xs text-muted-foreground">
+          Swap the random code for a readable slug like <span className="font-mono">jane-techgear</span>. Your current link keeps working.
+        </p>
+      )}
+
+      {editing && (
+        <form
+          className="space-y-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            saveMutation.mutate(slug);
+          }}
+        >
+          <Label htmlFor="vanity-slug">Slug</Label>
+          <div className="flex gap-2">
+            <Input
+              id="vanity-slug"
+              placeholder="jane-techgear"
+              maxLength={40}
+              value={slug}
+              onChange={(event) => setSlug(event.target.value.toLowerCase())}
+            />
+            <Button type="submit" size="sm" disabled={saveMutation.isPending || slug.length < 3}>
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+            <Button type="button" size="sm" variant="ghost" onClick={() => { setEditing(false); setSlug(vanitySlug || ""); }}>
+              Cancel
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            3–40 lower-case letters, numbers and hyphens.
+            {vanitySlug && " Changing it stops links that use the old slug from working."}
+          </p>
+          {vanitySlug && (
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="text-destructive"
+              disabled={removeMutation.isPending}
+              onClick={() => removeMutation.mutate()}
+            >
+              <X className="h-4 w-4 mr-1" />
+              Remove slug
+            </Button>
+          )}
+        </form>
+      )}
+
+      <GenericErrorDialog
+        open={errorDialog.open}
+        onOpenChange={(open) => setErrorDialog({ open })}
+        title={errorDialog.title}
+        description={errorDialog.description}
+        variant="error"
+      />
+    </div>
+  );
+}
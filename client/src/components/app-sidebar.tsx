@@ -49,6 +49,9 @@ import {
   Ban,
   Mail,
   BarChart3,
+  BookOpen,
+  Wallet,
+  ShieldX,
 } from "lucide-react";
 
 export function AppSidebar() {
@@ -151,6 +154,11 @@ export function AppSidebar() {
       url: "/company/payment-settings",
       icon: DollarSign,
     },
+    {
+      title: "Wallet",
+      url: "/company/wallet",
+      icon: Wallet,
+    },
   ];
 
   const adminItems = [
@@ -224,6 +232,16 @@ export function AppSidebar() {
           url: "/admin/payment-disputes",
           icon: AlertCircle,
         },
+        {
+          title: "Ledger",
+          url: "/admin/ledger",
+          icon: BookOpen,
+        },
+        {
+          title: "Fraud Review",
+          url: "/admin/fraud",
+          icon: ShieldX,
+        },
       ],
     },
     {
@@ -0,0 +1,105 @@
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+
+export interface LiveAnalyticsEvent {
+  type: "click" | "conversion";
+  id: string | null;
+  applicationId: string;
+  offerId: string;
+  offerTitle: string;
+  creatorId: string;
+  companyId: string;
+  country: string | null;
+  fraudScore: number;
+  // Clicks
+  fraudBlocked?: boolean;
+  geoBlocked?: boolean;
+  utmSource?: string | null;
+  utmMedium?: string | null;
+  utmCampaign?: string | null;
+  // Conversions
+  status?: string;
+  source?: string;
+  saleAmount?: string | null;
+  earnings?: string;
+  currency?: string;
+  sub1: string | null;
+  timestamp: string;
+}
+
+export type LiveConnectionState = "connecting" | "live" | "offline";
+
+const MAX_EVENTS = 50;
+
+// Aggregates are re-fetched at most this often while events stream in
+const REFRESH_DEBOUNCE_MS = 3000;
+
+const DEFAULT_REFRESH_KEYS = ["/api/analytics"];
+
+/**
+ * Subscribe to the live click/conversion feed (GET /api/analytics/live) and refresh the aggregate
+ * queries under refreshKeys as events arrive, optionally limited to one application
+ */
+export function useLiveAnalytics(options: { applicationId?: string; enabled?: boolean; refreshKeys?: string[] } = {}) {
+  const { applicationId, enabled = true, refreshKeys = DEFAULT_REFRESH_KEYS } = options;
+  const refreshKeysRef = useRef(refreshKeys);
+  refreshKeysRef.current = refreshKeys;
+  const queryClient = useQueryClient();
+  const [events, setEvents] = useState<LiveAnalyticsEvent[]>([]);
+  const [counts, setCounts] = useState({ clicks: 0, conversions: 0 });
+  const [state, setState] = useState<LiveConnectionState>("connecting");
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === "undefined") {
+      setState("offline");
+      return;
+    }
+
+    const source = new EventSource("/api/analytics/live", { withCredentials: true });
+
+    const handle = (message: MessageEvent) => {
+      let event: LiveAnalyticsEvent;
+      try {
+        event = JSON.parse(message.data);
+      } catch {
+        return;
+      }
+      if (applicationId && event.applicationId !== applicationId) return;
+
+      setEvents((previous) => [event, ...previous].slice(0, MAX_EVENTS));
+      // Fraud- and geo-blocked clicks don't count toward analytics either
+      if (event.type === "click" && !event.fraudBlocked && !event.geoBlocked) {
+        setCounts((previous) => ({ ...previous, clicks: previous.clicks + 1 }));
+      }
+      if (event.type === "conversion" && event.status === "credited") {
+        setCounts((previous) => ({ ...previous, conversions: previous.conversions + 1 }));
+      }
+
+      if (!refreshTimer.current) {
+        refreshTimer.current = setTimeout(() => {
+          refreshTimer.current = null;
+          for (const key of refreshKeysRef.current) {
+            queryClient.invalidateQueries({ queryKey: [key] });
+          }
+        }, REFRESH_DEBOUNCE_MS);
+      }
+    };
+
+    source.addEventListener("ready", () => setState("live"));
+    source.addEventListener("click", handle as EventListener);
+    source.addEventListener("conversion", handle as EventListener);
+    // EventSource reconnects on its own; show offline until it does
+    source.onerror = () => setState(source.readyState === EventSource.CLOSED ? "offline" : "connecting");
+
+    return () => {
+      source.close();
+      if (refreshTimer.current) {
+        clearTimeout(refreshTimer.current);
+        refreshTimer.current = null;
+      }
+    };
+  }, [applicationId, enabled, queryClient]);
+
+  return { events, counts, state };
+}
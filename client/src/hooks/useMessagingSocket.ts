@@ -0,0 +1,137 @@
+import { useEffect, useRef, useState } from "react";
+
+export interface SocketMessage {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  content: string;
+  attachments?: string[];
+  createdAt: string;
+  isRead: boolean;
+  readAt?: string | null;
+  senderType?: "user" | "platform";
+}
+
+export type MessagingSocketEvent =
+  | { type: "new_message"; message: SocketMessage }
+  | { type: "messages_read"; conversationId: string; readBy: string; messageIds: string[]; readAt: string }
+  | { type: "user_typing" | "user_stop_typing"; conversationId: string; userId: string }
+  | { type: "unread_counts"; conversationId: string; creatorUnreadCount: number; companyUnreadCount: number }
+  | { type: "message_rejected"; conversationId: string; error: string };
+
+export type MessagingConnectionState = "connecting" | "live" | "offline";
+
+const RECONNECT_DELAY_MS = 3000;
+
+// One socket per tab, shared by every component that listens (messages page, header, notifications)
+let socket: WebSocket | null = null;
+let state: MessagingConnectionState = "offline";
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+const eventListeners = new Set<(event: MessagingSocketEvent) => void>();
+const stateListeners = new Set<(state: MessagingConnectionState) => void>();
+
+function setState(next: MessagingConnectionState) {
+  state = next;
+  stateListeners.forEach((listener) => listener(next));
+}
+
+function connect() {
+  if (socket || eventListeners.size === 0) return;
+
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  setState("connecting");
+
+  let current: WebSocket;
+  try {
+    current = new WebSocket(`${protocol}//${window.location.host}/ws`);
+  } catch (error) {
+    console.error("WebSocket connection error:", error);
+    setState("offline");
+    scheduleReconnect();
+    return;
+  }
+  socket = current;
+
+  current.onopen = () => {
+    if (current === socket) setState("live");
+  };
+
+  current.onmessage = (message) => {
+    let event: MessagingSocketEvent;
+    try {
+      event = JSON.parse(message.data);
+    } catch (error) {
+      console.error("WebSocket message parse error:", error);
+      return;
+    }
+    eventListeners.forEach((listener) => listener(event));
+  };
+
+  current.onerror = (error) => {
+    console.error("WebSocket error:", error);
+  };
+
+  current.onclose = () => {
+    if (current !== socket) return;
+    socket = null;
+    setState("offline");
+    scheduleReconnect();
+  };
+}
+
+function scheduleReconnect() {
+  if (reconnectTimer || eventListeners.size === 0) return;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    connect();
+  }, RECONNECT_DELAY_MS);
+}
+
+function disconnect() {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  const current = socket;
+  socket = null;
+  current?.close();
+  setState("offline");
+}
+
+/**
+ * Send a client event (chat_message, typing_start, typing_stop, mark_read) over the messaging
+ * socket. Returns false when it is not connected, so the caller can fall back to the REST API.
+ */
+export function sendMessagingEvent(payload: Record<string, unknown>): boolean {
+  if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+  socket.send(JSON.stringify(payload));
+  return true;
+}
+
+/**
+ * Listen to the shared /ws messaging socket while enabled. The socket opens with the first
+ * listener, reconnects on its own and closes when the last listener unmounts.
+ */
+export function useMessagingSocket(onEvent: (event: MessagingSocketEvent) => void, enabled = true) {
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+  const [connectionState, setConnectionState] = useState<MessagingConnectionState>(state);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const listener = (event: MessagingSocketEvent) => onEventRef.current(event);
+    eventListeners.add(listener);
+    stateListeners.add(setConnectionState);
+    setConnectionState(state);
+    connect();
+
+    return () => {
+      eventListeners.delete(listener);
+      stateListeners.delete(setConnectionState);
+      if (eventListeners.size === 0) disconnect();
+    };
+  }, [enabled]);
+
+  return { state: enabled ? connectionState : ("offline" as MessagingConnectionState), send: sendMessagingEvent };
+}
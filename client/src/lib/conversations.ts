@@ -0,0 +1,21 @@
+export type ConversationContext = "application" | "outreach" | "retainer_contract" | "retainer_application";
+
+// What a conversation is about, for conversation lists and headers
+export function conversationSubject(conversation: {
+  contextType?: ConversationContext | null;
+  offerTitle?: string | null;
+  retainerContractTitle?: string | null;
+}): string {
+  switch (conversation.contextType) {
+    case "outreach":
+      return conversation.offerTitle || conversation.retainerContractTitle
+        ? `Outreach · ${conversation.offerTitle || conversation.retainerContractTitle}`
+        : "Outreach";
+    case "retainer_application":
+      return `Retainer application · ${conversation.retainerContractTitle || "Retainer"}`;
+    case "retainer_contract":
+      return `Retainer · ${conversation.retainerContractTitle || "Contract"}`;
+    default:
+      return conversation.offerTitle || "";
+  }
+}
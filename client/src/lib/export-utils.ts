@@ -276,6 +276,27 @@ export function savePDF(doc: jsPDF, filename: string): void {
 
 // ================== Analytics Export Functions ==================
 
+export interface DeviceBreakdownData {
+  totalClicks: number;
+  devices: Array<{ name: string; clicks: number }>;
+  operatingSystems: Array<{ name: string; clicks: number }>;
+  browsers: Array<{ name: string; clicks: number }>;
+}
+
+// Rows of [Breakdown, Value, Clicks, Share] for the device, OS and browser lists
+export function deviceBreakdownRows(breakdown: DeviceBreakdownData): string[][] {
+  const share = (clicks: number) =>
+    breakdown.totalClicks > 0 ? formatPercent((clicks / breakdown.totalClicks) * 100) : formatPercent(0);
+  const sections: Array<[string, Array<{ name: string; clicks: number }>]> = [
+    ['Device', breakdown.devices],
+    ['OS', breakdown.operatingSystems],
+    ['Browser', breakdown.browsers],
+  ];
+  return sections.flatMap(([label, items]) =>
+    items.map((item) => [label, item.name, formatNumber(item.clicks), share(item.clicks)])
+  );
+}
+
 export interface AnalyticsData {
   totalEarnings?: number;
   totalSpent?: number;
@@ -313,6 +334,7 @@ export interface AnalyticsData {
   };
   acquisitionSources?: Array<{ source: string; creators: number }>;
   geography?: Array<{ country: string; count: number }>;
+  deviceBreakdown?: DeviceBreakdownData | null;
   applicationsTimeline?: Array<{
     date: string;
     total: number;
@@ -525,6 +547,28 @@ export function exportAnalyticsPDF(
       body: geoData,
       startY: y,
     });
+
+    y += 5;
+  }
+
+  // Audience Devices
+  if (analytics.deviceBreakdown && analytics.deviceBreakdown.totalClicks > 0) {
+    if (y > 230) {
+      doc.addPage();
+      y = 20;
+    }
+
+    y = addSectionHeader(doc, 'Audience Devices', y);
+
+    y = addTable(doc, {
+      head: [['Breakdown', 'Value', 'Clicks', 'Share']],
+      body: deviceBreakdownRows(analytics.deviceBreakdown),
+      startY: y,
+      columnStyles: {
+        2: { halign: 'right' },
+        3: { halign: 'right' },
+      },
+    });
   }
 
   // Save the PDF
@@ -1156,3 +1200,118 @@ export function exportConversationJSON(data: ConversationExportData): void {
   document.body.removeChild(link);
   window.URL.revokeObjectURL(url);
 }
+
+// ================== Tax Summary Export Functions ==================
+
+export interface TaxSummaryExportData {
+  taxYear: number;
+  reportType: string;
+  recipientName?: string | null;
+  recipientCountry?: string | null;
+  recipientAddress?: string | null;
+  tinType?: string | null;
+  tinLast4?: string | null;
+  currency: string;
+  grossAmount: string;
+  feesAmount: string;
+  netAmount: string;
+  affiliateAmount: string;
+  retainerAmount: string;
+  paymentCount: number;
+  monthlyGross?: number[] | null;
+  currencyTotals?: Record<string, number> | null;
+}
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+export function exportTaxSummaryPDF(summary: TaxSummaryExportData): void {
+  const title = summary.reportType === '1099-NEC'
+    ? `Form 1099-NEC Summary ${summary.taxYear}`
+    : `Annual Earnings Summary ${summary.taxYear}`;
+
+  const doc = createPDFDocument({
+    title,
+    subtitle: 'Nonemployee compensation paid by AffiliateXchange',
+    dateRange: `Jan 1 - Dec 31, ${summary.taxYear}`,
+  });
+
+  let y = 45;
+
+  y = addSectionHeader(doc, 'Recipient', y);
+  y = addTable(doc, {
+    head: [['Field', 'Value']],
+    body: [
+      ['Name', summary.recipientName || 'Tax profile not on file'],
+      ['Address', summary.recipientAddress || '-'],
+      ['Country', summary.recipientCountry || '-'],
+      ['Taxpayer ID', summary.tinLast4 ? `${(summary.tinType || 'TIN').toUpperCase()} ending ${summary.tinLast4}` : '-'],
+      ['Report Type', summary.reportType],
+    ],
+    startY: y,
+    theme: 'plain',
+  }) + 8;
+
+  y = addSectionHeader(doc, `Totals (${summary.currency})`, y);
+  y = addMetricsGrid(doc, [
+    { label: 'Gross Compensation (Box 1)', value: formatCurrency(summary.grossAmount) },
+    { label: 'Platform & Processing Fees', value: formatCurrency(summary.feesAmount) },
+    { label: 'Net Paid', value: formatCurrency(summary.netAmount) },
+    { label: 'Payments', value: formatNumber(summary.paymentCount) },
+  ], y);
+
+  y = addTable(doc, {
+    head: [['Source', 'Gross']],
+    body: [
+      ['Affiliate commissions', formatCurrency(summary.affiliateAmount)],
+      ['Retainer contracts', formatCurrency(summary.retainerAmount)],
+    ],
+    startY: y,
+    columnStyles: { 1: { halign: 'right' } },
+  }) + 8;
+
+  if (summary.monthlyGross && summary.monthlyGross.length === 12) {
+    y = addSectionHeader(doc, 'Gross by Month', y);
+    y = addTable(doc, {
+      head: [['Month', 'Gross']],
+      body: summary.monthlyGross.map((amount, i) => [MONTH_NAMES[i], formatCurrency(amount)]),
+      startY: y,
+      columnStyles: { 1: { halign: 'right' } },
+    }) + 8;
+  }
+
+  if (y > 250) {
+    doc.addPage();
+    y = 20;
+  }
+  addParagraph(
+    doc,
+    'This summary is provided for your records. Amounts paid in other currencies are converted to USD. ' +
+      'Report the gross amount as self-employment income; platform and processing fees may be deductible business expenses.',
+    y,
+    { fontSize: 8, color: COLORS.muted }
+  );
+
+  savePDF(doc, `tax-summary-${summary.taxYear}`);
+}
+
+export function exportTaxSummaryCSV(summary: TaxSummaryExportData): void {
+  const headers = ['Field', 'Value'];
+  const rows = [
+    ['Tax Year', String(summary.taxYear)],
+    ['Report Type', summary.reportType],
+    ['Recipient', summary.recipientName || ''],
+    ['Country', summary.recipientCountry || ''],
+    ['Address', summary.recipientAddress || ''],
+    ['TIN (last 4)', summary.tinLast4 || ''],
+    ['Currency', summary.currency],
+    ['Gross Compensation', summary.grossAmount],
+    ['Fees', summary.feesAmount],
+    ['Net Paid', summary.netAmount],
+    ['Affiliate', summary.affiliateAmount],
+    ['Retainer', summary.retainerAmount],
+    ['Payments', String(summary.paymentCount)],
+    ...(summary.monthlyGross || []).map((amount, i) => [`Gross ${MONTH_NAMES[i]}`, amount.toFixed(2)]),
+  ];
+
+  downloadCSV(rows, `tax-summary-${summary.taxYear}`, headers);
+}
@@ -0,0 +1,468 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useAuth } from "../hooks/useAuth";
+import { useToast } from "../hooks/use-toast";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
+import { Badge } from "../components/ui/badge";
+import { Button } from "../components/ui/button";
+import { Checkbox } from "../components/ui/checkbox";
+import { Input } from "../components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../components/ui/select";
+import { ShieldAlert, CheckCircle, XCircle, PauseCircle } from "lucide-react";
+import { format } from "date-fns";
+import { TopNavBar } from "../components/TopNavBar";
+
+type FraudReview = {
+  id: string;
+  itemType: "click" | "conversion";
+  creatorId: string;
+  creatorName: string;
+  offerId: string;
+  offerTitle: string | null;
+  fraudScore: number;
+  fraudFlags: string | null;
+  reason: string | null;
+  status: "pending" | "approved" | "invalidated";
+  reviewNotes: string | null;
+  createdAt: string | null;
+  ipAddress: string | null;
+  country: string | null;
+  orderId: string | null;
+  earnings: string | null;
+  currency: string | null;
+  conversionStatus: "credited" | "reversed" | "pending_verification" | "rejected" | null;
+};
+
+type FraudRates = {
+  groupBy: "creator" | "offer";
+  days: number;
+  threshold: number;
+  rates: Array<{
+    id: string;
+    name: string;
+    totalClicks: number;
+    flaggedClicks: number;
+    fraudulentClicks: number;
+    fraudRate: number;
+  }>;
+};
+
+type FraudStats = {
+  totalClicks: number;
+  flaggedClicks: number;
+  blockedClicks: number;
+  pendingReviews: number;
+  fraudRate: number;
+};
+
+type PayoutHold = {
+  id: string;
+  creatorId: string;
+  creatorName: string;
+  reason: string;
+  fraudRate: string | null;
+  createdAt: string | null;
+};
+
+const flagLabels: Record<string, string> = {
+  rate_limit_exceeded: "Rate limit",
+  bot_user_agent: "Bot",
+  suspicious_ip: "Suspicious IP",
+  repeated_clicks: "Repeated clicks",
+  no_user_agent: "No user agent",
+  no_referer: "No referer",
+  datacenter_ip: "Datacenter IP",
+  conversion_without_click: "No prior click",
+  fast_conversion: "Fast conversion",
+  duplicate_order_id: "Duplicate order id",
+  sale_amount_outlier: "Sale amount outlier",
+  conversion_burst: "Conversion burst",
+  conversion_ip_without_click: "IP never clicked",
+  pixel_without_click: "Pixel without click",
+};
+
+export default function AdminFraudReview() {
+  const { isAuthenticated, isLoading, user } = useAuth();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<FraudReview["status"]>("pending");
+  const [itemType, setItemType] = useState("all");
+  const [groupBy, setGroupBy] = useState<"creator" | "offer">("creator");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [notes, setNotes] = useState("");
+
+  const isAdmin = isAuthenticated && user?.role === "admin";
+
+  const params = new URLSearchParams({ status });
+  if (itemType !== "all") params.set("itemType", itemType);
+  const reviewsKey = `/api/admin/fraud/reviews?${params.toString()}`;
+
+  const { data: reviews = [], isLoading: reviewsLoading } = useQuery<FraudReview[]>({
+    queryKey: [reviewsKey],
+    enabled: isAdmin,
+  });
+
+  const { data: stats } = useQuery<FraudStats>({
+    queryKey: ["/api/admin/fraud/stats?days=30"],
+    enabled: isAdmin,
+  });
+
+  const { data: rates } = useQuery<FraudRates>({
+    queryKey: [`/api/admin/fraud/rates?groupBy=${groupBy}`],
+    enabled: isAdmin,
+  });
+
+  const { data: holds = [] } = useQuery<PayoutHold[]>({
+    queryKey: ["/api/admin/fraud/payout-holds"],
+    enabled: isAdmin,
+  });
+
+  const refreshFraudQueries = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/fraud/"),
+    });
+  };
+
+  const resolveMutation = useMutation({
+    mutationFn: async (action: "approve" | "invalidate") => {
+      const res = await apiRequest("POST", "/api/admin/fraud/reviews/resolve", {
+        reviewIds: selectedIds,
+        action,
+        notes: notes.trim() || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: (result: { resolved: number; reversedConversions: number; verifiedConversions: number; holdChanges: Record<string, string> }, action) => {
+      refreshFraudQueries();
+      setSelectedIds([]);
+      setNotes("");
+      const holdsPlaced = Object.values(result.holdChanges).filter((change) => change === "placed").length;
+      const holdsReleased = Object.values(result.holdChanges).filter((change) => change === "released").length;
+      toast({
+        title: `${result.resolved} review${result.resolved === 1 ? "" : "s"} resolved`,
+        description: [
+          result.reversedConversions > 0 && `${result.reversedConversions} conversion(s) reversed`,
+          result.verifiedConversions > 0 &&
+            `${result.verifiedConversions} held conversion(s) ${action === "approve" ? "credited" : "rejected"}`,
+          holdsPlaced > 0 && `${holdsPlaced} payout hold(s) placed`,
+          holdsReleased > 0 && `${holdsReleased} payout hold(s) released`,
+        ].filter(Boolean).join(", ") || "Analytics have been updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: async (holdId: string) => {
+      return await apiRequest("POST", `/api/admin/fraud/payout-holds/${holdId}/release`);
+    },
+    onSuccess: () => {
+      refreshFraudQueries();
+      toast({ title: "Payout hold released", description: "The creator can be paid again." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-pulse text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return null;
+  }
+
+  const allSelected = reviews.length > 0 && selectedIds.length === reviews.length;
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(checked ? [...selectedIds, id] : selectedIds.filter((selected) => selected !== id));
+  };
+
+  return (
+    <div className="space-y-6">
+      <TopNavBar />
+
+      <div>
+        <h1 className="text-3xl font-bold">Fraud Review</h1>
+        <p className="text-muted-foreground mt-2">
+          Review flagged clicks and conversions, track fraud rates and manage creator payout holds
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Pending Reviews</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats?.pendingReviews ?? 0}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Flagged Clicks (30d)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats?.flaggedClicks ?? 0}</div>
+            <p className="text-xs text-muted-foreground mt-1">of {stats?.totalClicks ?? 0} clicks</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Fraudulent Clicks (30d)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats?.blockedClicks ?? 0}</div>
+            <p className="text-xs text-muted-foreground mt-1">{(stats?.fraudRate ?? 0).toFixed(2)}% fraud rate</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Payout Holds</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{holds.length}</div>
+            <p className="text-xs text-muted-foreground mt-1">Threshold {rates?.threshold ?? "-"}% fraud rate</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+            <CardTitle className="text-lg">Review Queue</CardTitle>
+            <div className="flex items-center gap-2">
+              <Select value={status} onValueChange={(value) => { setStatus(value as FraudReview["status"]); setSelectedIds([]); }}>
+                <SelectTrigger className="w-36" data-testid="select-fraud-review-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="approved">Approved</SelectItem>
+                  <SelectItem value="invalidated">Invalidated</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={itemType} onValueChange={(value) => { setItemType(value); setSelectedIds([]); }}>
+                <SelectTrigger className="w-36" data-testid="select-fraud-review-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All items</SelectItem>
+                  <SelectItem value="click">Clicks</SelectItem>
+                  <SelectItem value="conversion">Conversions</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {status === "pending" && (
+            <div className="flex flex-col gap-2 md:flex-row md:items-center">
+              <Input
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Review notes (optional)"
+                className="md:max-w-sm"
+                data-testid="input-fraud-review-notes"
+              />
+              <Button
+                variant="outline"
+                className="gap-1"
+                disabled={selectedIds.length === 0 || resolveMutation.isPending}
+                onClick={() => resolveMutation.mutate("approve")}
+                data-testid="button-approve-reviews"
+              >
+                <CheckCircle className="h-4 w-4" />
+                Approve ({selectedIds.length})
+              </Button>
+              <Button
+                variant="destructive"
+                className="gap-1"
+                disabled={selectedIds.length === 0 || resolveMutation.isPending}
+                onClick={() => resolveMutation.mutate("invalidate")}
+                data-testid="button-invalidate-reviews"
+              >
+                <XCircle className="h-4 w-4" />
+                Invalidate ({selectedIds.length})
+              </Button>
+            </div>
+          )}
+
+          {reviewsLoading ? (
+            <div className="animate-pulse text-muted-foreground">Loading reviews...</div>
+          ) : reviews.length === 0 ? (
+            <div className="py-12 text-center">
+              <ShieldAlert className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No {status} reviews</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-xs uppercase text-muted-foreground">
+                    {status === "pending" && (
+                      <th className="py-2 pr-4">
+                        <Checkbox
+                          checked={allSelected}
+                          onCheckedChange={(checked) => setSelectedIds(checked ? reviews.map((review) => review.id) : [])}
+                          data-testid="checkbox-select-all-reviews"
+                        />
+                      </th>
+                    )}
+                    <th className="py-2 pr-4">Flagged</th>
+                    <th className="py-2 pr-4">Item</th>
+                    <th className="py-2 pr-4">Creator</th>
+                    <th className="py-2 pr-4">Offer</th>
+                    <th className="py-2 pr-4">Score</th>
+                    <th className="py-2">Signals</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reviews.map((review) => (
+                    <tr key={review.id} className="border-b align-top">
+                      {status === "pending" && (
+                        <td className="py-2 pr-4">
+                          <Checkbox
+                            checked={selectedIds.includes(review.id)}
+                            onCheckedChange={(checked) => toggleSelected(review.id, checked === true)}
+                            data-testid={`checkbox-review-${review.id}`}
+                          />
+                        </td>
+                      )}
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        {review.createdAt ? format(new Date(review.createdAt), "MMM d, HH:mm") : "-"}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <Badge variant="outline" className="capitalize">{review.itemType}</Badge>
+                        {review.conversionStatus === "pending_verification" && (
+                          <Badge variant="outline" className="ml-1 border-amber-500 text-amber-700">Held</Badge>
+                        )}
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {review.itemType === "click"
+                            ? `${review.ipAddress || "-"}${review.country ? ` (${review.country})` : ""}`
+                            : `${review.orderId ? `Order ${review.orderId} · ` : ""}${review.earnings ?? "0"} ${review.currency ?? ""}`}
+                        </div>
+                      </td>
+                      <td className="py-2 pr-4">{review.creatorName}</td>
+                      <td className="py-2 pr-4">{review.offerTitle || "-"}</td>
+                      <td className="py-2 pr-4">
+                        <Badge variant={review.fraudScore >= 50 ? "destructive" : "secondary"}>{review.fraudScore}</Badge>
+                      </td>
+                      <td className="py-2">
+                        <div className="flex flex-wrap gap-1">
+                          {(review.fraudFlags || "").split(",").filter(Boolean).map((flag) => (
+                            <Badge key={flag} variant="outline">{flagLabels[flag] || flag}</Badge>
+                          ))}
+                        </div>
+                        {review.reason && <div className="text-xs text-muted-foreground mt-1">{review.reason}</div>}
+                        {review.reviewNotes && <div className="text-xs mt-1">Notes: {review.reviewNotes}</div>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg">Fraud Rates (last {rates?.days ?? 30} days)</CardTitle>
+              <Select value={groupBy} onValueChange={(value) => setGroupBy(value as "creator" | "offer")}>
+                <SelectTrigger className="w-32" data-testid="select-fraud-rate-group">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="creator">By creator</SelectItem>
+                  <SelectItem value="offer">By offer</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {!rates || rates.rates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No flagged traffic in this period.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-xs uppercase text-muted-foreground">
+                    <th className="py-2 pr-4">{groupBy === "creator" ? "Creator" : "Offer"}</th>
+                    <th className="py-2 pr-4 text-right">Clicks</th>
+                    <th className="py-2 pr-4 text-right">Flagged</th>
+                    <th className="py-2 pr-4 text-right">Fraudulent</th>
+                    <th className="py-2 text-right">Rate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rates.rates.map((row) => (
+                    <tr key={row.id} className="border-b">
+                      <td className="py-2 pr-4">{row.name}</td>
+                      <td className="py-2 pr-4 text-right">{row.totalClicks}</td>
+                      <td className="py-2 pr-4 text-right">{row.flaggedClicks}</td>
+                      <td className="py-2 pr-4 text-right">{row.fraudulentClicks}</td>
+                      <td className={`py-2 text-right font-medium ${row.fraudRate >= rates.threshold ? "text-destructive" : ""}`}>
+                        {row.fraudRate.toFixed(2)}%
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Active Payout Holds</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {holds.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No creators have payouts on hold.</p>
+            ) : (
+              <div className="space-y-3">
+                {holds.map((hold) => (
+                  <div key={hold.id} className="flex items-start justify-between gap-4 rounded-lg border p-3">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2 font-medium">
+                        <PauseCircle className="h-4 w-4 text-destructive" />
+                        {hold.creatorName}
+                      </div>
+                      <p className="text-xs text-muted-foreground">{hold.reason}</p>
+                      {hold.createdAt && (
+                        <p className="text-xs text-muted-foreground">Since {format(new Date(hold.createdAt), "MMM d, yyyy")}</p>
+                      )}
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={releaseMutation.isPending}
+                      onClick={() => releaseMutation.mutate(hold.id)}
+                      data-testid={`button-release-hold-${hold.id}`}
+                    >
+                      Release
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
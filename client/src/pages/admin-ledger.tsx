@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "../hooks/useAuth";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
+import { Badge } from "../components/ui/badge";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../components/ui/select";
+import { BookOpen, CheckCircle, AlertCircle, ArrowLeft } from "lucide-react";
+import { format } from "date-fns";
+import { TopNavBar } from "../components/TopNavBar";
+
+type LedgerAccount = {
+  id: string;
+  code: string;
+  type: "asset" | "liability" | "revenue" | "expense";
+  ownerId: string | null;
+  currency: string;
+  name: string;
+};
+
+type TrialBalance = {
+  asOf: string;
+  rows: Array<{ account: LedgerAccount; debit: number; credit: number; balance: number }>;
+  totals: Array<{ currency: string; debit: number; credit: number; balanced: boolean }>;
+};
+
+type AccountStatement = {
+  account: LedgerAccount;
+  openingBalance: number;
+  closingBalance: number;
+  lines: Array<{
+    entryId: string;
+    transactionId: string;
+    eventType: string;
+    description: string | null;
+    paymentId: string | null;
+    createdAt: string | null;
+    debit: number;
+    credit: number;
+    balance: number;
+  }>;
+};
+
+const eventLabels: Record<string, string> = {
+  accrual: "Accrual",
+  accrual_reversal: "Reversal",
+  payout: "Payout",
+  refund: "Refund",
+  top_up: "Top-up",
+};
+
+const formatAmount = (value: number) =>
+  value === 0 ? "-" : value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+function AccountStatementView({ accountId, onBack }: { accountId: string; onBack: () => void }) {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const params = new URLSearchParams();
+  if (from) params.set("from", from);
+  if (to) params.set("to", `${to}T23:59:59`);
+  const query = params.toString();
+
+  const { data: statement, isLoading } = useQuery<AccountStatement>({
+    queryKey: [`/api/admin/ledger/accounts/${accountId}/statement${query ? `?${query}` : ""}`],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="sm" onClick={onBack}>
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Trial balance
+            </Button>
+            <CardTitle className="text-lg">
+              {statement?.account.name || "Account statement"}
+              {statement && <span className="ml-2 text-sm text-muted-foreground">{statement.account.currency}</span>}
+            </CardTitle>
+          </div>
+          <div className="flex items-center gap-2">
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-40" />
+            <span className="text-muted-foreground">to</span>
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-40" />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !statement ? (
+          <div className="animate-pulse text-muted-foreground">Loading statement...</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-xs uppercase text-muted-foreground">
+                  <th className="py-2 pr-4">Date</th>
+                  <th className="py-2 pr-4">Event</th>
+                  <th className="py-2 pr-4">Description</th>
+                  <th className="py-2 pr-4">Payment</th>
+                  <th className="py-2 pr-4 text-right">Debit</th>
+                  <th className="py-2 pr-4 text-right">Credit</th>
+                  <th className="py-2 text-right">Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="border-b bg-muted/50">
+                  <td className="py-2 pr-4" colSpan={6}>Opening balance</td>
+                  <td className="py-2 text-right font-medium">{formatAmount(statement.openingBalance)}</td>
+                </tr>
+                {statement.lines.map((line) => (
+                  <tr key={line.entryId} className="border-b">
+                    <td className="py-2 pr-4 whitespace-nowrap">
+                      {line.createdAt ? format(new Date(line.createdAt), "MMM d, yyyy HH:mm") : "-"}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <Badge variant="outline">{eventLabels[line.eventType] || line.eventType}</Badge>
+                    </td>
+                    <td className="py-2 pr-4">{line.description}</td>
+                    <td className="py-2 pr-4 font-mono text-xs">{line.paymentId ? line.paymentId.slice(0, 8) : "-"}</td>
+                    <td className="py-2 pr-4 text-right">{formatAmount(line.debit)}</td>
+                    <td className="py-2 pr-4 text-right">{formatAmount(line.credit)}</td>
+                    <td className="py-2 text-right">{formatAmount(line.balance)}</td>
+                  </tr>
+                ))}
+                <tr className="bg-muted/50 font-semibold">
+                  <td className="py-2 pr-4" colSpan={6}>Closing balance</td>
+                  <td className="py-2 text-right">{formatAmount(statement.closingBalance)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AdminLedger() {
+  const { isAuthenticated, isLoading, user } = useAuth();
+  const [currency, setCurrency] = useState("all");
+  const [asOf, setAsOf] = useState("");
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
+
+  const { data: currencyData } = useQuery<{ currencies: string[] }>({
+    queryKey: ["/api/currencies"],
+  });
+
+  const params = new URLSearchParams();
+  if (currency !== "all") params.set("currency", currency);
+  if (asOf) params.set("asOf", `${asOf}T23:59:59`);
+  const query = params.toString();
+
+  const { data: trialBalance, isLoading: balanceLoading } = useQuery<TrialBalance>({
+    queryKey: [`/api/admin/ledger/trial-balance${query ? `?${query}` : ""}`],
+    enabled: isAuthenticated && user?.role === "admin",
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-pulse text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || user?.role !== "admin") {
+    return null;
+  }
+
+  const currencies = Array.from(new Set((trialBalance?.rows || []).map((row) => row.account.currency)));
+
+  return (
+    <div className="space-y-6">
+      <TopNavBar />
+
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Ledger</h1>
+          <p className="text-muted-foreground mt-2">
+            Double-entry record of every accrual, payout, reversal, refund and wallet top-up
+          </p>
+        </div>
+        {!selectedAccountId && (
+          <div className="flex items-center gap-2">
+            <Select value={currency} onValueChange={setCurrency}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All currencies</SelectItem>
+                {(currencyData?.currencies || []).map((code) => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} className="w-40" title="As of" />
+          </div>
+        )}
+      </div>
+
+      {selectedAccountId ? (
+        <AccountStatementView accountId={selectedAccountId} onBack={() => setSelectedAccountId(null)} />
+      ) : balanceLoading ? (
+        <div className="animate-pulse text-muted-foreground">Loading trial balance...</div>
+      ) : !trialBalance || trialBalance.rows.length === 0 ? (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <BookOpen className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h2 className="text-xl font-semibold mb-2">No Ledger Activity</h2>
+            <p className="text-muted-foreground">
+              Postings appear here as payments are created, paid out, disputed or refunded.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        currencies.map((code) => {
+          const rows = trialBalance.rows.filter((row) => row.account.currency === code);
+          const totals = trialBalance.totals.find((t) => t.currency === code);
+          return (
+            <Card key={code}>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg">Trial Balance - {code}</CardTitle>
+                  {totals?.balanced ? (
+                    <Badge className="bg-green-500">
+                      <CheckCircle className="h-3 w-3 mr-1" />
+                      Balanced
+                    </Badge>
+                  ) : (
+                    <Badge variant="destructive">
+                      <AlertCircle className="h-3 w-3 mr-1" />
+                      Out of balance
+                    </Badge>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-xs uppercase text-muted-foreground">
+                        <th className="py-2 pr-4">Account</th>
+                        <th className="py-2 pr-4">Type</th>
+                        <th className="py-2 pr-4 text-right">Debit</th>
+                        <th className="py-2 pr-4 text-right">Credit</th>
+                        <th className="py-2 text-right">Balance</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.map((row) => (
+                        <tr
+                          key={row.account.id}
+                          className="border-b cursor-pointer hover:bg-muted/50"
+                          onClick={() => setSelectedAccountId(row.account.id)}
+                        >
+                          <td className="py-2 pr-4 font-medium">{row.account.name}</td>
+                          <td className="py-2 pr-4 capitalize text-muted-foreground">{row.account.type}</td>
+                          <td className="py-2 pr-4 text-right">{formatAmount(row.debit)}</td>
+                          <td className="py-2 pr-4 text-right">{formatAmount(row.credit)}</td>
+                          <td className={`py-2 text-right ${row.balance < 0 ? "text-destructive" : ""}`}>
+                            {formatAmount(row.balance)}
+                          </td>
+                        </tr>
+                      ))}
+                      {totals && (
+                        <tr className="bg-muted/50 font-semibold">
+                          <td className="py-2 pr-4" colSpan={2}>Total</td>
+                          <td className="py-2 pr-4 text-right">{formatAmount(totals.debit)}</td>
+                          <td className="py-2 pr-4 text-right">{formatAmount(totals.credit)}</td>
+                          <td className="py-2" />
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
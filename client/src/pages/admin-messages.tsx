@@ -2,7 +2,7 @@ import { useState, useEffect, useRef, useCallback } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "../hooks/useAuth";
 import { useToast } from "../hooks/use-toast";
-import { useLocation } from "wouter";
+import { useLocation, useSearch } from "wouter";
 import { Card, CardContent } from "../components/ui/card";
 import { Input } from "../components/ui/input";
 import { Textarea } from "../components/ui/textarea";
@@ -36,6 +36,8 @@ import {
 import { format, isToday, isYesterday, isSameDay } from "date-fns";
 import { TopNavBar } from "../components/TopNavBar";
 import { isImageUrl, isVideoUrl, proxiedSrc } from "../lib/image";
+import { conversationSubject } from "../lib/conversations";
+import { MessageSearchResults, type MessageSearchCounterparty, type MessageSearchResult } from "../components/MessageSearchResults";
 import {
   exportConversationPDF,
   exportConversationCSV,
@@ -76,8 +78,15 @@ export default function AdminMessages() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [location, navigate] = useLocation();
-  const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
+  const urlParams = new URLSearchParams(useSearch());
+  const conversationFromUrl = urlParams.get('conversation');
+  const messageFromUrl = urlParams.get('message');
+  const [selectedConversation, setSelectedConversation] = useState<string | null>(conversationFromUrl);
   const [searchQuery, setSearchQuery] = useState("");
+  // The sidebar search either filters conversations or searches message content
+  const [searchMode, setSearchMode] = useState<'conversations' | 'messages'>('conversations');
+  const [messageSearch, setMessageSearch] = useState("");
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(messageFromUrl);
   const [isExporting, setIsExporting] = useState(false);
   const [messageInput, setMessageInput] = useState("");
   const scrollRef = useRef<HTMLDivElement>(null);
@@ -152,6 +161,13 @@ export default function AdminMessages() {
     enabled: isAuthenticated && user?.role === 'admin',
   });
 
+  // A conversation opened from a search result or link may be outside the listed page
+  const isSelectedListed = conversations.some((c: any) => c.id === selectedConversation);
+  const { data: selectedConversationDetails = [] } = useQuery<any[]>({
+    queryKey: [`/api/admin/conversations?conversationId=${selectedConversation}`],
+    enabled: !!selectedConversation && !isSelectedListed && isAuthenticated && user?.role === 'admin',
+  });
+
   const { data: messages = [] } = useQuery<EnhancedMessage[]>({
     queryKey: ["/api/admin/messages", selectedConversation],
     queryFn: async () => {
@@ -164,12 +180,27 @@ export default function AdminMessages() {
     enabled: !!selectedConversation && isAuthenticated && user?.role === 'admin',
   });
 
-  // Auto-scroll to bottom when messages change
   useEffect(() => {
+    if (conversationFromUrl) setSelectedConversation(conversationFromUrl);
+    setFocusedMessageId(messageFromUrl);
+  }, [conversationFromUrl, messageFromUrl]);
+
+  // Scroll to the message opened from search, otherwise to the bottom when messages change
+  useEffect(() => {
+    const focusedElement = focusedMessageId && document.getElementById(`message-${focusedMessageId}`);
+    if (focusedElement) {
+      focusedElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      const timer = setTimeout(() => setFocusedMessageId(null), 4000);
+      return () => clearTimeout(timer);
+    }
     if (scrollRef.current) {
       scrollRef.current.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [messages]);
+  }, [messages, focusedMessageId]);
+
+  const openSearchResult = (result: MessageSearchResult) => {
+    navigate(`${location}?conversation=${result.conversationId}&message=${result.messageId}`);
+  };
 
   const handleBackNavigation = useCallback(() => {
     if (window.history.length > 1) {
@@ -206,8 +237,28 @@ export default function AdminMessages() {
     return timeDiff < 60000; // Group if within 1 minute
   };
 
-  const currentConversation = conversations?.find((c: any) => c.id === selectedConversation);
+  const currentConversation =
+    conversations?.find((c: any) => c.id === selectedConversation) ??
+    selectedConversationDetails.find((c: any) => c.id === selectedConversation);
   const creator = currentConversation?.creator;
+
+  const searchOffers = Array.from(
+    new Map(
+      conversations
+        .filter((conversation: any) => conversation.offerId && conversation.offerTitle)
+        .map((conversation: any) => [conversation.offerId, { id: conversation.offerId, title: conversation.offerTitle }]),
+    ).values(),
+  ) as Array<{ id: string; title: string }>;
+  const searchCounterparties: MessageSearchCounterparty[] = [
+    ...Array.from(new Map(conversations.map((conversation: any) => [
+      conversation.creatorId,
+      { param: 'creatorId' as const, value: conversation.creatorId, label: `Creator: ${conversation.creator?.name}` },
+    ])).values()),
+    ...Array.from(new Map(conversations.map((conversation: any) => [
+      conversation.companyId,
+      { param: 'companyId' as const, value: conversation.companyId, label: `Company: ${conversation.company?.name}` },
+    ])).values()),
+  ];
   const company = currentConversation?.company;
 
   // Export conversation function
@@ -227,7 +278,7 @@ export default function AdminMessages() {
       // Prepare export data
       const exportData: ConversationExportData = {
         id: currentConversation.id,
-        offerTitle: currentConversation.offerTitle || 'Unknown Offer',
+        offerTitle: conversationSubject(currentConversation) || 'Unknown Offer',
         creator: {
           id: creator?.id || '',
           name: creator?.name || 'Unknown Creator',
@@ -336,18 +387,45 @@ export default function AdminMessages() {
                   </div>
                   <Badge variant="secondary">{conversations.length}</Badge>
                 </div>
+                <div className="flex gap-1 mb-2">
+                  <Button
+                    variant={searchMode === 'conversations' ? 'secondary' : 'ghost'}
+                    size="sm"
+                    onClick={() => setSearchMode('conversations')}
+                    data-testid="button-search-conversations"
+                  >
+                    Conversations
+                  </Button>
+                  <Button
+                    variant={searchMode === 'messages' ? 'secondary' : 'ghost'}
+                    size="sm"
+                    onClick={() => setSearchMode('messages')}
+                    data-testid="button-search-messages"
+                  >
+                    Messages
+                  </Button>
+                </div>
                 <div className="relative">
                   <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                   <Input
-                    placeholder="Search conversations..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
+                    placeholder={searchMode === 'messages' ? "Search message content..." : "Search conversations..."}
+                    value={searchMode === 'messages' ? messageSearch : searchQuery}
+                    onChange={(e) => searchMode === 'messages' ? setMessageSearch(e.target.value) : setSearchQuery(e.target.value)}
                     className="pl-10"
                   />
                 </div>
               </div>
               <ScrollArea className="flex-1">
-                {conversations.length === 0 ? (
+                {searchMode === 'messages' ? (
+                  <MessageSearchResults
+                    endpoint="/api/admin/messages/search"
+                    query={messageSearch}
+                    offers={searchOffers}
+                    counterparties={searchCounterparties}
+                    showParties="both"
+                    onOpenResult={openSearchResult}
+                  />
+                ) : conversations.length === 0 ? (
                   <div className="p-12 text-center">
                     <MessageSquare className="h-12 w-12 text-muted-foreground/50 mx-auto mb-4" />
                     <p className="text-sm text-muted-foreground">No conversations found</p>
@@ -413,7 +491,7 @@ export default function AdminMessages() {
                           <div className="pt-2 border-t">
                             <div className="flex items-center justify-between gap-2 mb-1">
                               <div className="font-medium text-sm truncate">
-                                {conversation.offerTitle}
+                                {conversationSubject(conversation)}
                               </div>
                               <div className="text-xs text-muted-foreground shrink-0">
                                 {conversation.lastMessageAt &&
@@ -466,7 +544,7 @@ export default function AdminMessages() {
                           {creator?.name} ↔ {company?.name}
                         </h3>
                         <p className="text-sm text-muted-foreground">
-                          {currentConversation?.offerTitle}
+                          {currentConversation && conversationSubject(currentConversation)}
                         </p>
                       </div>
                     </div>
@@ -524,7 +602,11 @@ export default function AdminMessages() {
                         : (isCreatorMessage ? creator : company);
 
                       return (
-                        <div key={message.id}>
+                        <div
+                          key={message.id}
+                          id={`message-${message.id}`}
+                          className={focusedMessageId === message.id ? 'rounded-lg bg-primary/10 transition-colors' : 'transition-colors'}
+                        >
                           {showDateSeparator && (
                             <div className="flex items-center justify-center my-4">
                               <Badge variant="secondary" className="text-xs">
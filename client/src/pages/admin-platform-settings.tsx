@@ -20,7 +20,8 @@ import { Switch } from "../components/ui/switch";
 import { TopNavBar } from "../components/TopNavBar";
 import { GenericErrorDialog } from "../components/GenericErrorDialog";
 import { SettingsNavigation, SettingsSection } from "../components/SettingsNavigation";
-import { Settings, DollarSign, Gauge, Tag, ToggleRight, Check, X, Plus, Trash2 } from "lucide-react";
+import { FraudRulesEditor } from "../components/FraudRulesEditor";
+import { Settings, DollarSign, Gauge, Tag, ToggleRight, Check, X, Plus, Trash2, ShieldAlert } from "lucide-react";
 
 interface NicheItem {
   id: string;
@@ -270,6 +271,7 @@ export default function AdminPlatformSettings() {
       limits: "Platform Limits",
       pricing: "Pricing",
       features: "Features",
+      fraud: "Fraud Prevention",
     };
     return titles[category] || category.charAt(0).toUpperCase() + category.slice(1);
   };
@@ -281,6 +283,7 @@ export default function AdminPlatformSettings() {
       limits: "Platform-wide limits and restrictions",
       pricing: "Pricing configuration for premium features and services",
       features: "Feature toggles and configuration options",
+      fraud: "Fraud review thresholds and automatic payout holds",
     };
     return descriptions[category] || "";
   };
@@ -301,11 +304,14 @@ export default function AdminPlatformSettings() {
       features: <ToggleRight className="h-4 w-4" />,
     };
 
-    return Object.keys(groupedSettings).map((category) => ({
-      id: `admin-${category}`,
-      label: getCategoryTitle(category),
-      icon: categoryIcons[category] || <Settings className="h-4 w-4" />,
-    }));
+    return [
+      ...Object.keys(groupedSettings).map((category) => ({
+        id: `admin-${category}`,
+        label: getCategoryTitle(category),
+        icon: categoryIcons[category] || <Settings className="h-4 w-4" />,
+      })),
+      { id: "admin-fraud-rules", label: "Fraud Rules", icon: <ShieldAlert className="h-4 w-4" /> },
+    ];
   }, [groupedSettings]);
 
   return (
@@ -409,6 +415,8 @@ export default function AdminPlatformSettings() {
               </CardContent>
                 </Card>
               ))}
+
+              <FraudRulesEditor />
             </div>
           </div>
         )}
@@ -12,6 +12,7 @@ import { useCompanyPageTour } from "../components/CompanyTour";
 import { COMPANY_TOUR_IDS, analyticsTourSteps as companyAnalyticsTourSteps } from "../lib/companyTourConfig";
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
 import { Button } from "../components/ui/button";
+import { Badge } from "../components/ui/badge";
 import {
   Select,
   SelectContent,
@@ -31,7 +32,13 @@ import {
   Users,
   Calendar,
 } from "lucide-react";
-import { exportAnalyticsPDF, downloadCSV, type AnalyticsData } from "../lib/export-utils";
+import {
+  exportAnalyticsPDF,
+  downloadCSV,
+  deviceBreakdownRows,
+  type AnalyticsData,
+  type DeviceBreakdownData,
+} from "../lib/export-utils";
 import {
   LineChart,
   Line,
@@ -55,6 +62,10 @@ import {
 import { StatsGridSkeleton, ChartSkeleton } from "../components/skeletons";
 import { GenericErrorDialog } from "../components/GenericErrorDialog";
 import { GeographicHeatmap } from "../components/GeographicHeatmap";
+import { LiveActivityFeed } from "../components/LiveActivityFeed";
+import { DeviceBreakdownCard } from "../components/DeviceBreakdownCard";
+import { OfferFunnelCard } from "../components/OfferFunnelCard";
+import { CreatorCohortCard } from "../components/CreatorCohortCard";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -105,6 +116,31 @@ type MonthlyEarningsPoint = {
   retainer: number;
 };
 
+type ClickToConversionStats = {
+  attributedConversions: number;
+  avgSeconds: number | null;
+  medianSeconds: number | null;
+  minSeconds: number | null;
+  maxSeconds: number | null;
+};
+
+// Compact "time to convert" label, e.g. 45s, 12m, 3.5h, 2.1d
+function formatLatency(seconds: number | null | undefined): string {
+  if (seconds === null || seconds === undefined) return "—";
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  if (seconds < 86400) return `${(seconds / 3600).toFixed(1)}h`;
+  return `${(seconds / 86400).toFixed(1)}d`;
+}
+
+// "sub1=video-42 · sub2=bio" from the sub-ids a conversion's click was tagged with
+function formatSubIds(row: Record<string, any>): string {
+  return ["sub1", "sub2", "sub3", "sub4", "sub5"]
+    .filter((field) => row[field])
+    .map((field) => `${field}=${row[field]}`)
+    .join(" · ");
+}
+
 // Wrapper component that routes to the appropriate analytics view
 export default function Analytics() {
   const { user, isAuthenticated, isLoading } = useAuth();
@@ -166,6 +202,12 @@ function CreatorAnalytics() {
     refetchOnReconnect: true,
   });
 
+  // This creator's share of each conversion (split with other creators under multi-touch attribution)
+  const { data: conversionShares = [] } = useQuery<any[]>({
+    queryKey: ["/api/creator/conversions"],
+    enabled: !applicationId,
+  });
+
   const chartData: TimelinePoint[] = (analytics?.chartData || []).map((item: any) => ({
     date: item.date,
     isoDate: item.isoDate,
@@ -251,6 +293,8 @@ function CreatorAnalytics() {
   const uniqueClicks = Number(analytics?.uniqueClicks || 0);
   const conversions = Number(analytics?.conversions || 0);
   const activeOffers = Number(analytics?.activeOffers || 0);
+  const clickToConversion: ClickToConversionStats | null = analytics?.clickToConversion ?? null;
+  const deviceBreakdown: DeviceBreakdownData | null = analytics?.deviceBreakdown ?? null;
   const activeCreators = undefined;
 
   const exportData = () => {
@@ -270,6 +314,11 @@ function CreatorAnalytics() {
       `$${item.earnings.toFixed(2)}`,
     ]);
 
+    // Device, OS and browser shares follow the timeline after a blank row
+    if (deviceBreakdown && deviceBreakdown.totalClicks > 0) {
+      data.push([], ['Breakdown', 'Value', 'Clicks', 'Share'], ...deviceBreakdownRows(deviceBreakdown));
+    }
+
     downloadCSV(data, `analytics-${dateRange}`, headers);
 
     toast({
@@ -306,6 +355,7 @@ function CreatorAnalytics() {
         conversionFunnel,
         acquisitionSources,
         geography,
+        deviceBreakdown,
         applicationsTimeline,
       };
 
@@ -559,10 +609,18 @@ function CreatorAnalytics() {
             <p className="text-xs text-muted-foreground mt-1">
               {conversions.toLocaleString()} conversions
             </p>
+            {clickToConversion && clickToConversion.attributedConversions > 0 && (
+              <p className="text-xs text-muted-foreground" data-testid="text-click-to-conversion">
+                Avg. time to convert {formatLatency(clickToConversion.avgSeconds)} • median {formatLatency(clickToConversion.medianSeconds)}
+              </p>
+            )}
           </CardContent>
         </Card>
       </div>
 
+      {/* Live click and conversion feed */}
+      <LiveActivityFeed applicationId={applicationId} />
+
       {/* NEW: Monthly Earnings Chart */}
       <div className="grid gap-6 lg:grid-cols-2">
         <Card className="border-card-border shadow-sm">
@@ -882,6 +940,8 @@ function CreatorAnalytics() {
         </CardContent>
       </Card>
 
+      <DeviceBreakdownCard breakdown={deviceBreakdown} />
+
       {/* Offer Performance Table */}
       {!applicationId && (
         <Card className="border-card-border shadow-sm">
@@ -937,6 +997,52 @@ function CreatorAnalytics() {
         </Card>
       )}
 
+      {/* Conversion attribution shares (with the commission tier each was paid at) */}
+      {!applicationId && conversionShares.length > 0 && (
+        <Card className="border-card-border shadow-sm">
+          <CardHeader className="border-b bg-muted/30">
+            <CardTitle className="text-xl">Conversion Shares</CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              Your share of recent conversions when visitors clicked more than one creator's link
+            </p>
+          </CardHeader>
+          <CardContent className="pt-6">
+            <div className="space-y-3">
+              {conversionShares.slice(0, 10).map((share: any) => (
+                <div
+                  key={share.id}
+                  className="flex items-center justify-between p-4 border rounded-lg"
+                  data-testid={`conversion-share-${share.id}`}
+                >
+                  <div className="flex-1 min-w-0 pr-4">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <h4 className="font-semibold text-base truncate">{share.offerTitle}</h4>
+                      <Badge variant="outline" className="capitalize">
+                        {String(share.attributionModel).replace("_", " ")}
+                      </Badge>
+                      {share.appliedCommissionTier?.label && (
+                        <Badge variant="secondary">{share.appliedCommissionTier.label}</Badge>
+                      )}
+                      {share.status === "reversed" && <Badge variant="destructive">Reversed</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {(Number(share.share) * 100).toFixed(1)}% of ${Number(share.conversionEarnings).toFixed(2)}
+                      {share.creatorCount > 1 ? ` • shared with ${share.creatorCount - 1} other creator${share.creatorCount > 2 ? "s" : ""}` : ""}
+                    </p>
+                    {formatSubIds(share) && (
+                      <p className="text-xs text-muted-foreground font-mono mt-1">{formatSubIds(share)}</p>
+                    )}
+                  </div>
+                  <div className={`font-semibold font-mono text-lg ${share.status === "reversed" ? "line-through text-muted-foreground" : "text-green-600 dark:text-green-400"}`}>
+                    ${Number(share.earnings).toFixed(2)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <FirstTimeTutorial
         open={showTutorial}
         onComplete={completeTutorial}
@@ -1040,8 +1146,11 @@ function CompanyAnalytics() {
   const retainerBreakdown = Number(analytics?.retainerSpent || 0);
   const totalClicks = Number(analytics?.totalClicks || 0);
   const uniqueClicks = Number(analytics?.uniqueClicks || 0);
+  const geoBlockedClicks = Number(analytics?.geoBlockedClicks || 0);
   const conversions = Number(analytics?.conversions || 0);
   const activeOffers = Number(analytics?.activeOffers || 0);
+  const clickToConversion: ClickToConversionStats | null = analytics?.clickToConversion ?? null;
+  const deviceBreakdown: DeviceBreakdownData | null = analytics?.deviceBreakdown ?? null;
   const activeCreators = Number(analytics?.activeCreators || 0);
 
   const exportData = () => {
@@ -1061,6 +1170,11 @@ function CompanyAnalytics() {
       `$${item.earnings.toFixed(2)}`,
     ]);
 
+    // Device, OS and browser shares follow the timeline after a blank row
+    if (deviceBreakdown && deviceBreakdown.totalClicks > 0) {
+      data.push([], ['Breakdown', 'Value', 'Clicks', 'Share'], ...deviceBreakdownRows(deviceBreakdown));
+    }
+
     downloadCSV(data, `analytics-${dateRange}`, headers);
 
     toast({
@@ -1097,6 +1211,7 @@ function CompanyAnalytics() {
         conversionFunnel,
         acquisitionSources,
         geography,
+        deviceBreakdown,
         applicationsTimeline,
       };
 
@@ -1312,6 +1427,7 @@ function CompanyAnalytics() {
             <div className="text-2xl font-bold">{totalClicks}</div>
             <p className="text-xs text-muted-foreground mt-1">
               {uniqueClicks} unique visitors
+              {geoBlockedClicks > 0 && ` · ${geoBlockedClicks} blocked by region`}
             </p>
           </CardContent>
         </Card>
@@ -1328,10 +1444,18 @@ function CompanyAnalytics() {
             <p className="text-xs text-muted-foreground mt-1">
               {conversions} conversions
             </p>
+            {clickToConversion && clickToConversion.attributedConversions > 0 && (
+              <p className="text-xs text-muted-foreground" data-testid="text-click-to-conversion">
+                Avg. time to convert {formatLatency(clickToConversion.avgSeconds)} • median {formatLatency(clickToConversion.medianSeconds)}
+              </p>
+            )}
           </CardContent>
         </Card>
       </div>
 
+      {/* Live click and conversion feed */}
+      <LiveActivityFeed applicationId={applicationId} showFraud />
+
       <div className="grid gap-6 lg:grid-cols-2">
         <Card className="border-card-border">
           <CardHeader>
@@ -1478,6 +1602,15 @@ function CompanyAnalytics() {
         </Card>
       </div>
 
+      {!applicationId && (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <OfferFunnelCard />
+          <CreatorCohortCard />
+        </div>
+      )}
+
+      <DeviceBreakdownCard breakdown={deviceBreakdown} />
+
       <div className={`grid gap-6 ${!applicationId ? "lg:grid-cols-2" : ""}`}>
         <Card className="border-card-border">
           <CardHeader>
@@ -1506,6 +1639,9 @@ function CompanyAnalytics() {
                         <div>
                           <div className="text-xs text-muted-foreground">Clicks</div>
                           <div className="font-semibold">{offer.clicks || 0}</div>
+                          {offer.geoBlockedClicks > 0 && (
+                            <div className="text-xs text-muted-foreground">{offer.geoBlockedClicks} geo-blocked</div>
+                          )}
                         </div>
                         <div>
                           <div className="text-xs text-muted-foreground">Conv.</div>
@@ -31,6 +31,8 @@ import {
 import { proxiedSrc } from "../lib/image";
 import { TopNavBar } from "../components/TopNavBar";
 import { GenericErrorDialog } from "../components/GenericErrorDialog";
+import { DeepLinksManager } from "../components/DeepLinksManager";
+import { VanitySlugEditor } from "../components/VanitySlugEditor";
 import { useCreatorPageTour } from "../components/CreatorTour";
 import { CREATOR_TOUR_IDS, applicationDetailTourSteps } from "../lib/creatorTourConfig";
 
@@ -483,6 +485,14 @@ export default function ApplicationDetail() {
                   </div>
                 </div>
 
+                {/* Vanity slug and branded link */}
+                <VanitySlugEditor
+                  applicationId={application.id}
+                  vanitySlug={application.vanitySlug ?? null}
+                  vanityLink={application.vanityLink ?? null}
+                  brandedLink={application.brandedLink ?? null}
+                />
+
                 {/* Tracking Code */}
                 {application.trackingCode && (
                   <div className="bg-white dark:bg-gray-900 rounded-lg border border-blue-200 dark:border-blue-700 p-3">
@@ -527,6 +537,15 @@ export default function ApplicationDetail() {
             </Card>
           )}
 
+          {/* Deep Links & Sub-IDs (if approved) */}
+          {(application.status === 'approved' || application.status === 'active') && application.trackingLink && (
+            <DeepLinksManager
+              applicationId={application.id}
+              trackingLink={application.trackingLink}
+              companyWebsite={application.offer?.company?.websiteVerified ? application.offer.company.websiteUrl || null : null}
+            />
+          )}
+
           {/* Application Message */}
           {application.message && (
             <Card>
@@ -18,6 +18,15 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "../components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../components/ui/dialog";
+import { Textarea } from "../components/ui/textarea";
 import {
   Users,
   MessageSquare,
@@ -35,6 +44,7 @@ import {
   Loader2,
   Filter,
   ChevronDown,
+  Send,
 } from "lucide-react";
 import { exportCreatorListPDF, type CreatorExportData } from "../lib/export-utils";
 import { Link, useLocation } from "wouter";
@@ -64,6 +74,8 @@ type CompanyCreatorsProps = {
   hideTopNav?: boolean;
 };
 
+const NO_OUTREACH_OFFER = "none";
+
 type BulkActionType = "approve" | "pause" | "activate" | "complete" | "reject" | "approve_payouts" | null;
 
 const STATUS_OPTIONS = [
@@ -170,6 +182,16 @@ export default function CompanyCreators({ hideTopNav = false }: CompanyCreatorsP
   const [bulkActionDialog, setBulkActionDialog] = useState<BulkActionType>(null);
   const [isBulkProcessing, setIsBulkProcessing] = useState(false);
 
+  // Outreach to a creator about another offer than the one they applied to
+  const [outreachTarget, setOutreachTarget] = useState<{ creatorId: string; creatorName: string; excludeOfferId?: string } | null>(null);
+  const [outreachOfferId, setOutreachOfferId] = useState(NO_OUTREACH_OFFER);
+  const [outreachMessage, setOutreachMessage] = useState("");
+
+  const { data: companyOffers = [] } = useQuery<any[]>({
+    queryKey: ["/api/company/offers"],
+    enabled: isAuthenticated,
+  });
+
   const startConversationMutation = useMutation({
     mutationFn: async (applicationId: string) => {
       const response = await apiRequest("POST", "/api/conversations/start", { applicationId });
@@ -186,6 +208,25 @@ export default function CompanyCreators({ hideTopNav = false }: CompanyCreatorsP
     },
   });
 
+  const outreachMutation = useMutation({
+    mutationFn: async (payload: { creatorId: string; content: string; offerId?: string }) => {
+      const response = await apiRequest("POST", "/api/conversations/outreach", payload);
+      return response.json();
+    },
+    onSuccess: (data: any) => {
+      setOutreachTarget(null);
+      setOutreachMessage("");
+      setOutreachOfferId(NO_OUTREACH_OFFER);
+      setLocation(`/company/messages?conversation=${data.conversationId}`);
+    },
+    onError: (error: any) => {
+      setErrorDialog({
+        title: "Message not sent",
+        message: error.message || "Failed to reach out to creator",
+      });
+    },
+  });
+
   const updateStatusMutation = useMutation({
     mutationFn: async ({ applicationId, status }: { applicationId: string; status: string }) => {
       const response = await apiRequest("PATCH", `/api/company/applications/${applicationId}/status`, { status });
@@ -1166,6 +1207,24 @@ export default function CompanyCreators({ hideTopNav = false }: CompanyCreatorsP
                                 <MessageSquare className="h-4 w-4" />
                                 Message
                               </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="gap-2"
+                                data-testid={`button-reach-out-${application.id}`}
+                                onClick={() => {
+                                  if (!application.creator?.id) return;
+                                  setOutreachTarget({
+                                    creatorId: application.creator.id,
+                                    creatorName: [application.creator.firstName, application.creator.lastName].filter(Boolean).join(" ") || "this creator",
+                                    excludeOfferId: application.offer?.id,
+                                  });
+                                }}
+                                disabled={!application.creator?.id}
+                              >
+                                <Send className="h-4 w-4" />
+                                Reach out
+                              </Button>
                               <Link href={`/analytics/${application.id}`} className="flex">
                                 <Button variant="outline" size="sm" className="gap-2">
                                   <TrendingUp className="h-4 w-4" />
@@ -1256,6 +1315,60 @@ export default function CompanyCreators({ hideTopNav = false }: CompanyCreatorsP
         </AlertDialogContent>
       </AlertDialog>
 
+      <Dialog open={!!outreachTarget} onOpenChange={(open) => !open && setOutreachTarget(null)}>
+        <DialogContent data-testid="dialog-outreach">
+          <DialogHeader>
+            <DialogTitle>Reach out to {outreachTarget?.creatorName}</DialogTitle>
+            <DialogDescription>
+              Invite this creator to another offer. You can send two messages until they reply, and a limited number of new creators per day.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Select value={outreachOfferId} onValueChange={setOutreachOfferId}>
+              <SelectTrigger data-testid="select-outreach-offer">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_OUTREACH_OFFER}>No specific offer</SelectItem>
+                {companyOffers
+                  .filter((offer: any) => offer.id !== outreachTarget?.excludeOfferId)
+                  .map((offer: any) => (
+                    <SelectItem key={offer.id} value={offer.id}>{offer.title}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <Textarea
+              value={outreachMessage}
+              onChange={(e) => setOutreachMessage(e.target.value)}
+              placeholder="Introduce the offer and why it's a fit for this creator..."
+              rows={5}
+              maxLength={5000}
+              data-testid="input-outreach-message"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOutreachTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => {
+                if (!outreachTarget) return;
+                outreachMutation.mutate({
+                  creatorId: outreachTarget.creatorId,
+                  content: outreachMessage.trim(),
+                  offerId: outreachOfferId === NO_OUTREACH_OFFER ? undefined : outreachOfferId,
+                });
+              }}
+              disabled={!outreachMessage.trim() || outreachMutation.isPending}
+              data-testid="button-send-outreach"
+            >
+              {outreachMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Send
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <GenericErrorDialog
         open={!!errorDialog}
         onOpenChange={(open) => !open && setErrorDialog(null)}
@@ -6,7 +6,10 @@ import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card"
 import { Button } from "../components/ui/button";
 import { Badge } from "../components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "../components/ui/avatar";
-import { Users, FileText, TrendingUp, DollarSign, Plus, CheckCircle, MousePointer, AlertTriangle, Clock } from "lucide-react";
+import { Textarea } from "../components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "../components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../components/ui/select";
+import { Users, FileText, TrendingUp, DollarSign, Plus, CheckCircle, MousePointer, AlertTriangle, Clock, Undo2, Receipt, ShieldAlert, XCircle } from "lucide-react";
 import { Link } from "wouter";
 import { apiRequest, queryClient } from "../lib/queryClient";
 import { formatDistanceToNow } from "date-fns";
@@ -18,11 +21,20 @@ import { useTutorial } from "../hooks/useTutorial";
 import { TUTORIAL_IDS, companyDashboardTutorialConfig } from "../lib/tutorialConfig";
 import { useCompanyPageTour } from "../components/CompanyTour";
 import { COMPANY_TOUR_IDS, dashboardTourSteps } from "../lib/companyTourConfig";
+import { LiveActivityFeed } from "../components/LiveActivityFeed";
+
+const COMPANY_LIVE_REFRESH_KEYS = ["/api/company/stats", "/api/company/conversions"];
 
 export default function CompanyDashboard() {
   const { toast } = useToast();
   const { isAuthenticated, isLoading, user } = useAuth();
   const [errorDialog, setErrorDialog] = useState<{ title: string; message: string } | null>(null);
+  const [reverseDialog, setReverseDialog] = useState<{
+    open: boolean;
+    orderId: string | null;
+    reversalType: "refund" | "chargeback";
+    reason: string;
+  }>({ open: false, orderId: null, reversalType: "refund", reason: "" });
   const { showTutorial, completeTutorial } = useTutorial(TUTORIAL_IDS.COMPANY_DASHBOARD);
 
   // Quick tour for new company accounts - only start after tutorial is dismissed
@@ -50,6 +62,82 @@ export default function CompanyDashboard() {
     enabled: isAuthenticated,
   });
 
+  const { data: conversions = [], isLoading: loadingConversions } = useQuery<any[]>({
+    queryKey: ["/api/company/conversions"],
+    enabled: isAuthenticated,
+  });
+
+  const reverseConversionMutation = useMutation({
+    mutationFn: async (data: { orderId: string; reversalType: string; reason: string }) => {
+      return await apiRequest('POST', '/api/company/conversions/reverse', data);
+    },
+    onSuccess: async (response: any) => {
+      const result = await response.json();
+      queryClient.invalidateQueries({ queryKey: ["/api/company/conversions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/applications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/stats"] });
+      setReverseDialog({ open: false, orderId: null, reversalType: "refund", reason: "" });
+      toast({
+        title: "Conversion Reversed",
+        description: result.wasPendingVerification
+          ? "The conversion was still pending verification, so the creator was never credited for it."
+          : result.paymentAction === 'adjustment_created'
+            ? "The commission was already paid and will be recovered from the creator's next payout."
+            : "The creator's earnings have been debited.",
+      });
+    },
+    onError: (error: any) => {
+      setErrorDialog({
+        title: "Error",
+        message: error.message || "Failed to reverse conversion",
+      });
+    },
+  });
+
+  const verifyConversionMutation = useMutation({
+    mutationFn: async ({ conversionId, action }: { conversionId: string; action: 'approve' | 'reject' }) => {
+      return await apiRequest('POST', `/api/company/conversions/${conversionId}/verify`, { action });
+    },
+    onSuccess: (_response: any, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/company/conversions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/applications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/stats"] });
+      toast({
+        title: action === 'approve' ? "Conversion Approved" : "Conversion Rejected",
+        description: action === 'approve'
+          ? "The creator's commission has been credited."
+          : "No commission will be paid for this conversion.",
+      });
+    },
+    onError: (error: any) => {
+      setErrorDialog({
+        title: "Error",
+        message: error.message || "Failed to verify conversion",
+      });
+    },
+  });
+
+  const handleVerifyConversion = (conversionId: string, action: 'approve' | 'reject') => {
+    if (action === 'reject' && !confirm("Reject this conversion? The creator will not be paid for it.")) return;
+    verifyConversionMutation.mutate({ conversionId, action });
+  };
+
+  // Conversions held by the fraud checks need an answer, so they are listed first
+  const pendingConversions = conversions.filter((conversion: any) => conversion.status === 'pending_verification');
+  const recentConversions = [
+    ...pendingConversions,
+    ...conversions.filter((conversion: any) => conversion.status !== 'pending_verification'),
+  ];
+
+  const handleSubmitReversal = () => {
+    if (!reverseDialog.orderId) return;
+    reverseConversionMutation.mutate({
+      orderId: reverseDialog.orderId,
+      reversalType: reverseDialog.reversalType,
+      reason: reverseDialog.reason.trim(),
+    });
+  };
+
   const completeApplicationMutation = useMutation({
     mutationFn: async (applicationId: string) => {
       return await apiRequest('POST', `/api/applications/${applicationId}/complete`);
@@ -216,6 +304,9 @@ export default function CompanyDashboard() {
         </div>
       )}
 
+      {/* Live click and conversion feed for this company's offers */}
+      <LiveActivityFeed showFraud refreshKeys={COMPANY_LIVE_REFRESH_KEYS} />
+
       <div className="grid md:grid-cols-2 gap-6">
         <Card className="border-card-border">
           <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
@@ -340,6 +431,178 @@ export default function CompanyDashboard() {
         </Card>
       </div>
 
+      <Card className="border-card-border">
+        <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+          <CardTitle>Recent Conversions</CardTitle>
+          <div className="flex items-center gap-2">
+            {pendingConversions.length > 0 && (
+              <Badge variant="outline" className="border-amber-500 text-amber-700" data-testid="badge-pending-verification-count">
+                {pendingConversions.length} pending verification
+              </Badge>
+            )}
+            <Badge variant="secondary" data-testid="badge-conversions-count">{conversions.length}</Badge>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loadingConversions ? (
+            <ListItemSkeleton />
+          ) : conversions.length === 0 ? (
+            <div className="text-center py-8">
+              <Receipt className="h-8 w-8 text-muted-foreground/50 mx-auto mb-2" />
+              <p className="text-sm text-muted-foreground">No conversions recorded yet</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {recentConversions.slice(0, Math.max(10, pendingConversions.length)).map((conversion: any) => (
+                <div key={conversion.id} className="flex items-start justify-between gap-4 p-3 rounded-md border border-border" data-testid={`conversion-${conversion.id}`}>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap mb-1">
+                      <h4 className="font-medium text-sm truncate">{conversion.creatorName}</h4>
+                      <Badge variant="outline">{conversion.eventType}</Badge>
+                      {conversion.appliedCommissionTier?.label && (
+                        <Badge variant="secondary" data-testid={`badge-tier-${conversion.id}`}>
+                          {conversion.appliedCommissionTier.label}
+                          {conversion.appliedCommissionTier.milestoneBonus > 0
+                            ? ` +$${Number(conversion.appliedCommissionTier.milestoneBonus).toFixed(2)} bonus`
+                            : ""}
+                        </Badge>
+                      )}
+                      {conversion.status === 'reversed' && (
+                        <Badge variant="destructive">{conversion.reversalType || 'reversed'}</Badge>
+                      )}
+                      {conversion.status === 'pending_verification' && (
+                        <Badge variant="outline" className="gap-1 border-amber-500 text-amber-700" data-testid={`badge-pending-${conversion.id}`}>
+                          <ShieldAlert className="h-3 w-3" />
+                          Pending verification
+                        </Badge>
+                      )}
+                      {conversion.status === 'rejected' && (
+                        <Badge variant="destructive">rejected</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">{conversion.offerTitle}</p>
+                    {conversion.status === 'pending_verification' && conversion.fraudFlags && (
+                      <p className="text-xs text-amber-700 truncate" data-testid={`text-fraud-flags-${conversion.id}`}>
+                        Fraud score {conversion.fraudScore}: {String(conversion.fraudFlags).split(",").join(", ").replace(/_/g, " ")}
+                      </p>
+                    )}
+                    {conversion.attributions?.length > 1 && (
+                      <p className="text-xs text-muted-foreground truncate" data-testid={`text-attribution-${conversion.id}`}>
+                        Split ({String(conversion.attributionModel).replace("_", " ")}):{" "}
+                        {conversion.attributions
+                          .map((split: any) => `${split.creatorName} ${(Number(split.share) * 100).toFixed(0)}%`)
+                          .join(", ")}
+                      </p>
+                    )}
+                    <p className="text-xs text-tertiary-foreground mt-1">
+                      {conversion.orderId ? `Order ${conversion.orderId} · ` : ''}
+                      {formatDistanceToNow(new Date(conversion.createdAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className={`text-sm font-medium ${
+                      conversion.status === 'reversed' || conversion.status === 'rejected'
+                        ? 'line-through text-muted-foreground'
+                        : conversion.status === 'pending_verification'
+                          ? 'text-amber-600'
+                          : 'text-green-600'
+                    }`}>
+                      ${Number(conversion.earnings).toFixed(2)}
+                    </span>
+                    {conversion.status === 'pending_verification' && (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="gap-1"
+                          onClick={() => handleVerifyConversion(conversion.id, 'approve')}
+                          disabled={verifyConversionMutation.isPending}
+                          data-testid={`button-approve-conversion-${conversion.id}`}
+                        >
+                          <CheckCircle className="h-3 w-3" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="gap-1 text-red-600 hover:text-red-700"
+                          onClick={() => handleVerifyConversion(conversion.id, 'reject')}
+                          disabled={verifyConversionMutation.isPending}
+                          data-testid={`button-reject-conversion-${conversion.id}`}
+                        >
+                          <XCircle className="h-3 w-3" />
+                          Reject
+                        </Button>
+                      </>
+                    )}
+                    {conversion.status === 'credited' && conversion.orderId && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="gap-1"
+                        onClick={() => setReverseDialog({ open: true, orderId: conversion.orderId, reversalType: "refund", reason: "" })}
+                        data-testid={`button-reverse-${conversion.id}`}
+                      >
+                        <Undo2 className="h-3 w-3" />
+                        Reverse
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Reverse Conversion Dialog */}
+      <Dialog open={reverseDialog.open} onOpenChange={(open) => setReverseDialog({ ...reverseDialog, open })}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reverse Conversion</DialogTitle>
+            <DialogDescription>
+              Order {reverseDialog.orderId} will be debited from the creator's earnings. If the commission was already paid, it is deducted from their next payout.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Select
+              value={reverseDialog.reversalType}
+              onValueChange={(value) => setReverseDialog({ ...reverseDialog, reversalType: value as "refund" | "chargeback" })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="refund">Refund</SelectItem>
+                <SelectItem value="chargeback">Chargeback</SelectItem>
+              </SelectContent>
+            </Select>
+            <Textarea
+              placeholder="Reason (optional)"
+              value={reverseDialog.reason}
+              onChange={(e) => setReverseDialog({ ...reverseDialog, reason: e.target.value })}
+              rows={3}
+              className="resize-none"
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setReverseDialog({ open: false, orderId: null, reversalType: "refund", reason: "" })}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handleSubmitReversal}
+                disabled={reverseConversionMutation.isPending}
+              >
+                {reverseConversionMutation.isPending ? "Reversing..." : "Reverse Conversion"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       <GenericErrorDialog
         open={!!errorDialog}
         onOpenChange={(open) => !open && setErrorDialog(null)}
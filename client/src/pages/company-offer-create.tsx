@@ -27,7 +27,7 @@ import {
 import { Alert, AlertDescription } from "../components/ui/alert";
 import { Badge } from "../components/ui/badge";
 import { Checkbox } from "../components/ui/checkbox";
-import { ArrowLeft, Upload, Video, Play, Trash2, AlertCircle, Image as ImageIcon, X, FileText, Users, Globe, Shield, AlertTriangle, Clock } from "lucide-react";
+import { ArrowLeft, Upload, Video, Play, Trash2, AlertCircle, Image as ImageIcon, X, FileText, Users, Globe, Shield, AlertTriangle, Clock, Plus } from "lucide-react";
 import { Link } from "wouter";
 import { proxiedSrc } from "../lib/image";
 import { VideoPlayer } from "../components/VideoPlayer";
@@ -146,12 +146,23 @@ export default function CompanyOfferCreate() {
     commissionType: "per_sale" as const,
     commissionRate: "",
     commissionAmount: "",
+    cookieDuration: "",
+    clickIdParameter: "",
+    attributionModel: "last_click",
+    currency: "USD",
+    // Tiered commission rules (rate is a percentage for per_sale offers, a $ amount otherwise)
+    commissionPeriod: "month",
+    commissionTiers: [] as { minConversions: string; rate: string; label: string }[],
+    commissionMilestones: [] as { conversions: string; bonusAmount: string }[],
     status: "draft" as const,
     featuredImageUrl: "",
     // Creator Requirements
     minimumFollowers: "",
     allowedPlatforms: [] as string[],
     geographicRestrictions: [] as string[],
+    // Geo routing on tracking links
+    geoFallbackUrl: "",
+    geoDestinations: [] as { country: string; url: string }[],
     ageRestriction: "no_restriction",
     contentStyleRequirements: "",
     brandSafetyRequirements: "",
@@ -411,6 +422,12 @@ export default function CompanyOfferCreate() {
     queryKey: ["/api/niches"],
   });
 
+  // Fetch supported offer currencies
+  const { data: currencyData } = useQuery<{ currencies: string[] }>({
+    queryKey: ["/api/currencies"],
+  });
+  const currencies = currencyData?.currencies ?? ["USD"];
+
   // Fetch existing offer data if in edit mode
   const { data: existingOffer, isLoading: offerLoading } = useQuery<any>({
     queryKey: [`/api/offers/${offerId}`],
@@ -436,11 +453,30 @@ export default function CompanyOfferCreate() {
         commissionType: existingOffer.commissionType || "per_sale",
         commissionRate: existingOffer.commissionPercentage?.toString() || "",
         commissionAmount: existingOffer.commissionAmount?.toString() || "",
+        cookieDuration: existingOffer.cookieDuration?.toString() || "",
+        clickIdParameter: existingOffer.clickIdParameter || "",
+        attributionModel: existingOffer.attributionModel || "last_click",
+        currency: existingOffer.currency || "USD",
+        commissionPeriod: existingOffer.commissionRules?.period || "month",
+        commissionTiers: (existingOffer.commissionRules?.tiers || []).map((tier: any) => ({
+          minConversions: String(tier.minConversions ?? 0),
+          rate: String(tier.commissionPercentage ?? tier.commissionAmount ?? ""),
+          label: tier.label || "",
+        })),
+        commissionMilestones: (existingOffer.commissionRules?.milestones || []).map((milestone: any) => ({
+          conversions: String(milestone.conversions),
+          bonusAmount: String(milestone.bonusAmount),
+        })),
         status: existingOffer.status || "draft",
         featuredImageUrl: existingOffer.featuredImageUrl || "",
         minimumFollowers: existingOffer.minimumFollowers?.toString() || "",
         allowedPlatforms: existingOffer.allowedPlatforms || [],
         geographicRestrictions: existingOffer.geographicRestrictions || [],
+        geoFallbackUrl: existingOffer.geoFallbackUrl || "",
+        geoDestinations: Object.entries(existingOffer.geoDestinations || {}).map(([country, url]) => ({
+          country,
+          url: String(url),
+        })),
         ageRestriction: existingOffer.ageRestriction || "no_restriction",
         contentStyleRequirements: existingOffer.contentStyleRequirements || "",
         brandSafetyRequirements: existingOffer.brandSafetyRequirements || "",
@@ -476,12 +512,40 @@ export default function CompanyOfferCreate() {
         commissionAmount: data.commissionType !== "per_sale" && data.commissionAmount
           ? data.commissionAmount
           : null,
+        cookieDuration: data.cookieDuration ? parseInt(data.cookieDuration) : null,
+        clickIdParameter: data.clickIdParameter.trim() || null,
+        attributionModel: data.attributionModel,
+        currency: data.currency,
+        commissionRules: (data.commissionType as string) !== "monthly_retainer" &&
+          (data.commissionTiers.length > 0 || data.commissionMilestones.length > 0)
+          ? {
+              period: data.commissionPeriod,
+              tiers: data.commissionTiers.map((tier) => ({
+                minConversions: parseInt(tier.minConversions) || 0,
+                ...(data.commissionType === "per_sale"
+                  ? { commissionPercentage: parseFloat(tier.rate) }
+                  : { commissionAmount: parseFloat(tier.rate) }),
+                ...(tier.label.trim() ? { label: tier.label.trim() } : {}),
+              })),
+              milestones: data.commissionMilestones.map((milestone) => ({
+                conversions: parseInt(milestone.conversions),
+                bonusAmount: parseFloat(milestone.bonusAmount),
+              })),
+            }
+          : null,
         status: isEditMode ? data.status : 'draft', // Keep existing status when editing
         featuredImageUrl: data.featuredImageUrl || null,
         // Creator Requirements
         minimumFollowers: data.minimumFollowers ? parseInt(data.minimumFollowers) : null,
         allowedPlatforms: data.allowedPlatforms.length > 0 ? data.allowedPlatforms : null,
         geographicRestrictions: data.geographicRestrictions.length > 0 ? data.geographicRestrictions : null,
+        geoFallbackUrl: data.geoFallbackUrl.trim() || null,
+        geoDestinations: data.geoDestinations.length > 0
+          ? Object.fromEntries(data.geoDestinations.map((destination) => [
+              destination.country.trim().toUpperCase(),
+              destination.url.trim(),
+            ]))
+          : null,
         ageRestriction: data.ageRestriction !== "no_restriction" ? data.ageRestriction : null,
         contentStyleRequirements: data.contentStyleRequirements || null,
         brandSafetyRequirements: data.brandSafetyRequirements || null,
@@ -1011,6 +1075,58 @@ export default function CompanyOfferCreate() {
       }
     }
 
+    for (const tier of formData.commissionTiers) {
+      const minConversions = parseInt(tier.minConversions);
+      const rate = parseFloat(tier.rate);
+      if (isNaN(minConversions) || minConversions < 0 || isNaN(rate) || rate <= 0 ||
+        (formData.commissionType === "per_sale" && rate > 100)) {
+        setErrorDialog({
+          open: true,
+          title: "Validation Error",
+          description: formData.commissionType === "per_sale"
+            ? "Each commission tier needs a starting conversion count and a rate between 0 and 100"
+            : "Each commission tier needs a starting conversion count and an amount greater than 0",
+        });
+        return;
+      }
+    }
+
+    for (const milestone of formData.commissionMilestones) {
+      const conversions = parseInt(milestone.conversions);
+      const bonus = parseFloat(milestone.bonusAmount);
+      if (isNaN(conversions) || conversions < 1 || isNaN(bonus) || bonus <= 0) {
+        setErrorDialog({
+          open: true,
+          title: "Validation Error",
+          description: "Each milestone bonus needs a conversion count of at least 1 and an amount greater than 0",
+        });
+        return;
+      }
+    }
+
+    const seenCountries = new Set<string>();
+    for (const destination of formData.geoDestinations) {
+      const country = destination.country.trim().toUpperCase();
+      if (!/^[A-Z]{2}$/.test(country) || !/^https?:\/\/.+/.test(destination.url.trim()) || seenCountries.has(country)) {
+        setErrorDialog({
+          open: true,
+          title: "Validation Error",
+          description: "Each country destination needs a unique 2-letter country code (e.g., US) and a URL starting with http:// or https://",
+        });
+        return;
+      }
+      seenCountries.add(country);
+    }
+
+    if (formData.geoFallbackUrl.trim() && !/^https?:\/\/.+/.test(formData.geoFallbackUrl.trim())) {
+      setErrorDialog({
+        open: true,
+        title: "Validation Error",
+        description: "The fallback URL for blocked regions must start with http:// or https://",
+      });
+      return;
+    }
+
     // When creating new offer, require 6 videos
     // When editing, allow saving without videos (existing videos are separate)
     if (!isEditMode && videos.length < 6) {
@@ -1343,7 +1459,8 @@ export default function CompanyOfferCreate() {
                       Geographic Restrictions
                     </Label>
                     <p className="text-xs text-muted-foreground mb-2">
-                      Enter countries separated by commas, or type "Worldwide" for no restrictions
+                      Enter country names or 2-letter codes separated by commas, or type "Worldwide" for no restrictions.
+                      Tracking links only send visitors from these countries to your product.
                     </p>
                     <Input
                       id="geographicRestrictions"
@@ -1358,6 +1475,88 @@ export default function CompanyOfferCreate() {
                     />
                   </div>
 
+                  {/* Geo Routing */}
+                  <div className="space-y-2">
+                    <Label htmlFor="geoFallbackUrl">Fallback URL for Other Regions</Label>
+                    <Input
+                      id="geoFallbackUrl"
+                      type="url"
+                      value={formData.geoFallbackUrl}
+                      onChange={(e) => setFormData({ ...formData, geoFallbackUrl: e.target.value })}
+                      placeholder="https://example.com/international"
+                      data-testid="input-geo-fallback-url"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Where visitors outside your restricted countries are sent. Leave empty to show them a "not available in your region" page.
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Country-Specific Destinations</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Send visitors from a country to a localized product page instead of the main product URL
+                    </p>
+                    {formData.geoDestinations.map((destination, index) => (
+                      <div key={`geo-destination-${index}`} className="grid grid-cols-[6rem_1fr_auto] gap-2 items-end">
+                        <div className="space-y-1">
+                          <Label className="text-xs">Country</Label>
+                          <Input
+                            value={destination.country}
+                            maxLength={2}
+                            onChange={(e) => {
+                              const destinations = [...formData.geoDestinations];
+                              destinations[index] = { ...destination, country: e.target.value.toUpperCase() };
+                              setFormData({ ...formData, geoDestinations: destinations });
+                            }}
+                            placeholder="e.g., DE"
+                            data-testid={`input-geo-destination-country-${index}`}
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs">Destination URL</Label>
+                          <Input
+                            type="url"
+                            value={destination.url}
+                            onChange={(e) => {
+                              const destinations = [...formData.geoDestinations];
+                              destinations[index] = { ...destination, url: e.target.value };
+                              setFormData({ ...formData, geoDestinations: destinations });
+                            }}
+                            placeholder="https://example.de/product"
+                            data-testid={`input-geo-destination-url-${index}`}
+                          />
+                        </div>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setFormData({
+                            ...formData,
+                            geoDestinations: formData.geoDestinations.filter((_, i) => i !== index),
+                          })}
+                          data-testid={`button-remove-geo-destination-${index}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="gap-1"
+                      disabled={formData.geoDestinations.length >= 50}
+                      onClick={() => setFormData({
+                        ...formData,
+                        geoDestinations: [...formData.geoDestinations, { country: "", url: "" }],
+                      })}
+                      data-testid="button-add-geo-destination"
+                    >
+                      <Plus className="h-3 w-3" />
+                      Add Country Destination
+                    </Button>
+                  </div>
+
                   {/* Age Restrictions */}
                   <div className="space-y-2">
                     <Label htmlFor="ageRestriction">Age Restrictions</Label>
@@ -1546,6 +1745,253 @@ export default function CompanyOfferCreate() {
                 )}
               </div>
 
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="cookieDuration">Cookie Duration (days)</Label>
+                  <Input
+                    id="cookieDuration"
+                    type="number"
+                    min="1"
+                    max="365"
+                    value={formData.cookieDuration}
+                    onChange={(e) =>
+                      setFormData({ ...formData, cookieDuration: e.target.value })
+                    }
+                    placeholder="e.g., 30"
+                    data-testid="input-cookie-duration"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Conversions reported more than this many days after the click are rejected. Leave empty for no limit.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="clickIdParameter">Click ID Parameter</Label>
+                  <Input
+                    id="clickIdParameter"
+                    value={formData.clickIdParameter}
+                    onChange={(e) =>
+                      setFormData({ ...formData, clickIdParameter: e.target.value })
+                    }
+                    placeholder="ax_click_id"
+                    data-testid="input-click-id-parameter"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Query parameter your product URL receives the click ID in. Send it back with conversions.
+                  </p>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="currency">Offer Currency</Label>
+                <Select
+                  value={formData.currency}
+                  onValueChange={(value) => setFormData({ ...formData, currency: value })}
+                >
+                  <SelectTrigger id="currency" data-testid="select-offer-currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {currencies.map((code) => (
+                      <SelectItem key={code} value={code}>{code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Commission amounts are in this currency. Sales reported in other currencies are converted when the conversion is recorded.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="attributionModel">Attribution Model</Label>
+                <Select
+                  value={formData.attributionModel}
+                  onValueChange={(value) => setFormData({ ...formData, attributionModel: value })}
+                >
+                  <SelectTrigger id="attributionModel" data-testid="select-attribution-model">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="last_click">Last click</SelectItem>
+                    <SelectItem value="first_click">First click</SelectItem>
+                    <SelectItem value="linear">Linear (equal split)</SelectItem>
+                    <SelectItem value="time_decay">Time decay</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  How commission is split when a customer clicked several creators' links before converting
+                </p>
+              </div>
+
+              {(formData.commissionType as string) !== "monthly_retainer" && (
+                <div className="space-y-4 rounded-lg border p-4" data-testid="section-commission-rules">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <Label>Commission Tiers & Bonuses</Label>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Step up the {formData.commissionType === "per_sale" ? "rate" : "amount"} as a creator's conversions grow, or pay a bonus at a milestone. Counts reset each period.
+                      </p>
+                    </div>
+                    <Select
+                      value={formData.commissionPeriod}
+                      onValueChange={(value) => setFormData({ ...formData, commissionPeriod: value })}
+                    >
+                      <SelectTrigger className="w-36" data-testid="select-commission-period">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="month">Per month</SelectItem>
+                        <SelectItem value="quarter">Per quarter</SelectItem>
+                        <SelectItem value="year">Per year</SelectItem>
+                        <SelectItem value="lifetime">Lifetime</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {formData.commissionTiers.map((tier, index) => (
+                    <div key={`tier-${index}`} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-end">
+                      <div className="space-y-1">
+                        <Label className="text-xs">After conversions</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          value={tier.minConversions}
+                          onChange={(e) => {
+                            const tiers = [...formData.commissionTiers];
+                            tiers[index] = { ...tier, minConversions: e.target.value };
+                            setFormData({ ...formData, commissionTiers: tiers });
+                          }}
+                          placeholder="e.g., 50"
+                          data-testid={`input-tier-min-${index}`}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">{formData.commissionType === "per_sale" ? "Rate (%)" : "Amount ($)"}</Label>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={tier.rate}
+                          onChange={(e) => {
+                            const tiers = [...formData.commissionTiers];
+                            tiers[index] = { ...tier, rate: e.target.value };
+                            setFormData({ ...formData, commissionTiers: tiers });
+                          }}
+                          placeholder={formData.commissionType === "per_sale" ? "e.g., 15" : "e.g., 60.00"}
+                          data-testid={`input-tier-rate-${index}`}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Label (optional)</Label>
+                        <Input
+                          value={tier.label}
+                          maxLength={50}
+                          onChange={(e) => {
+                            const tiers = [...formData.commissionTiers];
+                            tiers[index] = { ...tier, label: e.target.value };
+                            setFormData({ ...formData, commissionTiers: tiers });
+                          }}
+                          placeholder="e.g., Gold"
+                          data-testid={`input-tier-label-${index}`}
+                        />
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setFormData({
+                          ...formData,
+                          commissionTiers: formData.commissionTiers.filter((_, i) => i !== index),
+                        })}
+                        data-testid={`button-remove-tier-${index}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+
+                  {formData.commissionMilestones.map((milestone, index) => (
+                    <div key={`milestone-${index}`} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+                      <div className="space-y-1">
+                        <Label className="text-xs">Bonus at conversion #</Label>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={milestone.conversions}
+                          onChange={(e) => {
+                            const milestones = [...formData.commissionMilestones];
+                            milestones[index] = { ...milestone, conversions: e.target.value };
+                            setFormData({ ...formData, commissionMilestones: milestones });
+                          }}
+                          placeholder="e.g., 100"
+                          data-testid={`input-milestone-conversions-${index}`}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Bonus ($)</Label>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={milestone.bonusAmount}
+                          onChange={(e) => {
+                            const milestones = [...formData.commissionMilestones];
+                            milestones[index] = { ...milestone, bonusAmount: e.target.value };
+                            setFormData({ ...formData, commissionMilestones: milestones });
+                          }}
+                          placeholder="e.g., 250.00"
+                          data-testid={`input-milestone-bonus-${index}`}
+                        />
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setFormData({
+                          ...formData,
+                          commissionMilestones: formData.commissionMilestones.filter((_, i) => i !== index),
+                        })}
+                        data-testid={`button-remove-milestone-${index}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="gap-1"
+                      disabled={formData.commissionTiers.length >= 10}
+                      onClick={() => setFormData({
+                        ...formData,
+                        commissionTiers: [...formData.commissionTiers, { minConversions: "", rate: "", label: "" }],
+                      })}
+                      data-testid="button-add-tier"
+                    >
+                      <Plus className="h-3 w-3" />
+                      Add Tier
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="gap-1"
+                      disabled={formData.commissionMilestones.length >= 10}
+                      onClick={() => setFormData({
+                        ...formData,
+                        commissionMilestones: [...formData.commissionMilestones, { conversions: "", bonusAmount: "" }],
+                      })}
+                      data-testid="button-add-milestone"
+                    >
+                      <Plus className="h-3 w-3" />
+                      Add Milestone Bonus
+                    </Button>
+                  </div>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="status">Status</Label>
                 <Select
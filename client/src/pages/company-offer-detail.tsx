@@ -51,6 +51,11 @@ import { GenericErrorDialog } from "../components/GenericErrorDialog";
 import { uploadToCloudinary } from "../lib/cloudinary-upload";
 import { useCompanyPageTour } from "../components/CompanyTour";
 import { COMPANY_TOUR_IDS, offerDetailTourSteps } from "../lib/companyTourConfig";
+import { DeviceBreakdownCard } from "../components/DeviceBreakdownCard";
+import { OfferFunnelCard } from "../components/OfferFunnelCard";
+import { CreatorCohortCard } from "../components/CreatorCohortCard";
+import { OfferBroadcastCard } from "../components/OfferBroadcastCard";
+import type { DeviceBreakdownData } from "../lib/export-utils";
 
 // Helper function to format commission display
 const formatCommission = (offer: any) => {
@@ -288,6 +293,12 @@ export default function CompanyOfferDetail() {
     enabled: !!offerId && isAuthenticated,
   });
 
+  // Clicks per device, OS and browser over the last 30 days
+  const { data: deviceBreakdown } = useQuery<DeviceBreakdownData>({
+    queryKey: [`/api/offers/${offerId}/device-breakdown?range=30d`],
+    enabled: !!offerId && isAuthenticated,
+  });
+
   // Filter applications for this offer
   const offerApplications = applications.filter((app: any) => app.offerId === offerId);
 
@@ -996,6 +1007,15 @@ export default function CompanyOfferDetail() {
               </div>
             </CardContent>
           </Card>
+
+          <div className="mt-6">
+            <DeviceBreakdownCard breakdown={deviceBreakdown} title="Audience Devices (Last 30 Days)" />
+          </div>
+
+          <div className="mt-6 grid gap-6 lg:grid-cols-2">
+            <OfferFunnelCard offerId={offerId} />
+            <CreatorCohortCard offerId={offerId} />
+          </div>
         </div>
 
         {/* Videos Section */}
@@ -1106,6 +1126,12 @@ export default function CompanyOfferDetail() {
             <h2 className="text-xl sm:text-2xl font-bold">Applications</h2>
           </div>
 
+          {offerId && offerApplications.length > 0 && (
+            <div className="mb-6">
+              <OfferBroadcastCard offerId={offerId} />
+            </div>
+          )}
+
           <Card className="rounded-2xl">
             <CardContent className="p-6 sm:p-8">
               {offerApplications.length === 0 ? (
@@ -634,7 +634,10 @@ export default function CompanyOffers() {
                       </div>
                       <div className="flex items-center gap-1 col-span-2 sm:col-span-1">
                         <MousePointer className="h-3 w-3" />
-                        <span>{offer.totalClicks || 0} clicks</span>
+                        <span>
+                          {offer.totalClicks || 0} clicks
+                          {offer.geoBlockedClicks > 0 && ` (${offer.geoBlockedClicks} blocked by region)`}
+                        </span>
                       </div>
                     </div>
                   </CardContent>
@@ -45,7 +45,7 @@ import { RadioGroup, RadioGroupItem } from "../components/ui/radio-group";
 import { Avatar, AvatarFallback } from "../components/ui/avatar";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../components/ui/tabs";
 import { Textarea } from "../components/ui/textarea";
-import { ArrowLeft, DollarSign, Video, Calendar, Briefcase, CheckCircle, XCircle, Clock, ExternalLink, Play, Eye, EyeOff, Edit3, Trash2, PauseCircle, PlayCircle } from "lucide-react";
+import { ArrowLeft, DollarSign, Video, Calendar, Briefcase, CheckCircle, XCircle, Clock, ExternalLink, Play, Eye, EyeOff, Edit3, Trash2, PauseCircle, PlayCircle, MessageSquare } from "lucide-react";
 import { useState, useEffect } from "react";
 import { Link } from "wouter";
 import { VideoPlayer } from "../components/VideoPlayer";
@@ -287,6 +287,22 @@ export default function CompanyRetainerDetail() {
     },
   });
 
+  const startConversationMutation = useMutation({
+    mutationFn: async (retainerApplicationId: string) => {
+      const response = await apiRequest("POST", "/api/conversations/start", { retainerApplicationId });
+      return response.json();
+    },
+    onSuccess: (data: any) => {
+      setLocation(`/company/messages?conversation=${data.conversationId}`);
+    },
+    onError: (error: Error) => {
+      setErrorDialog({
+        title: "Error",
+        message: error.message || "Failed to start conversation",
+      });
+    },
+  });
+
   const rejectMutation = useMutation({
     mutationFn: async (applicationId: string) => {
       return await apiRequest("PATCH", `/api/company/retainer-applications/${applicationId}/reject`);
@@ -831,6 +847,16 @@ export default function CompanyRetainerDetail() {
                                 Rejected
                               </Button>
                             )}
+                            <Button
+                              onClick={() => startConversationMutation.mutate(application.id)}
+                              variant="outline"
+                              size="sm"
+                              disabled={startConversationMutation.isPending}
+                              data-testid={`button-message-retainer-application-${application.id}`}
+                            >
+                              <MessageSquare className="h-4 w-4 mr-2" />
+                              Message
+                            </Button>
                           </div>
                         </div>
                       </div>
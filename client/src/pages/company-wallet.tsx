@@ -0,0 +1,445 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useAuth } from "../hooks/useAuth";
+import { useToast } from "../hooks/use-toast";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
+import { Badge } from "../components/ui/badge";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../components/ui/select";
+import { Wallet, Lock, AlertTriangle, PlusCircle } from "lucide-react";
+import { format } from "date-fns";
+import { TopNavBar } from "../components/TopNavBar";
+
+type CompanyWallet = {
+  id: string;
+  currency: string;
+  availableBalance: string;
+  reservedBalance: string;
+};
+
+type EscrowReserve = {
+  id: string;
+  offerId: string | null;
+  retainerContractId: string | null;
+  offerTitle: string | null;
+  contractTitle: string | null;
+  currency: string;
+  fundedAmount: string;
+  remainingAmount: string;
+  lowBalanceThreshold: string | null;
+  status: "active" | "depleted" | "released";
+  offerPausedAt: string | null;
+};
+
+type WalletTransaction = {
+  id: string;
+  type: "top_up" | "reserve" | "release" | "draw" | "refund";
+  amount: string;
+  shortfallAmount: string;
+  availableAfter: string;
+  reserveRemainingAfter: string | null;
+  description: string | null;
+  createdAt: string | null;
+};
+
+type WalletResponse = {
+  wallet: CompanyWallet;
+  reserves: EscrowReserve[];
+  transactions: WalletTransaction[];
+  minTopUp: number;
+};
+
+const transactionLabels: Record<WalletTransaction["type"], string> = {
+  top_up: "Top-up",
+  reserve: "Reserved",
+  release: "Released",
+  draw: "Paid out",
+  refund: "Refunded",
+};
+
+const formatMoney = (value: string | number, currency: string) =>
+  `${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+
+// Mirrors the server default: a reserve is low below its threshold or 10% of what was funded
+const isReserveLow = (reserve: EscrowReserve) => {
+  const threshold = reserve.lowBalanceThreshold !== null
+    ? Number(reserve.lowBalanceThreshold)
+    : Number(reserve.fundedAmount) * 0.1;
+  return reserve.status !== "released" && Number(reserve.remainingAmount) < threshold;
+};
+
+export default function CompanyWalletPage() {
+  const { isAuthenticated, isLoading, user } = useAuth();
+  const { toast } = useToast();
+  const [topUpAmount, setTopUpAmount] = useState("");
+  const [target, setTarget] = useState("");
+  const [reserveAmount, setReserveAmount] = useState("");
+  const [threshold, setThreshold] = useState("");
+
+  const isCompany = isAuthenticated && user?.role === "company";
+
+  const { data, isLoading: walletLoading } = useQuery<WalletResponse>({
+    queryKey: ["/api/company/wallet"],
+    enabled: isCompany,
+  });
+
+  const { data: offers = [] } = useQuery<Array<{ id: string; title: string; status: string }>>({
+    queryKey: ["/api/company/offers"],
+    enabled: isCompany,
+  });
+
+  const { data: contracts = [] } = useQuery<Array<{ id: string; title: string; status: string }>>({
+    queryKey: ["/api/company/retainer-contracts"],
+    enabled: isCompany,
+  });
+
+  const { mutate: confirmTopUp } = useMutation({
+    mutationFn: async (sessionId: string) => {
+      const res = await apiRequest("POST", `/api/company/wallet/top-ups/${sessionId}/confirm`);
+      return await res.json();
+    },
+    onSuccess: (result: { credited: boolean; topUp: { status: string } }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/company/wallet"] });
+      if (result.credited || result.topUp.status === "completed") {
+        toast({ title: "Wallet topped up", description: "The funds are now available in your wallet." });
+      } else if (result.topUp.status === "failed") {
+        toast({ title: "Top-up failed", description: "The checkout session expired before payment.", variant: "destructive" });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Handle the return from Stripe Checkout
+  useEffect(() => {
+    if (!isCompany) return;
+    const params = new URLSearchParams(window.location.search);
+    const sessionId = params.get("topup");
+    if (sessionId) {
+      window.history.replaceState({}, document.title, window.location.pathname);
+      confirmTopUp(sessionId);
+    }
+  }, [isCompany, confirmTopUp]);
+
+  const topUpMutation = useMutation({
+    mutationFn: async (amount: number) => {
+      const res = await apiRequest("POST", "/api/company/wallet/top-ups", { amount });
+      return await res.json();
+    },
+    onSuccess: (result: { checkoutUrl: string }) => {
+      window.location.href = result.checkoutUrl;
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const reserveMutation = useMutation({
+    mutationFn: async () => {
+      const [kind, id] = target.split(":");
+      return await apiRequest("POST", "/api/company/escrow", {
+        offerId: kind === "offer" ? id : undefined,
+        retainerContractId: kind === "contract" ? id : undefined,
+        amount: reserveAmount,
+        lowBalanceThreshold: threshold === "" ? undefined : threshold,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/company/wallet"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/offers"] });
+      setReserveAmount("");
+      setThreshold("");
+      toast({ title: "Funds reserved", description: "The escrow reserve has been updated." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: async (reserveId: string) => {
+      return await apiRequest("POST", `/api/company/escrow/${reserveId}/release`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/company/wallet"] });
+      toast({ title: "Escrow released", description: "The remaining funds are back in your wallet." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-pulse text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!isCompany) {
+    return null;
+  }
+
+  const currency = data?.wallet.currency || "USD";
+  const minTopUp = data?.minTopUp ?? 10;
+  const lowReserves = (data?.reserves || []).filter(isReserveLow);
+
+  return (
+    <div className="space-y-6">
+      <TopNavBar />
+
+      <div>
+        <h1 className="text-3xl font-bold">Wallet</h1>
+        <p className="text-muted-foreground mt-2">
+          Prepay creator commissions and reserve budget for each offer or retainer contract
+        </p>
+      </div>
+
+      {walletLoading || !data ? (
+        <div className="animate-pulse text-muted-foreground">Loading wallet...</div>
+      ) : (
+        <>
+          <div className="grid gap-4 md:grid-cols-2">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-sm font-medium">Available</CardTitle>
+                <Wallet className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatMoney(data.wallet.availableBalance, currency)}</div>
+                <p className="text-xs text-muted-foreground">Not yet reserved for an offer or contract</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-sm font-medium">In Escrow</CardTitle>
+                <Lock className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatMoney(data.wallet.reservedBalance, currency)}</div>
+                <p className="text-xs text-muted-foreground">Reserved to pay creators</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {lowReserves.length > 0 && (
+            <div className="flex items-start gap-3 rounded-lg border border-orange-200 bg-orange-50 p-4 dark:border-orange-800 dark:bg-orange-950/20">
+              <AlertTriangle className="h-5 w-5 text-orange-600 mt-0.5" />
+              <div className="text-sm text-orange-800 dark:text-orange-200">
+                {lowReserves.length === 1 ? "One escrow reserve is" : `${lowReserves.length} escrow reserves are`} running low.
+                Offers are paused when their escrow runs low and resume once you reserve more funds.
+              </div>
+            </div>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Add Funds</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="top-up-amount">Amount ({currency})</Label>
+                  <Input
+                    id="top-up-amount"
+                    type="number"
+                    min={minTopUp}
+                    step="0.01"
+                    value={topUpAmount}
+                    onChange={(e) => setTopUpAmount(e.target.value)}
+                    placeholder={`Minimum ${minTopUp}`}
+                  />
+                </div>
+                <Button
+                  onClick={() => topUpMutation.mutate(parseFloat(topUpAmount))}
+                  disabled={topUpMutation.isPending || !(parseFloat(topUpAmount) >= minTopUp)}
+                >
+                  <PlusCircle className="h-4 w-4 mr-2" />
+                  {topUpMutation.isPending ? "Redirecting..." : "Top Up with Stripe"}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Reserve Budget</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Offer or contract</Label>
+                  <Select value={target} onValueChange={setTarget}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select an offer or contract" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {offers.map((offer) => (
+                        <SelectItem key={offer.id} value={`offer:${offer.id}`}>Offer: {offer.title}</SelectItem>
+                      ))}
+                      {contracts.map((contract) => (
+                        <SelectItem key={contract.id} value={`contract:${contract.id}`}>Retainer: {contract.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="reserve-amount">Amount ({currency})</Label>
+                    <Input
+                      id="reserve-amount"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={reserveAmount}
+                      onChange={(e) => setReserveAmount(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="reserve-threshold">Low balance alert at</Label>
+                    <Input
+                      id="reserve-threshold"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={threshold}
+                      onChange={(e) => setThreshold(e.target.value)}
+                      placeholder="10% of funded"
+                    />
+                  </div>
+                </div>
+                <Button
+                  onClick={() => reserveMutation.mutate()}
+                  disabled={reserveMutation.isPending || !target || !(parseFloat(reserveAmount) > 0)}
+                >
+                  <Lock className="h-4 w-4 mr-2" />
+                  Reserve Funds
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Escrow Reserves</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {data.reserves.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No reserves yet. Reserve budget for an offer to pay its commissions from your wallet.
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-xs uppercase text-muted-foreground">
+                        <th className="py-2 pr-4">Funds</th>
+                        <th className="py-2 pr-4">Status</th>
+                        <th className="py-2 pr-4 text-right">Funded</th>
+                        <th className="py-2 pr-4 text-right">Remaining</th>
+                        <th className="py-2" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {data.reserves.map((reserve) => (
+                        <tr key={reserve.id} className="border-b">
+                          <td className="py-2 pr-4 font-medium">
+                            {reserve.offerId ? reserve.offerTitle : reserve.contractTitle}
+                            <span className="ml-2 text-xs text-muted-foreground">
+                              {reserve.offerId ? "Offer" : "Retainer"}
+                            </span>
+                          </td>
+                          <td className="py-2 pr-4">
+                            <div className="flex gap-1">
+                              <Badge variant={reserve.status === "active" ? "outline" : "secondary"} className="capitalize">
+                                {reserve.status}
+                              </Badge>
+                              {reserve.offerPausedAt && <Badge variant="destructive">Offer paused</Badge>}
+                              {!reserve.offerPausedAt && isReserveLow(reserve) && (
+                                <Badge className="bg-orange-500">Low</Badge>
+                              )}
+                            </div>
+                          </td>
+                          <td className="py-2 pr-4 text-right">{formatMoney(reserve.fundedAmount, reserve.currency)}</td>
+                          <td className="py-2 pr-4 text-right">{formatMoney(reserve.remainingAmount, reserve.currency)}</td>
+                          <td className="py-2 text-right">
+                            {reserve.status !== "released" && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => releaseMutation.mutate(reserve.id)}
+                                disabled={releaseMutation.isPending}
+                              >
+                                Release
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Activity</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {data.transactions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No wallet activity yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-xs uppercase text-muted-foreground">
+                        <th className="py-2 pr-4">Date</th>
+                        <th className="py-2 pr-4">Type</th>
+                        <th className="py-2 pr-4">Description</th>
+                        <th className="py-2 pr-4 text-right">Amount</th>
+                        <th className="py-2 text-right">Available after</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {data.transactions.map((txn) => (
+                        <tr key={txn.id} className="border-b">
+                          <td className="py-2 pr-4 whitespace-nowrap">
+                            {txn.createdAt ? format(new Date(txn.createdAt), "MMM d, yyyy HH:mm") : "-"}
+                          </td>
+                          <td className="py-2 pr-4">
+                            <Badge variant="outline">{transactionLabels[txn.type]}</Badge>
+                          </td>
+                          <td className="py-2 pr-4">
+                            {txn.description}
+                            {Number(txn.shortfallAmount) > 0 && (
+                              <span className="ml-2 text-xs text-destructive">
+                                {formatMoney(txn.shortfallAmount, currency)} not covered
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-2 pr-4 text-right">{formatMoney(txn.amount, currency)}</td>
+                          <td className="py-2 text-right">{formatMoney(txn.availableAfter, currency)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "../components/ui/tabs"
 import { TopNavBar } from "../components/TopNavBar";
 import { apiRequest, queryClient } from "../lib/queryClient";
 import { GenericErrorDialog } from "../components/GenericErrorDialog";
+import { LinkDomainCard } from "../components/LinkDomainCard";
 import {
   Globe,
   CheckCircle2,
@@ -410,6 +411,9 @@ export default function CompanyWebsiteVerification() {
         </Card>
       )}
 
+      {/* Branded link domain (needs a verified website) */}
+      {verificationData?.websiteVerified && <LinkDomainCard />}
+
       {/* Benefits of Verification */}
       <Card>
         <CardHeader>
@@ -1,5 +1,5 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useRoute } from "wouter";
+import { useRoute, useLocation } from "wouter";
 import { useToast } from "../hooks/use-toast";
 import { apiRequest, queryClient } from "../lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
@@ -42,6 +42,7 @@ import {
   Info,
   CheckCircle2,
   Send,
+  MessageSquare,
 } from "lucide-react";
 import { Link } from "wouter";
 import { format } from "date-fns";
@@ -105,6 +106,7 @@ export default function CreatorRetainerDetail() {
   const resubmitVideoInputRef = useRef<HTMLInputElement>(null);
   const [applyOpen, setApplyOpen] = useState(false);
   const [errorDialog, setErrorDialog] = useState<{ title: string; message: string } | null>(null);
+  const [, setLocation] = useLocation();
 
   // Quick tour for retainer detail page
   useCreatorPageTour(CREATOR_TOUR_IDS.RETAINER_DETAIL, retainerDetailTourSteps);
@@ -425,6 +427,23 @@ export default function CreatorRetainerDetail() {
     },
   });
 
+  // Assigned creators talk about the contract itself, applicants about their application
+  const startConversationMutation = useMutation({
+    mutationFn: async (context: { retainerContractId: string } | { retainerApplicationId: string }) => {
+      const response = await apiRequest("POST", "/api/conversations/start", context);
+      return response.json();
+    },
+    onSuccess: (data: any) => {
+      setLocation(`/messages?conversation=${data.conversationId}`);
+    },
+    onError: (error: Error) => {
+      setErrorDialog({
+        title: "Error",
+        message: error.message || "Failed to start conversation",
+      });
+    },
+  });
+
   const onApplySubmit = (data: ApplyRetainerForm) => {
     applyMutation.mutate(data);
   };
@@ -536,6 +555,23 @@ export default function CreatorRetainerDetail() {
             by {contract.company?.tradeName || contract.company?.legalName || "Company"}
           </p>
         </div>
+        {currentApplication && (
+          <Button
+            variant="outline"
+            onClick={() =>
+              startConversationMutation.mutate(
+                isApproved && contract.assignedCreatorId
+                  ? { retainerContractId: contract.id }
+                  : { retainerApplicationId: currentApplication.id },
+              )
+            }
+            disabled={startConversationMutation.isPending}
+            data-testid="button-message-company"
+          >
+            <MessageSquare className="h-4 w-4 mr-2" />
+            Message Company
+          </Button>
+        )}
         {isApproved && (
           <Dialog open={open} onOpenChange={setOpen}>
             <DialogTrigger asChild>
@@ -2,7 +2,7 @@ import { useEffect, useState, useRef, useCallback } from "react";
 import { useAuth } from "../hooks/useAuth";
 import { useToast } from "../hooks/use-toast";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useLocation } from "wouter";
+import { useLocation, useSearch } from "wouter";
 import { queryClient, apiRequest } from "../lib/queryClient";
 import { Card, CardContent } from "../components/ui/card";
 import { Button } from "../components/ui/button";
@@ -48,10 +48,14 @@ import {
   MoreVertical,
   Trash2,
   Shield,
-  FileText
+  FileText,
+  Search
 } from "lucide-react";
 import { format, isToday, isYesterday, isSameDay } from "date-fns";
 import { MessageTemplates } from "../components/MessageTemplates";
+import { MessageSearchResults, type MessageSearchCounterparty, type MessageSearchResult } from "../components/MessageSearchResults";
+import { useMessagingSocket } from "../hooks/useMessagingSocket";
+import { conversationSubject } from "../lib/conversations";
 import { GenericErrorDialog } from "../components/GenericErrorDialog";
 import { isImageUrl, isVideoUrl, proxiedSrc } from "../lib/image";
 import { MessageItemSkeleton } from "../components/skeletons";
@@ -65,6 +69,7 @@ interface EnhancedMessage {
   attachments?: string[];
   createdAt: string;
   isRead: boolean;
+  readAt?: string | null;
   status?: MessageStatus;
   tempId?: string;
   senderType?: 'user' | 'platform';
@@ -74,15 +79,17 @@ export default function Messages() {
   const { toast } = useToast();
   const { isAuthenticated, isLoading, user } = useAuth();
   const [location, navigate] = useLocation();
-  
-  const urlParams = new URLSearchParams(location.split('?')[1] || '');
+  const searchString = useSearch();
+
+  const urlParams = new URLSearchParams(searchString);
   const conversationFromUrl = urlParams.get('conversation');
   const applicationFromUrl = urlParams.get('application');
+  const messageFromUrl = urlParams.get('message');
 
   const [selectedConversation, setSelectedConversation] = useState<string | null>(conversationFromUrl);
   const [messageText, setMessageText] = useState("");
-  const [isConnecting, setIsConnecting] = useState(false);
-  const [isConnected, setIsConnected] = useState(false);
+  // Saved reply the composer text came from; sent with the message so the template's use is counted
+  const [templateId, setTemplateId] = useState<string | null>(null);
   const [typingUsers, setTypingUsers] = useState<Set<string>>(new Set());
   const [soundEnabled, setSoundEnabled] = useState(() => {
     const saved = localStorage.getItem('messageSoundEnabled');
@@ -93,6 +100,10 @@ export default function Messages() {
   const [attachmentPreviews, setAttachmentPreviews] = useState<string[]>([]);
   const [errorDialog, setErrorDialog] = useState<{ title: string; message: string } | null>(null);
 
+  // Message search; opening a result highlights the message in its conversation
+  const [messageSearch, setMessageSearch] = useState("");
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(messageFromUrl);
+
   // Image viewer state
   const [viewerOpen, setViewerOpen] = useState(false);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
@@ -107,17 +118,14 @@ export default function Messages() {
     deleteType: 'for-me' | 'for-both' | null;
   }>({ open: false, messageId: null, isOwnMessage: false, deleteType: null });
 
-  const wsRef = useRef<WebSocket | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined);
   const messageInputRef = useRef<HTMLInputElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const lastMessageCountRef = useRef(0);
   const audioRef = useRef<HTMLAudioElement | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined);
   const selectedConversationRef = useRef<string | null>(selectedConversation);
   const userIdRef = useRef<string | undefined>(user?.id);
-  const userRoleRef = useRef<string | undefined>(user?.role);
 
   // Image viewer functions
   const openImageViewer = (images: string[], startIndex: number = 0) => {
@@ -235,10 +243,6 @@ export default function Messages() {
     userIdRef.current = user?.id;
   }, [user?.id]);
 
-  useEffect(() => {
-    userRoleRef.current = user?.role;
-  }, [user?.role]);
-
   const getDisplayName = (user: any) => {
     if (!user) return 'User';
     const companyName = user.tradeName || user.legalName || user.companyName || user.company_name || user.businessName;
@@ -268,146 +272,53 @@ export default function Messages() {
     }
   }, [isAuthenticated, isLoading]);
 
-  useEffect(() => {
-    if (!isAuthenticated) return;
-
-    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-    const wsUrl = `${protocol}//${window.location.host}/ws`;
-    
-    let shouldReconnect = true;
-    
-    const connectWebSocket = () => {
-      try {
-        setIsConnecting(true);
-        const socket = new WebSocket(wsUrl);
-        
-        wsRef.current = socket;
-        
-        socket.onopen = () => {
-          if (socket === wsRef.current) {
-            setIsConnecting(false);
-            setIsConnected(true);
-          }
-        };
-
-        socket.onmessage = (event) => {
-          try {
-            const data = JSON.parse(event.data);
-
-            if (data.type === 'new_message') {
-              if (data.message?.conversationId) {
-                queryClient.setQueryData<EnhancedMessage[] | undefined>(
-                  ["/api/messages", data.message.conversationId],
-                  (prev) => {
-                    if (!prev) return [data.message];
-                    const hasMessage = prev.some((msg) => msg.id === data.message.id);
-                    return hasMessage ? prev : [...prev, data.message];
-                  }
-                );
-
-                queryClient.invalidateQueries({
-                  queryKey: ["/api/messages", data.message.conversationId]
-                });
-
-                queryClient.setQueryData<any[]>(["/api/conversations"], (prev) => {
-                  if (!prev) return prev;
-
-                  return prev.map((conv) => {
-                    if (conv.id !== data.message.conversationId) return conv;
-
-                    const isFromSelf = data.message.senderId === userIdRef.current;
-                    const isCompanyUser = userRoleRef.current === 'company';
-                    const unreadUpdates = isFromSelf
-                      ? {}
-                      : isCompanyUser
-                        ? { companyUnreadCount: (conv.companyUnreadCount || 0) + 1 }
-                        : { creatorUnreadCount: (conv.creatorUnreadCount || 0) + 1 };
-
-                    return {
-                      ...conv,
-                      lastMessage: data.message.content,
-                      lastMessageSenderId: data.message.senderId,
-                      lastMessageAt: data.message.createdAt,
-                      ...unreadUpdates,
-                    };
-                  });
-                });
-              }
-              queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
-
-              const currentSoundEnabled = localStorage.getItem('messageSoundEnabled');
-              const shouldPlaySound = currentSoundEnabled === null ? true : currentSoundEnabled === 'true';
-              if (shouldPlaySound && data.message?.senderId !== userIdRef.current && audioRef.current) {
-                audioRef.current.play().catch(() => {});
-              }
-            } else if (data.type === 'user_typing') {
-              if (data.conversationId === selectedConversationRef.current) {
-                setTypingUsers(prev => new Set(prev).add(data.userId));
-              }
-            } else if (data.type === 'user_stop_typing') {
-              if (data.conversationId === selectedConversationRef.current) {
-                setTypingUsers(prev => {
-                  const next = new Set(prev);
-                  next.delete(data.userId);
-                  return next;
-                });
-              }
-            } else if (data.type === 'messages_read') {
-              queryClient.invalidateQueries({ 
-                queryKey: ["/api/messages", data.conversationId] 
-              });
-            }
-          } catch (error) {
-            console.error('WebSocket message parse error:', error);
-          }
-        };
+  // Unread counts and the conversation list's last message are kept live in App
+  const { state: connectionState, send: sendSocketEvent } = useMessagingSocket((data) => {
+    if (data.type === 'new_message') {
+      queryClient.setQueryData<EnhancedMessage[] | undefined>(
+        ["/api/messages", data.message.conversationId],
+        (prev) => {
+          if (!prev) return prev;
+          const hasMessage = prev.some((msg) => msg.id === data.message.id);
+          return hasMessage ? prev : [...prev, data.message];
+        }
+      );
 
-        socket.onerror = (error) => {
-          console.error('WebSocket error:', error);
-          if (socket === wsRef.current) {
-            setIsConnecting(false);
-            setIsConnected(false);
-          }
-        };
-
-        socket.onclose = () => {
-          if (socket === wsRef.current) {
-            setIsConnecting(false);
-            setIsConnected(false);
-            wsRef.current = null;
-            
-            if (shouldReconnect) {
-              reconnectTimeoutRef.current = setTimeout(() => {
-                if (shouldReconnect) {
-                  connectWebSocket();
-                }
-              }, 3000);
-            }
-          }
-        };
-      } catch (error) {
-        console.error('WebSocket connection error:', error);
-        setIsConnecting(false);
-        setIsConnected(false);
+      // A conversation we haven't loaded yet (e.g. just started by the other side)
+      const knownConversations = queryClient.getQueryData<any[]>(["/api/conversations"]);
+      if (!knownConversations?.some((conv) => conv.id === data.message.conversationId)) {
+        queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
       }
-    };
-
-    connectWebSocket();
 
-    return () => {
-      shouldReconnect = false;
-      
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-        reconnectTimeoutRef.current = undefined;
+      const currentSoundEnabled = localStorage.getItem('messageSoundEnabled');
+      const shouldPlaySound = currentSoundEnabled === null ? true : currentSoundEnabled === 'true';
+      if (shouldPlaySound && data.message.senderId !== userIdRef.current && audioRef.current) {
+        audioRef.current.play().catch(() => {});
       }
-      
-      if (wsRef.current) {
-        wsRef.current.close();
-        wsRef.current = null;
+    } else if (data.type === 'user_typing') {
+      if (data.conversationId === selectedConversationRef.current) {
+        setTypingUsers(prev => new Set(prev).add(data.userId));
       }
-    };
-  }, [isAuthenticated]);
+    } else if (data.type === 'user_stop_typing') {
+      if (data.conversationId === selectedConversationRef.current) {
+        setTypingUsers(prev => {
+          const next = new Set(prev);
+          next.delete(data.userId);
+          return next;
+        });
+      }
+    } else if (data.type === 'message_rejected') {
+      setErrorDialog({ title: "Message not sent", message: data.error });
+    } else if (data.type === 'messages_read') {
+      const readIds = new Set(data.messageIds);
+      queryClient.setQueryData<EnhancedMessage[] | undefined>(
+        ["/api/messages", data.conversationId],
+        (prev) => prev?.map((msg) => (readIds.has(msg.id) ? { ...msg, isRead: true, readAt: data.readAt } : msg))
+      );
+    }
+  }, isAuthenticated);
+  const isConnected = connectionState === 'live';
+  const isConnecting = connectionState === 'connecting';
 
   const { data: conversations, isLoading: conversationsLoading } = useQuery<any[]>({
     queryKey: ["/api/conversations"],
@@ -417,6 +328,7 @@ export default function Messages() {
   const { data: messages = [], isLoading: messagesLoading } = useQuery<EnhancedMessage[]>({
     queryKey: ["/api/messages", selectedConversation],
     enabled: !!selectedConversation && isAuthenticated,
+    refetchInterval: isConnected ? false : 5000, // Poll while the socket is down
   });
 
   // Delete message mutations
@@ -536,18 +448,29 @@ export default function Messages() {
   }, [applicationFromUrl, conversations, conversationsLoading, selectedConversation, isAuthenticated, conversationStarted]);
 
   useEffect(() => {
+    setFocusedMessageId(messageFromUrl);
+  }, [messageFromUrl]);
+
+  useEffect(() => {
+    const focusedElement = focusedMessageId && document.getElementById(`message-${focusedMessageId}`);
+    if (focusedElement) {
+      focusedElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      const timer = setTimeout(() => setFocusedMessageId(null), 4000);
+      return () => clearTimeout(timer);
+    }
     if (scrollRef.current) {
       scrollRef.current.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [messages]);
+  }, [messages, focusedMessageId]);
+
+  const openSearchResult = (result: MessageSearchResult) => {
+    setMessageSearch("");
+    navigate(`${location}?conversation=${result.conversationId}&message=${result.messageId}`);
+  };
 
   useEffect(() => {
-    if (selectedConversation && isConnected && wsRef.current && user?.id) {
-      wsRef.current.send(JSON.stringify({
-        type: 'mark_read',
-        conversationId: selectedConversation,
-        userId: user.id,
-      }));
+    if (selectedConversation && user?.id && !sendSocketEvent({ type: 'mark_read', conversationId: selectedConversation })) {
+      apiRequest("POST", `/api/conversations/${selectedConversation}/read`).catch(() => {});
     }
 
     if (selectedConversation && user?.role) {
@@ -566,29 +489,19 @@ export default function Messages() {
         );
       });
     }
-  }, [selectedConversation, isConnected, user?.id, user?.role, messages.length]);
+  }, [selectedConversation, isConnected, user?.id, user?.role, messages.length, sendSocketEvent]);
 
   const handleTyping = useCallback(() => {
-    if (!selectedConversation || !wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
-
-    wsRef.current.send(JSON.stringify({
-      type: 'typing_start',
-      conversationId: selectedConversation,
-    }));
+    if (!selectedConversation || !sendSocketEvent({ type: 'typing_start', conversationId: selectedConversation })) return;
 
     if (typingTimeoutRef.current) {
       clearTimeout(typingTimeoutRef.current);
     }
 
     typingTimeoutRef.current = setTimeout(() => {
-      if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-        wsRef.current.send(JSON.stringify({
-          type: 'typing_stop',
-          conversationId: selectedConversation,
-        }));
-      }
+      sendSocketEvent({ type: 'typing_stop', conversationId: selectedConversation });
     }, 3000);
-  }, [selectedConversation]);
+  }, [selectedConversation, sendSocketEvent]);
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
@@ -721,18 +634,15 @@ export default function Messages() {
     if (typingTimeoutRef.current) {
       clearTimeout(typingTimeoutRef.current);
     }
-    if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({
-        type: 'typing_stop',
-        conversationId: selectedConversation,
-      }));
-    }
+    sendSocketEvent({ type: 'typing_stop', conversationId: selectedConversation });
 
     const messageContent = messageText;
+    const messageTemplateId = templateId;
     const filesToUpload = [...selectedFiles];
     const previewsToRestore = [...attachmentPreviews];
 
     setMessageText("");
+    setTemplateId(null);
     setSelectedFiles([]);
     setAttachmentPreviews([]);
 
@@ -742,32 +652,35 @@ export default function Messages() {
         uploadedUrls = await uploadFiles(filesToUpload);
       }
 
-      if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-        wsRef.current.send(JSON.stringify({
-          type: 'chat_message',
+      const sentOverSocket = sendSocketEvent({
+        type: 'chat_message',
+        conversationId: selectedConversation,
+        content: messageContent || '',
+        attachments: uploadedUrls,
+        templateId: messageTemplateId,
+      });
+
+      if (!sentOverSocket) {
+        // Offline: send over HTTP; the polling queries pick it up
+        await apiRequest("POST", "/api/messages", {
           conversationId: selectedConversation,
-          senderId: user.id,
           content: messageContent || '',
           attachments: uploadedUrls,
-        }));
-
+          templateId: messageTemplateId,
+        });
         queryClient.invalidateQueries({
           queryKey: ["/api/messages", selectedConversation]
         });
         queryClient.invalidateQueries({
           queryKey: ["/api/conversations"]
         });
-      } else {
-        setMessageText(messageContent);
-        setSelectedFiles(filesToUpload);
-        setAttachmentPreviews(previewsToRestore);
-        setErrorDialog({
-          title: "Connection Error",
-          message: "Real-time messaging is not connected. Trying to reconnect...",
-        });
+      }
+      if (messageTemplateId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/company/message-templates"] });
       }
     } catch (error) {
       setMessageText(messageContent);
+      setTemplateId(messageTemplateId);
       setSelectedFiles(filesToUpload);
       setAttachmentPreviews(previewsToRestore);
     } finally {
@@ -817,8 +730,21 @@ export default function Messages() {
   const isOtherUserTyping = typingUsers.size > 0;
   const isCompany = user?.role === 'company';
 
-  const trackingLink = currentConversation?.application?.trackingLink;
-  const creatorName = otherUser?.firstName || otherUser?.name || otherUser?.username || 'there';
+  const searchOffers = Array.from(
+    new Map(
+      (conversations ?? [])
+        .filter((conversation: any) => conversation.offerId && conversation.offerTitle)
+        .map((conversation: any) => [conversation.offerId, { id: conversation.offerId, title: conversation.offerTitle }]),
+    ).values(),
+  ) as Array<{ id: string; title: string }>;
+  const searchCounterparties = Array.from(
+    new Map(
+      (conversations ?? []).map((conversation: any) => {
+        const value = isCompany ? conversation.creatorId : conversation.companyId;
+        return [value, { param: 'counterpartyId', value, label: getDisplayName(conversation.otherUser) }];
+      }),
+    ).values(),
+  ) as MessageSearchCounterparty[];
 
   const handleBackNavigation = useCallback(() => {
     if (window.history.length > 1) {
@@ -971,8 +897,29 @@ export default function Messages() {
                 {soundEnabled ? <Bell className="h-5 w-5" /> : <BellOff className="h-5 w-5" />}
               </Button>
             </div>
+            <div className="p-3 border-b shrink-0">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search messages..."
+                  value={messageSearch}
+                  onChange={(e) => setMessageSearch(e.target.value)}
+                  className="pl-10"
+                  data-testid="input-search-messages"
+                />
+              </div>
+            </div>
             <ScrollArea className="flex-1">
-              {conversationsLoading ? (
+              {messageSearch.trim() ? (
+                <MessageSearchResults
+                  endpoint="/api/messages/search"
+                  query={messageSearch}
+                  offers={searchOffers}
+                  counterparties={searchCounterparties}
+                  showParties={isCompany ? "creator" : "company"}
+                  onOpenResult={openSearchResult}
+                />
+              ) : conversationsLoading ? (
                 <div className="divide-y">
                   {[...Array(5)].map((_, i) => (
                     <MessageItemSkeleton key={i} />
@@ -1029,7 +976,7 @@ export default function Messages() {
                               </div>
                             </div>
                             <div className="text-sm text-muted-foreground truncate font-medium">
-                              {conversation.offerTitle}
+                              {conversationSubject(conversation)}
                             </div>
                             {conversation.lastMessage && (
                               <div className="flex items-center gap-1.5 mt-1">
@@ -1091,7 +1038,7 @@ export default function Messages() {
                         {getDisplayName(otherUser)}
                       </h3>
                       <p className="text-sm text-muted-foreground truncate">
-                        {conversations?.find((c: any) => c.id === selectedConversation)?.offerTitle}
+                        {currentConversation && conversationSubject(currentConversation)}
                       </p>
                     </div>
                   </div>
@@ -1140,7 +1087,11 @@ export default function Messages() {
                     const isPlatformMessage = message.senderType === 'platform';
                     const isOwnMessage = !isPlatformMessage && message.senderId === user?.id;
                     return (
-                      <div key={message.id}>
+                      <div
+                        key={message.id}
+                        id={`message-${message.id}`}
+                        className={focusedMessageId === message.id ? 'rounded-lg bg-primary/10 transition-colors' : 'transition-colors'}
+                      >
                         {showDateSeparator && (
                           <div className="flex items-center justify-center my-4">
                             <Badge variant="secondary" className="text-xs">
@@ -1284,7 +1235,12 @@ export default function Messages() {
                                 {format(new Date(message.createdAt), 'h:mm a')}
                               </p>
                               {isOwnMessage && (
-                                <span className="opacity-70">
+                                <span
+                                  className="opacity-70"
+                                  title={message.readAt
+                                    ? `Read ${formatMessageDate(message.readAt)}`
+                                    : message.isRead ? 'Read' : 'Sent'}
+                                >
                                   {message.isRead ? (
                                     <CheckCheck className="h-3 w-3" />
                                   ) : (
@@ -1401,11 +1357,13 @@ export default function Messages() {
                   </Button>
 
                   {/* Message templates - only for companies */}
-                  {isCompany && (
+                  {isCompany && selectedConversation && (
                     <MessageTemplates
-                      onSelectTemplate={(content) => setMessageText(content)}
-                      trackingLink={trackingLink}
-                      creatorName={creatorName}
+                      conversationId={selectedConversation}
+                      onSelectTemplate={(content, id) => {
+                        setMessageText(content);
+                        setTemplateId(id);
+                      }}
                     />
                   )}
 
@@ -1415,6 +1373,7 @@ export default function Messages() {
                     value={messageText}
                     onChange={(e) => {
                       setMessageText(e.target.value);
+                      if (!e.target.value) setTemplateId(null);
                       handleTyping();
                     }}
                     onKeyDown={(e) => {
@@ -1423,13 +1382,12 @@ export default function Messages() {
                         sendMessage();
                       }
                     }}
-                    disabled={!isConnected && !isConnecting}
                     data-testid="input-message"
                     className="h-11 text-base"
                   />
                   <Button
                     onClick={() => sendMessage()}
-                    disabled={(!messageText.trim() && selectedFiles.length === 0) || !isConnected || uploadingFiles}
+                    disabled={(!messageText.trim() && selectedFiles.length === 0) || uploadingFiles}
                     data-testid="button-send-message"
                     className="h-11 w-11 sm:w-auto sm:px-4 shrink-0"
                   >
@@ -1445,7 +1403,9 @@ export default function Messages() {
                 </div>
                 {!isConnected && (
                   <p className="text-xs text-muted-foreground mt-2 text-center">
-                    {isConnecting ? "Connecting to chat server..." : "Reconnecting to chat server..."}
+                    {isConnecting
+                      ? "Connecting to chat server..."
+                      : "Reconnecting to chat server... Messages still send and refresh every few seconds."}
                   </p>
                 )}
               </div>
@@ -39,6 +39,7 @@ import {
   DollarSign,
   Download,
   Eye,
+  FileText,
   Filter,
   Info,
   Search,
@@ -53,6 +54,7 @@ import {
 import type { User } from "../../../shared/schema";
 import { TopNavBar } from "../components/TopNavBar";
 import { GenericErrorDialog } from "../components/GenericErrorDialog";
+import { exportTaxSummaryCSV, exportTaxSummaryPDF, type TaxSummaryExportData } from "../lib/export-utils";
 
 type PaymentStatus =
   | "pending"
@@ -86,6 +88,8 @@ type PaymentMethod = {
   cryptoWalletAddress?: string;
   cryptoNetwork?: string;
   stripeAccountId?: string;
+  payoutCurrency?: string;
+  minimumPayout?: string | null;
   isDefault?: boolean;
 };
 
@@ -387,6 +391,10 @@ function PaymentMethodSettings({
   setCryptoWalletAddress,
   cryptoNetwork,
   setCryptoNetwork,
+  payoutCurrency,
+  setPayoutCurrency,
+  minimumPayout,
+  setMinimumPayout,
   onAddPaymentMethod,
   onDeletePaymentMethod,
   onSetPrimary,
@@ -411,6 +419,10 @@ function PaymentMethodSettings({
   setCryptoWalletAddress: (value: string) => void;
   cryptoNetwork: string;
   setCryptoNetwork: (value: string) => void;
+  payoutCurrency: string;
+  setPayoutCurrency: (value: string) => void;
+  minimumPayout?: string;
+  setMinimumPayout?: (value: string) => void;
   onAddPaymentMethod: () => void;
   onDeletePaymentMethod?: (method: PaymentMethod) => void;
   onSetPrimary?: (method: PaymentMethod) => void;
@@ -429,6 +441,11 @@ function PaymentMethodSettings({
     queryKey: ["/api/platform/fees"],
   });
 
+  const { data: currencyData } = useQuery<{ currencies: string[] }>({
+    queryKey: ["/api/currencies"],
+  });
+  const currencies = currencyData?.currencies ?? ["USD", "CAD", "EUR", "GBP"];
+
   const platformFeeDisplay = feeSettings?.platformFeeDisplay ?? "4%";
   const stripeFeeDisplay = feeSettings?.stripeFeeDisplay ?? "3%";
   const totalFeeDisplay = feeSettings?.totalFeeDisplay ?? "7%";
@@ -482,7 +499,11 @@ function PaymentMethodSettings({
                             </Badge>
                           )}
                         </div>
-                        <div className="text-sm text-gray-600 truncate">{getDisplayValue(method)}</div>
+                        <div className="text-sm text-gray-600 truncate">
+                          {getDisplayValue(method)}
+                          {method.payoutCurrency && ` · Paid in ${method.payoutCurrency}`}
+                          {method.minimumPayout && ` · Minimum payout ${method.minimumPayout}`}
+                        </div>
                       </div>
                     </div>
                     <div className="flex items-center gap-2 flex-shrink-0 self-end sm:self-auto">
@@ -552,6 +573,41 @@ function PaymentMethodSettings({
             </Select>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="payout-currency">Payout Currency</Label>
+            <Select value={payoutCurrency} onValueChange={setPayoutCurrency}>
+              <SelectTrigger id="payout-currency">
+                <SelectValue placeholder="Select currency" />
+              </SelectTrigger>
+              <SelectContent>
+                {currencies.map((code) => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">
+              Earnings in other currencies are converted at the exchange rate on the day the payment is created
+            </p>
+          </div>
+
+          {setMinimumPayout && (
+            <div className="space-y-2">
+              <Label htmlFor="minimum-payout">Minimum Payout (optional)</Label>
+              <Input
+                id="minimum-payout"
+                type="number"
+                min={0}
+                step="1"
+                placeholder="Platform default"
+                value={minimumPayout}
+                onChange={(e) => setMinimumPayout(e.target.value)}
+              />
+              <p className="text-xs text-gray-500">
+                Approved earnings are held until your balance reaches this amount, then paid in the next payout run
+              </p>
+            </div>
+          )}
+
           {payoutMethod === "etransfer" && (
             <div className="space-y-2">
               <Label htmlFor="email">Email</Label>
@@ -1918,6 +1974,837 @@ function AdminPaymentDashboard({
   );
 }
 
+type TaxProfile = {
+  formType: "w9" | "w8ben";
+  legalName: string;
+  businessName?: string | null;
+  taxClassification?: string | null;
+  country: string;
+  addressLine1: string;
+  addressLine2?: string | null;
+  city: string;
+  region?: string | null;
+  postalCode?: string | null;
+  tinType?: string | null;
+  tinLast4?: string | null;
+  dateOfBirth?: string | null;
+  treatyCountry?: string | null;
+  signatureName: string;
+  certifiedAt: string;
+  hasTin: boolean;
+  isComplete: boolean;
+  missingFields: string[];
+};
+
+const taxClassificationLabels: Record<string, string> = {
+  individual: "Individual",
+  sole_proprietor: "Sole proprietor / single-member LLC",
+  c_corporation: "C corporation",
+  s_corporation: "S corporation",
+  partnership: "Partnership",
+  trust_estate: "Trust / estate",
+  llc: "LLC (multi-member)",
+  other: "Other",
+};
+
+const emptyTaxForm = {
+  formType: "w9" as "w9" | "w8ben",
+  legalName: "",
+  businessName: "",
+  taxClassification: "individual",
+  country: "US",
+  addressLine1: "",
+  addressLine2: "",
+  city: "",
+  region: "",
+  postalCode: "",
+  tinType: "ssn",
+  tin: "",
+  dateOfBirth: "",
+  treatyCountry: "",
+  signatureName: "",
+  certify: false,
+};
+
+function CreatorTaxSettings() {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyTaxForm);
+  const [isEditing, setIsEditing] = useState(false);
+  const [errorDialog, setErrorDialog] = useState<{ open: boolean; title: string; description: string }>({
+    open: false,
+    title: "",
+    description: "",
+  });
+
+  const { data: profile, isLoading } = useQuery<TaxProfile | null>({
+    queryKey: ["/api/tax-profile"],
+  });
+
+  useEffect(() => {
+    if (profile) {
+      setForm({
+        formType: profile.formType,
+        legalName: profile.legalName,
+        businessName: profile.businessName || "",
+        taxClassification: profile.taxClassification || "individual",
+        country: profile.country,
+        addressLine1: profile.addressLine1,
+        addressLine2: profile.addressLine2 || "",
+        city: profile.city,
+        region: profile.region || "",
+        postalCode: profile.postalCode || "",
+        tinType: profile.tinType || (profile.formType === "w9" ? "ssn" : "foreign_tin"),
+        tin: "",
+        dateOfBirth: profile.dateOfBirth || "",
+        treatyCountry: profile.treatyCountry || "",
+        signatureName: "",
+        certify: false,
+      });
+    }
+  }, [profile]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const isW9 = form.formType === "w9";
+      const res = await apiRequest("PUT", "/api/tax-profile", {
+        formType: form.formType,
+        legalName: form.legalName,
+        businessName: form.businessName || null,
+        taxClassification: isW9 ? form.taxClassification : null,
+        country: form.country.toUpperCase(),
+        addressLine1: form.addressLine1,
+        addressLine2: form.addressLine2 || null,
+        city: form.city,
+        region: form.region || null,
+        postalCode: form.postalCode || null,
+        tinType: form.tin || isW9 || profile?.hasTin ? form.tinType : null,
+        tin: form.tin || null,
+        dateOfBirth: isW9 ? null : form.dateOfBirth || null,
+        treatyCountry: isW9 ? null : form.treatyCountry.toUpperCase() || null,
+        signatureName: form.signatureName,
+        certify: form.certify,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tax-profile"] });
+      setIsEditing(false);
+      toast({
+        title: "Tax information saved",
+        description: "Your tax profile is complete and payouts can be sent",
+      });
+    },
+    onError: (error: Error) => {
+      setErrorDialog({
+        open: true,
+        title: "Tax Information",
+        description: error.message || "Failed to save tax information",
+      });
+    },
+  });
+
+  // Completed years with possible payouts (summaries are built on request)
+  const currentYear = new Date().getFullYear();
+  const taxYears = [currentYear - 1, currentYear - 2, currentYear - 3];
+
+  const downloadSummary = async (taxYear: number, format: "pdf" | "csv") => {
+    try {
+      const res = await apiRequest("GET", `/api/tax-summaries/${taxYear}`);
+      const summary = await res.json() as TaxSummaryExportData;
+      if (format === "pdf") {
+        exportTaxSummaryPDF(summary);
+      } else {
+        exportTaxSummaryCSV(summary);
+      }
+    } catch (error: any) {
+      toast({
+        title: "No tax summary",
+        description: error.message || `No summary available for ${taxYear}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const isW9 = form.formType === "w9";
+  const showForm = isEditing || (!isLoading && !profile);
+  const canSubmit = form.legalName && form.addressLine1 && form.city && form.country.length === 2 &&
+    form.signatureName && form.certify && (!isW9 || form.tin || profile?.hasTin) &&
+    (isW9 || form.dateOfBirth);
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-xl border-2 border-gray-200 bg-white p-6">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Tax Information</h3>
+            <p className="mt-1 text-sm text-gray-600">
+              US persons submit a W-9; everyone else submits a W-8BEN. Payouts are held until this is complete.
+            </p>
+          </div>
+          {profile && !isEditing && (
+            <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
+              Update
+            </Button>
+          )}
+        </div>
+
+        {profile && !isEditing && (
+          <div className="mt-4 flex flex-col gap-2 text-sm text-gray-700">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline">{profile.formType === "w9" ? "W-9" : "W-8BEN"}</Badge>
+              {profile.isComplete ? (
+                <Badge className="bg-green-100 text-green-800">Complete</Badge>
+              ) : (
+                <Badge className="bg-yellow-100 text-yellow-800">Incomplete</Badge>
+              )}
+            </div>
+            <div>{profile.businessName || profile.legalName} · {profile.country}</div>
+            {profile.tinLast4 && (
+              <div>{(profile.tinType || "TIN").toUpperCase()} ending {profile.tinLast4}</div>
+            )}
+            <div className="text-xs text-gray-500">
+              Certified by {profile.signatureName} on {new Date(profile.certifiedAt).toLocaleDateString()}
+            </div>
+          </div>
+        )}
+
+        {showForm && (
+          <div className="mt-4 space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="tax-form-type">Form</Label>
+                <Select
+                  value={form.formType}
+                  onValueChange={(value) => setForm({
+                    ...form,
+                    formType: value as "w9" | "w8ben",
+                    country: value === "w9" ? "US" : form.country === "US" ? "" : form.country,
+                    tinType: value === "w9" ? "ssn" : "foreign_tin",
+                    tin: "",
+                  })}
+                >
+                  <SelectTrigger id="tax-form-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="w9">W-9 (US person)</SelectItem>
+                    <SelectItem value="w8ben">W-8BEN (non-US individual)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tax-country">Country of tax residence</Label>
+                <Input
+                  id="tax-country"
+                  maxLength={2}
+                  placeholder="e.g., CA"
+                  value={form.country}
+                  disabled={isW9}
+                  onChange={(e) => setForm({ ...form, country: e.target.value.toUpperCase() })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tax-legal-name">Legal name</Label>
+                <Input
+                  id="tax-legal-name"
+                  value={form.legalName}
+                  onChange={(e) => setForm({ ...form, legalName: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tax-business-name">Business name (optional)</Label>
+                <Input
+                  id="tax-business-name"
+                  value={form.businessName}
+                  onChange={(e) => setForm({ ...form, businessName: e.target.value })}
+                />
+              </div>
+              {isW9 ? (
+                <div className="space-y-2">
+                  <Label htmlFor="tax-classification">Federal tax classification</Label>
+                  <Select
+                    value={form.taxClassification}
+                    onValueChange={(value) => setForm({ ...form, taxClassification: value })}
+                  >
+                    <SelectTrigger id="tax-classification">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(taxClassificationLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="tax-dob">Date of birth</Label>
+                  <Input
+                    id="tax-dob"
+                    type="date"
+                    value={form.dateOfBirth}
+                    onChange={(e) => setForm({ ...form, dateOfBirth: e.target.value })}
+                  />
+                </div>
+              )}
+              {!isW9 && (
+                <div className="space-y-2">
+                  <Label htmlFor="tax-treaty">Treaty country (optional)</Label>
+                  <Input
+                    id="tax-treaty"
+                    maxLength={2}
+                    placeholder="e.g., CA"
+                    value={form.treatyCountry}
+                    onChange={(e) => setForm({ ...form, treatyCountry: e.target.value.toUpperCase() })}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="tax-address1">Address</Label>
+                <Input
+                  id="tax-address1"
+                  value={form.addressLine1}
+                  onChange={(e) => setForm({ ...form, addressLine1: e.target.value })}
+                />
+                <Input
+                  id="tax-address2"
+                  placeholder="Apartment, suite, etc. (optional)"
+                  value={form.addressLine2}
+                  onChange={(e) => setForm({ ...form, addressLine2: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tax-city">City</Label>
+                <Input id="tax-city" value={form.city} onChange={(e) => setForm({ ...form, city: e.target.value })} />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="tax-region">State / region</Label>
+                  <Input id="tax-region" value={form.region} onChange={(e) => setForm({ ...form, region: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tax-postal">Postal code</Label>
+                  <Input id="tax-postal" value={form.postalCode} onChange={(e) => setForm({ ...form, postalCode: e.target.value })} />
+                </div>
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="tax-tin-type">Taxpayer ID type</Label>
+                <Select
+                  value={form.tinType}
+                  onValueChange={(value) => setForm({ ...form, tinType: value, tin: "" })}
+                  disabled={!isW9}
+                >
+                  <SelectTrigger id="tax-tin-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {isW9 ? (
+                      <>
+                        <SelectItem value="ssn">SSN</SelectItem>
+                        <SelectItem value="ein">EIN</SelectItem>
+                        <SelectItem value="itin">ITIN</SelectItem>
+                      </>
+                    ) : (
+                      <SelectItem value="foreign_tin">Foreign TIN</SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tax-tin">
+                  {isW9 ? "Taxpayer ID" : "Foreign TIN (optional)"}
+                </Label>
+                <Input
+                  id="tax-tin"
+                  autoComplete="off"
+                  placeholder={profile?.tinLast4 ? `Leave blank to keep ****${profile.tinLast4}` : ""}
+                  value={form.tin}
+                  onChange={(e) => setForm({ ...form, tin: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2 rounded-lg bg-gray-50 p-4">
+              <div className="flex items-start gap-3">
+                <Switch
+                  id="tax-certify"
+                  checked={form.certify}
+                  onCheckedChange={(checked) => setForm({ ...form, certify: checked })}
+                />
+                <Label htmlFor="tax-certify" className="text-sm font-normal text-gray-700">
+                  Under penalties of perjury, I certify that the information above is correct and that I am the
+                  {isW9 ? " US person" : " beneficial owner"} named.
+                </Label>
+              </div>
+              <Input
+                id="tax-signature"
+                placeholder="Type your full legal name to sign"
+                value={form.signatureName}
+                onChange={(e) => setForm({ ...form, signatureName: e.target.value })}
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={() => saveMutation.mutate()} disabled={!canSubmit || saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : "Save Tax Information"}
+              </Button>
+              {profile && (
+                <Button variant="outline" onClick={() => setIsEditing(false)}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="rounded-xl border-2 border-gray-200 bg-white p-6">
+        <h3 className="text-lg font-bold text-gray-900">Tax Documents</h3>
+        <p className="mt-1 text-sm text-gray-600">
+          Annual earnings summaries (1099-NEC style) from your completed payouts.
+        </p>
+        <div className="mt-4 space-y-3">
+          {taxYears.map((taxYear) => (
+            <div key={taxYear} className="flex items-center justify-between rounded-lg border border-gray-200 p-3">
+              <div className="flex items-center gap-3">
+                <FileText className="h-5 w-5 text-gray-400" />
+                <span className="font-medium text-gray-900">{taxYear}</span>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => downloadSummary(taxYear, "pdf")}>
+                  <Download className="mr-1 h-4 w-4" />
+                  PDF
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => downloadSummary(taxYear, "csv")}>
+                  <Download className="mr-1 h-4 w-4" />
+                  CSV
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <GenericErrorDialog
+        open={errorDialog.open}
+        onOpenChange={(open) => setErrorDialog({ ...errorDialog, open })}
+        title={errorDialog.title}
+        description={errorDialog.description}
+        variant="error"
+      />
+    </div>
+  );
+}
+
+function AdminTaxForms() {
+  const { toast } = useToast();
+  const [taxYear, setTaxYear] = useState(String(new Date().getFullYear() - 1));
+
+  const { data: summaries = [], isLoading } = useQuery<Array<TaxSummaryExportData & { id: string; email?: string; username?: string }>>({
+    queryKey: [`/api/admin/tax-summaries?year=${taxYear}`],
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/tax-summaries/generate", { year: parseInt(taxYear) });
+      return await res.json() as { taxYear: number; count: number };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/tax-summaries?year=${taxYear}`] });
+      toast({
+        title: "Tax summaries generated",
+        description: `${result.count} creator summaries for ${result.taxYear}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to generate tax summaries",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const exportAll = async () => {
+    try {
+      const response = await fetch(`/api/admin/tax-summaries/export?year=${taxYear}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Failed to export tax summaries");
+      }
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `tax-summaries-${taxYear}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to export tax summaries",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const currentYear = new Date().getFullYear();
+
+  return (
+    <div className="rounded-xl border-2 border-gray-200 bg-white p-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900">Tax Forms</h3>
+          <p className="mt-1 text-sm text-gray-600">
+            Summaries are generated every January 1st for the previous year. The export includes full taxpayer IDs.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Select value={taxYear} onValueChange={setTaxYear}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[currentYear, currentYear - 1, currentYear - 2, currentYear - 3].map((year) => (
+                <SelectItem key={year} value={String(year)}>{year}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => generateMutation.mutate()} disabled={generateMutation.isPending}>
+            {generateMutation.isPending ? "Generating..." : "Regenerate"}
+          </Button>
+          <Button onClick={exportAll} disabled={summaries.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="mt-6 text-sm text-gray-500">Loading tax summaries...</p>
+      ) : summaries.length === 0 ? (
+        <div className="mt-6 text-center">
+          <FileText className="mx-auto mb-4 h-12 w-12 text-gray-400" />
+          <p className="text-gray-600">No summaries for {taxYear}</p>
+        </div>
+      ) : (
+        <div className="mt-6 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-xs uppercase text-gray-500">
+                <th className="py-2 pr-4">Creator</th>
+                <th className="py-2 pr-4">Form</th>
+                <th className="py-2 pr-4">TIN</th>
+                <th className="py-2 pr-4">Gross</th>
+                <th className="py-2 pr-4">Net Paid</th>
+                <th className="py-2 pr-4">Payments</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summaries.map((summary) => (
+                <tr key={summary.id} className="border-b">
+                  <td className="py-2 pr-4">
+                    <div className="font-medium text-gray-900">{summary.recipientName || summary.username}</div>
+                    <div className="text-xs text-gray-500">{summary.email}</div>
+                  </td>
+                  <td className="py-2 pr-4">
+                    {summary.reportType === "summary" ? (
+                      <Badge className="bg-yellow-100 text-yellow-800">No tax profile</Badge>
+                    ) : (
+                      <Badge variant="outline">{summary.reportType}</Badge>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4">{summary.tinLast4 ? `****${summary.tinLast4}` : "-"}</td>
+                  <td className="py-2 pr-4">{summary.grossAmount} {summary.currency}</td>
+                  <td className="py-2 pr-4">{summary.netAmount}</td>
+                  <td className="py-2 pr-4">{summary.paymentCount}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Run totals are kept per currency, e.g. "120.00 USD · 45.50 EUR"
+function formatCurrencyTotals(totals: Record<string, string> | null | undefined): string {
+  const entries = Object.entries(totals || {});
+  if (entries.length === 0) return "0.00";
+  return entries.map(([currency, amount]) => `${parseFloat(amount).toFixed(2)} ${currency}`).join(" · ");
+}
+
+type PayoutRunStatus = "processing" | "completed" | "partially_failed" | "failed";
+
+type PayoutRun = {
+  id: string;
+  status: PayoutRunStatus;
+  trigger: string;
+  creatorCount: number;
+  paymentCount: number;
+  totalAmounts: Record<string, string>;
+  heldCreatorCount: number;
+  heldAmounts: Record<string, string>;
+  failedItemCount: number;
+  batches?: Array<{
+    payoutMethod: string;
+    currency: string;
+    providerBatchId: string | null;
+    itemCount: number;
+    totalAmount: string;
+    failedCount: number;
+    sentAt: string;
+  }> | null;
+  errorMessage?: string | null;
+  startedAt: string;
+  completedAt?: string | null;
+};
+
+type PayoutRunItem = {
+  id: string;
+  creatorId: string;
+  payoutMethod: string;
+  currency: string;
+  grossAmount: string;
+  clawbackAmount: string;
+  amount: string;
+  paymentCount: number;
+  status: "pending" | "completed" | "failed";
+  providerBatchId?: string | null;
+  providerTransactionId?: string | null;
+  error?: string | null;
+  attempts: number;
+  creator?: { username?: string; firstName?: string; lastName?: string; email?: string } | null;
+};
+
+const payoutRunStatusStyles: Record<PayoutRunStatus, string> = {
+  processing: "bg-blue-100 text-blue-800",
+  completed: "bg-green-100 text-green-800",
+  partially_failed: "bg-yellow-100 text-yellow-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+function AdminPayoutRuns() {
+  const { toast } = useToast();
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [errorDialog, setErrorDialog] = useState<{ open: boolean; title: string; description: string }>({
+    open: false,
+    title: "",
+    description: "",
+  });
+
+  const { data: runs = [], isLoading } = useQuery<PayoutRun[]>({
+    queryKey: ["/api/admin/payout-runs"],
+  });
+
+  const { data: selectedRun } = useQuery<PayoutRun & { items: PayoutRunItem[] }>({
+    queryKey: ["/api/admin/payout-runs", selectedRunId],
+    enabled: !!selectedRunId,
+  });
+
+  const onRunFinished = (run: PayoutRun, verb: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/payout-runs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/payments/all"] });
+    setSelectedRunId(run.id);
+    toast({
+      title: `Payout run ${verb}`,
+      description: run.failedItemCount > 0
+        ? `${run.failedItemCount} payout(s) failed and can be retried`
+        : `${run.creatorCount} creator(s) paid`,
+    });
+  };
+
+  const onRunError = (error: Error) => {
+    setErrorDialog({
+      open: true,
+      title: "Payout Run Failed",
+      description: error.message || "Failed to process payout run",
+    });
+  };
+
+  const startRunMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/payout-runs");
+      return await res.json() as PayoutRun;
+    },
+    onSuccess: (run) => onRunFinished(run, "completed"),
+    onError: onRunError,
+  });
+
+  const retryRunMutation = useMutation({
+    mutationFn: async (runId: string) => {
+      const res = await apiRequest("POST", `/api/admin/payout-runs/${runId}/retry`);
+      return await res.json() as PayoutRun;
+    },
+    onSuccess: (run) => onRunFinished(run, "retried"),
+    onError: onRunError,
+  });
+
+  const creatorName = (item: PayoutRunItem) => {
+    const name = [item.creator?.firstName, item.creator?.lastName].filter(Boolean).join(" ");
+    return name || item.creator?.username || item.creatorId;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-xl border-2 border-gray-200 bg-white p-6">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Payout Runs</h3>
+            <p className="mt-1 text-sm text-gray-600">
+              Approved earnings are batched daily at 3 AM. Balances below the offer or creator minimum are held for a later run.
+            </p>
+          </div>
+          <Button
+            onClick={() => startRunMutation.mutate()}
+            disabled={startRunMutation.isPending || runs.some((run) => run.status === "processing")}
+          >
+            <Send className="mr-2 h-4 w-4" />
+            {startRunMutation.isPending ? "Running..." : "Run Payouts Now"}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="mt-6 text-sm text-gray-500">Loading payout runs...</p>
+        ) : runs.length === 0 ? (
+          <div className="mt-6 text-center">
+            <Clock className="mx-auto mb-4 h-12 w-12 text-gray-400" />
+            <p className="text-gray-600">No payout runs yet</p>
+          </div>
+        ) : (
+          <div className="mt-6 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-xs uppercase text-gray-500">
+                  <th className="py-2 pr-4">Started</th>
+                  <th className="py-2 pr-4">Trigger</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2 pr-4">Creators</th>
+                  <th className="py-2 pr-4">Paid</th>
+                  <th className="py-2 pr-4">Held</th>
+                  <th className="py-2 pr-4"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map((run) => (
+                  <tr key={run.id} className={`border-b ${selectedRunId === run.id ? "bg-blue-50" : ""}`}>
+                    <td className="py-2 pr-4 whitespace-nowrap">{new Date(run.startedAt).toLocaleString()}</td>
+                    <td className="py-2 pr-4 capitalize">{run.trigger}</td>
+                    <td className="py-2 pr-4">
+                      <Badge className={payoutRunStatusStyles[run.status]}>{run.status.replace("_", " ")}</Badge>
+                    </td>
+                    <td className="py-2 pr-4">{run.creatorCount} ({run.paymentCount} payments)</td>
+                    <td className="py-2 pr-4">{formatCurrencyTotals(run.totalAmounts)}</td>
+                    <td className="py-2 pr-4">
+                      {formatCurrencyTotals(run.heldAmounts)} ({run.heldCreatorCount} creators)
+                    </td>
+                    <td className="py-2 pr-4">
+                      <div className="flex gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => setSelectedRunId(run.id)}>
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        {run.failedItemCount > 0 && run.status !== "processing" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => retryRunMutation.mutate(run.id)}
+                            disabled={retryRunMutation.isPending}
+                          >
+                            Retry {run.failedItemCount} failed
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {selectedRun && (
+        <div className="rounded-xl border-2 border-gray-200 bg-white p-6">
+          <h3 className="text-lg font-bold text-gray-900">Run Details</h3>
+          {selectedRun.errorMessage && (
+            <p className="mt-2 text-sm text-red-600">{selectedRun.errorMessage}</p>
+          )}
+
+          {selectedRun.batches && selectedRun.batches.length > 0 && (
+            <div className="mt-4 flex flex-wrap gap-2">
+              {selectedRun.batches.map((batch, i) => (
+                <Badge key={`${batch.payoutMethod}-${batch.currency}-${i}`} variant="outline">
+                  {batch.payoutMethod} · {batch.currency} · {batch.itemCount} payouts · {batch.totalAmount}
+                  {batch.providerBatchId ? ` · ${batch.providerBatchId}` : ""}
+                  {batch.failedCount > 0 ? ` · ${batch.failedCount} failed` : ""}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-xs uppercase text-gray-500">
+                  <th className="py-2 pr-4">Creator</th>
+                  <th className="py-2 pr-4">Method</th>
+                  <th className="py-2 pr-4">Payments</th>
+                  <th className="py-2 pr-4">Earned</th>
+                  <th className="py-2 pr-4">Clawback</th>
+                  <th className="py-2 pr-4">Sent</th>
+                  <th className="py-2 pr-4">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {selectedRun.items.map((item) => (
+                  <tr key={item.id} className="border-b align-top">
+                    <td className="py-2 pr-4">{creatorName(item)}</td>
+                    <td className="py-2 pr-4 capitalize">{item.payoutMethod}</td>
+                    <td className="py-2 pr-4">{item.paymentCount}</td>
+                    <td className="py-2 pr-4">{item.grossAmount} {item.currency}</td>
+                    <td className="py-2 pr-4">{item.clawbackAmount}</td>
+                    <td className="py-2 pr-4">{item.amount} {item.currency}</td>
+                    <td className="py-2 pr-4">
+                      <div className="flex items-center gap-1">
+                        {item.status === "completed" ? (
+                          <CheckCircle className="h-4 w-4 text-green-600" />
+                        ) : item.status === "failed" ? (
+                          <XCircle className="h-4 w-4 text-red-600" />
+                        ) : (
+                          <Clock className="h-4 w-4 text-gray-400" />
+                        )}
+                        <span className="capitalize">{item.status}</span>
+                        {item.attempts > 1 && <span className="text-xs text-gray-500">({item.attempts} attempts)</span>}
+                      </div>
+                      {item.error && <div className="mt-1 text-xs text-red-600">{item.error}</div>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <GenericErrorDialog
+        open={errorDialog.open}
+        onOpenChange={(open) => setErrorDialog({ ...errorDialog, open })}
+        title={errorDialog.title}
+        description={errorDialog.description}
+        variant="error"
+      />
+    </div>
+  );
+}
+
 function AdminPaymentSettings() {
   const { toast } = useToast();
   const [errorDialog, setErrorDialog] = useState<{ open: boolean; title: string; description: string }>({
@@ -2334,7 +3221,7 @@ function AdminPaymentSettings() {
 export default function PaymentSettings() {
   const { toast } = useToast();
   const { user, isAuthenticated, isLoading } = useAuth();
-  const [activeTab, setActiveTab] = useState<"overview" | "settings" | "approvals" | "dashboard">("overview");
+  const [activeTab, setActiveTab] = useState<"overview" | "settings" | "approvals" | "dashboard" | "payout-runs" | "tax-forms">("overview");
 
   // Quick Guide Tour - for both creator and company users
   const isCreator = user?.role === 'creator';
@@ -2349,6 +3236,8 @@ export default function PaymentSettings() {
   const [paypalEmail, setPaypalEmail] = useState("");
   const [cryptoWalletAddress, setCryptoWalletAddress] = useState("");
   const [cryptoNetwork, setCryptoNetwork] = useState("");
+  const [payoutCurrency, setPayoutCurrency] = useState("CAD");
+  const [minimumPayout, setMinimumPayout] = useState("");
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [paymentMethodToDelete, setPaymentMethodToDelete] = useState<PaymentMethod | null>(null);
   const [errorDialog, setErrorDialog] = useState<{ open: boolean; title: string; description: string }>({
@@ -2444,7 +3333,10 @@ export default function PaymentSettings() {
 
   const addPaymentMethodMutation = useMutation({
     mutationFn: async () => {
-      const payload: Record<string, string> = { payoutMethod };
+      const payload: Record<string, string> = { payoutMethod, payoutCurrency };
+      if (minimumPayout) {
+        payload.minimumPayout = minimumPayout;
+      }
 
       // For e-transfer, we need to set up Stripe Connect first
       if (payoutMethod === "etransfer") {
@@ -2511,6 +3403,7 @@ export default function PaymentSettings() {
       setPaypalEmail("");
       setCryptoWalletAddress("");
       setCryptoNetwork("");
+      setMinimumPayout("");
       // Redirect to payment management (overview) tab
       setActiveTab("overview");
     },
@@ -2738,6 +3631,10 @@ export default function PaymentSettings() {
               setCryptoWalletAddress={setCryptoWalletAddress}
               cryptoNetwork={cryptoNetwork}
               setCryptoNetwork={setCryptoNetwork}
+              payoutCurrency={payoutCurrency}
+              setPayoutCurrency={setPayoutCurrency}
+              minimumPayout={minimumPayout}
+              setMinimumPayout={setMinimumPayout}
               onAddPaymentMethod={() => addPaymentMethodMutation.mutate()}
               onDeletePaymentMethod={handleDeleteClick}
               onSetPrimary={handleSetPrimary}
@@ -2745,6 +3642,7 @@ export default function PaymentSettings() {
               isSubmitting={addPaymentMethodMutation.isPending}
             />
           )}
+          {activeTab === "settings" && <CreatorTaxSettings />}
         </>
       )}
 
@@ -2807,6 +3705,8 @@ export default function PaymentSettings() {
                 setCryptoWalletAddress={setCryptoWalletAddress}
                 cryptoNetwork={cryptoNetwork}
                 setCryptoNetwork={setCryptoNetwork}
+                payoutCurrency={payoutCurrency}
+                setPayoutCurrency={setPayoutCurrency}
                 onAddPaymentMethod={() => addPaymentMethodMutation.mutate()}
                 onDeletePaymentMethod={handleDeleteClick}
                 onSetPrimary={handleSetPrimary}
@@ -2843,12 +3743,34 @@ export default function PaymentSettings() {
                 >
                   Payment Settings
                 </button>
+                <button
+                  onClick={() => setActiveTab("payout-runs")}
+                  className={`whitespace-nowrap px-3 sm:px-6 py-3 sm:py-4 text-sm font-medium transition-colors ${
+                    activeTab === "payout-runs"
+                      ? "border-b-2 border-blue-600 text-blue-600"
+                      : "text-gray-600 hover:text-gray-900"
+                  }`}
+                >
+                  Payout Runs
+                </button>
+                <button
+                  onClick={() => setActiveTab("tax-forms")}
+                  className={`whitespace-nowrap px-3 sm:px-6 py-3 sm:py-4 text-sm font-medium transition-colors ${
+                    activeTab === "tax-forms"
+                      ? "border-b-2 border-blue-600 text-blue-600"
+                      : "text-gray-600 hover:text-gray-900"
+                  }`}
+                >
+                  Tax Forms
+                </button>
               </div>
             </div>
             {activeTab === "dashboard" && (
               <AdminPaymentDashboard payments={allPayments} />
             )}
             {activeTab === "settings" && <AdminPaymentSettings />}
+            {activeTab === "payout-runs" && <AdminPayoutRuns />}
+            {activeTab === "tax-forms" && <AdminTaxForms />}
           </>
         )}
       </div>
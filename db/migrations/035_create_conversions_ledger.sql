@@ -0,0 +1,33 @@
+-- Migration: Create conversions ledger
+-- Stores every conversion reported via postback, pixel or the company dashboard so that
+-- retried postbacks / duplicate pixel fires with the same orderId are not credited twice.
+
+DO $$ BEGIN
+    CREATE TYPE conversion_source AS ENUM ('postback', 'pixel', 'manual');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS conversions (
+  id VARCHAR PRIMARY KEY,                                   -- conv_<timestamp>_<hex>
+  application_id VARCHAR NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  offer_id VARCHAR NOT NULL REFERENCES offers(id) ON DELETE CASCADE,
+  creator_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  company_id VARCHAR NOT NULL REFERENCES company_profiles(id) ON DELETE CASCADE,
+  event_type VARCHAR(20) NOT NULL DEFAULT 'sale',
+  order_id VARCHAR,                                         -- Company's order reference (NULL = not de-duplicated)
+  sale_amount DECIMAL(10, 2),
+  earnings DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  source conversion_source NOT NULL,
+  raw_payload JSONB,
+  payment_id VARCHAR REFERENCES payments(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- One conversion per (company, orderId). NULL order IDs are distinct, so conversions
+-- reported without an orderId are never treated as duplicates.
+CREATE UNIQUE INDEX IF NOT EXISTS conversions_company_order_id_key ON conversions(company_id, order_id);
+CREATE INDEX IF NOT EXISTS idx_conversions_application_id ON conversions(application_id);
+
+COMMENT ON TABLE conversions IS 'Per-conversion ledger used for idempotent postback/pixel tracking.';
@@ -0,0 +1,38 @@
+-- Migration: Conversion reversals and payout clawbacks
+-- Lets companies reverse a conversion (refund/chargeback) by orderId. Unpaid payments are
+-- cancelled; already-paid ones create a negative payout adjustment offset against future payouts.
+
+DO $$ BEGIN
+    CREATE TYPE conversion_status AS ENUM ('credited', 'reversed');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE payout_adjustment_status AS ENUM ('outstanding', 'applied');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS status conversion_status NOT NULL DEFAULT 'credited';
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS reversal_type VARCHAR(20);
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS reversal_reason TEXT;
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS reversed_at TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS payout_adjustments (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  creator_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  company_id VARCHAR NOT NULL REFERENCES company_profiles(id) ON DELETE CASCADE,
+  conversion_id VARCHAR REFERENCES conversions(id) ON DELETE SET NULL,
+  payment_id VARCHAR REFERENCES payments(id) ON DELETE SET NULL,
+  amount DECIMAL(10, 2) NOT NULL,                 -- Negative: amount to recover from the creator
+  remaining_amount DECIMAL(10, 2) NOT NULL,       -- Negative: amount not yet offset against a payout
+  reason TEXT,
+  status payout_adjustment_status NOT NULL DEFAULT 'outstanding',
+  last_applied_payment_id VARCHAR REFERENCES payments(id) ON DELETE SET NULL,
+  applied_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_adjustments_creator_status ON payout_adjustments(creator_id, status);
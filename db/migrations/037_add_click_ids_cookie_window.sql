@@ -0,0 +1,12 @@
+-- Migration: Click IDs and cookie-window attribution
+-- /go/:code mints a click id per click and appends it to the destination URL. Conversions that
+-- report the click id are checked against the offer's cookie_duration and store the latency.
+
+ALTER TABLE offers ADD COLUMN IF NOT EXISTS click_id_parameter VARCHAR(50) DEFAULT 'ax_click_id';
+
+ALTER TABLE click_events ADD COLUMN IF NOT EXISTS click_id VARCHAR;
+CREATE UNIQUE INDEX IF NOT EXISTS click_events_click_id_unique ON click_events(click_id);
+
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS click_id VARCHAR;
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS clicked_at TIMESTAMP;
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS click_to_conversion_seconds INTEGER;
@@ -0,0 +1,35 @@
+-- Migration: Multi-touch attribution
+-- Offers choose how a conversion is split across creators whose links the visitor clicked
+-- (last click, first click, linear, time decay). Each conversion records its split.
+
+DO $$ BEGIN
+    CREATE TYPE attribution_model AS ENUM ('last_click', 'first_click', 'linear', 'time_decay');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE offers ADD COLUMN IF NOT EXISTS attribution_model attribution_model NOT NULL DEFAULT 'last_click';
+
+ALTER TABLE click_events ADD COLUMN IF NOT EXISTS visitor_fingerprint VARCHAR(64);
+CREATE INDEX IF NOT EXISTS idx_click_events_offer_visitor ON click_events(offer_id, visitor_fingerprint);
+
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS attribution_model attribution_model NOT NULL DEFAULT 'last_click';
+
+CREATE TABLE IF NOT EXISTS conversion_attributions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversion_id VARCHAR NOT NULL REFERENCES conversions(id) ON DELETE CASCADE,
+  application_id VARCHAR NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  offer_id VARCHAR NOT NULL REFERENCES offers(id) ON DELETE CASCADE,
+  creator_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  share DECIMAL(5, 4) NOT NULL,
+  earnings DECIMAL(10, 2) NOT NULL,
+  touch_count INTEGER NOT NULL DEFAULT 1,
+  first_touch_at TIMESTAMP,
+  last_touch_at TIMESTAMP,
+  is_primary BOOLEAN NOT NULL DEFAULT false,
+  payment_id VARCHAR REFERENCES payments(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversion_attributions_conversion_id ON conversion_attributions(conversion_id);
+CREATE INDEX IF NOT EXISTS idx_conversion_attributions_creator_id ON conversion_attributions(creator_id);
@@ -0,0 +1,8 @@
+-- Migration: Tiered and performance-based commission rules
+-- Offers may define volume tiers and milestone bonuses; each conversion stores the tier it was paid at.
+
+ALTER TABLE offers ADD COLUMN IF NOT EXISTS commission_rules JSONB;
+
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS applied_commission_tier JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_conversions_creator_offer_created ON conversions(creator_id, offer_id, created_at);
@@ -0,0 +1,18 @@
+-- Migration: Multi-currency offers, conversions and payouts
+-- Offers declare a currency; conversions keep the amount/currency as reported; payments are
+-- computed in the creator's payout currency and record the exchange-rate snapshot used.
+
+ALTER TABLE offers ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT 'USD';
+
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS original_sale_amount DECIMAL(12, 2);
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS original_currency VARCHAR(3);
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18, 8);
+
+ALTER TABLE payment_settings ADD COLUMN IF NOT EXISTS payout_currency VARCHAR(3) NOT NULL DEFAULT 'USD';
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT 'USD';
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS source_amount DECIMAL(10, 2);
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS source_currency VARCHAR(3);
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18, 8);
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS exchange_rate_source VARCHAR(20);
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS exchange_rate_at TIMESTAMP;
@@ -0,0 +1,66 @@
+-- Migration: Batched payout runs with minimum-payout thresholds
+-- Approved (processing) affiliate payments are aggregated per creator and currency, held until
+-- they clear the offer's and creator's minimum, and sent as one batch per payout method.
+
+DO $$ BEGIN
+  CREATE TYPE payout_run_status AS ENUM ('processing', 'completed', 'partially_failed', 'failed');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE payout_run_item_status AS ENUM ('pending', 'completed', 'failed');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE payment_settings ADD COLUMN IF NOT EXISTS minimum_payout DECIMAL(10, 2);
+
+CREATE TABLE IF NOT EXISTS payout_runs (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  status payout_run_status NOT NULL DEFAULT 'processing',
+  trigger VARCHAR(20) NOT NULL DEFAULT 'schedule',
+  triggered_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  creator_count INTEGER NOT NULL DEFAULT 0,
+  payment_count INTEGER NOT NULL DEFAULT 0,
+  total_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  held_creator_count INTEGER NOT NULL DEFAULT 0,
+  held_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  failed_item_count INTEGER NOT NULL DEFAULT 0,
+  batches JSONB,
+  error_message TEXT,
+  started_at TIMESTAMP DEFAULT NOW(),
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_runs_created_at ON payout_runs(created_at);
+
+CREATE TABLE IF NOT EXISTS payout_run_items (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id VARCHAR NOT NULL REFERENCES payout_runs(id) ON DELETE CASCADE,
+  creator_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  payment_setting_id VARCHAR REFERENCES payment_settings(id) ON DELETE SET NULL,
+  payout_method payout_method NOT NULL,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  gross_amount DECIMAL(10, 2) NOT NULL,
+  clawback_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  amount DECIMAL(10, 2) NOT NULL,
+  payment_count INTEGER NOT NULL DEFAULT 0,
+  status payout_run_item_status NOT NULL DEFAULT 'pending',
+  provider_batch_id VARCHAR,
+  provider_transaction_id VARCHAR,
+  provider_response JSONB,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_run_items_run_id ON payout_run_items(run_id);
+CREATE INDEX IF NOT EXISTS idx_payout_run_items_creator_id ON payout_run_items(creator_id);
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS payout_run_id VARCHAR REFERENCES payout_runs(id) ON DELETE SET NULL;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS payout_run_item_id VARCHAR REFERENCES payout_run_items(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payments_status_payout_run_item ON payments(status, payout_run_item_id);
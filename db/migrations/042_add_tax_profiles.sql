@@ -0,0 +1,60 @@
+-- Migration: Creator tax profiles and annual tax summaries
+-- Structured W-9 / W-8BEN profiles replace payment_settings.tax_information (kept for legacy data);
+-- payouts are blocked until a creator's profile is complete. Annual summaries are generated per
+-- creator from completed payments and retainer payments.
+
+DO $$ BEGIN
+  CREATE TYPE tax_form_type AS ENUM ('w9', 'w8ben');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS tax_profiles (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  form_type tax_form_type NOT NULL,
+  legal_name VARCHAR(200) NOT NULL,
+  business_name VARCHAR(200),
+  tax_classification VARCHAR(30),
+  country VARCHAR(2) NOT NULL,
+  address_line1 VARCHAR(200) NOT NULL,
+  address_line2 VARCHAR(200),
+  city VARCHAR(100) NOT NULL,
+  region VARCHAR(100),
+  postal_code VARCHAR(20),
+  tin_type VARCHAR(20),
+  tin_encrypted TEXT,
+  tin_last4 VARCHAR(4),
+  date_of_birth VARCHAR(10),
+  treaty_country VARCHAR(2),
+  signature_name VARCHAR(200) NOT NULL,
+  certified_at TIMESTAMP NOT NULL,
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS annual_tax_summaries (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  tax_year INTEGER NOT NULL,
+  report_type VARCHAR(20) NOT NULL,
+  recipient_name VARCHAR(200),
+  recipient_country VARCHAR(2),
+  recipient_address TEXT,
+  tin_type VARCHAR(20),
+  tin_last4 VARCHAR(4),
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  gross_amount DECIMAL(12, 2) NOT NULL,
+  fees_amount DECIMAL(12, 2) NOT NULL,
+  net_amount DECIMAL(12, 2) NOT NULL,
+  affiliate_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  retainer_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  payment_count INTEGER NOT NULL DEFAULT 0,
+  monthly_gross JSONB,
+  currency_totals JSONB,
+  generated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS annual_tax_summaries_user_year_unique ON annual_tax_summaries(user_id, tax_year);
+CREATE INDEX IF NOT EXISTS idx_annual_tax_summaries_tax_year ON annual_tax_summaries(tax_year);
@@ -0,0 +1,84 @@
+-- Migration: Double-entry ledger for platform money movement
+-- Every payment state transition (accrual, payout, dispute/reversal, refund) posts a balanced
+-- transaction. Transactions and entries are append-only: corrections are new, offsetting postings.
+
+DO $$ BEGIN
+  CREATE TYPE ledger_account_type AS ENUM ('asset', 'liability', 'revenue', 'expense');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_key VARCHAR NOT NULL UNIQUE,
+  code VARCHAR(40) NOT NULL,
+  type ledger_account_type NOT NULL,
+  owner_id VARCHAR,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  name VARCHAR NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_accounts_code ON ledger_accounts(code);
+CREATE INDEX IF NOT EXISTS idx_ledger_accounts_owner_id ON ledger_accounts(owner_id);
+
+CREATE TABLE IF NOT EXISTS ledger_transactions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  idempotency_key VARCHAR NOT NULL UNIQUE,
+  event_type VARCHAR(40) NOT NULL,
+  payment_id VARCHAR REFERENCES payments(id) ON DELETE SET NULL,
+  retainer_payment_id VARCHAR REFERENCES retainer_payments(id) ON DELETE SET NULL,
+  payout_run_item_id VARCHAR REFERENCES payout_run_items(id) ON DELETE SET NULL,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  description TEXT,
+  created_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_transactions_payment_id ON ledger_transactions(payment_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_transactions_retainer_payment_id ON ledger_transactions(retainer_payment_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_transactions_created_at ON ledger_transactions(created_at);
+
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id VARCHAR NOT NULL REFERENCES ledger_transactions(id),
+  account_id VARCHAR NOT NULL REFERENCES ledger_accounts(id),
+  debit DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  credit DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT ledger_entries_one_side CHECK (debit >= 0 AND credit >= 0 AND (debit = 0 OR credit = 0))
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_transaction_id ON ledger_entries(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_account_id_created_at ON ledger_entries(account_id, created_at);
+
+-- Reject updates and deletes so the journal stays append-only. The only update allowed is the
+-- ON DELETE SET NULL of a referenced payment, payout run item or user.
+CREATE OR REPLACE FUNCTION ledger_reject_modification() RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND TG_TABLE_NAME = 'ledger_transactions'
+    AND NEW.id = OLD.id
+    AND NEW.idempotency_key = OLD.idempotency_key
+    AND NEW.event_type = OLD.event_type
+    AND NEW.currency = OLD.currency
+    AND NEW.description IS NOT DISTINCT FROM OLD.description
+    AND NEW.created_at IS NOT DISTINCT FROM OLD.created_at
+    AND (NEW.payment_id IS NULL OR NEW.payment_id = OLD.payment_id)
+    AND (NEW.retainer_payment_id IS NULL OR NEW.retainer_payment_id = OLD.retainer_payment_id)
+    AND (NEW.payout_run_item_id IS NULL OR NEW.payout_run_item_id = OLD.payout_run_item_id)
+    AND (NEW.created_by IS NULL OR NEW.created_by = OLD.created_by) THEN
+    RETURN NEW;
+  END IF;
+  RAISE EXCEPTION 'Ledger table % is append-only', TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS ledger_transactions_append_only ON ledger_transactions;
+CREATE TRIGGER ledger_transactions_append_only
+  BEFORE UPDATE OR DELETE ON ledger_transactions
+  FOR EACH ROW EXECUTE FUNCTION ledger_reject_modification();
+
+DROP TRIGGER IF EXISTS ledger_entries_append_only ON ledger_entries;
+CREATE TRIGGER ledger_entries_append_only
+  BEFORE UPDATE OR DELETE ON ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION ledger_reject_modification();
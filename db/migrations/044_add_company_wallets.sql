@@ -0,0 +1,88 @@
+-- Migration: Company prepaid wallets and escrow reserves for offers and retainer contracts
+-- Companies top up a wallet through Stripe Checkout and reserve part of it per offer or contract.
+-- Conversions and approved deliverables draw from the reserve; offers are paused when it runs low.
+
+DO $$ BEGIN
+  CREATE TYPE wallet_top_up_status AS ENUM ('pending', 'completed', 'failed');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE escrow_reserve_status AS ENUM ('active', 'depleted', 'released');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE wallet_transaction_type AS ENUM ('top_up', 'reserve', 'release', 'draw');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'escrow_low_balance';
+
+CREATE TABLE IF NOT EXISTS company_wallets (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id VARCHAR NOT NULL UNIQUE REFERENCES company_profiles(id) ON DELETE CASCADE,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  available_balance DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  reserved_balance DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS wallet_top_ups (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id VARCHAR NOT NULL REFERENCES company_profiles(id) ON DELETE CASCADE,
+  amount DECIMAL(12, 2) NOT NULL,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  status wallet_top_up_status NOT NULL DEFAULT 'pending',
+  stripe_checkout_session_id VARCHAR UNIQUE,
+  stripe_payment_intent_id VARCHAR,
+  created_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_top_ups_company_id ON wallet_top_ups(company_id);
+
+CREATE TABLE IF NOT EXISTS escrow_reserves (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id VARCHAR NOT NULL REFERENCES company_profiles(id) ON DELETE CASCADE,
+  offer_id VARCHAR REFERENCES offers(id) ON DELETE CASCADE,
+  retainer_contract_id VARCHAR REFERENCES retainer_contracts(id) ON DELETE CASCADE,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  funded_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  remaining_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  low_balance_threshold DECIMAL(12, 2),
+  status escrow_reserve_status NOT NULL DEFAULT 'active',
+  low_balance_notified_at TIMESTAMP,
+  offer_paused_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT escrow_reserves_one_target CHECK ((offer_id IS NULL) <> (retainer_contract_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_escrow_reserves_company_id ON escrow_reserves(company_id);
+CREATE UNIQUE INDEX IF NOT EXISTS escrow_reserves_offer_id_unique ON escrow_reserves(offer_id);
+CREATE UNIQUE INDEX IF NOT EXISTS escrow_reserves_retainer_contract_id_unique ON escrow_reserves(retainer_contract_id);
+
+CREATE TABLE IF NOT EXISTS wallet_transactions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id VARCHAR NOT NULL REFERENCES company_profiles(id) ON DELETE CASCADE,
+  escrow_reserve_id VARCHAR REFERENCES escrow_reserves(id) ON DELETE SET NULL,
+  type wallet_transaction_type NOT NULL,
+  amount DECIMAL(12, 2) NOT NULL,
+  shortfall_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  available_after DECIMAL(12, 2) NOT NULL,
+  reserve_remaining_after DECIMAL(12, 2),
+  top_up_id VARCHAR REFERENCES wallet_top_ups(id) ON DELETE SET NULL,
+  payment_id VARCHAR REFERENCES payments(id) ON DELETE SET NULL,
+  retainer_payment_id VARCHAR REFERENCES retainer_payments(id) ON DELETE SET NULL,
+  description TEXT,
+  created_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_company_id_created_at ON wallet_transactions(company_id, created_at);
@@ -0,0 +1,10 @@
+-- Migration: Geo-restriction enforcement and per-country destinations on tracking links
+-- /go/:code turns away visitors outside an offer's geographic restrictions (fallback URL or a
+-- "not available in your region" page) and can send each country to its own destination URL.
+
+ALTER TABLE offers ADD COLUMN IF NOT EXISTS geo_fallback_url VARCHAR;
+ALTER TABLE offers ADD COLUMN IF NOT EXISTS geo_destinations JSONB;
+
+ALTER TABLE click_events ADD COLUMN IF NOT EXISTS geo_blocked BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE analytics ADD COLUMN IF NOT EXISTS geo_blocked_clicks INTEGER DEFAULT 0;
@@ -0,0 +1,64 @@
+-- Migration: Fraud review queue and fraud-rate payout holds
+-- Fraud-flagged clicks and conversions are queued for admin review; invalidating a click removes it
+-- from analytics and invalidating a conversion reverses it. Creators whose fraud rate crosses
+-- fraud_payout_hold_threshold get an automatic payout hold.
+
+DO $$ BEGIN
+  CREATE TYPE fraud_review_item_type AS ENUM ('click', 'conversion');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE fraud_review_status AS ENUM ('pending', 'approved', 'invalidated');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE payout_hold_status AS ENUM ('active', 'released');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS fraud_reviews (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_type fraud_review_item_type NOT NULL,
+  click_event_id VARCHAR UNIQUE REFERENCES click_events(id) ON DELETE CASCADE,
+  conversion_id VARCHAR UNIQUE REFERENCES conversions(id) ON DELETE CASCADE,
+  application_id VARCHAR NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  offer_id VARCHAR NOT NULL REFERENCES offers(id) ON DELETE CASCADE,
+  creator_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  fraud_score INTEGER NOT NULL DEFAULT 0,
+  fraud_flags TEXT,
+  reason TEXT,
+  counted_in_analytics BOOLEAN NOT NULL DEFAULT false,
+  status fraud_review_status NOT NULL DEFAULT 'pending',
+  reviewed_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP,
+  review_notes TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fraud_reviews_status_created_at ON fraud_reviews(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_fraud_reviews_creator_id ON fraud_reviews(creator_id);
+
+CREATE TABLE IF NOT EXISTS payout_holds (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  creator_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL,
+  fraud_rate DECIMAL(5, 2),
+  threshold DECIMAL(5, 2),
+  status payout_hold_status NOT NULL DEFAULT 'active',
+  released_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  released_at TIMESTAMP,
+  release_notes TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS payout_holds_active_creator_unique ON payout_holds(creator_id) WHERE status = 'active';
+
+INSERT INTO platform_settings (id, key, value, description, category, created_at, updated_at)
+VALUES
+  (gen_random_uuid(), 'fraud_payout_hold_threshold', '20', 'Fraud rate (percent of a creator''s clicks in the last 30 days) that puts their payouts on hold', 'fraud', NOW(), NOW())
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,45 @@
+-- Migration: Configurable fraud rules
+-- Moves the click checks hard-coded in server/fraudDetection.ts into fraud_rules so admins can add,
+-- reweight and disable them. Seeded rules reproduce the previous behaviour. The block score
+-- (fraud_block_score) is now a platform setting, so each click records whether it was blocked.
+
+DO $$ BEGIN
+  CREATE TYPE fraud_rule_type AS ENUM ('user_agent', 'missing_header', 'ip_blocklist', 'ip_list_file', 'velocity', 'conversion_without_click', 'fast_conversion');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS fraud_rules (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  code VARCHAR(50) NOT NULL UNIQUE,
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  type fraud_rule_type NOT NULL,
+  config JSONB NOT NULL,
+  weight INTEGER NOT NULL,
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  created_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+INSERT INTO fraud_rules (id, code, name, description, type, config, weight, is_enabled, created_at, updated_at)
+VALUES
+  (gen_random_uuid(), 'rate_limit_exceeded', 'IP rate limit', 'More than 10 clicks from one IP in a minute', 'velocity', '{"scope": "ip", "windowSeconds": 60, "maxClicks": 10}', 40, true, NOW(), NOW()),
+  (gen_random_uuid(), 'bot_user_agent', 'Bot user agent', 'Known crawlers, scrapers, HTTP libraries and link preview bots', 'user_agent', '{"patterns": ["bot", "crawl", "spider", "slurp", "scan", "scrape", "curl", "wget", "python-requests", "go-http-client", "postman", "insomnia", "facebookexternalhit", "twitterbot", "linkedinbot", "whatsapp", "telegram", "discordbot", "headlesschrome", "phantomjs", "selenium", "scrapy"]}', 30, true, NOW(), NOW()),
+  (gen_random_uuid(), 'repeated_clicks', 'Repeated clicks', 'Same IP clicked the same tracking link 5 times in an hour', 'velocity', '{"scope": "ip_application", "windowSeconds": 3600, "maxClicks": 5}', 25, true, NOW(), NOW()),
+  (gen_random_uuid(), 'suspicious_ip', 'Private network IP', 'Click came from a private (RFC 1918) address', 'ip_blocklist', '{"entries": ["10.0.0.0/8", "172.16.0.0/12", "192.168.0.0/16"]}', 20, true, NOW(), NOW()),
+  (gen_random_uuid(), 'no_user_agent', 'No user agent', 'Request had no User-Agent header', 'missing_header', '{"header": "user-agent"}', 15, true, NOW(), NOW()),
+  (gen_random_uuid(), 'no_referer', 'No referer', 'Request had no Referer header', 'missing_header', '{"header": "referer"}', 10, true, NOW(), NOW()),
+  (gen_random_uuid(), 'datacenter_ip', 'Datacenter IP', 'Click came from a hosting provider network listed in datacenter-ranges.txt', 'ip_list_file', '{"file": "datacenter-ranges.txt"}', 30, false, NOW(), NOW())
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE click_events ADD COLUMN IF NOT EXISTS fraud_blocked BOOLEAN NOT NULL DEFAULT false;
+
+-- Clicks logged before this migration were blocked at a fixed score of 50
+UPDATE click_events SET fraud_blocked = true WHERE fraud_score >= 50 AND fraud_blocked = false;
+
+INSERT INTO platform_settings (id, key, value, description, category, created_at, updated_at)
+VALUES
+  (gen_random_uuid(), 'fraud_block_score', '50', 'Fraud score (0-100) at which a click is left out of analytics until an admin approves it', 'fraud', NOW(), NOW())
+ON CONFLICT (key) DO NOTHING;
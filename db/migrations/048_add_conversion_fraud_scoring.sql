@@ -0,0 +1,43 @@
+-- Migration: Conversion fraud scoring and pending verification
+-- Postback, pixel and manual conversions are scored by the conversion fraud rules before anything is
+-- credited. Conversions scoring at or above fraud_conversion_hold_score are held as
+-- pending_verification until the company or an admin approves them.
+
+ALTER TYPE conversion_status ADD VALUE IF NOT EXISTS 'pending_verification';
+ALTER TYPE conversion_status ADD VALUE IF NOT EXISTS 'rejected';
+
+ALTER TYPE fraud_rule_type ADD VALUE IF NOT EXISTS 'duplicate_order_id';
+ALTER TYPE fraud_rule_type ADD VALUE IF NOT EXISTS 'sale_amount_outlier';
+ALTER TYPE fraud_rule_type ADD VALUE IF NOT EXISTS 'conversion_velocity';
+ALTER TYPE fraud_rule_type ADD VALUE IF NOT EXISTS 'conversion_ip_without_click';
+ALTER TYPE fraud_rule_type ADD VALUE IF NOT EXISTS 'pixel_without_click';
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'conversion_pending_verification';
+
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS ip_address VARCHAR;
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS user_agent TEXT;
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS fraud_score INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS fraud_flags TEXT;
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS verified_by VARCHAR REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP;
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS verification_notes TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_conversions_ip_address_created_at ON conversions(ip_address, created_at);
+
+-- Uses the fraud_rule_type values added above, so run this file statement by statement (psql -f),
+-- not inside a single transaction
+INSERT INTO fraud_rules (id, code, name, description, type, config, weight, is_enabled, created_at, updated_at)
+VALUES
+  (gen_random_uuid(), 'duplicate_order_id', 'Duplicate order id', 'Order id matches another conversion of the company or creator (ignoring case and punctuation)', 'duplicate_order_id', '{}', 50, true, NOW(), NOW()),
+  (gen_random_uuid(), 'sale_amount_outlier', 'Unusual sale amount', 'Sale amount more than 10x above or below the offer''s average order value', 'sale_amount_outlier', '{"maxMultiple": 10}', 30, true, NOW(), NOW()),
+  (gen_random_uuid(), 'conversion_burst', 'Conversion burst', 'More than 5 conversions on one tracking link within 10 minutes', 'conversion_velocity', '{"scope": "application", "windowSeconds": 600, "maxConversions": 5}', 40, true, NOW(), NOW()),
+  (gen_random_uuid(), 'conversion_ip_without_click', 'Converting IP never clicked', 'Conversion from a visitor IP with no click on the offer in the last 30 days', 'conversion_ip_without_click', '{"windowHours": 720}', 30, true, NOW(), NOW()),
+  (gen_random_uuid(), 'pixel_without_click', 'Pixel without click', 'Pixel fired with no click id and no click from the same visitor in the last 30 days', 'pixel_without_click', '{"windowHours": 720}', 50, true, NOW(), NOW()),
+  (gen_random_uuid(), 'fast_conversion', 'Fast conversion', 'Conversion reported less than 5 seconds after its click', 'fast_conversion', '{"minSeconds": 5}', 30, true, NOW(), NOW()),
+  (gen_random_uuid(), 'conversion_without_click', 'Conversion without click', 'No click on the tracking link in the 30 days before the conversion', 'conversion_without_click', '{"windowHours": 720}', 20, false, NOW(), NOW())
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO platform_settings (id, key, value, description, category, created_at, updated_at)
+VALUES
+  (gen_random_uuid(), 'fraud_conversion_hold_score', '50', 'Conversion fraud score (0-100) at which a conversion is held as pending verification until the company or an admin approves it', 'fraud', NOW(), NOW())
+ON CONFLICT (key) DO NOTHING;
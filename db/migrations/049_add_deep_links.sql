@@ -0,0 +1,35 @@
+-- Migration: Deep links and sub-id tracking
+-- Creators can add product-level sub-links to an application's tracking link (/go/:code/:linkCode)
+-- that send visitors to pages on the company's verified website, and tag clicks with up to five
+-- sub-ids (sub1..sub5) that are copied onto the conversions the clicks lead to.
+
+CREATE TABLE IF NOT EXISTS tracking_deep_links (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id VARCHAR NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  code VARCHAR(16) NOT NULL UNIQUE,
+  label VARCHAR(100),
+  destination_url TEXT NOT NULL,
+  sub1 VARCHAR(100),
+  sub2 VARCHAR(100),
+  sub3 VARCHAR(100),
+  sub4 VARCHAR(100),
+  sub5 VARCHAR(100),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tracking_deep_links_application_id ON tracking_deep_links(application_id);
+
+ALTER TABLE click_events ADD COLUMN IF NOT EXISTS deep_link_id VARCHAR REFERENCES tracking_deep_links(id) ON DELETE SET NULL;
+ALTER TABLE click_events ADD COLUMN IF NOT EXISTS sub1 VARCHAR(100);
+ALTER TABLE click_events ADD COLUMN IF NOT EXISTS sub2 VARCHAR(100);
+ALTER TABLE click_events ADD COLUMN IF NOT EXISTS sub3 VARCHAR(100);
+ALTER TABLE click_events ADD COLUMN IF NOT EXISTS sub4 VARCHAR(100);
+ALTER TABLE click_events ADD COLUMN IF NOT EXISTS sub5 VARCHAR(100);
+
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS deep_link_id VARCHAR REFERENCES tracking_deep_links(id) ON DELETE SET NULL;
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS sub1 VARCHAR(100);
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS sub2 VARCHAR(100);
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS sub3 VARCHAR(100);
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS sub4 VARCHAR(100);
+ALTER TABLE conversions ADD COLUMN IF NOT EXISTS sub5 VARCHAR(100);
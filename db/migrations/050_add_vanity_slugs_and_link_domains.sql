@@ -0,0 +1,18 @@
+-- Migration: Vanity slugs and branded link domains
+-- Creators can give an application's tracking link a readable alias (/go/jane-techgear) next to its
+-- random tracking code. Companies can register a domain on their verified website (go.brand.com) that
+-- their creators' links resolve under once a DNS TXT record proves they control it.
+
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS vanity_slug VARCHAR(40);
+CREATE UNIQUE INDEX IF NOT EXISTS applications_vanity_slug_unique ON applications(vanity_slug);
+
+CREATE TABLE IF NOT EXISTS company_link_domains (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id VARCHAR NOT NULL UNIQUE REFERENCES company_profiles(id) ON DELETE CASCADE,
+  domain VARCHAR(253) NOT NULL UNIQUE,
+  verification_token VARCHAR NOT NULL,
+  verified BOOLEAN NOT NULL DEFAULT false,
+  verified_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
@@ -0,0 +1,37 @@
+-- Migration: Hourly analytics rollups
+-- One row per hour, application, country, UTM source and device type, rebuilt from click_events and
+-- conversions. Hours are queued for a rebuild when clicks or conversions land in them or change later.
+-- Existing data is rolled up with scripts/backfill-analytics-rollups.ts.
+
+CREATE TABLE IF NOT EXISTS analytics_hourly (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  hour TIMESTAMP NOT NULL,
+  application_id VARCHAR NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  offer_id VARCHAR NOT NULL REFERENCES offers(id) ON DELETE CASCADE,
+  creator_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  company_id VARCHAR NOT NULL REFERENCES company_profiles(id) ON DELETE CASCADE,
+  country VARCHAR NOT NULL DEFAULT '',
+  utm_source VARCHAR NOT NULL DEFAULT '',
+  device_type VARCHAR(20) NOT NULL DEFAULT '',
+  clicks INTEGER NOT NULL DEFAULT 0,
+  unique_clicks INTEGER NOT NULL DEFAULT 0,
+  conversions INTEGER NOT NULL DEFAULT 0,
+  earnings DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  fraud_blocked_clicks INTEGER NOT NULL DEFAULT 0,
+  geo_blocked_clicks INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS analytics_hourly_dimensions_key
+  ON analytics_hourly(hour, application_id, country, utm_source, device_type);
+CREATE INDEX IF NOT EXISTS idx_analytics_hourly_company_hour ON analytics_hourly(company_id, hour);
+CREATE INDEX IF NOT EXISTS idx_analytics_hourly_creator_hour ON analytics_hourly(creator_id, hour);
+
+CREATE TABLE IF NOT EXISTS analytics_rollup_queue (
+  hour TIMESTAMP PRIMARY KEY,
+  queued_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Rebuilding an hour reads its clicks and conversions by time
+CREATE INDEX IF NOT EXISTS idx_click_events_timestamp ON click_events(timestamp);
+CREATE INDEX IF NOT EXISTS idx_conversions_created_at ON conversions(created_at);
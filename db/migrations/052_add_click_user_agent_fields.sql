@@ -0,0 +1,7 @@
+-- Migration: Parsed user agent fields on clicks
+-- /go/:code now stores the device type, operating system and browser parsed from each click's
+-- user agent. Clicks logged before this migration are parsed by scripts/backfill-click-user-agents.ts.
+
+ALTER TABLE click_events ADD COLUMN IF NOT EXISTS device_type VARCHAR(20);
+ALTER TABLE click_events ADD COLUMN IF NOT EXISTS os VARCHAR(40);
+ALTER TABLE click_events ADD COLUMN IF NOT EXISTS browser VARCHAR(40);
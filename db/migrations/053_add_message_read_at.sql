@@ -0,0 +1,5 @@
+-- Migration: Read receipts on messages
+-- Messages record when the recipient read them, sent to the sender over the messaging WebSocket.
+-- Messages already marked read keep is_read = true with no read_at.
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS read_at TIMESTAMP;
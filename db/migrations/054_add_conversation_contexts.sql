@@ -0,0 +1,21 @@
+-- Migration: Conversations not tied to an application
+-- Conversations can now be about an application (as before), company outreach to a creator who has
+-- not applied, a retainer contract with its assigned creator, or a retainer application.
+-- Existing conversations are all 'application' conversations.
+
+DO $$ BEGIN
+  CREATE TYPE conversation_context AS ENUM ('application', 'outreach', 'retainer_contract', 'retainer_application');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS context_type conversation_context NOT NULL DEFAULT 'application';
+ALTER TABLE conversations ALTER COLUMN application_id DROP NOT NULL;
+ALTER TABLE conversations ALTER COLUMN offer_id DROP NOT NULL;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS retainer_contract_id VARCHAR REFERENCES retainer_contracts(id) ON DELETE CASCADE;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS retainer_application_id VARCHAR REFERENCES retainer_applications(id) ON DELETE CASCADE;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS initiated_by VARCHAR REFERENCES users(id) ON DELETE SET NULL;
+
+-- Outreach rate limiting counts a company's recent outreach conversations
+CREATE INDEX IF NOT EXISTS idx_conversations_company_context_created
+  ON conversations (company_id, context_type, created_at);
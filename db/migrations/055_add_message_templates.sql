@@ -0,0 +1,20 @@
+-- Migration: Saved reply templates for messaging
+-- Companies keep their own library of canned replies, shared by everyone on the account, replacing
+-- the templates hard-coded in the client. Content uses {{variable}} placeholders resolved per
+-- conversation (creatorName, offerTitle, trackingLink, payoutAmount, companyName).
+-- Companies without templates get the previous built-in set on first use.
+
+CREATE TABLE IF NOT EXISTS message_templates (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id VARCHAR NOT NULL REFERENCES company_profiles(id) ON DELETE CASCADE,
+  title VARCHAR(100) NOT NULL,
+  content TEXT NOT NULL,
+  usage_count INTEGER NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMP,
+  created_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  updated_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_templates_company ON message_templates(company_id);
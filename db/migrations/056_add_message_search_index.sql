@@ -0,0 +1,5 @@
+-- Migration: Full-text search over messages
+-- GET /api/messages/search and GET /api/admin/messages/search match
+-- to_tsvector('english', content) against the search; this index serves that expression.
+
+CREATE INDEX IF NOT EXISTS idx_messages_content_search ON messages USING GIN (to_tsvector('english', content));
@@ -0,0 +1,32 @@
+-- Migration: Broadcast messages to an offer's creators
+-- A company writes one message and it is sent into the application conversation of every creator on
+-- the offer matching the chosen application statuses and performance segments. Each targeted
+-- application gets a recipient row linking the message it received, for delivery and read stats.
+
+CREATE TABLE IF NOT EXISTS message_broadcasts (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  offer_id VARCHAR NOT NULL REFERENCES offers(id) ON DELETE CASCADE,
+  company_id VARCHAR NOT NULL REFERENCES company_profiles(id) ON DELETE CASCADE,
+  sender_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  content TEXT NOT NULL,
+  target_statuses TEXT[] NOT NULL DEFAULT ARRAY[]::text[],
+  target_segments TEXT[] NOT NULL DEFAULT ARRAY[]::text[],
+  recipient_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_broadcasts_offer_created ON message_broadcasts(offer_id, created_at);
+
+CREATE TABLE IF NOT EXISTS message_broadcast_recipients (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  broadcast_id VARCHAR NOT NULL REFERENCES message_broadcasts(id) ON DELETE CASCADE,
+  application_id VARCHAR NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  creator_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  conversation_id VARCHAR REFERENCES conversations(id) ON DELETE SET NULL,
+  message_id VARCHAR REFERENCES messages(id) ON DELETE SET NULL,
+  error TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_message_broadcast_recipients_broadcast_application
+  ON message_broadcast_recipients(broadcast_id, application_id);
@@ -0,0 +1,32 @@
+-- Migration: Keep payout clawbacks and run totals in their own currency
+-- A clawback is recorded in the currency of the paid payment it recovers and is only offset against
+-- payouts in that currency. Payout runs report paid and held amounts per currency instead of one
+-- sum across currencies.
+
+ALTER TABLE payout_adjustments ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT 'USD';
+
+UPDATE payout_adjustments pa
+SET currency = p.currency
+FROM payments p
+WHERE pa.payment_id = p.id AND pa.currency <> p.currency;
+
+ALTER TABLE payout_runs ADD COLUMN IF NOT EXISTS total_amounts JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE payout_runs ADD COLUMN IF NOT EXISTS held_amounts JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Paid totals of past runs can be rebuilt from their items; held amounts were not kept per
+-- currency, so past runs keep only their held creator count
+UPDATE payout_runs r
+SET total_amounts = t.amounts
+FROM (
+  SELECT run_id, jsonb_object_agg(currency, total) AS amounts
+  FROM (
+    SELECT run_id, currency, to_char(SUM(amount), 'FM9999999990.00') AS total
+    FROM payout_run_items
+    GROUP BY run_id, currency
+  ) per_currency
+  GROUP BY run_id
+) t
+WHERE r.id = t.run_id;
+
+ALTER TABLE payout_runs DROP COLUMN IF EXISTS total_amount;
+ALTER TABLE payout_runs DROP COLUMN IF EXISTS held_amount;
@@ -0,0 +1,11 @@
+-- Migration: Seed default saved reply templates only once per company
+-- The defaults used to be re-added whenever a company had no templates, so a team could never clear
+-- its library. The seeding is now recorded on the company profile.
+
+ALTER TABLE company_profiles ADD COLUMN IF NOT EXISTS message_templates_seeded_at TIMESTAMP;
+
+-- Companies that already have templates were seeded when they first listed them
+UPDATE company_profiles
+SET message_templates_seeded_at = NOW()
+WHERE message_templates_seeded_at IS NULL
+  AND id IN (SELECT DISTINCT company_id FROM message_templates);
@@ -0,0 +1,6 @@
+-- Migration: Return escrow drawn for reversed conversions
+-- When a credited conversion is refunded, charged back or invalidated, what its commissions drew from
+-- the offer's escrow reserve goes back to that reserve (or to the available balance once the reserve
+-- was released) and is recorded as a 'refund' wallet transaction.
+
+ALTER TYPE wallet_transaction_type ADD VALUE IF NOT EXISTS 'refund';
@@ -0,0 +1,68 @@
+import { db } from "../server/db";
+import { clickEvents, conversions } from "../shared/schema";
+import { sql } from "drizzle-orm";
+import { AnalyticsRollupScheduler } from "../server/analyticsRollupScheduler";
+
+/**
+ * Build the hourly analytics rollups (analytics_hourly) from existing clicks and conversions
+ * Run with: npm run analytics:backfill -- [--from 2026-01-01] [--to 2026-02-01]
+ * Defaults to everything from the first click or conversion until now. Hours already rolled up are
+ * rebuilt, so it is safe to run again.
+ */
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function parseDateArg(name: string): Date | undefined {
+  const value = argValue(name);
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`--${name} must be a date, got "${value}"`);
+  }
+  return date;
+}
+
+async function earliestActivity(): Promise<Date | null> {
+  const [click] = await db.select({ first: sql<Date | null>`MIN(${clickEvents.timestamp})`.mapWith(clickEvents.timestamp) }).from(clickEvents);
+  const [conversion] = await db.select({ first: sql<Date | null>`MIN(${conversions.createdAt})`.mapWith(conversions.createdAt) }).from(conversions);
+  const times = [click?.first, conversion?.first].filter((time): time is Date => !!time);
+  if (times.length === 0) return null;
+  return new Date(Math.min(...times.map((time) => time.getTime())));
+}
+
+async function backfillAnalyticsRollups() {
+  console.log('📊 Backfilling hourly analytics rollups...\n');
+
+  try {
+    const to = parseDateArg('to') ?? new Date();
+    const from = parseDateArg('from') ?? await earliestActivity();
+
+    if (!from) {
+      console.log('✨ No clicks or conversions yet - nothing to roll up.');
+      process.exit(0);
+    }
+
+    console.log(`   From: ${from.toISOString()}`);
+    console.log(`   To:   ${to.toISOString()}\n`);
+
+    const scheduler = new AnalyticsRollupScheduler();
+    const result = await scheduler.backfill(from, to, (run, remaining) => {
+      console.log(`   Rebuilt ${run.hours} hour(s) into ${run.rows} row(s), ${remaining} hour(s) left`);
+    });
+
+    console.log('\n📈 Backfill Summary:');
+    console.log(`   ✅ Hours rebuilt: ${result.hours}`);
+    console.log(`   📊 Rollup rows: ${result.rows}`);
+    console.log(`   ❌ Failed hours (left queued for the scheduler): ${result.failed}`);
+
+    process.exit(result.failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('\n❌ Backfill failed:', error);
+    process.exit(1);
+  }
+}
+
+backfillAnalyticsRollups();
@@ -0,0 +1,56 @@
+import { db } from "../server/db";
+import { clickEvents } from "../shared/schema";
+import { and, eq, isNull, ne, sql } from "drizzle-orm";
+import { parseUserAgent } from "../server/userAgent";
+
+/**
+ * Parse device type, OS and browser for clicks logged before /go/:code stored them
+ * Run with: npm run analytics:backfill-user-agents
+ * Clicks share a handful of user agents, so each distinct user agent is parsed once and every click
+ * with it is updated together. Run analytics:backfill afterwards so the hourly rollups pick up the devices.
+ */
+
+const BATCH_SIZE = 500;
+
+async function backfillClickUserAgents() {
+  console.log('📱 Parsing user agents of existing clicks...\n');
+
+  try {
+    let userAgents = 0;
+    let clicks = 0;
+
+    while (true) {
+      const batch = await db
+        .selectDistinct({ userAgent: clickEvents.userAgent })
+        .from(clickEvents)
+        .where(and(isNull(clickEvents.deviceType), ne(sql`TRIM(COALESCE(${clickEvents.userAgent}, ''))`, '')))
+        .limit(BATCH_SIZE);
+
+      if (batch.length === 0) break;
+
+      for (const { userAgent } of batch) {
+        const { deviceType, os, browser } = parseUserAgent(userAgent);
+        const updated = await db
+          .update(clickEvents)
+          .set({ deviceType, os, browser })
+          .where(and(eq(clickEvents.userAgent, userAgent!), isNull(clickEvents.deviceType)))
+          .returning({ id: clickEvents.id });
+        userAgents++;
+        clicks += updated.length;
+      }
+
+      console.log(`   Parsed ${userAgents} user agent(s), ${clicks} click(s) updated`);
+    }
+
+    console.log('\n📈 Backfill Summary:');
+    console.log(`   ✅ User agents parsed: ${userAgents}`);
+    console.log(`   📊 Clicks updated: ${clicks}`);
+
+    process.exit(0);
+  } catch (error) {
+    console.error('\n❌ Backfill failed:', error);
+    process.exit(1);
+  }
+}
+
+backfillClickUserAgents();
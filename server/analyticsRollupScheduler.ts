@@ -0,0 +1,114 @@
+// Analytics Rollup Scheduler
+// Rebuilds the hourly analytics rollups (analytics_hourly) for hours queued by new or changed clicks and conversions
+
+import { storage } from "./storage";
+import type { AnalyticsRollupGranularity, AnalyticsRollupQuery } from "../shared/schema";
+
+// Hours rebuilt per scheduled run; a larger backlog (e.g. after a backfill) drains over the next runs
+export const ROLLUP_HOURS_PER_RUN = 200;
+
+// Longest range GET /api/analytics/timeseries accepts per granularity, and the default when no range is given
+export const MAX_ROLLUP_RANGE_DAYS: Record<AnalyticsRollupGranularity, number> = {
+  hour: 31,
+  day: 731,
+  week: 1827,
+  month: 3653,
+};
+const DEFAULT_ROLLUP_RANGE_DAYS: Record<AnalyticsRollupGranularity, number> = {
+  hour: 1,
+  day: 30,
+  week: 182,
+  month: 365,
+};
+
+// Rows returned by one time-series query; grouping by many creators or countries can exceed it
+export const MAX_ROLLUP_ROWS = 10000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RollupRunResult {
+  hours: number;
+  rows: number;
+  failed: number;
+}
+
+/**
+ * Resolve the from/to of a time-series query, defaulting to the granularity's usual range
+ */
+export function resolveRollupRange(query: AnalyticsRollupQuery): { from: Date; to: Date } | { error: string } {
+  const to = query.to ?? new Date();
+  const from = query.from ?? new Date(to.getTime() - DEFAULT_ROLLUP_RANGE_DAYS[query.granularity] * DAY_MS);
+
+  if (from >= to) {
+    return { error: "from must be before to" };
+  }
+  if (to.getTime() - from.getTime() > MAX_ROLLUP_RANGE_DAYS[query.granularity] * DAY_MS) {
+    return { error: `Ranges of ${query.granularity} data can span at most ${MAX_ROLLUP_RANGE_DAYS[query.granularity]} days` };
+  }
+  return { from, to };
+}
+
+export class AnalyticsRollupScheduler {
+  private running = false;
+
+  /**
+   * Rebuild the oldest queued hours. Skipped while a previous run is still going.
+   */
+  async rollUpQueuedHours(limit: number = ROLLUP_HOURS_PER_RUN): Promise<RollupRunResult> {
+    const result: RollupRunResult = { hours: 0, rows: 0, failed: 0 };
+    if (this.running) {
+      return result;
+    }
+
+    this.running = true;
+    try {
+      const hours = await storage.claimAnalyticsRollupHours(limit);
+
+      for (const hour of hours) {
+        try {
+          result.rows += await storage.rebuildAnalyticsHour(hour);
+          result.hours++;
+        } catch (error) {
+          console.error(`[Analytics Rollup] Error rebuilding hour ${hour.toISOString()}:`, error);
+          result.failed++;
+          // Try again on the next run
+          await storage.queueAnalyticsRollupHours([hour]);
+        }
+      }
+
+      if (hours.length > 0) {
+        console.log(`[Analytics Rollup] Rebuilt ${result.hours} hour(s) into ${result.rows} row(s)${result.failed ? `, ${result.failed} failed` : ''}`);
+      }
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Roll up existing data: queue every hour in the range and rebuild until the queue is empty
+   */
+  async backfill(
+    from: Date,
+    to: Date,
+    onProgress?: (run: RollupRunResult, remaining: number) => void,
+  ): Promise<RollupRunResult> {
+    const queued = await storage.queueAnalyticsRollupRange(from, to);
+    console.log(`[Analytics Rollup] Backfill queued ${queued} hour(s) from ${from.toISOString()} to ${to.toISOString()}`);
+
+    const total: RollupRunResult = { hours: 0, rows: 0, failed: 0 };
+    while (true) {
+      const run = await this.rollUpQueuedHours();
+      total.hours += run.hours;
+      total.rows += run.rows;
+      total.failed += run.failed;
+
+      const remaining = await storage.countQueuedAnalyticsRollupHours();
+      onProgress?.(run, remaining);
+      // Stop when drained, or when every claimed hour failed (they are back in the queue for the scheduler)
+      if (remaining === 0 || run.hours === 0) {
+        return total;
+      }
+    }
+  }
+}
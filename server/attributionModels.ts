@@ -0,0 +1,130 @@
+/**
+ * Attribution Models
+ *
+ * Splits a conversion's commission across the creators whose tracking links the
+ * visitor clicked before converting. Each offer picks one model:
+ * - last_click:  100% to the most recent click
+ * - first_click: 100% to the earliest click
+ * - linear:      every click weighs the same
+ * - time_decay:  a click's weight halves every TIME_DECAY_HALF_LIFE_DAYS before the conversion
+ *
+ * Touches are the visitor's click_events on the offer (matched by visitor fingerprint)
+ * inside the lookback window. Shares are aggregated per application.
+ */
+
+export type AttributionModel = 'last_click' | 'first_click' | 'linear' | 'time_decay';
+
+export const ATTRIBUTION_MODELS: AttributionModel[] = ['last_click', 'first_click', 'linear', 'time_decay'];
+
+// Weight of a click halves for every 7 days between it and the conversion
+export const TIME_DECAY_HALF_LIFE_DAYS = 7;
+
+// Lookback for offers without a cookie duration
+export const DEFAULT_ATTRIBUTION_LOOKBACK_DAYS = 30;
+
+export interface AttributionTouch {
+  applicationId: string;
+  creatorId: string;
+  clickEventId: string;
+  timestamp: Date;
+}
+
+export interface AttributionShare {
+  applicationId: string;
+  creatorId: string;
+  share: number; // 0..1, shares of one conversion sum to 1
+  touchCount: number;
+  firstTouchAt: Date | null;
+  lastTouchAt: Date | null;
+}
+
+/**
+ * Split a conversion across the applications in `touches` using the given model
+ * Returns an empty list when there are no touches
+ */
+export function splitAttribution(
+  model: AttributionModel,
+  touches: AttributionTouch[],
+  convertedAt: Date = new Date()
+): AttributionShare[] {
+  if (touches.length === 0) {
+    return [];
+  }
+
+  const ordered = [...touches].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  let weights: number[];
+  switch (model) {
+    case 'first_click':
+      weights = ordered.map((_, i) => (i === 0 ? 1 : 0));
+      break;
+    case 'linear':
+      weights = ordered.map(() => 1);
+      break;
+    case 'time_decay': {
+      const halfLifeMs = TIME_DECAY_HALF_LIFE_DAYS * 24 * 60 * 60 * 1000;
+      weights = ordered.map((touch) => {
+        const age = Math.max(0, convertedAt.getTime() - touch.timestamp.getTime());
+        return Math.pow(0.5, age / halfLifeMs);
+      });
+      break;
+    }
+    case 'last_click':
+    default:
+      weights = ordered.map((_, i) => (i === ordered.length - 1 ? 1 : 0));
+      break;
+  }
+
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0) || 1;
+  const byApplication = new Map<string, AttributionShare>();
+
+  ordered.forEach((touch, i) => {
+    const existing = byApplication.get(touch.applicationId);
+    if (existing) {
+      existing.share += weights[i] / totalWeight;
+      existing.touchCount += 1;
+      existing.lastTouchAt = touch.timestamp;
+    } else {
+      byApplication.set(touch.applicationId, {
+        applicationId: touch.applicationId,
+        creatorId: touch.creatorId,
+        share: weights[i] / totalWeight,
+        touchCount: 1,
+        firstTouchAt: touch.timestamp,
+        lastTouchAt: touch.timestamp,
+      });
+    }
+  });
+
+  return Array.from(byApplication.values())
+    .filter((s) => s.share > 0)
+    .sort((a, b) => b.share - a.share);
+}
+
+/**
+ * Allocate an amount across shares in whole cents; the rounding remainder goes to the largest share
+ * so the allocations always add up to the original amount
+ */
+export function allocateByShare(amount: number, shares: Pick<AttributionShare, 'share'>[]): number[] {
+  if (shares.length === 0) {
+    return [];
+  }
+
+  const totalCents = Math.round(amount * 100);
+  const cents = shares.map((s) => Math.floor(totalCents * s.share));
+  const remainder = totalCents - cents.reduce((sum, c) => sum + c, 0);
+
+  let largest = 0;
+  shares.forEach((s, i) => {
+    if (s.share > shares[largest].share) largest = i;
+  });
+  cents[largest] += remainder;
+
+  return cents.map((c) => c / 100);
+}
+
+export default {
+  ATTRIBUTION_MODELS,
+  splitAttribution,
+  allocateByShare,
+};
@@ -72,6 +72,19 @@ export const AuditActions = {
   REFUND_PAYMENT: 'refund_payment',
   RESOLVE_PAYMENT_DISPUTE: 'resolve_payment_dispute',
 
+  // Fraud actions
+  RESOLVE_FRAUD_REVIEWS: 'resolve_fraud_reviews',
+  RELEASE_PAYOUT_HOLD: 'release_payout_hold',
+  CREATE_FRAUD_RULE: 'create_fraud_rule',
+  UPDATE_FRAUD_RULE: 'update_fraud_rule',
+  DELETE_FRAUD_RULE: 'delete_fraud_rule',
+  APPROVE_CONVERSION: 'approve_conversion',
+  REJECT_CONVERSION: 'reject_conversion',
+
+  // Tax actions
+  GENERATE_TAX_FORMS: 'generate_tax_forms',
+  EXPORT_TAX_FORMS: 'export_tax_forms',
+
   // Review actions
   APPROVE_REVIEW: 'approve_review',
   HIDE_REVIEW: 'hide_review',
@@ -105,6 +118,11 @@ export const EntityTypes = {
   OFFER: 'offer',
   USER: 'user',
   PAYMENT: 'payment',
+  TAX_FORM: 'tax_form',
+  FRAUD_REVIEW: 'fraud_review',
+  PAYOUT_HOLD: 'payout_hold',
+  FRAUD_RULE: 'fraud_rule',
+  CONVERSION: 'conversion',
   REVIEW: 'review',
   APPLICATION: 'application',
   PLATFORM_SETTINGS: 'platform_settings',
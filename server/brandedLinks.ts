@@ -0,0 +1,148 @@
+/**
+ * Branded Links
+ *
+ * Readable alternatives to /go/<random code> that still go through the same /go handler (click
+ * logging, fraud checks, geo routing):
+ * - Vanity slugs: a creator can claim one slug per application (/go/jane-techgear). Slugs can't be
+ *   reserved words, can't match another link's slug or tracking code, and go through the moderation
+ *   keyword list and profanity filter.
+ * - Link domains: a company can register one domain on its verified website (go.brand.com) and prove
+ *   control with a TXT record on _affiliatexchange-link.<domain>. Once verified, requests for that host
+ *   are served as tracking links (go.brand.com/<slug or code>), limited to the company's own offers.
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as dns } from 'dns';
+import { storage } from './storage';
+import { checkContent } from './moderation/moderationService';
+import { getVerifiedCompanyHost } from './deepLinks';
+import type { Application, CompanyLinkDomain, CompanyProfile } from '../shared/schema';
+
+export const LINK_DOMAIN_TXT_PREFIX = '_affiliatexchange-link';
+
+// Slugs that read like platform pages or could be mistaken for official links
+const RESERVED_SLUGS = new Set([
+  'admin', 'api', 'app', 'assets', 'auth', 'billing', 'company', 'creator', 'dashboard', 'help',
+  'login', 'logout', 'official', 'offers', 'payments', 'settings', 'signup', 'static', 'support',
+  'affiliatexchange',
+]);
+
+// Verified link domains (and hosts that aren't one) are re-read at most this often
+const LINK_DOMAIN_CACHE_TTL_MS = 60 * 1000;
+
+// Host headers are client-controlled, so don't let junk hosts grow the cache without bound
+const LINK_DOMAIN_CACHE_MAX_ENTRIES = 1000;
+
+const linkDomainCache = new Map<string, { linkDomain: CompanyLinkDomain | null; loadedAt: number }>();
+
+/**
+ * Why a vanity slug can't be used (reserved or flagged by moderation); null when it is acceptable.
+ * Collisions with other applications are checked separately.
+ */
+export async function checkVanitySlug(slug: string): Promise<string | null> {
+  if (RESERVED_SLUGS.has(slug)) {
+    return `"${slug}" is reserved`;
+  }
+
+  // Hyphens separate words, so keyword matching sees "jane-scam-deals" as "jane scam deals"
+  const moderation = await checkContent(slug.replace(/-/g, ' '), 'slug');
+  if (moderation.isFlagged) {
+    return "This slug isn't allowed. Please choose another.";
+  }
+  return null;
+}
+
+/**
+ * Whether a vanity slug is free: not another application's slug or tracking code
+ */
+export async function isVanitySlugAvailable(slug: string, applicationId: string): Promise<boolean> {
+  const [bySlug, byCode] = await Promise.all([
+    storage.getApplicationByVanitySlug(slug),
+    storage.getApplicationByTrackingCode(slug),
+  ]);
+  return (!bySlug || bySlug.id === applicationId) && (!byCode || byCode.id === applicationId);
+}
+
+/**
+ * Application for a /go/ code: the tracking code, or failing that a vanity slug
+ */
+export async function resolveTrackingCode(code: string): Promise<Application | undefined> {
+  return (await storage.getApplicationByTrackingCode(code)) || (await storage.getApplicationByVanitySlug(code.toLowerCase()));
+}
+
+export function generateLinkDomainToken(): string {
+  return `affiliatexchange-link-verification=${randomUUID().replace(/-/g, '')}`;
+}
+
+/**
+ * Whether a link domain is the company's verified website host or one of its subdomains
+ */
+export function isDomainOnCompanyWebsite(
+  domain: string,
+  company: Pick<CompanyProfile, 'websiteUrl' | 'websiteVerified'> | undefined,
+): boolean {
+  const websiteHost = getVerifiedCompanyHost(company);
+  if (!websiteHost) return false;
+  const host = domain.startsWith('www.') ? domain.slice(4) : domain;
+  return host === websiteHost || host.endsWith(`.${websiteHost}`);
+}
+
+/**
+ * Look for the domain's verification token in the TXT records of _affiliatexchange-link.<domain>
+ */
+export async function checkLinkDomainDns(linkDomain: CompanyLinkDomain): Promise<{ success: boolean; error?: string }> {
+  const recordName = `${LINK_DOMAIN_TXT_PREFIX}.${linkDomain.domain}`;
+  try {
+    const records = await dns.resolveTxt(recordName);
+    if (records.map((chunks) => chunks.join('')).includes(linkDomain.verificationToken)) {
+      return { success: true };
+    }
+    return { success: false, error: `The TXT record on ${recordName} does not match the verification token` };
+  } catch (error: any) {
+    if (error.code === 'ENODATA' || error.code === 'ENOTFOUND') {
+      return { success: false, error: `No TXT record found on ${recordName}` };
+    }
+    return { success: false, error: `DNS lookup failed: ${error.message}` };
+  }
+}
+
+/**
+ * Verified link domain for a request host, or null when the host isn't one
+ */
+export async function getVerifiedLinkDomain(host: string): Promise<CompanyLinkDomain | null> {
+  const domain = host.toLowerCase();
+  const cached = linkDomainCache.get(domain);
+  if (cached && Date.now() - cached.loadedAt < LINK_DOMAIN_CACHE_TTL_MS) {
+    return cached.linkDomain;
+  }
+
+  const linkDomain = await storage.getLinkDomainByDomain(domain);
+  const verified = linkDomain?.verified ? linkDomain : null;
+  if (linkDomainCache.size >= LINK_DOMAIN_CACHE_MAX_ENTRIES) linkDomainCache.clear();
+  linkDomainCache.set(domain, { linkDomain: verified, loadedAt: Date.now() });
+  return verified;
+}
+
+/**
+ * Drop a domain from the cache after it is verified or removed
+ */
+export function invalidateLinkDomainCache(domain: string): void {
+  linkDomainCache.delete(domain.toLowerCase());
+}
+
+/**
+ * Public link for an application under its company's verified link domain
+ */
+export function buildBrandedLink(linkDomain: CompanyLinkDomain | undefined, application: Pick<Application, 'vanitySlug' | 'trackingCode'>): string | null {
+  if (!linkDomain?.verified) return null;
+  const code = application.vanitySlug || application.trackingCode;
+  return code ? `https://${linkDomain.domain}/${code}` : null;
+}
+
+/**
+ * Platform link with the application's vanity slug in place of its tracking code
+ */
+export function buildVanityLink(application: Pick<Application, 'vanitySlug' | 'trackingLink'>): string | null {
+  if (!application.vanitySlug || !application.trackingLink) return null;
+  return application.trackingLink.replace(/\/go\/[^/]+$/, `/go/${application.vanitySlug}`);
+}
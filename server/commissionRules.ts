@@ -0,0 +1,98 @@
+/**
+ * Commission Rules
+ *
+ * Tiered and performance-based commission for offers. An offer's `commissionRules` holds:
+ * - period:     window conversions are counted in (month, quarter, year or lifetime)
+ * - tiers:      rate that applies once the creator has `minConversions` conversions in the period
+ *               (e.g. 10% from 0, 15% from 50 → 10% for the first 50 sales of the month, 15% after)
+ * - milestones: one-off bonus paid on the conversion that reaches `conversions` in the period
+ *
+ * Tier rates override the offer's flat commissionPercentage/commissionAmount for that conversion.
+ */
+
+import { commissionRulesSchema, type CommissionRules } from '../shared/schema';
+
+export interface AppliedCommissionTier {
+  period: CommissionRules['period'];
+  periodStart: string | null;
+  periodConversions: number; // Credited conversions in the period before this one
+  tierIndex: number | null;
+  label: string | null;
+  commissionPercentage: number | null;
+  commissionAmount: number | null;
+  milestoneBonus: number;
+}
+
+/**
+ * Parse stored rules; returns null for missing/invalid rules or rules with nothing configured
+ */
+export function parseCommissionRules(raw: unknown): CommissionRules | null {
+  if (!raw) return null;
+  const parsed = commissionRulesSchema.safeParse(raw);
+  if (!parsed.success) {
+    console.warn('[CommissionRules] Ignoring invalid commission rules:', parsed.error.issues);
+    return null;
+  }
+  if (parsed.data.tiers.length === 0 && parsed.data.milestones.length === 0) {
+    return null;
+  }
+  return parsed.data;
+}
+
+/**
+ * Start of the period containing `at` (null for lifetime)
+ */
+export function getCommissionPeriodStart(period: CommissionRules['period'], at: Date = new Date()): Date | null {
+  switch (period) {
+    case 'month':
+      return new Date(at.getFullYear(), at.getMonth(), 1);
+    case 'quarter':
+      return new Date(at.getFullYear(), Math.floor(at.getMonth() / 3) * 3, 1);
+    case 'year':
+      return new Date(at.getFullYear(), 0, 1);
+    case 'lifetime':
+    default:
+      return null;
+  }
+}
+
+/**
+ * Pick the tier and milestone bonus for the next conversion, given how many the creator
+ * already has in the period
+ */
+export function evaluateCommissionRules(
+  rules: CommissionRules,
+  periodConversions: number,
+  periodStart: Date | null
+): AppliedCommissionTier {
+  let tierIndex: number | null = null;
+  rules.tiers.forEach((tier, i) => {
+    if (tier.minConversions <= periodConversions &&
+      (tierIndex === null || tier.minConversions >= rules.tiers[tierIndex].minConversions)) {
+      tierIndex = i;
+    }
+  });
+
+  const tier = tierIndex !== null ? rules.tiers[tierIndex] : null;
+  const conversionNumber = periodConversions + 1;
+  const milestoneBonus = rules.milestones
+    .filter((m) => m.conversions === conversionNumber)
+    .reduce((sum, m) => sum + m.bonusAmount, 0);
+
+  return {
+    period: rules.period,
+    periodStart: periodStart ? periodStart.toISOString() : null,
+    periodConversions,
+    tierIndex,
+    label: tier ? tier.label || `Tier ${(tierIndex ?? 0) + 1}` : null,
+    commissionPercentage: tier?.commissionPercentage ?? null,
+    commissionAmount: tier?.commissionAmount ?? null,
+    milestoneBonus,
+  };
+}
+
+export default {
+  parseCommissionRules,
+  getCommissionPeriodStart,
+  evaluateCommissionRules,
+};
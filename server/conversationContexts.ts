@@ -0,0 +1,199 @@
+/**
+ * Conversation Contexts
+ *
+ * A conversation is between one creator and one company, about one of:
+ * - application: a creator's application to an offer (started by either side)
+ * - retainer_application: a creator's application to a retainer contract (either side)
+ * - retainer_contract: a retainer contract with its assigned creator (either side)
+ * - outreach: a company reaching a creator who hasn't applied, optionally about an offer or a
+ *   retainer contract. Outreach is unsolicited, so it is rate-limited and moderated before delivery:
+ *   a company can open OUTREACH_DAILY_LIMIT outreach conversations a day and send
+ *   OUTREACH_MESSAGES_BEFORE_REPLY messages in each until the creator replies, and those messages
+ *   are refused when the moderation keywords flag them.
+ */
+
+import { storage } from './storage';
+import { checkContent } from './moderation/moderationService';
+import type { Conversation, ConversationContext } from '../shared/schema';
+
+export const OUTREACH_DAILY_LIMIT = 20;
+export const OUTREACH_MESSAGES_BEFORE_REPLY = 2;
+
+export class ConversationContextError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ConversationContextError';
+    Object.setPrototypeOf(this, ConversationContextError.prototype);
+  }
+}
+
+export interface ConversationContextInput {
+  applicationId?: string;
+  retainerApplicationId?: string;
+  retainerContractId?: string;
+}
+
+interface ConversationTarget {
+  contextType: ConversationContext;
+  creatorId: string;
+  companyId: string;
+  applicationId?: string;
+  offerId?: string;
+  retainerContractId?: string;
+  retainerApplicationId?: string;
+}
+
+async function resolveTarget(user: { id: string; role: string }, input: ConversationContextInput): Promise<ConversationTarget> {
+  const companyProfile = user.role === 'company' ? await storage.getCompanyProfile(user.id) : undefined;
+  if (user.role === 'company' && !companyProfile) {
+    throw new ConversationContextError('Company profile not found', 404);
+  }
+  const assertParty = (creatorId: string, companyId: string) => {
+    const allowed = user.role === 'company' ? companyProfile?.id === companyId : user.id === creatorId;
+    if (!allowed) throw new ConversationContextError("You don't have access to this conversation", 403);
+  };
+
+  if (input.applicationId) {
+    const application = await storage.getApplication(input.applicationId);
+    if (!application) throw new ConversationContextError('Application not found', 404);
+    const offer = await storage.getOffer(application.offerId);
+    if (!offer) throw new ConversationContextError('Offer not found', 404);
+    assertParty(application.creatorId, offer.companyId);
+    return {
+      contextType: 'application',
+      creatorId: application.creatorId,
+      companyId: offer.companyId,
+      applicationId: application.id,
+      offerId: offer.id,
+    };
+  }
+
+  if (input.retainerApplicationId) {
+    const retainerApplication = await storage.getRetainerApplication(input.retainerApplicationId);
+    if (!retainerApplication) throw new ConversationContextError('Retainer application not found', 404);
+    const contract = await storage.getRetainerContract(retainerApplication.contractId);
+    if (!contract) throw new ConversationContextError('Retainer contract not found', 404);
+    assertParty(retainerApplication.creatorId, contract.companyId);
+    return {
+      contextType: 'retainer_application',
+      creatorId: retainerApplication.creatorId,
+      companyId: contract.companyId,
+      retainerContractId: contract.id,
+      retainerApplicationId: retainerApplication.id,
+    };
+  }
+
+  if (input.retainerContractId) {
+    const contract = await storage.getRetainerContract(input.retainerContractId);
+    if (!contract) throw new ConversationContextError('Retainer contract not found', 404);
+    if (!contract.assignedCreatorId) {
+      throw new ConversationContextError('This retainer contract has no assigned creator yet', 400);
+    }
+    assertParty(contract.assignedCreatorId, contract.companyId);
+    return {
+      contextType: 'retainer_contract',
+      creatorId: contract.assignedCreatorId,
+      companyId: contract.companyId,
+      retainerContractId: contract.id,
+    };
+  }
+
+  throw new ConversationContextError('applicationId, retainerApplicationId or retainerContractId is required', 400);
+}
+
+/**
+ * Find or create the conversation for an application, retainer application or retainer contract
+ */
+export async function startConversation(
+  user: { id: string; role: string },
+  input: ConversationContextInput,
+): Promise<Conversation> {
+  const target = await resolveTarget(user, input);
+  const existing = await storage.findConversation(target);
+  if (existing) return existing;
+
+  return await storage.createConversation({
+    ...target,
+    initiatedBy: user.id,
+    lastMessageAt: new Date(),
+  });
+}
+
+/**
+ * Find or create a company's outreach conversation with a creator. Throws when the company has
+ * opened OUTREACH_DAILY_LIMIT outreach conversations in the last 24 hours.
+ */
+export async function startOutreachConversation(
+  companyUserId: string,
+  creatorId: string,
+  about: { offerId?: string; retainerContractId?: string } = {},
+): Promise<Conversation> {
+  const companyProfile = await storage.getCompanyProfile(companyUserId);
+  if (!companyProfile) throw new ConversationContextError('Company profile not found', 404);
+
+  const creator = await storage.getUserById(creatorId);
+  if (!creator || creator.role !== 'creator') throw new ConversationContextError('Creator not found', 404);
+
+  if (about.offerId) {
+    const offer = await storage.getOffer(about.offerId);
+    if (!offer || offer.companyId !== companyProfile.id) throw new ConversationContextError('Offer not found', 404);
+  }
+  if (about.retainerContractId) {
+    const contract = await storage.getRetainerContract(about.retainerContractId);
+    if (!contract || contract.companyId !== companyProfile.id) {
+      throw new ConversationContextError('Retainer contract not found', 404);
+    }
+  }
+
+  const existing = await storage.findConversation({
+    companyId: companyProfile.id,
+    creatorId,
+    contextType: 'outreach',
+  });
+  if (existing) return existing;
+
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  if (await storage.countOutreachConversationsSince(companyProfile.id, since) >= OUTREACH_DAILY_LIMIT) {
+    throw new ConversationContextError(
+      `You can reach out to ${OUTREACH_DAILY_LIMIT} new creators per day. Try again tomorrow.`,
+      429,
+    );
+  }
+
+  return await storage.createConversation({
+    contextType: 'outreach',
+    creatorId,
+    companyId: companyProfile.id,
+    offerId: about.offerId ?? null,
+    retainerContractId: about.retainerContractId ?? null,
+    initiatedBy: companyUserId,
+    lastMessageAt: new Date(),
+  });
+}
+
+/**
+ * Limits on a message before it is stored. Only outreach conversations the creator hasn't replied
+ * to are limited: the company may send OUTREACH_MESSAGES_BEFORE_REPLY messages, none of them
+ * flagged by moderation. Throws ConversationContextError when the message is refused.
+ */
+export async function assertCanSendMessage(conversation: Conversation, senderId: string, content: string): Promise<void> {
+  if (conversation.contextType !== 'outreach' || senderId === conversation.creatorId) return;
+
+  const creatorReplied = await storage.countConversationMessagesBySender(conversation.id, conversation.creatorId) > 0;
+  if (creatorReplied) return;
+
+  if (await storage.countConversationMessagesBySender(conversation.id, senderId) >= OUTREACH_MESSAGES_BEFORE_REPLY) {
+    throw new ConversationContextError(
+      `You can send ${OUTREACH_MESSAGES_BEFORE_REPLY} messages until the creator replies.`,
+      429,
+    );
+  }
+
+  const check = await checkContent(content, 'message');
+  if (check.isFlagged) {
+    throw new ConversationContextError(
+      `Outreach messages can't contain flagged content (${check.reasons.join(', ')}). Please revise your message.`,
+      422,
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Deep Links
+ *
+ * Product-level sub-links of an application's tracking link (/go/:code/:linkCode) and creator
+ * sub-ids:
+ * - A deep link sends visitors to a specific page on the company's website instead of the offer's
+ *   productUrl. Destinations must be on the website the company verified (websiteVerified), either
+ *   the same host or one of its subdomains, so creators can't route offer traffic elsewhere.
+ * - sub1..sub5 are free-text tags (video, post, placement...) recorded on each click and copied onto
+ *   the conversions it leads to. A deep link can carry defaults; ?sub1=..&sub5= on the link
+ *   overrides them per click.
+ */
+
+import { SUB_ID_FIELDS, type CompanyProfile, type DeepLink, type SubIdField } from '../shared/schema';
+
+export type SubIds = Partial<Record<SubIdField, string>>;
+
+const MAX_SUB_ID_LENGTH = 100;
+
+// Lower-cased host without a leading "www.", or null when the URL can't be parsed
+function normalizedHost(url: string): string | null {
+  try {
+    const host = new URL(url).hostname.toLowerCase();
+    return host.startsWith('www.') ? host.slice(4) : host;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Host of the company's verified website; null when the website is missing or not verified
+ */
+export function getVerifiedCompanyHost(
+  company: Pick<CompanyProfile, 'websiteUrl' | 'websiteVerified'> | undefined,
+): string | null {
+  if (!company?.websiteVerified || !company.websiteUrl) return null;
+  return normalizedHost(company.websiteUrl);
+}
+
+/**
+ * Whether a deep link destination is an http(s) page on the company's verified website
+ */
+export function isUrlOnCompanyDomain(
+  url: string,
+  company: Pick<CompanyProfile, 'websiteUrl' | 'websiteVerified'> | undefined,
+): boolean {
+  const companyHost = getVerifiedCompanyHost(company);
+  if (!companyHost) return false;
+
+  let protocol: string;
+  try {
+    protocol = new URL(url).protocol;
+  } catch {
+    return false;
+  }
+  if (protocol !== 'http:' && protocol !== 'https:') return false;
+
+  const host = normalizedHost(url);
+  return !!host && (host === companyHost || host.endsWith(`.${companyHost}`));
+}
+
+/**
+ * Sub-ids for a click: the deep link's defaults, overridden by non-empty sub1..sub5 query values
+ */
+export function resolveSubIds(
+  query: Record<string, unknown>,
+  deepLink?: Pick<DeepLink, SubIdField> | null,
+): SubIds {
+  const subIds: SubIds = {};
+  for (const field of SUB_ID_FIELDS) {
+    const raw = query[field];
+    const value = typeof raw === 'string' ? raw.trim().slice(0, MAX_SUB_ID_LENGTH) : '';
+    const resolved = value || deepLink?.[field] || '';
+    if (resolved) subIds[field] = resolved;
+  }
+  return subIds;
+}
+
+/**
+ * Parse the ?field= of a sub-id breakdown request, defaulting to sub1
+ */
+export function parseSubIdField(raw: unknown): SubIdField | null {
+  if (raw === undefined || raw === '') return 'sub1';
+  return SUB_ID_FIELDS.includes(raw as SubIdField) ? (raw as SubIdField) : null;
+}
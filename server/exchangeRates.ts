@@ -0,0 +1,181 @@
+/**
+ * Exchange Rates
+ *
+ * Converts amounts between currencies for offers, conversions and payouts.
+ * The provider is pluggable:
+ * - FixedRateProvider (default): local table of USD-based rates, deterministic for testing
+ * - HttpRateProvider: fetches USD-based rates from EXCHANGE_RATE_API_URL (expects { rates: { EUR: 0.92, ... } })
+ *
+ * Every conversion returns a snapshot (rate, provider, timestamp) so payments can record
+ * exactly which rate was used.
+ */
+
+export const BASE_CURRENCY = 'USD';
+
+// Units of each currency per 1 USD
+export const FIXED_USD_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  CAD: 1.36,
+  AUD: 1.52,
+  NZD: 1.66,
+  JPY: 149.5,
+  CHF: 0.88,
+  SEK: 10.6,
+  NOK: 10.8,
+  DKK: 6.87,
+  INR: 83.2,
+  MXN: 17.1,
+  BRL: 4.95,
+  SGD: 1.34,
+  HKD: 7.82,
+  ZAR: 18.6,
+  PHP: 56.1,
+};
+
+export const SUPPORTED_CURRENCIES = Object.keys(FIXED_USD_RATES);
+
+export interface ExchangeRate {
+  // Units of `to` per 1 unit of `from`
+  rate: number;
+  // Where the rate actually came from (differs from the provider name when it fell back)
+  source: string;
+}
+
+export interface ExchangeRateProvider {
+  name: string;
+  getRate(from: string, to: string): Promise<ExchangeRate>;
+}
+
+export interface ConvertedAmount {
+  amount: number;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  source: string;
+  at: Date;
+}
+
+/**
+ * Fixed-rate provider backed by a local USD table (cross rates go through USD)
+ */
+export class FixedRateProvider implements ExchangeRateProvider {
+  name = 'fixed';
+
+  constructor(private rates: Record<string, number> = FIXED_USD_RATES) {}
+
+  async getRate(from: string, to: string): Promise<ExchangeRate> {
+    const fromRate = this.rates[from];
+    const toRate = this.rates[to];
+    if (!fromRate || !toRate) {
+      throw new Error(`No exchange rate for ${from} -> ${to}`);
+    }
+    return { rate: toRate / fromRate, source: this.name };
+  }
+}
+
+/**
+ * HTTP provider for a USD-based rates endpoint, cached for an hour.
+ * Falls back to the fixed table if the endpoint is unreachable, and says so in the rate source.
+ */
+export class HttpRateProvider implements ExchangeRateProvider {
+  name = 'http';
+  private cache: { rates: Record<string, number>; fetchedAt: number } | null = null;
+  private fallback = new FixedRateProvider();
+  private static CACHE_TTL_MS = 60 * 60 * 1000;
+
+  constructor(private url: string) {}
+
+  private async getRates(): Promise<Record<string, number> | null> {
+    const now = Date.now();
+    if (this.cache && now - this.cache.fetchedAt < HttpRateProvider.CACHE_TTL_MS) {
+      return this.cache.rates;
+    }
+
+    try {
+      const response = await fetch(this.url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const body = await response.json() as { rates?: Record<string, number> };
+      if (!body.rates) {
+        throw new Error('Response has no rates');
+      }
+      this.cache = { rates: { ...body.rates, [BASE_CURRENCY]: 1 }, fetchedAt: now };
+      return this.cache.rates;
+    } catch (error) {
+      console.error('[ExchangeRates] Error fetching rates, using fixed table:', error);
+      return this.cache?.rates ?? null;
+    }
+  }
+
+  async getRate(from: string, to: string): Promise<ExchangeRate> {
+    const rates = await this.getRates();
+    if (!rates || !rates[from] || !rates[to]) {
+      const { rate } = await this.fallback.getRate(from, to);
+      return { rate, source: `${this.name}:${this.fallback.name}_fallback` };
+    }
+    return { rate: rates[to] / rates[from], source: this.name };
+  }
+}
+
+let provider: ExchangeRateProvider = process.env.EXCHANGE_RATE_API_URL
+  ? new HttpRateProvider(process.env.EXCHANGE_RATE_API_URL)
+  : new FixedRateProvider();
+
+export function getExchangeRateProvider(): ExchangeRateProvider {
+  return provider;
+}
+
+/**
+ * Swap the provider (e.g. a fixed table with known rates in tests)
+ */
+export function setExchangeRateProvider(next: ExchangeRateProvider): void {
+  provider = next;
+}
+
+/**
+ * Whether a currency code (any case) is one we can convert
+ */
+export function isSupportedCurrency(code: unknown): boolean {
+  return typeof code === 'string' && SUPPORTED_CURRENCIES.includes(code.trim().toUpperCase());
+}
+
+/**
+ * Normalize a currency code; unknown or missing codes fall back to `fallback`.
+ * Check untrusted input with isSupportedCurrency first so unknown codes are rejected, not rewritten.
+ */
+export function normalizeCurrency(code: unknown, fallback: string = BASE_CURRENCY): string {
+  const upper = typeof code === 'string' ? code.trim().toUpperCase() : '';
+  return SUPPORTED_CURRENCIES.includes(upper) ? upper : fallback;
+}
+
+/**
+ * Convert an amount and return the rate snapshot used
+ */
+export async function convertAmount(amount: number, fromCurrency: string, toCurrency: string): Promise<ConvertedAmount> {
+  const from = normalizeCurrency(fromCurrency);
+  const to = normalizeCurrency(toCurrency);
+  const { rate, source } = from === to
+    ? { rate: 1, source: 'identity' }
+    : await provider.getRate(from, to);
+
+  return {
+    amount: Math.round(amount * rate * 100) / 100,
+    fromCurrency: from,
+    toCurrency: to,
+    rate,
+    source,
+    at: new Date(),
+  };
+}
+
+export default {
+  SUPPORTED_CURRENCIES,
+  isSupportedCurrency,
+  getExchangeRateProvider,
+  setExchangeRateProvider,
+  normalizeCurrency,
+  convertAmount,
+};
@@ -13,6 +13,7 @@
 import { db } from './db';
 import { companyProfiles, platformSettings } from '../shared/schema';
 import { eq } from 'drizzle-orm';
+import { convertAmount } from './exchangeRates';
 
 // Default fee constants (fallbacks if platform_settings not configured)
 export const DEFAULT_PLATFORM_FEE_PERCENTAGE = 0.04; // 4%
@@ -154,6 +155,39 @@ export async function calculateFees(grossAmount: number, companyId: string): Pro
   };
 }
 
+export interface CurrencyFeeCalculation extends FeeCalculation {
+  currency: string;
+  sourceAmount: number;
+  sourceCurrency: string;
+  exchangeRate: number;
+  exchangeRateSource: string;
+  exchangeRateAt: Date;
+}
+
+/**
+ * Convert a commission into the creator's payout currency and calculate fees on the converted amount.
+ * The exchange-rate snapshot is returned so it can be stored on the payment.
+ */
+export async function calculateFeesInCurrency(
+  amount: number,
+  sourceCurrency: string,
+  payoutCurrency: string,
+  companyId: string
+): Promise<CurrencyFeeCalculation> {
+  const converted = await convertAmount(amount, sourceCurrency, payoutCurrency);
+  const fees = await calculateFees(converted.amount, companyId);
+
+  return {
+    ...fees,
+    currency: converted.toCurrency,
+    sourceAmount: amount,
+    sourceCurrency: converted.fromCurrency,
+    exchangeRate: converted.rate,
+    exchangeRateSource: converted.source,
+    exchangeRateAt: converted.at,
+  };
+}
+
 /**
  * Calculate fees and return formatted string values (2 decimal places).
  * Useful for database storage.
@@ -0,0 +1,197 @@
+// Fraud Review Service
+// Queues conversions attributed to fraud-flagged clicks or matching the conversion fraud rules,
+// approves or rejects conversions the rules held as pending verification, applies bulk admin
+// decisions on the review queue (invalidated conversions are reversed or rejected) and places
+// or lifts creator payout holds based on each creator's fraud rate over the last
+// FRAUD_RATE_WINDOW_DAYS days.
+import { storage, type ReverseConversionResult, type VerifyConversionResult } from "./storage";
+import { ledgerService } from "./ledgerService";
+import { FRAUD_REVIEW_MIN_SCORE } from "./fraudRules";
+import type { Conversion, FraudReview } from "../shared/schema";
+
+// Fraud rate (percent) that puts a creator's payouts on hold when fraud_payout_hold_threshold is not set
+export const DEFAULT_FRAUD_HOLD_THRESHOLD = 20;
+
+export const FRAUD_RATE_WINDOW_DAYS = 30;
+
+// Below this many clicks a rate says little (one bad click out of two is not a 50% fraud rate)
+export const FRAUD_HOLD_MIN_CLICKS = 20;
+
+export type PayoutHoldChange = 'placed' | 'released' | 'unchanged';
+
+export interface FraudReviewOutcome {
+  reviews: FraudReview[];
+  reversals: ReverseConversionResult[];
+  // Held conversions the decisions approved (now credited) or rejected
+  verifications: VerifyConversionResult[];
+  holdChanges: Record<string, PayoutHoldChange>;
+}
+
+export class FraudReviewService {
+  async getHoldThreshold(): Promise<number> {
+    const setting = await storage.getPlatformSetting('fraud_payout_hold_threshold');
+    const threshold = setting ? parseFloat(setting.value) : NaN;
+    return Number.isFinite(threshold) && threshold > 0 ? threshold : DEFAULT_FRAUD_HOLD_THRESHOLD;
+  }
+
+  /**
+   * Queue a newly recorded conversion for review when the click it was attributed to was flagged,
+   * or when the conversion fraud rules scored it when it was recorded (always when it was held)
+   */
+  async flagConversion(conversion: Conversion, ruleReason?: string): Promise<void> {
+    try {
+      const click = conversion.clickId ? await storage.getClickEventByClickId(conversion.clickId) : undefined;
+      const clickReview = click ? await storage.getFraudReviewByClickEvent(click.id) : undefined;
+      const clickScore = click?.fraudScore || 0;
+      const clickInvalidated = clickReview?.status === 'invalidated';
+      const clickFlagged = !!click && (clickScore >= FRAUD_REVIEW_MIN_SCORE || click.fraudBlocked || clickInvalidated);
+
+      const held = conversion.status === 'pending_verification';
+      const ruleFlags = conversion.fraudFlags ? conversion.fraudFlags.split(',').filter(Boolean) : [];
+      if (!clickFlagged && !held && conversion.fraudScore < FRAUD_REVIEW_MIN_SCORE) return;
+
+      const clickFlags = clickFlagged && click?.fraudFlags ? click.fraudFlags.split(',').filter(Boolean) : [];
+      const fraudScore = Math.min((clickFlagged ? clickScore : 0) + conversion.fraudScore, 100);
+      const ruleSummary = ruleReason || `Matched conversion fraud rules: ${ruleFlags.join(', ')}`;
+
+      const review = await storage.createFraudReview({
+        itemType: 'conversion',
+        conversionId: conversion.id,
+        applicationId: conversion.applicationId,
+        offerId: conversion.offerId,
+        creatorId: conversion.creatorId,
+        fraudScore,
+        fraudFlags: Array.from(new Set([...clickFlags, ...ruleFlags])).join(',') || null,
+        reason: held
+          ? `Held for verification. ${ruleSummary}`
+          : !clickFlagged
+          ? ruleSummary
+          : clickInvalidated
+          ? `Attributed to invalidated click ${conversion.clickId}`
+          : `Attributed to fraud-flagged click ${conversion.clickId}`,
+      });
+      if (review) {
+        console.log(`[Fraud Review] Conversion ${conversion.id} queued for review (score ${fraudScore})`);
+      }
+    } catch (error) {
+      console.error(`[Fraud Review] Error flagging conversion ${conversion.id}:`, error);
+    }
+  }
+
+  /**
+   * Approve (credit) or reject a conversion held as pending verification, posting the ledger
+   * accruals of an approval and resolving the conversion's pending review the same way
+   */
+  async verifyConversion(
+    conversionId: string,
+    action: 'approve' | 'reject',
+    verifiedBy: string,
+    notes?: string | null,
+  ): Promise<VerifyConversionResult> {
+    const result = action === 'approve'
+      ? await storage.creditPendingConversion(conversionId, verifiedBy, notes)
+      : await storage.rejectPendingConversion(conversionId, verifiedBy, notes);
+    if (!result.conversion || result.alreadyResolved) return result;
+
+    await ledgerService.recordAccruals(result.paymentIds);
+
+    const review = await storage.getFraudReviewByConversion(conversionId);
+    if (review?.status === 'pending') {
+      await storage.resolveFraudReviews([review.id], action === 'approve' ? 'approved' : 'invalidated', verifiedBy, notes);
+    }
+    return result;
+  }
+
+  /**
+   * Approve or invalidate pending reviews, reverse invalidated conversions (held conversions are
+   * credited or rejected instead) and re-check the payout holds of every creator involved
+   */
+  async resolveReviews(
+    reviewIds: string[],
+    action: 'approve' | 'invalidate',
+    reviewedBy: string,
+    notes?: string | null,
+  ): Promise<FraudReviewOutcome> {
+    const status = action === 'approve' ? 'approved' : 'invalidated';
+    const reviews = await storage.resolveFraudReviews(reviewIds, status, reviewedBy, notes);
+
+    const reversals: ReverseConversionResult[] = [];
+    const verifications: VerifyConversionResult[] = [];
+    for (const review of reviews) {
+      if (review.itemType !== 'conversion' || !review.conversionId) continue;
+
+      const conversion = await storage.getConversion(review.conversionId);
+      if (conversion?.status === 'pending_verification') {
+        const verification = status === 'approved'
+          ? await storage.creditPendingConversion(conversion.id, reviewedBy, notes)
+          : await storage.rejectPendingConversion(conversion.id, reviewedBy, notes);
+        if (verification.conversion && !verification.alreadyResolved) {
+          await ledgerService.recordAccruals(verification.paymentIds);
+          verifications.push(verification);
+        }
+        continue;
+      }
+
+      if (status === 'invalidated') {
+        const reversal = await storage.reverseConversionById(review.conversionId, {
+          reversalType: 'fraud',
+          reason: notes || 'Invalidated in fraud review',
+        });
+        if (reversal.conversion && !reversal.alreadyReversed) {
+          await ledgerService.recordConversionReversal(reversal.conversion.id, reversal.shares.map((share) => share.paymentId));
+          reversals.push(reversal);
+        }
+      }
+    }
+
+    const holdChanges: Record<string, PayoutHoldChange> = {};
+    for (const creatorId of Array.from(new Set(reviews.map((review) => review.creatorId)))) {
+      holdChanges[creatorId] = await this.evaluateCreatorHold(creatorId);
+    }
+
+    return { reviews, reversals, verifications, holdChanges };
+  }
+
+  /**
+   * Put the creator's payouts on hold when their fraud rate is at or above the threshold, and lift
+   * the hold once it falls below
+   */
+  async evaluateCreatorHold(creatorId: string): Promise<PayoutHoldChange> {
+    try {
+      const since = new Date(Date.now() - FRAUD_RATE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+      const [rate, threshold, activeHold] = await Promise.all([
+        storage.getCreatorFraudRate(creatorId, since),
+        this.getHoldThreshold(),
+        storage.getActivePayoutHold(creatorId),
+      ]);
+      const overThreshold = rate.totalClicks >= FRAUD_HOLD_MIN_CLICKS && rate.fraudRate >= threshold;
+
+      if (overThreshold && !activeHold) {
+        const hold = await storage.createPayoutHold({
+          creatorId,
+          reason: `Fraud rate ${rate.fraudRate.toFixed(2)}% (${rate.fraudulentClicks} of ${rate.totalClicks} clicks in the last ${FRAUD_RATE_WINDOW_DAYS} days) is at or above the ${threshold}% threshold`,
+          fraudRate: rate.fraudRate.toFixed(2),
+          threshold: threshold.toFixed(2),
+          status: 'active',
+        });
+        if (hold) {
+          console.log(`[Fraud Review] Payout hold placed on creator ${creatorId} (fraud rate ${rate.fraudRate}%)`);
+          return 'placed';
+        }
+      }
+
+      if (!overThreshold && activeHold) {
+        await storage.releasePayoutHold(activeHold.id, null, `Fraud rate fell to ${rate.fraudRate.toFixed(2)}%`);
+        console.log(`[Fraud Review] Payout hold on creator ${creatorId} released (fraud rate ${rate.fraudRate}%)`);
+        return 'released';
+      }
+
+      return 'unchanged';
+    } catch (error) {
+      console.error(`[Fraud Review] Error evaluating payout hold for creator ${creatorId}:`, error);
+      return 'unchanged';
+    }
+  }
+}
+
+export const fraudReviewService = new FraudReviewService();
@@ -0,0 +1,735 @@
+/**
+ * Fraud Rules Engine
+ *
+ * Scores clicks and conversions against the admin-managed rules in fraud_rules. Every matching
+ * rule adds its weight to the score (capped at 100) and its code to the flags; a click scoring at
+ * or above the fraud_block_score platform setting is blocked (left out of analytics until an admin
+ * approves it).
+ *
+ * Rule types (config shapes are in fraudRuleConfigSchemas):
+ * - user_agent: case-insensitive substrings of the user agent
+ * - missing_header: empty User-Agent or Referer
+ * - ip_blocklist: single IPs and CIDR ranges
+ * - ip_list_file: CIDR/ASN list loaded from a file in FRAUD_LISTS_DIR (e.g. datacenter ranges)
+ * - velocity: too many clicks from the same IP, IP + tracking link, or visitor within a window
+ * - conversion_without_click: conversion with no click on the application within a window
+ * - fast_conversion: conversion reported abnormally soon after its click
+ * - duplicate_order_id: order id matching another of the company's or creator's conversions
+ * - sale_amount_outlier: sale amount far outside the offer's averageOrderValue
+ * - conversion_velocity: too many conversions on a tracking link, or from an IP, within a window
+ * - conversion_ip_without_click: converting visitor IP never clicked the offer
+ * - pixel_without_click: pixel fire with no matching click
+ *
+ * Conversions scoring at or above fraud_conversion_hold_score are held as pending verification.
+ */
+
+import { BlockList, isIP } from 'net';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { db } from './db';
+import { and, desc, eq, gte, lt, lte, ne, or, sql } from 'drizzle-orm';
+import {
+  clickEvents,
+  conversions,
+  fraudRules,
+  offers,
+  fraudRuleConfigSchemas,
+  platformSettings,
+  type Conversion,
+  type FraudRule,
+  type FraudRuleType,
+} from '../shared/schema';
+import { generateVisitorFingerprint } from './trackingService';
+
+// Items scoring at least this much are queued for admin review
+export const FRAUD_REVIEW_MIN_SCORE = 25;
+
+// Block score used when the fraud_block_score platform setting is missing or invalid
+export const DEFAULT_FRAUD_BLOCK_SCORE = 50;
+
+// Conversion hold score used when fraud_conversion_hold_score is missing or invalid
+export const DEFAULT_CONVERSION_HOLD_SCORE = 50;
+
+export const FRAUD_DRY_RUN_MAX_DAYS = 30;
+
+// Most recent clicks a dry run replays; older clicks in the window are left out
+export const FRAUD_DRY_RUN_MAX_CLICKS = 100000;
+
+// Rules and the block score are re-read at most this often (admin edits clear the cache)
+const RULE_CACHE_TTL_MS = 60 * 1000;
+
+export const CONVERSION_RULE_TYPES: FraudRuleType[] = [
+  'conversion_without_click',
+  'fast_conversion',
+  'duplicate_order_id',
+  'sale_amount_outlier',
+  'conversion_velocity',
+  'conversion_ip_without_click',
+  'pixel_without_click',
+];
+
+export type FraudRuleDefinition = Pick<FraudRule, 'code' | 'name' | 'type' | 'config' | 'weight' | 'isEnabled'>;
+
+export interface ClickContext {
+  ip: string;
+  userAgent: string;
+  referer: string;
+  applicationId: string;
+  visitorFingerprint?: string | null;
+  timestamp: Date;
+}
+
+// A conversion about to be recorded (or already recorded; it is excluded from its own lookups)
+export type ConversionContext = Pick<
+  Conversion,
+  | 'id'
+  | 'applicationId'
+  | 'offerId'
+  | 'creatorId'
+  | 'companyId'
+  | 'orderId'
+  | 'saleAmount'
+  | 'source'
+  | 'ipAddress'
+  | 'userAgent'
+  | 'clickId'
+  | 'clickToConversionSeconds'
+  | 'createdAt'
+>;
+
+export type VelocityScope = 'ip' | 'ip_application' | 'visitor';
+
+// Clicks for the same key seen in [timestamp - windowSeconds, timestamp), not counting this one
+export type VelocityCounter = (scope: VelocityScope, click: ClickContext, windowSeconds: number) => Promise<number>;
+
+export interface FraudRuleMatch {
+  code: string;
+  weight: number;
+  reason: string;
+}
+
+export interface FraudScoreResult {
+  fraudScore: number; // 0-100, higher = more suspicious
+  flags: string[];
+  reason?: string;
+  matches: FraudRuleMatch[];
+}
+
+interface CompiledRule {
+  code: string;
+  name: string;
+  type: FraudRuleType;
+  weight: number;
+  matchClick?: (click: ClickContext, countClicks: VelocityCounter) => Promise<string | null>;
+  matchConversion?: (conversion: ConversionContext) => Promise<string | null>;
+}
+
+export interface FraudRuleSet {
+  rules: CompiledRule[];
+  blockScore: number;
+  conversionHoldScore: number;
+}
+
+/**
+ * Directory ip_list_file rules read from
+ */
+export function getFraudListsDir(): string {
+  return process.env.FRAUD_LISTS_DIR || path.resolve(process.cwd(), 'server/fraud-lists');
+}
+
+/**
+ * List files available to ip_list_file rules
+ */
+export async function listFraudListFiles(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(getFraudListsDir());
+    return files.filter((file) => !file.startsWith('.')).sort();
+  } catch {
+    return [];
+  }
+}
+
+function addIpEntry(list: BlockList, entry: string): void {
+  const [address, prefix] = entry.trim().split('/');
+  const family = isIP(address);
+  if (!family) {
+    throw new Error(`"${entry}" is not a valid IP address or CIDR range`);
+  }
+  const type = family === 6 ? 'ipv6' : 'ipv4';
+  if (prefix === undefined) {
+    list.addAddress(address, type);
+    return;
+  }
+  const bits = Number(prefix);
+  if (!/^\d+$/.test(prefix) || bits > (family === 6 ? 128 : 32)) {
+    throw new Error(`"${entry}" has an invalid prefix length`);
+  }
+  list.addSubnet(address, bits, type);
+}
+
+function ipMatches(list: BlockList, ip: string): boolean {
+  const family = isIP(ip);
+  return family !== 0 && list.check(ip, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+interface IpListEntry {
+  cidr: string;
+  asn: number | null;
+}
+
+// Parsed list files, reused until the file changes
+const ipListFileCache = new Map<string, { mtimeMs: number; entries: IpListEntry[] }>();
+
+async function loadIpListFile(file: string): Promise<IpListEntry[]> {
+  // Only a bare file name is accepted, so a rule can't read outside the lists directory
+  const filePath = path.join(getFraudListsDir(), path.basename(file));
+
+  let stat;
+  try {
+    stat = await fs.stat(filePath);
+  } catch {
+    throw new Error(`List file "${file}" was not found in the fraud lists directory`);
+  }
+
+  const cached = ipListFileCache.get(filePath);
+  if (cached && cached.mtimeMs === stat.mtimeMs) return cached.entries;
+
+  const entries: IpListEntry[] = [];
+  const lines = (await fs.readFile(filePath, 'utf8')).split(/\r?\n/);
+  lines.forEach((line, index) => {
+    const content = line.split('#')[0].trim();
+    if (!content) return;
+
+    const [cidr, asnToken] = content.split(/\s+/);
+    const asnMatch = asnToken?.match(/^AS(\d+)$/i);
+    const [address] = cidr.split('/');
+    if (!isIP(address)) {
+      throw new Error(`List file "${file}" line ${index + 1}: "${cidr}" is not a valid IP address or CIDR range`);
+    }
+    entries.push({ cidr, asn: asnMatch ? Number(asnMatch[1]) : null });
+  });
+
+  ipListFileCache.set(filePath, { mtimeMs: stat.mtimeMs, entries });
+  return entries;
+}
+
+function describeWindow(seconds: number): string {
+  if (seconds % 3600 === 0) return seconds === 3600 ? 'hour' : `${seconds / 3600} hours`;
+  if (seconds % 60 === 0) return seconds === 60 ? 'minute' : `${seconds / 60} minutes`;
+  return `${seconds} seconds`;
+}
+
+/**
+ * Turn a rule into its matcher. Throws with an admin-readable message when the config is invalid
+ * or the list file can't be loaded.
+ */
+async function compileRule(rule: FraudRuleDefinition): Promise<CompiledRule> {
+  const base = { code: rule.code, name: rule.name, type: rule.type, weight: rule.weight };
+
+  switch (rule.type) {
+    case 'user_agent': {
+      const { patterns } = fraudRuleConfigSchemas.user_agent.parse(rule.config);
+      const lowered = patterns.map((pattern) => pattern.toLowerCase());
+      return {
+        ...base,
+        matchClick: async (click) => {
+          const agent = (click.userAgent || '').toLowerCase();
+          const pattern = agent && lowered.find((p) => agent.includes(p));
+          return pattern ? `User agent matches "${pattern}": ${click.userAgent}` : null;
+        },
+      };
+    }
+
+    case 'missing_header': {
+      const { header } = fraudRuleConfigSchemas.missing_header.parse(rule.config);
+      return {
+        ...base,
+        matchClick: async (click) => {
+          const value = header === 'user-agent' ? click.userAgent : click.referer;
+          return !value || value.trim() === '' ? `No ${header} provided` : null;
+        },
+      };
+    }
+
+    case 'ip_blocklist': {
+      const { entries } = fraudRuleConfigSchemas.ip_blocklist.parse(rule.config);
+      const list = new BlockList();
+      entries.forEach((entry) => addIpEntry(list, entry));
+      return {
+        ...base,
+        matchClick: async (click) => (ipMatches(list, click.ip) ? `IP ${click.ip} is listed in "${rule.name}"` : null),
+      };
+    }
+
+    case 'ip_list_file': {
+      const { file, asns } = fraudRuleConfigSchemas.ip_list_file.parse(rule.config);
+      const entries = await loadIpListFile(file);
+      const list = new BlockList();
+      entries
+        .filter((entry) => !asns || asns.length === 0 || (entry.asn !== null && asns.includes(entry.asn)))
+        .forEach((entry) => addIpEntry(list, entry.cidr));
+      return {
+        ...base,
+        matchClick: async (click) => (ipMatches(list, click.ip) ? `IP ${click.ip} is in a network listed in ${file}` : null),
+      };
+    }
+
+    case 'velocity': {
+      const { scope, windowSeconds, maxClicks } = fraudRuleConfigSchemas.velocity.parse(rule.config);
+      const subject = scope === 'ip' ? 'IP' : scope === 'ip_application' ? 'IP on this tracking link' : 'visitor';
+      return {
+        ...base,
+        matchClick: async (click, countClicks) => {
+          const count = await countClicks(scope, click, windowSeconds);
+          return count >= maxClicks
+            ? `${count} clicks from the same ${subject} (${click.ip}) in the last ${describeWindow(windowSeconds)}`
+            : null;
+        },
+      };
+    }
+
+    case 'conversion_without_click': {
+      const { windowHours } = fraudRuleConfigSchemas.conversion_without_click.parse(rule.config);
+      return {
+        ...base,
+        matchConversion: async (conversion) => {
+          if (conversion.clickId) return null;
+          const convertedAt = conversion.createdAt || new Date();
+          const since = new Date(convertedAt.getTime() - windowHours * 60 * 60 * 1000);
+          const result = await db
+            .select({ count: sql<number>`count(*)` })
+            .from(clickEvents)
+            .where(
+              and(
+                eq(clickEvents.applicationId, conversion.applicationId),
+                eq(clickEvents.geoBlocked, false),
+                gte(clickEvents.timestamp, since),
+                lte(clickEvents.timestamp, convertedAt),
+              )
+            );
+          return Number(result[0]?.count || 0) === 0
+            ? `No click on this tracking link in the ${windowHours} hours before the conversion`
+            : null;
+        },
+      };
+    }
+
+    case 'fast_conversion': {
+      const { minSeconds } = fraudRuleConfigSchemas.fast_conversion.parse(rule.config);
+      return {
+        ...base,
+        matchConversion: async (conversion) => {
+          const seconds = conversion.clickToConversionSeconds;
+          return seconds !== null && seconds !== undefined && seconds < minSeconds
+            ? `Converted ${seconds}s after the click (minimum ${minSeconds}s)`
+            : null;
+        },
+      };
+    }
+
+    case 'duplicate_order_id': {
+      fraudRuleConfigSchemas.duplicate_order_id.parse(rule.config);
+      return {
+        ...base,
+        matchConversion: async (conversion) => {
+          const normalized = conversion.orderId?.toLowerCase().replace(/[^a-z0-9]/g, '');
+          if (!normalized) return null;
+          const result = await db
+            .select({ id: conversions.id, orderId: conversions.orderId })
+            .from(conversions)
+            .where(
+              and(
+                ne(conversions.id, conversion.id),
+                or(eq(conversions.companyId, conversion.companyId), eq(conversions.creatorId, conversion.creatorId)),
+                sql`regexp_replace(lower(${conversions.orderId}), '[^a-z0-9]', '', 'g') = ${normalized}`,
+              )
+            )
+            .limit(1);
+          return result[0] ? `Order id ${conversion.orderId} matches order ${result[0].orderId} (conversion ${result[0].id})` : null;
+        },
+      };
+    }
+
+    case 'sale_amount_outlier': {
+      const { maxMultiple } = fraudRuleConfigSchemas.sale_amount_outlier.parse(rule.config);
+      return {
+        ...base,
+        matchConversion: async (conversion) => {
+          const saleAmount = conversion.saleAmount ? parseFloat(conversion.saleAmount) : NaN;
+          if (!(saleAmount > 0)) return null;
+          const [offer] = await db
+            .select({ averageOrderValue: offers.averageOrderValue })
+            .from(offers)
+            .where(eq(offers.id, conversion.offerId))
+            .limit(1);
+          const average = offer?.averageOrderValue ? parseFloat(offer.averageOrderValue) : NaN;
+          if (!(average > 0)) return null;
+
+          const ratio = saleAmount / average;
+          return ratio > maxMultiple || ratio < 1 / maxMultiple
+            ? `Sale amount ${saleAmount.toFixed(2)} is ${ratio >= 1 ? `${ratio.toFixed(1)}x above` : `${(1 / ratio).toFixed(1)}x below`} the offer's average order value (${average.toFixed(2)})`
+            : null;
+        },
+      };
+    }
+
+    case 'conversion_velocity': {
+      const { scope, windowSeconds, maxConversions } = fraudRuleConfigSchemas.conversion_velocity.parse(rule.config);
+      return {
+        ...base,
+        matchConversion: async (conversion) => {
+          if (scope === 'ip' && !conversion.ipAddress) return null;
+          const convertedAt = conversion.createdAt || new Date();
+          const result = await db
+            .select({ count: sql<number>`count(*)` })
+            .from(conversions)
+            .where(
+              and(
+                ne(conversions.id, conversion.id),
+                scope === 'ip'
+                  ? eq(conversions.ipAddress, conversion.ipAddress!)
+                  : eq(conversions.applicationId, conversion.applicationId),
+                gte(conversions.createdAt, new Date(convertedAt.getTime() - windowSeconds * 1000)),
+                lte(conversions.createdAt, convertedAt),
+              )
+            );
+          const count = Number(result[0]?.count || 0);
+          return count >= maxConversions
+            ? `${count} conversions ${scope === 'ip' ? `from IP ${conversion.ipAddress}` : 'on this tracking link'} in the last ${describeWindow(windowSeconds)}`
+            : null;
+        },
+      };
+    }
+
+    case 'conversion_ip_without_click': {
+      const { windowHours } = fraudRuleConfigSchemas.conversion_ip_without_click.parse(rule.config);
+      return {
+        ...base,
+        matchConversion: async (conversion) => {
+          if (!conversion.ipAddress) return null;
+          const convertedAt = conversion.createdAt || new Date();
+          const result = await db
+            .select({ count: sql<number>`count(*)` })
+            .from(clickEvents)
+            .where(
+              and(
+                eq(clickEvents.offerId, conversion.offerId),
+                eq(clickEvents.ipAddress, conversion.ipAddress),
+                gte(clickEvents.timestamp, new Date(convertedAt.getTime() - windowHours * 60 * 60 * 1000)),
+                lte(clickEvents.timestamp, convertedAt),
+              )
+            );
+          return Number(result[0]?.count || 0) === 0
+            ? `Converting IP ${conversion.ipAddress} did not click this offer in the ${windowHours} hours before`
+            : null;
+        },
+      };
+    }
+
+    case 'pixel_without_click': {
+      const { windowHours } = fraudRuleConfigSchemas.pixel_without_click.parse(rule.config);
+      return {
+        ...base,
+        matchConversion: async (conversion) => {
+          if (conversion.source !== 'pixel' || conversion.clickId) return null;
+          if (!conversion.ipAddress) return 'Pixel fired without a click id';
+
+          const convertedAt = conversion.createdAt || new Date();
+          const result = await db
+            .select({ count: sql<number>`count(*)` })
+            .from(clickEvents)
+            .where(
+              and(
+                eq(clickEvents.applicationId, conversion.applicationId),
+                eq(clickEvents.visitorFingerprint, generateVisitorFingerprint(conversion.ipAddress, conversion.userAgent || '')),
+                gte(clickEvents.timestamp, new Date(convertedAt.getTime() - windowHours * 60 * 60 * 1000)),
+                lt(clickEvents.timestamp, convertedAt),
+              )
+            );
+          return Number(result[0]?.count || 0) === 0
+            ? `Pixel fired without a click id and the visitor did not click this tracking link in the ${windowHours} hours before`
+            : null;
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Check a rule's config (and list file, for ip_list_file rules); returns the problem or null
+ */
+export async function validateFraudRule(rule: FraudRuleDefinition): Promise<string | null> {
+  try {
+    await compileRule(rule);
+    return null;
+  } catch (error: any) {
+    return error?.issues?.[0]?.message || error.message;
+  }
+}
+
+/**
+ * Compile the enabled rules, highest weight first (the first match supplies the reason).
+ * Rules that fail to compile are skipped.
+ */
+export async function compileRuleSet(
+  rules: FraudRuleDefinition[],
+  blockScore: number,
+  conversionHoldScore: number = DEFAULT_CONVERSION_HOLD_SCORE,
+): Promise<FraudRuleSet> {
+  const compiled: CompiledRule[] = [];
+  for (const rule of rules) {
+    if (!rule.isEnabled) continue;
+    try {
+      compiled.push(await compileRule(rule));
+    } catch (error: any) {
+      console.warn(`[Fraud Rules] Skipping rule ${rule.code}: ${error?.issues?.[0]?.message || error.message}`);
+    }
+  }
+  compiled.sort((a, b) => b.weight - a.weight);
+  return { rules: compiled, blockScore, conversionHoldScore };
+}
+
+// Score threshold from a platform setting (1-100), or the fallback when missing or invalid
+async function readScoreSetting(key: string, fallback: number): Promise<number> {
+  const result = await db
+    .select({ value: platformSettings.value })
+    .from(platformSettings)
+    .where(eq(platformSettings.key, key))
+    .limit(1);
+  const score = result[0] ? parseInt(result[0].value, 10) : NaN;
+  return Number.isFinite(score) && score > 0 && score <= 100 ? score : fallback;
+}
+
+let cachedRuleSet: { ruleSet: FraudRuleSet; loadedAt: number } | null = null;
+
+/**
+ * Drop the cached rules so the next click uses the latest rules and block score
+ */
+export function invalidateFraudRuleCache(): void {
+  cachedRuleSet = null;
+}
+
+/**
+ * Rules currently in force
+ */
+export async function getActiveRuleSet(): Promise<FraudRuleSet> {
+  if (cachedRuleSet && Date.now() - cachedRuleSet.loadedAt < RULE_CACHE_TTL_MS) {
+    return cachedRuleSet.ruleSet;
+  }
+
+  const [rules, blockScore, conversionHoldScore] = await Promise.all([
+    db.select().from(fraudRules).where(eq(fraudRules.isEnabled, true)),
+    readScoreSetting('fraud_block_score', DEFAULT_FRAUD_BLOCK_SCORE),
+    readScoreSetting('fraud_conversion_hold_score', DEFAULT_CONVERSION_HOLD_SCORE),
+  ]);
+  const ruleSet = await compileRuleSet(rules, blockScore, conversionHoldScore);
+  cachedRuleSet = { ruleSet, loadedAt: Date.now() };
+  return ruleSet;
+}
+
+/**
+ * Velocity counter backed by click_events (the click being scored is not stored yet)
+ */
+export const countStoredClicks: VelocityCounter = async (scope, click, windowSeconds) => {
+  const since = new Date(click.timestamp.getTime() - windowSeconds * 1000);
+  const keyCondition = scope === 'visitor'
+    ? eq(clickEvents.visitorFingerprint, click.visitorFingerprint || generateVisitorFingerprint(click.ip, click.userAgent))
+    : scope === 'ip_application'
+    ? and(eq(clickEvents.ipAddress, click.ip), eq(clickEvents.applicationId, click.applicationId))
+    : eq(clickEvents.ipAddress, click.ip);
+
+  const result = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(clickEvents)
+    .where(and(keyCondition, gte(clickEvents.timestamp, since)));
+
+  return Number(result[0]?.count || 0);
+};
+
+function summarize(matches: FraudRuleMatch[]): FraudScoreResult {
+  return {
+    fraudScore: Math.min(matches.reduce((total, match) => total + match.weight, 0), 100),
+    flags: matches.map((match) => match.code),
+    reason: matches[0]?.reason,
+    matches,
+  };
+}
+
+/**
+ * Score a click against the rule set's click rules
+ */
+export async function scoreClick(
+  ruleSet: FraudRuleSet,
+  click: ClickContext,
+  countClicks: VelocityCounter = countStoredClicks,
+): Promise<FraudScoreResult & { blocked: boolean }> {
+  const matches: FraudRuleMatch[] = [];
+  for (const rule of ruleSet.rules) {
+    if (!rule.matchClick) continue;
+    const reason = await rule.matchClick(click, countClicks);
+    if (reason) matches.push({ code: rule.code, weight: rule.weight, reason });
+  }
+
+  const result = summarize(matches);
+  return { ...result, blocked: result.fraudScore >= ruleSet.blockScore };
+}
+
+/**
+ * Score a conversion against the active conversion rules; `held` means it should wait for
+ * verification before anything is credited
+ */
+export async function scoreConversion(conversion: ConversionContext): Promise<FraudScoreResult & { held: boolean }> {
+  const ruleSet = await getActiveRuleSet();
+  const matches: FraudRuleMatch[] = [];
+  for (const rule of ruleSet.rules) {
+    if (!rule.matchConversion) continue;
+    const reason = await rule.matchConversion(conversion);
+    if (reason) matches.push({ code: rule.code, weight: rule.weight, reason });
+  }
+
+  const result = summarize(matches);
+  return { ...result, held: result.fraudScore >= ruleSet.conversionHoldScore };
+}
+
+// Sliding windows over replayed clicks, fed in timestamp order
+class ReplayVelocityCounter {
+  private seen = new Map<string, number[]>();
+
+  private key(scope: VelocityScope, click: ClickContext): string {
+    if (scope === 'visitor') return `visitor:${click.visitorFingerprint || generateVisitorFingerprint(click.ip, click.userAgent)}`;
+    if (scope === 'ip_application') return `ip_application:${click.ip}|${click.applicationId}`;
+    return `ip:${click.ip}`;
+  }
+
+  count: VelocityCounter = async (scope, click, windowSeconds) => {
+    const times = this.seen.get(this.key(scope, click));
+    if (!times) return 0;
+
+    // First index at or after the window start (times are ascending)
+    const since = click.timestamp.getTime() - windowSeconds * 1000;
+    let low = 0;
+    let high = times.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (times[mid] < since) low = mid + 1;
+      else high = mid;
+    }
+    return times.length - low;
+  };
+
+  record(click: ClickContext): void {
+    for (const scope of ['ip', 'ip_application', 'visitor'] as VelocityScope[]) {
+      const key = this.key(scope, click);
+      const times = this.seen.get(key);
+      if (times) times.push(click.timestamp.getTime());
+      else this.seen.set(key, [click.timestamp.getTime()]);
+    }
+  }
+}
+
+export interface FraudDryRunResult {
+  days: number;
+  since: string;
+  clicksEvaluated: number;
+  truncated: boolean; // More clicks in the window than FRAUD_DRY_RUN_MAX_CLICKS; the oldest were skipped
+  blockScore: number;
+  current: { flagged: number; blocked: number };
+  proposed: { flagged: number; blocked: number };
+  newlyFlagged: number;
+  noLongerFlagged: number;
+  newlyBlocked: number;
+  noLongerBlocked: number;
+  rules: { code: string; name: string; type: FraudRuleType; matches: number }[];
+  conversionRulesSkipped: string[]; // Conversion rules are not replayed
+}
+
+/**
+ * Replay the last `days` of click_events against a proposed rule set and compare with how those
+ * clicks were scored when they were logged. Geo-blocked clicks feed the velocity windows but are
+ * not counted, matching the fraud stats. Velocity windows start empty at the beginning of the
+ * replay, so clicks in its first window may be under-counted.
+ */
+export async function dryRunFraudRules(
+  rules: FraudRuleDefinition[],
+  blockScore: number,
+  days: number,
+): Promise<FraudDryRunResult> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const ruleSet = await compileRuleSet(rules, blockScore);
+
+  const rows = await db
+    .select({
+      ipAddress: clickEvents.ipAddress,
+      userAgent: clickEvents.userAgent,
+      referer: clickEvents.referer,
+      applicationId: clickEvents.applicationId,
+      visitorFingerprint: clickEvents.visitorFingerprint,
+      timestamp: clickEvents.timestamp,
+      fraudScore: clickEvents.fraudScore,
+      fraudBlocked: clickEvents.fraudBlocked,
+      geoBlocked: clickEvents.geoBlocked,
+    })
+    .from(clickEvents)
+    .where(gte(clickEvents.timestamp, since))
+    .orderBy(desc(clickEvents.timestamp))
+    .limit(FRAUD_DRY_RUN_MAX_CLICKS + 1);
+
+  const truncated = rows.length > FRAUD_DRY_RUN_MAX_CLICKS;
+  const replayed = rows.slice(0, FRAUD_DRY_RUN_MAX_CLICKS).reverse();
+
+  const counter = new ReplayVelocityCounter();
+  const ruleMatches = new Map<string, number>();
+  const result: FraudDryRunResult = {
+    days,
+    since: since.toISOString(),
+    clicksEvaluated: 0,
+    truncated,
+    blockScore,
+    current: { flagged: 0, blocked: 0 },
+    proposed: { flagged: 0, blocked: 0 },
+    newlyFlagged: 0,
+    noLongerFlagged: 0,
+    newlyBlocked: 0,
+    noLongerBlocked: 0,
+    rules: [],
+    conversionRulesSkipped: ruleSet.rules
+      .filter((rule) => CONVERSION_RULE_TYPES.includes(rule.type))
+      .map((rule) => rule.code),
+  };
+
+  for (const row of replayed) {
+    const click: ClickContext = {
+      ip: row.ipAddress,
+      userAgent: row.userAgent || '',
+      referer: row.referer || '',
+      applicationId: row.applicationId,
+      visitorFingerprint: row.visitorFingerprint,
+      timestamp: row.timestamp || new Date(),
+    };
+    const score = await scoreClick(ruleSet, click, counter.count);
+    counter.record(click);
+    if (row.geoBlocked) continue;
+
+    result.clicksEvaluated++;
+    for (const code of score.flags) {
+      ruleMatches.set(code, (ruleMatches.get(code) || 0) + 1);
+    }
+
+    const wasFlagged = (row.fraudScore || 0) >= FRAUD_REVIEW_MIN_SCORE || row.fraudBlocked;
+    const isFlagged = score.fraudScore >= FRAUD_REVIEW_MIN_SCORE || score.blocked;
+    if (wasFlagged) result.current.flagged++;
+    if (row.fraudBlocked) result.current.blocked++;
+    if (isFlagged) result.proposed.flagged++;
+    if (score.blocked) result.proposed.blocked++;
+    if (isFlagged && !wasFlagged) result.newlyFlagged++;
+    if (!isFlagged && wasFlagged) result.noLongerFlagged++;
+    if (score.blocked && !row.fraudBlocked) result.newlyBlocked++;
+    if (!score.blocked && row.fraudBlocked) result.noLongerBlocked++;
+  }
+
+  result.rules = ruleSet.rules
+    .filter((rule) => rule.matchClick)
+    .map((rule) => ({ code: rule.code, name: rule.name, type: rule.type, matches: ruleMatches.get(rule.code) || 0 }));
+
+  return result;
+}
@@ -0,0 +1,231 @@
+/**
+ * Geo Routing
+ *
+ * Decides where /go/:code sends a visitor based on the country geoip-lite resolves for their IP:
+ * - geographicRestrictions: countries the offer is available in. Entries are free text from the
+ *   offer form, so both names ("United States") and ISO codes ("US") are accepted; an empty list
+ *   or "Worldwide" means no restriction. Visitors whose country cannot be resolved are let through.
+ * - geoFallbackUrl: where blocked visitors are sent; without one they get a localized
+ *   "not available in your region" page.
+ * - geoDestinations: per-country destination URLs that replace productUrl for allowed visitors.
+ */
+
+import geoip from 'geoip-lite';
+import { geoDestinationsSchema, type GeoDestinations, type Offer } from '../shared/schema';
+
+const WORLDWIDE_ENTRIES = new Set(['worldwide', 'global', 'international', 'everywhere', 'all', 'any']);
+
+const EU_COUNTRIES = [
+  'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE',
+  'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE',
+];
+
+// Common names Intl.DisplayNames does not produce
+const COUNTRY_ALIASES: Record<string, string[]> = {
+  usa: ['US'],
+  america: ['US'],
+  'united states of america': ['US'],
+  uk: ['GB'],
+  'great britain': ['GB'],
+  britain: ['GB'],
+  england: ['GB'],
+  scotland: ['GB'],
+  wales: ['GB'],
+  'northern ireland': ['GB'],
+  uae: ['AE'],
+  korea: ['KR'],
+  'republic of korea': ['KR'],
+  'czech republic': ['CZ'],
+  holland: ['NL'],
+  'ivory coast': ['CI'],
+  turkey: ['TR'],
+  eu: EU_COUNTRIES,
+  'european union': EU_COUNTRIES,
+};
+
+const regionNames = new Intl.DisplayNames(['en'], { type: 'region' });
+
+// Name of an assigned ISO code; unassigned codes come back unchanged or as "Unknown Region"
+function knownRegionName(code: string): string | null {
+  const name = regionNames.of(code);
+  return name && name !== code && !name.startsWith('Unknown') ? name : null;
+}
+
+// Lower-cased English country name → ISO code, built once from ICU's region names
+const countryCodesByName: Map<string, string> = (() => {
+  const map = new Map<string, string>();
+  const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+  for (const first of letters) {
+    for (const second of letters) {
+      const name = knownRegionName(first + second);
+      if (name) map.set(name.toLowerCase(), first + second);
+    }
+  }
+  return map;
+})();
+
+/**
+ * English display name for an ISO country code (falls back to the code)
+ */
+export function getCountryName(code: string): string {
+  return knownRegionName(code.toUpperCase()) || code;
+}
+
+/**
+ * ISO codes a restriction entry stands for; null when the entry is not recognized
+ */
+export function resolveCountryEntry(entry: string): string[] | null {
+  const normalized = entry.trim().toLowerCase();
+  if (!normalized) return null;
+
+  if (COUNTRY_ALIASES[normalized]) return COUNTRY_ALIASES[normalized];
+  const byName = countryCodesByName.get(normalized);
+  if (byName) return [byName];
+
+  if (/^[a-z]{2}$/.test(normalized) && knownRegionName(normalized.toUpperCase())) {
+    return [normalized.toUpperCase()];
+  }
+  return null;
+}
+
+/**
+ * Restriction entries that are neither a worldwide marker nor a recognized country
+ */
+export function findUnrecognizedGeoRestrictions(restrictions: string[] | null | undefined): string[] {
+  return (restrictions || []).filter((entry) => {
+    const normalized = entry.trim().toLowerCase();
+    return normalized && !WORLDWIDE_ENTRIES.has(normalized) && !resolveCountryEntry(entry);
+  });
+}
+
+/**
+ * Countries the offer is available in; null when it is not restricted
+ */
+export function getAllowedCountries(restrictions: string[] | null | undefined): Set<string> | null {
+  if (!restrictions || restrictions.length === 0) return null;
+  if (restrictions.some((entry) => WORLDWIDE_ENTRIES.has(entry.trim().toLowerCase()))) return null;
+
+  const allowed = new Set<string>();
+  for (const entry of restrictions) {
+    for (const code of resolveCountryEntry(entry) || []) {
+      allowed.add(code);
+    }
+  }
+  // Nothing recognizable: don't turn every visitor away over a typo
+  return allowed.size > 0 ? allowed : null;
+}
+
+/**
+ * Parse stored per-country destinations; invalid data is treated as none configured
+ */
+export function parseGeoDestinations(raw: unknown): GeoDestinations {
+  if (!raw) return {};
+  const parsed = geoDestinationsSchema.safeParse(raw);
+  return parsed.success ? parsed.data : {};
+}
+
+/**
+ * Country for a visitor IP (ISO code), or null for private/unknown addresses
+ */
+export function lookupCountry(ip: string): string | null {
+  return geoip.lookup(ip)?.country || null;
+}
+
+export interface GeoRoute {
+  country: string | null;
+  blocked: boolean;
+  // Where to send the visitor; null for a blocked visitor with no fallback URL (show the region page)
+  destinationUrl: string | null;
+}
+
+export function resolveGeoRoute(
+  offer: Pick<Offer, 'productUrl' | 'geographicRestrictions' | 'geoFallbackUrl' | 'geoDestinations'>,
+  country: string | null,
+): GeoRoute {
+  const allowed = getAllowedCountries(offer.geographicRestrictions);
+  if (country && allowed && !allowed.has(country)) {
+    return { country, blocked: true, destinationUrl: offer.geoFallbackUrl || null };
+  }
+
+  const destinations = parseGeoDestinations(offer.geoDestinations);
+  return {
+    country,
+    blocked: false,
+    destinationUrl: (country && destinations[country]) || offer.productUrl,
+  };
+}
+
+const BLOCKED_PAGE_COPY: Record<string, { title: string; body: (offer: string) => string }> = {
+  en: {
+    title: 'Not available in your region',
+    body: (offer) => `Sorry, ${offer} is not available in your country.`,
+  },
+  es: {
+    title: 'No disponible en tu región',
+    body: (offer) => `Lo sentimos, ${offer} no está disponible en tu país.`,
+  },
+  fr: {
+    title: 'Non disponible dans votre région',
+    body: (offer) => `Désolé, ${offer} n'est pas disponible dans votre pays.`,
+  },
+  de: {
+    title: 'In Ihrer Region nicht verfügbar',
+    body: (offer) => `Leider ist ${offer} in Ihrem Land nicht verfügbar.`,
+  },
+  pt: {
+    title: 'Indisponível na sua região',
+    body: (offer) => `Desculpe, ${offer} não está disponível no seu país.`,
+  },
+  it: {
+    title: 'Non disponibile nella tua regione',
+    body: (offer) => `Siamo spiacenti, ${offer} non è disponibile nel tuo paese.`,
+  },
+};
+
+// First language in the Accept-Language header (by q-value) we have copy for
+function pickLanguage(acceptLanguage: string | undefined): string {
+  const languages = (acceptLanguage || '')
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.find((p) => p.trim().startsWith('q='));
+      return { language: tag.split('-')[0].toLowerCase(), q: q ? parseFloat(q.trim().slice(2)) || 0 : 1 };
+    })
+    .filter((entry) => entry.language)
+    .sort((a, b) => b.q - a.q);
+
+  return languages.find((entry) => BLOCKED_PAGE_COPY[entry.language])?.language || 'en';
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+/**
+ * "Not available in your region" page, in the visitor's language where we have a translation
+ */
+export function renderGeoBlockedPage(offerTitle: string, acceptLanguage: string | undefined): string {
+  const language = pickLanguage(acceptLanguage);
+  const copy = BLOCKED_PAGE_COPY[language];
+
+  return `<!DOCTYPE html>
+<html lang="${language}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>${escapeHtml(copy.title)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #F9FAFB; color: #111827; margin: 0; display: flex; align-items: center; justify-content: center; min-height: 100vh; }
+    .card { background: #fff; border-radius: 12px; box-shadow: 0 1px 3px rgba(0,0,0,0.1); padding: 40px; max-width: 420px; text-align: center; }
+    h1 { font-size: 22px; margin: 0 0 12px; }
+    p { color: #6B7280; margin: 0; line-height: 1.5; }
+  </style>
+</head>
+<body>
+  <div class="card">
+    <h1>${escapeHtml(copy.title)}</h1>
+    <p>${escapeHtml(copy.body(`"${offerTitle}"`))}</p>
+  </div>
+</body>
+</html>`;
+}
@@ -29,6 +29,14 @@ export interface InvoiceData {
   stripeFee: number;
   netAmount: number;
   currency: string;
+  // Set when the commission was earned in another currency and converted for the payout
+  exchangeRate?: {
+    sourceAmount: number;
+    sourceCurrency: string;
+    rate: number;
+    source?: string;
+    at?: Date;
+  };
   // Status
   status: 'pending' | 'paid' | 'failed';
   paidAt?: Date;
@@ -300,6 +308,12 @@ export function generateInvoiceHtml(data: InvoiceData): string {
             <td>${data.description}</td>
             <td class="amount">${formatCurrency(data.grossAmount, data.currency)}</td>
           </tr>
+          ${data.exchangeRate ? `
+          <tr>
+            <td>Converted from ${formatCurrency(data.exchangeRate.sourceAmount, data.exchangeRate.sourceCurrency)} at 1 ${data.exchangeRate.sourceCurrency} = ${data.exchangeRate.rate.toFixed(6)} ${data.currency}${data.exchangeRate.at ? ` (rate as of ${formatDate(data.exchangeRate.at)})` : ''}</td>
+            <td class="amount"></td>
+          </tr>
+          ` : ''}
         </tbody>
       </table>
     </div>
@@ -375,7 +389,17 @@ export async function generatePaymentInvoice(paymentId: string): Promise<Invoice
       platformFee: parseFloat(payment.platformFeeAmount),
       stripeFee: parseFloat(payment.stripeFeeAmount),
       netAmount: parseFloat(payment.netAmount),
-      currency: 'USD',
+      currency: payment.currency || 'USD',
+      exchangeRate: payment.sourceCurrency && payment.sourceAmount && payment.exchangeRate &&
+        payment.sourceCurrency !== payment.currency
+        ? {
+            sourceAmount: parseFloat(payment.sourceAmount),
+            sourceCurrency: payment.sourceCurrency,
+            rate: parseFloat(payment.exchangeRate),
+            source: payment.exchangeRateSource || undefined,
+            at: payment.exchangeRateAt ? new Date(payment.exchangeRateAt) : undefined,
+          }
+        : undefined,
       status: payment.status as 'pending' | 'paid' | 'failed',
       paidAt: payment.completedAt ? new Date(payment.completedAt) : undefined,
       offerTitle: offer?.title,
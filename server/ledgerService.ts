@@ -0,0 +1,504 @@
+// Ledger Service
+// Posts balanced double-entry transactions for every payment state transition and builds the
+// trial balance and account statements from them.
+//
+// Chart of accounts (per currency; company and creator accounts are per owner):
+// - company_balance (liability): funds held for a company; goes negative when earnings are charged to it
+// - creator_payable (liability): earnings owed to a creator; negative while a clawback is outstanding
+// - platform_fee_revenue (revenue): platform fees charged on earnings
+// - processor_fees (expense): credited when processing fees are collected, debited when paid out with a payout
+// - refunds (expense): money returned to companies after the creator was already paid
+// - platform_cash (asset): money received from companies and leaving the platform's payout accounts
+//
+// Postings per payment:
+// - accrual: Dr company_balance gross / Cr creator_payable net, platform_fee_revenue, processor_fees
+// - payout: Dr creator_payable amount sent, processor_fees / Cr platform_cash
+// - accrual_reversal (dispute before payout, conversion reversal): the accrual mirrored
+// - refund: accrual mirrored if unpaid, otherwise Dr refunds / Cr company_balance gross
+// Wallet top-ups: Dr platform_cash / Cr company_balance amount paid
+
+import { storage, type LedgerLine } from "./storage";
+import type { LedgerAccount, LedgerTransaction, Payment, PayoutRunItem, WalletTopUp } from "../shared/schema";
+
+export type LedgerAccountCode =
+  | 'company_balance'
+  | 'creator_payable'
+  | 'platform_fee_revenue'
+  | 'processor_fees'
+  | 'refunds'
+  | 'platform_cash';
+
+export type LedgerEventType = 'accrual' | 'accrual_reversal' | 'payout' | 'refund' | 'top_up';
+
+const ACCOUNT_DEFINITIONS: Record<LedgerAccountCode, { type: LedgerAccount['type']; name: string }> = {
+  company_balance: { type: 'liability', name: 'Company balance' },
+  creator_payable: { type: 'liability', name: 'Creator payable' },
+  platform_fee_revenue: { type: 'revenue', name: 'Platform fee revenue' },
+  processor_fees: { type: 'expense', name: 'Processor fees' },
+  refunds: { type: 'expense', name: 'Refunds' },
+  platform_cash: { type: 'asset', name: 'Platform cash' },
+};
+
+// Payment as returned by storage.getPaymentOrRetainerPayment (affiliate or retainer)
+interface LedgerPayment {
+  id: string;
+  paymentType: 'affiliate' | 'retainer';
+  creatorId: string;
+  companyId: string;
+  grossAmount: string;
+  platformFeeAmount: string;
+  stripeFeeAmount: string;
+  netAmount: string;
+  currency?: string;
+  completedAt?: Date | null;
+}
+
+interface PostingLine {
+  code: LedgerAccountCode;
+  ownerId?: string | null;
+  debit?: number;
+  credit?: number;
+}
+
+export interface TrialBalanceRow {
+  account: LedgerAccount;
+  debit: number;
+  credit: number;
+  balance: number; // On the account's normal side (debit for assets/expenses, credit otherwise)
+}
+
+export interface TrialBalance {
+  asOf: string;
+  rows: TrialBalanceRow[];
+  totals: Array<{ currency: string; debit: number; credit: number; balanced: boolean }>;
+}
+
+export interface AccountStatement {
+  account: LedgerAccount;
+  openingBalance: number;
+  closingBalance: number;
+  lines: Array<{
+    entryId: string;
+    transactionId: string;
+    eventType: string;
+    description: string | null;
+    paymentId: string | null;
+    createdAt: Date | null;
+    debit: number;
+    credit: number;
+    balance: number;
+  }>;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function isDebitNormal(type: LedgerAccount['type']): boolean {
+  return type === 'asset' || type === 'expense';
+}
+
+function normalBalance(type: LedgerAccount['type'], debit: number, credit: number): number {
+  return round2(isDebitNormal(type) ? debit - credit : credit - debit);
+}
+
+export class LedgerService {
+  private accountCache = new Map<string, LedgerAccount>();
+
+  /**
+   * Post the accrual for a newly created payment (company charged, creator owed, fees earned)
+   */
+  async recordAccrual(paymentId: string, createdBy?: string): Promise<LedgerTransaction | null> {
+    try {
+      const payment = await this.loadPayment(paymentId);
+      if (!payment) return null;
+      return await this.ensureAccrual(payment, createdBy);
+    } catch (error) {
+      console.error(`[Ledger] Error recording accrual for payment ${paymentId}:`, error);
+      return null;
+    }
+  }
+
+  async recordAccruals(paymentIds: string[] | undefined): Promise<void> {
+    for (const paymentId of paymentIds || []) {
+      await this.recordAccrual(paymentId);
+    }
+  }
+
+  /**
+   * Post a payout sent to the creator for one payment. amountSent is what actually left the
+   * platform (net less any clawback offset); it may be 0 when the payout was fully offset.
+   */
+  async recordPayout(paymentId: string, amountSent: number, transactionId?: string): Promise<LedgerTransaction | null> {
+    try {
+      const payment = await this.loadPayment(paymentId);
+      if (!payment) return null;
+      await this.ensureAccrual(payment);
+
+      const fee = amountSent > 0 ? parseFloat(payment.stripeFeeAmount) : 0;
+      return await this.post(payment, 'payout', `payment:${payment.id}:payout`, [
+        { code: 'creator_payable', ownerId: payment.creatorId, debit: amountSent },
+        { code: 'processor_fees', debit: fee },
+        { code: 'platform_cash', credit: amountSent + fee },
+      ], `Payout sent${transactionId ? ` (${transactionId})` : ''}`);
+    } catch (error) {
+      console.error(`[Ledger] Error recording payout for payment ${paymentId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Post one aggregated payout from a payout run item (several payments, one transfer)
+   */
+  async recordPayoutRunItem(item: PayoutRunItem, itemPayments: Payment[], amountSent: number): Promise<LedgerTransaction | null> {
+    try {
+      for (const payment of itemPayments) {
+        await this.recordAccrual(payment.id);
+      }
+
+      const fee = amountSent > 0
+        ? itemPayments.reduce((sum, p) => sum + parseFloat(p.stripeFeeAmount), 0)
+        : 0;
+      const lines = this.toLedgerLines([
+        { code: 'creator_payable', ownerId: item.creatorId, debit: amountSent },
+        { code: 'processor_fees', debit: fee },
+        { code: 'platform_cash', credit: amountSent + fee },
+      ]);
+
+      const { transaction } = await storage.postLedgerTransaction({
+        idempotencyKey: `payout-run-item:${item.id}:payout`,
+        eventType: 'payout',
+        payoutRunItemId: item.id,
+        currency: item.currency,
+        description: `Payout run item (${itemPayments.length} payments)${item.providerTransactionId ? ` (${item.providerTransactionId})` : ''}`,
+      }, await this.resolveLines(lines, item.currency));
+      return transaction;
+    } catch (error) {
+      console.error(`[Ledger] Error recording payout for payout run item ${item.id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Post a completed wallet top-up (funds received from the company)
+   */
+  async recordWalletTopUp(topUp: WalletTopUp): Promise<LedgerTransaction | null> {
+    try {
+      const amount = parseFloat(topUp.amount);
+      const lines = this.toLedgerLines([
+        { code: 'platform_cash', debit: amount },
+        { code: 'company_balance', ownerId: topUp.companyId, credit: amount },
+      ]);
+
+      const { transaction } = await storage.postLedgerTransaction({
+        idempotencyKey: `wallet-top-up:${topUp.id}`,
+        eventType: 'top_up',
+        currency: topUp.currency,
+        description: `Wallet top-up${topUp.stripePaymentIntentId ? ` (${topUp.stripePaymentIntentId})` : ''}`,
+        createdBy: topUp.createdBy,
+      }, await this.resolveLines(lines, topUp.currency));
+      return transaction;
+    } catch (error) {
+      console.error(`[Ledger] Error recording wallet top-up ${topUp.id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * A company disputed a payment. Unpaid earnings are reversed; a dispute on a payment that
+   * already went out moves no money until the admin resolves it.
+   */
+  async recordDispute(paymentId: string, reason: string | undefined, createdBy?: string): Promise<LedgerTransaction | null> {
+    try {
+      const payment = await this.loadPayment(paymentId);
+      if (!payment || payment.completedAt) return null;
+      await this.ensureAccrual(payment);
+      return await this.reverseAccrual(payment, `Disputed: ${reason || 'No reason provided'}`, createdBy);
+    } catch (error) {
+      console.error(`[Ledger] Error recording dispute for payment ${paymentId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * An admin resolved a dispute in the creator's favour: re-accrue earnings the dispute reversed
+   */
+  async recordDisputeReinstated(paymentId: string, createdBy?: string): Promise<LedgerTransaction | null> {
+    try {
+      const payment = await this.loadPayment(paymentId);
+      if (!payment) return null;
+
+      const state = await this.getAccrualState(payment.id);
+      if (state.active || state.refunded) return null;
+
+      return await this.post(
+        payment,
+        'accrual',
+        `payment:${payment.id}:accrual:${state.accruals + 1}`,
+        this.accrualLines(payment),
+        'Earnings reinstated after dispute',
+        createdBy,
+      );
+    } catch (error) {
+      console.error(`[Ledger] Error reinstating payment ${paymentId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * A conversion was refunded or charged back: reverse the earnings of each of its payments.
+   * Paid-out earnings leave creator_payable negative until recovered from a later payout.
+   */
+  async recordConversionReversal(conversionId: string, paymentIds: Array<string | null>): Promise<void> {
+    for (const paymentId of paymentIds) {
+      if (!paymentId) continue;
+      try {
+        const payment = await this.loadPayment(paymentId);
+        if (!payment) continue;
+        await this.ensureAccrual(payment);
+        await this.reverseAccrual(payment, `Conversion ${conversionId} reversed`);
+      } catch (error) {
+        console.error(`[Ledger] Error recording reversal of conversion ${conversionId} for payment ${paymentId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Money returned to the company. Unpaid earnings are simply reversed; once the creator has
+   * been paid the platform absorbs the refund.
+   */
+  async recordRefund(paymentId: string, reason: string | undefined, createdBy?: string): Promise<LedgerTransaction | null> {
+    try {
+      const payment = await this.loadPayment(paymentId);
+      if (!payment) return null;
+      await this.ensureAccrual(payment);
+
+      const state = await this.getAccrualState(payment.id);
+      if (!state.active) return null;
+
+      const gross = parseFloat(payment.grossAmount);
+      const lines: PostingLine[] = payment.completedAt
+        ? [
+            { code: 'refunds', debit: gross },
+            { code: 'company_balance', ownerId: payment.companyId, credit: gross },
+          ]
+        : this.mirror(this.accrualLines(payment));
+
+      return await this.post(
+        payment,
+        'refund',
+        `payment:${payment.id}:refund`,
+        lines,
+        `Refunded: ${reason || 'No reason provided'}`,
+        createdBy,
+      );
+    } catch (error) {
+      console.error(`[Ledger] Error recording refund for payment ${paymentId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Debit/credit totals per account with each account's normal-side balance.
+   * Every currency's debits must equal its credits.
+   */
+  async getTrialBalance(options: { currency?: string; asOf?: Date } = {}): Promise<TrialBalance> {
+    const balances = await storage.getLedgerTrialBalance(options);
+    const rows = balances.map(({ account, debit, credit }) => ({
+      account,
+      debit: round2(debit),
+      credit: round2(credit),
+      balance: normalBalance(account.type, debit, credit),
+    }));
+
+    const totalsByCurrency = new Map<string, { debit: number; credit: number }>();
+    for (const row of rows) {
+      const totals = totalsByCurrency.get(row.account.currency) || { debit: 0, credit: 0 };
+      totals.debit += row.debit;
+      totals.credit += row.credit;
+      totalsByCurrency.set(row.account.currency, totals);
+    }
+
+    return {
+      asOf: (options.asOf || new Date()).toISOString(),
+      rows,
+      totals: Array.from(totalsByCurrency.entries()).map(([currency, totals]) => ({
+        currency,
+        debit: round2(totals.debit),
+        credit: round2(totals.credit),
+        balanced: round2(totals.debit) === round2(totals.credit),
+      })),
+    };
+  }
+
+  async getAccountStatement(
+    accountId: string,
+    options: { from?: Date; to?: Date; limit?: number } = {}
+  ): Promise<AccountStatement | null> {
+    const account = await storage.getLedgerAccount(accountId);
+    if (!account) return null;
+
+    const opening = options.from
+      ? await storage.getLedgerAccountTotals(accountId, options.from)
+      : { debit: 0, credit: 0 };
+    const openingBalance = normalBalance(account.type, opening.debit, opening.credit);
+
+    let balance = openingBalance;
+    const statement = await storage.getLedgerAccountStatement(accountId, options);
+    const lines = statement.map(({ entry, transaction }) => {
+      const debit = parseFloat(entry.debit);
+      const credit = parseFloat(entry.credit);
+      balance = round2(balance + (isDebitNormal(account.type) ? debit - credit : credit - debit));
+      return {
+        entryId: entry.id,
+        transactionId: transaction.id,
+        eventType: transaction.eventType,
+        description: transaction.description,
+        paymentId: transaction.paymentId || transaction.retainerPaymentId,
+        createdAt: entry.createdAt,
+        debit,
+        credit,
+        balance,
+      };
+    });
+
+    return { account, openingBalance, closingBalance: balance, lines };
+  }
+
+  private async loadPayment(paymentId: string): Promise<LedgerPayment | undefined> {
+    return await storage.getPaymentOrRetainerPayment(paymentId);
+  }
+
+  // Accrual counts for a payment; earnings are "active" while accrued and not yet reversed or refunded
+  private async getAccrualState(paymentId: string) {
+    const transactions = await storage.getLedgerTransactionsForPayment(paymentId);
+    const countOf = (eventType: LedgerEventType) => transactions.filter((t) => t.eventType === eventType).length;
+    const accruals = countOf('accrual');
+    const reversals = countOf('accrual_reversal');
+    const refunds = countOf('refund');
+    return { accruals, reversals, refunded: refunds > 0, active: accruals - reversals - refunds > 0 };
+  }
+
+  // Payments created before the ledger (or by a path that missed the accrual) are accrued on first touch
+  private async ensureAccrual(payment: LedgerPayment, createdBy?: string): Promise<LedgerTransaction | null> {
+    const state = await this.getAccrualState(payment.id);
+    if (state.accruals > 0) return null;
+    return await this.post(
+      payment,
+      'accrual',
+      `payment:${payment.id}:accrual:1`,
+      this.accrualLines(payment),
+      payment.paymentType === 'retainer' ? 'Retainer earnings accrued' : 'Affiliate earnings accrued',
+      createdBy,
+    );
+  }
+
+  private async reverseAccrual(payment: LedgerPayment, description: string, createdBy?: string): Promise<LedgerTransaction | null> {
+    const state = await this.getAccrualState(payment.id);
+    if (!state.active) return null;
+    return await this.post(
+      payment,
+      'accrual_reversal',
+      `payment:${payment.id}:accrual_reversal:${state.reversals + 1}`,
+      this.mirror(this.accrualLines(payment)),
+      description,
+      createdBy,
+    );
+  }
+
+  private accrualLines(payment: LedgerPayment): PostingLine[] {
+    return [
+      { code: 'company_balance', ownerId: payment.companyId, debit: parseFloat(payment.grossAmount) },
+      { code: 'creator_payable', ownerId: payment.creatorId, credit: parseFloat(payment.netAmount) },
+      { code: 'platform_fee_revenue', credit: parseFloat(payment.platformFeeAmount) },
+      { code: 'processor_fees', credit: parseFloat(payment.stripeFeeAmount) },
+    ];
+  }
+
+  private mirror(lines: PostingLine[]): PostingLine[] {
+    return lines.map((line) => ({ ...line, debit: line.credit, credit: line.debit }));
+  }
+
+  private async post(
+    payment: LedgerPayment,
+    eventType: LedgerEventType,
+    idempotencyKey: string,
+    lines: PostingLine[],
+    description: string,
+    createdBy?: string
+  ): Promise<LedgerTransaction> {
+    const currency = payment.currency || 'USD';
+    const { transaction, created } = await storage.postLedgerTransaction({
+      idempotencyKey,
+      eventType,
+      paymentId: payment.paymentType === 'affiliate' ? payment.id : null,
+      retainerPaymentId: payment.paymentType === 'retainer' ? payment.id : null,
+      currency,
+      description,
+      createdBy: createdBy || null,
+    }, await this.resolveLines(this.toLedgerLines(lines), currency));
+
+    if (created) {
+      console.log(`[Ledger] Posted ${eventType} for payment ${payment.id} (${idempotencyKey})`);
+    }
+    return transaction;
+  }
+
+  // Drop zero lines and check the posting balances before it is written
+  private toLedgerLines(lines: PostingLine[]): PostingLine[] {
+    const nonZero = lines
+      .map((line) => ({ ...line, debit: round2(line.debit || 0), credit: round2(line.credit || 0) }))
+      .filter((line) => line.debit !== 0 || line.credit !== 0)
+      // A negative amount belongs on the other side
+      .map((line) => (line.debit < 0 || line.credit < 0)
+        ? { ...line, debit: Math.abs(line.credit), credit: Math.abs(line.debit) }
+        : line);
+
+    const debits = round2(nonZero.reduce((sum, line) => sum + line.debit, 0));
+    const credits = round2(nonZero.reduce((sum, line) => sum + line.credit, 0));
+    if (debits !== credits) {
+      throw new Error(`Unbalanced ledger posting: debits ${debits.toFixed(2)} != credits ${credits.toFixed(2)}`);
+    }
+    return nonZero;
+  }
+
+  private async resolveLines(lines: PostingLine[], currency: string): Promise<LedgerLine[]> {
+    const resolved: LedgerLine[] = [];
+    for (const line of lines) {
+      const account = await this.getAccount(line.code, line.ownerId || null, currency);
+      resolved.push({
+        accountId: account.id,
+        debit: (line.debit || 0).toFixed(2),
+        credit: (line.credit || 0).toFixed(2),
+      });
+    }
+    return resolved;
+  }
+
+  private async getAccount(code: LedgerAccountCode, ownerId: string | null, currency: string): Promise<LedgerAccount> {
+    const accountKey = `${code}:${ownerId || 'platform'}:${currency}`;
+    const cached = this.accountCache.get(accountKey);
+    if (cached) return cached;
+
+    const definition = ACCOUNT_DEFINITIONS[code];
+    const account = await storage.getOrCreateLedgerAccount({
+      accountKey,
+      code,
+      type: definition.type,
+      ownerId,
+      currency,
+      name: ownerId ? `${definition.name} - ${await this.getOwnerLabel(code, ownerId)}` : definition.name,
+    });
+    this.accountCache.set(accountKey, account);
+    return account;
+  }
+
+  private async getOwnerLabel(code: LedgerAccountCode, ownerId: string): Promise<string> {
+    if (code === 'company_balance') {
+      const company = await storage.getCompanyProfileById(ownerId);
+      return company?.tradeName || company?.legalName || ownerId;
+    }
+    const user = await storage.getUserById(ownerId);
+    return user?.username || ownerId;
+  }
+}
+
+export const ledgerService = new LedgerService();
@@ -0,0 +1,169 @@
+/**
+ * Live Analytics
+ *
+ * Server-sent events feed of clicks and conversions as /go/:code, the postback, the pixel and manual
+ * reporting record them (GET /api/analytics/live). Each subscriber only receives events in its scope:
+ * - creators: clicks and conversions on their own applications, without fraud details, so the
+ *   scoring can't be probed from the feed
+ * - companies: events on their own offers
+ * - admins: everything
+ * Events are not persisted; a dashboard that reconnects picks up the aggregates from /api/analytics.
+ */
+
+import type { Response } from 'express';
+import { lookupCountry } from './geoRouting';
+import type { Conversion } from '../shared/schema';
+
+export interface LiveClickEvent {
+  type: 'click';
+  id: string | null; // Click id (null for geo-blocked clicks)
+  applicationId: string;
+  offerId: string;
+  offerTitle: string;
+  creatorId: string;
+  companyId: string;
+  country: string | null;
+  fraudScore: number;
+  fraudBlocked: boolean;
+  geoBlocked: boolean;
+  utmSource: string | null;
+  utmMedium: string | null;
+  utmCampaign: string | null;
+  sub1: string | null;
+  timestamp: string;
+}
+
+export interface LiveConversionEvent {
+  type: 'conversion';
+  id: string;
+  applicationId: string;
+  offerId: string;
+  offerTitle: string;
+  creatorId: string;
+  companyId: string;
+  country: string | null;
+  fraudScore: number;
+  status: string;
+  source: string;
+  saleAmount: string | null;
+  earnings: string;
+  currency: string;
+  sub1: string | null;
+  timestamp: string;
+}
+
+export type LiveAnalyticsEvent = LiveClickEvent | LiveConversionEvent;
+
+interface Subscriber {
+  userId: string;
+  role: 'creator' | 'company' | 'admin';
+  companyId: string | null;
+  res: Response;
+}
+
+// Browsers cap connections per host, and each open tab holds one
+export const MAX_LIVE_CONNECTIONS_PER_USER = 5;
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+const subscribers = new Set<Subscriber>();
+let heartbeat: NodeJS.Timeout | null = null;
+
+function send(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function isInScope(subscriber: Subscriber, event: LiveAnalyticsEvent): boolean {
+  if (subscriber.role === 'admin') return true;
+  if (subscriber.role === 'company') return !!subscriber.companyId && event.companyId === subscriber.companyId;
+  return event.creatorId === subscriber.userId;
+}
+
+// Creators see their traffic, not how the fraud rules scored it
+function forSubscriber(subscriber: Subscriber, event: LiveAnalyticsEvent): LiveAnalyticsEvent {
+  if (subscriber.role !== 'creator') return event;
+  return event.type === 'click'
+    ? { ...event, fraudScore: 0, fraudBlocked: false }
+    : { ...event, fraudScore: 0 };
+}
+
+export function countLiveConnections(userId: string): number {
+  let count = 0;
+  subscribers.forEach((subscriber) => {
+    if (subscriber.userId === userId) count++;
+  });
+  return count;
+}
+
+/**
+ * Turn the response into an event stream and keep it subscribed until the client disconnects
+ */
+export function subscribeLiveAnalytics(
+  res: Response,
+  scope: { userId: string; role: Subscriber['role']; companyId: string | null },
+): () => void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // nginx: don't buffer the stream
+  });
+  res.write('retry: 5000\n\n');
+  send(res, 'ready', { role: scope.role });
+
+  const subscriber: Subscriber = { ...scope, res };
+  subscribers.add(subscriber);
+
+  if (!heartbeat) {
+    heartbeat = setInterval(() => {
+      subscribers.forEach((s) => s.res.write(': ping\n\n'));
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  return () => {
+    subscribers.delete(subscriber);
+    if (subscribers.size === 0 && heartbeat) {
+      clearInterval(heartbeat);
+      heartbeat = null;
+    }
+  };
+}
+
+/**
+ * Push an event to every subscriber allowed to see it
+ */
+export function publishLiveEvent(event: LiveAnalyticsEvent): void {
+  subscribers.forEach((subscriber) => {
+    if (!isInScope(subscriber, event)) return;
+    try {
+      send(subscriber.res, event.type, forSubscriber(subscriber, event));
+    } catch (error) {
+      console.error('[Live Analytics] Error sending event:', error);
+    }
+  });
+}
+
+/**
+ * Live event for a recorded conversion
+ */
+export function conversionLiveEvent(conversion: Conversion, offerTitle: string): LiveConversionEvent {
+  return {
+    type: 'conversion',
+    id: conversion.id,
+    applicationId: conversion.applicationId,
+    offerId: conversion.offerId,
+    offerTitle,
+    creatorId: conversion.creatorId,
+    companyId: conversion.companyId,
+    country: conversion.ipAddress ? lookupCountry(conversion.ipAddress) : null,
+    fraudScore: conversion.fraudScore,
+    status: conversion.status,
+    source: conversion.source,
+    saleAmount: conversion.saleAmount,
+    earnings: conversion.earnings,
+    currency: conversion.currency,
+    sub1: conversion.sub1,
+    timestamp: (conversion.createdAt ?? new Date()).toISOString(),
+  };
+}
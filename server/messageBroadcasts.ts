@@ -0,0 +1,190 @@
+/**
+ * Message Broadcasts
+ *
+ * A company announces something (promo codes, new assets, deadline changes) to many creators on an
+ * offer at once. The broadcast targets the offer's applications in the chosen statuses, optionally
+ * narrowed to performance segments, and sends the message into each application's conversation,
+ * creating the conversation if the company and creator haven't talked yet. Each message is stored,
+ * auto-moderated and delivered like any other message, so creators see it in their normal thread.
+ * Content that the moderation keywords flag is refused up front rather than flagged per recipient.
+ * A company can send BROADCASTS_PER_OFFER_DAILY_LIMIT broadcasts per offer and
+ * BROADCASTS_PER_COMPANY_DAILY_LIMIT across its offers in any 24 hours. The broadcast is recorded
+ * and answered right away; delivery runs in the background, and every targeted application gets a
+ * recipient row as it is sent, which the delivery and read stats are built from.
+ */
+
+import { storage, type BroadcastAudienceMember } from './storage';
+import { startConversation } from './conversationContexts';
+import { publishNewMessage } from './messagingSocket';
+import { checkContent, moderateMessage } from './moderation/moderationService';
+import type { NotificationService } from './notifications/notificationService';
+import type { MessageBroadcast, Offer, PERFORMANCE_SEGMENTS, BROADCAST_APPLICATION_STATUSES } from '../shared/schema';
+
+export const BROADCASTS_PER_OFFER_DAILY_LIMIT = 3;
+export const BROADCASTS_PER_COMPANY_DAILY_LIMIT = 10;
+
+export type PerformanceSegment = (typeof PERFORMANCE_SEGMENTS)[number];
+export type BroadcastApplicationStatus = (typeof BROADCAST_APPLICATION_STATUSES)[number];
+
+export interface BroadcastTarget {
+  statuses: BroadcastApplicationStatus[];
+  segments: PerformanceSegment[]; // Empty = every segment
+}
+
+export class BroadcastError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'BroadcastError';
+    Object.setPrototypeOf(this, BroadcastError.prototype);
+  }
+}
+
+/**
+ * Same tiers as the company creators page: high earners or converters, then moderate, then the rest
+ */
+export function getPerformanceSegment(member: Pick<BroadcastAudienceMember, 'clicks' | 'conversions' | 'earnings'>): PerformanceSegment {
+  const conversionRate = member.clicks > 0 ? member.conversions / member.clicks : 0;
+  if (member.earnings >= 500 || conversionRate >= 0.05 || member.conversions >= 10) return 'high';
+  if (member.earnings >= 100 || conversionRate >= 0.02 || member.conversions >= 3) return 'medium';
+  return 'low';
+}
+
+/**
+ * The applications of an offer a broadcast with this target would be sent to
+ */
+export async function getBroadcastAudience(offerId: string, target: BroadcastTarget): Promise<BroadcastAudienceMember[]> {
+  const members = await storage.getOfferBroadcastAudience(offerId, target.statuses);
+  if (target.segments.length === 0) return members;
+  return members.filter((member) => target.segments.includes(getPerformanceSegment(member)));
+}
+
+/**
+ * Record a broadcast from a company user to the offer's targeted creators and start delivering it
+ * in the background. Returns the broadcast with zeroed stats; delivery progress shows up in
+ * getMessageBroadcastsWithStats as recipient rows are written.
+ */
+export async function sendOfferBroadcast(
+  notificationService: NotificationService,
+  sender: { id: string; role: string },
+  offer: Offer,
+  content: string,
+  target: BroadcastTarget,
+) {
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  if (await storage.countMessageBroadcastsSince(offer.companyId, since, offer.id) >= BROADCASTS_PER_OFFER_DAILY_LIMIT) {
+    throw new BroadcastError(
+      `You can send ${BROADCASTS_PER_OFFER_DAILY_LIMIT} broadcasts per offer per day. Try again tomorrow.`,
+      429,
+    );
+  }
+  if (await storage.countMessageBroadcastsSince(offer.companyId, since) >= BROADCASTS_PER_COMPANY_DAILY_LIMIT) {
+    throw new BroadcastError(
+      `You can send ${BROADCASTS_PER_COMPANY_DAILY_LIMIT} broadcasts per day across your offers. Try again tomorrow.`,
+      429,
+    );
+  }
+
+  const check = await checkContent(content, 'message');
+  if (check.isFlagged) {
+    throw new BroadcastError(
+      `Broadcasts can't contain flagged content (${check.reasons.join(', ')}). Please revise your message.`,
+      422,
+    );
+  }
+
+  const audience = await getBroadcastAudience(offer.id, target);
+  if (audience.length === 0) {
+    throw new BroadcastError('No creators on this offer match the selected statuses and segments', 400);
+  }
+
+  const broadcast = await storage.createMessageBroadcast({
+    offerId: offer.id,
+    companyId: offer.companyId,
+    senderId: sender.id,
+    content,
+    targetStatuses: target.statuses,
+    targetSegments: target.segments,
+    recipientCount: audience.length,
+  });
+
+  deliverOfferBroadcast(notificationService, sender, offer, broadcast, audience).catch((error) => {
+    console.error(`[Message Broadcast] Error delivering broadcast ${broadcast.id}:`, error);
+  });
+
+  return { ...broadcast, delivered: 0, failed: 0, read: 0 };
+}
+
+/**
+ * Send a recorded broadcast to each member of its audience. Sending to one creator failing is
+ * recorded on its recipient row and doesn't stop the rest.
+ */
+async function deliverOfferBroadcast(
+  notificationService: NotificationService,
+  sender: { id: string; role: string },
+  offer: Offer,
+  broadcast: MessageBroadcast,
+  audience: BroadcastAudienceMember[],
+): Promise<void> {
+  const { content } = broadcast;
+  const companyProfile = await storage.getCompanyProfileById(offer.companyId);
+  const companyName = companyProfile?.tradeName || companyProfile?.legalName || 'A company';
+  const messagePreview = content.length > 100 ? content.substring(0, 100) + '...' : content;
+
+  // One creator at a time, so a large offer doesn't open a burst of connections
+  for (const member of audience) {
+    let conversationId: string | null = null;
+    try {
+      const conversation = await startConversation(sender, { applicationId: member.applicationId });
+      conversationId = conversation.id;
+      const message = await storage.createMessage({ conversationId: conversation.id, senderId: sender.id, content });
+
+      try {
+        await moderateMessage(message.id, storage);
+      } catch (moderationError) {
+        console.error('[Moderation] Error auto-moderating message:', moderationError);
+      }
+
+      await publishNewMessage(message);
+      await storage.createMessageBroadcastRecipient({
+        broadcastId: broadcast.id,
+        applicationId: member.applicationId,
+        creatorId: member.creatorId,
+        conversationId: conversation.id,
+        messageId: message.id,
+      });
+
+      try {
+        await notificationService.sendNotification(
+          member.creatorId,
+          'new_message',
+          `New message from ${companyName}`,
+          messagePreview,
+          {
+            userName: companyName,
+            companyName,
+            offerTitle: offer.title,
+            messagePreview,
+            conversationId: conversation.id,
+            messageId: message.id,
+            linkUrl: `/messages/${conversation.id}`,
+          },
+        );
+      } catch (notificationError) {
+        console.error('[Message Broadcast] Error notifying creator:', notificationError);
+      }
+    } catch (error: any) {
+      console.error(`[Message Broadcast] Error sending broadcast ${broadcast.id} to application ${member.applicationId}:`, error);
+      await storage.createMessageBroadcastRecipient({
+        broadcastId: broadcast.id,
+        applicationId: member.applicationId,
+        creatorId: member.creatorId,
+        conversationId,
+        error: error?.message || 'Failed to send',
+      }).catch((recordError) => {
+        console.error('[Message Broadcast] Error recording failed recipient:', recordError);
+      });
+    }
+  }
+
+  console.log(`[Message Broadcast] Finished broadcast ${broadcast.id} to ${audience.length} creators`);
+}
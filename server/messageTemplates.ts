@@ -0,0 +1,142 @@
+/**
+ * Saved Reply Templates
+ *
+ * Companies keep a library of canned replies shared by everyone on the account. Template content
+ * uses the {{variable}} syntax of the notification template engine, resolved from the conversation
+ * it is inserted into:
+ * - creatorName: the creator's first name (or username)
+ * - companyName: the company's trade or legal name
+ * - offerTitle: the offer, or retainer contract, the conversation is about
+ * - trackingLink: the creator's tracking link for that offer (application conversations)
+ * - payoutAmount: the offer's commission, or the retainer's monthly amount
+ * Variables that don't apply to a conversation resolve to an empty string. A company starts from
+ * DEFAULT_MESSAGE_TEMPLATES, the replies previously built into the client; they are added once, so a
+ * team that deletes them keeps an empty library. A template's use is counted when a message composed
+ * from it is sent, not when it is previewed in the composer.
+ */
+
+import { storage } from './storage';
+import { processTemplate } from './notifications/templateEngine';
+import type { InsertMessageTemplate, MessageTemplate, Offer } from '../shared/schema';
+
+export const MESSAGE_TEMPLATE_VARIABLES = ['creatorName', 'companyName', 'offerTitle', 'trackingLink', 'payoutAmount'] as const;
+
+export type MessageTemplateVariables = Record<(typeof MESSAGE_TEMPLATE_VARIABLES)[number], string>;
+
+export const DEFAULT_MESSAGE_TEMPLATES: InsertMessageTemplate[] = [
+  {
+    title: 'Application Approved',
+    content: "Great news! Your application for {{offerTitle}} has been approved. Here's your tracking link:\n\n{{trackingLink}}\n\nPlease use this link in your content and let us know once you've posted!",
+  },
+  {
+    title: 'Request Content Approval',
+    content: 'Hi {{creatorName}},\n\nBefore you post your content, could you please share a preview with us for approval? This helps ensure it aligns with our brand guidelines.\n\nThanks for your cooperation!',
+  },
+  {
+    title: 'Payment Processed',
+    content: 'Good news! Your payment has been processed and should arrive within 3-5 business days.\n\nThank you for your great work promoting our product!',
+  },
+  {
+    title: 'Thank You',
+    content: 'Thank you so much for promoting our product! We really appreciate the effort you put into creating quality content.\n\nLooking forward to continuing our partnership!',
+  },
+  {
+    title: 'Follow Up',
+    content: 'Hi {{creatorName}},\n\nJust following up to see how things are going. Have you had a chance to create content for {{offerTitle}}?\n\nLet me know if you need any assets or have any questions!',
+  },
+];
+
+function formatMoney(amount: number, currency: string): string {
+  return amount.toLocaleString('en-US', { style: 'currency', currency });
+}
+
+const COMMISSION_UNIT: Record<string, string> = {
+  per_sale: 'per sale',
+  per_lead: 'per lead',
+  per_click: 'per click',
+  monthly_retainer: 'per month',
+};
+
+function formatOfferPayout(offer: Pick<Offer, 'commissionType' | 'commissionAmount' | 'commissionPercentage' | 'currency'>): string {
+  const unit = COMMISSION_UNIT[offer.commissionType] ?? '';
+  if (offer.commissionAmount) {
+    return [formatMoney(Number(offer.commissionAmount), offer.currency || 'USD'), unit].filter(Boolean).join(' ');
+  }
+  if (offer.commissionPercentage) {
+    return [`${Number(offer.commissionPercentage)}%`, unit].filter(Boolean).join(' ');
+  }
+  return '';
+}
+
+/**
+ * The values of MESSAGE_TEMPLATE_VARIABLES for a conversation
+ */
+export async function getMessageTemplateVariables(conversation: {
+  creatorId: string;
+  companyId: string;
+  applicationId?: string | null;
+  offerId?: string | null;
+  retainerContractId?: string | null;
+}): Promise<MessageTemplateVariables> {
+  const [creator, companyProfile, application, offer, contract] = await Promise.all([
+    storage.getUserById(conversation.creatorId),
+    storage.getCompanyProfileById(conversation.companyId),
+    conversation.applicationId ? storage.getApplication(conversation.applicationId) : undefined,
+    conversation.offerId ? storage.getOffer(conversation.offerId) : undefined,
+    conversation.retainerContractId ? storage.getRetainerContract(conversation.retainerContractId) : undefined,
+  ]);
+
+  // Retainer contracts are funded from the company wallet, so their amounts are in its currency
+  const contractCurrency = !offer && contract ? await storage.getCompanyWalletCurrency(contract.companyId) : null;
+
+  return {
+    creatorName: creator?.firstName || creator?.username || 'there',
+    companyName: companyProfile?.tradeName || companyProfile?.legalName || '',
+    offerTitle: offer?.title || contract?.title || '',
+    trackingLink: application?.trackingLink || '',
+    payoutAmount: offer
+      ? formatOfferPayout(offer)
+      : contract?.monthlyAmount && contractCurrency
+      ? `${formatMoney(Number(contract.monthlyAmount), contractCurrency)} per month`
+      : '',
+  };
+}
+
+/**
+ * A company's templates, seeding DEFAULT_MESSAGE_TEMPLATES the first time they are listed
+ */
+export async function getCompanyMessageTemplates(companyId: string, userId?: string): Promise<MessageTemplate[]> {
+  await storage.seedMessageTemplates(companyId, DEFAULT_MESSAGE_TEMPLATES, userId);
+  return await storage.getMessageTemplates(companyId);
+}
+
+/**
+ * Resolve a template's variables for a conversation
+ */
+export async function renderMessageTemplate(
+  template: MessageTemplate,
+  conversation: Parameters<typeof getMessageTemplateVariables>[0],
+): Promise<{ content: string; template: MessageTemplate }> {
+  const variables = await getMessageTemplateVariables(conversation);
+  return { content: processTemplate(template.content, variables), template };
+}
+
+/**
+ * Count a use of the template a message was composed from, once the company side sent it.
+ * Ignores ids that aren't one of the conversation company's templates.
+ */
+export async function recordMessageTemplateSend(
+  templateId: unknown,
+  conversation: { companyId: string; creatorId: string },
+  senderId: string,
+): Promise<void> {
+  if (typeof templateId !== 'string' || !templateId || senderId === conversation.creatorId) return;
+  try {
+    const template = await storage.getMessageTemplate(templateId);
+    if (template?.companyId === conversation.companyId) {
+      await storage.recordMessageTemplateUse(template.id);
+    }
+  } catch (error) {
+    console.error(`[Message Templates] Error recording use of template ${templateId}:`, error);
+  }
+}
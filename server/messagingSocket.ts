@@ -0,0 +1,146 @@
+/**
+ * Messaging Socket
+ *
+ * Real-time delivery for conversations over the /ws WebSocket (authenticated with the session cookie
+ * in routes.ts). Participants of a conversation receive:
+ * - new_message: a message was sent, over the socket or POST /api/messages
+ * - messages_read: the other participant read messages (read receipts, with their readAt)
+ * - user_typing / user_stop_typing: typing indicators, never stored
+ * - unread_counts: the conversation's creatorUnreadCount/companyUnreadCount after either changed
+ * The sending socket alone gets message_rejected when outreach limits refuse its chat_message.
+ * A user may hold several sockets (one per tab); events go to all of them. Clients fall back to
+ * polling the REST endpoints while disconnected, so nothing here needs to be replayed.
+ */
+
+import { WebSocket } from 'ws';
+import { storage } from './storage';
+import type { Message } from '../shared/schema';
+
+export type MessagingEvent =
+  | { type: 'new_message'; message: Message }
+  | { type: 'messages_read'; conversationId: string; readBy: string; messageIds: string[]; readAt: string }
+  | { type: 'user_typing' | 'user_stop_typing'; conversationId: string; userId: string }
+  | { type: 'unread_counts'; conversationId: string; creatorUnreadCount: number; companyUnreadCount: number };
+
+export interface ConversationParticipants {
+  creatorId: string;
+  companyUserId: string | null;
+}
+
+// Tabs per user beyond this close their oldest socket
+export const MAX_MESSAGING_SOCKETS_PER_USER = 5;
+
+const clients = new Map<string, Set<WebSocket>>();
+
+/**
+ * Track a user's socket until it closes
+ */
+export function addMessagingClient(userId: string, ws: WebSocket): () => void {
+  let sockets = clients.get(userId);
+  if (!sockets) {
+    sockets = new Set();
+    clients.set(userId, sockets);
+  }
+  sockets.add(ws);
+
+  if (sockets.size > MAX_MESSAGING_SOCKETS_PER_USER) {
+    const oldest = sockets.values().next().value;
+    if (oldest) {
+      sockets.delete(oldest);
+      oldest.close(4008, 'Too many messaging connections');
+    }
+  }
+
+  return () => {
+    const current = clients.get(userId);
+    if (!current) return;
+    current.delete(ws);
+    if (current.size === 0) clients.delete(userId);
+  };
+}
+
+export function sendToUsers(userIds: Array<string | null | undefined>, event: MessagingEvent): void {
+  const payload = JSON.stringify(event);
+  for (const userId of Array.from(new Set(userIds))) {
+    if (!userId) continue;
+    clients.get(userId)?.forEach((ws) => {
+      if (ws.readyState !== WebSocket.OPEN) return;
+      try {
+        ws.send(payload);
+      } catch (error) {
+        console.error('[Messaging Socket] Error sending event:', error);
+      }
+    });
+  }
+}
+
+/**
+ * The creator and the company's user account of a conversation
+ */
+export async function getConversationParticipants(conversation: { creatorId: string; companyId: string }): Promise<ConversationParticipants> {
+  const companyProfile = await storage.getCompanyProfileById(conversation.companyId);
+  return { creatorId: conversation.creatorId, companyUserId: companyProfile?.userId ?? null };
+}
+
+export function isConversationParticipant(participants: ConversationParticipants, userId: string): boolean {
+  return participants.creatorId === userId || participants.companyUserId === userId;
+}
+
+async function publishUnreadCounts(conversationId: string, participants: ConversationParticipants): Promise<void> {
+  const conversation = await storage.getConversation(conversationId);
+  if (!conversation) return;
+  sendToUsers([participants.creatorId, participants.companyUserId], {
+    type: 'unread_counts',
+    conversationId,
+    creatorUnreadCount: conversation.creatorUnreadCount ?? 0,
+    companyUnreadCount: conversation.companyUnreadCount ?? 0,
+  });
+}
+
+/**
+ * Deliver a stored message, and the unread counts it bumped, to both participants
+ */
+export async function publishNewMessage(message: Message, participants?: ConversationParticipants): Promise<void> {
+  try {
+    if (!participants) {
+      const conversation = await storage.getConversation(message.conversationId);
+      if (!conversation) return;
+      participants = await getConversationParticipants(conversation);
+    }
+    sendToUsers([participants.creatorId, participants.companyUserId], { type: 'new_message', message });
+    await publishUnreadCounts(message.conversationId, participants);
+  } catch (error) {
+    console.error('[Messaging Socket] Error publishing message:', error);
+  }
+}
+
+/**
+ * Mark the other participant's messages read for userId, then send the read receipt to them and
+ * the reset unread counts to both
+ */
+export async function markConversationRead(
+  conversationId: string,
+  userId: string,
+  participants: ConversationParticipants,
+): Promise<{ messageIds: string[]; readAt: Date }> {
+  const receipt = await storage.markMessagesAsRead(conversationId, userId);
+  if (receipt.messageIds.length > 0) {
+    sendToUsers([participants.creatorId, participants.companyUserId].filter((id) => id !== userId), {
+      type: 'messages_read',
+      conversationId,
+      readBy: userId,
+      messageIds: receipt.messageIds,
+      readAt: receipt.readAt.toISOString(),
+    });
+  }
+  await publishUnreadCounts(conversationId, participants);
+  return receipt;
+}
+
+export function publishTyping(conversationId: string, userId: string, participants: ConversationParticipants, typing: boolean): void {
+  sendToUsers([participants.creatorId, participants.companyUserId].filter((id) => id !== userId), {
+    type: typing ? 'user_typing' : 'user_stop_typing',
+    conversationId,
+    userId,
+  });
+}
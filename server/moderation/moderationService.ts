@@ -60,7 +60,7 @@ interface CheckContentResult {
  */
 export async function checkContent(
   content: string,
-  contentType: 'message' | 'review'
+  contentType: 'message' | 'review' | 'slug'
 ): Promise<CheckContentResult> {
   const result: CheckContentResult = {
     isFlagged: false,
@@ -32,6 +32,12 @@ interface EmailTemplateData {
   reason?: string;
   revisionInstructions?: string;
   creatorName?: string;
+  // Escrow fields
+  remainingAmount?: string;
+  offerPaused?: boolean;
+  // Conversion verification fields
+  orderId?: string;
+  fraudScore?: number;
 }
 
 const baseStyles = `
@@ -436,6 +442,127 @@ export function paymentFailedInsufficientFundsEmail(data: EmailTemplateData): {
   return { subject, html };
 }
 
+export function escrowLowBalanceEmail(data: EmailTemplateData): { subject: string; html: string } {
+  const target = data.offerTitle || data.contractTitle || 'your campaign';
+  const subject = data.offerPaused
+    ? `"${target}" has been paused - escrow balance is low`
+    : `Escrow balance is running low for "${target}"`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>${baseStyles}</style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header" style="background-color: #F59E0B;">
+          <h1>Escrow Balance Low</h1>
+        </div>
+        <div class="content">
+          <p>Hi ${data.userName || data.companyName},</p>
+          <p>The escrow reserve funding <strong>${target}</strong> is running low.</p>
+
+          <div style="background-color: #F3F4F6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+            <table style="width: 100%; border-collapse: collapse;">
+              <tr>
+                <td style="padding: 8px 0; color: #6B7280;">Remaining in escrow:</td>
+                <td style="padding: 8px 0; font-weight: 600; color: #111827; text-align: right;">${data.remainingAmount || '0.00'}</td>
+              </tr>
+              ${data.amount ? `
+                <tr>
+                  <td style="padding: 8px 0; color: #6B7280;">Not covered by escrow:</td>
+                  <td style="padding: 8px 0; font-weight: 600; color: #B91C1C; text-align: right;">${data.amount}</td>
+                </tr>
+              ` : ''}
+            </table>
+          </div>
+
+          ${data.offerPaused ? `
+            <div style="background-color: #FEF3C7; border-left: 4px solid #F59E0B; padding: 15px; margin: 20px 0; border-radius: 4px;">
+              <p style="margin: 0; font-weight: 600; color: #92400E;">The offer has been paused and is not visible to creators. It resumes automatically once you add funds to its escrow.</p>
+            </div>
+          ` : ''}
+
+          <p>Top up your wallet and reserve more funds to keep paying creators without interruption.</p>
+
+          <a href="${data.linkUrl || toAbsoluteUrl('/company/wallet')}" class="button" style="background-color: #F59E0B;">Manage Wallet</a>
+        </div>
+        <div class="footer">
+          <p>This is an automated notification from Affiliate Marketplace.</p>
+          <p>Update your <a href="${toAbsoluteUrl('/settings')}">notification preferences</a> anytime.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  return { subject, html };
+}
+
+export function conversionPendingVerificationEmail(data: EmailTemplateData): { subject: string; html: string } {
+  const subject = `Conversion held for verification${data.offerTitle ? ` - "${data.offerTitle}"` : ''}`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>${baseStyles}</style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header" style="background-color: #F59E0B;">
+          <h1>Conversion Needs Verification</h1>
+        </div>
+        <div class="content">
+          <p>Hi ${data.userName || data.companyName},</p>
+          <p>A conversion reported for <strong>${data.offerTitle || 'your offer'}</strong> matched our fraud checks and has been held. No commission is credited until it is approved.</p>
+
+          <div style="background-color: #F3F4F6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+            <table style="width: 100%; border-collapse: collapse;">
+              ${data.orderId ? `
+                <tr>
+                  <td style="padding: 8px 0; color: #6B7280;">Order ID:</td>
+                  <td style="padding: 8px 0; font-weight: 600; color: #111827; text-align: right;">${data.orderId}</td>
+                </tr>
+              ` : ''}
+              ${data.amount ? `
+                <tr>
+                  <td style="padding: 8px 0; color: #6B7280;">Commission:</td>
+                  <td style="padding: 8px 0; font-weight: 600; color: #111827; text-align: right;">${data.amount}</td>
+                </tr>
+              ` : ''}
+              ${data.fraudScore !== undefined ? `
+                <tr>
+                  <td style="padding: 8px 0; color: #6B7280;">Fraud score:</td>
+                  <td style="padding: 8px 0; font-weight: 600; color: #B91C1C; text-align: right;">${data.fraudScore}/100</td>
+                </tr>
+              ` : ''}
+            </table>
+          </div>
+
+          ${data.reason ? `
+            <div style="background-color: #FEF3C7; border-left: 4px solid #F59E0B; padding: 15px; margin: 20px 0; border-radius: 4px;">
+              <p style="margin: 0; color: #92400E;">${data.reason}</p>
+            </div>
+          ` : ''}
+
+          <p>Check the order in your own records, then approve the conversion to credit the creator or reject it.</p>
+
+          <a href="${data.linkUrl || toAbsoluteUrl('/company/dashboard')}" class="button" style="background-color: #F59E0B;">Review Conversion</a>
+        </div>
+        <div class="footer">
+          <p>This is an automated notification from Affiliate Marketplace.</p>
+          <p>Update your <a href="${toAbsoluteUrl('/settings')}">notification preferences</a> anytime.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  return { subject, html };
+}
+
 export function offerApprovedEmail(data: EmailTemplateData): { subject: string; html: string } {
   const subject = `Your offer "${data.offerTitle}" has been approved!`;
 
@@ -65,6 +65,8 @@ export type NotificationType =
   | 'payment_dispute_resolved'
   | 'payment_refunded'
   | 'payment_failed_insufficient_funds'
+  | 'escrow_low_balance'
+  | 'conversion_pending_verification'
   | 'offer_approved'
   | 'offer_rejected'
   | 'offer_delete_requested'
@@ -144,6 +146,13 @@ interface NotificationData {
   monthNumber?: number;
   videoNumber?: number;
   creatorName?: string;
+  // Escrow fields
+  remainingAmount?: string;
+  offerPaused?: boolean;
+  // Conversion verification fields
+  conversionId?: string;
+  orderId?: string;
+  fraudScore?: number;
 }
 
 export class NotificationService {
@@ -217,6 +226,12 @@ export class NotificationService {
         // Fallback to payment settings page
         return '/payment-settings';
 
+      case 'escrow_low_balance':
+        return '/company/wallet';
+
+      case 'conversion_pending_verification':
+        return '/company/dashboard';
+
       case 'offer_approved':
       case 'offer_rejected':
       case 'offer_delete_approved':
@@ -465,6 +480,10 @@ export class NotificationService {
         return emailTemplates.paymentApprovedEmail(data);
       case 'payment_failed_insufficient_funds':
         return emailTemplates.paymentFailedInsufficientFundsEmail(data);
+      case 'escrow_low_balance':
+        return emailTemplates.escrowLowBalanceEmail(data);
+      case 'conversion_pending_verification':
+        return emailTemplates.conversionPendingVerificationEmail(data);
       case 'offer_approved':
         return emailTemplates.offerApprovedEmail(data);
       case 'offer_rejected':
@@ -641,6 +660,8 @@ export class NotificationService {
       case 'payment_dispute_resolved':
       case 'payment_refunded':
       case 'payment_failed_insufficient_funds':
+      case 'escrow_low_balance':
+      case 'conversion_pending_verification':
       case 'work_completion_approval':
         return preferences.emailPayment;
       case 'offer_approved':
@@ -682,6 +703,8 @@ export class NotificationService {
       case 'payment_dispute_resolved':
       case 'payment_refunded':
       case 'payment_failed_insufficient_funds':
+      case 'escrow_low_balance':
+      case 'conversion_pending_verification':
       case 'work_completion_approval':
         return preferences.pushPayment;
       default:
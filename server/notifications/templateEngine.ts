@@ -146,6 +146,8 @@ export function getTemplateSlugForNotificationType(type: string): string | null
     'payment_disputed': 'payment-disputed',
     'payment_dispute_resolved': 'payment-dispute-resolved',
     'payment_refunded': 'payment-refunded',
+    'escrow_low_balance': 'escrow-low-balance',
+    'conversion_pending_verification': 'conversion-pending-verification',
 
     // Offer templates
     'offer_approved': 'offer-approved',
@@ -257,6 +259,25 @@ export function getAvailableVariablesForTemplate(slug: string): Array<{
       { name: 'paymentId', description: 'Payment ID', example: 'pay_789' },
       { name: 'linkUrl', description: 'Link to payment details', example: '/payments/pay_789' },
     ],
+    'escrow-low-balance': [
+      { name: 'userName', description: 'Company contact name', example: 'Jane' },
+      { name: 'companyName', description: 'Company name', example: 'Acme Corp' },
+      { name: 'offerTitle', description: 'Offer title (offer reserves)', example: 'Summer Sale Campaign' },
+      { name: 'contractTitle', description: 'Contract title (retainer reserves)', example: 'Monthly SEO Package' },
+      { name: 'remainingAmount', description: 'Amount left in escrow', example: '$45.00' },
+      { name: 'amount', description: 'Amount the reserve could not cover', example: '$12.50' },
+      { name: 'linkUrl', description: 'Link to the company wallet', example: '/company/wallet' },
+    ],
+    'conversion-pending-verification': [
+      { name: 'userName', description: 'Company contact name', example: 'Jane' },
+      { name: 'companyName', description: 'Company name', example: 'Acme Corp' },
+      { name: 'offerTitle', description: 'Offer title', example: 'Summer Sale Campaign' },
+      { name: 'orderId', description: 'Order id reported with the conversion', example: 'ORD-10293' },
+      { name: 'amount', description: 'Commission waiting on verification', example: '$25.00' },
+      { name: 'fraudScore', description: 'Fraud score the conversion rules gave it (0-100)', example: '60' },
+      { name: 'reason', description: 'Why the conversion was held', example: 'Order id ORD-10293 matches order ord10293' },
+      { name: 'linkUrl', description: 'Link to the company conversions', example: '/company/dashboard' },
+    ],
     'payment-disputed': [
       { name: 'userName', description: 'Creator\'s name', example: 'John' },
       { name: 'offerTitle', description: 'Offer or contract title', example: 'Monthly SEO Package' },
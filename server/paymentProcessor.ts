@@ -1,6 +1,9 @@
 // Payment Processor Service
 // Handles actual money transfers to creators via various payment methods
 import { storage } from "./storage";
+import { getMissingTaxProfileFields } from "./taxProfiles";
+import { ledgerService } from "./ledgerService";
+import type { PaymentSetting, RetainerPayment } from "../shared/schema";
 import paypalSdk from '@paypal/payouts-sdk';
 import Stripe from 'stripe';
 
@@ -24,6 +27,19 @@ export interface PaymentResult {
   error?: string;
 }
 
+export interface BatchPayoutItem {
+  referenceId: string; // Payout run item ID
+  paymentId: string; // One of the item's payments (used to look up the creator for e-transfers)
+  paymentSetting: PaymentSetting;
+  amount: number;
+  description: string;
+}
+
+export interface BatchPayoutResult {
+  providerBatchId?: string;
+  results: Record<string, PaymentResult>; // Keyed by BatchPayoutItem.referenceId
+}
+
 /**
  * Check if payment sandbox mode is enabled
  * In sandbox mode, payment operations are simulated without calling real APIs
@@ -67,6 +83,11 @@ export class PaymentProcessorService {
         return { success: false, error: "Payment not found" };
       }
 
+      // Payments claimed by a payout run are only sent by that run (retry the run instead)
+      if (payment.payoutRunItemId) {
+        return { success: false, error: `Payment is part of payout run ${payment.payoutRunId}; retry the run instead` };
+      }
+
       // Get creator's payment settings to determine where to send money
       const paymentSettings = await storage.getPaymentSettings(payment.creatorId);
       if (!paymentSettings || paymentSettings.length === 0) {
@@ -78,24 +99,71 @@ export class PaymentProcessorService {
 
       // Use the default payment method (or first one if no default)
       const defaultPaymentMethod = paymentSettings.find(ps => ps.isDefault) || paymentSettings[0];
-      const amount = parseFloat(payment.netAmount);
+      const netAmount = parseFloat(payment.netAmount);
+
+      // Recover clawbacks from reversed conversions that were already paid out
+      const outstandingAdjustments = await storage.getOutstandingPayoutAdjustments(payment.creatorId, payment.currency);
+      const owed = outstandingAdjustments.reduce((sum, adj) => sum - parseFloat(adj.remainingAmount), 0);
+      const clawback = Math.round(Math.min(owed, netAmount) * 100) / 100;
+      const amount = Math.round((netAmount - clawback) * 100) / 100;
+
+      if (clawback > 0) {
+        console.log(`[Payment Processor] Offsetting ${clawback.toFixed(2)} ${payment.currency} of outstanding adjustments against payment ${payment.id}`);
+      }
+
+      const result: PaymentResult = amount <= 0
+        ? {
+            success: true,
+            transactionId: `offset_${payment.id}`,
+            providerResponse: { note: 'Payout fully offset by outstanding payout adjustments' },
+          }
+        : await this.sendPayout(defaultPaymentMethod, amount, payment.currency, payment.id, payment.description || 'Creator payout');
+
+      if (result.success && clawback > 0) {
+        const recovered = await storage.applyPayoutAdjustments(payment.creatorId, payment.currency, payment.id, clawback);
+        result.providerResponse = { ...result.providerResponse, adjustmentsRecovered: recovered, grossPayout: netAmount };
+      }
+
+      if (result.success) {
+        await ledgerService.recordPayout(payment.id, Math.max(amount, 0), result.transactionId);
+      }
+
+      return result;
+    } catch (error: any) {
+      console.error('[Payment Processor] Error processing payment:', error);
+      return { success: false, error: error.message };
+    }
+  }
 
+  /**
+   * Route a payout to the provider matching the creator's payment method
+   */
+  private async sendPayout(
+    defaultPaymentMethod: PaymentSetting,
+    amount: number,
+    currency: string,
+    paymentId: string,
+    description: string
+  ): Promise<PaymentResult> {
+    try {
       // Process payment based on method type
       switch (defaultPaymentMethod.payoutMethod) {
         case 'paypal':
           return await this.processPayPalPayout(
             defaultPaymentMethod.paypalEmail!,
             amount,
-            payment.id,
-            payment.description || 'Creator payout'
+            paymentId,
+            description,
+            currency
           );
 
         case 'etransfer':
           return await this.processETransfer(
             defaultPaymentMethod.payoutEmail!,
             amount,
-            payment.id,
-            payment.description || 'Creator payout'
+            paymentId,
+            description,
+            currency
           );
 
         case 'wire':
@@ -103,8 +171,9 @@ export class PaymentProcessorService {
             defaultPaymentMethod.bankRoutingNumber!,
             defaultPaymentMethod.bankAccountNumber!,
             amount,
-            payment.id,
-            payment.description || 'Creator payout'
+            paymentId,
+            description,
+            currency
           );
 
         case 'crypto':
@@ -112,7 +181,8 @@ export class PaymentProcessorService {
             defaultPaymentMethod.cryptoWalletAddress!,
             defaultPaymentMethod.cryptoNetwork!,
             amount,
-            payment.id
+            paymentId,
+            currency
           );
 
         default:
@@ -122,7 +192,7 @@ export class PaymentProcessorService {
           };
       }
     } catch (error: any) {
-      console.error('[Payment Processor] Error processing payment:', error);
+      console.error('[Payment Processor] Error sending payout:', error);
       return { success: false, error: error.message };
     }
   }
@@ -157,6 +227,26 @@ export class PaymentProcessorService {
       const defaultPaymentMethod = paymentSettings.find(ps => ps.isDefault) || paymentSettings[0];
       const amount = parseFloat(retainerPayment.netAmount);
 
+      const result = await this.sendRetainerPayout(defaultPaymentMethod, retainerPayment, amount);
+      if (result.success) {
+        await ledgerService.recordPayout(retainerPayment.id, amount, result.transactionId);
+      }
+      return result;
+    } catch (error: any) {
+      console.error('[Payment Processor] Error processing retainer payment:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Route a retainer payout to the provider matching the creator's payment method
+   */
+  private async sendRetainerPayout(
+    defaultPaymentMethod: PaymentSetting,
+    retainerPayment: RetainerPayment,
+    amount: number
+  ): Promise<PaymentResult> {
+    try {
       // Process payment based on method type
       switch (defaultPaymentMethod.payoutMethod) {
         case 'paypal':
@@ -212,10 +302,11 @@ export class PaymentProcessorService {
     paypalEmail: string,
     amount: number,
     paymentId: string,
-    description: string
+    description: string,
+    currency: string = 'USD'
   ): Promise<PaymentResult> {
     try {
-      console.log(`[PayPal Payout] Sending $${amount} to ${paypalEmail}`);
+      console.log(`[PayPal Payout] Sending ${amount} ${currency} to ${paypalEmail}`);
 
       // Get PayPal client
       let client: any;
@@ -235,13 +326,13 @@ export class PaymentProcessorService {
         sender_batch_header: {
           sender_batch_id: `batch_${paymentId}_${Date.now()}`, // Must be unique
           email_subject: 'You have received a payout!',
-          email_message: `You have received a payout from AffiliateXchange for $${amount.toFixed(2)}`
+          email_message: `You have received a payout from AffiliateXchange for ${amount.toFixed(2)} ${currency}`
         },
         items: [{
           recipient_type: 'EMAIL',
           amount: {
             value: amount.toFixed(2),
-            currency: 'USD'
+            currency
           },
           receiver: paypalEmail,
           note: description,
@@ -270,31 +361,7 @@ export class PaymentProcessorService {
         }
       };
     } catch (error: any) {
-      // Enhanced error handling for PayPal API errors
-      let errorMessage = error.message;
-      let errorDetails = '';
-
-      // Check for specific PayPal error types
-      if (error._originalError?.text) {
-        try {
-          const errorData = JSON.parse(error._originalError.text);
-          if (errorData.name === 'INSUFFICIENT_FUNDS') {
-            errorMessage = 'Insufficient funds in PayPal business account. Please add funds to your PayPal account and retry.';
-            errorDetails = `PayPal Error: ${errorData.name} - ${errorData.message}`;
-          } else if (errorData.message) {
-            errorMessage = errorData.message;
-            errorDetails = `PayPal Error: ${errorData.name || 'Unknown'} - ${errorData.message}`;
-          }
-        } catch (parseError) {
-          // Fallback to original error message
-          errorDetails = error.message;
-        }
-      } else if (error.statusCode) {
-        errorMessage = `PayPal API Error (${error.statusCode}): ${error.message}`;
-        errorDetails = errorMessage;
-      } else {
-        errorDetails = error.message;
-      }
+      const { errorMessage, errorDetails } = this.describePayPalError(error);
 
       // Log clean error message instead of full error object
       console.error('[PayPal Payout] Failed:', errorDetails);
@@ -302,6 +369,144 @@ export class PaymentProcessorService {
     }
   }
 
+  /**
+   * Turn a PayPal SDK error into a user-facing message and a log line
+   */
+  private describePayPalError(error: any): { errorMessage: string; errorDetails: string } {
+    // Enhanced error handling for PayPal API errors
+    let errorMessage = error.message;
+    let errorDetails = '';
+
+    // Check for specific PayPal error types
+    if (error._originalError?.text) {
+      try {
+        const errorData = JSON.parse(error._originalError.text);
+        if (errorData.name === 'INSUFFICIENT_FUNDS') {
+          errorMessage = 'Insufficient funds in PayPal business account. Please add funds to your PayPal account and retry.';
+          errorDetails = `PayPal Error: ${errorData.name} - ${errorData.message}`;
+        } else if (errorData.message) {
+          errorMessage = errorData.message;
+          errorDetails = `PayPal Error: ${errorData.name || 'Unknown'} - ${errorData.message}`;
+        }
+      } catch (parseError) {
+        // Fallback to original error message
+        errorDetails = error.message;
+      }
+    } else if (error.statusCode) {
+      errorMessage = `PayPal API Error (${error.statusCode}): ${error.message}`;
+      errorDetails = errorMessage;
+    } else {
+      errorDetails = error.message;
+    }
+
+    return { errorMessage, errorDetails };
+  }
+
+  /**
+   * Send one payout per item for a single payout method and currency.
+   * PayPal items go out as one Payouts batch; other methods have no batch API and are sent one by one.
+   * Results are keyed by item reference.
+   */
+  async sendBatchPayout(
+    payoutMethod: PaymentSetting['payoutMethod'],
+    currency: string,
+    items: BatchPayoutItem[],
+    batchRef: string
+  ): Promise<BatchPayoutResult> {
+    if (isSandboxMode()) {
+      console.log('[Payment Processor] 🏖️ SANDBOX MODE ENABLED - Payments will be simulated without real transactions');
+    }
+
+    if (payoutMethod === 'paypal') {
+      return await this.processPayPalBatchPayout(currency, items, batchRef);
+    }
+
+    const results: Record<string, PaymentResult> = {};
+    for (const item of items) {
+      results[item.referenceId] = await this.sendPayout(
+        item.paymentSetting,
+        item.amount,
+        currency,
+        item.paymentId,
+        item.description
+      );
+    }
+    return { results };
+  }
+
+  /**
+   * Process a PayPal payout batch with one item per creator
+   */
+  private async processPayPalBatchPayout(
+    currency: string,
+    items: BatchPayoutItem[],
+    batchRef: string
+  ): Promise<BatchPayoutResult> {
+    const failAll = (error: string): BatchPayoutResult => ({
+      results: Object.fromEntries(items.map((item) => [item.referenceId, { success: false, error }])),
+    });
+
+    try {
+      console.log(`[PayPal Batch] Sending ${items.length} payouts in ${currency} (batch ${batchRef})`);
+
+      let client: any;
+      try {
+        client = getPayPalClient();
+      } catch (e: any) {
+        console.error('[PayPal Batch] Failed to initialize PayPal client:', e?.message || e);
+        return failAll(`PayPal configuration error: ${e?.message || 'Unable to initialize PayPal client'}`);
+      }
+
+      const request = new paypalSdk.payouts.PayoutsPostRequest();
+      request.requestBody({
+        sender_batch_header: {
+          sender_batch_id: `run_${batchRef}_${Date.now()}`, // Must be unique
+          email_subject: 'You have received a payout!',
+          email_message: 'You have received a payout from AffiliateXchange'
+        },
+        items: items.map((item) => ({
+          recipient_type: 'EMAIL',
+          amount: {
+            value: item.amount.toFixed(2),
+            currency
+          },
+          receiver: item.paymentSetting.paypalEmail!,
+          note: item.description,
+          sender_item_id: item.referenceId
+        }))
+      });
+
+      const response = await client.execute(request);
+      const batchId = response.result.batch_header.payout_batch_id;
+
+      console.log(`[PayPal Batch] SUCCESS - Batch ID: ${batchId}`);
+      console.log(`[PayPal Batch] Status: ${response.result.batch_header.batch_status}`);
+
+      const results: Record<string, PaymentResult> = {};
+      for (const item of items) {
+        results[item.referenceId] = {
+          success: true,
+          transactionId: batchId,
+          providerResponse: {
+            batchId,
+            batchStatus: response.result.batch_header.batch_status,
+            method: 'paypal',
+            email: item.paymentSetting.paypalEmail,
+            amount: item.amount,
+            senderItemId: item.referenceId,
+            timestamp: new Date().toISOString()
+          }
+        };
+      }
+
+      return { providerBatchId: batchId, results };
+    } catch (error: any) {
+      const { errorMessage, errorDetails } = this.describePayPalError(error);
+      console.error('[PayPal Batch] Failed:', errorDetails);
+      return failAll(errorMessage);
+    }
+  }
+
   /**
    * Process E-Transfer (Interac e-Transfer for Canadian payments)
    * Uses Stripe Connect to transfer funds to creator's connected account
@@ -310,10 +515,11 @@ export class PaymentProcessorService {
     email: string,
     amount: number,
     paymentId: string,
-    description: string
+    description: string,
+    currency: string = 'CAD'
   ): Promise<PaymentResult> {
     try {
-      console.log(`[E-Transfer] Sending $${amount} CAD to ${email}`);
+      console.log(`[E-Transfer] Sending ${amount} ${currency} to ${email}`);
 
       // Get payment to find creator ID
       const payment = await storage.getPaymentOrRetainerPayment(paymentId);
@@ -388,11 +594,11 @@ export class PaymentProcessorService {
       }
 
       // Create transfer to connected account
-      console.log(`[E-Transfer] Creating transfer: $${amount} CAD to account ${eTransferSetting.stripeAccountId}`);
+      console.log(`[E-Transfer] Creating transfer: ${amount} ${currency} to account ${eTransferSetting.stripeAccountId}`);
       const transferResult = await stripeConnectService.createTransfer(
         eTransferSetting.stripeAccountId,
         amount,
-        'cad',
+        currency.toLowerCase(),
         description,
         {
           payment_id: paymentId,
@@ -454,16 +660,17 @@ export class PaymentProcessorService {
     accountNumber: string,
     amount: number,
     paymentId: string,
-    description: string
+    description: string,
+    currency: string = 'USD'
   ): Promise<PaymentResult> {
     try {
-      console.log(`[Bank Transfer] Sending $${amount} to account ending in ${accountNumber.slice(-4)}`);
+      console.log(`[Bank Transfer] Sending ${amount} ${currency} to account ending in ${accountNumber.slice(-4)}`);
 
       // In production, use Stripe Payouts API:
       // const stripe = require('stripe')(process.env.STRIPE_SECRET_KEY);
       // const payout = await stripe.payouts.create({
       //   amount: Math.round(amount * 100), // Stripe uses cents
-      //   currency: 'usd',
+      //   currency: currency.toLowerCase(),
       //   destination: bankAccountId, // You'd need to create/connect bank account first
       //   metadata: {
       //     payment_id: paymentId,
@@ -487,6 +694,7 @@ export class PaymentProcessorService {
           routingNumber: routingNumber,
           accountNumber: `****${accountNumber.slice(-4)}`,
           amount: amount,
+          currency: currency,
           timestamp: new Date().toISOString(),
           note: 'SIMULATED - In production, this would use Stripe Payouts or bank API'
         }
@@ -505,13 +713,14 @@ export class PaymentProcessorService {
     walletAddress: string,
     network: string,
     amount: number,
-    paymentId: string
+    paymentId: string,
+    currency: string = 'USD'
   ): Promise<PaymentResult> {
     try {
-      console.log(`[Crypto Payout] Sending $${amount} USD equivalent to ${walletAddress} on ${network}`);
+      console.log(`[Crypto Payout] Sending ${amount} ${currency} equivalent to ${walletAddress} on ${network}`);
 
       // In production, you would:
-      // 1. Convert USD amount to crypto amount based on current exchange rate
+      // 1. Convert the fiat amount (in `currency`) to crypto amount based on current exchange rate
       // 2. Use a crypto payment provider like Coinbase Commerce, BitPay, or direct blockchain interaction
       // 3. Send transaction to blockchain
       // 4. Wait for confirmation
@@ -525,7 +734,7 @@ export class PaymentProcessorService {
       //   description: `Payment ${paymentId}`,
       //   local_price: {
       //     amount: amount.toString(),
-      //     currency: 'USD'
+      //     currency: currency
       //   },
       //   pricing_type: 'fixed_price'
       // });
@@ -543,6 +752,7 @@ export class PaymentProcessorService {
           network: network,
           walletAddress: walletAddress,
           amount: amount,
+          currency: currency,
           txHash: mockTxHash,
           timestamp: new Date().toISOString(),
           note: 'SIMULATED - In production, this would send real crypto transaction'
@@ -569,6 +779,26 @@ export class PaymentProcessorService {
       };
     }
 
+    // Payouts are blocked until the creator's W-9 / W-8BEN tax profile is complete
+    const missingTaxFields = getMissingTaxProfileFields(await storage.getTaxProfile(creatorId));
+    if (missingTaxFields.length > 0) {
+      console.error(`[Validation] ERROR: Creator ${creatorId} tax profile incomplete: ${missingTaxFields.join(', ')}`);
+      return {
+        valid: false,
+        error: 'Tax profile incomplete. Creator must complete their W-9 / W-8BEN tax information in Settings > Payment Methods.'
+      };
+    }
+
+    // Payouts are held while the creator's fraud rate is over the threshold (or an admin has not lifted the hold)
+    const payoutHold = await storage.getActivePayoutHold(creatorId);
+    if (payoutHold) {
+      console.error(`[Validation] ERROR: Creator ${creatorId} payouts on hold: ${payoutHold.reason}`);
+      return {
+        valid: false,
+        error: 'Payouts are on hold pending fraud review of this creator\'s traffic.'
+      };
+    }
+
     const defaultMethod = paymentSettings.find(ps => ps.isDefault) || paymentSettings[0];
     console.log(`[Validation] Found ${paymentSettings.length} payment method(s), using: ${defaultMethod.payoutMethod}`);
 
@@ -0,0 +1,405 @@
+// Payout Run Scheduler
+// Aggregates approved creator earnings into batched payouts once they clear the minimum payout
+
+import { storage, type PayablePayment } from "./storage";
+import { paymentProcessor, type BatchPayoutItem } from "./paymentProcessor";
+import { convertAmount } from "./exchangeRates";
+import { ledgerService } from "./ledgerService";
+import type { Payment, PayoutRun, PayoutRunItem } from "../shared/schema";
+import type { NotificationService } from "./notifications/notificationService";
+
+// Platform minimum (USD) used when the admin has not set minimum_payout_threshold
+export const DEFAULT_MINIMUM_PAYOUT = 50;
+
+export interface PayoutRunBatchSummary {
+  payoutMethod: string;
+  currency: string;
+  providerBatchId: string | null;
+  itemCount: number;
+  totalAmount: string;
+  failedCount: number;
+  sentAt: string;
+}
+
+interface HeldEarnings {
+  creatorId: string;
+  currency: string;
+  amount: number;
+  reason: 'offer_minimum' | 'creator_minimum' | 'no_payment_method';
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Amounts in different currencies are never added together: totals are kept per currency
+function sumByCurrency(entries: Array<{ currency: string; amount: number }>): Record<string, string> {
+  const totals = new Map<string, number>();
+  for (const entry of entries) {
+    totals.set(entry.currency, (totals.get(entry.currency) || 0) + entry.amount);
+  }
+  const result: Record<string, string> = {};
+  for (const [currency, total] of Array.from(totals.entries())) {
+    result[currency] = round2(total).toFixed(2);
+  }
+  return result;
+}
+
+export class PayoutRunScheduler {
+  constructor(private notificationService: NotificationService) {}
+
+  /**
+   * Start a payout run over every approved payment not yet paid by a run.
+   * Earnings are held (left for a later run) until:
+   *  - the creator's earnings on an offer reach the offer's minimumPayout, and
+   *  - the creator's total in a currency reaches their own minimum (or the platform minimum)
+   */
+  async runPayouts(options: { trigger?: 'schedule' | 'manual'; triggeredBy?: string } = {}): Promise<PayoutRun> {
+    const inProgress = await storage.getProcessingPayoutRun();
+    if (inProgress) {
+      throw new Error(`Payout run ${inProgress.id} is still processing`);
+    }
+
+    const run = await storage.createPayoutRun({
+      trigger: options.trigger || 'schedule',
+      triggeredBy: options.triggeredBy || null,
+      status: 'processing',
+      startedAt: new Date(),
+    });
+
+    console.log(`[Payout Run] Starting run ${run.id} (${run.trigger})`);
+
+    try {
+      const payable = await storage.getPayablePayments();
+      const { eligible, held } = await this.applyThresholds(payable);
+
+      const items: PayoutRunItem[] = [];
+      for (const group of eligible) {
+        const grossAmount = round2(group.payments.reduce((sum, p) => sum + parseFloat(p.netAmount), 0));
+        items.push(await storage.createPayoutRunItem({
+          runId: run.id,
+          creatorId: group.creatorId,
+          paymentSettingId: group.paymentSettingId,
+          payoutMethod: group.payoutMethod,
+          currency: group.currency,
+          grossAmount: grossAmount.toFixed(2),
+          amount: grossAmount.toFixed(2),
+          paymentCount: group.payments.length,
+          status: 'pending',
+        }, group.payments.map((p) => p.id)));
+      }
+
+      await storage.updatePayoutRun(run.id, {
+        creatorCount: new Set(items.map((i) => i.creatorId)).size,
+        paymentCount: items.reduce((sum, i) => sum + i.paymentCount, 0),
+        heldCreatorCount: new Set(held.map((h) => h.creatorId)).size,
+        heldAmounts: sumByCurrency(held),
+      });
+
+      console.log(`[Payout Run] ${items.length} payouts queued, ${held.length} balances held below minimum`);
+
+      await this.sendItems(run.id, items);
+      return await this.finalizeRun(run.id);
+    } catch (error: any) {
+      console.error(`[Payout Run] Fatal error during run ${run.id}:`, error);
+      const failed = await storage.updatePayoutRun(run.id, {
+        status: 'failed',
+        errorMessage: error.message,
+        completedAt: new Date(),
+      });
+      return failed || run;
+    }
+  }
+
+  /**
+   * Resend every failed item of a run (e.g. after a creator fixes their payout method). Payments
+   * paid, refunded or disputed since the run failed are released from their item, not resent.
+   */
+  async retryRun(runId: string): Promise<PayoutRun> {
+    const run = await storage.getPayoutRun(runId);
+    if (!run) {
+      throw new Error('Payout run not found');
+    }
+    if (run.status === 'processing') {
+      throw new Error('Payout run is still processing');
+    }
+
+    const items = (await storage.getPayoutRunItems(runId)) as PayoutRunItem[];
+    const failed = items.filter((item) => item.status === 'failed');
+    if (failed.length === 0) {
+      return run;
+    }
+
+    console.log(`[Payout Run] Retrying ${failed.length} failed payouts in run ${runId}`);
+    await storage.updatePayoutRun(runId, { status: 'processing', errorMessage: null });
+    await this.sendItems(runId, failed);
+    return await this.finalizeRun(runId);
+  }
+
+  /**
+   * Split payable payments into per-creator, per-currency groups that clear their minimums
+   */
+  private async applyThresholds(payable: PayablePayment[]) {
+    const held: HeldEarnings[] = [];
+
+    // Offer minimum: compare the creator's earnings on the offer in the offer currency
+    const byOffer = new Map<string, PayablePayment[]>();
+    for (const row of payable) {
+      const key = `${row.payment.creatorId}:${row.payment.offerId}`;
+      byOffer.set(key, [...(byOffer.get(key) || []), row]);
+    }
+
+    const cleared: Payment[] = [];
+    for (const rows of Array.from(byOffer.values())) {
+      const minimum = parseFloat(rows[0].offerMinimumPayout || '0');
+      const earned = rows.reduce((sum, r) => sum + parseFloat(r.payment.sourceAmount || r.payment.grossAmount), 0);
+      if (minimum > 0 && earned < minimum) {
+        for (const r of rows) {
+          held.push({
+            creatorId: r.payment.creatorId,
+            currency: r.payment.currency,
+            amount: parseFloat(r.payment.netAmount),
+            reason: 'offer_minimum',
+          });
+        }
+        continue;
+      }
+      cleared.push(...rows.map((r) => r.payment));
+    }
+
+    // Creator minimum: compare the creator's total in each payout currency
+    const byCreator = new Map<string, Payment[]>();
+    for (const payment of cleared) {
+      const key = `${payment.creatorId}:${payment.currency}`;
+      byCreator.set(key, [...(byCreator.get(key) || []), payment]);
+    }
+
+    const platformSetting = await storage.getPlatformSetting('minimum_payout_threshold');
+    const platformMinimum = platformSetting ? parseFloat(platformSetting.value) : DEFAULT_MINIMUM_PAYOUT;
+
+    const eligible: Array<{
+      creatorId: string;
+      currency: string;
+      paymentSettingId: string;
+      payoutMethod: PayoutRunItem['payoutMethod'];
+      payments: Payment[];
+    }> = [];
+
+    for (const group of Array.from(byCreator.values())) {
+      const { creatorId, currency } = group[0];
+      const total = round2(group.reduce((sum, p) => sum + parseFloat(p.netAmount), 0));
+
+      const settings = await storage.getPaymentSettings(creatorId);
+      const defaultMethod = settings.find((s) => s.isDefault) || settings[0];
+      if (!defaultMethod) {
+        held.push({ creatorId, currency, amount: total, reason: 'no_payment_method' });
+        continue;
+      }
+
+      const minimum = defaultMethod.minimumPayout !== null && defaultMethod.minimumPayout !== undefined
+        ? parseFloat(defaultMethod.minimumPayout)
+        : (await convertAmount(platformMinimum, 'USD', currency)).amount;
+
+      if (total < minimum) {
+        held.push({ creatorId, currency, amount: total, reason: 'creator_minimum' });
+        continue;
+      }
+
+      eligible.push({
+        creatorId,
+        currency,
+        paymentSettingId: defaultMethod.id,
+        payoutMethod: defaultMethod.payoutMethod,
+        payments: group,
+      });
+    }
+
+    return { eligible, held };
+  }
+
+  /**
+   * Send items grouped into one batch per payout method and currency, then record each result
+   */
+  private async sendItems(runId: string, items: PayoutRunItem[]): Promise<void> {
+    const batches = new Map<string, Array<BatchPayoutItem & { item: PayoutRunItem; clawback: number }>>();
+    const owedByCreator = new Map<string, number>();
+
+    for (const item of items) {
+      // A retry only sends payments still approved and unpaid
+      const released = await storage.releaseSettledPayoutRunItemPayments(item.id);
+      if (released.length > 0) {
+        console.log(`[Payout Run] Released ${released.length} payment(s) settled outside run ${runId} from item ${item.id}`);
+      }
+      const payments = await storage.getPayoutRunItemPayments(item.id);
+      if (payments.length === 0) {
+        await storage.updatePayoutRunItem(item.id, { status: 'failed', error: 'No payments left on this payout' });
+        continue;
+      }
+
+      // Re-resolve the creator's payout method so retries pick up fixes
+      const validation = await paymentProcessor.validateCreatorPaymentSettings(item.creatorId);
+      const settings = await storage.getPaymentSettings(item.creatorId);
+      const paymentSetting = settings.find((s) => s.isDefault) || settings[0];
+      if (!validation.valid || !paymentSetting) {
+        await storage.updatePayoutRunItem(item.id, {
+          status: 'failed',
+          error: validation.error || 'No payment method configured',
+          attempts: item.attempts + 1,
+        });
+        continue;
+      }
+
+      // Recover clawbacks from reversed conversions that were already paid out, in the payout's currency
+      const owedKey = `${item.creatorId}:${item.currency}`;
+      if (!owedByCreator.has(owedKey)) {
+        const outstanding = await storage.getOutstandingPayoutAdjustments(item.creatorId, item.currency);
+        owedByCreator.set(owedKey, outstanding.reduce((sum, adj) => sum - parseFloat(adj.remainingAmount), 0));
+      }
+      const grossAmount = round2(payments.reduce((sum, p) => sum + parseFloat(p.netAmount), 0));
+      const owed = owedByCreator.get(owedKey) || 0;
+      const clawback = round2(Math.min(owed, grossAmount));
+      owedByCreator.set(owedKey, owed - clawback);
+
+      const amount = round2(grossAmount - clawback);
+      await storage.updatePayoutRunItem(item.id, {
+        paymentSettingId: paymentSetting.id,
+        payoutMethod: paymentSetting.payoutMethod,
+        grossAmount: grossAmount.toFixed(2),
+        clawbackAmount: clawback.toFixed(2),
+        amount: amount.toFixed(2),
+        paymentCount: payments.length,
+        status: 'pending',
+        error: null,
+      });
+
+      const batchItem = {
+        referenceId: item.id,
+        paymentId: payments[0].id,
+        paymentSetting,
+        amount,
+        description: `Creator payout (${payments.length} payment${payments.length === 1 ? '' : 's'})`,
+        item: { ...item, paymentCount: payments.length },
+        clawback,
+      };
+
+      if (amount <= 0) {
+        await this.recordItemResult(batchItem.item, clawback, amount, null, {
+          success: true,
+          transactionId: `offset_${item.id}`,
+          providerResponse: { note: 'Payout fully offset by outstanding payout adjustments' },
+        });
+        continue;
+      }
+
+      const key = `${paymentSetting.payoutMethod}:${item.currency}`;
+      batches.set(key, [...(batches.get(key) || []), batchItem]);
+    }
+
+    const run = await storage.getPayoutRun(runId);
+    const summaries: PayoutRunBatchSummary[] = Array.isArray(run?.batches) ? (run!.batches as PayoutRunBatchSummary[]) : [];
+
+    for (const [key, batchItems] of Array.from(batches.entries())) {
+      const [payoutMethod, currency] = key.split(':');
+      const result = await paymentProcessor.sendBatchPayout(
+        payoutMethod as PayoutRunItem['payoutMethod'],
+        currency,
+        batchItems,
+        `${runId.slice(0, 8)}_${payoutMethod}_${currency}`
+      );
+
+      let failedCount = 0;
+      for (const batchItem of batchItems) {
+        const itemResult = result.results[batchItem.referenceId] || { success: false, error: 'No result from provider' };
+        if (!itemResult.success) failedCount++;
+        await this.recordItemResult(batchItem.item, batchItem.clawback, batchItem.amount, result.providerBatchId || null, itemResult);
+      }
+
+      summaries.push({
+        payoutMethod,
+        currency,
+        providerBatchId: result.providerBatchId || null,
+        itemCount: batchItems.length,
+        totalAmount: round2(batchItems.reduce((sum, i) => sum + i.amount, 0)).toFixed(2),
+        failedCount,
+        sentAt: new Date().toISOString(),
+      });
+
+      console.log(`[Payout Run] Sent ${payoutMethod}/${currency} batch: ${batchItems.length - failedCount} ok, ${failedCount} failed`);
+    }
+
+    await storage.updatePayoutRun(runId, { batches: summaries });
+  }
+
+  private async recordItemResult(
+    item: PayoutRunItem,
+    clawback: number,
+    amount: number,
+    providerBatchId: string | null,
+    result: { success: boolean; transactionId?: string; providerResponse?: any; error?: string }
+  ): Promise<void> {
+    if (!result.success) {
+      await storage.updatePayoutRunItem(item.id, {
+        status: 'failed',
+        providerBatchId,
+        error: result.error || 'Payout failed',
+        attempts: item.attempts + 1,
+      });
+      return;
+    }
+
+    await storage.updatePayoutRunItem(item.id, {
+      status: 'completed',
+      providerBatchId,
+      providerTransactionId: result.transactionId,
+      providerResponse: result.providerResponse,
+      error: null,
+      attempts: item.attempts + 1,
+      completedAt: new Date(),
+    });
+    await storage.completePayoutRunItemPayments(item.id, {
+      providerTransactionId: result.transactionId,
+      providerResponse: { ...result.providerResponse, payoutRunItemId: item.id },
+    });
+
+    const payments = await storage.getPayoutRunItemPayments(item.id);
+    if (clawback > 0) {
+      await storage.applyPayoutAdjustments(item.creatorId, item.currency, payments[0].id, clawback);
+    }
+    await ledgerService.recordPayoutRunItem({ ...item, providerTransactionId: result.transactionId || null }, payments, amount);
+
+    try {
+      await this.notificationService.sendNotification(
+        item.creatorId,
+        'payment_received',
+        'Payout Sent',
+        `You've received a payout of ${amount.toFixed(2)} ${item.currency} covering ${item.paymentCount} approved payment${item.paymentCount === 1 ? '' : 's'}.`,
+        {
+          amount: `${amount.toFixed(2)} ${item.currency}`,
+          transactionId: result.transactionId,
+          linkUrl: '/creator/payment-settings',
+        }
+      );
+    } catch (error) {
+      console.error(`[Payout Run] Error notifying creator ${item.creatorId}:`, error);
+    }
+  }
+
+  /**
+   * Recompute run totals and status from its items
+   */
+  private async finalizeRun(runId: string): Promise<PayoutRun> {
+    const items = (await storage.getPayoutRunItems(runId)) as PayoutRunItem[];
+    const failedItemCount = items.filter((i) => i.status === 'failed').length;
+    const status = items.length > 0 && failedItemCount === items.length
+      ? 'failed'
+      : failedItemCount > 0 ? 'partially_failed' : 'completed';
+
+    const updated = await storage.updatePayoutRun(runId, {
+      status,
+      failedItemCount,
+      totalAmounts: sumByCurrency(items.map((i) => ({ currency: i.currency, amount: parseFloat(i.amount) }))),
+      completedAt: new Date(),
+    });
+
+    console.log(`[Payout Run] Run ${runId} finished: ${status} (${items.length - failedItemCount}/${items.length} payouts sent)`);
+    return updated!;
+  }
+}
@@ -3,11 +3,18 @@
 
 import { storage } from "./storage";
 import { paymentProcessor } from "./paymentProcessor";
+import { ledgerService } from "./ledgerService";
+import { WalletService } from "./walletService";
 import { calculateFees, formatFeePercentage, DEFAULT_PLATFORM_FEE_PERCENTAGE } from "./feeCalculator";
 import type { NotificationService } from "./notifications/notificationService";
 
 export class RetainerPaymentScheduler {
-  constructor(private notificationService: NotificationService) {}
+  private walletService: WalletService;
+
+  constructor(private notificationService: NotificationService) {
+    this.walletService = new WalletService(notificationService);
+  }
+
   /**
    * Process monthly retainer payments for all active contracts
    * This should be called on the 1st of each month via a cron job
@@ -152,6 +159,9 @@ export class RetainerPaymentScheduler {
       initiatedAt: new Date(),
     });
 
+    await ledgerService.recordAccrual(payment.id);
+    await this.walletService.drawForRetainerPayment(payment);
+
     const feeLabel = fees.isCustomFee ? `Custom ${formatFeePercentage(fees.platformFeePercentage)}` : formatFeePercentage(DEFAULT_PLATFORM_FEE_PERCENTAGE);
     console.log(`[Retainer Scheduler] Created payment ${payment.id} of $${fees.netAmount.toFixed(2)} (net) - Platform Fee: ${feeLabel}`);
 
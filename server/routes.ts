@@ -4,24 +4,41 @@ import { WebSocketServer, WebSocket } from "ws";
 import { parse as parseUrl } from "url";
 import { parse as parseCookie } from "cookie";
 import passport from "passport";
-import { storage } from "./storage";
+import { isIP } from "net";
+import { storage, type ReversedShare, type RecordConversionResult } from "./storage";
 import { setupAuth, isAuthenticated } from "./localAuth";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
 import { db } from "./db";
 import { offerVideos, applications, analytics, offers, companyProfiles, payments, retainerPayments, conversations, messages, bannedKeywords, contentFlags } from "../shared/schema";
 import { eq, sql } from "drizzle-orm";
 import { z } from "zod";
-import { checkClickFraud, logFraudDetection } from "./fraudDetection";
+import { checkClickFraud, getFraudStats, logFraudDetection } from "./fraudDetection";
+import {
+  dryRunFraudRules,
+  getActiveRuleSet,
+  invalidateFraudRuleCache,
+  listFraudListFiles,
+  validateFraudRule,
+  FRAUD_DRY_RUN_MAX_DAYS,
+  FRAUD_REVIEW_MIN_SCORE,
+} from "./fraudRules";
+import { fraudReviewService, FRAUD_RATE_WINDOW_DAYS } from "./fraudReviewService";
+import { isSupportedCurrency, normalizeCurrency, SUPPORTED_CURRENCIES } from "./exchangeRates";
 import {
   generatePostbackSignature,
   validatePostbackSignature,
   isTimestampValid,
-  generateConversionId,
   generateShortTrackingCode,
   generateCompanyApiKey,
   getTransparentPixel,
   generateTrackingSnippet,
   generatePostbackUrlExample,
+  isReversalEvent,
+  isPixelConversionEvent,
+  parsePixelAmount,
+  generateClickId,
+  appendClickIdToUrl,
+  DEFAULT_CLICK_ID_PARAM,
   type ConversionEventType,
 } from "./trackingService";
 import {
@@ -32,6 +49,50 @@ import { calculateFees, formatFeePercentage, DEFAULT_PLATFORM_FEE_PERCENTAGE, ST
 import { NotificationService } from "./notifications/notificationService";
 import bcrypt from "bcrypt";
 import { PriorityListingScheduler } from "./priorityListingScheduler";
+import { PayoutRunScheduler } from "./payoutRunScheduler";
+import { AnalyticsRollupScheduler, MAX_ROLLUP_ROWS, resolveRollupRange } from "./analyticsRollupScheduler";
+import { TaxFormScheduler, taxSummariesToCsv } from "./taxFormScheduler";
+import { prepareTaxProfileTin, toPublicTaxProfile } from "./taxProfiles";
+import { ledgerService } from "./ledgerService";
+import { WalletService, MIN_WALLET_TOP_UP } from "./walletService";
+import { findUnrecognizedGeoRestrictions, lookupCountry, renderGeoBlockedPage, resolveGeoRoute } from "./geoRouting";
+import { isUrlOnCompanyDomain, parseSubIdField, resolveSubIds } from "./deepLinks";
+import {
+  buildBrandedLink,
+  buildVanityLink,
+  checkLinkDomainDns,
+  checkVanitySlug,
+  generateLinkDomainToken,
+  getVerifiedLinkDomain,
+  invalidateLinkDomainCache,
+  isDomainOnCompanyWebsite,
+  isVanitySlugAvailable,
+  LINK_DOMAIN_TXT_PREFIX,
+  resolveTrackingCode,
+} from "./brandedLinks";
+import {
+  assertCanSendMessage,
+  ConversationContextError,
+  startConversation,
+  startOutreachConversation,
+} from "./conversationContexts";
+import { getCompanyMessageTemplates, MESSAGE_TEMPLATE_VARIABLES, recordMessageTemplateSend, renderMessageTemplate } from "./messageTemplates";
+import { BroadcastError, getPerformanceSegment, sendOfferBroadcast } from "./messageBroadcasts";
+import {
+  addMessagingClient,
+  getConversationParticipants,
+  isConversationParticipant,
+  markConversationRead,
+  publishNewMessage,
+  publishTyping,
+} from "./messagingSocket";
+import {
+  conversionLiveEvent,
+  countLiveConnections,
+  publishLiveEvent,
+  subscribeLiveAnalytics,
+  MAX_LIVE_CONNECTIONS_PER_USER,
+} from "./liveAnalytics";
 import * as QRCode from "qrcode";
 // @ts-ignore - multer may not have types in all environments
 import multer from "multer";
@@ -104,11 +165,21 @@ import {
   insertOfferVideoSchema,
   insertApplicationSchema,
   insertMessageSchema,
+  insertMessageTemplateSchema,
+  messageSearchQuerySchema,
+  messageBroadcastInputSchema,
+  BROADCAST_APPLICATION_STATUSES,
   insertReviewSchema,
   insertFavoriteSchema,
   insertSavedSearchSchema,
   savedSearchFiltersSchema,
   insertPaymentSettingSchema,
+  taxProfileInputSchema,
+  fraudRuleInputSchema,
+  deepLinkInputSchema,
+  vanitySlugSchema,
+  linkDomainInputSchema,
+  analyticsRollupQuerySchema,
   adminReviewUpdateSchema,
   adminNoteSchema,
   adminResponseSchema,
@@ -117,6 +188,8 @@ import {
   insertRetainerDeliverableSchema,
   insertBannedKeywordSchema,
   insertContentFlagSchema,
+  type Conversion,
+  type CompanyLinkDomain,
 } from "../shared/schema";
 import {
   checkContent,
@@ -146,6 +219,28 @@ import {
 // Alias for convenience
 const requireAuth = isAuthenticated;
 
+// Visitor IP for a tracking request (first X-Forwarded-For hop behind proxies/load balancers)
+function getClientIp(req: ExpressRequest): string {
+  let clientIp = 'unknown';
+  const forwardedFor = req.headers['x-forwarded-for'];
+  if (forwardedFor) {
+    // X-Forwarded-For can be comma-separated, take first (client) IP
+    const forwardedIpValue = Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor;
+    const ips = String(forwardedIpValue).split(',').map(ip => ip.trim());
+    clientIp = ips[0];
+  } else if (req.socket.remoteAddress) {
+    clientIp = req.socket.remoteAddress;
+  } else if (req.ip) {
+    clientIp = req.ip;
+  }
+
+  // Clean IPv6-mapped IPv4 addresses (::ffff:192.168.1.1 → 192.168.1.1)
+  if (clientIp.startsWith('::ffff:')) {
+    clientIp = clientIp.substring(7);
+  }
+  return clientIp;
+}
+
 // Middleware to ensure user has specific role
 function requireRole(...roles: string[]) {
   return (req: Request, res: any, next: any) => {
@@ -157,12 +252,84 @@ function requireRole(...roles: string[]) {
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // A company's verified link domain only serves tracking links, at the root: go.brand.com/<code>[/<linkCode>]
+  // is handled as /go/<code>[/<linkCode>], so it gets the same click logging and fraud checks
+  app.use(async (req, res, next) => {
+    try {
+      const linkDomain = await getVerifiedLinkDomain(req.hostname || '');
+      if (!linkDomain) return next();
+
+      const match = req.path.match(/^\/(?:go\/)?([^/]+)(?:\/([^/]+))?\/?$/);
+      if (req.method !== 'GET' || !match) {
+        return res.status(404).send("Tracking link not found");
+      }
+
+      const queryIndex = req.url.indexOf('?');
+      res.locals.linkDomain = linkDomain;
+      req.url = `/go/${match[1]}${match[2] ? `/${match[2]}` : ''}${queryIndex >= 0 ? req.url.slice(queryIndex) : ''}`;
+      next();
+    } catch (error) {
+      console.error('[Link Domain] Error:', error);
+      next();
+    }
+  });
+
   // Setup Local Auth
   await setupAuth(app);
 
   // Initialize notification service
   const notificationService = new NotificationService(storage);
 
+  // Company wallets and escrow reserves
+  const walletService = new WalletService(notificationService);
+
+  // Post the accruals for a newly recorded conversion, warn the company if its escrow ran low, queue
+  // suspicious conversions for fraud review and ask the company to verify held ones
+  const settleRecordedConversion = async (result: RecordConversionResult) => {
+    await ledgerService.recordAccruals(result.paymentIds);
+    if (result.escrowAlert) {
+      await walletService.notifyEscrowLow(result.escrowAlert);
+    }
+    if (result.conversion && !result.duplicate) {
+      await fraudReviewService.flagConversion(result.conversion, result.fraudReason);
+      if (result.held) {
+        await notifyConversionHeld(result.conversion, result.fraudReason);
+      }
+      const offer = await storage.getOffer(result.conversion.offerId);
+      publishLiveEvent(conversionLiveEvent(result.conversion, offer?.title || 'Offer'));
+    }
+  };
+
+  // Tell the company a conversion is waiting for it to approve or reject it
+  const notifyConversionHeld = async (conversion: Conversion, reason?: string) => {
+    try {
+      const [company, offer] = await Promise.all([
+        storage.getCompanyProfileById(conversion.companyId),
+        storage.getOffer(conversion.offerId),
+      ]);
+      if (!company) return;
+
+      await notificationService.sendNotification(
+        company.userId,
+        'conversion_pending_verification',
+        'Conversion Needs Verification',
+        `A ${conversion.currency} ${conversion.earnings} conversion on "${offer?.title || 'your offer'}"${conversion.orderId ? ` (order ${conversion.orderId})` : ''} was held by our fraud checks. Approve it to credit the creator, or reject it.`,
+        {
+          companyName: company.legalName,
+          offerId: conversion.offerId,
+          offerTitle: offer?.title,
+          conversionId: conversion.id,
+          orderId: conversion.orderId || undefined,
+          amount: `${conversion.earnings} ${conversion.currency}`,
+          fraudScore: conversion.fraudScore,
+          reason,
+        }
+      );
+    } catch (error) {
+      console.error(`[Conversion] Error notifying company about held conversion ${conversion.id}:`, error);
+    }
+  };
+
   // Initialize priority listing scheduler
   const priorityListingScheduler = new PriorityListingScheduler(notificationService);
 
@@ -179,6 +346,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }, 60000); // Check every minute
 
+  // Batch approved creator earnings into payouts daily at 3 AM
+  const payoutRunScheduler = new PayoutRunScheduler(notificationService);
+
+  setInterval(async () => {
+    const now = new Date();
+    if (now.getHours() === 3 && now.getMinutes() === 0) {
+      try {
+        await payoutRunScheduler.runPayouts({ trigger: 'schedule' });
+      } catch (error) {
+        console.error('[Payout Run Scheduler] Error running scheduled payout run:', error);
+      }
+    }
+  }, 60000); // Check every minute
+
+  // Build the previous year's tax summaries on January 1st at 4 AM
+  const taxFormScheduler = new TaxFormScheduler();
+
+  setInterval(async () => {
+    const now = new Date();
+    if (now.getMonth() === 0 && now.getDate() === 1 && now.getHours() === 4 && now.getMinutes() === 0) {
+      try {
+        await taxFormScheduler.generateAnnualSummaries(now.getFullYear() - 1);
+      } catch (error) {
+        console.error('[Tax Form Scheduler] Error generating annual tax summaries:', error);
+      }
+    }
+  }, 60000); // Check every minute
+
+  // Rebuild queued hourly analytics rollups every 5 minutes
+  const analyticsRollupScheduler = new AnalyticsRollupScheduler();
+
+  setInterval(async () => {
+    if (new Date().getMinutes() % 5 === 0) {
+      try {
+        await analyticsRollupScheduler.rollUpQueuedHours();
+      } catch (error) {
+        console.error('[Analytics Rollup Scheduler] Error rebuilding rollups:', error);
+      }
+    }
+  }, 60000); // Check every minute
+
   app.get("/api/documents/signed-url/:publicId(*)", requireAuth, async (req, res) => {
     try {
       const userId = (req.user as any)?.id;
@@ -1401,12 +1609,154 @@ export async function registerRoutes(app: Express): Promise<Server> {
         activeCreatorsCount,
         totalClicks: clickStats.totalClicks,
         uniqueClicks: clickStats.uniqueClicks,
+        geoBlockedClicks: clickStats.geoBlockedClicks,
       });
     } catch (error: any) {
       res.status(500).send(error.message);
     }
   });
 
+  /**
+   * Clicks on an offer per device type, OS and browser, for the company that owns it
+   * GET /api/offers/:id/device-breakdown?range=30d
+   */
+  app.get("/api/offers/:id/device-breakdown", requireAuth, requireRole('company', 'admin'), async (req, res) => {
+    try {
+      const user = req.user as any;
+      const offer = await storage.getOffer(req.params.id);
+      if (!offer) {
+        return res.status(404).json({ error: "Offer not found" });
+      }
+
+      if (user.role === 'company') {
+        const companyProfile = await storage.getCompanyProfile(user.id);
+        if (!companyProfile || offer.companyId !== companyProfile.id) {
+          return res.status(403).json({ error: "Unauthorized: You don't own this offer" });
+        }
+      }
+
+      const dateRange = (req.query.range as string) || '30d';
+      res.json(await storage.getClickDeviceBreakdown({ offerId: offer.id }, dateRange));
+    } catch (error: any) {
+      console.error('[Offer Device Breakdown] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Funnel of one offer (views -> applications -> approvals -> first click -> first conversion)
+   * GET /api/offers/:id/funnel
+   */
+  app.get("/api/offers/:id/funnel", requireAuth, requireRole('company', 'admin'), async (req, res) => {
+    try {
+      const user = req.user as any;
+      const offer = await storage.getOffer(req.params.id);
+      if (!offer) {
+        return res.status(404).json({ error: "Offer not found" });
+      }
+
+      if (user.role === 'company') {
+        const companyProfile = await storage.getCompanyProfile(user.id);
+        if (!companyProfile || offer.companyId !== companyProfile.id) {
+          return res.status(403).json({ error: "Unauthorized: You don't own this offer" });
+        }
+      }
+
+      const [funnel] = await storage.getOfferFunnels(offer.companyId, offer.id);
+      res.json(funnel);
+    } catch (error: any) {
+      console.error('[Offer Funnel] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Creators a broadcast could reach: approved-or-later applications per status and performance segment
+   * GET /api/offers/:id/broadcasts/audience
+   */
+  app.get("/api/offers/:id/broadcasts/audience", requireAuth, requireRole('company'), async (req, res) => {
+    try {
+      const user = req.user as any;
+      const offer = await storage.getOffer(req.params.id);
+      if (!offer) {
+        return res.status(404).json({ error: "Offer not found" });
+      }
+      const companyProfile = await storage.getCompanyProfile(user.id);
+      if (!companyProfile || offer.companyId !== companyProfile.id) {
+        return res.status(403).json({ error: "Unauthorized: You don't own this offer" });
+      }
+
+      const members = await storage.getOfferBroadcastAudience(offer.id, BROADCAST_APPLICATION_STATUSES);
+      res.json(members.map((member) => ({
+        applicationId: member.applicationId,
+        status: member.status,
+        segment: getPerformanceSegment(member),
+      })));
+    } catch (error: any) {
+      console.error('[Offer Broadcasts] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Past broadcasts of an offer with delivery and read counts, newest first
+   * GET /api/offers/:id/broadcasts
+   */
+  app.get("/api/offers/:id/broadcasts", requireAuth, requireRole('company', 'admin'), async (req, res) => {
+    try {
+      const user = req.user as any;
+      const offer = await storage.getOffer(req.params.id);
+      if (!offer) {
+        return res.status(404).json({ error: "Offer not found" });
+      }
+
+      if (user.role === 'company') {
+        const companyProfile = await storage.getCompanyProfile(user.id);
+        if (!companyProfile || offer.companyId !== companyProfile.id) {
+          return res.status(403).json({ error: "Unauthorized: You don't own this offer" });
+        }
+      }
+
+      res.json(await storage.getMessageBroadcastsWithStats(offer.id));
+    } catch (error: any) {
+      console.error('[Offer Broadcasts] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Send one message to the offer's creators matching the target. Answers 202 once the broadcast is
+   * recorded; messages are delivered in the background (poll GET /api/offers/:id/broadcasts for progress)
+   * POST /api/offers/:id/broadcasts
+   * Body: { content, statuses, segments }
+   */
+  app.post("/api/offers/:id/broadcasts", requireAuth, requireRole('company'), async (req, res) => {
+    try {
+      const user = req.user as any;
+      const offer = await storage.getOffer(req.params.id);
+      if (!offer) {
+        return res.status(404).json({ error: "Offer not found" });
+      }
+      const companyProfile = await storage.getCompanyProfile(user.id);
+      if (!companyProfile || offer.companyId !== companyProfile.id) {
+        return res.status(403).json({ error: "Unauthorized: You don't own this offer" });
+      }
+
+      const { content, statuses, segments } = messageBroadcastInputSchema.parse(req.body);
+      const broadcast = await sendOfferBroadcast(notificationService, user, offer, content, { statuses, segments });
+      res.status(202).json(broadcast);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0]?.message || "Invalid broadcast", details: error.errors });
+      }
+      if (error instanceof BroadcastError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('[Offer Broadcasts] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
   // Get reviews for an offer (public endpoint)
   app.get("/api/offers/:id/reviews", async (req, res) => {
     try {
@@ -1459,6 +1809,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         brandSafetyRequirements: validated.brandSafetyRequirements?.substring(0, 50),
       });
 
+      if (validated.currency && !SUPPORTED_CURRENCIES.includes(validated.currency)) {
+        return res.status(400).json({ error: `Unsupported currency. Must be one of: ${SUPPORTED_CURRENCIES.join(', ')}` });
+      }
+
+      const unrecognizedCountries = findUnrecognizedGeoRestrictions(validated.geographicRestrictions);
+      if (unrecognizedCountries.length > 0) {
+        return res.status(400).json({ error: `Unrecognized countries in geographic restrictions: ${unrecognizedCountries.join(', ')}. Use country names or 2-letter ISO codes.` });
+      }
+
       // Don't normalize featured image URLs - keep the full Cloudinary URL for proper display
       const featuredImagePath = validated.featuredImageUrl;
 
@@ -1502,6 +1861,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const validated = insertOfferSchema.partial().parse(req.body);
 
+      if (validated.currency && !SUPPORTED_CURRENCIES.includes(validated.currency)) {
+        return res.status(400).json({ error: `Unsupported currency. Must be one of: ${SUPPORTED_CURRENCIES.join(', ')}` });
+      }
+
+      const unrecognizedCountries = findUnrecognizedGeoRestrictions(validated.geographicRestrictions);
+      if (unrecognizedCountries.length > 0) {
+        return res.status(400).json({ error: `Unrecognized countries in geographic restrictions: ${unrecognizedCountries.join(', ')}. Use country names or 2-letter ISO codes.` });
+      }
+
       // Don't normalize featured image URLs - keep the full Cloudinary URL for proper display
       // No ACL normalization needed for Cloudinary URLs
 
@@ -2017,9 +2385,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Fetch offer and company details
       const offer = await storage.getOffer(application.offerId);
       const company = offer ? await storage.getCompanyProfileById(offer.companyId) : null;
+      const linkDomain = offer ? await storage.getLinkDomainByCompany(offer.companyId) : undefined;
 
       res.json({
         ...application,
+        vanityLink: buildVanityLink(application),
+        brandedLink: buildBrandedLink(linkDomain, application),
         offer: offer ? { ...offer, company } : null
       });
     } catch (error: any) {
@@ -2082,91 +2453,297 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/applications", requireAuth, requireRole('creator'), async (req, res) => {
+  /**
+   * Claim or change the vanity slug of an application's tracking link
+   * PUT /api/applications/:id/vanity-slug
+   * Body: { slug }
+   */
+  app.put("/api/applications/:id/vanity-slug", requireAuth, requireRole('creator'), async (req, res) => {
     try {
       const userId = (req.user as any).id;
-
-      // ACCOUNT TYPE RESTRICTION: Check if creator has at least one video platform
-      const creatorProfile = await storage.getCreatorProfile(userId);
-      const hasVideoPlatform = creatorProfile && (
-        creatorProfile.youtubeUrl ||
-        creatorProfile.tiktokUrl ||
-        creatorProfile.instagramUrl
-      );
-
-      if (!hasVideoPlatform) {
-        return res.status(400).json({
-          error: "Video platform required",
-          message: "You must add at least one video platform (YouTube, TikTok, or Instagram) to your profile before applying to offers. Please complete your profile setup first."
-        });
+      const application = await storage.getApplication(req.params.id);
+      if (!application) {
+        return res.status(404).send("Application not found");
       }
-
-      const validated = insertApplicationSchema.parse({
-        ...req.body,
-        creatorId: userId,
-        status: 'pending',
-      });
-
-      // 🆕 CHECK IF CREATOR HAS ALREADY APPLIED TO THIS OFFER
-      const existingApplication = await storage.getExistingApplication(userId, validated.offerId);
-      if (existingApplication) {
-        return res.status(400).json({
-          error: "You have already applied to this offer. Only one application per offer is allowed."
-        });
+      if (application.creatorId !== userId) {
+        return res.status(403).send("Unauthorized");
+      }
+      if ((application.status !== 'approved' && application.status !== 'active') || !application.trackingLink) {
+        return res.status(400).json({ error: "Vanity slugs are only available for approved applications with a tracking link" });
       }
 
-      const application = await storage.createApplication(validated);
-
-      // 🆕 GET OFFER, CREATOR, AND COMPANY INFO FOR NOTIFICATION
-      const offer = await storage.getOffer(application.offerId);
-      const creator = await storage.getUserById(application.creatorId);
-      
-      if (offer && creator) {
-        const company = await storage.getCompanyProfileById(offer.companyId);
-        
-        if (company) {
-          // 🆕 SEND NOTIFICATION TO COMPANY
-          await notificationService.sendNotification(
-            company.userId,
-            'new_application',
-            'New Application Received! 📩',
-            `${creator.firstName || creator.username} has applied to your offer "${offer.title}". Review their application now.`,
-            {
-              userName: company.contactName || 'there',
-              offerTitle: offer.title,
-              applicationId: application.id,
-            }
-          );
-          console.log(`[Notification] Sent new application notification to company ${company.legalName}`);
-        }
+      const slug = vanitySlugSchema.parse(req.body.slug);
+      const problem = await checkVanitySlug(slug);
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+      if (!(await isVanitySlugAvailable(slug, application.id))) {
+        return res.status(409).json({ error: `"${slug}" is already taken` });
       }
 
-      // Schedule auto-approval for 7 minutes later
-      const autoApprovalTime = new Date(Date.now() + 7 * 60 * 1000); // 7 minutes from now
-      await storage.setAutoApprovalTime(application.id, autoApprovalTime);
-      console.log(`[Auto-Approval] Scheduled auto-approval for application ${application.id} at ${autoApprovalTime.toISOString()}`);
+      const updated = await storage.setApplicationVanitySlug(application.id, slug);
+      const offer = await storage.getOffer(application.offerId);
+      const linkDomain = offer ? await storage.getLinkDomainByCompany(offer.companyId) : undefined;
 
-      res.json({ ...application, autoApprovalScheduledAt: autoApprovalTime });
+      res.json({
+        vanitySlug: updated?.vanitySlug ?? slug,
+        vanityLink: updated ? buildVanityLink(updated) : null,
+        brandedLink: updated ? buildBrandedLink(linkDomain, updated) : null,
+      });
     } catch (error: any) {
-      console.error('[POST /api/applications] Error:', error);
+      console.error('[PUT /api/applications/:id/vanity-slug] Error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0]?.message || "Invalid slug", details: error.errors });
+      }
+      // Unique index: another creator claimed the slug between the check and the update
+      if (error.code === '23505') {
+        return res.status(409).json({ error: "That slug is already taken" });
+      }
       res.status(500).send(error.message);
     }
   });
 
-  app.put("/api/applications/:id/approve", requireAuth, requireRole('company'), async (req, res) => {
+  /**
+   * Release an application's vanity slug. Links using it stop working; the tracking code link keeps working.
+   * DELETE /api/applications/:id/vanity-slug
+   */
+  app.delete("/api/applications/:id/vanity-slug", requireAuth, requireRole('creator'), async (req, res) => {
     try {
+      const userId = (req.user as any).id;
       const application = await storage.getApplication(req.params.id);
       if (!application) {
         return res.status(404).send("Application not found");
       }
+      if (application.creatorId !== userId) {
+        return res.status(403).send("Unauthorized");
+      }
 
-      // Generate tracking link and code (short 8-character alphanumeric code)
-      const trackingCode = generateShortTrackingCode();
-      const port = process.env.PORT || 3000;
-      const baseURL = process.env.BASE_URL || `http://localhost:${port}`;
-      const trackingLink = `${baseURL}/go/${trackingCode}`;
+      await storage.setApplicationVanitySlug(application.id, null);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('[DELETE /api/applications/:id/vanity-slug] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
 
-      const approved = await storage.approveApplication(
+  /**
+   * Deep links of an application's tracking link, with click and conversion counts
+   * GET /api/applications/:id/deep-links
+   */
+  app.get("/api/applications/:id/deep-links", requireAuth, requireRole('creator'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const application = await storage.getApplication(req.params.id);
+      if (!application) {
+        return res.status(404).send("Application not found");
+      }
+      if (application.creatorId !== userId) {
+        return res.status(403).send("Unauthorized");
+      }
+
+      const deepLinks = await storage.getDeepLinksByApplication(application.id);
+      res.json(deepLinks.map((deepLink) => ({
+        ...deepLink,
+        trackingLink: application.trackingLink ? `${application.trackingLink}/${deepLink.code}` : null,
+      })));
+    } catch (error: any) {
+      console.error('[GET /api/applications/:id/deep-links] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Create a deep link to a page on the company's verified website
+   * POST /api/applications/:id/deep-links
+   * Body: { destinationUrl, label?, sub1?..sub5? }
+   */
+  app.post("/api/applications/:id/deep-links", requireAuth, requireRole('creator'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const application = await storage.getApplication(req.params.id);
+      if (!application) {
+        return res.status(404).send("Application not found");
+      }
+      if (application.creatorId !== userId) {
+        return res.status(403).send("Unauthorized");
+      }
+      if ((application.status !== 'approved' && application.status !== 'active') || !application.trackingLink) {
+        return res.status(400).json({ error: "Deep links are only available for approved applications with a tracking link" });
+      }
+
+      const input = deepLinkInputSchema.parse(req.body);
+
+      const offer = await storage.getOffer(application.offerId);
+      const company = offer ? await storage.getCompanyProfileById(offer.companyId) : undefined;
+      if (!company?.websiteVerified || !company.websiteUrl) {
+        return res.status(400).json({ error: "This company hasn't verified its website yet, so deep links aren't available" });
+      }
+      if (!isUrlOnCompanyDomain(input.destinationUrl, company)) {
+        return res.status(400).json({ error: `Deep links must point to a page on ${company.websiteUrl}` });
+      }
+
+      const deepLink = await storage.createDeepLink({
+        applicationId: application.id,
+        code: generateShortTrackingCode(),
+        destinationUrl: input.destinationUrl,
+        label: input.label || null,
+        sub1: input.sub1 || null,
+        sub2: input.sub2 || null,
+        sub3: input.sub3 || null,
+        sub4: input.sub4 || null,
+        sub5: input.sub5 || null,
+      });
+
+      res.json({ ...deepLink, clicks: 0, conversions: 0, trackingLink: `${application.trackingLink}/${deepLink.code}` });
+    } catch (error: any) {
+      console.error('[POST /api/applications/:id/deep-links] Error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0]?.message || "Invalid deep link", details: error.errors });
+      }
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Delete a deep link. Past clicks and conversions keep their sub-ids.
+   * DELETE /api/applications/:id/deep-links/:linkId
+   */
+  app.delete("/api/applications/:id/deep-links/:linkId", requireAuth, requireRole('creator'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const application = await storage.getApplication(req.params.id);
+      if (!application) {
+        return res.status(404).send("Application not found");
+      }
+      if (application.creatorId !== userId) {
+        return res.status(403).send("Unauthorized");
+      }
+
+      const deepLink = await storage.getDeepLink(req.params.linkId);
+      if (!deepLink || deepLink.applicationId !== application.id) {
+        return res.status(404).json({ error: "Deep link not found" });
+      }
+
+      await storage.deleteDeepLink(deepLink.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('[DELETE /api/applications/:id/deep-links/:linkId] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Clicks, credited conversions and earnings per value of one sub-id
+   * GET /api/applications/:id/sub-ids?field=sub1
+   */
+  app.get("/api/applications/:id/sub-ids", requireAuth, requireRole('creator'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const application = await storage.getApplication(req.params.id);
+      if (!application) {
+        return res.status(404).send("Application not found");
+      }
+      if (application.creatorId !== userId) {
+        return res.status(403).send("Unauthorized");
+      }
+
+      const field = parseSubIdField(req.query.field);
+      if (!field) {
+        return res.status(400).json({ error: "field must be one of sub1, sub2, sub3, sub4, sub5" });
+      }
+
+      res.json({ field, rows: await storage.getSubIdBreakdown(application.id, field) });
+    } catch (error: any) {
+      console.error('[GET /api/applications/:id/sub-ids] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  app.post("/api/applications", requireAuth, requireRole('creator'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+
+      // ACCOUNT TYPE RESTRICTION: Check if creator has at least one video platform
+      const creatorProfile = await storage.getCreatorProfile(userId);
+      const hasVideoPlatform = creatorProfile && (
+        creatorProfile.youtubeUrl ||
+        creatorProfile.tiktokUrl ||
+        creatorProfile.instagramUrl
+      );
+
+      if (!hasVideoPlatform) {
+        return res.status(400).json({
+          error: "Video platform required",
+          message: "You must add at least one video platform (YouTube, TikTok, or Instagram) to your profile before applying to offers. Please complete your profile setup first."
+        });
+      }
+
+      const validated = insertApplicationSchema.parse({
+        ...req.body,
+        creatorId: userId,
+        status: 'pending',
+      });
+
+      // 🆕 CHECK IF CREATOR HAS ALREADY APPLIED TO THIS OFFER
+      const existingApplication = await storage.getExistingApplication(userId, validated.offerId);
+      if (existingApplication) {
+        return res.status(400).json({
+          error: "You have already applied to this offer. Only one application per offer is allowed."
+        });
+      }
+
+      const application = await storage.createApplication(validated);
+
+      // 🆕 GET OFFER, CREATOR, AND COMPANY INFO FOR NOTIFICATION
+      const offer = await storage.getOffer(application.offerId);
+      const creator = await storage.getUserById(application.creatorId);
+      
+      if (offer && creator) {
+        const company = await storage.getCompanyProfileById(offer.companyId);
+        
+        if (company) {
+          // 🆕 SEND NOTIFICATION TO COMPANY
+          await notificationService.sendNotification(
+            company.userId,
+            'new_application',
+            'New Application Received! 📩',
+            `${creator.firstName || creator.username} has applied to your offer "${offer.title}". Review their application now.`,
+            {
+              userName: company.contactName || 'there',
+              offerTitle: offer.title,
+              applicationId: application.id,
+            }
+          );
+          console.log(`[Notification] Sent new application notification to company ${company.legalName}`);
+        }
+      }
+
+      // Schedule auto-approval for 7 minutes later
+      const autoApprovalTime = new Date(Date.now() + 7 * 60 * 1000); // 7 minutes from now
+      await storage.setAutoApprovalTime(application.id, autoApprovalTime);
+      console.log(`[Auto-Approval] Scheduled auto-approval for application ${application.id} at ${autoApprovalTime.toISOString()}`);
+
+      res.json({ ...application, autoApprovalScheduledAt: autoApprovalTime });
+    } catch (error: any) {
+      console.error('[POST /api/applications] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  app.put("/api/applications/:id/approve", requireAuth, requireRole('company'), async (req, res) => {
+    try {
+      const application = await storage.getApplication(req.params.id);
+      if (!application) {
+        return res.status(404).send("Application not found");
+      }
+
+      // Generate tracking link and code (short 8-character alphanumeric code)
+      const trackingCode = generateShortTrackingCode();
+      const port = process.env.PORT || 3000;
+      const baseURL = process.env.BASE_URL || `http://localhost:${port}`;
+      const trackingLink = `${baseURL}/go/${trackingCode}`;
+
+      const approved = await storage.approveApplication(
         application.id,
         trackingLink,
         trackingCode
@@ -2321,6 +2898,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         description: `Payment for ${offer.title}`,
       });
 
+      await ledgerService.recordAccrual(payment.id, userId);
+
       const feeLabel = fees.isCustomFee ? `Custom ${formatFeePercentage(fees.platformFeePercentage)}` : formatFeePercentage(DEFAULT_PLATFORM_FEE_PERCENTAGE);
       console.log(`[Payment] Created payment ${payment.id} for application ${application.id} - Platform Fee: ${feeLabel}`);
 
@@ -2586,13 +3165,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Tracking & Redirect System
-  app.get("/go/:code", async (req, res) => {
+  // /go/:code/:linkCode is a deep link: same application, destination is a page on the company's website
+  app.get(["/go/:code", "/go/:code/:linkCode"], async (req, res) => {
     try {
       const trackingCode = req.params.code;
       console.log(`[Tracking] Received tracking code: ${trackingCode}`);
 
-      // Look up application by tracking code
-      const application = await storage.getApplicationByTrackingCode(trackingCode);
+      // Look up application by tracking code or vanity slug
+      const application = await resolveTrackingCode(trackingCode);
       if (!application) {
         console.error(`[Tracking] Application not found for tracking code: ${trackingCode}`);
         return res.status(404).send("Tracking link not found");
@@ -2606,24 +3186,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).send("Offer not found");
       }
 
-      // Extract client IP (normalize for proxies/load balancers)
-      let clientIp = 'unknown';
-      const forwardedFor = req.headers['x-forwarded-for'];
-      if (forwardedFor) {
-        // X-Forwarded-For can be comma-separated, take first (client) IP
-        const forwardedIpValue = Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor;
-        const ips = String(forwardedIpValue).split(',').map(ip => ip.trim());
-        clientIp = ips[0];
-      } else if (req.socket.remoteAddress) {
-        clientIp = req.socket.remoteAddress;
-      } else if (req.ip) {
-        clientIp = req.ip;
+      // A company's link domain only resolves links to its own offers
+      const linkDomain = res.locals.linkDomain as CompanyLinkDomain | undefined;
+      if (linkDomain && linkDomain.companyId !== offer.companyId) {
+        console.error(`[Tracking] Tracking code ${trackingCode} requested on ${linkDomain.domain}, which belongs to another company`);
+        return res.status(404).send("Tracking link not found");
       }
 
-      // Clean IPv6-mapped IPv4 addresses (::ffff:192.168.1.1 → 192.168.1.1)
-      if (clientIp.startsWith('::ffff:')) {
-        clientIp = clientIp.substring(7);
+      const linkCode = req.params.linkCode;
+      const deepLink = linkCode ? await storage.getDeepLinkByCode(application.id, linkCode) : undefined;
+      if (linkCode && !deepLink) {
+        console.error(`[Tracking] Deep link ${linkCode} not found for tracking code: ${trackingCode}`);
+        return res.status(404).send("Tracking link not found");
       }
+      const subIds = resolveSubIds(req.query as Record<string, unknown>, deepLink);
+
+      const clientIp = getClientIp(req);
 
       const userAgent = req.headers['user-agent'] || 'unknown';
       const refererRaw = req.headers['referer'] || req.headers['referrer'];
@@ -2644,31 +3222,88 @@ export async function registerRoutes(app: Express): Promise<Server> {
         logFraudDetection(trackingCode, clientIp, fraudCheck);
       }
 
+      // Honor the offer's geographic restrictions and per-country destinations
+      const geoRoute = resolveGeoRoute(offer, lookupCountry(clientIp));
+
+      // Mint a click id so the conversion can be tied back to this click (cookie window, latency).
+      // Geo-blocked clicks get none: they can't lead to an attributable conversion.
+      const clickId = geoRoute.blocked ? undefined : generateClickId();
+
       // Log the click asynchronously (don't block redirect)
       // Note: We still log even if fraud is detected, but mark it with fraud score
-      console.log(`[Tracking] Logging click for application ${application.id}, IP: ${clientIp}, fraud score: ${fraudCheck.fraudScore}`);
+      console.log(`[Tracking] Logging click ${clickId ?? '(geo-blocked)'} for application ${application.id}, IP: ${clientIp}, country: ${geoRoute.country ?? 'unknown'}, fraud score: ${fraudCheck.fraudScore}`);
       storage.logTrackingClick(application.id, {
+        clickId,
         ip: clientIp,
+        geoBlocked: geoRoute.blocked,
         userAgent,
         referer,
         timestamp: new Date(),
         fraudScore: fraudCheck.fraudScore,
+        fraudBlocked: !fraudCheck.isValid,
         fraudFlags: fraudCheck.flags.join(','),
+        fraudReason: fraudCheck.reason,
         utmSource,
         utmMedium,
         utmCampaign,
         utmTerm,
         utmContent,
-      }).then(() => {
+        deepLinkId: deepLink?.id,
+        subIds,
+      }).then(async () => {
         console.log(`[Tracking] Successfully logged click for application ${application.id}`);
+        publishLiveEvent({
+          type: 'click',
+          id: clickId ?? null,
+          applicationId: application.id,
+          offerId: offer.id,
+          offerTitle: offer.title,
+          creatorId: application.creatorId,
+          companyId: offer.companyId,
+          country: geoRoute.country,
+          fraudScore: fraudCheck.fraudScore,
+          fraudBlocked: !fraudCheck.isValid,
+          geoBlocked: geoRoute.blocked,
+          utmSource: utmSource || null,
+          utmMedium: utmMedium || null,
+          utmCampaign: utmCampaign || null,
+          sub1: subIds.sub1 || null,
+          timestamp: new Date().toISOString(),
+        });
+        // A flagged click can push the creator's fraud rate over the payout hold threshold
+        if (fraudCheck.fraudScore >= FRAUD_REVIEW_MIN_SCORE || !fraudCheck.isValid) {
+          await fraudReviewService.evaluateCreatorHold(application.creatorId);
+        }
       }).catch(err => {
         console.error('[Tracking] Error logging click:', err);
         console.error('[Tracking] Error stack:', err.stack);
       });
 
+      if (geoRoute.blocked) {
+        if (geoRoute.destinationUrl) {
+          return res.redirect(302, geoRoute.destinationUrl);
+        }
+        const acceptLanguage = req.headers['accept-language'];
+        return res
+          .status(403)
+          .type('html')
+          .send(renderGeoBlockedPage(offer.title, Array.isArray(acceptLanguage) ? acceptLanguage[0] : acceptLanguage));
+      }
+
+      // Deep links replace the (geo) destination, as long as the page is still on the company's verified website
+      let destinationUrl = geoRoute.destinationUrl!;
+      if (deepLink) {
+        const company = await storage.getCompanyProfileById(offer.companyId);
+        if (isUrlOnCompanyDomain(deepLink.destinationUrl, company)) {
+          destinationUrl = deepLink.destinationUrl;
+        } else {
+          console.warn(`[Tracking] Deep link ${deepLink.id} no longer points to the company's verified website, using the offer destination`);
+        }
+      }
+
       // Always redirect to maintain good UX
       // Even fraudulent clicks get redirected (but won't count toward analytics if fraud score > 50)
-      res.redirect(302, offer.productUrl);
+      res.redirect(302, appendClickIdToUrl(destinationUrl, clickId!, offer.clickIdParameter || DEFAULT_CLICK_ID_PARAM));
     } catch (error: any) {
       console.error('[Tracking] Error:', error);
       res.status(500).send("Internal server error");
@@ -2679,7 +3314,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/conversions/:applicationId", requireAuth, requireRole('company'), async (req, res) => {
     try {
       const { applicationId } = req.params;
-      const { saleAmount } = req.body;
+      const { saleAmount, orderId, clickId } = req.body;
 
       // Verify the application belongs to an offer owned by this company
       const application = await storage.getApplication(applicationId);
@@ -2699,11 +3334,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Record the conversion and calculate earnings
-      await storage.recordConversion(applicationId, saleAmount ? parseFloat(saleAmount) : undefined);
+      const result = await storage.recordConversion(
+        applicationId,
+        saleAmount ? parseFloat(saleAmount) : undefined,
+        { orderId, source: 'manual', rawPayload: req.body, clickId },
+      );
+      const { conversion, duplicate, rejectedReason } = result;
+
+      if (!conversion) {
+        return res.status(422).json({ error: rejectedReason || "Conversion could not be recorded for this offer's commission type" });
+      }
+
+      await settleRecordedConversion(result);
 
       res.json({
         success: true,
-        message: "Conversion recorded successfully"
+        duplicate,
+        conversionId: conversion.id,
+        status: conversion.status,
+        message: duplicate
+          ? "Conversion already recorded for this order ID"
+          : result.held
+            ? "Conversion recorded and held for verification"
+            : "Conversion recorded successfully"
       });
     } catch (error: any) {
       console.error('[Record Conversion] Error:', error);
@@ -2712,64 +3365,212 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Analytics routes
-  app.get("/api/analytics", requireAuth, async (req, res) => {
+  /**
+   * Live feed of clicks and conversions (server-sent events: "click" and "conversion"), scoped to
+   * the creator's applications, the company's offers, or everything for admins
+   * GET /api/analytics/live
+   */
+  app.get("/api/analytics/live", requireAuth, async (req, res) => {
     try {
       const user = req.user as any;
-      const userId = user.id;
-      const userRole = user.role;
-      const dateRange = (req.query.range as string) || '30d';
-      const applicationId = req.query.applicationId as string | undefined;
+      if (!['creator', 'company', 'admin'].includes(user.role)) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
 
-      // If applicationId is provided, return analytics for that specific application
-      if (applicationId) {
-        const application = await storage.getApplication(applicationId);
-        if (!application) {
-          return res.status(404).send("Application not found");
+      let companyId: string | null = null;
+      if (user.role === 'company') {
+        const companyProfile = await storage.getCompanyProfile(user.id);
+        if (!companyProfile) {
+          return res.status(404).json({ error: "Company profile not found" });
         }
+        companyId = companyProfile.id;
+      }
 
-        // Verify the user has access to this application
-        if (userRole === 'creator' && application.creatorId !== userId) {
-          return res.status(403).send("Access denied");
-        }
-        if (userRole === 'company') {
-          const offer = await storage.getOffer(application.offerId);
-          const companyProfile = await storage.getCompanyProfile(userId);
-          if (!offer || !companyProfile || offer.companyId !== companyProfile.id) {
-            return res.status(403).send("Access denied");
-          }
-        }
+      if (countLiveConnections(user.id) >= MAX_LIVE_CONNECTIONS_PER_USER) {
+        return res.status(429).json({ error: "Too many live analytics connections. Close another dashboard tab and try again." });
+      }
 
-        // Get analytics for this specific application
-        const appAnalytics = await storage.getAnalyticsByApplication(applicationId);
-        const offer = await storage.getOffer(application.offerId);
-        const companyProfile = offer ? await storage.getCompanyProfile(offer.companyId) : null;
+      const unsubscribe = subscribeLiveAnalytics(res, { userId: user.id, role: user.role, companyId });
+      req.on('close', unsubscribe);
+    } catch (error: any) {
+      console.error('[Live Analytics] Error:', error);
+      if (!res.headersSent) {
+        res.status(500).send(error.message);
+      }
+    }
+  });
 
-        // Calculate totals
-        const totals = appAnalytics && appAnalytics.length > 0
-          ? appAnalytics.reduce((acc: any, curr: any) => ({
-              clicks: acc.clicks + (Number(curr.clicks) || 0),
-              conversions: acc.conversions + (Number(curr.conversions) || 0),
-              earnings: acc.earnings + (Number(curr.earnings) || 0),
-            }), { clicks: 0, conversions: 0, earnings: 0 })
-          : { clicks: 0, conversions: 0, earnings: 0 };
+  /**
+   * Time series from the hourly analytics rollups, grouped by up to 3 dimensions
+   * GET /api/analytics/timeseries?granularity=day&groupBy=offer,country&from=...&to=...
+   * Filters: offerId, creatorId, applicationId, country, utmSource, device (companyId for admins)
+   * Creators only see their own applications and companies their own offers.
+   */
+  app.get("/api/analytics/timeseries", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const query = analyticsRollupQuerySchema.parse(req.query);
 
-        // Get time series data
-        const chartData = await storage.getAnalyticsTimeSeriesByApplication(applicationId, dateRange);
+      const range = resolveRollupRange(query);
+      if ('error' in range) {
+        return res.status(400).json({ error: range.error });
+      }
 
-        const stats = {
-          totalEarnings: totals.earnings,
-          totalClicks: totals.clicks,
-          uniqueClicks: totals.clicks, // TODO: Track unique clicks separately
-          conversions: totals.conversions,
-          conversionRate: totals.clicks > 0
-            ? ((totals.conversions / totals.clicks) * 100).toFixed(1)
-            : 0,
-          activeOffers: 1,
-          chartData: chartData,
-          offerTitle: offer?.title,
-          companyName: companyProfile?.legalName || companyProfile?.tradeName,
-          offerBreakdown: [], // Empty for single application view
-        };
+      let companyId = query.companyId;
+      let creatorId = query.creatorId;
+      if (user.role === 'company') {
+        const companyProfile = await storage.getCompanyProfile(user.id);
+        if (!companyProfile) {
+          return res.status(404).json({ error: "Company profile not found" });
+        }
+        companyId = companyProfile.id;
+      } else if (user.role === 'creator') {
+        companyId = undefined;
+        creatorId = user.id;
+      } else if (user.role !== 'admin') {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+
+      const rows = await storage.getAnalyticsRollupSeries(query.granularity, query.groupBy, {
+        from: range.from,
+        to: range.to,
+        companyId,
+        creatorId,
+        offerId: query.offerId,
+        applicationId: query.applicationId,
+        country: query.country,
+        utmSource: query.utmSource,
+        device: query.device,
+      }, MAX_ROLLUP_ROWS + 1);
+
+      res.json({
+        granularity: query.granularity,
+        groupBy: query.groupBy,
+        from: range.from,
+        to: range.to,
+        series: rows.slice(0, MAX_ROLLUP_ROWS),
+        truncated: rows.length > MAX_ROLLUP_ROWS,
+        // Hours waiting to be rolled up; recent numbers catch up within a few minutes
+        queuedHours: await storage.countQueuedAnalyticsRollupHours(),
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0]?.message || "Invalid time-series query", details: error.errors });
+      }
+      console.error('[Analytics Time Series] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Funnel of each of the company's offers
+   * GET /api/analytics/funnel?offerId=...
+   */
+  app.get("/api/analytics/funnel", requireAuth, requireRole('company'), async (req, res) => {
+    try {
+      const companyProfile = await storage.getCompanyProfile((req.user as any).id);
+      if (!companyProfile) {
+        return res.status(404).json({ error: "Company profile not found" });
+      }
+
+      const offerId = typeof req.query.offerId === 'string' && req.query.offerId ? req.query.offerId : undefined;
+      res.json(await storage.getOfferFunnels(companyProfile.id, offerId));
+    } catch (error: any) {
+      console.error('[Analytics Funnel] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Creator retention by approval-month cohort for the company's offers
+   * GET /api/analytics/cohorts?months=6&offerId=...
+   */
+  app.get("/api/analytics/cohorts", requireAuth, requireRole('company'), async (req, res) => {
+    try {
+      const companyProfile = await storage.getCompanyProfile((req.user as any).id);
+      if (!companyProfile) {
+        return res.status(404).json({ error: "Company profile not found" });
+      }
+
+      const { months, offerId } = z.object({
+        months: z.coerce.number().int().min(1).max(24).default(6),
+        offerId: z.string().optional(),
+      }).parse(req.query);
+
+      res.json({
+        months,
+        cohorts: await storage.getCreatorCohortRetention(companyProfile.id, { offerId, months }),
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0]?.message || "Invalid cohort query", details: error.errors });
+      }
+      console.error('[Analytics Cohorts] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  app.get("/api/analytics", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const userId = user.id;
+      const userRole = user.role;
+      const dateRange = (req.query.range as string) || '30d';
+      const applicationId = req.query.applicationId as string | undefined;
+
+      // If applicationId is provided, return analytics for that specific application
+      if (applicationId) {
+        const application = await storage.getApplication(applicationId);
+        if (!application) {
+          return res.status(404).send("Application not found");
+        }
+
+        // Verify the user has access to this application
+        if (userRole === 'creator' && application.creatorId !== userId) {
+          return res.status(403).send("Access denied");
+        }
+        if (userRole === 'company') {
+          const offer = await storage.getOffer(application.offerId);
+          const companyProfile = await storage.getCompanyProfile(userId);
+          if (!offer || !companyProfile || offer.companyId !== companyProfile.id) {
+            return res.status(403).send("Access denied");
+          }
+        }
+
+        // Get analytics for this specific application
+        const appAnalytics = await storage.getAnalyticsByApplication(applicationId);
+        const offer = await storage.getOffer(application.offerId);
+        const companyProfile = offer ? await storage.getCompanyProfile(offer.companyId) : null;
+
+        // Calculate totals (unique clicks are summed per day, like the offer click stats)
+        const totals = appAnalytics && appAnalytics.length > 0
+          ? appAnalytics.reduce((acc: any, curr: any) => ({
+              clicks: acc.clicks + (Number(curr.clicks) || 0),
+              uniqueClicks: acc.uniqueClicks + (Number(curr.uniqueClicks) || 0),
+              conversions: acc.conversions + (Number(curr.conversions) || 0),
+              earnings: acc.earnings + (Number(curr.earnings) || 0),
+            }), { clicks: 0, uniqueClicks: 0, conversions: 0, earnings: 0 })
+          : { clicks: 0, uniqueClicks: 0, conversions: 0, earnings: 0 };
+
+        // Get time series data
+        const chartData = await storage.getAnalyticsTimeSeriesByApplication(applicationId, dateRange);
+        const deviceBreakdown = await storage.getClickDeviceBreakdown({ applicationId }, dateRange);
+
+        const stats = {
+          totalEarnings: totals.earnings,
+          totalClicks: totals.clicks,
+          uniqueClicks: totals.uniqueClicks,
+          conversions: totals.conversions,
+          conversionRate: totals.clicks > 0
+            ? ((totals.conversions / totals.clicks) * 100).toFixed(1)
+            : 0,
+          activeOffers: 1,
+          chartData: chartData,
+          offerTitle: offer?.title,
+          companyName: companyProfile?.legalName || companyProfile?.tradeName,
+          offerBreakdown: [], // Empty for single application view
+          deviceBreakdown,
+        };
 
         return res.json(stats);
       }
@@ -2795,6 +3596,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Get offer breakdown for company
         const companyProfile = await storage.getCompanyProfile(userId);
         const offerBreakdown: any[] = [];
+        const clickToConversion = companyProfile
+          ? await storage.getClickToConversionStats({ companyId: companyProfile.id })
+          : null;
+        const deviceBreakdown = companyProfile
+          ? await storage.getClickDeviceBreakdown({ companyId: companyProfile.id }, dateRange)
+          : null;
 
         if (companyProfile) {
           const companyOffers = await storage.getOffersByCompany(companyProfile.id);
@@ -2803,6 +3610,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             const offerApplications = await storage.getApplicationsByOffer(offer.id);
 
             let offerClicks = 0;
+            let offerGeoBlocked = 0;
             let offerConversions = 0;
             let offerSpent = 0;
 
@@ -2811,22 +3619,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
               if (appAnalytics && appAnalytics.length > 0) {
                 const totals = appAnalytics.reduce((acc: any, curr: any) => ({
                   clicks: acc.clicks + (Number(curr.clicks) || 0),
+                  geoBlocked: acc.geoBlocked + (Number(curr.geoBlockedClicks) || 0),
                   conversions: acc.conversions + (Number(curr.conversions) || 0),
                   earnings: acc.earnings + (Number(curr.earnings) || 0),
-                }), { clicks: 0, conversions: 0, earnings: 0 });
+                }), { clicks: 0, geoBlocked: 0, conversions: 0, earnings: 0 });
 
                 offerClicks += totals.clicks;
+                offerGeoBlocked += totals.geoBlocked;
                 offerConversions += totals.conversions;
                 offerSpent += totals.earnings;
               }
             }
 
-            if (offerClicks > 0 || offerConversions > 0 || offerSpent > 0) {
+            if (offerClicks > 0 || offerGeoBlocked > 0 || offerConversions > 0 || offerSpent > 0) {
               offerBreakdown.push({
                 offerId: offer.id,
                 offerTitle: offer.title,
                 companyName: companyProfile.legalName || companyProfile.tradeName || 'Unknown Company',
                 clicks: offerClicks,
+                geoBlockedClicks: offerGeoBlocked,
                 conversions: offerConversions,
                 earnings: offerSpent,
               });
@@ -2843,6 +3654,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           activeCreators: analyticsData?.activeCreators || 0,
           totalClicks: analyticsData?.totalClicks || 0,
           uniqueClicks: analyticsData?.uniqueClicks || 0,
+          geoBlockedClicks: analyticsData?.geoBlockedClicks || 0,
           conversions: analyticsData?.conversions || 0,
           conversionRate: analyticsData?.totalClicks > 0
             ? ((analyticsData?.conversions || 0) / analyticsData.totalClicks * 100).toFixed(1)
@@ -2853,6 +3665,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           conversionFunnel,
           acquisitionSources,
           geography,
+          clickToConversion,
+          deviceBreakdown,
         };
 
         res.json(stats);
@@ -2861,6 +3675,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const analyticsData = await storage.getAnalyticsByCreator(userId);
         const applications = await storage.getApplicationsByCreator(userId);
         const chartData = await storage.getAnalyticsTimeSeriesByCreator(userId, dateRange);
+        const clickToConversion = await storage.getClickToConversionStats({ creatorId: userId });
+        const deviceBreakdown = await storage.getClickDeviceBreakdown({ creatorId: userId }, dateRange);
 
         // Get offer breakdown for creator
         const offerBreakdown: any[] = [];
@@ -2905,6 +3721,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
             : 0,
           chartData: chartData,
           offerBreakdown: offerBreakdown,
+          clickToConversion,
+          deviceBreakdown,
         };
 
         res.json(stats);
@@ -2975,6 +3793,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  /**
+   * Full-text search over the messages of the user's conversations, newest first, skipping messages
+   * they deleted for themselves. counterpartyId is the creator's user id for companies and the
+   * company profile id for creators.
+   * GET /api/messages/search?q=&offerId=&counterpartyId=&from=&to=&hasAttachment=&limit=&offset=
+   */
+  app.get("/api/messages/search", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const { q, offerId, counterpartyId, from, to, hasAttachment, limit, offset } = messageSearchQuerySchema.parse(req.query);
+
+      let companyProfileId: string | null = null;
+      if (user.role === 'company') {
+        const companyProfile = await storage.getCompanyProfile(user.id);
+        if (!companyProfile) {
+          return res.status(404).json({ error: "Company profile not found" });
+        }
+        companyProfileId = companyProfile.id;
+      }
+
+      const search = await storage.searchMessages(
+        { userId: user.id, role: user.role === 'company' ? 'company' : 'creator', companyProfileId },
+        {
+          query: q,
+          offerId,
+          creatorId: user.role === 'company' ? counterpartyId : undefined,
+          companyId: user.role === 'company' ? undefined : counterpartyId,
+          from,
+          to,
+          hasAttachment,
+          limit,
+          offset,
+        },
+      );
+      res.json(search);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0]?.message || "Invalid search", details: error.errors });
+      }
+      console.error('[Message Search] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
   app.get("/api/messages/:conversationId", requireAuth, async (req, res) => {
     try {
       const userId = (req.user as any).id;
@@ -2991,6 +3853,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  /**
+   * Mark the other participant's messages in a conversation as read (clients use the socket's
+   * mark_read while connected and this while polling)
+   * POST /api/conversations/:id/read
+   */
+  app.post("/api/conversations/:id/read", requireAuth, async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      const participants = await getConversationParticipants(conversation);
+      if (!isConversationParticipant(participants, userId)) {
+        return res.status(403).json({ error: "You are not part of this conversation" });
+      }
+
+      const receipt = await markConversationRead(conversation.id, userId, participants);
+      res.json(receipt);
+    } catch (error: any) {
+      console.error('[POST /api/conversations/:id/read] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
   app.post("/api/messages", requireAuth, async (req, res) => {
     try {
       const userId = (req.user as any).id;
@@ -2999,6 +3887,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         senderId: userId,
       });
 
+      const targetConversation = await storage.getConversation(validated.conversationId);
+      if (!targetConversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      await assertCanSendMessage(targetConversation, userId, validated.content);
+
       const message = await storage.createMessage(validated);
 
       // Send persistent notification to recipient about new message
@@ -3054,8 +3948,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Don't fail the message creation if moderation fails
       }
 
+      await publishNewMessage(message);
+      await recordMessageTemplateSend(req.body.templateId, targetConversation, userId);
+
       res.json(message);
     } catch (error: any) {
+      if (error instanceof ConversationContextError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error('[POST /api/messages] Error:', error);
       res.status(500).send(error.message);
     }
@@ -3209,63 +4109,196 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get or create conversation for an application
+  // Get or create the conversation for an application, retainer application or retainer contract
+  // Body: { applicationId } | { retainerApplicationId } | { retainerContractId }
   app.post("/api/conversations/start", requireAuth, async (req, res) => {
+    try {
+      const { applicationId, retainerApplicationId, retainerContractId } = req.body;
+      const conversation = await startConversation(req.user as any, { applicationId, retainerApplicationId, retainerContractId });
+      res.json({ conversationId: conversation.id });
+    } catch (error: any) {
+      if (error instanceof ConversationContextError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error starting conversation:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Company outreach to a creator who hasn't applied, optionally about an offer or retainer contract.
+   * Rate-limited and moderated before delivery (see server/conversationContexts.ts).
+   * POST /api/conversations/outreach
+   * Body: { creatorId, content, offerId?, retainerContractId? }
+   */
+  app.post("/api/conversations/outreach", requireAuth, requireRole('company'), async (req, res) => {
     try {
       const userId = (req.user as any).id;
-      const { applicationId } = req.body;
+      const { creatorId, content, offerId, retainerContractId } = z.object({
+        creatorId: z.string().min(1, "creatorId is required"),
+        content: z.string().trim().min(1, "Message cannot be empty").max(5000, "Message must be less than 5000 characters"),
+        offerId: z.string().optional(),
+        retainerContractId: z.string().optional(),
+      }).parse(req.body);
+
+      const conversation = await startOutreachConversation(userId, creatorId, { offerId, retainerContractId });
+      await assertCanSendMessage(conversation, userId, content);
 
-      if (!applicationId) {
-        return res.status(400).json({ error: "applicationId is required" });
+      const message = await storage.createMessage({ conversationId: conversation.id, senderId: userId, content });
+
+      try {
+        await moderateMessage(message.id, storage);
+      } catch (moderationError) {
+        console.error('[Moderation] Error auto-moderating message:', moderationError);
       }
 
-      // Get the application
-      const application = await storage.getApplication(applicationId);
-      if (!application) {
-        return res.status(404).json({ error: "Application not found" });
+      await publishNewMessage(message);
+
+      const companyProfile = await storage.getCompanyProfile(userId);
+      const companyName = companyProfile?.tradeName || companyProfile?.legalName || 'A company';
+      const messagePreview = content.length > 100 ? content.substring(0, 100) + '...' : content;
+      await notificationService.sendNotification(
+        creatorId,
+        'new_message',
+        `New message from ${companyName}`,
+        messagePreview,
+        {
+          userName: companyName,
+          companyName,
+          messagePreview,
+          conversationId: conversation.id,
+          messageId: message.id,
+          linkUrl: `/messages/${conversation.id}`,
+        }
+      );
+
+      res.status(201).json({ conversationId: conversation.id, message });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0]?.message || "Invalid outreach message", details: error.errors });
       }
+      if (error instanceof ConversationContextError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('[Conversation Outreach] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
 
-      // Get user role and company profile
-      const user = req.user as any;
-      let companyId: string | null = null;
-      let companyProfileId: string | null = null;
+  /**
+   * Saved reply templates shared by the company's team, most used first
+   * GET /api/company/message-templates
+   */
+  app.get("/api/company/message-templates", requireAuth, requireRole('company'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const companyProfile = await storage.getCompanyProfile(userId);
+      if (!companyProfile) {
+        return res.status(404).json({ error: "Company profile not found" });
+      }
 
-      if (user.role === 'company') {
-        const companyProfile = await storage.getCompanyProfile(userId);
-        companyId = companyProfile?.id || null;
-        companyProfileId = companyProfile?.id || null;
-      } else {
-        // If creator, get company from offer
-        const offer = await storage.getOffer(application.offerId);
-        companyId = offer?.companyId || null;
+      const templates = await getCompanyMessageTemplates(companyProfile.id, userId);
+      res.json({ templates, variables: MESSAGE_TEMPLATE_VARIABLES });
+    } catch (error: any) {
+      console.error('[Message Templates] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * POST /api/company/message-templates
+   * Body: { title, content }
+   */
+  app.post("/api/company/message-templates", requireAuth, requireRole('company'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const companyProfile = await storage.getCompanyProfile(userId);
+      if (!companyProfile) {
+        return res.status(404).json({ error: "Company profile not found" });
       }
 
-      if (!companyId) {
-        return res.status(400).json({ error: "Could not determine company" });
+      const validated = insertMessageTemplateSchema.parse(req.body);
+      const [template] = await storage.createMessageTemplates(companyProfile.id, [validated], userId);
+      res.status(201).json(template);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0]?.message || "Invalid template", details: error.errors });
       }
+      console.error('[Message Templates] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
 
-      // Find existing conversation for this application
-      const existingConversations = await storage.getConversationsByUser(userId, user.role, companyProfileId);
-      const existingConversation = existingConversations.find(
-        (c: any) => c.applicationId === applicationId
-      );
+  /**
+   * PUT /api/company/message-templates/:id
+   * Body: { title?, content? }
+   */
+  app.put("/api/company/message-templates/:id", requireAuth, requireRole('company'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const companyProfile = await storage.getCompanyProfile(userId);
+      const template = await storage.getMessageTemplate(req.params.id);
+      if (!companyProfile || !template || template.companyId !== companyProfile.id) {
+        return res.status(404).json({ error: "Template not found" });
+      }
 
-      if (existingConversation) {
-        return res.json({ conversationId: existingConversation.id });
+      const updates = insertMessageTemplateSchema.partial().parse(req.body);
+      const updated = await storage.updateMessageTemplate(template.id, updates, userId);
+      res.json(updated);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0]?.message || "Invalid template", details: error.errors });
       }
+      console.error('[Message Templates] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
 
-      // Create new conversation
-      const conversation = await storage.createConversation({
-        applicationId,
-        creatorId: application.creatorId,
-        companyId,
-        offerId: application.offerId,
-        lastMessageAt: new Date(),
-      });
+  /**
+   * DELETE /api/company/message-templates/:id
+   */
+  app.delete("/api/company/message-templates/:id", requireAuth, requireRole('company'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const companyProfile = await storage.getCompanyProfile(userId);
+      const template = await storage.getMessageTemplate(req.params.id);
+      if (!companyProfile || !template || template.companyId !== companyProfile.id) {
+        return res.status(404).json({ error: "Template not found" });
+      }
 
-      res.json({ conversationId: conversation.id });
+      await storage.deleteMessageTemplate(template.id);
+      res.json({ success: true });
     } catch (error: any) {
-      console.error('Error starting conversation:', error);
+      console.error('[Message Templates] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Fill a saved template's {{variables}} from a conversation for the composer. The use is counted
+   * when the message is sent with the template's id.
+   * POST /api/conversations/:id/message-templates/:templateId/render
+   */
+  app.post("/api/conversations/:id/message-templates/:templateId/render", requireAuth, requireRole('company'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const companyProfile = await storage.getCompanyProfile(userId);
+      if (!companyProfile) {
+        return res.status(404).json({ error: "Company profile not found" });
+      }
+
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || conversation.companyId !== companyProfile.id) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      const template = await storage.getMessageTemplate(req.params.templateId);
+      if (!template || template.companyId !== companyProfile.id) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+
+      res.json(await renderMessageTemplate(template, conversation));
+    } catch (error: any) {
+      console.error('[Message Templates] Error:', error);
       res.status(500).send(error.message);
     }
   });
@@ -3399,6 +4432,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = (req.user as any).id;
       const validated = insertPaymentSettingSchema.parse({
         ...req.body,
+        // Payouts are computed in this currency; e-transfers settle in CAD unless told otherwise
+        payoutCurrency: normalizeCurrency(req.body.payoutCurrency, req.body.payoutMethod === 'etransfer' ? 'CAD' : 'USD'),
         userId,
       });
 
@@ -3481,7 +4516,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = (req.user as any).id;
       const paymentMethodId = req.params.id;
-      const { stripeAccountId } = req.body;
+      const { stripeAccountId, payoutCurrency, minimumPayout } = req.body;
 
       // Get all payment settings for the user
       const allSettings = await storage.getPaymentSettings(userId);
@@ -3498,8 +4533,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).send("Unauthorized");
       }
 
-      // Update the payment setting with stripeAccountId
-      await storage.updatePaymentSetting(paymentMethodId, { stripeAccountId });
+      if (minimumPayout !== undefined && minimumPayout !== null && minimumPayout !== '' &&
+        (isNaN(Number(minimumPayout)) || Number(minimumPayout) < 0)) {
+        return res.status(400).send("Minimum payout must be a non-negative amount");
+      }
+
+      // Update the payment setting with stripeAccountId, payout currency and/or minimum payout
+      await storage.updatePaymentSetting(paymentMethodId, {
+        ...(stripeAccountId !== undefined ? { stripeAccountId } : {}),
+        ...(payoutCurrency ? { payoutCurrency: normalizeCurrency(payoutCurrency, settingToUpdate.payoutCurrency) } : {}),
+        // Empty/null clears the creator's own threshold so the platform minimum applies
+        ...(minimumPayout !== undefined
+          ? { minimumPayout: minimumPayout === null || minimumPayout === '' ? null : Number(minimumPayout).toFixed(2) }
+          : {}),
+      });
 
       res.json({ success: true, message: "Payment method updated successfully" });
     } catch (error: any) {
@@ -3507,7 +4554,117 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Stripe Connect routes for e-transfer setup
+  /**
+   * Get the current user's tax profile (TIN is never returned, only its last 4 digits)
+   * GET /api/tax-profile
+   */
+  app.get("/api/tax-profile", requireAuth, async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const profile = await storage.getTaxProfile(userId);
+      res.json(profile ? toPublicTaxProfile(profile) : null);
+    } catch (error: any) {
+      console.error('[Tax Profile] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Submit or update the current user's W-9 / W-8BEN tax profile
+   * PUT /api/tax-profile
+   */
+  app.put("/api/tax-profile", requireAuth, async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const input = taxProfileInputSchema.parse(req.body);
+      const existing = await storage.getTaxProfile(userId);
+
+      const tin = prepareTaxProfileTin(input, existing);
+      if ('error' in tin) {
+        return res.status(400).json({ error: tin.error });
+      }
+
+      const isW9 = input.formType === 'w9';
+      const profile = await storage.upsertTaxProfile({
+        userId,
+        formType: input.formType,
+        legalName: input.legalName,
+        businessName: input.businessName || null,
+        taxClassification: isW9 ? input.taxClassification || null : null,
+        country: input.country,
+        addressLine1: input.addressLine1,
+        addressLine2: input.addressLine2 || null,
+        city: input.city,
+        region: input.region || null,
+        postalCode: input.postalCode || null,
+        ...tin,
+        dateOfBirth: isW9 ? null : input.dateOfBirth || null,
+        treatyCountry: isW9 ? null : input.treatyCountry || null,
+        signatureName: input.signatureName,
+        certifiedAt: new Date(),
+        // Everything the form needs has been validated above
+        completedAt: new Date(),
+      });
+
+      res.json(toPublicTaxProfile(profile));
+    } catch (error: any) {
+      console.error('[Tax Profile] Error saving profile:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0]?.message || "Invalid tax profile", details: error.errors });
+      }
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * List the current creator's annual tax summaries
+   * GET /api/tax-summaries
+   */
+  app.get("/api/tax-summaries", requireAuth, requireRole('creator'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const summaries = await storage.getAnnualTaxSummariesByUser(userId);
+      res.json(summaries);
+    } catch (error: any) {
+      console.error('[Tax Summaries] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Get one year's summary for the current creator, building it on demand for past years
+   * GET /api/tax-summaries/:year
+   */
+  app.get("/api/tax-summaries/:year", requireAuth, requireRole('creator'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const taxYear = parseInt(req.params.year);
+      if (isNaN(taxYear) || taxYear < 2000 || taxYear >= new Date().getFullYear()) {
+        return res.status(400).json({ error: "Tax summaries are available for completed years only" });
+      }
+
+      let summary = await storage.getAnnualTaxSummary(userId, taxYear);
+      if (!summary) {
+        [summary] = await taxFormScheduler.generateAnnualSummaries(taxYear, userId);
+      }
+      if (!summary) {
+        return res.status(404).json({ error: `No completed payouts in ${taxYear}` });
+      }
+
+      if (req.query.format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename="tax-summary-${taxYear}.csv"`);
+        return res.send(await taxSummariesToCsv([summary]));
+      }
+
+      res.json(summary);
+    } catch (error: any) {
+      console.error('[Tax Summary] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  // Stripe Connect routes for e-transfer setup
   app.post("/api/stripe-connect/create-account", requireAuth, async (req, res) => {
     try {
       const userId = (req.user as any).id;
@@ -3765,6 +4922,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // \u1F4B0 PROCESS ACTUAL PAYMENT WHEN MARKING AS COMPLETED
       if (status === 'completed') {
+        // Payments claimed by a payout run are sent (and retried) by the run only
+        if (payment.paymentType === 'affiliate' && payment.payoutRunItemId) {
+          return res.status(409).send("This payment is part of a payout run. Retry the run instead of processing it individually.");
+        }
+
         console.log(`[Payment] Processing ${payment.paymentType || 'affiliate'} payment ${id} to send $${payment.netAmount} to creator`);
 
         // Import payment processor
@@ -3948,6 +5110,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       } else {
         // For other status changes (not completed), just update status
         const updatedPayment = await storage.updatePaymentOrRetainerPaymentStatus(id, status);
+        if (status === 'refunded') {
+          await ledgerService.recordRefund(id, 'Status set to refunded by admin', (req.user as any).id);
+        }
         res.json(updatedPayment);
       }
 
@@ -4034,6 +5199,168 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  /**
+   * Company wallet: balances, escrow reserves and recent activity
+   * GET /api/company/wallet
+   */
+  app.get("/api/company/wallet", requireAuth, requireRole('company'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const companyProfile = await storage.getCompanyProfile(userId);
+      if (!companyProfile) {
+        return res.status(404).send("Company profile not found");
+      }
+
+      const [wallet, reserves, transactions] = await Promise.all([
+        storage.getCompanyWallet(companyProfile.id),
+        storage.getEscrowReservesByCompany(companyProfile.id),
+        storage.getWalletTransactions(companyProfile.id),
+      ]);
+
+      res.json({ wallet, reserves, transactions, minTopUp: MIN_WALLET_TOP_UP });
+    } catch (error: any) {
+      console.error('[Wallet] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Start a wallet top-up through Stripe Checkout
+   * POST /api/company/wallet/top-ups
+   */
+  app.post("/api/company/wallet/top-ups", requireAuth, requireRole('company'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const companyProfile = await storage.getCompanyProfile(userId);
+      if (!companyProfile) {
+        return res.status(404).send("Company profile not found");
+      }
+
+      const amount = parseFloat(req.body.amount);
+      if (!Number.isFinite(amount) || amount < MIN_WALLET_TOP_UP) {
+        return res.status(400).send(`Top-up amount must be at least ${MIN_WALLET_TOP_UP}`);
+      }
+
+      const result = await walletService.createTopUpSession(companyProfile.id, userId, Math.round(amount * 100) / 100);
+      res.json(result);
+    } catch (error: any) {
+      console.error('[Wallet Top-up] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Confirm a top-up after returning from Stripe Checkout
+   * POST /api/company/wallet/top-ups/:sessionId/confirm
+   */
+  app.post("/api/company/wallet/top-ups/:sessionId/confirm", requireAuth, requireRole('company'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const companyProfile = await storage.getCompanyProfile(userId);
+      if (!companyProfile) {
+        return res.status(404).send("Company profile not found");
+      }
+
+      const result = await walletService.confirmTopUp(req.params.sessionId, companyProfile.id);
+      res.json(result);
+    } catch (error: any) {
+      if (error.message === 'Top-up not found') {
+        return res.status(404).send(error.message);
+      }
+      console.error('[Wallet Top-up Confirm] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Reserve wallet funds for an offer or retainer contract (adds to an existing reserve)
+   * POST /api/company/escrow
+   */
+  app.post("/api/company/escrow", requireAuth, requireRole('company'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const companyProfile = await storage.getCompanyProfile(userId);
+      if (!companyProfile) {
+        return res.status(404).send("Company profile not found");
+      }
+
+      const { offerId, retainerContractId } = req.body;
+      if (!offerId === !retainerContractId) {
+        return res.status(400).send("Provide either offerId or retainerContractId");
+      }
+
+      const amount = parseFloat(req.body.amount);
+      if (!Number.isFinite(amount) || amount <= 0) {
+        return res.status(400).send("Amount must be greater than 0");
+      }
+
+      let lowBalanceThreshold: number | null | undefined;
+      if (req.body.lowBalanceThreshold === null || req.body.lowBalanceThreshold === '') {
+        lowBalanceThreshold = null;
+      } else if (req.body.lowBalanceThreshold !== undefined) {
+        lowBalanceThreshold = parseFloat(req.body.lowBalanceThreshold);
+        if (!Number.isFinite(lowBalanceThreshold) || lowBalanceThreshold < 0) {
+          return res.status(400).send("Low balance threshold must be 0 or more");
+        }
+      }
+
+      if (offerId) {
+        const offer = await storage.getOffer(offerId);
+        if (!offer || offer.companyId !== companyProfile.id) {
+          return res.status(404).send("Offer not found");
+        }
+      } else {
+        const contract = await storage.getRetainerContract(retainerContractId);
+        if (!contract || contract.companyId !== companyProfile.id) {
+          return res.status(404).send("Retainer contract not found");
+        }
+      }
+
+      const reserve = await storage.reserveEscrowFunds(
+        companyProfile.id,
+        { offerId: offerId || null, retainerContractId: retainerContractId || null },
+        Math.round(amount * 100) / 100,
+        { lowBalanceThreshold, createdBy: userId },
+      );
+
+      res.json(reserve);
+    } catch (error: any) {
+      if (error.message === 'Insufficient wallet balance') {
+        return res.status(400).send(error.message);
+      }
+      console.error('[Escrow Reserve] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Release what is left in an escrow reserve back to the wallet
+   * POST /api/company/escrow/:id/release
+   */
+  app.post("/api/company/escrow/:id/release", requireAuth, requireRole('company'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const companyProfile = await storage.getCompanyProfile(userId);
+      if (!companyProfile) {
+        return res.status(404).send("Company profile not found");
+      }
+
+      const reserve = await storage.getEscrowReserve(req.params.id);
+      if (!reserve || reserve.companyId !== companyProfile.id) {
+        return res.status(404).send("Escrow reserve not found");
+      }
+      if (reserve.status === 'released') {
+        return res.status(400).send("Escrow reserve already released");
+      }
+
+      const released = await storage.releaseEscrowFunds(reserve.id, userId);
+      res.json(released);
+    } catch (error: any) {
+      console.error('[Escrow Release] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
   // Company payment approval
   app.post("/api/company/payments/:id/approve", requireAuth, requireRole('company'), async (req, res) => {
     try {
@@ -4055,6 +5382,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Update payment status to processing
       const updatedPayment = await storage.updatePaymentOrRetainerPaymentStatus(payment.id, 'processing');
+      await ledgerService.recordAccrual(payment.id, userId);
 
       // Send notification to creator
       const creator = await storage.getUserById(payment.creatorId);
@@ -4128,6 +5456,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const updatedPayment = await storage.updatePaymentOrRetainerPaymentStatus(payment.id, 'failed', {
         description: `Disputed: ${reason || 'No reason provided'}`,
       });
+      await ledgerService.recordDispute(payment.id, reason, userId);
 
       // Send notification to creator
       const creator = await storage.getUserById(payment.creatorId);
@@ -6070,6 +7399,126 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Company self-service - Branded link domain
+  const linkDomainResponse = (linkDomain: CompanyLinkDomain | undefined) => ({
+    linkDomain: linkDomain ?? null,
+    instructions: linkDomain && !linkDomain.verified ? {
+      dns_txt: `Add a TXT record on ${LINK_DOMAIN_TXT_PREFIX}.${linkDomain.domain} with the value:\n${linkDomain.verificationToken}`,
+      cname: `Point ${linkDomain.domain} at this platform (CNAME to ${new URL(process.env.BASE_URL || 'http://localhost:3000').hostname}) so links on it reach us`,
+    } : null,
+  });
+
+  app.get("/api/company/link-domain", requireAuth, requireRole('company'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const company = await storage.getCompanyProfile(userId);
+      if (!company) {
+        return res.status(404).json({ error: "Company profile not found" });
+      }
+
+      res.json(linkDomainResponse(await storage.getLinkDomainByCompany(company.id)));
+    } catch (error: any) {
+      console.error('[get-link-domain] Error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  /**
+   * Register the company's link domain (one per company), pending DNS verification
+   * POST /api/company/link-domain
+   * Body: { domain }
+   */
+  app.post("/api/company/link-domain", requireAuth, requireRole('company'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const company = await storage.getCompanyProfile(userId);
+      if (!company) {
+        return res.status(404).json({ error: "Company profile not found" });
+      }
+      if (!company.websiteVerified || !company.websiteUrl) {
+        return res.status(400).json({ error: "Verify your website before adding a link domain" });
+      }
+
+      const { domain } = linkDomainInputSchema.parse(req.body);
+      if (!isDomainOnCompanyWebsite(domain, company)) {
+        return res.status(400).json({ error: `The link domain must be on your verified website (${company.websiteUrl}), e.g. go.${new URL(company.websiteUrl).hostname.replace(/^www\./, '')}` });
+      }
+      if (await storage.getLinkDomainByCompany(company.id)) {
+        return res.status(409).json({ error: "Remove your current link domain before adding another" });
+      }
+      if (await storage.getLinkDomainByDomain(domain)) {
+        return res.status(409).json({ error: `${domain} is already registered` });
+      }
+
+      const linkDomain = await storage.createLinkDomain({
+        companyId: company.id,
+        domain,
+        verificationToken: generateLinkDomainToken(),
+        verified: false,
+      });
+
+      res.json(linkDomainResponse(linkDomain));
+    } catch (error: any) {
+      console.error('[create-link-domain] Error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0]?.message || "Invalid domain", details: error.errors });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Company self-service - Check the link domain's DNS TXT record
+  app.post("/api/company/link-domain/verify", requireAuth, requireRole('company'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const company = await storage.getCompanyProfile(userId);
+      if (!company) {
+        return res.status(404).json({ error: "Company profile not found" });
+      }
+
+      const linkDomain = await storage.getLinkDomainByCompany(company.id);
+      if (!linkDomain) {
+        return res.status(404).json({ error: "No link domain registered" });
+      }
+      if (linkDomain.verified) {
+        return res.json({ success: true, ...linkDomainResponse(linkDomain) });
+      }
+
+      const result = await checkLinkDomainDns(linkDomain);
+      if (!result.success) {
+        return res.status(400).json({ success: false, error: result.error });
+      }
+
+      const verified = await storage.markLinkDomainVerified(linkDomain.id);
+      invalidateLinkDomainCache(linkDomain.domain);
+      res.json({ success: true, message: `${linkDomain.domain} verified`, ...linkDomainResponse(verified) });
+    } catch (error: any) {
+      console.error('[verify-link-domain] Error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Company self-service - Remove the link domain; creators' links fall back to the platform domain
+  app.delete("/api/company/link-domain", requireAuth, requireRole('company'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const company = await storage.getCompanyProfile(userId);
+      if (!company) {
+        return res.status(404).json({ error: "Company profile not found" });
+      }
+
+      const linkDomain = await storage.getLinkDomainByCompany(company.id);
+      if (linkDomain) {
+        await storage.deleteLinkDomain(linkDomain.id);
+        invalidateLinkDomainCache(linkDomain.domain);
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('[delete-link-domain] Error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // Admin Offer Management
   app.get("/api/admin/offers", requireAuth, requireRole('admin'), async (req, res) => {
     try {
@@ -6880,6 +8329,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (req.params.key.includes('fee') || req.params.key.includes('percentage')) {
         clearFeeSettingsCache();
       }
+      if (req.params.key === 'fraud_block_score' || req.params.key === 'fraud_conversion_hold_score') {
+        invalidateFraudRuleCache();
+      }
 
       // Log the settings change
       const { logAuditAction, AuditActions, EntityTypes } = await import('./auditLog');
@@ -6947,14 +8399,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Public endpoint listing currencies offers and payouts can use
+  app.get("/api/currencies", (_req, res) => {
+    res.json({ currencies: SUPPORTED_CURRENCIES });
+  });
+
   // Admin messaging monitoring routes
   app.get("/api/admin/conversations", requireAuth, requireRole('admin'), async (req, res) => {
     try {
       const search = req.query.search as string | undefined;
+      const conversationId = req.query.conversationId as string | undefined;
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
       const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
 
-      const conversations = await storage.getAllConversationsForAdmin({ search, limit, offset });
+      const conversations = await storage.getAllConversationsForAdmin({ search, conversationId, limit, offset });
       res.json(conversations);
     } catch (error: any) {
       console.error('[Admin Conversations] Error fetching conversations:', error);
@@ -6962,6 +8420,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  /**
+   * Full-text search over every conversation's messages, newest first
+   * GET /api/admin/messages/search?q=&offerId=&creatorId=&companyId=&from=&to=&hasAttachment=&limit=&offset=
+   */
+  app.get("/api/admin/messages/search", requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const { q, offerId, creatorId, companyId, from, to, hasAttachment, limit, offset } = messageSearchQuerySchema.parse(req.query);
+      const search = await storage.searchMessages(
+        { userId: (req.user as any).id, role: 'admin' },
+        { query: q, offerId, creatorId, companyId, from, to, hasAttachment, limit, offset },
+      );
+      res.json(search);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0]?.message || "Invalid search", details: error.errors });
+      }
+      console.error('[Admin Message Search] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
   app.get("/api/admin/messages/:conversationId", requireAuth, requireRole('admin'), async (req, res) => {
     try {
       const messages = await storage.getMessages(req.params.conversationId);
@@ -6990,6 +8469,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Create the message as platform
       const message = await storage.createAdminMessage(conversationId, adminId, content.trim());
+      await publishNewMessage(message);
 
       // Log admin action for audit trail
       await storage.createAuditLog({
@@ -7070,74 +8550,638 @@ export async function registerRoutes(app: Express): Promise<Server> {
         };
       });
 
-      const exportData = {
-        exportMetadata: {
-          exportDate: new Date().toISOString(),
-          exportedBy: (req.user as any).id,
-          exportPurpose: 'Legal compliance and dispute resolution',
-          platform: 'AffiliateXchange',
-        },
-        conversation: {
-          id: conversationId,
-          offerTitle: conversation.offerTitle || 'Unknown Offer',
-          creator: {
-            id: conversation.creatorId,
-            name: creatorName,
-            email: creatorUser?.email || '',
-          },
-          company: {
-            id: conversation.companyId,
-            name: companyName,
-          },
-          createdAt: conversation.createdAt,
-          lastMessageAt: conversation.lastMessageAt,
-          totalMessages: messages.length,
+      const exportData = {
+        exportMetadata: {
+          exportDate: new Date().toISOString(),
+          exportedBy: (req.user as any).id,
+          exportPurpose: 'Legal compliance and dispute resolution',
+          platform: 'AffiliateXchange',
+        },
+        conversation: {
+          id: conversationId,
+          offerTitle: conversation.offerTitle || 'Unknown Offer',
+          creator: {
+            id: conversation.creatorId,
+            name: creatorName,
+            email: creatorUser?.email || '',
+          },
+          company: {
+            id: conversation.companyId,
+            name: companyName,
+          },
+          createdAt: conversation.createdAt,
+          lastMessageAt: conversation.lastMessageAt,
+          totalMessages: messages.length,
+        },
+        messages: formattedMessages,
+      };
+
+      if (format === 'csv') {
+        // Generate CSV format
+        const csvHeaders = ['Message ID', 'Timestamp', 'Sender Name', 'Sender Type', 'Message Content', 'Has Attachments', 'Attachment Count', 'Is Read'];
+        const csvRows = [
+          ['--- CONVERSATION METADATA ---', '', '', '', '', '', '', ''],
+          ['Conversation ID', conversationId, '', '', '', '', '', ''],
+          ['Offer', exportData.conversation.offerTitle, '', '', '', '', '', ''],
+          ['Creator', creatorName, creatorUser?.email || '', '', '', '', '', ''],
+          ['Company', companyName, '', '', '', '', '', ''],
+          ['Started', exportData.conversation.createdAt?.toString() || '', '', '', '', '', '', ''],
+          ['Last Message', exportData.conversation.lastMessageAt?.toString() || '', '', '', '', '', '', ''],
+          ['Total Messages', messages.length.toString(), '', '', '', '', '', ''],
+          ['Export Date', new Date().toISOString(), '', '', '', '', '', ''],
+          ['--- MESSAGE HISTORY ---', '', '', '', '', '', '', ''],
+          csvHeaders,
+          ...formattedMessages.map(msg => [
+            msg.id,
+            new Date(msg.createdAt!).toISOString(),
+            msg.senderName,
+            msg.senderType,
+            msg.content || '',
+            msg.attachments.length > 0 ? 'Yes' : 'No',
+            msg.attachments.length.toString(),
+            msg.isRead ? 'Yes' : 'No',
+          ]),
+        ];
+
+        const csvContent = csvRows
+          .map(row => row.map(val => `"${String(val).replace(/"/g, '""')}"`).join(','))
+          .join('\n');
+
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename="conversation-${conversationId}-export.csv"`);
+        return res.send(csvContent);
+      }
+
+      // Default to JSON
+      res.setHeader('Content-Type', 'application/json');
+      res.setHeader('Content-Disposition', `attachment; filename="conversation-${conversationId}-export.json"`);
+      res.json(exportData);
+    } catch (error: any) {
+      console.error('[Admin Conversation Export] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * List a year's tax summaries
+   * GET /api/admin/tax-summaries?year=2025
+   */
+  app.get("/api/admin/tax-summaries", requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const taxYear = req.query.year ? parseInt(req.query.year as string) : new Date().getFullYear() - 1;
+      const summaries = await storage.getAnnualTaxSummaries(taxYear);
+      res.json(summaries);
+    } catch (error: any) {
+      console.error('[Admin Tax Summaries] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * (Re)generate a year's tax summaries
+   * POST /api/admin/tax-summaries/generate
+   */
+  app.post("/api/admin/tax-summaries/generate", requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const taxYear = parseInt(req.body.year);
+      if (isNaN(taxYear) || taxYear < 2000 || taxYear > new Date().getFullYear()) {
+        return res.status(400).json({ error: "Invalid tax year" });
+      }
+
+      const summaries = await taxFormScheduler.generateAnnualSummaries(taxYear);
+
+      const { logAuditAction, AuditActions, EntityTypes } = await import('./auditLog');
+      await logAuditAction(userId, {
+        action: AuditActions.GENERATE_TAX_FORMS,
+        entityType: EntityTypes.TAX_FORM,
+        entityId: String(taxYear),
+        changes: { count: summaries.length },
+      }, req);
+
+      res.json({ taxYear, count: summaries.length });
+    } catch (error: any) {
+      console.error('[Admin Tax Summaries] Error generating summaries:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Bulk CSV export of a year's tax summaries with full TINs for filing
+   * GET /api/admin/tax-summaries/export?year=2025
+   */
+  app.get("/api/admin/tax-summaries/export", requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const taxYear = req.query.year ? parseInt(req.query.year as string) : new Date().getFullYear() - 1;
+      const summaries = await storage.getAnnualTaxSummaries(taxYear);
+
+      const { logAuditAction, AuditActions, EntityTypes } = await import('./auditLog');
+      await logAuditAction(userId, {
+        action: AuditActions.EXPORT_TAX_FORMS,
+        entityType: EntityTypes.TAX_FORM,
+        entityId: String(taxYear),
+        changes: { count: summaries.length, includesTin: true },
+      }, req);
+
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="tax-summaries-${taxYear}.csv"`);
+      res.send(await taxSummariesToCsv(summaries, { includeTin: true }));
+    } catch (error: any) {
+      console.error('[Admin Tax Summaries] Error exporting summaries:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * List payout runs
+   * GET /api/admin/payout-runs
+   */
+  app.get("/api/admin/payout-runs", requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+      const runs = await storage.getPayoutRuns(limit);
+      res.json(runs);
+    } catch (error: any) {
+      console.error('[Admin Payout Runs] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Get a payout run with its per-creator items
+   * GET /api/admin/payout-runs/:id
+   */
+  app.get("/api/admin/payout-runs/:id", requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const run = await storage.getPayoutRun(req.params.id);
+      if (!run) {
+        return res.status(404).send("Payout run not found");
+      }
+
+      const items = await storage.getPayoutRunItems(run.id);
+      res.json({ ...run, items });
+    } catch (error: any) {
+      console.error('[Admin Payout Run] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Start a payout run now instead of waiting for the schedule
+   * POST /api/admin/payout-runs
+   */
+  app.post("/api/admin/payout-runs", requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      if (await storage.getProcessingPayoutRun()) {
+        return res.status(409).send("A payout run is already processing");
+      }
+
+      const run = await payoutRunScheduler.runPayouts({ trigger: 'manual', triggeredBy: userId });
+      res.json(run);
+    } catch (error: any) {
+      console.error('[Admin Payout Run] Error starting run:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Queue a range of hours for the analytics rollup scheduler to (re)build, e.g. after restoring data
+   * POST /api/admin/analytics/rollups/backfill
+   * Body: { from: string, to?: string }
+   */
+  app.post("/api/admin/analytics/rollups/backfill", requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const { from, to } = z.object({
+        from: z.coerce.date(),
+        to: z.coerce.date().optional(),
+      }).parse(req.body);
+      const end = to ?? new Date();
+      if (from >= end) {
+        return res.status(400).json({ error: "from must be before to" });
+      }
+
+      const queuedHours = await storage.queueAnalyticsRollupRange(from, end);
+      console.log(`[Admin Analytics Rollup] Queued ${queuedHours} hour(s) from ${from.toISOString()} to ${end.toISOString()}`);
+      res.json({ queuedHours, totalQueuedHours: await storage.countQueuedAnalyticsRollupHours() });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0]?.message || "Invalid backfill range", details: error.errors });
+      }
+      console.error('[Admin Analytics Rollup] Error queueing backfill:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Resend a run's failed payouts
+   * POST /api/admin/payout-runs/:id/retry
+   */
+  app.post("/api/admin/payout-runs/:id/retry", requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const run = await storage.getPayoutRun(req.params.id);
+      if (!run) {
+        return res.status(404).send("Payout run not found");
+      }
+      if (run.status === 'processing') {
+        return res.status(409).send("Payout run is still processing");
+      }
+
+      const updated = await payoutRunScheduler.retryRun(run.id);
+      res.json(updated);
+    } catch (error: any) {
+      console.error('[Admin Payout Run] Error retrying run:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Trial balance of the payment ledger (debits and credits per account)
+   * GET /api/admin/ledger/trial-balance?currency=USD&asOf=2026-01-01
+   */
+  app.get("/api/admin/ledger/trial-balance", requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const currency = req.query.currency ? normalizeCurrency(req.query.currency, '') : undefined;
+      if (req.query.currency && !currency) {
+        return res.status(400).send("Unsupported currency");
+      }
+
+      const asOf = req.query.asOf ? new Date(req.query.asOf as string) : undefined;
+      if (asOf && isNaN(asOf.getTime())) {
+        return res.status(400).send("Invalid asOf date");
+      }
+
+      const trialBalance = await ledgerService.getTrialBalance({ currency: currency || undefined, asOf });
+      res.json(trialBalance);
+    } catch (error: any) {
+      console.error('[Admin Ledger] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Statement for one ledger account with running balance
+   * GET /api/admin/ledger/accounts/:id/statement?from=&to=
+   */
+  app.get("/api/admin/ledger/accounts/:id/statement", requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const from = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return res.status(400).send("Invalid date range");
+      }
+
+      const statement = await ledgerService.getAccountStatement(req.params.id, { from, to });
+      if (!statement) {
+        return res.status(404).send("Ledger account not found");
+      }
+      res.json(statement);
+    } catch (error: any) {
+      console.error('[Admin Ledger Statement] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Fraud review queue (flagged clicks and conversions)
+   * GET /api/admin/fraud/reviews?status=pending&itemType=click&creatorId=&offerId=
+   */
+  app.get("/api/admin/fraud/reviews", requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const { status, itemType, creatorId, offerId } = req.query;
+      if (status && !['pending', 'approved', 'invalidated'].includes(status as string)) {
+        return res.status(400).send("Invalid status");
+      }
+      if (itemType && !['click', 'conversion'].includes(itemType as string)) {
+        return res.status(400).send("Invalid item type");
+      }
+
+      const reviews = await storage.getFraudReviews({
+        status: status as any,
+        itemType: itemType as any,
+        creatorId: creatorId as string | undefined,
+        offerId: offerId as string | undefined,
+      });
+      res.json(reviews);
+    } catch (error: any) {
+      console.error('[Admin Fraud Reviews] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Approve or invalidate reviews in bulk. Invalidated clicks are removed from analytics and
+   * invalidated conversions are reversed; approved blocked clicks are added to analytics.
+   * POST /api/admin/fraud/reviews/resolve
+   * Body: { reviewIds: string[], action: 'approve' | 'invalidate', notes? }
+   */
+  app.post("/api/admin/fraud/reviews/resolve", requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const { reviewIds, action, notes } = req.body;
+
+      if (!Array.isArray(reviewIds) || reviewIds.length === 0 || reviewIds.some((id) => typeof id !== 'string')) {
+        return res.status(400).send("reviewIds must be a non-empty array");
+      }
+      if (reviewIds.length > 500) {
+        return res.status(400).send("At most 500 reviews can be resolved at once");
+      }
+      if (action !== 'approve' && action !== 'invalidate') {
+        return res.status(400).send("action must be 'approve' or 'invalidate'");
+      }
+
+      const outcome = await fraudReviewService.resolveReviews(reviewIds, action, userId, notes);
+
+      for (const reversal of outcome.reversals) {
+        if (reversal.conversion) {
+          await notifyConversionReversed(reversal.conversion, reversal.shares);
+        }
+      }
+      for (const verification of outcome.verifications) {
+        if (verification.escrowAlert) {
+          await walletService.notifyEscrowLow(verification.escrowAlert);
+        }
+      }
+
+      const { logAuditAction, AuditActions, EntityTypes } = await import('./auditLog');
+      await logAuditAction(userId, {
+        action: AuditActions.RESOLVE_FRAUD_REVIEWS,
+        entityType: EntityTypes.FRAUD_REVIEW,
+        changes: {
+          action,
+          reviewIds: outcome.reviews.map((review) => review.id),
+          reversedConversions: outcome.reversals.map((reversal) => reversal.conversion?.id),
+          verifiedConversions: outcome.verifications.map((verification) => verification.conversion?.id),
+          holdChanges: outcome.holdChanges,
+        },
+        reason: notes,
+      }, req);
+
+      res.json({
+        resolved: outcome.reviews.length,
+        skipped: reviewIds.length - outcome.reviews.length,
+        reversedConversions: outcome.reversals.length,
+        verifiedConversions: outcome.verifications.length,
+        holdChanges: outcome.holdChanges,
+      });
+    } catch (error: any) {
+      console.error('[Admin Fraud Reviews] Error resolving reviews:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Fraud rates per creator or per offer (only those with flagged clicks)
+   * GET /api/admin/fraud/rates?groupBy=creator|offer&days=30
+   */
+  app.get("/api/admin/fraud/rates", requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const groupBy = req.query.groupBy === 'offer' ? 'offer' : 'creator';
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || FRAUD_RATE_WINDOW_DAYS, 1), 365);
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+      const rates = await storage.getFraudRates(groupBy, since);
+      res.json({ groupBy, days, threshold: await fraudReviewService.getHoldThreshold(), rates });
+    } catch (error: any) {
+      console.error('[Admin Fraud Rates] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Platform-wide click fraud totals
+   * GET /api/admin/fraud/stats?days=7
+   */
+  app.get("/api/admin/fraud/stats", requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || 7, 1), 365);
+      res.json(await getFraudStats(days));
+    } catch (error: any) {
+      console.error('[Admin Fraud Stats] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Creator payout holds
+   * GET /api/admin/fraud/payout-holds?status=active
+   */
+  app.get("/api/admin/fraud/payout-holds", requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const status = req.query.status === 'released' ? 'released' : req.query.status === 'all' ? undefined : 'active';
+      res.json(await storage.getPayoutHolds(status));
+    } catch (error: any) {
+      console.error('[Admin Payout Holds] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Lift a creator's payout hold
+   * POST /api/admin/fraud/payout-holds/:id/release
+   * Body: { notes? }
+   */
+  app.post("/api/admin/fraud/payout-holds/:id/release", requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const hold = await storage.releasePayoutHold(req.params.id, userId, req.body.notes);
+      if (!hold) {
+        return res.status(404).send("Active payout hold not found");
+      }
+
+      const { logAuditAction, AuditActions, EntityTypes } = await import('./auditLog');
+      await logAuditAction(userId, {
+        action: AuditActions.RELEASE_PAYOUT_HOLD,
+        entityType: EntityTypes.PAYOUT_HOLD,
+        entityId: hold.id,
+        changes: { creatorId: hold.creatorId },
+        reason: req.body.notes,
+      }, req);
+
+      res.json(hold);
+    } catch (error: any) {
+      console.error('[Admin Payout Holds] Error releasing hold:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Fraud rules with the block score in force and the list files ip_list_file rules can use
+   * GET /api/admin/fraud/rules
+   */
+  app.get("/api/admin/fraud/rules", requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const [rules, ruleSet, listFiles] = await Promise.all([
+        storage.getFraudRules(),
+        getActiveRuleSet(),
+        listFraudListFiles(),
+      ]);
+      res.json({
+        rules,
+        blockScore: ruleSet.blockScore,
+        conversionHoldScore: ruleSet.conversionHoldScore,
+        reviewScore: FRAUD_REVIEW_MIN_SCORE,
+        listFiles,
+      });
+    } catch (error: any) {
+      console.error('[Admin Fraud Rules] Error:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Add a fraud rule
+   * POST /api/admin/fraud/rules
+   * Body: { code, name, description?, type, config, weight, isEnabled }
+   */
+  app.post("/api/admin/fraud/rules", requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const input = fraudRuleInputSchema.parse(req.body);
+
+      const problem = await validateFraudRule(input);
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+      if (await storage.getFraudRuleByCode(input.code)) {
+        return res.status(409).json({ error: `A rule with code "${input.code}" already exists` });
+      }
+
+      const rule = await storage.createFraudRule({ ...input, description: input.description || null, createdBy: userId });
+      invalidateFraudRuleCache();
+
+      const { logAuditAction, AuditActions, EntityTypes } = await import('./auditLog');
+      await logAuditAction(userId, {
+        action: AuditActions.CREATE_FRAUD_RULE,
+        entityType: EntityTypes.FRAUD_RULE,
+        entityId: rule.id,
+        changes: { code: rule.code, type: rule.type, config: rule.config, weight: rule.weight, isEnabled: rule.isEnabled },
+      }, req);
+
+      res.json(rule);
+    } catch (error: any) {
+      console.error('[Admin Fraud Rules] Error creating rule:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0]?.message || "Invalid fraud rule", details: error.errors });
+      }
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Update a fraud rule. The code can't change: it identifies the rule in past clicks' flags.
+   * PUT /api/admin/fraud/rules/:id
+   */
+  app.put("/api/admin/fraud/rules/:id", requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const existing = await storage.getFraudRule(req.params.id);
+      if (!existing) {
+        return res.status(404).send("Fraud rule not found");
+      }
+
+      const input = fraudRuleInputSchema.parse({ ...req.body, code: req.body.code ?? existing.code });
+      if (input.code !== existing.code) {
+        return res.status(400).json({ error: "A rule's code can't be changed; add a new rule instead" });
+      }
+      const problem = await validateFraudRule(input);
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+
+      const rule = await storage.updateFraudRule(existing.id, {
+        name: input.name,
+        description: input.description || null,
+        type: input.type,
+        config: input.config,
+        weight: input.weight,
+        isEnabled: input.isEnabled,
+      });
+      invalidateFraudRuleCache();
+
+      const { logAuditAction, AuditActions, EntityTypes } = await import('./auditLog');
+      await logAuditAction(userId, {
+        action: AuditActions.UPDATE_FRAUD_RULE,
+        entityType: EntityTypes.FRAUD_RULE,
+        entityId: existing.id,
+        changes: {
+          code: existing.code,
+          before: { type: existing.type, config: existing.config, weight: existing.weight, isEnabled: existing.isEnabled },
+          after: { type: input.type, config: input.config, weight: input.weight, isEnabled: input.isEnabled },
         },
-        messages: formattedMessages,
-      };
+      }, req);
 
-      if (format === 'csv') {
-        // Generate CSV format
-        const csvHeaders = ['Message ID', 'Timestamp', 'Sender Name', 'Sender Type', 'Message Content', 'Has Attachments', 'Attachment Count', 'Is Read'];
-        const csvRows = [
-          ['--- CONVERSATION METADATA ---', '', '', '', '', '', '', ''],
-          ['Conversation ID', conversationId, '', '', '', '', '', ''],
-          ['Offer', exportData.conversation.offerTitle, '', '', '', '', '', ''],
-          ['Creator', creatorName, creatorUser?.email || '', '', '', '', '', ''],
-          ['Company', companyName, '', '', '', '', '', ''],
-          ['Started', exportData.conversation.createdAt?.toString() || '', '', '', '', '', '', ''],
-          ['Last Message', exportData.conversation.lastMessageAt?.toString() || '', '', '', '', '', '', ''],
-          ['Total Messages', messages.length.toString(), '', '', '', '', '', ''],
-          ['Export Date', new Date().toISOString(), '', '', '', '', '', ''],
-          ['--- MESSAGE HISTORY ---', '', '', '', '', '', '', ''],
-          csvHeaders,
-          ...formattedMessages.map(msg => [
-            msg.id,
-            new Date(msg.createdAt!).toISOString(),
-            msg.senderName,
-            msg.senderType,
-            msg.content || '',
-            msg.attachments.length > 0 ? 'Yes' : 'No',
-            msg.attachments.length.toString(),
-            msg.isRead ? 'Yes' : 'No',
-          ]),
-        ];
+      res.json(rule);
+    } catch (error: any) {
+      console.error('[Admin Fraud Rules] Error updating rule:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0]?.message || "Invalid fraud rule", details: error.errors });
+      }
+      res.status(500).send(error.message);
+    }
+  });
 
-        const csvContent = csvRows
-          .map(row => row.map(val => `"${String(val).replace(/"/g, '""')}"`).join(','))
-          .join('\n');
+  /**
+   * Delete a fraud rule (past clicks keep its code in their flags)
+   * DELETE /api/admin/fraud/rules/:id
+   */
+  app.delete("/api/admin/fraud/rules/:id", requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const rule = await storage.deleteFraudRule(req.params.id);
+      if (!rule) {
+        return res.status(404).send("Fraud rule not found");
+      }
+      invalidateFraudRuleCache();
 
-        res.setHeader('Content-Type', 'text/csv');
-        res.setHeader('Content-Disposition', `attachment; filename="conversation-${conversationId}-export.csv"`);
-        return res.send(csvContent);
+      const { logAuditAction, AuditActions, EntityTypes } = await import('./auditLog');
+      await logAuditAction(userId, {
+        action: AuditActions.DELETE_FRAUD_RULE,
+        entityType: EntityTypes.FRAUD_RULE,
+        entityId: rule.id,
+        changes: { code: rule.code, type: rule.type, config: rule.config, weight: rule.weight },
+      }, req);
+
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('[Admin Fraud Rules] Error deleting rule:', error);
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Replay recent clicks against a proposed rule set without saving it
+   * POST /api/admin/fraud/rules/dry-run
+   * Body: { rules?: FraudRuleInput[] (defaults to the saved rules), blockScore?, days? }
+   */
+  app.post("/api/admin/fraud/rules/dry-run", requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const days = Math.min(Math.max(parseInt(req.body.days) || 7, 1), FRAUD_DRY_RUN_MAX_DAYS);
+      const rules = req.body.rules === undefined
+        ? await storage.getFraudRules()
+        : z.array(fraudRuleInputSchema).max(200).parse(req.body.rules);
+
+      for (const rule of rules) {
+        const problem = rule.isEnabled ? await validateFraudRule(rule) : null;
+        if (problem) {
+          return res.status(400).json({ error: `${rule.code}: ${problem}` });
+        }
       }
 
-      // Default to JSON
-      res.setHeader('Content-Type', 'application/json');
-      res.setHeader('Content-Disposition', `attachment; filename="conversation-${conversationId}-export.json"`);
-      res.json(exportData);
+      const blockScore = req.body.blockScore === undefined
+        ? (await getActiveRuleSet()).blockScore
+        : Number(req.body.blockScore);
+      if (!Number.isInteger(blockScore) || blockScore < 1 || blockScore > 100) {
+        return res.status(400).json({ error: "blockScore must be a whole number from 1 to 100" });
+      }
+
+      res.json(await dryRunFraudRules(rules, blockScore, days));
     } catch (error: any) {
-      console.error('[Admin Conversation Export] Error:', error);
+      console.error('[Admin Fraud Rules] Error running dry run:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0]?.message || "Invalid fraud rules", details: error.errors });
+      }
       res.status(500).send(error.message);
     }
   });
@@ -7194,6 +9238,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         description: description.trim(),
       });
 
+      if (resolution === 'refund') {
+        await ledgerService.recordRefund(req.params.id, notes || 'Dispute resolved with refund', userId);
+      } else if (resolution === 'complete') {
+        await ledgerService.recordDisputeReinstated(req.params.id, userId);
+      }
+
       // Log the action
       const { logAuditAction, AuditActions, EntityTypes } = await import('./auditLog');
       await logAuditAction(userId, {
@@ -7253,6 +9303,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         description: `${payment.description || ''} | Admin refunded: ${reason || 'No reason provided'}`,
         refundedAt: new Date(),
       });
+      await ledgerService.recordRefund(req.params.id, reason, userId);
 
       // Log the action
       const { logAuditAction, AuditActions, EntityTypes } = await import('./auditLog');
@@ -7555,6 +9606,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         { type: 'payment_disputed', category: 'payment', name: 'Payment Disputed', description: 'Sent when a payment is disputed' },
         { type: 'payment_dispute_resolved', category: 'payment', name: 'Payment Dispute Resolved', description: 'Sent when a payment dispute is resolved' },
         { type: 'payment_refunded', category: 'payment', name: 'Payment Refunded', description: 'Sent when a payment is refunded' },
+        { type: 'escrow_low_balance', category: 'payment', name: 'Escrow Balance Low', description: 'Sent to a company when an offer or contract escrow reserve runs low' },
+        { type: 'conversion_pending_verification', category: 'payment', name: 'Conversion Pending Verification', description: 'Sent to a company when the fraud rules hold a conversion until it is approved' },
         { type: 'offer_approved', category: 'offer', name: 'Offer Approved', description: 'Sent when company offer is approved by admin' },
         { type: 'offer_rejected', category: 'offer', name: 'Offer Rejected', description: 'Sent when company offer is rejected by admin' },
         { type: 'registration_approved', category: 'company', name: 'Registration Approved', description: 'Sent when company registration is approved' },
@@ -9437,6 +11490,9 @@ const payment = await storage.createRetainerPayment({
   initiatedAt: new Date(),
 });
 
+await ledgerService.recordAccrual(payment.id, userId);
+await walletService.drawForRetainerPayment(payment);
+
 const retainerFeeLabel = retainerFees.isCustomFee ? `Custom ${formatFeePercentage(retainerFees.platformFeePercentage)}` : formatFeePercentage(DEFAULT_PLATFORM_FEE_PERCENTAGE);
 console.log(`[Retainer Payment] Created pending payment of $${retainerFees.netAmount.toFixed(2)} (net) for creator ${deliverable.creatorId} - Platform Fee: ${retainerFeeLabel}`);
 
@@ -9568,9 +11624,6 @@ res.json(approved);
     noServer: true // We'll handle the upgrade manually for authentication
   });
 
-  // Store connected clients
-  const clients = new Map<string, WebSocket>();
-
   // Handle WebSocket upgrade with authentication
   httpServer.on('upgrade', (req, socket, head) => {
     const { pathname } = parseUrl(req.url || '', true);
@@ -9646,20 +11699,37 @@ res.json(approved);
     }
 
     console.log(`[WebSocket] User ${userId} connected`);
-    clients.set(userId, ws);
+    const removeClient = addMessagingClient(userId, ws);
 
     ws.on('message', async (data: Buffer) => {
       try {
         const message = JSON.parse(data.toString());
-        
+        if (typeof message?.conversationId !== 'string') return;
+
+        // Only participants may send, read or type in a conversation
+        const conversation = await storage.getConversation(message.conversationId);
+        if (!conversation) return;
+        const participants = await getConversationParticipants(conversation);
+        if (!isConversationParticipant(participants, userId)) {
+          console.log(`[WebSocket] User ${userId} is not a participant of conversation ${message.conversationId}`);
+          return;
+        }
+
         if (message.type === 'chat_message') {
-          // Save message to database
-          const savedMessage = await storage.createMessage({
+          const validated = insertMessageSchema.parse({
             conversationId: message.conversationId,
-            senderId: message.senderId,
+            senderId: userId,
             content: message.content,
             attachments: message.attachments || [],
           });
+          try {
+            await assertCanSendMessage(conversation, userId, validated.content);
+          } catch (limitError) {
+            if (!(limitError instanceof ConversationContextError)) throw limitError;
+            ws.send(JSON.stringify({ type: 'message_rejected', conversationId: conversation.id, error: limitError.message }));
+            return;
+          }
+          const savedMessage = await storage.createMessage(validated);
 
           // Auto-moderate message for banned content
           try {
@@ -9669,80 +11739,12 @@ res.json(approved);
             // Don't fail the message if moderation fails
           }
 
-          // Find all participants in the conversation
-          const conversation = await storage.getConversation(message.conversationId);
-          const companyProfile = conversation?.companyId
-            ? await storage.getCompanyProfileById(conversation.companyId)
-            : null;
-
-          // Send to all participants (company profile -> user account)
-          const recipientIds = [conversation.creatorId, companyProfile?.userId || conversation.companyId];
-          for (const recipientId of recipientIds) {
-            const recipientWs = clients.get(recipientId);
-            if (recipientWs && recipientWs.readyState === WebSocket.OPEN) {
-              recipientWs.send(JSON.stringify({
-                type: 'new_message',
-                message: savedMessage,
-              }));
-            }
-          }
-        } else if (message.type === 'typing_start') {
-          // Broadcast typing indicator to other participants
-          const conversation = await storage.getConversation(message.conversationId);
-          const companyProfile = conversation?.companyId
-            ? await storage.getCompanyProfileById(conversation.companyId)
-            : null;
-          const recipientIds = [conversation.creatorId, companyProfile?.userId || conversation.companyId].filter(id => id !== userId);
-          
-          for (const recipientId of recipientIds) {
-            const recipientWs = clients.get(recipientId);
-            if (recipientWs && recipientWs.readyState === WebSocket.OPEN) {
-              recipientWs.send(JSON.stringify({
-                type: 'user_typing',
-                conversationId: message.conversationId,
-                userId: userId,
-              }));
-            }
-          }
-        } else if (message.type === 'typing_stop') {
-          // Broadcast stop typing indicator
-          const conversation = await storage.getConversation(message.conversationId);
-          const companyProfile = conversation?.companyId
-            ? await storage.getCompanyProfileById(conversation.companyId)
-            : null;
-          const recipientIds = [conversation.creatorId, companyProfile?.userId || conversation.companyId].filter(id => id !== userId);
-          
-          for (const recipientId of recipientIds) {
-            const recipientWs = clients.get(recipientId);
-            if (recipientWs && recipientWs.readyState === WebSocket.OPEN) {
-              recipientWs.send(JSON.stringify({
-                type: 'user_stop_typing',
-                conversationId: message.conversationId,
-                userId: userId,
-              }));
-            }
-          }
+          await publishNewMessage(savedMessage, participants);
+          await recordMessageTemplateSend(message.templateId, conversation, userId);
+        } else if (message.type === 'typing_start' || message.type === 'typing_stop') {
+          publishTyping(message.conversationId, userId, participants, message.type === 'typing_start');
         } else if (message.type === 'mark_read') {
-          // Mark messages as read
-          await storage.markMessagesAsRead(message.conversationId, userId);
-          
-          // Notify the sender that messages have been read
-          const conversation = await storage.getConversation(message.conversationId);
-          const companyProfile = conversation?.companyId
-            ? await storage.getCompanyProfileById(conversation.companyId)
-            : null;
-          const recipientIds = [conversation.creatorId, companyProfile?.userId || conversation.companyId].filter(id => id !== userId);
-          
-          for (const recipientId of recipientIds) {
-            const recipientWs = clients.get(recipientId);
-            if (recipientWs && recipientWs.readyState === WebSocket.OPEN) {
-              recipientWs.send(JSON.stringify({
-                type: 'messages_read',
-                conversationId: message.conversationId,
-                readBy: userId,
-              }));
-            }
-          }
+          await markConversationRead(message.conversationId, userId, participants);
         }
       } catch (error) {
         console.error('WebSocket message error:', error);
@@ -9750,10 +11752,8 @@ res.json(approved);
     });
 
     ws.on('close', () => {
-      if (userId) {
-        console.log(`[WebSocket] User ${userId} disconnected`);
-        clients.delete(userId);
-      }
+      console.log(`[WebSocket] User ${userId} disconnected`);
+      removeClient();
     });
   });
 
@@ -10115,37 +12115,92 @@ res.json(approved);
 
   // ============ Advanced Tracking Endpoints (Postback, Pixel, JS Snippet) ============
 
+  // Let the creator know a conversion was reversed and how it affects their payout
+  const notifyConversionReversed = async (
+    conversion: { id: string; offerId: string; orderId: string | null; reversalType: string | null; reversalReason: string | null },
+    shares: ReversedShare[],
+  ) => {
+    const offer = await storage.getOffer(conversion.offerId);
+
+    // Every creator who shared in the commission loses their part of it
+    for (const share of shares) {
+      const payoutNote = share.paymentAction === 'adjustment_created'
+        ? ' The commission was already paid and will be deducted from your next payout.'
+        : share.paymentAction === 'payment_cancelled'
+          ? ' The pending payment for this commission has been cancelled.'
+          : '';
+
+      await notificationService.sendNotification(
+        share.creatorId,
+        'payment_refunded',
+        'Conversion Reversed',
+        `A ${conversion.reversalType === 'fraud' ? 'fraud review' : conversion.reversalType || 'refund'} reversed your $${share.earnings} commission on "${offer?.title || 'an offer'}"${conversion.orderId ? ` (order ${conversion.orderId})` : ''}.${payoutNote}`,
+        {
+          offerId: conversion.offerId,
+          offerTitle: offer?.title,
+          amount: `$${share.earnings}`,
+          reason: conversion.reversalReason || undefined,
+          paymentId: share.paymentId || undefined,
+        }
+      );
+    }
+  };
+
   /**
    * Postback URL Endpoint - Server-to-server conversion tracking
    * METHOD A from specification: Most secure, recommended for SaaS/Apps/eCommerce
    *
    * POST /api/tracking/postback
    * Headers: X-API-Key: company_api_key
-   * Body: { trackingCode, eventType, saleAmount, currency, orderId, timestamp, signature }
+   * Body: { trackingCode, clickId, eventType, saleAmount, currency, orderId, timestamp, signature, visitorIp?, visitorUserAgent? }
+   * Either trackingCode or clickId is required; when only clickId is sent it is signed in place of trackingCode.
+   * visitorIp/visitorUserAgent identify the converting visitor for the conversion fraud rules; conversions the
+   * rules hold are answered with status 'pending_verification' and credited only once approved.
    */
   app.post("/api/tracking/postback", async (req, res) => {
     try {
       const apiKey = req.headers['x-api-key'] as string;
       const {
         trackingCode,
+        clickId,
         eventType = 'sale',
         saleAmount,
         currency = 'USD',
         orderId,
         timestamp,
         signature,
-        customData
+        customData,
+        visitorIp,
+        visitorUserAgent
       } = req.body;
 
       // Validate required fields
-      if (!trackingCode) {
-        return res.status(400).json({ success: false, error: "Missing trackingCode" });
+      if (!trackingCode && !clickId) {
+        return res.status(400).json({ success: false, error: "Missing trackingCode or clickId" });
+      }
+      if (visitorIp !== undefined && visitorIp !== null && (typeof visitorIp !== 'string' || !isIP(visitorIp))) {
+        return res.status(400).json({ success: false, error: "visitorIp must be an IPv4 or IPv6 address" });
+      }
+      if (!isSupportedCurrency(currency)) {
+        return res.status(422).json({
+          success: false,
+          error: `Unsupported currency: ${String(currency).slice(0, 20)}. Supported: ${SUPPORTED_CURRENCIES.join(', ')}`
+        });
       }
 
-      // Look up application by tracking code
-      const application = await storage.getApplicationByTrackingCode(trackingCode);
-      if (!application) {
-        return res.status(404).json({ success: false, error: "Invalid tracking code" });
+      // Look up application by tracking code, or by the click the visitor arrived from
+      let application;
+      if (trackingCode) {
+        application = await storage.getApplicationByTrackingCode(trackingCode);
+        if (!application) {
+          return res.status(404).json({ success: false, error: "Invalid tracking code" });
+        }
+      } else {
+        const click = await storage.getClickEventByClickId(String(clickId));
+        application = click ? await storage.getApplication(click.applicationId) : undefined;
+        if (!application) {
+          return res.status(404).json({ success: false, error: "Invalid click id" });
+        }
       }
 
       // Get offer and company for API key validation
@@ -10175,7 +12230,7 @@ res.json(approved);
           }
 
           const isValidSignature = validatePostbackSignature(
-            trackingCode,
+            trackingCode || String(clickId),
             eventType,
             saleAmount,
             timestamp,
@@ -10190,7 +12245,7 @@ res.json(approved);
       }
 
       // Validate event type
-      const validEventTypes: ConversionEventType[] = ['sale', 'lead', 'click', 'signup', 'install', 'custom'];
+      const validEventTypes: ConversionEventType[] = ['sale', 'lead', 'click', 'signup', 'install', 'custom', 'refund', 'chargeback'];
       if (!validEventTypes.includes(eventType as ConversionEventType)) {
         return res.status(400).json({
           success: false,
@@ -10198,6 +12253,50 @@ res.json(approved);
         });
       }
 
+      // Refunds/chargebacks reverse an existing conversion and must always be signed
+      if (isReversalEvent(eventType)) {
+        if (!company.trackingApiKey) {
+          return res.status(403).json({ success: false, error: "Generate a tracking API key before sending reversal events" });
+        }
+        if (!timestamp || !signature) {
+          return res.status(401).json({ success: false, error: "Reversal events require timestamp and signature" });
+        }
+        if (!orderId) {
+          return res.status(400).json({ success: false, error: "Reversal events require the original orderId" });
+        }
+
+        const reversal = await storage.reverseConversion(company.id, String(orderId), {
+          reversalType: eventType,
+          reason: req.body.reason,
+        });
+
+        if (!reversal.conversion) {
+          return res.status(404).json({ success: false, error: "No conversion found for this orderId" });
+        }
+
+        if (!reversal.alreadyReversed) {
+          await ledgerService.recordConversionReversal(reversal.conversion.id, reversal.shares.map((share) => share.paymentId));
+          await notifyConversionReversed(reversal.conversion, reversal.shares);
+        }
+
+        console.log(`[Postback] Conversion reversed - Order: ${orderId}, Event: ${eventType}, Conversion: ${reversal.conversion.id}`);
+
+        return res.json({
+          success: true,
+          message: reversal.alreadyReversed
+            ? "Conversion was already reversed"
+            : reversal.wasPendingVerification
+              ? "Conversion was pending verification and has been reversed without being credited"
+              : "Conversion reversed successfully",
+          conversionId: reversal.conversion.id,
+          eventType,
+          orderId,
+          alreadyReversed: reversal.alreadyReversed,
+          wasPendingVerification: reversal.wasPendingVerification,
+          paymentAction: reversal.paymentAction
+        });
+      }
+
       // Map event type to commission calculation
       let effectiveSaleAmount = saleAmount;
       if (eventType === 'lead' || eventType === 'signup') {
@@ -10212,20 +12311,62 @@ res.json(approved);
         });
       }
 
-      // Record the conversion
-      const conversionId = generateConversionId();
-      await storage.recordConversion(application.id, effectiveSaleAmount ? parseFloat(effectiveSaleAmount) : undefined);
+      // Record the conversion (idempotent per company + orderId, cookie window enforced when clickId is sent)
+      const result = await storage.recordConversion(
+        application.id,
+        effectiveSaleAmount ? parseFloat(effectiveSaleAmount) : undefined,
+        {
+          eventType,
+          orderId,
+          currency,
+          source: 'postback',
+          rawPayload: req.body,
+          clickId,
+          ipAddress: visitorIp || null,
+          userAgent: typeof visitorUserAgent === 'string' ? visitorUserAgent.slice(0, 1000) : null,
+        },
+      );
+      const { conversion, duplicate, rejectedReason } = result;
+
+      if (!conversion) {
+        return res.status(422).json({
+          success: false,
+          error: rejectedReason || "Conversion could not be recorded for this offer's commission type"
+        });
+      }
+
+      await settleRecordedConversion(result);
+
+      if (duplicate) {
+        console.log(`[Postback] Duplicate conversion ignored - Code: ${trackingCode}, Order: ${orderId}, Original: ${conversion.id}`);
+        return res.json({
+          success: true,
+          duplicate: true,
+          message: "Conversion already recorded for this orderId",
+          conversionId: conversion.id,
+          eventType: conversion.eventType,
+          trackingCode: application.trackingCode,
+          orderId: conversion.orderId
+        });
+      }
 
       // Log the postback for audit trail
-      console.log(`[Postback] Conversion recorded - Code: ${trackingCode}, Event: ${eventType}, Amount: ${saleAmount}, Order: ${orderId}`);
+      console.log(`[Postback] Conversion ${result.held ? 'held for verification' : 'recorded'} - Code: ${application.trackingCode}, Click: ${clickId || 'n/a'}, Event: ${eventType}, Amount: ${saleAmount}, Order: ${orderId}`);
 
       res.json({
         success: true,
-        message: "Conversion recorded successfully",
-        conversionId,
+        duplicate: false,
+        message: result.held
+          ? "Conversion recorded and held for verification; earnings are credited once it is approved"
+          : "Conversion recorded successfully",
+        conversionId: conversion.id,
+        status: conversion.status,
         eventType,
-        trackingCode,
-        orderId: orderId || null
+        trackingCode: application.trackingCode,
+        clickId: conversion.clickId,
+        clickToConversionSeconds: conversion.clickToConversionSeconds,
+        orderId: orderId || null,
+        earnings: parseFloat(conversion.earnings)
       });
 
     } catch (error: any) {
@@ -10239,7 +12380,7 @@ res.json(approved);
    * METHOD B from specification: Easy for websites/ecommerce
    *
    * GET /api/tracking/pixel/:code
-   * Query params: ?event=sale&amount=99.99&order_id=123
+   * Query params: ?event=sale&amount=99.99&order_id=123&click_id=clk_...
    *
    * Usage: <img src="https://yourapp.com/api/tracking/pixel/AB12CD34?event=sale&amount=99.99" />
    */
@@ -10250,6 +12391,7 @@ res.json(approved);
         event = 'sale',
         amount,
         order_id,
+        click_id,
         currency = 'USD'
       } = req.query;
 
@@ -10261,6 +12403,18 @@ res.json(approved);
         'Expires': '0'
       });
 
+      // Pixels only record new conversions; refunds/chargebacks must come from a signed postback
+      const eventType = String(event);
+      const saleAmount = parsePixelAmount(amount);
+      if (!isPixelConversionEvent(eventType) || saleAmount === null) {
+        console.log(`[Pixel] Rejected - Code: ${code}, Event: ${eventType.slice(0, 50)}, Amount: ${String(amount).slice(0, 50)}`);
+        return res.status(400).send(getTransparentPixel());
+      }
+      if (!isSupportedCurrency(currency)) {
+        console.log(`[Pixel] Rejected unsupported currency - Code: ${code}, Currency: ${String(currency).slice(0, 20)}`);
+        return res.status(422).send(getTransparentPixel());
+      }
+
       // Look up application by tracking code
       const application = await storage.getApplicationByTrackingCode(code);
       if (!application) {
@@ -10269,11 +12423,26 @@ res.json(approved);
       }
 
       // Record conversion asynchronously (don't block pixel response)
-      const saleAmount = amount ? parseFloat(amount as string) : undefined;
-
-      storage.recordConversion(application.id, saleAmount)
-        .then(() => {
-          console.log(`[Pixel] Conversion recorded - Code: ${code}, Event: ${event}, Amount: ${amount}`);
+      storage.recordConversion(application.id, saleAmount, {
+        eventType,
+        orderId: order_id ? String(order_id) : null,
+        currency: String(currency),
+        source: 'pixel',
+        rawPayload: req.query as Record<string, any>,
+        clickId: click_id ? String(click_id) : null,
+        ipAddress: getClientIp(req),
+        userAgent: req.headers['user-agent'] || null,
+      })
+        .then(async (result) => {
+          const { conversion, duplicate, rejectedReason } = result;
+          await settleRecordedConversion(result);
+          if (rejectedReason) {
+            console.log(`[Pixel] Conversion rejected - Code: ${code}, Click: ${click_id}, Reason: ${rejectedReason}`);
+          } else if (duplicate) {
+            console.log(`[Pixel] Duplicate conversion ignored - Code: ${code}, Order: ${order_id}, Original: ${conversion?.id}`);
+          } else {
+            console.log(`[Pixel] Conversion ${result.held ? 'held for verification' : 'recorded'} - Code: ${code}, Event: ${event}, Amount: ${amount}, Conversion: ${conversion?.id}`);
+          }
         })
         .catch((err: any) => {
           console.error('[Pixel] Error recording conversion:', err);
@@ -10292,11 +12461,11 @@ res.json(approved);
 
   /**
    * Alternative pixel endpoint using /conversion path for cleaner URLs
-   * GET /conversion?code=AB12CD34&event=sale&amount=99.99
+   * GET /conversion?code=AB12CD34&event=sale&amount=99.99&click_id=clk_...
    */
   app.get("/conversion", async (req, res) => {
     try {
-      const { code, event = 'sale', amount, order_id } = req.query;
+      const { code, event = 'sale', amount, order_id, click_id } = req.query;
 
       res.set({
         'Content-Type': 'image/gif',
@@ -10309,16 +12478,35 @@ res.json(approved);
         return res.send(getTransparentPixel());
       }
 
+      const eventType = String(event);
+      const saleAmount = parsePixelAmount(amount);
+      if (!isPixelConversionEvent(eventType) || saleAmount === null) {
+        console.log(`[Pixel] Conversion via /conversion rejected - Code: ${code}, Event: ${eventType.slice(0, 50)}, Amount: ${String(amount).slice(0, 50)}`);
+        return res.status(400).send(getTransparentPixel());
+      }
+
       const application = await storage.getApplicationByTrackingCode(code as string);
       if (!application) {
         return res.send(getTransparentPixel());
       }
 
-      const saleAmount = amount ? parseFloat(amount as string) : undefined;
-
-      storage.recordConversion(application.id, saleAmount)
-        .then(() => {
-          console.log(`[Pixel] Conversion via /conversion - Code: ${code}, Amount: ${amount}`);
+      storage.recordConversion(application.id, saleAmount, {
+        eventType,
+        orderId: order_id ? String(order_id) : null,
+        source: 'pixel',
+        rawPayload: req.query as Record<string, any>,
+        clickId: click_id ? String(click_id) : null,
+        ipAddress: getClientIp(req),
+        userAgent: req.headers['user-agent'] || null,
+      })
+        .then(async (result) => {
+          const { conversion, duplicate, rejectedReason } = result;
+          await settleRecordedConversion(result);
+          if (rejectedReason) {
+            console.log(`[Pixel] Conversion via /conversion rejected - Code: ${code}, Click: ${click_id}, Reason: ${rejectedReason}`);
+            return;
+          }
+          console.log(`[Pixel] Conversion via /conversion - Code: ${code}, Amount: ${amount}, Conversion: ${conversion?.id}${duplicate ? ' (duplicate)' : result.held ? ' (held for verification)' : ''}`);
         })
         .catch((err: any) => {
           console.error('[Pixel] Error:', err);
@@ -10332,6 +12520,143 @@ res.json(approved);
     }
   });
 
+  /**
+   * List recent conversions recorded for the company's offers
+   * GET /api/company/conversions
+   */
+  app.get("/api/company/conversions", requireAuth, requireRole('company'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const companyProfile = await storage.getCompanyProfile(userId);
+
+      if (!companyProfile) {
+        return res.status(404).json({ error: "Company profile not found" });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const conversionList = await storage.getConversionsByCompany(companyProfile.id, limit);
+      res.json(conversionList);
+    } catch (error: any) {
+      console.error('[Company Conversions] Error:', error);
+      res.status(500).json({ error: "Failed to fetch conversions" });
+    }
+  });
+
+  /**
+   * List the creator's shares of recent conversions (multi-touch attribution splits)
+   * GET /api/creator/conversions
+   */
+  app.get("/api/creator/conversions", requireAuth, requireRole('creator'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const shares = await storage.getConversionAttributionsByCreator(userId, limit);
+      res.json(shares);
+    } catch (error: any) {
+      console.error('[Creator Conversions] Error:', error);
+      res.status(500).json({ error: "Failed to fetch conversions" });
+    }
+  });
+
+  /**
+   * Approve (credit) or reject a conversion the fraud rules held as pending verification
+   * POST /api/company/conversions/:id/verify
+   * Body: { action: 'approve' | 'reject', notes? }
+   */
+  app.post("/api/company/conversions/:id/verify", requireAuth, requireRole('company'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const companyProfile = await storage.getCompanyProfile(userId);
+
+      if (!companyProfile) {
+        return res.status(404).json({ error: "Company profile not found" });
+      }
+
+      const { action, notes } = req.body;
+      if (action !== 'approve' && action !== 'reject') {
+        return res.status(400).json({ error: "action must be 'approve' or 'reject'" });
+      }
+      if (notes !== undefined && notes !== null && typeof notes !== 'string') {
+        return res.status(400).json({ error: "notes must be a string" });
+      }
+
+      const existing = await storage.getConversion(req.params.id);
+      if (!existing || existing.companyId !== companyProfile.id) {
+        return res.status(404).json({ error: "Conversion not found" });
+      }
+
+      const result = await fraudReviewService.verifyConversion(existing.id, action, userId, notes);
+      if (result.alreadyResolved) {
+        return res.status(409).json({ error: "This conversion is not pending verification", conversion: result.conversion });
+      }
+      if (result.escrowAlert) {
+        await walletService.notifyEscrowLow(result.escrowAlert);
+      }
+
+      const { logAuditAction, AuditActions, EntityTypes } = await import('./auditLog');
+      await logAuditAction(userId, {
+        action: action === 'approve' ? AuditActions.APPROVE_CONVERSION : AuditActions.REJECT_CONVERSION,
+        entityType: EntityTypes.CONVERSION,
+        entityId: existing.id,
+        changes: { status: result.conversion?.status, paymentIds: result.paymentIds },
+        reason: notes,
+      }, req);
+
+      res.json({ success: true, conversion: result.conversion, paymentIds: result.paymentIds });
+    } catch (error: any) {
+      console.error('[Verify Conversion] Error:', error);
+      res.status(500).json({ error: "Failed to verify conversion" });
+    }
+  });
+
+  /**
+   * Reverse a conversion by orderId (refund or chargeback)
+   * POST /api/company/conversions/reverse
+   * Body: { orderId, reversalType?: 'refund' | 'chargeback', reason? }
+   */
+  app.post("/api/company/conversions/reverse", requireAuth, requireRole('company'), async (req, res) => {
+    try {
+      const userId = (req.user as any).id;
+      const companyProfile = await storage.getCompanyProfile(userId);
+
+      if (!companyProfile) {
+        return res.status(404).json({ error: "Company profile not found" });
+      }
+
+      const { orderId, reversalType = 'refund', reason } = req.body;
+      if (!orderId || typeof orderId !== 'string') {
+        return res.status(400).json({ error: "orderId is required" });
+      }
+      if (!isReversalEvent(reversalType)) {
+        return res.status(400).json({ error: "reversalType must be 'refund' or 'chargeback'" });
+      }
+
+      const reversal = await storage.reverseConversion(companyProfile.id, orderId.trim(), { reversalType, reason });
+
+      if (!reversal.conversion) {
+        return res.status(404).json({ error: "No conversion found for this order ID" });
+      }
+      if (reversal.alreadyReversed) {
+        return res.status(409).json({ error: "This conversion has already been reversed", conversion: reversal.conversion });
+      }
+
+      await ledgerService.recordConversionReversal(reversal.conversion.id, reversal.shares.map((share) => share.paymentId));
+      await notifyConversionReversed(reversal.conversion, reversal.shares);
+
+      res.json({
+        success: true,
+        conversion: reversal.conversion,
+        wasPendingVerification: reversal.wasPendingVerification,
+        paymentAction: reversal.paymentAction,
+        adjustments: reversal.adjustments,
+        shares: reversal.shares,
+      });
+    } catch (error: any) {
+      console.error('[Reverse Conversion] Error:', error);
+      res.status(500).json({ error: "Failed to reverse conversion" });
+    }
+  });
+
   /**
    * Generate/Regenerate API Key for company's tracking integration
    * POST /api/company/tracking/api-key
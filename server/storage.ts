@@ -1,14 +1,33 @@
 // path: src/server/storage.ts
 import { randomUUID } from "crypto";
-import { eq, and, or, desc, asc, sql, count, inArray, gte, lte } from "drizzle-orm";
+import { eq, and, or, desc, asc, sql, count, inArray, gte, lte, isNull, ne, type SQL } from "drizzle-orm";
 import { db, pool } from "./db";
 import geoip from "geoip-lite";
 import {
-  calculateFees,
+  calculateFeesInCurrency,
   DEFAULT_PLATFORM_FEE_PERCENTAGE,
   STRIPE_PROCESSING_FEE_PERCENTAGE,
   formatFeePercentage,
 } from "./feeCalculator";
+import { generateConversionId, generateVisitorFingerprint, isWithinCookieWindow } from "./trackingService";
+import {
+  splitAttribution,
+  allocateByShare,
+  DEFAULT_ATTRIBUTION_LOOKBACK_DAYS,
+  type AttributionModel,
+  type AttributionShare,
+} from "./attributionModels";
+import { convertAmount, isSupportedCurrency, normalizeCurrency } from "./exchangeRates";
+import { fraudulentClickCondition } from "./fraudDetection";
+import { DEFAULT_FRAUD_BLOCK_SCORE, FRAUD_REVIEW_MIN_SCORE, scoreConversion } from "./fraudRules";
+import type { SubIds } from "./deepLinks";
+import { parseUserAgent } from "./userAgent";
+import {
+  parseCommissionRules,
+  getCommissionPeriodStart,
+  evaluateCommissionRules,
+  type AppliedCommissionTier,
+} from "./commissionRules";
 import {
   users,
   creatorProfiles,
@@ -20,13 +39,37 @@ import {
   applications,
   conversations,
   messages,
+  messageTemplates,
+  messageBroadcasts,
+  messageBroadcastRecipients,
   reviews,
   favorites,
   savedSearches,
   analytics,
   clickEvents,
+  analyticsHourly,
+  analyticsRollupQueue,
+  trackingDeepLinks,
+  companyLinkDomains,
   paymentSettings,
   payments,
+  conversions,
+  conversionAttributions,
+  payoutAdjustments,
+  payoutRuns,
+  payoutRunItems,
+  taxProfiles,
+  annualTaxSummaries,
+  ledgerAccounts,
+  ledgerTransactions,
+  ledgerEntries,
+  companyWallets,
+  walletTopUps,
+  escrowReserves,
+  walletTransactions,
+  fraudReviews,
+  fraudRules,
+  payoutHolds,
   retainerPayments,
   retainerContracts,
   retainerApplications,
@@ -66,6 +109,41 @@ import {
   type InsertPaymentSetting,
   type Payment,
   type InsertPayment,
+  type Conversion,
+  type ClickEvent,
+  type ConversionAttribution,
+  type PayoutAdjustment,
+  type PayoutRun,
+  type InsertPayoutRun,
+  type PayoutRunItem,
+  type InsertPayoutRunItem,
+  type TaxProfile,
+  type InsertTaxProfile,
+  type AnnualTaxSummary,
+  type InsertAnnualTaxSummary,
+  type LedgerAccount,
+  type InsertLedgerAccount,
+  type LedgerTransaction,
+  type InsertLedgerTransaction,
+  type LedgerEntry,
+  type CompanyWallet,
+  type WalletTopUp,
+  type InsertWalletTopUp,
+  type EscrowReserve,
+  type WalletTransaction,
+  type FraudRule,
+  type DeepLink,
+  type CompanyLinkDomain,
+  type InsertCompanyLinkDomain,
+  type InsertDeepLink,
+  type SubIdField,
+  type AnalyticsRollupDimension,
+  type AnalyticsRollupGranularity,
+  type InsertFraudRule,
+  type FraudReview,
+  type InsertFraudReview,
+  type PayoutHold,
+  type InsertPayoutHold,
   type RetainerPayment,
   type InsertRetainerPayment,
   type RetainerContract,
@@ -90,8 +168,65 @@ import {
   type InsertCompanyVerificationDocument,
   type EmailTemplate,
   type InsertEmailTemplate,
+  type Conversation,
+  type ConversationContext,
+  type MessageTemplate,
+  type InsertMessageTemplate,
+  type MessageBroadcast,
+  type MessageBroadcastRecipient,
 } from "../shared/schema";
 
+// ts_headline marks matches with control characters that can't be typed into a message, so the
+// snippet is split into plain and matched parts without rendering message content as HTML
+// The database or an open transaction; writes that must commit together take one of these
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type DbExecutor = typeof db | DbTransaction;
+
+const HEADLINE_MATCH_START = "\u0001";
+const HEADLINE_MATCH_END = "\u0002";
+const MESSAGE_SEARCH_HEADLINE_OPTIONS =
+  `StartSel="${HEADLINE_MATCH_START}", StopSel="${HEADLINE_MATCH_END}", MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`;
+
+function splitHeadline(headline: string): Array<{ text: string; match: boolean }> {
+  const parts: Array<{ text: string; match: boolean }> = [];
+  headline.split(HEADLINE_MATCH_START).forEach((segment, index) => {
+    const [matched, rest] = index === 0 ? [null, segment] : segment.split(HEADLINE_MATCH_END);
+    if (matched) parts.push({ text: matched, match: true });
+    if (rest) parts.push({ text: rest, match: false });
+  });
+  return parts;
+}
+
+// Entries per list in a click device/OS/browser breakdown before the rest are grouped as "Other"
+const CLICK_BREAKDOWN_MAX_ITEMS = 8;
+
+const ANALYTICS_ROLLUP_GRANULARITY_SQL: Record<AnalyticsRollupGranularity, string> = {
+  hour: "'hour'",
+  day: "'day'",
+  week: "'week'",
+  month: "'month'",
+};
+
+const ANALYTICS_ROLLUP_DIMENSION_COLUMNS = {
+  offer: { key: "offerId", column: analyticsHourly.offerId },
+  creator: { key: "creatorId", column: analyticsHourly.creatorId },
+  application: { key: "applicationId", column: analyticsHourly.applicationId },
+  country: { key: "country", column: analyticsHourly.country },
+  utm_source: { key: "utmSource", column: analyticsHourly.utmSource },
+  device: { key: "device", column: analyticsHourly.deviceType },
+} as const;
+
+// Rough device type of a user agent expression ('' when there is none), for clicks logged before
+// click_events.device_type was parsed and for conversions without a click
+function deviceTypeSql(userAgent: SQL): SQL {
+  return sql`CASE
+    WHEN COALESCE(${userAgent}, '') = '' THEN ''
+    WHEN lower(${userAgent}) LIKE '%mobile%' THEN 'mobile'
+    WHEN lower(${userAgent}) LIKE '%tablet%' THEN 'tablet'
+    ELSE 'desktop'
+  END`;
+}
+
 /**
  * Postgres error codes related to missing schema objects:
  *  - 42P01: undefined_table
@@ -604,6 +739,294 @@ export interface AdminCreatorSummary {
     | null;
 }
 
+export interface RecordConversionOptions {
+  eventType?: string;
+  orderId?: string | null;
+  // Currency of saleAmount (defaults to the offer currency); unsupported codes are rejected, not normalized
+  currency?: string;
+  source?: Conversion["source"];
+  rawPayload?: Record<string, any> | null;
+  // Click id minted by /go/:code; when present the conversion must fall inside the offer's cookie window
+  clickId?: string | null;
+  // Converting visitor (pixel request, or forwarded by the company's postback), used by the conversion fraud rules
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface RecordConversionResult {
+  conversion: Conversion | null;
+  // True when a conversion with the same orderId was already recorded for this company
+  duplicate: boolean;
+  // Set when the conversion was refused (unknown click id, click from another application, cookie window expired)
+  rejectedReason?: string;
+  // Payments created for a newly recorded conversion (one per attributed creator)
+  paymentIds?: string[];
+  // Set when drawing the commission left the offer's escrow reserve low
+  escrowAlert?: EscrowAlert;
+  // True when the fraud rules held the conversion as pending verification (nothing credited yet)
+  held?: boolean;
+  // Reason given by the highest-weighted conversion fraud rule that matched
+  fraudReason?: string;
+}
+
+export interface VerifyConversionResult {
+  conversion: Conversion | null;
+  // True when the conversion was no longer pending verification (already approved or rejected)
+  alreadyResolved: boolean;
+  paymentIds: string[];
+  escrowAlert?: EscrowAlert;
+}
+
+export interface ClickToConversionStats {
+  attributedConversions: number;
+  avgSeconds: number | null;
+  medianSeconds: number | null;
+  minSeconds: number | null;
+  maxSeconds: number | null;
+}
+
+export interface ClickBreakdownItem {
+  name: string;
+  clicks: number;
+}
+
+export interface ClickDeviceBreakdown {
+  totalClicks: number;
+  devices: ClickBreakdownItem[];
+  operatingSystems: ClickBreakdownItem[];
+  browsers: ClickBreakdownItem[];
+}
+
+export interface OfferFunnel {
+  offerId: string;
+  offerTitle: string;
+  views: number;
+  applications: number;
+  approved: number;
+  clicked: number; // Approved applications with at least one counted click
+  converted: number; // Applications with at least one credited conversion
+  medianHoursToFirstClick: number | null; // From approval
+  medianHoursToFirstConversion: number | null; // From first click
+}
+
+export interface CreatorCohort {
+  cohortMonth: string; // YYYY-MM of the creators' first approval
+  creators: number;
+  activeByMonth: number[]; // Index 0 = approval month; creators with counted clicks in each later month
+}
+
+export interface MessageSearchFilters {
+  query: string; // websearch syntax: words, "quoted phrases", -excluded
+  offerId?: string;
+  creatorId?: string;
+  companyId?: string;
+  from?: Date;
+  to?: Date;
+  hasAttachment?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface MessageSearchResult {
+  messageId: string;
+  conversationId: string;
+  senderId: string;
+  senderType: string | null;
+  createdAt: Date | null;
+  hasAttachment: boolean;
+  snippet: Array<{ text: string; match: boolean }>; // Excerpt around the matches; match parts are highlighted
+  contextType: ConversationContext;
+  offerId: string | null;
+  offerTitle: string | null;
+  retainerContractTitle: string | null;
+  creator: { id: string; name: string | null };
+  company: { id: string; name: string | null };
+}
+
+export interface BroadcastAudienceMember {
+  applicationId: string;
+  creatorId: string;
+  status: string;
+  clicks: number;
+  conversions: number;
+  earnings: number;
+}
+
+export interface MessageBroadcastWithStats extends MessageBroadcast {
+  delivered: number; // Recipients whose message was stored and published
+  failed: number;
+  read: number; // Delivered messages the creator has read
+}
+
+export interface DeepLinkWithStats extends DeepLink {
+  clicks: number;
+  conversions: number;
+}
+
+export interface SubIdBreakdownRow {
+  value: string | null;
+  clicks: number;
+  conversions: number;
+  earnings: string;
+}
+
+export interface AnalyticsRollupFilters {
+  from: Date;
+  to: Date;
+  companyId?: string;
+  creatorId?: string;
+  offerId?: string;
+  applicationId?: string;
+  country?: string;
+  utmSource?: string;
+  device?: string;
+}
+
+export interface AnalyticsRollupRow {
+  bucket: Date; // Start of the hour/day/week/month
+  offerId?: string;
+  offerTitle?: string | null;
+  creatorId?: string;
+  creatorName?: string | null;
+  applicationId?: string;
+  country?: string;
+  utmSource?: string;
+  device?: string;
+  clicks: number;
+  uniqueClicks: number; // Sum of hourly unique clicks
+  conversions: number;
+  earnings: string;
+  fraudBlockedClicks: number;
+  geoBlockedClicks: number;
+}
+
+export interface ReverseConversionOptions {
+  reason?: string;
+  reversalType?: "refund" | "chargeback" | "manual" | "fraud";
+}
+
+export type ReversalPaymentAction = "payment_cancelled" | "adjustment_created" | "none";
+
+export interface ReversedShare {
+  applicationId: string;
+  creatorId: string;
+  earnings: string;
+  paymentId: string | null;
+  paymentAction: ReversalPaymentAction;
+}
+
+export interface ReverseConversionResult {
+  conversion: Conversion | null;
+  alreadyReversed: boolean;
+  // The conversion was still held for fraud verification: nothing had been credited, so nothing was debited
+  wasPendingVerification: boolean;
+  // What happened to the payment(s) created for the conversion; "adjustment_created" wins if shares differ
+  paymentAction: ReversalPaymentAction;
+  adjustments: PayoutAdjustment[];
+  // One entry per attributed creator
+  shares: ReversedShare[];
+}
+
+// Approved payment not yet in a payout run, with the offer's minimum payout (in the offer currency)
+export interface PayablePayment {
+  payment: Payment;
+  offerMinimumPayout: string | null;
+}
+
+// Completed payouts for one creator, month and currency (source of the annual tax summaries)
+export interface CreatorEarningsRow {
+  creatorId: string;
+  source: "affiliate" | "retainer";
+  currency: string;
+  month: number; // 1-12
+  grossAmount: number;
+  feesAmount: number;
+  netAmount: number;
+  paymentCount: number;
+}
+
+// One debit or credit line of a ledger posting
+export interface LedgerLine {
+  accountId: string;
+  debit: string;
+  credit: string;
+}
+
+// Debit and credit totals for one ledger account (a trial balance row)
+export interface LedgerAccountBalance {
+  account: LedgerAccount;
+  debit: number;
+  credit: number;
+}
+
+export interface LedgerStatementLine {
+  entry: LedgerEntry;
+  transaction: LedgerTransaction;
+}
+
+// Remaining amount below which a reserve counts as low (10% of the funded amount unless configured)
+export function getEscrowLowBalanceThreshold(reserve: EscrowReserve): number {
+  return reserve.lowBalanceThreshold !== null
+    ? parseFloat(reserve.lowBalanceThreshold)
+    : parseFloat(reserve.fundedAmount) * 0.1;
+}
+
+export interface EscrowReserveWithTarget extends EscrowReserve {
+  offerTitle: string | null;
+  contractTitle: string | null;
+}
+
+export interface EscrowDrawResult {
+  reserve: EscrowReserve;
+  drawn: number;
+  // Part of the requested amount the reserve could not cover
+  shortfall: number;
+  isLow: boolean;
+}
+
+// A reserve that ran low while drawing; the offer is paused when it was live
+export interface EscrowAlert {
+  reserve: EscrowReserve;
+  offerPaused: boolean;
+  shortfall: number;
+}
+
+export interface FraudReviewFilter {
+  status?: FraudReview["status"];
+  itemType?: FraudReview["itemType"];
+  creatorId?: string;
+  offerId?: string;
+  limit?: number;
+}
+
+export interface FraudReviewWithDetails extends FraudReview {
+  creatorName: string;
+  offerTitle: string | null;
+  // Click reviews
+  ipAddress: string | null;
+  userAgent: string | null;
+  country: string | null;
+  clickedAt: Date | null;
+  // Conversion reviews
+  orderId: string | null;
+  earnings: string | null;
+  currency: string | null;
+  conversionStatus: Conversion["status"] | null;
+}
+
+export interface FraudRateRow {
+  id: string;
+  name: string;
+  totalClicks: number;
+  flaggedClicks: number;
+  fraudulentClicks: number;
+  fraudRate: number; // Percentage of totalClicks
+}
+
+export interface PayoutHoldWithCreator extends PayoutHold {
+  creatorName: string;
+}
+
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | undefined>;
@@ -664,11 +1087,13 @@ export interface IStorage {
   // Applications
   getApplication(id: string): Promise<Application | undefined>;
   getApplicationByTrackingCode(trackingCode: string): Promise<Application | undefined>;
+  getApplicationByVanitySlug(slug: string): Promise<Application | undefined>;
+  setApplicationVanitySlug(id: string, slug: string | null): Promise<Application | undefined>;
   getApplicationsByCreator(creatorId: string): Promise<Application[]>;
   getApplicationsByOffer(offerId: string): Promise<Application[]>;
   getExistingApplication(creatorId: string, offerId: string): Promise<Application | undefined>;
   getActiveCreatorsCountForOffer(offerId: string): Promise<number>;
-  getOfferClickStats(offerId: string): Promise<{ totalClicks: number; uniqueClicks: number }>;
+  getOfferClickStats(offerId: string): Promise<{ totalClicks: number; uniqueClicks: number; geoBlockedClicks: number }>;
   getAllPendingApplications(): Promise<Application[]>;
   createApplication(application: InsertApplication): Promise<Application>;
   updateApplication(id: string, updates: Partial<InsertApplication>): Promise<Application | undefined>;
@@ -677,6 +1102,34 @@ export interface IStorage {
   completeApplication(id: string): Promise<Application | undefined>;
   getApplicationsByCompany(companyId: string): Promise<any[]>;
 
+  // Tracking Deep Links
+  getDeepLink(id: string): Promise<DeepLink | undefined>;
+  getDeepLinkByCode(applicationId: string, code: string): Promise<DeepLink | undefined>;
+  getDeepLinksByApplication(applicationId: string): Promise<DeepLinkWithStats[]>;
+  createDeepLink(deepLink: InsertDeepLink): Promise<DeepLink>;
+  deleteDeepLink(id: string): Promise<void>;
+  getSubIdBreakdown(applicationId: string, field: SubIdField): Promise<SubIdBreakdownRow[]>;
+
+  // Company Link Domains
+  getLinkDomainByCompany(companyId: string): Promise<CompanyLinkDomain | undefined>;
+  getLinkDomainByDomain(domain: string): Promise<CompanyLinkDomain | undefined>;
+  createLinkDomain(linkDomain: InsertCompanyLinkDomain): Promise<CompanyLinkDomain>;
+  markLinkDomainVerified(id: string): Promise<CompanyLinkDomain | undefined>;
+  deleteLinkDomain(id: string): Promise<void>;
+
+  // Analytics Rollups
+  queueAnalyticsRollupHours(times: Array<Date | null | undefined>, executor?: DbExecutor): Promise<void>;
+  queueAnalyticsRollupRange(from: Date, to: Date): Promise<number>;
+  claimAnalyticsRollupHours(limit: number): Promise<Date[]>;
+  countQueuedAnalyticsRollupHours(): Promise<number>;
+  rebuildAnalyticsHour(hour: Date): Promise<number>;
+  getAnalyticsRollupSeries(
+    granularity: AnalyticsRollupGranularity,
+    groupBy: AnalyticsRollupDimension[],
+    filters: AnalyticsRollupFilters,
+    limit: number,
+  ): Promise<AnalyticsRollupRow[]>;
+
   // Messages & Conversations
   getConversation(id: string): Promise<any>;
   getConversationWithDetails(id: string): Promise<any>;
@@ -686,10 +1139,44 @@ export interface IStorage {
     companyProfileId?: string | null,
   ): Promise<any[]>;
   createConversation(data: any): Promise<any>;
+  findConversation(filter: {
+    companyId: string;
+    creatorId: string;
+    contextType: ConversationContext;
+    applicationId?: string;
+    retainerContractId?: string;
+    retainerApplicationId?: string;
+  }): Promise<Conversation | undefined>;
+  countOutreachConversationsSince(companyId: string, since: Date): Promise<number>;
+  countConversationMessagesBySender(conversationId: string, senderId: string): Promise<number>;
   createMessage(message: InsertMessage): Promise<Message>;
   createAdminMessage(conversationId: string, adminId: string, content: string): Promise<Message>;
   getMessages(conversationId: string): Promise<Message[]>;
-  markMessagesAsRead(conversationId: string, userId: string): Promise<void>;
+  markMessagesAsRead(conversationId: string, userId: string): Promise<{ messageIds: string[]; readAt: Date }>;
+
+  // Searches messages the viewer can see: a company's or creator's own conversations, minus messages
+  // they deleted for themselves; every message for admins
+  searchMessages(
+    viewer: { userId: string; role: string; companyProfileId?: string | null },
+    filters: MessageSearchFilters,
+  ): Promise<{ results: MessageSearchResult[]; total: number }>;
+
+  // Message Broadcasts
+  getOfferBroadcastAudience(offerId: string, statuses: readonly string[]): Promise<BroadcastAudienceMember[]>;
+  createMessageBroadcast(data: typeof messageBroadcasts.$inferInsert): Promise<MessageBroadcast>;
+  // Broadcasts a company sent since `since`, optionally only those on one offer
+  countMessageBroadcastsSince(companyId: string, since: Date, offerId?: string): Promise<number>;
+  createMessageBroadcastRecipient(data: typeof messageBroadcastRecipients.$inferInsert): Promise<MessageBroadcastRecipient>;
+  getMessageBroadcastsWithStats(offerId: string): Promise<MessageBroadcastWithStats[]>;
+
+  // Saved Reply Templates
+  getMessageTemplates(companyId: string): Promise<MessageTemplate[]>;
+  getMessageTemplate(id: string): Promise<MessageTemplate | undefined>;
+  createMessageTemplates(companyId: string, templates: InsertMessageTemplate[], userId?: string): Promise<MessageTemplate[]>;
+  updateMessageTemplate(id: string, updates: Partial<InsertMessageTemplate>, userId?: string): Promise<MessageTemplate | undefined>;
+  deleteMessageTemplate(id: string): Promise<boolean>;
+  recordMessageTemplateUse(id: string): Promise<MessageTemplate | undefined>;
+  seedMessageTemplates(companyId: string, templates: InsertMessageTemplate[], userId?: string): Promise<boolean>;
 
   // Reviews
   getReview(id: string): Promise<Review | undefined>;
@@ -725,20 +1212,158 @@ export interface IStorage {
   logTrackingClick(
     applicationId: string,
     clickData: {
+      clickId?: string;
       ip: string;
       userAgent: string;
       referer: string;
       timestamp: Date;
+      geoBlocked?: boolean;
       fraudScore?: number;
+      fraudBlocked?: boolean;
       fraudFlags?: string;
+      fraudReason?: string;
       utmSource?: string;
       utmMedium?: string;
       utmCampaign?: string;
       utmTerm?: string;
       utmContent?: string;
+      deepLinkId?: string;
+      subIds?: SubIds;
     },
   ): Promise<void>;
-  recordConversion(applicationId: string, saleAmount?: number): Promise<void>;
+  recordConversion(
+    applicationId: string,
+    saleAmount?: number,
+    options?: RecordConversionOptions,
+  ): Promise<RecordConversionResult>;
+  getConversion(id: string): Promise<Conversion | undefined>;
+  getConversionByOrderId(companyId: string, orderId: string): Promise<Conversion | undefined>;
+  getConversionsByCompany(companyId: string, limit?: number): Promise<any[]>;
+  getClickEventByClickId(clickId: string): Promise<ClickEvent | undefined>;
+  getConversionAttributions(conversionId: string): Promise<ConversionAttribution[]>;
+  countCreatorConversions(creatorId: string, offerId: string, since: Date | null): Promise<number>;
+  getCreatorPayoutCurrency(creatorId: string): Promise<string>;
+  getConversionAttributionsByCreator(creatorId: string, limit?: number): Promise<any[]>;
+  getClickToConversionStats(filter: { companyId?: string; creatorId?: string }): Promise<ClickToConversionStats>;
+  getClickDeviceBreakdown(
+    filter: { companyId?: string; creatorId?: string; offerId?: string; applicationId?: string },
+    dateRange?: string,
+  ): Promise<ClickDeviceBreakdown>;
+  getOfferFunnels(companyId: string, offerId?: string): Promise<OfferFunnel[]>;
+  getCreatorCohortRetention(companyId: string, options?: { offerId?: string; months?: number }): Promise<CreatorCohort[]>;
+  reverseConversion(
+    companyId: string,
+    orderId: string,
+    options?: ReverseConversionOptions,
+  ): Promise<ReverseConversionResult>;
+  reverseConversionById(conversionId: string, options?: ReverseConversionOptions): Promise<ReverseConversionResult>;
+  creditPendingConversion(conversionId: string, verifiedBy: string, notes?: string | null): Promise<VerifyConversionResult>;
+  rejectPendingConversion(conversionId: string, verifiedBy: string, notes?: string | null): Promise<VerifyConversionResult>;
+  getOutstandingPayoutAdjustments(creatorId: string, currency: string): Promise<PayoutAdjustment[]>;
+  applyPayoutAdjustments(creatorId: string, currency: string, paymentId: string, maxAmount: number): Promise<number>;
+
+  // Payout Runs
+  getPayablePayments(): Promise<PayablePayment[]>;
+  createPayoutRun(run: InsertPayoutRun): Promise<PayoutRun>;
+  updatePayoutRun(id: string, updates: Partial<InsertPayoutRun>): Promise<PayoutRun | undefined>;
+  getPayoutRun(id: string): Promise<PayoutRun | undefined>;
+  getPayoutRuns(limit?: number): Promise<PayoutRun[]>;
+  getProcessingPayoutRun(): Promise<PayoutRun | undefined>;
+  createPayoutRunItem(item: InsertPayoutRunItem, paymentIds: string[]): Promise<PayoutRunItem>;
+  updatePayoutRunItem(id: string, updates: Partial<InsertPayoutRunItem>): Promise<PayoutRunItem | undefined>;
+  getPayoutRunItems(runId: string): Promise<any[]>;
+  getPayoutRunItemPayments(itemId: string): Promise<Payment[]>;
+  releaseSettledPayoutRunItemPayments(itemId: string): Promise<Payment[]>;
+  completePayoutRunItemPayments(
+    itemId: string,
+    details: { providerTransactionId?: string; providerResponse?: any },
+  ): Promise<void>;
+
+  // Tax Profiles
+  getTaxProfile(userId: string): Promise<TaxProfile | undefined>;
+  getTaxProfilesByUserIds(userIds: string[]): Promise<TaxProfile[]>;
+  upsertTaxProfile(profile: InsertTaxProfile): Promise<TaxProfile>;
+  getCreatorEarningsForYear(taxYear: number, creatorId?: string): Promise<CreatorEarningsRow[]>;
+  upsertAnnualTaxSummary(summary: InsertAnnualTaxSummary): Promise<AnnualTaxSummary>;
+  getAnnualTaxSummary(userId: string, taxYear: number): Promise<AnnualTaxSummary | undefined>;
+  getAnnualTaxSummariesByUser(userId: string): Promise<AnnualTaxSummary[]>;
+  getAnnualTaxSummaries(taxYear: number): Promise<any[]>;
+
+  // Ledger
+  getOrCreateLedgerAccount(account: InsertLedgerAccount): Promise<LedgerAccount>;
+  getLedgerAccount(id: string): Promise<LedgerAccount | undefined>;
+  postLedgerTransaction(
+    transaction: InsertLedgerTransaction,
+    lines: LedgerLine[],
+  ): Promise<{ transaction: LedgerTransaction; created: boolean }>;
+  getLedgerTransactionsForPayment(paymentId: string): Promise<LedgerTransaction[]>;
+  getLedgerTrialBalance(options?: { currency?: string; asOf?: Date }): Promise<LedgerAccountBalance[]>;
+  getLedgerAccountTotals(accountId: string, before?: Date): Promise<{ debit: number; credit: number }>;
+  getLedgerAccountStatement(
+    accountId: string,
+    options?: { from?: Date; to?: Date; limit?: number },
+  ): Promise<LedgerStatementLine[]>;
+
+  // Company Wallets & Escrow
+  getCompanyWallet(companyId: string): Promise<CompanyWallet>;
+  // Currency of the company's wallet without creating one (USD, the wallet default, when it has none yet)
+  getCompanyWalletCurrency(companyId: string): Promise<string>;
+  createWalletTopUp(topUp: InsertWalletTopUp): Promise<WalletTopUp>;
+  updateWalletTopUp(id: string, updates: Partial<InsertWalletTopUp>): Promise<WalletTopUp | undefined>;
+  getWalletTopUpBySession(stripeCheckoutSessionId: string): Promise<WalletTopUp | undefined>;
+  completeWalletTopUp(
+    id: string,
+    stripePaymentIntentId?: string | null,
+  ): Promise<{ topUp: WalletTopUp | undefined; credited: boolean }>;
+  getEscrowReserve(id: string): Promise<EscrowReserve | undefined>;
+  getEscrowReserveByOffer(offerId: string): Promise<EscrowReserve | undefined>;
+  getEscrowReserveByContract(retainerContractId: string): Promise<EscrowReserve | undefined>;
+  getEscrowReservesByCompany(companyId: string): Promise<EscrowReserveWithTarget[]>;
+  reserveEscrowFunds(
+    companyId: string,
+    target: { offerId?: string | null; retainerContractId?: string | null },
+    amount: number,
+    options?: { lowBalanceThreshold?: number | null; createdBy?: string | null },
+  ): Promise<EscrowReserve>;
+  releaseEscrowFunds(id: string, createdBy?: string | null): Promise<EscrowReserve | undefined>;
+  drawEscrowFunds(
+    id: string,
+    amount: number,
+    source: { paymentId?: string | null; retainerPaymentId?: string | null; description: string },
+    executor?: DbExecutor,
+  ): Promise<EscrowDrawResult | undefined>;
+  refundEscrowDraws(paymentIds: string[], description: string): Promise<WalletTransaction[]>;
+  pauseOfferForEscrow(offerId: string, reserveId: string, executor?: DbExecutor): Promise<boolean>;
+  markEscrowLowBalanceNotified(id: string): Promise<void>;
+  getWalletTransactions(companyId: string, limit?: number): Promise<WalletTransaction[]>;
+
+  // Fraud Rules
+  getFraudRules(): Promise<FraudRule[]>;
+  getFraudRule(id: string): Promise<FraudRule | undefined>;
+  getFraudRuleByCode(code: string): Promise<FraudRule | undefined>;
+  createFraudRule(rule: InsertFraudRule): Promise<FraudRule>;
+  updateFraudRule(id: string, updates: Partial<InsertFraudRule>): Promise<FraudRule | undefined>;
+  deleteFraudRule(id: string): Promise<FraudRule | undefined>;
+
+  // Fraud Review Queue
+  createFraudReview(review: InsertFraudReview): Promise<FraudReview | undefined>;
+  getFraudReviewByConversion(conversionId: string): Promise<FraudReview | undefined>;
+  getFraudReviewByClickEvent(clickEventId: string): Promise<FraudReview | undefined>;
+  getFraudReviews(filter?: FraudReviewFilter): Promise<FraudReviewWithDetails[]>;
+  resolveFraudReviews(
+    ids: string[],
+    status: "approved" | "invalidated",
+    reviewedBy: string,
+    notes?: string | null,
+  ): Promise<FraudReview[]>;
+  getFraudRates(groupBy: "creator" | "offer", since: Date): Promise<FraudRateRow[]>;
+  getCreatorFraudRate(creatorId: string, since: Date): Promise<{ totalClicks: number; fraudulentClicks: number; fraudRate: number }>;
+
+  // Payout Holds
+  getActivePayoutHold(creatorId: string): Promise<PayoutHold | undefined>;
+  getPayoutHolds(status?: PayoutHold["status"]): Promise<PayoutHoldWithCreator[]>;
+  createPayoutHold(hold: InsertPayoutHold): Promise<PayoutHold | undefined>;
+  releasePayoutHold(id: string, releasedBy: string | null, notes?: string | null): Promise<PayoutHold | undefined>;
 
   // Payment Settings
   getPaymentSettings(userId: string): Promise<PaymentSetting[]>;
@@ -746,7 +1371,7 @@ export interface IStorage {
   deletePaymentSetting(id: string): Promise<void>;
 
   // Payments
-  createPayment(payment: InsertPayment): Promise<Payment>;
+  createPayment(payment: InsertPayment, executor?: DbExecutor): Promise<Payment>;
   getPayment(id: string): Promise<Payment | undefined>;
   getPaymentsByCreator(creatorId: string): Promise<Payment[]>;
   getPaymentsByCompany(companyId: string): Promise<Payment[]>;
@@ -1899,6 +2524,7 @@ export class DatabaseStorage implements IStorage {
           activeCreatorsCount,
           totalClicks: clickStats.totalClicks,
           uniqueClicks: clickStats.uniqueClicks,
+          geoBlockedClicks: clickStats.geoBlockedClicks,
           applicationCount, 
         };
       })
@@ -1993,7 +2619,18 @@ export class DatabaseStorage implements IStorage {
       RETURNING *
     `);
 
-    return result.rows[0] as Offer;
+    const created = result.rows[0] as Offer;
+
+    // Geo routing settings are not part of the raw INSERT above
+    if (offer.geoFallbackUrl || offer.geoDestinations) {
+      const updated = await this.updateOffer(created.id, {
+        geoFallbackUrl: offer.geoFallbackUrl || null,
+        geoDestinations: offer.geoDestinations || null,
+      });
+      return updated ?? created;
+    }
+
+    return created;
   }
 
   async updateOffer(id: string, updates: Partial<InsertOffer>): Promise<Offer | undefined> {
@@ -2357,6 +2994,24 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async getApplicationByVanitySlug(slug: string): Promise<Application | undefined> {
+    const result = await db
+      .select()
+      .from(applications)
+      .where(eq(applications.vanitySlug, slug))
+      .limit(1);
+    return result[0];
+  }
+
+  async setApplicationVanitySlug(id: string, slug: string | null): Promise<Application | undefined> {
+    const result = await db
+      .update(applications)
+      .set({ vanitySlug: slug, updatedAt: new Date() })
+      .where(eq(applications.id, id))
+      .returning();
+    return result[0];
+  }
+
   async getApplicationsByCreator(creatorId: string): Promise<Application[]> {
     try {
       const result = await db
@@ -2409,11 +3064,12 @@ export class DatabaseStorage implements IStorage {
     return Number(result[0]?.count || 0);
   }
 
-  async getOfferClickStats(offerId: string): Promise<{ totalClicks: number; uniqueClicks: number }> {
+  async getOfferClickStats(offerId: string): Promise<{ totalClicks: number; uniqueClicks: number; geoBlockedClicks: number }> {
     const result = await db
       .select({
         totalClicks: sql<number>`COALESCE(SUM(${analytics.clicks}), 0)`,
         uniqueClicks: sql<number>`COALESCE(SUM(${analytics.uniqueClicks}), 0)`,
+        geoBlockedClicks: sql<number>`COALESCE(SUM(${analytics.geoBlockedClicks}), 0)`,
       })
       .from(analytics)
       .where(eq(analytics.offerId, offerId));
@@ -2421,6 +3077,7 @@ export class DatabaseStorage implements IStorage {
     return {
       totalClicks: Number(result[0]?.totalClicks || 0),
       uniqueClicks: Number(result[0]?.uniqueClicks || 0),
+      geoBlockedClicks: Number(result[0]?.geoBlockedClicks || 0),
     };
   }
 
@@ -2593,6 +3250,318 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  // Tracking Deep Links
+  async getDeepLink(id: string): Promise<DeepLink | undefined> {
+    const result = await db.select().from(trackingDeepLinks).where(eq(trackingDeepLinks.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getDeepLinkByCode(applicationId: string, code: string): Promise<DeepLink | undefined> {
+    const result = await db
+      .select()
+      .from(trackingDeepLinks)
+      .where(and(eq(trackingDeepLinks.applicationId, applicationId), eq(trackingDeepLinks.code, code)))
+      .limit(1);
+    return result[0];
+  }
+
+  async getDeepLinksByApplication(applicationId: string): Promise<DeepLinkWithStats[]> {
+    return await db
+      .select({
+        id: trackingDeepLinks.id,
+        applicationId: trackingDeepLinks.applicationId,
+        code: trackingDeepLinks.code,
+        label: trackingDeepLinks.label,
+        destinationUrl: trackingDeepLinks.destinationUrl,
+        sub1: trackingDeepLinks.sub1,
+        sub2: trackingDeepLinks.sub2,
+        sub3: trackingDeepLinks.sub3,
+        sub4: trackingDeepLinks.sub4,
+        sub5: trackingDeepLinks.sub5,
+        createdAt: trackingDeepLinks.createdAt,
+        updatedAt: trackingDeepLinks.updatedAt,
+        clicks: sql<number>`(SELECT COUNT(*)::int FROM click_events ce WHERE ce.deep_link_id = ${trackingDeepLinks.id} AND ce.fraud_blocked = false AND ce.geo_blocked = false)`,
+        conversions: sql<number>`(SELECT COUNT(*)::int FROM conversions c WHERE c.deep_link_id = ${trackingDeepLinks.id} AND c.status = 'credited')`,
+      })
+      .from(trackingDeepLinks)
+      .where(eq(trackingDeepLinks.applicationId, applicationId))
+      .orderBy(desc(trackingDeepLinks.createdAt));
+  }
+
+  async createDeepLink(deepLink: InsertDeepLink): Promise<DeepLink> {
+    const result = await db
+      .insert(trackingDeepLinks)
+      .values({ ...deepLink, id: randomUUID() })
+      .returning();
+    return result[0];
+  }
+
+  async deleteDeepLink(id: string): Promise<void> {
+    await db.delete(trackingDeepLinks).where(eq(trackingDeepLinks.id, id));
+  }
+
+  // Clicks (not fraud- or geo-blocked) and credited conversions per value of one sub-id
+  async getSubIdBreakdown(applicationId: string, field: SubIdField): Promise<SubIdBreakdownRow[]> {
+    const clickRows = await db
+      .select({ value: clickEvents[field], clicks: sql<number>`COUNT(*)::int` })
+      .from(clickEvents)
+      .where(and(
+        eq(clickEvents.applicationId, applicationId),
+        eq(clickEvents.fraudBlocked, false),
+        eq(clickEvents.geoBlocked, false),
+      ))
+      .groupBy(clickEvents[field]);
+
+    const conversionRows = await db
+      .select({
+        value: conversions[field],
+        conversions: sql<number>`COUNT(*)::int`,
+        earnings: sql<string>`COALESCE(SUM(${conversions.earnings}), 0)::text`,
+      })
+      .from(conversions)
+      .where(and(eq(conversions.applicationId, applicationId), eq(conversions.status, "credited")))
+      .groupBy(conversions[field]);
+
+    const rows = new Map<string | null, SubIdBreakdownRow>();
+    for (const row of clickRows) {
+      rows.set(row.value, { value: row.value, clicks: row.clicks, conversions: 0, earnings: "0" });
+    }
+    for (const row of conversionRows) {
+      const existing = rows.get(row.value) ?? { value: row.value, clicks: 0, conversions: 0, earnings: "0" };
+      rows.set(row.value, { ...existing, conversions: row.conversions, earnings: row.earnings });
+    }
+
+    return Array.from(rows.values()).sort((a, b) => b.conversions - a.conversions || b.clicks - a.clicks);
+  }
+
+  // Company Link Domains
+  async getLinkDomainByCompany(companyId: string): Promise<CompanyLinkDomain | undefined> {
+    const result = await db.select().from(companyLinkDomains).where(eq(companyLinkDomains.companyId, companyId)).limit(1);
+    return result[0];
+  }
+
+  async getLinkDomainByDomain(domain: string): Promise<CompanyLinkDomain | undefined> {
+    const result = await db.select().from(companyLinkDomains).where(eq(companyLinkDomains.domain, domain)).limit(1);
+    return result[0];
+  }
+
+  async createLinkDomain(linkDomain: InsertCompanyLinkDomain): Promise<CompanyLinkDomain> {
+    const result = await db
+      .insert(companyLinkDomains)
+      .values({ ...linkDomain, id: randomUUID() })
+      .returning();
+    return result[0];
+  }
+
+  async markLinkDomainVerified(id: string): Promise<CompanyLinkDomain | undefined> {
+    const result = await db
+      .update(companyLinkDomains)
+      .set({ verified: true, verifiedAt: new Date(), updatedAt: new Date() })
+      .where(eq(companyLinkDomains.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteLinkDomain(id: string): Promise<void> {
+    await db.delete(companyLinkDomains).where(eq(companyLinkDomains.id, id));
+  }
+
+  // Analytics Rollups
+  // Queue the hours containing these times for a rollup rebuild. Rollups are derived data, so a
+  // failure here is logged rather than failing the click or conversion that triggered it.
+  async queueAnalyticsRollupHours(times: Array<Date | null | undefined>, executor: DbExecutor = db): Promise<void> {
+    const hours = new Map<number, Date>();
+    for (const time of times) {
+      if (!time) continue;
+      const hour = new Date(time);
+      hour.setUTCMinutes(0, 0, 0);
+      hours.set(hour.getTime(), hour);
+    }
+    if (hours.size === 0) return;
+
+    // In a savepoint, so a failure here doesn't abort the caller's transaction
+    try {
+      await executor.transaction(async (tx) => {
+        await tx
+          .insert(analyticsRollupQueue)
+          .values(Array.from(hours.values()).map((hour) => ({ hour })))
+          .onConflictDoNothing();
+      });
+    } catch (error) {
+      console.error("[Analytics Rollup] Error queueing hours:", error);
+    }
+  }
+
+  // Queue every hour from `from` to `to` (backfills); returns the number of hours newly queued
+  async queueAnalyticsRollupRange(from: Date, to: Date): Promise<number> {
+    const result = await db.execute(sql`
+      INSERT INTO analytics_rollup_queue (hour)
+      SELECT generate_series(
+        date_trunc('hour', ${from.toISOString()}::timestamp),
+        date_trunc('hour', ${to.toISOString()}::timestamp),
+        interval '1 hour'
+      )
+      ON CONFLICT DO NOTHING
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  // Take the oldest queued hours off the queue. Clicks landing in an hour after it was claimed
+  // queue it again, so nothing is missed while it is rebuilt.
+  async claimAnalyticsRollupHours(limit: number): Promise<Date[]> {
+    const claimed = await db
+      .delete(analyticsRollupQueue)
+      .where(inArray(
+        analyticsRollupQueue.hour,
+        db.select({ hour: analyticsRollupQueue.hour }).from(analyticsRollupQueue).orderBy(asc(analyticsRollupQueue.hour)).limit(limit),
+      ))
+      .returning({ hour: analyticsRollupQueue.hour });
+    return claimed.map((row) => row.hour).sort((a, b) => a.getTime() - b.getTime());
+  }
+
+  async countQueuedAnalyticsRollupHours(): Promise<number> {
+    const result = await db.select({ count: sql<number>`COUNT(*)::int` }).from(analyticsRollupQueue);
+    return Number(result[0]?.count || 0);
+  }
+
+  // Replace an hour's rollup rows with fresh aggregates of its clicks and credited conversions.
+  // Clicks count like the daily analytics (not fraud- or geo-blocked, after fraud review decisions);
+  // conversions take their country, UTM source and device from the attributed click.
+  async rebuildAnalyticsHour(hour: Date): Promise<number> {
+    const from = hour.toISOString();
+    const to = new Date(hour.getTime() + 60 * 60 * 1000).toISOString();
+    const fraudulent = sql`COALESCE(${fraudulentClickCondition}, false)`;
+    const counted = sql`(NOT ${clickEvents.geoBlocked} AND NOT ${fraudulent})`;
+
+    return await db.transaction(async (tx) => {
+      await tx.delete(analyticsHourly).where(eq(analyticsHourly.hour, hour));
+
+      const result = await tx.execute(sql`
+        INSERT INTO analytics_hourly (
+          hour, application_id, offer_id, creator_id, company_id, country, utm_source, device_type,
+          clicks, unique_clicks, conversions, earnings, fraud_blocked_clicks, geo_blocked_clicks, updated_at
+        )
+        SELECT hour, application_id, offer_id, creator_id, company_id, country, utm_source, device_type,
+          SUM(clicks), SUM(unique_clicks), SUM(conversions), SUM(earnings), SUM(fraud_blocked_clicks), SUM(geo_blocked_clicks), NOW()
+        FROM (
+          SELECT
+            date_trunc('hour', ${clickEvents.timestamp}) AS hour,
+            ${clickEvents.applicationId} AS application_id,
+            ${clickEvents.offerId} AS offer_id,
+            ${clickEvents.creatorId} AS creator_id,
+            ${offers.companyId} AS company_id,
+            COALESCE(${clickEvents.country}, '') AS country,
+            COALESCE(${clickEvents.utmSource}, '') AS utm_source,
+            COALESCE(${clickEvents.deviceType}, ${deviceTypeSql(sql`${clickEvents.userAgent}`)}) AS device_type,
+            COUNT(*) FILTER (WHERE ${counted}) AS clicks,
+            COUNT(DISTINCT ${clickEvents.ipAddress}) FILTER (WHERE ${counted}) AS unique_clicks,
+            0 AS conversions,
+            0::numeric AS earnings,
+            COUNT(*) FILTER (WHERE ${fraudulent}) AS fraud_blocked_clicks,
+            COUNT(*) FILTER (WHERE ${clickEvents.geoBlocked} AND NOT ${fraudulent}) AS geo_blocked_clicks
+          FROM ${clickEvents}
+          INNER JOIN ${offers} ON ${offers.id} = ${clickEvents.offerId}
+          LEFT JOIN ${fraudReviews} ON ${fraudReviews.clickEventId} = ${clickEvents.id}
+          WHERE ${clickEvents.timestamp} >= ${from}::timestamp AND ${clickEvents.timestamp} < ${to}::timestamp
+          GROUP BY 1, 2, 3, 4, 5, 6, 7, 8
+
+          UNION ALL
+
+          -- Split conversions count once (primary share) but add every share's earnings to its application
+          SELECT
+            date_trunc('hour', ${conversions.createdAt}),
+            COALESCE(${conversionAttributions.applicationId}, ${conversions.applicationId}),
+            COALESCE(${conversionAttributions.offerId}, ${conversions.offerId}),
+            COALESCE(${conversionAttributions.creatorId}, ${conversions.creatorId}),
+            ${conversions.companyId},
+            COALESCE(${clickEvents.country}, ''),
+            COALESCE(${clickEvents.utmSource}, ''),
+            COALESCE(${clickEvents.deviceType}, ${deviceTypeSql(sql`COALESCE(${clickEvents.userAgent}, ${conversions.userAgent})`)}),
+            0,
+            0,
+            COUNT(*) FILTER (WHERE ${conversionAttributions.id} IS NULL OR ${conversionAttributions.isPrimary}),
+            SUM(COALESCE(${conversionAttributions.earnings}, ${conversions.earnings})),
+            0,
+            0
+          FROM ${conversions}
+          LEFT JOIN ${conversionAttributions} ON ${conversionAttributions.conversionId} = ${conversions.id}
+          LEFT JOIN ${clickEvents} ON ${clickEvents.clickId} = ${conversions.clickId}
+          WHERE ${conversions.status} = 'credited'
+            AND ${conversions.createdAt} >= ${from}::timestamp AND ${conversions.createdAt} < ${to}::timestamp
+          GROUP BY 1, 2, 3, 4, 5, 6, 7, 8
+        ) AS hourly_rows
+        GROUP BY hour, application_id, offer_id, creator_id, company_id, country, utm_source, device_type
+      `);
+      return result.rowCount ?? 0;
+    });
+  }
+
+  // Rollup totals per time bucket and requested dimensions, oldest bucket first
+  async getAnalyticsRollupSeries(
+    granularity: AnalyticsRollupGranularity,
+    groupBy: AnalyticsRollupDimension[],
+    filters: AnalyticsRollupFilters,
+    limit: number,
+  ): Promise<AnalyticsRollupRow[]> {
+    if (!ANALYTICS_ROLLUP_GRANULARITY_SQL[granularity]) {
+      throw new Error(`Unsupported granularity: ${granularity}`);
+    }
+    const bucket = sql`date_trunc(${sql.raw(ANALYTICS_ROLLUP_GRANULARITY_SQL[granularity])}, ${analyticsHourly.hour})`;
+    const dimensions = groupBy.map((dimension) => ANALYTICS_ROLLUP_DIMENSION_COLUMNS[dimension]);
+
+    const fields: Record<string, any> = {
+      bucket: bucket.mapWith(analyticsHourly.hour),
+      clicks: sql<number>`COALESCE(SUM(${analyticsHourly.clicks}), 0)::int`,
+      uniqueClicks: sql<number>`COALESCE(SUM(${analyticsHourly.uniqueClicks}), 0)::int`,
+      conversions: sql<number>`COALESCE(SUM(${analyticsHourly.conversions}), 0)::int`,
+      earnings: sql<string>`COALESCE(SUM(${analyticsHourly.earnings}), 0)::text`,
+      fraudBlockedClicks: sql<number>`COALESCE(SUM(${analyticsHourly.fraudBlockedClicks}), 0)::int`,
+      geoBlockedClicks: sql<number>`COALESCE(SUM(${analyticsHourly.geoBlockedClicks}), 0)::int`,
+    };
+    for (const dimension of dimensions) {
+      fields[dimension.key] = dimension.column;
+    }
+
+    const conditions = [gte(analyticsHourly.hour, filters.from), sql`${analyticsHourly.hour} < ${filters.to.toISOString()}::timestamp`];
+    if (filters.companyId) conditions.push(eq(analyticsHourly.companyId, filters.companyId));
+    if (filters.creatorId) conditions.push(eq(analyticsHourly.creatorId, filters.creatorId));
+    if (filters.offerId) conditions.push(eq(analyticsHourly.offerId, filters.offerId));
+    if (filters.applicationId) conditions.push(eq(analyticsHourly.applicationId, filters.applicationId));
+    if (filters.country !== undefined) conditions.push(eq(analyticsHourly.country, filters.country));
+    if (filters.utmSource !== undefined) conditions.push(eq(analyticsHourly.utmSource, filters.utmSource));
+    if (filters.device !== undefined) conditions.push(eq(analyticsHourly.deviceType, filters.device));
+
+    const rows = (await db
+      .select(fields)
+      .from(analyticsHourly)
+      .where(and(...conditions))
+      .groupBy(bucket, ...dimensions.map((dimension) => dimension.column))
+      .orderBy(bucket, ...dimensions.map((dimension) => dimension.column))
+      .limit(limit)) as AnalyticsRollupRow[];
+
+    // Titles and names for the offer and creator dimensions
+    if (groupBy.includes("offer") && rows.length > 0) {
+      const offerIds = Array.from(new Set(rows.map((row) => row.offerId!)));
+      const titles = await db.select({ id: offers.id, title: offers.title }).from(offers).where(inArray(offers.id, offerIds));
+      const titleById = new Map(titles.map((offer) => [offer.id, offer.title]));
+      rows.forEach((row) => { row.offerTitle = titleById.get(row.offerId!) ?? null; });
+    }
+    if (groupBy.includes("creator") && rows.length > 0) {
+      const creatorIds = Array.from(new Set(rows.map((row) => row.creatorId!)));
+      const creators = await db
+        .select({ id: users.id, firstName: users.firstName, lastName: users.lastName, username: users.username })
+        .from(users)
+        .where(inArray(users.id, creatorIds));
+      const nameById = new Map(creators.map((creator) => [
+        creator.id,
+        [creator.firstName, creator.lastName].filter(Boolean).join(" ") || creator.username,
+      ]));
+      rows.forEach((row) => { row.creatorName = nameById.get(row.creatorId!) ?? null; });
+    }
+
+    return rows;
+  }
+
   // Messages & Conversations
   async getConversation(id: string): Promise<any> {
     const result = await db.select().from(conversations).where(eq(conversations.id, id)).limit(1);
@@ -2615,10 +3584,15 @@ export class DatabaseStorage implements IStorage {
         resolvedBy: conversations.resolvedBy,
         createdAt: conversations.createdAt,
         updatedAt: conversations.updatedAt,
+        contextType: conversations.contextType,
+        retainerContractId: conversations.retainerContractId,
+        retainerApplicationId: conversations.retainerApplicationId,
         offerTitle: offers.title,
+        retainerContractTitle: retainerContracts.title,
       })
       .from(conversations)
       .leftJoin(offers, eq(conversations.offerId, offers.id))
+      .leftJoin(retainerContracts, eq(conversations.retainerContractId, retainerContracts.id))
       .where(eq(conversations.id, id))
       .limit(1);
     return result[0];
@@ -2646,7 +3620,11 @@ export class DatabaseStorage implements IStorage {
         companyUnreadCount: conversations.companyUnreadCount,
         createdAt: conversations.createdAt,
         updatedAt: conversations.updatedAt,
+        contextType: conversations.contextType,
+        retainerContractId: conversations.retainerContractId,
+        retainerApplicationId: conversations.retainerApplicationId,
         offerTitle: offers.title,
+        retainerContractTitle: retainerContracts.title,
         creatorFirstName: users.firstName,
         creatorLastName: users.lastName,
         creatorEmail: users.email,
@@ -2657,7 +3635,8 @@ export class DatabaseStorage implements IStorage {
         companyUserId: companyProfiles.userId,
       })
       .from(conversations)
-      .innerJoin(offers, eq(conversations.offerId, offers.id))
+      .leftJoin(offers, eq(conversations.offerId, offers.id))
+      .leftJoin(retainerContracts, eq(conversations.retainerContractId, retainerContracts.id))
       .innerJoin(users, eq(conversations.creatorId, users.id))
       .innerJoin(companyProfiles, eq(conversations.companyId, companyProfiles.id))
       .where(whereClause)
@@ -2692,6 +3671,10 @@ export class DatabaseStorage implements IStorage {
       companyId: conv.companyId,
       offerId: conv.offerId,
       offerTitle: conv.offerTitle,
+      contextType: conv.contextType,
+      retainerContractId: conv.retainerContractId,
+      retainerApplicationId: conv.retainerApplicationId,
+      retainerContractTitle: conv.retainerContractTitle,
       lastMessageAt: conv.lastMessageAt,
       lastMessage: conv.lastMessage,
       lastMessageSenderId: conv.lastMessageSenderId,
@@ -2722,10 +3705,11 @@ export class DatabaseStorage implements IStorage {
 
   async getAllConversationsForAdmin(options: {
     search?: string;
+    conversationId?: string;
     limit?: number;
     offset?: number;
   }): Promise<any[]> {
-    const { search, limit = 50, offset = 0 } = options;
+    const { search, conversationId, limit = 50, offset = 0 } = options;
 
     // Build the base query
     let query = db
@@ -2740,7 +3724,11 @@ export class DatabaseStorage implements IStorage {
         companyUnreadCount: conversations.companyUnreadCount,
         createdAt: conversations.createdAt,
         updatedAt: conversations.updatedAt,
+        contextType: conversations.contextType,
+        retainerContractId: conversations.retainerContractId,
+        retainerApplicationId: conversations.retainerApplicationId,
         offerTitle: offers.title,
+        retainerContractTitle: retainerContracts.title,
         creatorFirstName: users.firstName,
         creatorLastName: users.lastName,
         creatorEmail: users.email,
@@ -2751,15 +3739,18 @@ export class DatabaseStorage implements IStorage {
         companyUserId: companyProfiles.userId,
       })
       .from(conversations)
-      .innerJoin(offers, eq(conversations.offerId, offers.id))
+      .leftJoin(offers, eq(conversations.offerId, offers.id))
+      .leftJoin(retainerContracts, eq(conversations.retainerContractId, retainerContracts.id))
       .innerJoin(users, eq(conversations.creatorId, users.id))
       .innerJoin(companyProfiles, eq(conversations.companyId, companyProfiles.id))
       .orderBy(desc(conversations.lastMessageAt))
       .limit(limit)
       .offset(offset);
 
-    // Apply search filter if provided
-    if (search) {
+    if (conversationId) {
+      query = query.where(eq(conversations.id, conversationId)) as typeof query;
+    } else if (search) {
+      // Apply search filter if provided
       query = query.where(
         or(
           sql`${users.firstName} ILIKE ${`%${search}%`}`,
@@ -2767,7 +3758,8 @@ export class DatabaseStorage implements IStorage {
           sql`${users.email} ILIKE ${`%${search}%`}`,
           sql`${companyProfiles.legalName} ILIKE ${`%${search}%`}`,
           sql`${companyProfiles.tradeName} ILIKE ${`%${search}%`}`,
-          sql`${offers.title} ILIKE ${`%${search}%`}`
+          sql`${offers.title} ILIKE ${`%${search}%`}`,
+          sql`${retainerContracts.title} ILIKE ${`%${search}%`}`
         )
       ) as typeof query;
     }
@@ -2803,6 +3795,10 @@ export class DatabaseStorage implements IStorage {
       companyId: conv.companyId,
       offerId: conv.offerId,
       offerTitle: conv.offerTitle,
+      contextType: conv.contextType,
+      retainerContractId: conv.retainerContractId,
+      retainerApplicationId: conv.retainerApplicationId,
+      retainerContractTitle: conv.retainerContractTitle,
       lastMessageAt: conv.lastMessageAt,
       lastMessage: conv.lastMessage,
       lastMessageSenderId: conv.lastMessageSenderId,
@@ -2842,77 +3838,359 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
-  async createMessage(message: InsertMessage): Promise<Message> {
-    try {
-      const result = await db.insert(messages).values(message).returning();
-
-      // Get the conversation to determine who should receive the unread notification
-      const conversation = await this.getConversation(message.conversationId);
-
-      // Increment unread count for the recipient
-      // If the sender is the creator, increment company unread count
-      // If the sender is the company, increment creator unread count
-      const isCreatorSender = message.senderId === conversation.creatorId;
+  // The existing conversation for a context, e.g. a company's outreach to a creator or one retainer application
+  async findConversation(filter: {
+    companyId: string;
+    creatorId: string;
+    contextType: ConversationContext;
+    applicationId?: string;
+    retainerContractId?: string;
+    retainerApplicationId?: string;
+  }): Promise<Conversation | undefined> {
+    const conditions = [
+      eq(conversations.companyId, filter.companyId),
+      eq(conversations.creatorId, filter.creatorId),
+      eq(conversations.contextType, filter.contextType),
+    ];
+    if (filter.applicationId) conditions.push(eq(conversations.applicationId, filter.applicationId));
+    if (filter.retainerContractId) conditions.push(eq(conversations.retainerContractId, filter.retainerContractId));
+    if (filter.retainerApplicationId) conditions.push(eq(conversations.retainerApplicationId, filter.retainerApplicationId));
 
-      await db
-        .update(conversations)
-        .set({
-          lastMessageAt: new Date(),
-          updatedAt: new Date(),
-          ...(isCreatorSender
-            ? { companyUnreadCount: sql`${conversations.companyUnreadCount} + 1` }
-            : { creatorUnreadCount: sql`${conversations.creatorUnreadCount} + 1` }
-          )
-        })
-        .where(eq(conversations.id, message.conversationId));
+    const [conversation] = await db
+      .select()
+      .from(conversations)
+      .where(and(...conditions))
+      .orderBy(asc(conversations.createdAt))
+      .limit(1);
+    return conversation;
+  }
 
-      return result[0];
-    } catch (error) {
-      console.error("[createMessage] Error:", error);
-      throw error;
-    }
+  async countOutreachConversationsSince(companyId: string, since: Date): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`COUNT(*)::int` })
+      .from(conversations)
+      .where(and(
+        eq(conversations.companyId, companyId),
+        eq(conversations.contextType, "outreach"),
+        gte(conversations.createdAt, since),
+      ));
+    return Number(row?.count || 0);
   }
 
-  async createAdminMessage(conversationId: string, adminId: string, content: string): Promise<Message> {
-    try {
-      // Create message with senderType = 'platform'
-      const result = await db.insert(messages).values({
-        conversationId,
-        senderId: adminId,
-        content,
-        senderType: 'platform',
-      }).returning();
+  async countConversationMessagesBySender(conversationId: string, senderId: string): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`COUNT(*)::int` })
+      .from(messages)
+      .where(and(eq(messages.conversationId, conversationId), eq(messages.senderId, senderId)));
+    return Number(row?.count || 0);
+  }
 
-      // Update conversation lastMessageAt and increment unread counts for both parties
-      // Platform messages should be visible to both creator and company
-      await db
-        .update(conversations)
-        .set({
-          lastMessageAt: new Date(),
-          updatedAt: new Date(),
-          creatorUnreadCount: sql`${conversations.creatorUnreadCount} + 1`,
-          companyUnreadCount: sql`${conversations.companyUnreadCount} + 1`,
-        })
-        .where(eq(conversations.id, conversationId));
+  async searchMessages(
+    viewer: { userId: string; role: string; companyProfileId?: string | null },
+    filters: MessageSearchFilters,
+  ): Promise<{ results: MessageSearchResult[]; total: number }> {
+    const tsQuery = sql`websearch_to_tsquery('english', ${filters.query})`;
+    const conditions: SQL[] = [sql`to_tsvector('english', ${messages.content}) @@ ${tsQuery}`];
 
-      return result[0];
-    } catch (error) {
-      console.error("[createAdminMessage] Error:", error);
-      throw error;
+    if (viewer.role !== "admin") {
+      conditions.push(
+        viewer.role === "company" && viewer.companyProfileId
+          ? eq(conversations.companyId, viewer.companyProfileId)
+          : eq(conversations.creatorId, viewer.userId),
+        sql`NOT (${viewer.userId} = ANY(COALESCE(${messages.deletedFor}, ARRAY[]::text[])))`,
+      );
+    }
+    if (filters.offerId) conditions.push(eq(conversations.offerId, filters.offerId));
+    if (filters.creatorId) conditions.push(eq(conversations.creatorId, filters.creatorId));
+    if (filters.companyId) conditions.push(eq(conversations.companyId, filters.companyId));
+    if (filters.from) conditions.push(gte(messages.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(messages.createdAt, filters.to));
+    if (filters.hasAttachment !== undefined) {
+      const attachmentCount = sql`COALESCE(array_length(${messages.attachments}, 1), 0)`;
+      conditions.push(filters.hasAttachment ? sql`${attachmentCount} > 0` : sql`${attachmentCount} = 0`);
     }
-  }
 
-  async getUnreadMessageCountForCreator(creatorId: string): Promise<number> {
-    const result = await db
+    const rows = await db
       .select({
-        unreadCount: sql<number>`COALESCE(SUM(${conversations.creatorUnreadCount}), 0)`,
-      })
-      .from(conversations)
-      .where(eq(conversations.creatorId, creatorId));
-
-    return result[0]?.unreadCount ?? 0;
-  }
-
+        messageId: messages.id,
+        conversationId: messages.conversationId,
+        senderId: messages.senderId,
+        senderType: messages.senderType,
+        createdAt: messages.createdAt,
+        attachmentCount: sql<number>`COALESCE(array_length(${messages.attachments}, 1), 0)`,
+        headline: sql<string>`ts_headline('english', ${messages.content}, ${tsQuery}, ${MESSAGE_SEARCH_HEADLINE_OPTIONS})`,
+        total: sql<number>`COUNT(*) OVER()`,
+        contextType: conversations.contextType,
+        offerId: conversations.offerId,
+        offerTitle: offers.title,
+        retainerContractTitle: retainerContracts.title,
+        creatorId: conversations.creatorId,
+        creatorFirstName: users.firstName,
+        creatorLastName: users.lastName,
+        creatorEmail: users.email,
+        companyId: conversations.companyId,
+        companyLegalName: companyProfiles.legalName,
+        companyTradeName: companyProfiles.tradeName,
+      })
+      .from(messages)
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .leftJoin(offers, eq(conversations.offerId, offers.id))
+      .leftJoin(retainerContracts, eq(conversations.retainerContractId, retainerContracts.id))
+      .innerJoin(users, eq(conversations.creatorId, users.id))
+      .innerJoin(companyProfiles, eq(conversations.companyId, companyProfiles.id))
+      .where(and(...conditions))
+      .orderBy(desc(messages.createdAt))
+      .limit(filters.limit ?? 25)
+      .offset(filters.offset ?? 0);
+
+    return {
+      total: Number(rows[0]?.total || 0),
+      results: rows.map((row) => ({
+        messageId: row.messageId,
+        conversationId: row.conversationId,
+        senderId: row.senderId,
+        senderType: row.senderType,
+        createdAt: row.createdAt,
+        hasAttachment: Number(row.attachmentCount) > 0,
+        snippet: splitHeadline(row.headline),
+        contextType: row.contextType,
+        offerId: row.offerId,
+        offerTitle: row.offerTitle,
+        retainerContractTitle: row.retainerContractTitle,
+        creator: {
+          id: row.creatorId,
+          name: `${row.creatorFirstName || ""} ${row.creatorLastName || ""}`.trim() || row.creatorEmail,
+        },
+        company: { id: row.companyId, name: row.companyTradeName || row.companyLegalName },
+      })),
+    };
+  }
+
+  // Message Broadcasts
+  async getOfferBroadcastAudience(offerId: string, statuses: readonly string[]): Promise<BroadcastAudienceMember[]> {
+    if (statuses.length === 0) return [];
+    const rows = await db
+      .select({
+        applicationId: applications.id,
+        creatorId: applications.creatorId,
+        status: applications.status,
+        clicks: sql<number>`COALESCE(SUM(${analytics.clicks}), 0)::int`,
+        conversions: sql<number>`COALESCE(SUM(${analytics.conversions}), 0)::int`,
+        earnings: sql<string>`COALESCE(SUM(${analytics.earnings}), 0)`,
+      })
+      .from(applications)
+      .leftJoin(analytics, eq(applications.id, analytics.applicationId))
+      .where(and(eq(applications.offerId, offerId), inArray(applications.status, statuses as any)))
+      .groupBy(applications.id)
+      .orderBy(asc(applications.createdAt));
+
+    return rows.map((row) => ({
+      applicationId: row.applicationId,
+      creatorId: row.creatorId,
+      status: row.status,
+      clicks: Number(row.clicks),
+      conversions: Number(row.conversions),
+      earnings: Number(row.earnings),
+    }));
+  }
+
+  async createMessageBroadcast(data: typeof messageBroadcasts.$inferInsert): Promise<MessageBroadcast> {
+    const result = await db.insert(messageBroadcasts).values(data).returning();
+    return result[0];
+  }
+
+  async countMessageBroadcastsSince(companyId: string, since: Date, offerId?: string): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`COUNT(*)::int` })
+      .from(messageBroadcasts)
+      .where(and(
+        eq(messageBroadcasts.companyId, companyId),
+        gte(messageBroadcasts.createdAt, since),
+        offerId ? eq(messageBroadcasts.offerId, offerId) : undefined,
+      ));
+    return Number(row?.count || 0);
+  }
+
+  async createMessageBroadcastRecipient(
+    data: typeof messageBroadcastRecipients.$inferInsert,
+  ): Promise<MessageBroadcastRecipient> {
+    const result = await db.insert(messageBroadcastRecipients).values(data).returning();
+    return result[0];
+  }
+
+  async getMessageBroadcastsWithStats(offerId: string): Promise<MessageBroadcastWithStats[]> {
+    const broadcasts = await db
+      .select()
+      .from(messageBroadcasts)
+      .where(eq(messageBroadcasts.offerId, offerId))
+      .orderBy(desc(messageBroadcasts.createdAt));
+    if (broadcasts.length === 0) return [];
+
+    const stats = await db
+      .select({
+        broadcastId: messageBroadcastRecipients.broadcastId,
+        delivered: sql<number>`COUNT(${messageBroadcastRecipients.messageId})::int`,
+        failed: sql<number>`COUNT(*) FILTER (WHERE ${messageBroadcastRecipients.error} IS NOT NULL)::int`,
+        read: sql<number>`COUNT(*) FILTER (WHERE ${messages.isRead} = true)::int`,
+      })
+      .from(messageBroadcastRecipients)
+      .leftJoin(messages, eq(messageBroadcastRecipients.messageId, messages.id))
+      .where(inArray(messageBroadcastRecipients.broadcastId, broadcasts.map((broadcast) => broadcast.id)))
+      .groupBy(messageBroadcastRecipients.broadcastId);
+    const statsById = new Map(stats.map((row) => [row.broadcastId, row]));
+
+    return broadcasts.map((broadcast) => ({
+      ...broadcast,
+      delivered: Number(statsById.get(broadcast.id)?.delivered || 0),
+      failed: Number(statsById.get(broadcast.id)?.failed || 0),
+      read: Number(statsById.get(broadcast.id)?.read || 0),
+    }));
+  }
+
+  // Saved Reply Templates
+  async getMessageTemplates(companyId: string): Promise<MessageTemplate[]> {
+    return await db
+      .select()
+      .from(messageTemplates)
+      .where(eq(messageTemplates.companyId, companyId))
+      .orderBy(desc(messageTemplates.usageCount), asc(messageTemplates.title));
+  }
+
+  async getMessageTemplate(id: string): Promise<MessageTemplate | undefined> {
+    const result = await db.select().from(messageTemplates).where(eq(messageTemplates.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createMessageTemplates(
+    companyId: string,
+    templates: InsertMessageTemplate[],
+    userId?: string,
+  ): Promise<MessageTemplate[]> {
+    if (templates.length === 0) return [];
+    return await db
+      .insert(messageTemplates)
+      .values(templates.map((template) => ({ ...template, companyId, createdBy: userId, updatedBy: userId })))
+      .returning();
+  }
+
+  async updateMessageTemplate(
+    id: string,
+    updates: Partial<InsertMessageTemplate>,
+    userId?: string,
+  ): Promise<MessageTemplate | undefined> {
+    const result = await db
+      .update(messageTemplates)
+      .set({ ...updates, updatedBy: userId, updatedAt: new Date() })
+      .where(eq(messageTemplates.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteMessageTemplate(id: string): Promise<boolean> {
+    const result = await db.delete(messageTemplates).where(eq(messageTemplates.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async recordMessageTemplateUse(id: string): Promise<MessageTemplate | undefined> {
+    const result = await db
+      .update(messageTemplates)
+      .set({ usageCount: sql`${messageTemplates.usageCount} + 1`, lastUsedAt: new Date() })
+      .where(eq(messageTemplates.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Create the company's default templates once: the seeded mark and the templates are written in one
+  // transaction, so only one caller seeds and a failed insert leaves the company unseeded. False when already seeded
+  async seedMessageTemplates(companyId: string, templates: InsertMessageTemplate[], userId?: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const claimed = await tx
+        .update(companyProfiles)
+        .set({ messageTemplatesSeededAt: new Date() })
+        .where(and(eq(companyProfiles.id, companyId), isNull(companyProfiles.messageTemplatesSeededAt)))
+        .returning({ id: companyProfiles.id });
+      if (claimed.length === 0) return false;
+
+      if (templates.length > 0) {
+        await tx
+          .insert(messageTemplates)
+          .values(templates.map((template) => ({ ...template, companyId, createdBy: userId, updatedBy: userId })));
+      }
+      return true;
+    });
+  }
+
+  async createMessage(message: InsertMessage): Promise<Message> {
+    try {
+      const result = await db.insert(messages).values(message).returning();
+
+      // Get the conversation to determine who should receive the unread notification
+      const conversation = await this.getConversation(message.conversationId);
+
+      // Increment unread count for the recipient
+      // If the sender is the creator, increment company unread count
+      // If the sender is the company, increment creator unread count
+      const isCreatorSender = message.senderId === conversation.creatorId;
+
+      await db
+        .update(conversations)
+        .set({
+          lastMessageAt: new Date(),
+          updatedAt: new Date(),
+          ...(isCreatorSender
+            ? { companyUnreadCount: sql`${conversations.companyUnreadCount} + 1` }
+            : { creatorUnreadCount: sql`${conversations.creatorUnreadCount} + 1` }
+          )
+        })
+        .where(eq(conversations.id, message.conversationId));
+
+      return result[0];
+    } catch (error) {
+      console.error("[createMessage] Error:", error);
+      throw error;
+    }
+  }
+
+  async createAdminMessage(conversationId: string, adminId: string, content: string): Promise<Message> {
+    try {
+      // Create message with senderType = 'platform'
+      const result = await db.insert(messages).values({
+        conversationId,
+        senderId: adminId,
+        content,
+        senderType: 'platform',
+      }).returning();
+
+      // Update conversation lastMessageAt and increment unread counts for both parties
+      // Platform messages should be visible to both creator and company
+      await db
+        .update(conversations)
+        .set({
+          lastMessageAt: new Date(),
+          updatedAt: new Date(),
+          creatorUnreadCount: sql`${conversations.creatorUnreadCount} + 1`,
+          companyUnreadCount: sql`${conversations.companyUnreadCount} + 1`,
+        })
+        .where(eq(conversations.id, conversationId));
+
+      return result[0];
+    } catch (error) {
+      console.error("[createAdminMessage] Error:", error);
+      throw error;
+    }
+  }
+
+  async getUnreadMessageCountForCreator(creatorId: string): Promise<number> {
+    const result = await db
+      .select({
+        unreadCount: sql<number>`COALESCE(SUM(${conversations.creatorUnreadCount}), 0)`,
+      })
+      .from(conversations)
+      .where(eq(conversations.creatorId, creatorId));
+
+    return result[0]?.unreadCount ?? 0;
+  }
+
   async getMessages(conversationId: string): Promise<Message[]> {
     try {
       const result = await db
@@ -2927,12 +4205,18 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async markMessagesAsRead(conversationId: string, userId: string): Promise<void> {
-    // Mark messages as read
-    await db
+  async markMessagesAsRead(conversationId: string, userId: string): Promise<{ messageIds: string[]; readAt: Date }> {
+    // Mark the other participant's messages as read; the reader's own stay unread until the other side opens them
+    const readAt = new Date();
+    const read = await db
       .update(messages)
-      .set({ isRead: true })
-      .where(and(eq(messages.conversationId, conversationId), eq(messages.isRead, false)));
+      .set({ isRead: true, readAt })
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        eq(messages.isRead, false),
+        sql`${messages.senderId} <> ${userId}`,
+      ))
+      .returning({ id: messages.id });
 
     // Get the conversation to determine who is reading the messages
     const conversation = await this.getConversation(conversationId);
@@ -2950,6 +4234,8 @@ export class DatabaseStorage implements IStorage {
           : { companyUnreadCount: 0 }
       )
       .where(eq(conversations.id, conversationId));
+
+    return { messageIds: read.map((row) => row.id), readAt };
   }
 
   // Delete message for current user only ("delete for me")
@@ -3684,17 +4970,23 @@ export class DatabaseStorage implements IStorage {
   async logTrackingClick(
     applicationId: string,
     clickData: {
+      clickId?: string;
       ip: string;
       userAgent: string;
       referer: string;
       timestamp: Date;
+      geoBlocked?: boolean;
       fraudScore?: number;
+      fraudBlocked?: boolean;
       fraudFlags?: string;
+      fraudReason?: string;
       utmSource?: string;
       utmMedium?: string;
       utmCampaign?: string;
       utmTerm?: string;
       utmContent?: string;
+      deepLinkId?: string;
+      subIds?: SubIds;
     },
   ): Promise<void> {
     console.log(`[Storage] logTrackingClick called for application ${applicationId}`);
@@ -3706,29 +4998,22 @@ export class DatabaseStorage implements IStorage {
     console.log(`[Storage] Application found, logging click to database...`);
 
     const ua = clickData.userAgent || "";
-    const uaLower = ua.toLowerCase();
-    const deviceType = uaLower.includes("mobile")
-      ? "mobile"
-      : uaLower.includes("tablet")
-      ? "tablet"
-      : "desktop";
-    const browser = ua.includes("Chrome")
-      ? "Chrome"
-      : ua.includes("Firefox")
-      ? "Firefox"
-      : ua.includes("Safari")
-      ? "Safari"
-      : "Other";
+    const { deviceType, os, browser } = parseUserAgent(ua);
 
     const geo = geoip.lookup(clickData.ip);
     const country = geo?.country || "Unknown";
     const city = geo?.city || "Unknown";
 
+    const fraudScore = clickData.fraudScore || 0;
+    const fraudBlocked = clickData.fraudBlocked ?? fraudScore >= DEFAULT_FRAUD_BLOCK_SCORE;
+
     const clickEventId = randomUUID();
+    const clickedAt = new Date();
     console.log(`[Storage] Inserting click event ${clickEventId} into database...`);
     try {
       await db.insert(clickEvents).values({
         id: clickEventId,
+        clickId: clickData.clickId || null,
         applicationId,
         offerId: application.offerId,
         creatorId: application.creatorId,
@@ -3737,14 +5022,26 @@ export class DatabaseStorage implements IStorage {
         referer: clickData.referer,
         country,
         city,
-        fraudScore: clickData.fraudScore || 0,
+        geoBlocked: clickData.geoBlocked || false,
+        deviceType,
+        os,
+        browser,
+        fraudScore,
+        fraudBlocked,
         fraudFlags: clickData.fraudFlags || null,
         utmSource: clickData.utmSource || null,
         utmMedium: clickData.utmMedium || null,
         utmCampaign: clickData.utmCampaign || null,
         utmTerm: clickData.utmTerm || null,
         utmContent: clickData.utmContent || null,
-        timestamp: new Date(),
+        deepLinkId: clickData.deepLinkId || null,
+        sub1: clickData.subIds?.sub1 || null,
+        sub2: clickData.subIds?.sub2 || null,
+        sub3: clickData.subIds?.sub3 || null,
+        sub4: clickData.subIds?.sub4 || null,
+        sub5: clickData.subIds?.sub5 || null,
+        visitorFingerprint: generateVisitorFingerprint(clickData.ip, ua),
+        timestamp: clickedAt,
       });
       console.log(`[Storage] Successfully inserted click event ${clickEventId}`);
     } catch (error) {
@@ -3752,27 +5049,65 @@ export class DatabaseStorage implements IStorage {
       throw error;
     }
 
-    // Only count clicks with fraud score < 50 toward analytics
-    const fraudScore = clickData.fraudScore || 0;
-    console.log(`[Storage] Processing analytics update. Fraud score: ${fraudScore}`);
-    if (fraudScore < 50) {
+    await this.queueAnalyticsRollupHours([clickedAt]);
+
+    // Suspicious clicks go to the admin fraud review queue; blocked ones don't count toward analytics
+    if (fraudScore >= FRAUD_REVIEW_MIN_SCORE || fraudBlocked) {
+      await this.createFraudReview({
+        itemType: "click",
+        clickEventId,
+        applicationId,
+        offerId: application.offerId,
+        creatorId: application.creatorId,
+        fraudScore,
+        fraudFlags: clickData.fraudFlags || null,
+        reason: clickData.fraudReason || null,
+        countedInAnalytics: !fraudBlocked && !clickData.geoBlocked,
+      });
+    }
+
+    console.log(`[Storage] Processing analytics update. Fraud score: ${fraudScore}${fraudBlocked ? ' (blocked)' : ''}`);
+    if (!fraudBlocked && clickData.geoBlocked) {
+      // Visitors turned away by the offer's geographic restrictions are tracked apart from real clicks
       const today = new Date();
       today.setHours(0, 0, 0, 0);
 
-      // Count unique IPs for today (excluding fraudulent clicks)
-      const uniqueIpsToday = await db
+      const existing = await db
+        .select()
+        .from(analytics)
+        .where(and(eq(analytics.applicationId, applicationId), eq(analytics.date, today)))
+        .limit(1);
 
-        .selectDistinct({ ipAddress: clickEvents.ipAddress })
-        .from(clickEvents)
-        .where(
-          and(
-            eq(clickEvents.applicationId, applicationId),
-            sql`${clickEvents.timestamp}::date = ${today}::date`,
-            sql`${clickEvents.fraudScore} < 50`
-          )
-        );
+      if (existing.length > 0) {
+        await db
+          .update(analytics)
+          .set({ geoBlockedClicks: sql`${analytics.geoBlockedClicks} + 1` })
+          .where(eq(analytics.id, existing[0].id));
+      } else {
+        await db.insert(analytics).values({
+          id: randomUUID(),
+          applicationId,
+          offerId: application.offerId,
+          creatorId: application.creatorId,
+          date: today,
+          clicks: 0,
+          uniqueClicks: 0,
+          geoBlockedClicks: 1,
+          conversions: 0,
+          earnings: "0",
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        });
+      }
+      console.log(`[Storage] Geo-blocked click counted for application ${applicationId}`);
+    } else if (!fraudBlocked) {
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+
+      // Count unique IPs for today (excluding fraudulent and geo-blocked clicks)
+      const uniqueIpsToday = await this.countUniqueClickIps(applicationId, today);
 
-      console.log(`[Storage] Unique IPs today: ${uniqueIpsToday.length}`);
+      console.log(`[Storage] Unique IPs today: ${uniqueIpsToday}`);
 
       const existing = await db
         .select()
@@ -3786,7 +5121,7 @@ export class DatabaseStorage implements IStorage {
           .update(analytics)
           .set({
             clicks: sql`${analytics.clicks} + 1`,
-            uniqueClicks: uniqueIpsToday.length,
+            uniqueClicks: uniqueIpsToday,
           })
           .where(eq(analytics.id, existing[0].id));
         console.log(`[Storage] Analytics updated successfully`);
@@ -3799,7 +5134,7 @@ export class DatabaseStorage implements IStorage {
           creatorId: application.creatorId,
           date: today,
           clicks: 1,
-          uniqueClicks: uniqueIpsToday.length,
+          uniqueClicks: uniqueIpsToday,
           conversions: 0,
           earnings: "0",
           createdAt: new Date(),
@@ -3821,158 +5156,2239 @@ export class DatabaseStorage implements IStorage {
     );
   }
 
+  // Distinct IPs among a day's clicks that count toward analytics: not geo-blocked, and either not
+  // fraud-blocked and not invalidated, or approved by an admin
+  private async countUniqueClickIps(applicationId: string, day: Date): Promise<number> {
+    const result = await db
+      .selectDistinct({ ipAddress: clickEvents.ipAddress })
+      .from(clickEvents)
+      .leftJoin(fraudReviews, eq(fraudReviews.clickEventId, clickEvents.id))
+      .where(
+        and(
+          eq(clickEvents.applicationId, applicationId),
+          sql`${clickEvents.timestamp}::date = ${day}::date`,
+          eq(clickEvents.geoBlocked, false),
+          sql`((${clickEvents.fraudBlocked} = false AND ${fraudReviews.status} IS DISTINCT FROM 'invalidated') OR ${fraudReviews.status} = 'approved')`
+        )
+      );
+    return result.length;
+  }
+
+  async getConversion(id: string): Promise<Conversion | undefined> {
+    const result = await db.select().from(conversions).where(eq(conversions.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getClickEventByClickId(clickId: string): Promise<ClickEvent | undefined> {
+    const result = await db.select().from(clickEvents).where(eq(clickEvents.clickId, clickId)).limit(1);
+    return result[0];
+  }
+
+  async getConversionByOrderId(companyId: string, orderId: string): Promise<Conversion | undefined> {
+    const result = await db
+      .select()
+      .from(conversions)
+      .where(and(eq(conversions.companyId, companyId), eq(conversions.orderId, orderId)))
+      .limit(1);
+    return result[0];
+  }
+
   // Record Conversion and Calculate Earnings
-  async recordConversion(applicationId: string, saleAmount?: number): Promise<void> {
+  // Conversions carrying an orderId are idempotent per company: a repeat returns the original
+  // ledger row with duplicate=true and does not credit analytics or create another payment.
+  // Conversions the fraud rules score at or above the hold score are stored as pending_verification
+  // and only credited once approved (creditPendingConversion); manual ones are never held.
+  async recordConversion(
+    applicationId: string,
+    saleAmount?: number,
+    options: RecordConversionOptions = {},
+  ): Promise<RecordConversionResult> {
+    const notRecorded: RecordConversionResult = { conversion: null, duplicate: false };
+
     const application = await this.getApplication(applicationId);
     if (!application) {
       console.error("[Conversion] Application not found:", applicationId);
-      return;
+      return notRecorded;
     }
 
     const offer = await this.getOffer(application.offerId);
     if (!offer) {
       console.error("[Conversion] Offer not found:", application.offerId);
-      return;
+      return notRecorded;
+    }
+
+    const orderId = options.orderId ? String(options.orderId).trim() || null : null;
+    if (orderId) {
+      const existingConversion = await this.getConversionByOrderId(offer.companyId, orderId);
+      if (existingConversion) {
+        console.log(`[Conversion] Duplicate orderId ${orderId} for company ${offer.companyId} - returning ${existingConversion.id}`);
+        return { conversion: existingConversion, duplicate: true };
+      }
+    }
+
+    // Cookie-window attribution: the click must belong to this application and be recent enough
+    const clickId = options.clickId ? String(options.clickId).trim() || null : null;
+    let referenceClick: ClickEvent | undefined;
+    if (clickId) {
+      const click = await this.getClickEventByClickId(clickId);
+      if (!click || !click.timestamp) {
+        console.warn(`[Conversion] Unknown click id ${clickId} for application ${applicationId}`);
+        return { ...notRecorded, rejectedReason: "Unknown click id" };
+      }
+      if (click.applicationId !== applicationId) {
+        console.warn(`[Conversion] Click ${clickId} belongs to application ${click.applicationId}, not ${applicationId}`);
+        return { ...notRecorded, rejectedReason: "Click id does not belong to this tracking link" };
+      }
+      if (!isWithinCookieWindow(click.timestamp, offer.cookieDuration)) {
+        console.warn(`[Conversion] Click ${clickId} is outside the ${offer.cookieDuration}-day cookie window for offer ${offer.id}`);
+        return { ...notRecorded, rejectedReason: `Conversion is outside the offer's ${offer.cookieDuration}-day cookie window` };
+      }
+      referenceClick = click;
+    }
+    const clickedAt = referenceClick?.timestamp ?? null;
+
+    // Sales reported in another currency are converted to the offer's currency before commission applies
+    const offerCurrency = normalizeCurrency(offer.currency);
+    if (options.currency !== undefined && options.currency !== null && options.currency !== "" && !isSupportedCurrency(options.currency)) {
+      console.warn(`[Conversion] Unsupported currency ${options.currency} for application ${applicationId}`);
+      return { ...notRecorded, rejectedReason: `Unsupported currency: ${options.currency}` };
+    }
+    const reportedCurrency = normalizeCurrency(options.currency, offerCurrency);
+    const reportedSaleAmount = saleAmount;
+    let saleExchangeRate: number | null = saleAmount !== undefined ? 1 : null;
+    if (saleAmount !== undefined && reportedCurrency !== offerCurrency) {
+      const converted = await convertAmount(saleAmount, reportedCurrency, offerCurrency);
+      saleAmount = converted.amount;
+      saleExchangeRate = converted.rate;
+      console.log(`[Conversion] Converted sale ${reportedSaleAmount} ${reportedCurrency} -> ${saleAmount} ${offerCurrency} @ ${converted.rate} (${converted.source})`);
+    }
+
+    let commissionPercentage = offer.commissionPercentage ? parseFloat(offer.commissionPercentage.toString()) : null;
+    let commissionAmount = offer.commissionAmount ? parseFloat(offer.commissionAmount.toString()) : null;
+
+    // Tiered commission: the creator's period-to-date conversions on this offer pick the rate
+    const commissionRules = offer.commissionType !== "monthly_retainer"
+      ? parseCommissionRules(offer.commissionRules)
+      : null;
+    let appliedTier: AppliedCommissionTier | null = null;
+    if (commissionRules) {
+      const periodStart = getCommissionPeriodStart(commissionRules.period);
+      const periodConversions = await this.countCreatorConversions(application.creatorId, offer.id, periodStart);
+      appliedTier = evaluateCommissionRules(commissionRules, periodConversions, periodStart);
+      if (appliedTier.commissionPercentage !== null) commissionPercentage = appliedTier.commissionPercentage;
+      if (appliedTier.commissionAmount !== null) commissionAmount = appliedTier.commissionAmount;
     }
 
     let earnings = 0;
 
     switch (offer.commissionType) {
       case "per_sale":
-        if (!saleAmount || !offer.commissionPercentage) {
+        if (!saleAmount || !commissionPercentage) {
           console.error("[Conversion] Sale amount required for per_sale commission");
-          return;
+          return notRecorded;
         }
-        earnings = (saleAmount * parseFloat(offer.commissionPercentage.toString())) / 100;
+        earnings = (saleAmount * commissionPercentage) / 100;
         break;
 
       case "per_lead":
       case "per_click":
-        if (!offer.commissionAmount) {
+        if (!commissionAmount) {
           console.error("[Conversion] Commission amount not set");
-          return;
+          return notRecorded;
         }
-        earnings = parseFloat(offer.commissionAmount.toString());
+        earnings = commissionAmount;
         break;
 
       case "monthly_retainer":
         console.log("[Conversion] Retainer payments handled via deliverable approval");
-        return;
+        return notRecorded;
 
       case "hybrid":
-        if (offer.commissionAmount) {
-          earnings = parseFloat(offer.commissionAmount.toString());
-        } else if (saleAmount && offer.commissionPercentage) {
-          earnings = (saleAmount * parseFloat(offer.commissionPercentage.toString())) / 100;
+        if (commissionAmount) {
+          earnings = commissionAmount;
+        } else if (saleAmount && commissionPercentage) {
+          earnings = (saleAmount * commissionPercentage) / 100;
         }
         break;
     }
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    const existing = await db
-      .select()
-      .from(analytics)
-      .where(and(eq(analytics.applicationId, applicationId), eq(analytics.date, today)))
-      .limit(1);
-
-    if (existing.length > 0) {
-      await db
-        .update(analytics)
-        .set({
-          conversions: sql`${analytics.conversions} + 1`,
-          earnings: sql`${analytics.earnings} + ${earnings.toFixed(2)}`,
-        })
-        .where(eq(analytics.id, existing[0].id));
-    } else {
-      await db.insert(analytics).values({
-        id: randomUUID(),
-        applicationId,
-        offerId: application.offerId,
-        creatorId: application.creatorId,
-        date: today,
-        clicks: 0,
-        uniqueClicks: 0,
-        conversions: 1,
-        earnings: earnings.toFixed(2),
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      });
+    if (appliedTier) {
+      earnings += appliedTier.milestoneBonus;
+      console.log(
+        `[Conversion] Commission rules for offer ${offer.id}: ${appliedTier.periodConversions} prior ${appliedTier.period} conversions, tier ${appliedTier.label ?? "base"}, bonus $${appliedTier.milestoneBonus.toFixed(2)}`,
+      );
     }
 
-    // Calculate fees with per-company override support (Section 4.3.H)
-    const fees = await calculateFees(earnings, offer.companyId);
-
-    await this.createPayment({
-      applicationId: applicationId,
+    const createdAt = new Date();
+    const details = {
+      id: generateConversionId(),
+      applicationId,
+      offerId: application.offerId,
       creatorId: application.creatorId,
       companyId: offer.companyId,
-      offerId: application.offerId,
-      grossAmount: fees.grossAmount.toFixed(2),
-      platformFeeAmount: fees.platformFeeAmount.toFixed(2),
-      stripeFeeAmount: fees.stripeFeeAmount.toFixed(2),
-      netAmount: fees.netAmount.toFixed(2),
-      status: "pending",
-      description: `Commission for ${offer.commissionType} conversion`,
-    });
+      orderId,
+      saleAmount: saleAmount !== undefined ? saleAmount.toFixed(2) : null,
+      source: options.source || "manual",
+      ipAddress: options.ipAddress || null,
+      userAgent: options.userAgent || null,
+      clickId,
+      clickToConversionSeconds: clickedAt
+        ? Math.max(0, Math.round((createdAt.getTime() - clickedAt.getTime()) / 1000))
+        : null,
+      createdAt,
+    } as const;
+
+    // A failing rule must not lose the conversion: record it unscored
+    const fraud = await scoreConversion(details).catch((error) => {
+      console.error(`[Conversion] Error scoring conversion ${details.id}:`, error);
+      return null;
+    });
+
+    // Conversions the company enters by hand are scored (so admins see the flags) but never held:
+    // holding them would only ask the company to approve its own report
+    const held = !!fraud?.held && details.source !== "manual";
+
+    // The conversion row and everything credited for it commit together: if crediting fails nothing
+    // is kept, so a retry with the same orderId records it again instead of finding a bare row.
+    // The orderId is claimed first; a concurrent retry waits on it and then loses the race here.
+    return await db.transaction(async (tx): Promise<RecordConversionResult> => {
+      const [conversion] = await tx
+        .insert(conversions)
+        .values({
+          ...details,
+          eventType: options.eventType || "sale",
+          earnings: earnings.toFixed(2),
+          currency: offerCurrency,
+          originalSaleAmount: reportedSaleAmount !== undefined ? reportedSaleAmount.toFixed(2) : null,
+          originalCurrency: reportedCurrency,
+          exchangeRate: saleExchangeRate !== null ? saleExchangeRate.toFixed(8) : null,
+          rawPayload: options.rawPayload ?? null,
+          clickedAt,
+          // Deep link and sub-ids of the attributed click, so reports show which post drove the sale
+          deepLinkId: referenceClick?.deepLinkId ?? null,
+          sub1: referenceClick?.sub1 ?? null,
+          sub2: referenceClick?.sub2 ?? null,
+          sub3: referenceClick?.sub3 ?? null,
+          sub4: referenceClick?.sub4 ?? null,
+          sub5: referenceClick?.sub5 ?? null,
+          attributionModel: offer.attributionModel,
+          appliedCommissionTier: appliedTier,
+          status: held ? "pending_verification" : "credited",
+          fraudScore: fraud?.fraudScore ?? 0,
+          fraudFlags: fraud?.flags.join(",") || null,
+        })
+        .onConflictDoNothing({ target: [conversions.companyId, conversions.orderId] })
+        .returning();
+
+      if (!conversion) {
+        const existingConversion = orderId
+          ? await this.getConversionByOrderId(offer.companyId, orderId)
+          : undefined;
+        return { conversion: existingConversion ?? null, duplicate: true };
+      }
+
+      if (fraud && held) {
+        console.log(`[Conversion] Held conversion ${conversion.id} for verification (fraud score ${fraud.fraudScore}: ${fraud.flags.join(", ")})`);
+        return { conversion, duplicate: false, paymentIds: [], held: true, fraudReason: fraud.reason };
+      }
+
+      const credited = await this.creditConversion(conversion, application, offer, referenceClick, tx);
+      return { ...credited, duplicate: false, fraudReason: fraud?.reason };
+    });
+  }
+
+  // Credit a recorded conversion: split it across the attributed applications, create the commission
+  // payments (drawn from the offer's escrow reserve when funded) and add it to the daily analytics
+  async creditConversion(
+    conversion: Conversion,
+    application: Application,
+    offer: Offer,
+    referenceClick: ClickEvent | undefined,
+    executor: DbExecutor = db,
+  ): Promise<Omit<VerifyConversionResult, "alreadyResolved">> {
+    const applicationId = application.id;
+    const earnings = parseFloat(conversion.earnings);
+    const offerCurrency = conversion.currency;
+
+    // Split the commission across every application the visitor clicked (per the offer's model)
+    const convertedAt = conversion.createdAt ?? new Date();
+    const shares = await this.resolveAttributionShares(
+      offer.id,
+      offer.attributionModel,
+      offer.cookieDuration,
+      { applicationId, creatorId: application.creatorId },
+      referenceClick,
+      convertedAt,
+    );
+    const amounts = allocateByShare(earnings, shares);
+
+    // Analytics count the conversion on the day it happened, even when it is credited later
+    const conversionDay = new Date(convertedAt);
+    conversionDay.setHours(0, 0, 0, 0);
+
+    let primaryPaymentId: string | null = null;
+    const paymentIds: string[] = [];
+
+    // Commissions are paid out of the offer's escrow reserve when the company has funded one
+    const escrowReserve = await this.getEscrowReserveByOffer(offer.id);
+    let escrowDraw: EscrowDrawResult | undefined;
+    let escrowShortfall = 0;
+
+    for (let i = 0; i < shares.length; i++) {
+      const share = shares[i];
+      const shareEarnings = amounts[i];
+      const isPrimary = i === 0;
+      const shareApplication = share.applicationId === applicationId
+        ? application
+        : await this.getApplication(share.applicationId);
+      if (!shareApplication) continue;
+
+      // The conversion is counted once (against the primary application); earnings go to every share
+      await this.creditConversionAnalytics(shareApplication, conversionDay, isPrimary ? 1 : 0, shareEarnings, executor);
+
+      let paymentId: string | null = null;
+      if (shareEarnings > 0 || shares.length === 1) {
+        // Calculate fees with per-company override support (Section 4.3.H), in the creator's payout currency
+        const payoutCurrency = await this.getCreatorPayoutCurrency(share.creatorId);
+        const fees = await calculateFeesInCurrency(shareEarnings, offerCurrency, payoutCurrency, offer.companyId);
+        const splitLabel = shares.length > 1
+          ? ` (${(share.share * 100).toFixed(1)}% ${offer.attributionModel.replace("_", " ")} attribution)`
+          : "";
+
+        const payment = await this.createPayment({
+          applicationId: share.applicationId,
+          creatorId: share.creatorId,
+          companyId: offer.companyId,
+          offerId: offer.id,
+          grossAmount: fees.grossAmount.toFixed(2),
+          platformFeeAmount: fees.platformFeeAmount.toFixed(2),
+          stripeFeeAmount: fees.stripeFeeAmount.toFixed(2),
+          netAmount: fees.netAmount.toFixed(2),
+          currency: fees.currency,
+          sourceAmount: fees.sourceAmount.toFixed(2),
+          sourceCurrency: fees.sourceCurrency,
+          exchangeRate: fees.exchangeRate.toFixed(8),
+          exchangeRateSource: fees.exchangeRateSource,
+          exchangeRateAt: fees.exchangeRateAt,
+          status: "pending",
+          description: `Commission for ${offer.commissionType} conversion${splitLabel}`,
+        }, executor);
+        paymentId = payment.id;
+        paymentIds.push(payment.id);
+        if (isPrimary) primaryPaymentId = payment.id;
+
+        if (escrowReserve && escrowReserve.status !== "released") {
+          const cost = await convertAmount(fees.sourceAmount, fees.sourceCurrency, escrowReserve.currency);
+          const draw = await this.drawEscrowFunds(escrowReserve.id, cost.amount, {
+            paymentId: payment.id,
+            description: `Commission for conversion ${conversion.id}`,
+          }, executor);
+          if (draw) {
+            escrowDraw = draw;
+            escrowShortfall += draw.shortfall;
+          }
+        }
+
+        const feeLabel = fees.isCustomFee ? `Custom ${formatFeePercentage(fees.platformFeePercentage)}` : `${formatFeePercentage(DEFAULT_PLATFORM_FEE_PERCENTAGE)}`;
+        console.log(
+          `[Conversion] Recorded conversion ${conversion.id} for application ${share.applicationId} (share ${(share.share * 100).toFixed(1)}%, ${fees.sourceAmount.toFixed(2)} ${fees.sourceCurrency} @ ${fees.exchangeRate}) - ${fees.currency} Gross: $${fees.grossAmount.toFixed(2)}, Platform Fee (${feeLabel}): $${fees.platformFeeAmount.toFixed(2)}, Stripe Fee (${formatFeePercentage(STRIPE_PROCESSING_FEE_PERCENTAGE)}): $${fees.stripeFeeAmount.toFixed(2)}, Net: $${fees.netAmount.toFixed(2)}`,
+        );
+      }
+
+      await executor.insert(conversionAttributions).values({
+        conversionId: conversion.id,
+        applicationId: share.applicationId,
+        offerId: offer.id,
+        creatorId: share.creatorId,
+        share: share.share.toFixed(4),
+        earnings: shareEarnings.toFixed(2),
+        touchCount: share.touchCount,
+        firstTouchAt: share.firstTouchAt,
+        lastTouchAt: share.lastTouchAt,
+        isPrimary,
+        paymentId,
+      });
+    }
+
+    const [linkedConversion] = await executor
+      .update(conversions)
+      .set({ paymentId: primaryPaymentId })
+      .where(eq(conversions.id, conversion.id))
+      .returning();
+
+    let escrowAlert: EscrowAlert | undefined;
+    if (escrowDraw?.isLow) {
+      const offerPaused = await this.pauseOfferForEscrow(offer.id, escrowDraw.reserve.id, executor);
+      if (offerPaused || !escrowDraw.reserve.lowBalanceNotifiedAt) {
+        escrowAlert = { reserve: escrowDraw.reserve, offerPaused, shortfall: escrowShortfall };
+      }
+    }
+
+    await this.queueAnalyticsRollupHours([convertedAt], executor);
+
+    return { conversion: linkedConversion ?? conversion, paymentIds, escrowAlert };
+  }
+
+  // Approve a conversion held by the fraud rules and credit it
+  async creditPendingConversion(
+    conversionId: string,
+    verifiedBy: string,
+    notes?: string | null,
+  ): Promise<VerifyConversionResult> {
+    // Claim the pending conversion first so a double approval cannot credit twice; the claim and the
+    // credit commit together, so a failed credit leaves the conversion pending to approve again
+    return await db.transaction(async (tx): Promise<VerifyConversionResult> => {
+      const [conversion] = await tx
+        .update(conversions)
+        .set({ status: "credited", verifiedBy, verifiedAt: new Date(), verificationNotes: notes || null })
+        .where(and(eq(conversions.id, conversionId), eq(conversions.status, "pending_verification")))
+        .returning();
+
+      if (!conversion) {
+        const current = await this.getConversion(conversionId);
+        return { conversion: current ?? null, alreadyResolved: !!current, paymentIds: [] };
+      }
+
+      const application = await this.getApplication(conversion.applicationId);
+      const offer = await this.getOffer(conversion.offerId);
+      if (!application || !offer) {
+        console.error(`[Conversion] Cannot credit conversion ${conversion.id}: application or offer no longer exists`);
+        return { conversion, alreadyResolved: false, paymentIds: [] };
+      }
+      const referenceClick = conversion.clickId ? await this.getClickEventByClickId(conversion.clickId) : undefined;
+
+      const credited = await this.creditConversion(conversion, application, offer, referenceClick, tx);
+      console.log(`[Conversion] Conversion ${conversion.id} approved by ${verifiedBy} and credited`);
+      return { ...credited, alreadyResolved: false };
+    });
+  }
+
+  // Reject a conversion held by the fraud rules; nothing was credited so nothing is reversed
+  async rejectPendingConversion(
+    conversionId: string,
+    verifiedBy: string,
+    notes?: string | null,
+  ): Promise<VerifyConversionResult> {
+    const [conversion] = await db
+      .update(conversions)
+      .set({ status: "rejected", verifiedBy, verifiedAt: new Date(), verificationNotes: notes || null })
+      .where(and(eq(conversions.id, conversionId), eq(conversions.status, "pending_verification")))
+      .returning();
+
+    if (!conversion) {
+      const current = await this.getConversion(conversionId);
+      return { conversion: current ?? null, alreadyResolved: !!current, paymentIds: [] };
+    }
+
+    console.log(`[Conversion] Conversion ${conversion.id} rejected by ${verifiedBy}`);
+    return { conversion, alreadyResolved: false, paymentIds: [] };
+  }
+
+  // Currency of the creator's default payout method (USD if none is configured yet)
+  async getCreatorPayoutCurrency(creatorId: string): Promise<string> {
+    const settings = await this.getPaymentSettings(creatorId);
+    const primary = settings.find((setting) => setting.isDefault) || settings[0];
+    return normalizeCurrency(primary?.payoutCurrency);
+  }
+
+  // Credited conversions a creator reported on an offer since `since` (all time when null)
+  async countCreatorConversions(creatorId: string, offerId: string, since: Date | null): Promise<number> {
+    const conditions = [
+      eq(conversions.creatorId, creatorId),
+      eq(conversions.offerId, offerId),
+      eq(conversions.status, "credited"),
+    ];
+    if (since) conditions.push(gte(conversions.createdAt, since));
+
+    const [row] = await db
+      .select({ count: sql<number>`COUNT(*)::int` })
+      .from(conversions)
+      .where(and(...conditions));
+    return Number(row?.count || 0);
+  }
+
+  // Work out how a conversion is shared between applications. Without a click id (or fingerprint)
+  // there is no visitor history, so the reporting application gets the whole conversion.
+  async resolveAttributionShares(
+    offerId: string,
+    model: AttributionModel,
+    cookieDuration: number | null,
+    reporting: { applicationId: string; creatorId: string },
+    referenceClick: ClickEvent | undefined,
+    convertedAt: Date,
+  ): Promise<AttributionShare[]> {
+    const soleShare: AttributionShare[] = [{
+      applicationId: reporting.applicationId,
+      creatorId: reporting.creatorId,
+      share: 1,
+      touchCount: referenceClick ? 1 : 0,
+      firstTouchAt: referenceClick?.timestamp ?? null,
+      lastTouchAt: referenceClick?.timestamp ?? null,
+    }];
+
+    if (!referenceClick?.visitorFingerprint) {
+      return soleShare;
+    }
+
+    const lookbackDays = cookieDuration && cookieDuration > 0 ? cookieDuration : DEFAULT_ATTRIBUTION_LOOKBACK_DAYS;
+    const since = new Date(convertedAt.getTime() - lookbackDays * 24 * 60 * 60 * 1000);
+
+    const touches = await db
+      .select({
+        applicationId: clickEvents.applicationId,
+        creatorId: clickEvents.creatorId,
+        clickEventId: clickEvents.id,
+        timestamp: clickEvents.timestamp,
+      })
+      .from(clickEvents)
+      .where(
+        and(
+          eq(clickEvents.offerId, offerId),
+          eq(clickEvents.visitorFingerprint, referenceClick.visitorFingerprint),
+          gte(clickEvents.timestamp, since),
+          lte(clickEvents.timestamp, convertedAt),
+          eq(clickEvents.fraudBlocked, false),
+        ),
+      );
+
+    const shares = splitAttribution(
+      model,
+      touches
+        .filter((t) => t.timestamp)
+        .map((t) => ({ ...t, timestamp: t.timestamp as Date })),
+      convertedAt,
+    );
+    if (shares.length === 0) {
+      return soleShare;
+    }
+
+    // On a tie, the application that reported the conversion is primary
+    return shares.sort((a, b) =>
+      b.share - a.share || Number(b.applicationId === reporting.applicationId) - Number(a.applicationId === reporting.applicationId),
+    );
+  }
+
+  // Add (or subtract, with negative values) conversions/earnings on an application's daily analytics row
+  async creditConversionAnalytics(
+    application: Application,
+    day: Date,
+    conversionCount: number,
+    earnings: number,
+    executor: DbExecutor = db,
+  ): Promise<void> {
+    const existing = await executor
+      .select()
+      .from(analytics)
+      .where(and(eq(analytics.applicationId, application.id), eq(analytics.date, day)))
+      .limit(1);
+
+    if (existing.length > 0) {
+      await executor
+        .update(analytics)
+        .set({
+          conversions: sql`GREATEST(${analytics.conversions} + ${conversionCount}, 0)`,
+          earnings: sql`GREATEST(${analytics.earnings} + ${earnings.toFixed(2)}, 0)`,
+          updatedAt: new Date(),
+        })
+        .where(eq(analytics.id, existing[0].id));
+    } else if (conversionCount > 0 || earnings > 0) {
+      await executor.insert(analytics).values({
+        id: randomUUID(),
+        applicationId: application.id,
+        offerId: application.offerId,
+        creatorId: application.creatorId,
+        date: day,
+        clicks: 0,
+        uniqueClicks: 0,
+        conversions: conversionCount,
+        earnings: earnings.toFixed(2),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+    }
+  }
+
+  async getConversionAttributions(conversionId: string): Promise<ConversionAttribution[]> {
+    return await db
+      .select()
+      .from(conversionAttributions)
+      .where(eq(conversionAttributions.conversionId, conversionId))
+      .orderBy(desc(conversionAttributions.share));
+  }
+
+  async getConversionsByCompany(companyId: string, limit: number = 50): Promise<any[]> {
+    const rows = await db
+      .select({
+        id: conversions.id,
+        applicationId: conversions.applicationId,
+        offerId: conversions.offerId,
+        offerTitle: offers.title,
+        creatorId: conversions.creatorId,
+        creatorName: sql<string>`COALESCE(NULLIF(TRIM(CONCAT(${users.firstName}, ' ', ${users.lastName})), ''), ${users.username})`,
+        eventType: conversions.eventType,
+        orderId: conversions.orderId,
+        saleAmount: conversions.saleAmount,
+        earnings: conversions.earnings,
+        currency: conversions.currency,
+        source: conversions.source,
+        status: conversions.status,
+        reversalType: conversions.reversalType,
+        reversalReason: conversions.reversalReason,
+        reversedAt: conversions.reversedAt,
+        fraudScore: conversions.fraudScore,
+        fraudFlags: conversions.fraudFlags,
+        ipAddress: conversions.ipAddress,
+        verifiedAt: conversions.verifiedAt,
+        verificationNotes: conversions.verificationNotes,
+        clickId: conversions.clickId,
+        clickToConversionSeconds: conversions.clickToConversionSeconds,
+        deepLinkId: conversions.deepLinkId,
+        sub1: conversions.sub1,
+        sub2: conversions.sub2,
+        sub3: conversions.sub3,
+        sub4: conversions.sub4,
+        sub5: conversions.sub5,
+        attributionModel: conversions.attributionModel,
+        appliedCommissionTier: conversions.appliedCommissionTier,
+        createdAt: conversions.createdAt,
+      })
+      .from(conversions)
+      .innerJoin(offers, eq(conversions.offerId, offers.id))
+      .innerJoin(users, eq(conversions.creatorId, users.id))
+      .where(eq(conversions.companyId, companyId))
+      .orderBy(desc(conversions.createdAt))
+      .limit(limit);
+    if (rows.length === 0) return rows;
+
+    // Attach the per-creator split so companies can see who shared each commission
+    const splits = await db
+      .select({
+        conversionId: conversionAttributions.conversionId,
+        applicationId: conversionAttributions.applicationId,
+        creatorId: conversionAttributions.creatorId,
+        creatorName: sql<string>`COALESCE(NULLIF(TRIM(CONCAT(${users.firstName}, ' ', ${users.lastName})), ''), ${users.username})`,
+        share: conversionAttributions.share,
+        earnings: conversionAttributions.earnings,
+        touchCount: conversionAttributions.touchCount,
+        isPrimary: conversionAttributions.isPrimary,
+      })
+      .from(conversionAttributions)
+      .innerJoin(users, eq(conversionAttributions.creatorId, users.id))
+      .where(inArray(conversionAttributions.conversionId, rows.map((r) => r.id)))
+      .orderBy(desc(conversionAttributions.share));
+
+    return rows.map((row) => ({
+      ...row,
+      attributions: splits.filter((split) => split.conversionId === row.id),
+    }));
+  }
+
+  // A creator's shares of conversions (including ones reported under another creator's link)
+  async getConversionAttributionsByCreator(creatorId: string, limit: number = 50): Promise<any[]> {
+    // Sub-ids were set on the reporting creator's click; other sharing creators don't see them
+    const ownSubId = (field: SubIdField) =>
+      sql<string | null>`CASE WHEN ${conversionAttributions.applicationId} = ${conversions.applicationId} THEN ${conversions[field]} END`;
+
+    return await db
+      .select({
+        id: conversionAttributions.id,
+        conversionId: conversionAttributions.conversionId,
+        applicationId: conversionAttributions.applicationId,
+        offerId: conversionAttributions.offerId,
+        offerTitle: offers.title,
+        share: conversionAttributions.share,
+        earnings: conversionAttributions.earnings,
+        touchCount: conversionAttributions.touchCount,
+        isPrimary: conversionAttributions.isPrimary,
+        conversionEarnings: conversions.earnings,
+        attributionModel: conversions.attributionModel,
+        appliedCommissionTier: conversions.appliedCommissionTier,
+        eventType: conversions.eventType,
+        status: conversions.status,
+        sub1: ownSubId("sub1"),
+        sub2: ownSubId("sub2"),
+        sub3: ownSubId("sub3"),
+        sub4: ownSubId("sub4"),
+        sub5: ownSubId("sub5"),
+        creatorCount: sql<number>`(SELECT COUNT(*)::int FROM conversion_attributions ca WHERE ca.conversion_id = ${conversionAttributions.conversionId})`,
+        createdAt: conversionAttributions.createdAt,
+      })
+      .from(conversionAttributions)
+      .innerJoin(conversions, eq(conversionAttributions.conversionId, conversions.id))
+      .innerJoin(offers, eq(conversionAttributions.offerId, offers.id))
+      .where(eq(conversionAttributions.creatorId, creatorId))
+      .orderBy(desc(conversionAttributions.createdAt))
+      .limit(limit);
+  }
+
+  // Click-to-conversion latency over credited conversions that were reported with a click id
+  async getClickToConversionStats(filter: { companyId?: string; creatorId?: string }): Promise<ClickToConversionStats> {
+    const conditions = [
+      eq(conversions.status, "credited"),
+      sql`${conversions.clickToConversionSeconds} IS NOT NULL`,
+    ];
+    if (filter.companyId) conditions.push(eq(conversions.companyId, filter.companyId));
+    if (filter.creatorId) conditions.push(eq(conversions.creatorId, filter.creatorId));
+
+    const [row] = await db
+      .select({
+        attributedConversions: sql<number>`COUNT(*)::int`,
+        avgSeconds: sql<number | null>`ROUND(AVG(${conversions.clickToConversionSeconds}))::int`,
+        medianSeconds: sql<number | null>`ROUND(PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY ${conversions.clickToConversionSeconds}))::int`,
+        minSeconds: sql<number | null>`MIN(${conversions.clickToConversionSeconds})`,
+        maxSeconds: sql<number | null>`MAX(${conversions.clickToConversionSeconds})`,
+      })
+      .from(conversions)
+      .where(and(...conditions));
+
+    return {
+      attributedConversions: Number(row?.attributedConversions || 0),
+      avgSeconds: row?.avgSeconds ?? null,
+      medianSeconds: row?.medianSeconds ?? null,
+      minSeconds: row?.minSeconds ?? null,
+      maxSeconds: row?.maxSeconds ?? null,
+    };
+  }
+
+  // Clicks per device type, OS and browser (counted clicks only: not fraud- or geo-blocked).
+  // Each list keeps the top entries and folds the rest into "Other".
+  async getClickDeviceBreakdown(
+    filter: { companyId?: string; creatorId?: string; offerId?: string; applicationId?: string },
+    dateRange: string = "all",
+  ): Promise<ClickDeviceBreakdown> {
+    const conditions = [
+      eq(clickEvents.geoBlocked, false),
+      sql`NOT COALESCE(${fraudulentClickCondition}, false)`,
+    ];
+    if (filter.companyId) conditions.push(eq(offers.companyId, filter.companyId));
+    if (filter.creatorId) conditions.push(eq(clickEvents.creatorId, filter.creatorId));
+    if (filter.offerId) conditions.push(eq(clickEvents.offerId, filter.offerId));
+    if (filter.applicationId) conditions.push(eq(clickEvents.applicationId, filter.applicationId));
+    if (dateRange !== "all") {
+      const daysBack = dateRange === "7d" ? 7 : dateRange === "90d" ? 90 : 30;
+      const startDate = new Date();
+      startDate.setDate(startDate.getDate() - daysBack);
+      conditions.push(gte(clickEvents.timestamp, startDate));
+    }
+
+    const countBy = async (column: typeof clickEvents.deviceType | typeof clickEvents.os | typeof clickEvents.browser) => {
+      const rows = await db
+        .select({ name: sql<string>`COALESCE(${column}, 'Unknown')`, clicks: sql<number>`COUNT(*)::int` })
+        .from(clickEvents)
+        .innerJoin(offers, eq(offers.id, clickEvents.offerId))
+        .leftJoin(fraudReviews, eq(fraudReviews.clickEventId, clickEvents.id))
+        .where(and(...conditions))
+        .groupBy(column)
+        .orderBy(desc(sql`COUNT(*)`));
+
+      const top = rows.slice(0, CLICK_BREAKDOWN_MAX_ITEMS).map((row) => ({ name: row.name, clicks: Number(row.clicks) }));
+      const otherClicks = rows.slice(CLICK_BREAKDOWN_MAX_ITEMS).reduce((sum, row) => sum + Number(row.clicks), 0);
+      if (otherClicks > 0) {
+        const other = top.find((item) => item.name === "Other");
+        if (other) other.clicks += otherClicks;
+        else top.push({ name: "Other", clicks: otherClicks });
+      }
+      return top;
+    };
+
+    const devices = await countBy(clickEvents.deviceType);
+    const operatingSystems = await countBy(clickEvents.os);
+    const browsers = await countBy(clickEvents.browser);
+
+    return {
+      totalClicks: devices.reduce((sum, item) => sum + item.clicks, 0),
+      devices,
+      operatingSystems,
+      browsers,
+    };
+  }
+
+  // View -> application -> approval -> first click -> first conversion for each of a company's offers.
+  // Click and conversion stages count applications, so a creator with many clicks counts once.
+  async getOfferFunnels(companyId: string, offerId?: string): Promise<OfferFunnel[]> {
+    const offerConditions = [eq(offers.companyId, companyId)];
+    if (offerId) offerConditions.push(eq(offers.id, offerId));
+
+    const firstClicks = db
+      .select({
+        applicationId: clickEvents.applicationId,
+        firstClickAt: sql<Date>`MIN(${clickEvents.timestamp})`.as("first_click_at"),
+      })
+      .from(clickEvents)
+      .leftJoin(fraudReviews, eq(fraudReviews.clickEventId, clickEvents.id))
+      .where(and(eq(clickEvents.geoBlocked, false), sql`NOT COALESCE(${fraudulentClickCondition}, false)`))
+      .groupBy(clickEvents.applicationId)
+      .as("first_clicks");
+
+    const firstConversions = db
+      .select({
+        applicationId: conversions.applicationId,
+        firstConversionAt: sql<Date>`MIN(${conversions.createdAt})`.as("first_conversion_at"),
+      })
+      .from(conversions)
+      .where(and(eq(conversions.companyId, companyId), eq(conversions.status, "credited")))
+      .groupBy(conversions.applicationId)
+      .as("first_conversions");
+
+    const approved = sql`(${applications.approvedAt} IS NOT NULL OR ${applications.status} IN ('approved', 'active', 'paused', 'completed'))`;
+    const hoursBetween = (from: SQL, to: SQL) => sql`EXTRACT(EPOCH FROM (${to} - ${from})) / 3600`;
+
+    const stageRows = await db
+      .select({
+        offerId: applications.offerId,
+        applications: sql<number>`COUNT(*)::int`,
+        approved: sql<number>`COUNT(*) FILTER (WHERE ${approved})::int`,
+        clicked: sql<number>`COUNT(*) FILTER (WHERE ${approved} AND ${firstClicks.firstClickAt} IS NOT NULL)::int`,
+        converted: sql<number>`COUNT(${firstConversions.firstConversionAt})::int`,
+        medianHoursToFirstClick: sql<number | null>`PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY ${hoursBetween(
+          sql`${applications.approvedAt}`,
+          sql`GREATEST(${firstClicks.firstClickAt}, ${applications.approvedAt})`,
+        )})`,
+        medianHoursToFirstConversion: sql<number | null>`PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY ${hoursBetween(
+          sql`${firstClicks.firstClickAt}`,
+          sql`GREATEST(${firstConversions.firstConversionAt}, ${firstClicks.firstClickAt})`,
+        )})`,
+      })
+      .from(applications)
+      .innerJoin(offers, eq(offers.id, applications.offerId))
+      .leftJoin(firstClicks, eq(firstClicks.applicationId, applications.id))
+      .leftJoin(firstConversions, eq(firstConversions.applicationId, applications.id))
+      .where(and(...offerConditions))
+      .groupBy(applications.offerId);
+
+    const offerRows = await db
+      .select({ id: offers.id, title: offers.title, viewCount: offers.viewCount })
+      .from(offers)
+      .where(and(...offerConditions))
+      .orderBy(desc(offers.createdAt));
+
+    const roundHours = (value: number | null) => (value === null ? null : Math.round(Number(value) * 10) / 10);
+    const stagesByOffer = new Map(stageRows.map((row) => [row.offerId, row]));
+    return offerRows.map((offer) => {
+      const stages = stagesByOffer.get(offer.id);
+      return {
+        offerId: offer.id,
+        offerTitle: offer.title,
+        views: Number(offer.viewCount || 0),
+        applications: Number(stages?.applications || 0),
+        approved: Number(stages?.approved || 0),
+        clicked: Number(stages?.clicked || 0),
+        converted: Number(stages?.converted || 0),
+        medianHoursToFirstClick: roundHours(stages?.medianHoursToFirstClick ?? null),
+        medianHoursToFirstConversion: roundHours(stages?.medianHoursToFirstConversion ?? null),
+      };
+    });
+  }
+
+  // Creators grouped by the month of their first approval on the company's offers (or one offer),
+  // with how many of each cohort had counted clicks on those offers in each month since.
+  // Covers the last `months` cohorts, including the current month.
+  async getCreatorCohortRetention(
+    companyId: string,
+    options: { offerId?: string; months?: number } = {},
+  ): Promise<CreatorCohort[]> {
+    const months = Math.min(Math.max(options.months ?? 6, 1), 24);
+    const offerFilter = options.offerId ? sql`AND ${offers.id} = ${options.offerId}` : sql``;
+    const monthIndex = (value: SQL) => sql`(EXTRACT(YEAR FROM ${value}) * 12 + EXTRACT(MONTH FROM ${value}))::int`;
+
+    const result = await db.execute(sql`
+      WITH cohorts AS (
+        SELECT ${applications.creatorId} AS creator_id, date_trunc('month', MIN(${applications.approvedAt})) AS cohort_month
+        FROM ${applications}
+        INNER JOIN ${offers} ON ${offers.id} = ${applications.offerId}
+        WHERE ${offers.companyId} = ${companyId} ${offerFilter} AND ${applications.approvedAt} IS NOT NULL
+        GROUP BY ${applications.creatorId}
+      ),
+      activity AS (
+        SELECT DISTINCT ${clickEvents.creatorId} AS creator_id, date_trunc('month', ${clickEvents.timestamp}) AS active_month
+        FROM ${clickEvents}
+        INNER JOIN ${offers} ON ${offers.id} = ${clickEvents.offerId}
+        LEFT JOIN ${fraudReviews} ON ${fraudReviews.clickEventId} = ${clickEvents.id}
+        WHERE ${offers.companyId} = ${companyId} ${offerFilter}
+          AND NOT ${clickEvents.geoBlocked}
+          AND NOT COALESCE(${fraudulentClickCondition}, false)
+      )
+      SELECT
+        to_char(cohorts.cohort_month, 'YYYY-MM') AS cohort_month,
+        ${monthIndex(sql`activity.active_month`)} - ${monthIndex(sql`cohorts.cohort_month`)} AS month_offset,
+        COUNT(DISTINCT cohorts.creator_id)::int AS creators
+      FROM cohorts
+      LEFT JOIN activity ON activity.creator_id = cohorts.creator_id AND activity.active_month >= cohorts.cohort_month
+      WHERE cohorts.cohort_month >= date_trunc('month', NOW()) - make_interval(months => ${months - 1})
+      GROUP BY 1, 2
+      ORDER BY 1, 2
+    `);
+
+    // Cohort sizes are counted on their own: a creator shows up in every month row they were active in
+    const sizes = await db.execute(sql`
+      SELECT to_char(date_trunc('month', first_approved_at), 'YYYY-MM') AS cohort_month, COUNT(*)::int AS creators
+      FROM (
+        SELECT MIN(${applications.approvedAt}) AS first_approved_at
+        FROM ${applications}
+        INNER JOIN ${offers} ON ${offers.id} = ${applications.offerId}
+        WHERE ${offers.companyId} = ${companyId} ${offerFilter} AND ${applications.approvedAt} IS NOT NULL
+        GROUP BY ${applications.creatorId}
+      ) first_approvals
+      WHERE first_approved_at >= date_trunc('month', NOW()) - make_interval(months => ${months - 1})
+      GROUP BY 1
+      ORDER BY 1
+    `);
+
+    const now = new Date();
+    const currentMonthIndex = now.getUTCFullYear() * 12 + now.getUTCMonth();
+    const cohorts = new Map<string, CreatorCohort>();
+    for (const row of sizes.rows as Array<{ cohort_month: string; creators: number }>) {
+      const [year, month] = row.cohort_month.split("-").map(Number);
+      const elapsedMonths = currentMonthIndex - (year * 12 + month - 1);
+      cohorts.set(row.cohort_month, {
+        cohortMonth: row.cohort_month,
+        creators: Number(row.creators),
+        activeByMonth: new Array(elapsedMonths + 1).fill(0),
+      });
+    }
+    for (const row of result.rows as Array<{ cohort_month: string; month_offset: number | null; creators: number }>) {
+      const cohort = cohorts.get(row.cohort_month);
+      if (!cohort || row.month_offset === null) continue;
+      const offset = Number(row.month_offset);
+      if (offset < cohort.activeByMonth.length) cohort.activeByMonth[offset] = Number(row.creators);
+    }
+    return Array.from(cohorts.values());
+  }
+
+  // Reverse a conversion (refund/chargeback): debit analytics earnings, cancel the payment if it
+  // has not been paid out yet, otherwise record a negative adjustment to recover from future payouts.
+  async reverseConversion(
+    companyId: string,
+    orderId: string,
+    options: ReverseConversionOptions = {},
+  ): Promise<ReverseConversionResult> {
+    const existing = await this.getConversionByOrderId(companyId, orderId);
+    if (!existing) {
+      return { conversion: null, alreadyReversed: false, wasPendingVerification: false, paymentAction: "none", adjustments: [], shares: [] };
+    }
+    return await this.reverseConversionById(existing.id, options);
+  }
+
+  async reverseConversionById(
+    conversionId: string,
+    options: ReverseConversionOptions = {},
+  ): Promise<ReverseConversionResult> {
+    const existing = await this.getConversion(conversionId);
+    if (!existing) {
+      return { conversion: null, alreadyReversed: false, wasPendingVerification: false, paymentAction: "none", adjustments: [], shares: [] };
+    }
+
+    const reversalFields = {
+      status: "reversed" as const,
+      reversalType: options.reversalType || "manual",
+      reversalReason: options.reason || null,
+      reversedAt: new Date(),
+    };
+
+    // A conversion still held for verification was never credited: reverse it without a debit and
+    // close its pending review, so it cannot be approved (and credited) after the refund
+    const [withdrawn] = await db
+      .update(conversions)
+      .set(reversalFields)
+      .where(and(eq(conversions.id, existing.id), eq(conversions.status, "pending_verification")))
+      .returning();
+
+    if (withdrawn) {
+      await db
+        .update(fraudReviews)
+        .set({
+          status: "invalidated",
+          reviewedAt: new Date(),
+          reviewNotes: `Conversion ${withdrawn.reversalType} reversal${options.reason ? `: ${options.reason}` : ""} while pending verification`,
+        })
+        .where(and(eq(fraudReviews.conversionId, withdrawn.id), eq(fraudReviews.status, "pending")));
+
+      console.log(`[Conversion] Reversed conversion ${withdrawn.id} (order ${withdrawn.orderId ?? 'none'}) while pending verification - nothing to debit`);
+      return { conversion: withdrawn, alreadyReversed: false, wasPendingVerification: true, paymentAction: "none", adjustments: [], shares: [] };
+    }
+
+    // Claim the reversal first so concurrent requests cannot debit twice
+    const [conversion] = await db
+      .update(conversions)
+      .set(reversalFields)
+      .where(and(eq(conversions.id, existing.id), eq(conversions.status, "credited")))
+      .returning();
+
+    if (!conversion) {
+      const current = await this.getConversion(existing.id);
+      return { conversion: current ?? existing, alreadyReversed: true, wasPendingVerification: false, paymentAction: "none", adjustments: [], shares: [] };
+    }
+
+    const earnings = parseFloat(conversion.earnings);
+    const conversionDay = new Date(conversion.createdAt ?? new Date());
+    conversionDay.setHours(0, 0, 0, 0);
+
+    // Conversions recorded before multi-touch attribution have no split rows: treat them as one share
+    const attributions = await this.getConversionAttributions(conversion.id);
+    const splits = attributions.length > 0
+      ? attributions
+      : [{
+          applicationId: conversion.applicationId,
+          creatorId: conversion.creatorId,
+          earnings: conversion.earnings,
+          paymentId: conversion.paymentId,
+          isPrimary: true,
+        }];
+
+    await this.queueAnalyticsRollupHours([conversion.createdAt]);
+
+    const reasonLabel = `${conversion.reversalType} reversal${options.reason ? `: ${options.reason}` : ""}`;
+    const adjustments: PayoutAdjustment[] = [];
+    const shares: ReversedShare[] = [];
+
+    for (const split of splits) {
+      const shareEarnings = parseFloat(split.earnings);
+      const shareApplication = await this.getApplication(split.applicationId);
+      if (shareApplication) {
+        await this.creditConversionAnalytics(shareApplication, conversionDay, split.isPrimary ? -1 : 0, -shareEarnings);
+      }
+
+      let shareAction: ReversalPaymentAction = "none";
+      const payment = split.paymentId ? await this.getPayment(split.paymentId) : undefined;
+      // Unpaid payments (pending, approved but not yet sent, or failed) are cancelled in place; only
+      // money already paid out is recovered through a negative adjustment
+      if (payment && (payment.status === "pending" || payment.status === "processing" || payment.status === "failed")) {
+        await this.updatePaymentStatus(payment.id, "refunded", {
+          refundedAt: new Date(),
+          description: `${payment.description || ""} | Conversion ${conversion.id} ${reasonLabel}`,
+        });
+        shareAction = "payment_cancelled";
+      } else if (payment && payment.status === "completed") {
+        const clawback = (-parseFloat(payment.netAmount)).toFixed(2);
+        const [adjustment] = await db
+          .insert(payoutAdjustments)
+          .values({
+            creatorId: split.creatorId,
+            companyId: conversion.companyId,
+            conversionId: conversion.id,
+            paymentId: payment.id,
+            currency: payment.currency,
+            amount: clawback,
+            remainingAmount: clawback,
+            reason: `${conversion.orderId ? `Order ${conversion.orderId}` : `Conversion ${conversion.id}`} ${reasonLabel}`,
+            status: "outstanding",
+          })
+          .returning();
+        adjustments.push(adjustment);
+        shareAction = "adjustment_created";
+      }
+
+      shares.push({
+        applicationId: split.applicationId,
+        creatorId: split.creatorId,
+        earnings: split.earnings,
+        paymentId: split.paymentId,
+        paymentAction: shareAction,
+      });
+    }
+
+    // The company gets back the escrow its commissions were drawn from
+    await this.refundEscrowDraws(
+      shares.map((share) => share.paymentId).filter((id): id is string => !!id),
+      `Conversion ${conversion.id} ${reasonLabel}`,
+    );
+
+    const paymentAction: ReversalPaymentAction = shares.some((s) => s.paymentAction === "adjustment_created")
+      ? "adjustment_created"
+      : shares.some((s) => s.paymentAction === "payment_cancelled")
+        ? "payment_cancelled"
+        : "none";
 
-    const feeLabel = fees.isCustomFee ? `Custom ${formatFeePercentage(fees.platformFeePercentage)}` : `${formatFeePercentage(DEFAULT_PLATFORM_FEE_PERCENTAGE)}`;
     console.log(
-      `[Conversion] Recorded conversion for application ${applicationId} - Gross: $${fees.grossAmount.toFixed(2)}, Platform Fee (${feeLabel}): $${fees.platformFeeAmount.toFixed(2)}, Stripe Fee (${formatFeePercentage(STRIPE_PROCESSING_FEE_PERCENTAGE)}): $${fees.stripeFeeAmount.toFixed(2)}, Net: $${fees.netAmount.toFixed(2)}`,
+      `[Conversion] Reversed conversion ${conversion.id} (order ${conversion.orderId ?? 'none'}) - debited $${earnings.toFixed(2)} across ${shares.length} share(s), payment action: ${paymentAction}`,
     );
+
+    return { conversion, alreadyReversed: false, wasPendingVerification: false, paymentAction, adjustments, shares };
   }
 
-  // Payment Settings
-  async getPaymentSettings(userId: string): Promise<PaymentSetting[]> {
+  // Outstanding adjustments in one currency; a clawback is only recovered from payouts in its own currency
+  async getOutstandingPayoutAdjustments(creatorId: string, currency: string): Promise<PayoutAdjustment[]> {
     return await db
       .select()
-      .from(paymentSettings)
-      .where(eq(paymentSettings.userId, userId))
-      .orderBy(desc(paymentSettings.createdAt));
+      .from(payoutAdjustments)
+      .where(and(
+        eq(payoutAdjustments.creatorId, creatorId),
+        eq(payoutAdjustments.currency, normalizeCurrency(currency)),
+        eq(payoutAdjustments.status, "outstanding"),
+      ))
+      .orderBy(asc(payoutAdjustments.createdAt));
+  }
+
+  // Offset up to maxAmount of a creator's outstanding adjustments in the payout's currency against
+  // it (oldest first). Returns the amount actually recovered.
+  async applyPayoutAdjustments(creatorId: string, currency: string, paymentId: string, maxAmount: number): Promise<number> {
+    const outstanding = await this.getOutstandingPayoutAdjustments(creatorId, currency);
+    let available = Math.max(0, maxAmount);
+    let recovered = 0;
+
+    for (const adjustment of outstanding) {
+      if (available <= 0) break;
+      const owed = -parseFloat(adjustment.remainingAmount);
+      const applied = Math.min(owed, available);
+      const remaining = owed - applied;
+
+      await db
+        .update(payoutAdjustments)
+        .set({
+          remainingAmount: (-remaining).toFixed(2),
+          status: remaining <= 0 ? "applied" : "outstanding",
+          lastAppliedPaymentId: paymentId,
+          appliedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(payoutAdjustments.id, adjustment.id));
+
+      available -= applied;
+      recovered += applied;
+    }
+
+    return Math.round(recovered * 100) / 100;
   }
 
-  async createPaymentSetting(setting: InsertPaymentSetting): Promise<PaymentSetting> {
+  // Payout Runs
+  /**
+   * Approved (processing) affiliate payments that have not been picked up by a payout run yet
+   */
+  async getPayablePayments(): Promise<PayablePayment[]> {
+    return await db
+      .select({
+        payment: payments,
+        offerMinimumPayout: offers.minimumPayout,
+      })
+      .from(payments)
+      .innerJoin(offers, eq(payments.offerId, offers.id))
+      .where(and(eq(payments.status, "processing"), isNull(payments.payoutRunItemId)))
+      .orderBy(asc(payments.createdAt));
+  }
+
+  async createPayoutRun(run: InsertPayoutRun): Promise<PayoutRun> {
     const result = await db
-      .insert(paymentSettings)
+      .insert(payoutRuns)
       .values({
-        ...setting,
+        ...run,
         id: randomUUID(),
         createdAt: new Date(),
-        updatedAt: new Date(),
       })
       .returning();
     return result[0];
   }
 
-  async deletePaymentSetting(id: string): Promise<void> {
-    await db.delete(paymentSettings).where(eq(paymentSettings.id, id));
+  async updatePayoutRun(id: string, updates: Partial<InsertPayoutRun>): Promise<PayoutRun | undefined> {
+    const result = await db
+      .update(payoutRuns)
+      .set(updates)
+      .where(eq(payoutRuns.id, id))
+      .returning();
+    return result[0];
   }
 
-  async setPrimaryPaymentMethod(userId: string, paymentMethodId: string): Promise<void> {
-    // First, unset all primary flags for this user
-    await db
-      .update(paymentSettings)
-      .set({ isDefault: false })
-      .where(eq(paymentSettings.userId, userId));
-
-    // Then set the specified one as primary
-    await db
-      .update(paymentSettings)
-      .set({ isDefault: true, updatedAt: new Date() })
-      .where(eq(paymentSettings.id, paymentMethodId));
+  async getPayoutRun(id: string): Promise<PayoutRun | undefined> {
+    const result = await db.select().from(payoutRuns).where(eq(payoutRuns.id, id)).limit(1);
+    return result[0];
   }
 
-  async updatePaymentSetting(paymentMethodId: string, updates: Partial<PaymentSetting>): Promise<void> {
-    await db
-      .update(paymentSettings)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(paymentSettings.id, paymentMethodId));
+  async getPayoutRuns(limit: number = 50): Promise<PayoutRun[]> {
+    return await db
+      .select()
+      .from(payoutRuns)
+      .orderBy(desc(payoutRuns.createdAt))
+      .limit(limit);
   }
 
-  // Payments
-  async createPayment(payment: InsertPayment): Promise<Payment> {
+  async getProcessingPayoutRun(): Promise<PayoutRun | undefined> {
     const result = await db
+      .select()
+      .from(payoutRuns)
+      .where(eq(payoutRuns.status, "processing"))
+      .limit(1);
+    return result[0];
+  }
+
+  /**
+   * Create a run item and claim its payments so later runs skip them
+   */
+  async createPayoutRunItem(item: InsertPayoutRunItem, paymentIds: string[]): Promise<PayoutRunItem> {
+    const result = await db
+      .insert(payoutRunItems)
+      .values({
+        ...item,
+        id: randomUUID(),
+        createdAt: new Date(),
+      })
+      .returning();
+
+    if (paymentIds.length > 0) {
+      await db
+        .update(payments)
+        .set({ payoutRunId: item.runId, payoutRunItemId: result[0].id, updatedAt: new Date() })
+        .where(inArray(payments.id, paymentIds));
+    }
+
+    return result[0];
+  }
+
+  async updatePayoutRunItem(id: string, updates: Partial<InsertPayoutRunItem>): Promise<PayoutRunItem | undefined> {
+    const result = await db
+      .update(payoutRunItems)
+      .set(updates)
+      .where(eq(payoutRunItems.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getPayoutRunItems(runId: string): Promise<any[]> {
+    const rows = await db
+      .select({
+        item: payoutRunItems,
+        creator: {
+          username: users.username,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+        },
+      })
+      .from(payoutRunItems)
+      .leftJoin(users, eq(payoutRunItems.creatorId, users.id))
+      .where(eq(payoutRunItems.runId, runId))
+      .orderBy(asc(payoutRunItems.payoutMethod), desc(payoutRunItems.amount));
+
+    return rows.map((row) => ({ ...row.item, creator: row.creator }));
+  }
+
+  // Detach the item's payments that are no longer approved and unpaid (paid by hand, refunded or
+  // disputed since the run claimed them), so a retry never sends them again
+  async releaseSettledPayoutRunItemPayments(itemId: string): Promise<Payment[]> {
+    return await db
+      .update(payments)
+      .set({ payoutRunId: null, payoutRunItemId: null, updatedAt: new Date() })
+      .where(and(eq(payments.payoutRunItemId, itemId), ne(payments.status, "processing")))
+      .returning();
+  }
+
+  async getPayoutRunItemPayments(itemId: string): Promise<Payment[]> {
+    return await db
+      .select()
+      .from(payments)
+      .where(eq(payments.payoutRunItemId, itemId))
+      .orderBy(asc(payments.createdAt));
+  }
+
+  async completePayoutRunItemPayments(
+    itemId: string,
+    details: { providerTransactionId?: string; providerResponse?: any },
+  ): Promise<void> {
+    await db
+      .update(payments)
+      .set({
+        status: "completed",
+        providerTransactionId: details.providerTransactionId,
+        providerResponse: details.providerResponse,
+        description: "Paid in batched payout run",
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(payments.payoutRunItemId, itemId), eq(payments.status, "processing")));
+  }
+
+  // Payment Settings
+  async getPaymentSettings(userId: string): Promise<PaymentSetting[]> {
+    return await db
+      .select()
+      .from(paymentSettings)
+      .where(eq(paymentSettings.userId, userId))
+      .orderBy(desc(paymentSettings.createdAt));
+  }
+
+  async createPaymentSetting(setting: InsertPaymentSetting): Promise<PaymentSetting> {
+    const result = await db
+      .insert(paymentSettings)
+      .values({
+        ...setting,
+        id: randomUUID(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .returning();
+    return result[0];
+  }
+
+  async deletePaymentSetting(id: string): Promise<void> {
+    await db.delete(paymentSettings).where(eq(paymentSettings.id, id));
+  }
+
+  async setPrimaryPaymentMethod(userId: string, paymentMethodId: string): Promise<void> {
+    // First, unset all primary flags for this user
+    await db
+      .update(paymentSettings)
+      .set({ isDefault: false })
+      .where(eq(paymentSettings.userId, userId));
+
+    // Then set the specified one as primary
+    await db
+      .update(paymentSettings)
+      .set({ isDefault: true, updatedAt: new Date() })
+      .where(eq(paymentSettings.id, paymentMethodId));
+  }
+
+  async updatePaymentSetting(paymentMethodId: string, updates: Partial<PaymentSetting>): Promise<void> {
+    await db
+      .update(paymentSettings)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(paymentSettings.id, paymentMethodId));
+  }
+
+  // Tax Profiles
+  async getTaxProfile(userId: string): Promise<TaxProfile | undefined> {
+    const result = await db.select().from(taxProfiles).where(eq(taxProfiles.userId, userId)).limit(1);
+    return result[0];
+  }
+
+  async getTaxProfilesByUserIds(userIds: string[]): Promise<TaxProfile[]> {
+    if (userIds.length === 0) return [];
+    return await db.select().from(taxProfiles).where(inArray(taxProfiles.userId, userIds));
+  }
+
+  async upsertTaxProfile(profile: InsertTaxProfile): Promise<TaxProfile> {
+    const [result] = await db
+      .insert(taxProfiles)
+      .values({
+        ...profile,
+        id: randomUUID(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .onConflictDoUpdate({
+        target: taxProfiles.userId,
+        set: {
+          ...profile,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return result;
+  }
+
+  /**
+   * Completed affiliate and retainer payouts in a calendar year, grouped by creator, month and currency.
+   * Retainer payments have no currency column and are treated as USD.
+   */
+  async getCreatorEarningsForYear(taxYear: number, creatorId?: string): Promise<CreatorEarningsRow[]> {
+    const start = new Date(Date.UTC(taxYear, 0, 1));
+    const end = new Date(Date.UTC(taxYear + 1, 0, 1));
+
+    const affiliateMonth = sql<number>`EXTRACT(MONTH FROM ${payments.completedAt})::int`;
+    const affiliate = await db
+      .select({
+        creatorId: payments.creatorId,
+        currency: payments.currency,
+        month: affiliateMonth,
+        grossAmount: sql<string>`COALESCE(SUM(${payments.grossAmount}), 0)`,
+        feesAmount: sql<string>`COALESCE(SUM(${payments.platformFeeAmount} + ${payments.stripeFeeAmount}), 0)`,
+        netAmount: sql<string>`COALESCE(SUM(${payments.netAmount}), 0)`,
+        paymentCount: sql<number>`COUNT(*)::int`,
+      })
+      .from(payments)
+      .where(and(
+        eq(payments.status, "completed"),
+        gte(payments.completedAt, start),
+        sql`${payments.completedAt} < ${end}`,
+        creatorId ? eq(payments.creatorId, creatorId) : undefined,
+      ))
+      .groupBy(payments.creatorId, payments.currency, affiliateMonth);
+
+    const retainerMonth = sql<number>`EXTRACT(MONTH FROM ${retainerPayments.completedAt})::int`;
+    const retainer = await db
+      .select({
+        creatorId: retainerPayments.creatorId,
+        month: retainerMonth,
+        grossAmount: sql<string>`COALESCE(SUM(${retainerPayments.grossAmount}), 0)`,
+        feesAmount: sql<string>`COALESCE(SUM(${retainerPayments.platformFeeAmount} + ${retainerPayments.processingFeeAmount}), 0)`,
+        netAmount: sql<string>`COALESCE(SUM(${retainerPayments.netAmount}), 0)`,
+        paymentCount: sql<number>`COUNT(*)::int`,
+      })
+      .from(retainerPayments)
+      .where(and(
+        eq(retainerPayments.status, "completed"),
+        gte(retainerPayments.completedAt, start),
+        sql`${retainerPayments.completedAt} < ${end}`,
+        creatorId ? eq(retainerPayments.creatorId, creatorId) : undefined,
+      ))
+      .groupBy(retainerPayments.creatorId, retainerMonth);
+
+    return [
+      ...affiliate.map((row) => ({ ...row, source: "affiliate" as const })),
+      ...retainer.map((row) => ({ ...row, currency: "USD", source: "retainer" as const })),
+    ].map((row) => ({
+      creatorId: row.creatorId,
+      source: row.source,
+      currency: row.currency,
+      month: Number(row.month),
+      grossAmount: parseFloat(row.grossAmount),
+      feesAmount: parseFloat(row.feesAmount),
+      netAmount: parseFloat(row.netAmount),
+      paymentCount: Number(row.paymentCount),
+    }));
+  }
+
+  async upsertAnnualTaxSummary(summary: InsertAnnualTaxSummary): Promise<AnnualTaxSummary> {
+    const [result] = await db
+      .insert(annualTaxSummaries)
+      .values({
+        ...summary,
+        id: randomUUID(),
+        generatedAt: new Date(),
+      })
+      .onConflictDoUpdate({
+        target: [annualTaxSummaries.userId, annualTaxSummaries.taxYear],
+        set: {
+          ...summary,
+          generatedAt: new Date(),
+        },
+      })
+      .returning();
+    return result;
+  }
+
+  async getAnnualTaxSummary(userId: string, taxYear: number): Promise<AnnualTaxSummary | undefined> {
+    const result = await db
+      .select()
+      .from(annualTaxSummaries)
+      .where(and(eq(annualTaxSummaries.userId, userId), eq(annualTaxSummaries.taxYear, taxYear)))
+      .limit(1);
+    return result[0];
+  }
+
+  async getAnnualTaxSummariesByUser(userId: string): Promise<AnnualTaxSummary[]> {
+    return await db
+      .select()
+      .from(annualTaxSummaries)
+      .where(eq(annualTaxSummaries.userId, userId))
+      .orderBy(desc(annualTaxSummaries.taxYear));
+  }
+
+  async getAnnualTaxSummaries(taxYear: number): Promise<any[]> {
+    const rows = await db
+      .select({
+        summary: annualTaxSummaries,
+        email: users.email,
+        username: users.username,
+      })
+      .from(annualTaxSummaries)
+      .leftJoin(users, eq(annualTaxSummaries.userId, users.id))
+      .where(eq(annualTaxSummaries.taxYear, taxYear))
+      .orderBy(desc(annualTaxSummaries.grossAmount));
+
+    return rows.map((row) => ({ ...row.summary, email: row.email, username: row.username }));
+  }
+
+  // Ledger
+  async getOrCreateLedgerAccount(account: InsertLedgerAccount): Promise<LedgerAccount> {
+    await db.insert(ledgerAccounts).values(account).onConflictDoNothing({ target: ledgerAccounts.accountKey });
+    const result = await db
+      .select()
+      .from(ledgerAccounts)
+      .where(eq(ledgerAccounts.accountKey, account.accountKey))
+      .limit(1);
+    return result[0];
+  }
+
+  async getLedgerAccount(id: string): Promise<LedgerAccount | undefined> {
+    const result = await db.select().from(ledgerAccounts).where(eq(ledgerAccounts.id, id)).limit(1);
+    return result[0];
+  }
+
+  // Insert a transaction and its lines atomically; a repeated idempotency key returns the original
+  async postLedgerTransaction(
+    transaction: InsertLedgerTransaction,
+    lines: LedgerLine[],
+  ): Promise<{ transaction: LedgerTransaction; created: boolean }> {
+    return await db.transaction(async (tx) => {
+      const [inserted] = await tx
+        .insert(ledgerTransactions)
+        .values(transaction)
+        .onConflictDoNothing({ target: ledgerTransactions.idempotencyKey })
+        .returning();
+
+      if (!inserted) {
+        const [existing] = await tx
+          .select()
+          .from(ledgerTransactions)
+          .where(eq(ledgerTransactions.idempotencyKey, transaction.idempotencyKey))
+          .limit(1);
+        return { transaction: existing, created: false };
+      }
+
+      await tx.insert(ledgerEntries).values(lines.map((line) => ({ ...line, transactionId: inserted.id })));
+      return { transaction: inserted, created: true };
+    });
+  }
+
+  async getLedgerTransactionsForPayment(paymentId: string): Promise<LedgerTransaction[]> {
+    return await db
+      .select()
+      .from(ledgerTransactions)
+      .where(or(eq(ledgerTransactions.paymentId, paymentId), eq(ledgerTransactions.retainerPaymentId, paymentId)))
+      .orderBy(asc(ledgerTransactions.createdAt));
+  }
+
+  async getLedgerTrialBalance(options: { currency?: string; asOf?: Date } = {}): Promise<LedgerAccountBalance[]> {
+    const conditions = [];
+    if (options.currency) conditions.push(eq(ledgerAccounts.currency, options.currency));
+
+    const rows = await db
+      .select({
+        account: ledgerAccounts,
+        debit: sql<string>`COALESCE(SUM(${ledgerEntries.debit}), 0)`,
+        credit: sql<string>`COALESCE(SUM(${ledgerEntries.credit}), 0)`,
+      })
+      .from(ledgerAccounts)
+      .leftJoin(
+        ledgerEntries,
+        options.asOf
+          ? and(eq(ledgerEntries.accountId, ledgerAccounts.id), lte(ledgerEntries.createdAt, options.asOf))
+          : eq(ledgerEntries.accountId, ledgerAccounts.id),
+      )
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .groupBy(ledgerAccounts.id)
+      .orderBy(asc(ledgerAccounts.currency), asc(ledgerAccounts.code), asc(ledgerAccounts.name));
+
+    return rows.map((row) => ({
+      account: row.account,
+      debit: parseFloat(row.debit),
+      credit: parseFloat(row.credit),
+    }));
+  }
+
+  async getLedgerAccountTotals(accountId: string, before?: Date): Promise<{ debit: number; credit: number }> {
+    const conditions = [eq(ledgerEntries.accountId, accountId)];
+    if (before) conditions.push(sql`${ledgerEntries.createdAt} < ${before}`);
+
+    const [row] = await db
+      .select({
+        debit: sql<string>`COALESCE(SUM(${ledgerEntries.debit}), 0)`,
+        credit: sql<string>`COALESCE(SUM(${ledgerEntries.credit}), 0)`,
+      })
+      .from(ledgerEntries)
+      .where(and(...conditions));
+
+    return { debit: parseFloat(row?.debit || "0"), credit: parseFloat(row?.credit || "0") };
+  }
+
+  async getLedgerAccountStatement(
+    accountId: string,
+    options: { from?: Date; to?: Date; limit?: number } = {},
+  ): Promise<LedgerStatementLine[]> {
+    const conditions = [eq(ledgerEntries.accountId, accountId)];
+    if (options.from) conditions.push(gte(ledgerEntries.createdAt, options.from));
+    if (options.to) conditions.push(lte(ledgerEntries.createdAt, options.to));
+
+    return await db
+      .select({ entry: ledgerEntries, transaction: ledgerTransactions })
+      .from(ledgerEntries)
+      .innerJoin(ledgerTransactions, eq(ledgerEntries.transactionId, ledgerTransactions.id))
+      .where(and(...conditions))
+      .orderBy(asc(ledgerEntries.createdAt), asc(ledgerEntries.id))
+      .limit(options.limit ?? 500);
+  }
+
+  // Company Wallets & Escrow
+  async getCompanyWallet(companyId: string): Promise<CompanyWallet> {
+    await db.insert(companyWallets).values({ companyId }).onConflictDoNothing({ target: companyWallets.companyId });
+    const result = await db.select().from(companyWallets).where(eq(companyWallets.companyId, companyId)).limit(1);
+    return result[0];
+  }
+
+  async getCompanyWalletCurrency(companyId: string): Promise<string> {
+    const [wallet] = await db
+      .select({ currency: companyWallets.currency })
+      .from(companyWallets)
+      .where(eq(companyWallets.companyId, companyId))
+      .limit(1);
+    return wallet?.currency ?? "USD";
+  }
+
+  async createWalletTopUp(topUp: InsertWalletTopUp): Promise<WalletTopUp> {
+    const result = await db.insert(walletTopUps).values(topUp).returning();
+    return result[0];
+  }
+
+  async updateWalletTopUp(id: string, updates: Partial<InsertWalletTopUp>): Promise<WalletTopUp | undefined> {
+    const result = await db.update(walletTopUps).set(updates).where(eq(walletTopUps.id, id)).returning();
+    return result[0];
+  }
+
+  async getWalletTopUpBySession(stripeCheckoutSessionId: string): Promise<WalletTopUp | undefined> {
+    const result = await db
+      .select()
+      .from(walletTopUps)
+      .where(eq(walletTopUps.stripeCheckoutSessionId, stripeCheckoutSessionId))
+      .limit(1);
+    return result[0];
+  }
+
+  // Credits the wallet once; a second confirmation of the same top-up is a no-op (credited=false)
+  async completeWalletTopUp(
+    id: string,
+    stripePaymentIntentId?: string | null,
+  ): Promise<{ topUp: WalletTopUp | undefined; credited: boolean }> {
+    return await db.transaction(async (tx) => {
+      const [topUp] = await tx
+        .update(walletTopUps)
+        .set({ status: "completed", completedAt: new Date(), stripePaymentIntentId: stripePaymentIntentId ?? null })
+        .where(and(eq(walletTopUps.id, id), eq(walletTopUps.status, "pending")))
+        .returning();
+      if (!topUp) {
+        const [existing] = await tx.select().from(walletTopUps).where(eq(walletTopUps.id, id)).limit(1);
+        return { topUp: existing, credited: false };
+      }
+
+      await tx.insert(companyWallets).values({ companyId: topUp.companyId }).onConflictDoNothing({ target: companyWallets.companyId });
+      const [wallet] = await tx
+        .update(companyWallets)
+        .set({
+          availableBalance: sql`${companyWallets.availableBalance} + ${topUp.amount}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(companyWallets.companyId, topUp.companyId))
+        .returning();
+
+      await tx.insert(walletTransactions).values({
+        companyId: topUp.companyId,
+        type: "top_up",
+        amount: topUp.amount,
+        availableAfter: wallet.availableBalance,
+        topUpId: topUp.id,
+        description: "Wallet top-up",
+        createdBy: topUp.createdBy,
+      });
+
+      return { topUp, credited: true };
+    });
+  }
+
+  async getEscrowReserve(id: string): Promise<EscrowReserve | undefined> {
+    const result = await db.select().from(escrowReserves).where(eq(escrowReserves.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getEscrowReserveByOffer(offerId: string): Promise<EscrowReserve | undefined> {
+    const result = await db.select().from(escrowReserves).where(eq(escrowReserves.offerId, offerId)).limit(1);
+    return result[0];
+  }
+
+  async getEscrowReserveByContract(retainerContractId: string): Promise<EscrowReserve | undefined> {
+    const result = await db
+      .select()
+      .from(escrowReserves)
+      .where(eq(escrowReserves.retainerContractId, retainerContractId))
+      .limit(1);
+    return result[0];
+  }
+
+  async getEscrowReservesByCompany(companyId: string): Promise<EscrowReserveWithTarget[]> {
+    const rows = await db
+      .select({ reserve: escrowReserves, offerTitle: offers.title, contractTitle: retainerContracts.title })
+      .from(escrowReserves)
+      .leftJoin(offers, eq(escrowReserves.offerId, offers.id))
+      .leftJoin(retainerContracts, eq(escrowReserves.retainerContractId, retainerContracts.id))
+      .where(eq(escrowReserves.companyId, companyId))
+      .orderBy(desc(escrowReserves.createdAt));
+
+    return rows.map((row) => ({ ...row.reserve, offerTitle: row.offerTitle, contractTitle: row.contractTitle }));
+  }
+
+  // Moves funds from the wallet's available balance into the target's reserve (creating it on first use)
+  async reserveEscrowFunds(
+    companyId: string,
+    target: { offerId?: string | null; retainerContractId?: string | null },
+    amount: number,
+    options: { lowBalanceThreshold?: number | null; createdBy?: string | null } = {},
+  ): Promise<EscrowReserve> {
+    return await db.transaction(async (tx) => {
+      await tx.insert(companyWallets).values({ companyId }).onConflictDoNothing({ target: companyWallets.companyId });
+      const [wallet] = await tx
+        .select()
+        .from(companyWallets)
+        .where(eq(companyWallets.companyId, companyId))
+        .for("update");
+      if (parseFloat(wallet.availableBalance) < amount) {
+        throw new Error("Insufficient wallet balance");
+      }
+
+      const [updatedWallet] = await tx
+        .update(companyWallets)
+        .set({
+          availableBalance: sql`${companyWallets.availableBalance} - ${amount.toFixed(2)}`,
+          reservedBalance: sql`${companyWallets.reservedBalance} + ${amount.toFixed(2)}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(companyWallets.id, wallet.id))
+        .returning();
+
+      const targetCondition = target.offerId
+        ? eq(escrowReserves.offerId, target.offerId)
+        : eq(escrowReserves.retainerContractId, target.retainerContractId!);
+      const [existing] = await tx.select().from(escrowReserves).where(targetCondition).for("update");
+
+      let reserve: EscrowReserve;
+      if (existing) {
+        // A released reserve starts over; otherwise the new funds are added to what is left
+        const wasReleased = existing.status === "released";
+        const [updated] = await tx
+          .update(escrowReserves)
+          .set({
+            fundedAmount: wasReleased
+              ? amount.toFixed(2)
+              : sql`${escrowReserves.fundedAmount} + ${amount.toFixed(2)}`,
+            remainingAmount: wasReleased
+              ? amount.toFixed(2)
+              : sql`${escrowReserves.remainingAmount} + ${amount.toFixed(2)}`,
+            ...(options.lowBalanceThreshold !== undefined
+              ? { lowBalanceThreshold: options.lowBalanceThreshold === null ? null : options.lowBalanceThreshold.toFixed(2) }
+              : {}),
+            status: "active",
+            lowBalanceNotifiedAt: null,
+            offerPausedAt: null,
+            updatedAt: new Date(),
+          })
+          .where(eq(escrowReserves.id, existing.id))
+          .returning();
+        reserve = updated;
+
+        // Resume an offer that was paused because this reserve ran low (not one suspended for another reason)
+        if (existing.offerId && existing.offerPausedAt) {
+          await tx
+            .update(offers)
+            .set({ status: "approved", updatedAt: new Date() })
+            .where(and(eq(offers.id, existing.offerId), eq(offers.status, "paused")));
+        }
+      } else {
+        const [created] = await tx
+          .insert(escrowReserves)
+          .values({
+            companyId,
+            offerId: target.offerId ?? null,
+            retainerContractId: target.retainerContractId ?? null,
+            currency: wallet.currency,
+            fundedAmount: amount.toFixed(2),
+            remainingAmount: amount.toFixed(2),
+            lowBalanceThreshold:
+              options.lowBalanceThreshold === undefined || options.lowBalanceThreshold === null
+                ? null
+                : options.lowBalanceThreshold.toFixed(2),
+          })
+          .returning();
+        reserve = created;
+      }
+
+      await tx.insert(walletTransactions).values({
+        companyId,
+        escrowReserveId: reserve.id,
+        type: "reserve",
+        amount: amount.toFixed(2),
+        availableAfter: updatedWallet.availableBalance,
+        reserveRemainingAfter: reserve.remainingAmount,
+        description: target.offerId ? "Reserved for offer" : "Reserved for retainer contract",
+        createdBy: options.createdBy ?? null,
+      });
+
+      return reserve;
+    });
+  }
+
+  // Returns whatever is left in the reserve to the wallet's available balance
+  async releaseEscrowFunds(id: string, createdBy?: string | null): Promise<EscrowReserve | undefined> {
+    return await db.transaction(async (tx) => {
+      const [reserve] = await tx.select().from(escrowReserves).where(eq(escrowReserves.id, id)).for("update");
+      if (!reserve || reserve.status === "released") return reserve;
+
+      const remaining = reserve.remainingAmount;
+      const [wallet] = await tx
+        .update(companyWallets)
+        .set({
+          availableBalance: sql`${companyWallets.availableBalance} + ${remaining}`,
+          reservedBalance: sql`GREATEST(${companyWallets.reservedBalance} - ${remaining}, 0)`,
+          updatedAt: new Date(),
+        })
+        .where(eq(companyWallets.companyId, reserve.companyId))
+        .returning();
+
+      const [released] = await tx
+        .update(escrowReserves)
+        .set({ status: "released", remainingAmount: "0", updatedAt: new Date() })
+        .where(eq(escrowReserves.id, id))
+        .returning();
+
+      await tx.insert(walletTransactions).values({
+        companyId: reserve.companyId,
+        escrowReserveId: reserve.id,
+        type: "release",
+        amount: remaining,
+        availableAfter: wallet.availableBalance,
+        reserveRemainingAfter: "0",
+        description: "Released unused escrow",
+        createdBy: createdBy ?? null,
+      });
+
+      return released;
+    });
+  }
+
+  // Draws up to `amount` (in the reserve's currency); anything the reserve cannot cover is recorded as a shortfall
+  async drawEscrowFunds(
+    id: string,
+    amount: number,
+    source: { paymentId?: string | null; retainerPaymentId?: string | null; description: string },
+    executor: DbExecutor = db,
+  ): Promise<EscrowDrawResult | undefined> {
+    return await executor.transaction(async (tx) => {
+      const [reserve] = await tx.select().from(escrowReserves).where(eq(escrowReserves.id, id)).for("update");
+      if (!reserve || reserve.status === "released") return undefined;
+
+      const remaining = parseFloat(reserve.remainingAmount);
+      const drawn = Math.round(Math.min(amount, remaining) * 100) / 100;
+      const shortfall = Math.round((amount - drawn) * 100) / 100;
+      const remainingAfter = Math.round((remaining - drawn) * 100) / 100;
+
+      const [wallet] = await tx
+        .update(companyWallets)
+        .set({
+          reservedBalance: sql`GREATEST(${companyWallets.reservedBalance} - ${drawn.toFixed(2)}, 0)`,
+          updatedAt: new Date(),
+        })
+        .where(eq(companyWallets.companyId, reserve.companyId))
+        .returning();
+
+      const [updated] = await tx
+        .update(escrowReserves)
+        .set({
+          remainingAmount: remainingAfter.toFixed(2),
+          status: remainingAfter <= 0 ? "depleted" : "active",
+          updatedAt: new Date(),
+        })
+        .where(eq(escrowReserves.id, id))
+        .returning();
+
+      await tx.insert(walletTransactions).values({
+        companyId: reserve.companyId,
+        escrowReserveId: reserve.id,
+        type: "draw",
+        amount: drawn.toFixed(2),
+        shortfallAmount: shortfall.toFixed(2),
+        availableAfter: wallet.availableBalance,
+        reserveRemainingAfter: updated.remainingAmount,
+        paymentId: source.paymentId ?? null,
+        retainerPaymentId: source.retainerPaymentId ?? null,
+        description: source.description,
+      });
+
+      return {
+        reserve: updated,
+        drawn,
+        shortfall,
+        isLow: shortfall > 0 || remainingAfter < getEscrowLowBalanceThreshold(updated),
+      };
+    });
+  }
+
+  // Returns what was drawn from escrow for these payments (a reversed conversion's commissions) to the
+  // reserve it came from, or to the available balance when that reserve has since been released.
+  // Payments already refunded are skipped, so repeating a reversal never credits twice.
+  async refundEscrowDraws(paymentIds: string[], description: string): Promise<WalletTransaction[]> {
+    if (paymentIds.length === 0) return [];
+
+    return await db.transaction(async (tx) => {
+      const rows = await tx
+        .select()
+        .from(walletTransactions)
+        .where(and(
+          inArray(walletTransactions.paymentId, paymentIds),
+          inArray(walletTransactions.type, ["draw", "refund"]),
+        ));
+      const refunded = new Set(rows.filter((row) => row.type === "refund").map((row) => row.paymentId));
+      const draws = rows.filter((row) => row.type === "draw" && !refunded.has(row.paymentId) && parseFloat(row.amount) > 0);
+
+      const refunds: WalletTransaction[] = [];
+      for (const draw of draws) {
+        if (!draw.escrowReserveId) continue;
+        const [reserve] = await tx.select().from(escrowReserves).where(eq(escrowReserves.id, draw.escrowReserveId)).for("update");
+        if (!reserve) continue;
+
+        const amount = draw.amount;
+        const toReserve = reserve.status !== "released";
+        const [wallet] = await tx
+          .update(companyWallets)
+          .set(toReserve
+            ? { reservedBalance: sql`${companyWallets.reservedBalance} + ${amount}`, updatedAt: new Date() }
+            : { availableBalance: sql`${companyWallets.availableBalance} + ${amount}`, updatedAt: new Date() })
+          .where(eq(companyWallets.companyId, reserve.companyId))
+          .returning();
+
+        const [updated] = toReserve
+          ? await tx
+              .update(escrowReserves)
+              .set({ remainingAmount: sql`${escrowReserves.remainingAmount} + ${amount}`, status: "active", updatedAt: new Date() })
+              .where(eq(escrowReserves.id, reserve.id))
+              .returning()
+          : [reserve];
+
+        const [refund] = await tx.insert(walletTransactions).values({
+          companyId: reserve.companyId,
+          escrowReserveId: reserve.id,
+          type: "refund",
+          amount,
+          availableAfter: wallet.availableBalance,
+          reserveRemainingAfter: updated.remainingAmount,
+          paymentId: draw.paymentId,
+          description: toReserve ? description : `${description} (reserve released, returned to available balance)`,
+        }).returning();
+        refunds.push(refund);
+      }
+      return refunds;
+    });
+  }
+
+  // Pauses a live offer whose reserve ran low; returns false when the offer was not live
+  async pauseOfferForEscrow(offerId: string, reserveId: string, executor: DbExecutor = db): Promise<boolean> {
+    return await executor.transaction(async (tx) => {
+      const paused = await tx
+        .update(offers)
+        .set({ status: "paused", updatedAt: new Date() })
+        .where(and(eq(offers.id, offerId), eq(offers.status, "approved")))
+        .returning({ id: offers.id });
+      if (paused.length === 0) return false;
+
+      await tx
+        .update(escrowReserves)
+        .set({ offerPausedAt: new Date(), updatedAt: new Date() })
+        .where(eq(escrowReserves.id, reserveId));
+      return true;
+    });
+  }
+
+  async markEscrowLowBalanceNotified(id: string): Promise<void> {
+    await db
+      .update(escrowReserves)
+      .set({ lowBalanceNotifiedAt: new Date(), updatedAt: new Date() })
+      .where(eq(escrowReserves.id, id));
+  }
+
+  async getWalletTransactions(companyId: string, limit = 100): Promise<WalletTransaction[]> {
+    return await db
+      .select()
+      .from(walletTransactions)
+      .where(eq(walletTransactions.companyId, companyId))
+      .orderBy(desc(walletTransactions.createdAt))
+      .limit(limit);
+  }
+
+  // Fraud Rules
+  async getFraudRules(): Promise<FraudRule[]> {
+    return await db.select().from(fraudRules).orderBy(desc(fraudRules.weight), fraudRules.code);
+  }
+
+  async getFraudRule(id: string): Promise<FraudRule | undefined> {
+    const result = await db.select().from(fraudRules).where(eq(fraudRules.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getFraudRuleByCode(code: string): Promise<FraudRule | undefined> {
+    const result = await db.select().from(fraudRules).where(eq(fraudRules.code, code)).limit(1);
+    return result[0];
+  }
+
+  async createFraudRule(rule: InsertFraudRule): Promise<FraudRule> {
+    const result = await db.insert(fraudRules).values(rule).returning();
+    return result[0];
+  }
+
+  async updateFraudRule(id: string, updates: Partial<InsertFraudRule>): Promise<FraudRule | undefined> {
+    const result = await db
+      .update(fraudRules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(fraudRules.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteFraudRule(id: string): Promise<FraudRule | undefined> {
+    const result = await db.delete(fraudRules).where(eq(fraudRules.id, id)).returning();
+    return result[0];
+  }
+
+  // Fraud Review Queue
+  async createFraudReview(review: InsertFraudReview): Promise<FraudReview | undefined> {
+    const result = await db.insert(fraudReviews).values(review).onConflictDoNothing().returning();
+    return result[0];
+  }
+
+  async getFraudReviewByConversion(conversionId: string): Promise<FraudReview | undefined> {
+    const result = await db.select().from(fraudReviews).where(eq(fraudReviews.conversionId, conversionId)).limit(1);
+    return result[0];
+  }
+
+  async getFraudReviewByClickEvent(clickEventId: string): Promise<FraudReview | undefined> {
+    const result = await db.select().from(fraudReviews).where(eq(fraudReviews.clickEventId, clickEventId)).limit(1);
+    return result[0];
+  }
+
+  async getFraudReviews(filter: FraudReviewFilter = {}): Promise<FraudReviewWithDetails[]> {
+    const conditions = [];
+    if (filter.status) conditions.push(eq(fraudReviews.status, filter.status));
+    if (filter.itemType) conditions.push(eq(fraudReviews.itemType, filter.itemType));
+    if (filter.creatorId) conditions.push(eq(fraudReviews.creatorId, filter.creatorId));
+    if (filter.offerId) conditions.push(eq(fraudReviews.offerId, filter.offerId));
+
+    const rows = await db
+      .select({
+        review: fraudReviews,
+        creator: {
+          username: users.username,
+          firstName: users.firstName,
+          lastName: users.lastName,
+        },
+        offerTitle: offers.title,
+        click: {
+          ipAddress: clickEvents.ipAddress,
+          userAgent: clickEvents.userAgent,
+          country: clickEvents.country,
+          timestamp: clickEvents.timestamp,
+        },
+        conversion: {
+          orderId: conversions.orderId,
+          earnings: conversions.earnings,
+          currency: conversions.currency,
+          status: conversions.status,
+        },
+      })
+      .from(fraudReviews)
+      .innerJoin(users, eq(fraudReviews.creatorId, users.id))
+      .leftJoin(offers, eq(fraudReviews.offerId, offers.id))
+      .leftJoin(clickEvents, eq(fraudReviews.clickEventId, clickEvents.id))
+      .leftJoin(conversions, eq(fraudReviews.conversionId, conversions.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(fraudReviews.fraudScore), desc(fraudReviews.createdAt))
+      .limit(filter.limit ?? 200);
+
+    return rows.map((row) => ({
+      ...row.review,
+      creatorName: [row.creator.firstName, row.creator.lastName].filter(Boolean).join(" ") || row.creator.username,
+      offerTitle: row.offerTitle,
+      ipAddress: row.click?.ipAddress ?? null,
+      userAgent: row.click?.userAgent ?? null,
+      country: row.click?.country ?? null,
+      clickedAt: row.click?.timestamp ?? null,
+      orderId: row.conversion?.orderId ?? null,
+      earnings: row.conversion?.earnings ?? null,
+      currency: row.conversion?.currency ?? null,
+      conversionStatus: row.conversion?.status ?? null,
+    }));
+  }
+
+  // Approve or invalidate pending reviews. Clicks whose standing changed are added to or removed
+  // from their day's analytics; reversing invalidated conversions is left to the caller.
+  async resolveFraudReviews(
+    ids: string[],
+    status: "approved" | "invalidated",
+    reviewedBy: string,
+    notes?: string | null,
+  ): Promise<FraudReview[]> {
+    if (ids.length === 0) return [];
+
+    // Claim only pending reviews so a decision is never applied twice
+    const resolved = await db
+      .update(fraudReviews)
+      .set({ status, reviewedBy, reviewedAt: new Date(), reviewNotes: notes || null })
+      .where(and(inArray(fraudReviews.id, ids), eq(fraudReviews.status, "pending")))
+      .returning();
+
+    const changedClickIds = resolved
+      .filter((review) => review.itemType === "click" && review.clickEventId && review.countedInAnalytics !== (status === "approved"))
+      .map((review) => review.clickEventId!);
+
+    if (changedClickIds.length > 0) {
+      const clicks = await db.select().from(clickEvents).where(inArray(clickEvents.id, changedClickIds));
+
+      // One analytics row per application per day
+      const days = new Map<string, { applicationId: string; offerId: string; creatorId: string; day: Date; count: number }>();
+      for (const click of clicks) {
+        const day = new Date(click.timestamp ?? new Date());
+        day.setHours(0, 0, 0, 0);
+        const key = `${click.applicationId}:${day.getTime()}`;
+        const entry = days.get(key) ?? { applicationId: click.applicationId, offerId: click.offerId, creatorId: click.creatorId, day, count: 0 };
+        entry.count += 1;
+        days.set(key, entry);
+      }
+
+      const direction = status === "approved" ? 1 : -1;
+      for (const entry of Array.from(days.values())) {
+        const uniqueClicks = await this.countUniqueClickIps(entry.applicationId, entry.day);
+        const existing = await db
+          .select()
+          .from(analytics)
+          .where(and(eq(analytics.applicationId, entry.applicationId), eq(analytics.date, entry.day)))
+          .limit(1);
+
+        if (existing.length > 0) {
+          await db
+            .update(analytics)
+            .set({
+              clicks: sql`GREATEST(COALESCE(${analytics.clicks}, 0) + ${direction * entry.count}, 0)`,
+              uniqueClicks,
+              updatedAt: new Date(),
+            })
+            .where(eq(analytics.id, existing[0].id));
+        } else if (direction > 0) {
+          await db.insert(analytics).values({
+            id: randomUUID(),
+            applicationId: entry.applicationId,
+            offerId: entry.offerId,
+            creatorId: entry.creatorId,
+            date: entry.day,
+            clicks: entry.count,
+            uniqueClicks,
+            conversions: 0,
+            earnings: "0",
+          });
+        }
+      }
+      await this.queueAnalyticsRollupHours(clicks.map((click) => click.timestamp));
+      console.log(`[Fraud Review] ${status} ${changedClickIds.length} click(s); analytics recomputed for ${days.size} day(s)`);
+    }
+
+    return resolved;
+  }
+
+  async getFraudRates(groupBy: "creator" | "offer", since: Date): Promise<FraudRateRow[]> {
+    const counts = {
+      totalClicks: sql<number>`count(*)`,
+      flaggedClicks: sql<number>`count(${fraudReviews.id})`,
+      fraudulentClicks: sql<number>`count(*) filter (where ${fraudulentClickCondition})`,
+    };
+    const window = and(gte(clickEvents.timestamp, since), eq(clickEvents.geoBlocked, false));
+
+    const rows = groupBy === "creator"
+      ? (await db
+          .select({
+            id: clickEvents.creatorId,
+            username: users.username,
+            firstName: users.firstName,
+            lastName: users.lastName,
+            ...counts,
+          })
+          .from(clickEvents)
+          .innerJoin(users, eq(clickEvents.creatorId, users.id))
+          .leftJoin(fraudReviews, eq(fraudReviews.clickEventId, clickEvents.id))
+          .where(window)
+          .groupBy(clickEvents.creatorId, users.username, users.firstName, users.lastName)
+          .having(sql`count(${fraudReviews.id}) > 0`)
+        ).map((row) => ({
+          ...row,
+          name: [row.firstName, row.lastName].filter(Boolean).join(" ") || row.username,
+        }))
+      : await db
+          .select({
+            id: clickEvents.offerId,
+            name: offers.title,
+            ...counts,
+          })
+          .from(clickEvents)
+          .innerJoin(offers, eq(clickEvents.offerId, offers.id))
+          .leftJoin(fraudReviews, eq(fraudReviews.clickEventId, clickEvents.id))
+          .where(window)
+          .groupBy(clickEvents.offerId, offers.title)
+          .having(sql`count(${fraudReviews.id}) > 0`);
+
+    return rows
+      .map((row) => {
+        const totalClicks = Number(row.totalClicks || 0);
+        const fraudulentClicks = Number(row.fraudulentClicks || 0);
+        return {
+          id: row.id,
+          name: row.name,
+          totalClicks,
+          flaggedClicks: Number(row.flaggedClicks || 0),
+          fraudulentClicks,
+          fraudRate: totalClicks > 0 ? Math.round((fraudulentClicks / totalClicks) * 10000) / 100 : 0,
+        };
+      })
+      .sort((a, b) => b.fraudRate - a.fraudRate);
+  }
+
+  async getCreatorFraudRate(
+    creatorId: string,
+    since: Date,
+  ): Promise<{ totalClicks: number; fraudulentClicks: number; fraudRate: number }> {
+    const result = await db
+      .select({
+        totalClicks: sql<number>`count(*)`,
+        fraudulentClicks: sql<number>`count(*) filter (where ${fraudulentClickCondition})`,
+      })
+      .from(clickEvents)
+      .leftJoin(fraudReviews, eq(fraudReviews.clickEventId, clickEvents.id))
+      .where(and(eq(clickEvents.creatorId, creatorId), gte(clickEvents.timestamp, since), eq(clickEvents.geoBlocked, false)));
+
+    const totalClicks = Number(result[0]?.totalClicks || 0);
+    const fraudulentClicks = Number(result[0]?.fraudulentClicks || 0);
+    return {
+      totalClicks,
+      fraudulentClicks,
+      fraudRate: totalClicks > 0 ? Math.round((fraudulentClicks / totalClicks) * 10000) / 100 : 0,
+    };
+  }
+
+  // Payout Holds
+  async getActivePayoutHold(creatorId: string): Promise<PayoutHold | undefined> {
+    const result = await db
+      .select()
+      .from(payoutHolds)
+      .where(and(eq(payoutHolds.creatorId, creatorId), eq(payoutHolds.status, "active")))
+      .limit(1);
+    return result[0];
+  }
+
+  async getPayoutHolds(status?: PayoutHold["status"]): Promise<PayoutHoldWithCreator[]> {
+    const rows = await db
+      .select({
+        hold: payoutHolds,
+        username: users.username,
+        firstName: users.firstName,
+        lastName: users.lastName,
+      })
+      .from(payoutHolds)
+      .innerJoin(users, eq(payoutHolds.creatorId, users.id))
+      .where(status ? eq(payoutHolds.status, status) : undefined)
+      .orderBy(desc(payoutHolds.createdAt));
+
+    return rows.map((row) => ({
+      ...row.hold,
+      creatorName: [row.firstName, row.lastName].filter(Boolean).join(" ") || row.username,
+    }));
+  }
+
+  async createPayoutHold(hold: InsertPayoutHold): Promise<PayoutHold | undefined> {
+    // At most one active hold per creator (partial unique index)
+    const result = await db.insert(payoutHolds).values(hold).onConflictDoNothing().returning();
+    return result[0];
+  }
+
+  async releasePayoutHold(id: string, releasedBy: string | null, notes?: string | null): Promise<PayoutHold | undefined> {
+    const result = await db
+      .update(payoutHolds)
+      .set({ status: "released", releasedBy, releasedAt: new Date(), releaseNotes: notes || null })
+      .where(and(eq(payoutHolds.id, id), eq(payoutHolds.status, "active")))
+      .returning();
+    return result[0];
+  }
+
+  // Payments
+  async createPayment(payment: InsertPayment, executor: DbExecutor = db): Promise<Payment> {
+    const result = await executor
       .insert(payments)
       .values({
         ...payment,
@@ -5668,6 +9084,7 @@ export class DatabaseStorage implements IStorage {
       .select({
         totalClicks: sql<number>`COALESCE(SUM(${analytics.clicks}), 0)`,
         uniqueClicks: sql<number>`COALESCE(SUM(${analytics.uniqueClicks}), 0)`,
+        geoBlockedClicks: sql<number>`COALESCE(SUM(${analytics.geoBlockedClicks}), 0)`,
         conversions: sql<number>`COALESCE(SUM(${analytics.conversions}), 0)`,
         totalSpent: sql<number>`COALESCE(SUM(CAST(${analytics.earnings} AS DECIMAL)), 0)`,
       })
@@ -5711,6 +9128,7 @@ export class DatabaseStorage implements IStorage {
     const result = {
       totalClicks: Number(analyticsResult[0]?.totalClicks || 0),
       uniqueClicks: Number(analyticsResult[0]?.uniqueClicks || 0),
+      geoBlockedClicks: Number(analyticsResult[0]?.geoBlockedClicks || 0),
       conversions: Number(analyticsResult[0]?.conversions || 0),
       totalSpent: totalSpent,
       affiliateSpent: affiliateSpent,
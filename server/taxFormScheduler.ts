@@ -0,0 +1,160 @@
+// Tax Form Scheduler
+// Builds each creator's annual earnings summary (1099-NEC style) from completed payouts
+
+import { storage, type CreatorEarningsRow } from "./storage";
+import { convertAmount } from "./exchangeRates";
+import { decryptTin } from "./taxProfiles";
+import type { AnnualTaxSummary, TaxProfile } from "../shared/schema";
+
+// Payments to a US payee at or above this amount in a year are reported on 1099-NEC
+// ($600 through 2025, $2,000 from 2026)
+export function get1099NecThreshold(taxYear: number): number {
+  return taxYear >= 2026 ? 2000 : 600;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function getReportType(profile: TaxProfile | undefined): string {
+  if (!profile) return 'summary';
+  return profile.formType === 'w9' ? '1099-NEC' : '1042-S';
+}
+
+function formatAddress(profile: TaxProfile): string {
+  return [
+    profile.addressLine1,
+    profile.addressLine2,
+    [profile.city, profile.region, profile.postalCode].filter(Boolean).join(' '),
+    profile.country,
+  ].filter(Boolean).join(', ');
+}
+
+export class TaxFormScheduler {
+  /**
+   * Generate (or regenerate) the summaries for a tax year.
+   * Pass a creatorId to rebuild a single creator's summary.
+   */
+  async generateAnnualSummaries(taxYear: number, creatorId?: string): Promise<AnnualTaxSummary[]> {
+    console.log(`[Tax Forms] Generating ${taxYear} summaries${creatorId ? ` for creator ${creatorId}` : ''}...`);
+
+    const rows = await storage.getCreatorEarningsForYear(taxYear, creatorId);
+    const byCreator = new Map<string, CreatorEarningsRow[]>();
+    for (const row of rows) {
+      byCreator.set(row.creatorId, [...(byCreator.get(row.creatorId) || []), row]);
+    }
+
+    const profiles = await storage.getTaxProfilesByUserIds(Array.from(byCreator.keys()));
+    const profileByUser = new Map(profiles.map((p) => [p.userId, p]));
+
+    const summaries: AnnualTaxSummary[] = [];
+    for (const [userId, creatorRows] of Array.from(byCreator.entries())) {
+      try {
+        summaries.push(await this.buildSummary(taxYear, userId, creatorRows, profileByUser.get(userId)));
+      } catch (error) {
+        console.error(`[Tax Forms] Error building ${taxYear} summary for creator ${userId}:`, error);
+      }
+    }
+
+    console.log(`[Tax Forms] Generated ${summaries.length} summaries for ${taxYear}`);
+    return summaries;
+  }
+
+  private async buildSummary(
+    taxYear: number,
+    userId: string,
+    rows: CreatorEarningsRow[],
+    profile: TaxProfile | undefined
+  ): Promise<AnnualTaxSummary> {
+    const monthlyGross = Array.from({ length: 12 }, () => 0);
+    const currencyTotals: Record<string, number> = {};
+    let grossAmount = 0;
+    let feesAmount = 0;
+    let netAmount = 0;
+    let affiliateAmount = 0;
+    let retainerAmount = 0;
+    let paymentCount = 0;
+
+    for (const row of rows) {
+      // Reported in USD; payouts made in other currencies are converted at the current rate
+      const rate = row.currency === 'USD' ? 1 : (await convertAmount(1, row.currency, 'USD')).rate;
+      const gross = row.grossAmount * rate;
+
+      grossAmount += gross;
+      feesAmount += row.feesAmount * rate;
+      netAmount += row.netAmount * rate;
+      paymentCount += row.paymentCount;
+      monthlyGross[row.month - 1] += gross;
+      currencyTotals[row.currency] = round2((currencyTotals[row.currency] || 0) + row.grossAmount);
+      if (row.source === 'affiliate') affiliateAmount += gross;
+      else retainerAmount += gross;
+    }
+
+    return await storage.upsertAnnualTaxSummary({
+      userId,
+      taxYear,
+      reportType: getReportType(profile),
+      recipientName: profile ? profile.businessName || profile.legalName : null,
+      recipientCountry: profile?.country || null,
+      recipientAddress: profile ? formatAddress(profile) : null,
+      tinType: profile?.tinType || null,
+      tinLast4: profile?.tinLast4 || null,
+      currency: 'USD',
+      grossAmount: round2(grossAmount).toFixed(2),
+      feesAmount: round2(feesAmount).toFixed(2),
+      netAmount: round2(netAmount).toFixed(2),
+      affiliateAmount: round2(affiliateAmount).toFixed(2),
+      retainerAmount: round2(retainerAmount).toFixed(2),
+      paymentCount,
+      monthlyGross: monthlyGross.map(round2),
+      currencyTotals,
+    });
+  }
+}
+
+/**
+ * CSV for a year's summaries. Full TINs are only included for the admin bulk export.
+ */
+export async function taxSummariesToCsv(summaries: AnnualTaxSummary[], options: { includeTin?: boolean } = {}): Promise<string> {
+  const profiles = options.includeTin
+    ? new Map((await storage.getTaxProfilesByUserIds(summaries.map((s) => s.userId))).map((p) => [p.userId, p]))
+    : new Map<string, TaxProfile>();
+
+  const headers = [
+    'Tax Year', 'Report Type', 'Recipient', 'Country', 'Address', 'TIN Type',
+    options.includeTin ? 'TIN' : 'TIN (last 4)',
+    'Gross (Box 1)', 'Fees', 'Net Paid', 'Affiliate', 'Retainer', 'Payments', 'Currency', 'Requires 1099-NEC',
+  ];
+
+  const rows = summaries.map((s) => {
+    let tin = s.tinLast4 ? `***${s.tinLast4}` : '';
+    const profile = profiles.get(s.userId);
+    if (options.includeTin && profile?.tinEncrypted) {
+      try {
+        tin = decryptTin(profile.tinEncrypted);
+      } catch (error) {
+        console.error(`[Tax Forms] Could not decrypt TIN for user ${s.userId}:`, error);
+      }
+    }
+
+    return [
+      String(s.taxYear),
+      s.reportType,
+      s.recipientName || '',
+      s.recipientCountry || '',
+      s.recipientAddress || '',
+      s.tinType || '',
+      tin,
+      s.grossAmount,
+      s.feesAmount,
+      s.netAmount,
+      s.affiliateAmount,
+      s.retainerAmount,
+      String(s.paymentCount),
+      s.currency,
+      s.reportType === '1099-NEC' && parseFloat(s.grossAmount) >= get1099NecThreshold(s.taxYear) ? 'yes' : 'no',
+    ];
+  });
+
+  return [headers, ...rows]
+    .map((row) => row.map((value) => `"${String(value).replace(/"/g, '""')}"`).join(','))
+    .join('\n');
+}
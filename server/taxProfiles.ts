@@ -0,0 +1,163 @@
+/**
+ * Tax Profiles
+ *
+ * Structured W-9 / W-8BEN data collected from creators before they can be paid:
+ * - W-9 (country US): legal name, federal tax classification, US address, SSN/EIN/ITIN
+ * - W-8BEN (any other country): legal name, country of residence, address, date of birth,
+ *   optional foreign TIN and treaty country
+ *
+ * TINs are validated for format and encrypted at rest (AES-256-GCM, key from TAX_ID_ENCRYPTION_KEY);
+ * only the last four digits are ever returned to clients.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import type { TaxProfile, TaxProfileInput } from '../shared/schema';
+
+export type TinType = 'ssn' | 'ein' | 'itin' | 'foreign_tin';
+
+// EIN prefixes the IRS has never assigned
+const INVALID_EIN_PREFIXES = new Set(['00', '07', '08', '09', '17', '18', '19', '28', '29', '49', '69', '70', '78', '79', '89', '96', '97']);
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.TAX_ID_ENCRYPTION_KEY || process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('Tax ID encryption not configured. Please set TAX_ID_ENCRYPTION_KEY in your .env file');
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Strip separators; US TINs are digits only
+ */
+export function normalizeTin(tin: string, tinType: TinType): string {
+  return tinType === 'foreign_tin'
+    ? tin.replace(/[\s-]/g, '').toUpperCase()
+    : tin.replace(/\D/g, '');
+}
+
+/**
+ * Validate a TIN's format; returns an error message or null when valid
+ */
+export function validateTin(tinType: TinType, rawTin: string): string | null {
+  const tin = normalizeTin(rawTin, tinType);
+
+  switch (tinType) {
+    case 'ssn': {
+      if (!/^\d{9}$/.test(tin)) return 'SSN must be 9 digits';
+      const area = tin.slice(0, 3);
+      if (area === '000' || area === '666' || area.startsWith('9')) return 'SSN area number is not valid';
+      if (tin.slice(3, 5) === '00' || tin.slice(5) === '0000') return 'SSN is not valid';
+      return null;
+    }
+    case 'itin': {
+      if (!/^\d{9}$/.test(tin)) return 'ITIN must be 9 digits';
+      const group = parseInt(tin.slice(3, 5), 10);
+      const validGroup = (group >= 50 && group <= 65) || (group >= 70 && group <= 88) ||
+        (group >= 90 && group <= 92) || (group >= 94 && group <= 99);
+      if (!tin.startsWith('9') || !validGroup) return 'ITIN is not valid';
+      return null;
+    }
+    case 'ein':
+      if (!/^\d{9}$/.test(tin)) return 'EIN must be 9 digits';
+      if (INVALID_EIN_PREFIXES.has(tin.slice(0, 2))) return 'EIN prefix is not valid';
+      return null;
+    case 'foreign_tin':
+      if (!/^[A-Z0-9]{4,20}$/.test(tin)) return 'Foreign TIN must be 4-20 letters or digits';
+      return null;
+    default:
+      return 'Unknown TIN type';
+  }
+}
+
+export function encryptTin(tin: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(tin, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64')).join('.');
+}
+
+export function decryptTin(payload: string): string {
+  const [iv, tag, encrypted] = payload.split('.').map((part) => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+/**
+ * List what a stored profile is still missing before payouts can go out
+ */
+export function getMissingTaxProfileFields(profile: TaxProfile | null | undefined): string[] {
+  if (!profile) return ['taxProfile'];
+
+  const missing: string[] = [];
+  if (!profile.legalName) missing.push('legalName');
+  if (!profile.addressLine1 || !profile.city) missing.push('address');
+  if (!profile.signatureName || !profile.certifiedAt) missing.push('certification');
+
+  if (profile.formType === 'w9') {
+    if (profile.country !== 'US') missing.push('country');
+    if (!profile.taxClassification) missing.push('taxClassification');
+    if (!profile.tinEncrypted || !profile.tinType || profile.tinType === 'foreign_tin') missing.push('tin');
+  } else {
+    if (!profile.country || profile.country === 'US') missing.push('country');
+    if (!profile.dateOfBirth) missing.push('dateOfBirth');
+  }
+
+  return missing;
+}
+
+export function isTaxProfileComplete(profile: TaxProfile | null | undefined): boolean {
+  return getMissingTaxProfileFields(profile).length === 0;
+}
+
+/**
+ * Client-safe view of a profile (no encrypted TIN)
+ */
+export function toPublicTaxProfile(profile: TaxProfile) {
+  const { tinEncrypted, ...rest } = profile;
+  return {
+    ...rest,
+    hasTin: !!tinEncrypted,
+    isComplete: isTaxProfileComplete(profile),
+    missingFields: getMissingTaxProfileFields(profile),
+  };
+}
+
+/**
+ * Validate a submitted profile's TIN against the stored one.
+ * Returns the fields to persist or an error message.
+ */
+export function prepareTaxProfileTin(
+  input: TaxProfileInput,
+  existing: TaxProfile | null | undefined
+): { tinType: TinType | null; tinEncrypted: string | null; tinLast4: string | null } | { error: string } {
+  const tinType = (input.tinType || (input.formType === 'w8ben' ? 'foreign_tin' : null)) as TinType | null;
+
+  if (input.tin) {
+    if (!tinType) return { error: 'Select the type of tax identification number' };
+    const error = validateTin(tinType, input.tin);
+    if (error) return { error };
+    const tin = normalizeTin(input.tin, tinType);
+    return { tinType, tinEncrypted: encryptTin(tin), tinLast4: tin.slice(-4) };
+  }
+
+  // Keep the stored TIN only if it is still the same kind of number
+  if (existing?.tinEncrypted && existing.tinType === tinType) {
+    return { tinType, tinEncrypted: existing.tinEncrypted, tinLast4: existing.tinLast4 };
+  }
+
+  if (input.formType === 'w9') {
+    return { error: 'A valid SSN, EIN or ITIN is required for W-9' };
+  }
+  return { tinType: null, tinEncrypted: null, tinLast4: null };
+}
+
+export default {
+  validateTin,
+  encryptTin,
+  decryptTin,
+  isTaxProfileComplete,
+  getMissingTaxProfileFields,
+  toPublicTaxProfile,
+  prepareTaxProfileTin,
+};
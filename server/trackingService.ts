@@ -13,10 +13,43 @@ import crypto from 'crypto';
 const TRACKING_SECRET = process.env.TRACKING_SECRET || 'affiliate-xchange-tracking-secret-key-2024';
 
 // Conversion event types
-export type ConversionEventType = 'sale' | 'lead' | 'click' | 'signup' | 'install' | 'custom';
+// 'refund' and 'chargeback' reverse a previously recorded conversion (matched by orderId)
+export type ConversionEventType = 'sale' | 'lead' | 'click' | 'signup' | 'install' | 'custom' | 'refund' | 'chargeback';
+
+export type ReversalEventType = Extract<ConversionEventType, 'refund' | 'chargeback'>;
+
+export const REVERSAL_EVENT_TYPES: ReversalEventType[] = ['refund', 'chargeback'];
+
+/**
+ * Check whether a postback event reverses an existing conversion
+ */
+export function isReversalEvent(eventType: string): eventType is ReversalEventType {
+  return (REVERSAL_EVENT_TYPES as string[]).includes(eventType);
+}
+
+// Events a tracking pixel may record as a new conversion. Clicks are tracked by the redirect and
+// reversals (refund/chargeback) need a signed postback, so a pixel sending them is rejected.
+export const PIXEL_CONVERSION_EVENT_TYPES: ConversionEventType[] = ['sale', 'lead', 'signup', 'install', 'custom'];
+
+/**
+ * Check whether a pixel event records a new conversion
+ */
+export function isPixelConversionEvent(eventType: string): boolean {
+  return !isReversalEvent(eventType) && (PIXEL_CONVERSION_EVENT_TYPES as string[]).includes(eventType);
+}
+
+/**
+ * Parse a pixel's sale amount: undefined when absent, null when it is not a non-negative number
+ */
+export function parsePixelAmount(amount: unknown): number | undefined | null {
+  if (amount === undefined || amount === '') return undefined;
+  const value = Number(amount);
+  return typeof amount === 'string' && Number.isFinite(value) && value >= 0 ? value : null;
+}
 
 export interface PostbackConversion {
   trackingCode: string;
+  clickId?: string;
   eventType: ConversionEventType;
   saleAmount?: number;
   currency?: string;
@@ -91,6 +124,54 @@ export function generateConversionId(): string {
   return `conv_${Date.now()}_${crypto.randomBytes(8).toString('hex')}`;
 }
 
+// Query parameter the click id is appended under when an offer doesn't configure its own
+export const DEFAULT_CLICK_ID_PARAM = 'ax_click_id';
+
+/**
+ * Generate a unique click ID (minted per /go/:code redirect)
+ */
+export function generateClickId(): string {
+  return `clk_${crypto.randomBytes(12).toString('hex')}`;
+}
+
+/**
+ * Fingerprint a visitor from IP + user agent so clicks on different creators' links
+ * can be matched for multi-touch attribution (hashed, the raw values stay on click_events)
+ */
+export function generateVisitorFingerprint(ip: string, userAgent: string): string {
+  return crypto.createHash('sha256').update(`${ip}|${userAgent}`).digest('hex');
+}
+
+/**
+ * Append the click ID to a destination URL under the given query parameter
+ * Falls back to returning the URL unchanged if it can't be parsed
+ */
+export function appendClickIdToUrl(url: string, clickId: string, param: string = DEFAULT_CLICK_ID_PARAM): string {
+  try {
+    const destination = new URL(url);
+    destination.searchParams.set(param || DEFAULT_CLICK_ID_PARAM, clickId);
+    return destination.toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Check whether a conversion at `at` falls inside the offer's cookie window (in days)
+ * Offers without a cookie duration don't enforce a window
+ */
+export function isWithinCookieWindow(
+  clickedAt: Date,
+  cookieDurationDays: number | null | undefined,
+  at: Date = new Date()
+): boolean {
+  if (!cookieDurationDays || cookieDurationDays <= 0) {
+    return true;
+  }
+  const elapsed = at.getTime() - clickedAt.getTime();
+  return elapsed <= cookieDurationDays * 24 * 60 * 60 * 1000;
+}
+
 /**
  * Generate short tracking code (8 alphanumeric characters)
  */
@@ -236,10 +317,11 @@ X-API-Key: YOUR_API_KEY
 ## Request Body
 {
   "trackingCode": "AB12CD34",
-  "eventType": "sale",        // sale, lead, click, signup, install, custom
+  "clickId": "clk_9f2c...",   // Recommended: value of the click id query param on your landing page
+  "eventType": "sale",        // sale, lead, click, signup, install, custom, refund, chargeback
   "saleAmount": 99.99,        // Required for per_sale commissions
   "currency": "USD",          // Optional, defaults to USD
-  "orderId": "ORDER-12345",   // Optional, for your reference
+  "orderId": "ORDER-12345",   // Recommended: retries with the same orderId are not credited twice
   "timestamp": 1701234567890, // Unix timestamp in milliseconds
   "signature": "abc123..."    // HMAC-SHA256 signature
 }
@@ -261,14 +343,44 @@ function generateSignature($trackingCode, $eventType, $saleAmount, $timestamp, $
 ## Response
 {
   "success": true,
+  "duplicate": false,
   "message": "Conversion recorded successfully",
   "conversionId": "conv_1701234567890_abc123",
   "earnings": 19.99
 }
+
+## Duplicate Orders
+Sending the same orderId again (postback or pixel) returns the original conversionId
+with "duplicate": true and does not credit the creator a second time.
+
+## Click IDs & Cookie Window
+Every click on a tracking link (/go/CODE) redirects to your product URL with a click id appended
+(default parameter: ax_click_id, configurable per offer). Store it with the visitor's session and
+send it back as "clickId" (postback) or "click_id" (pixel). Conversions reported with a click id
+are rejected with HTTP 422 if the click is older than the offer's cookie duration.
+When clickId is sent, trackingCode may be omitted.
+
+## Multi-touch Attribution
+If the visitor clicked several creators' links for the same offer, the commission of a conversion
+reported with a clickId is split according to the offer's attribution model (last click, first click,
+linear or time decay). Without a clickId the reporting creator receives the full commission.
+
+## Refunds & Chargebacks
+Send "eventType": "refund" or "chargeback" with the original orderId to reverse a conversion.
+Reversal postbacks must be signed (timestamp + signature are required) and may include a
+"reason". The creator's earnings are debited; if the commission was already paid out it is
+recovered from the creator's next payout.
 `;
 }
 
 export default {
+  isReversalEvent,
+  isPixelConversionEvent,
+  parsePixelAmount,
+  generateClickId,
+  appendClickIdToUrl,
+  isWithinCookieWindow,
+  generateVisitorFingerprint,
   generatePostbackSignature,
   validatePostbackSignature,
   isTimestampValid,
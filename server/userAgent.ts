@@ -0,0 +1,78 @@
+/**
+ * User Agent Parsing
+ *
+ * Derives a click's device type, operating system and browser from its User-Agent header when
+ * /go/:code logs it. Pattern based rather than a full device database: enough to tell mobile from
+ * desktop audiences and to spot the in-app browsers (Instagram, TikTok, ...) creator traffic
+ * mostly arrives through. Patterns are checked in order, so more specific tokens come first
+ * (Edge and Opera user agents also contain "Chrome", and Chrome's contain "Safari").
+ */
+
+export const DEVICE_TYPES = ['mobile', 'tablet', 'desktop', 'bot'] as const;
+export type DeviceType = typeof DEVICE_TYPES[number];
+
+export interface ParsedUserAgent {
+  deviceType: DeviceType | null; // null when there is no user agent
+  os: string | null;
+  browser: string | null;
+}
+
+const BOT_PATTERN = /bot\b|crawler|spider|slurp|facebookexternalhit|headlesschrome|curl\/|wget\/|python-requests|go-http-client|okhttp|java\//i;
+const TABLET_PATTERN = /ipad|tablet|kindle|silk\/|playbook/i;
+const MOBILE_PATTERN = /mobi|iphone|ipod|android|windows phone/i;
+
+const OS_PATTERNS: Array<[RegExp, string]> = [
+  [/windows phone/i, 'Windows Phone'],
+  [/iphone|ipad|ipod/i, 'iOS'],
+  [/android/i, 'Android'],
+  [/cros/i, 'ChromeOS'],
+  [/windows/i, 'Windows'],
+  [/macintosh|mac os x/i, 'macOS'],
+  [/linux|x11/i, 'Linux'],
+];
+
+const BROWSER_PATTERNS: Array<[RegExp, string]> = [
+  // In-app browsers of the platforms creators post on
+  [/instagram/i, 'Instagram'],
+  [/fban|fbav|fb_iab/i, 'Facebook'],
+  [/musical_ly|bytedancewebview|tiktok/i, 'TikTok'],
+  [/snapchat/i, 'Snapchat'],
+  [/pinterest/i, 'Pinterest'],
+  [/twitter/i, 'X (Twitter)'],
+  [/edg(e|a|ios)?\//i, 'Edge'],
+  [/opr\/|opera/i, 'Opera'],
+  [/samsungbrowser/i, 'Samsung Internet'],
+  [/firefox|fxios/i, 'Firefox'],
+  [/chrome|crios|chromium/i, 'Chrome'],
+  [/safari/i, 'Safari'],
+];
+
+function firstMatch(userAgent: string, patterns: Array<[RegExp, string]>): string {
+  const match = patterns.find(([pattern]) => pattern.test(userAgent));
+  return match ? match[1] : 'Other';
+}
+
+/**
+ * Device type, OS and browser of a user agent ("Other" when not recognized)
+ */
+export function parseUserAgent(userAgent: string | null | undefined): ParsedUserAgent {
+  const ua = (userAgent || '').trim();
+  if (!ua) {
+    return { deviceType: null, os: null, browser: null };
+  }
+
+  const os = firstMatch(ua, OS_PATTERNS);
+  let deviceType: DeviceType;
+  if (BOT_PATTERN.test(ua)) {
+    deviceType = 'bot';
+  } else if (TABLET_PATTERN.test(ua) || (os === 'Android' && !/mobile/i.test(ua))) {
+    // Android tablets leave "Mobile" out of the user agent
+    deviceType = 'tablet';
+  } else if (MOBILE_PATTERN.test(ua)) {
+    deviceType = 'mobile';
+  } else {
+    deviceType = 'desktop';
+  }
+
+  return { deviceType, os, browser: firstMatch(ua, BROWSER_PATTERNS) };
+}
@@ -0,0 +1,189 @@
+// Wallet Service
+// Company prepaid wallets: Stripe Checkout top-ups, escrow draws for retainer payments and
+// low-balance alerts for offer and contract reserves
+import Stripe from 'stripe';
+import { storage, type EscrowAlert } from "./storage";
+import { ledgerService } from "./ledgerService";
+import { convertAmount } from "./exchangeRates";
+import type { NotificationService } from "./notifications/notificationService";
+import type { RetainerPayment, WalletTopUp } from "../shared/schema";
+
+let stripeClient: Stripe | null = null;
+
+function getStripeClient(): Stripe {
+  const secretKey = process.env.STRIPE_SECRET_KEY;
+  if (!secretKey) {
+    throw new Error('Stripe credentials not configured. Please set STRIPE_SECRET_KEY in your .env file');
+  }
+  if (!stripeClient) {
+    stripeClient = new Stripe(secretKey);
+  }
+  return stripeClient;
+}
+
+/**
+ * Check if payment sandbox mode is enabled
+ * In sandbox mode, top-ups are credited immediately without a Stripe Checkout session
+ */
+function isSandboxMode(): boolean {
+  return process.env.PAYMENT_SANDBOX_MODE === 'true';
+}
+
+export const MIN_WALLET_TOP_UP = 10;
+
+export interface TopUpSessionResult {
+  topUp: WalletTopUp;
+  checkoutUrl: string;
+}
+
+export class WalletService {
+  constructor(private notificationService: NotificationService) {}
+
+  /**
+   * Start a top-up. Returns the Stripe Checkout URL the company is redirected to; the wallet
+   * is credited when the session is confirmed as paid.
+   */
+  async createTopUpSession(companyId: string, userId: string, amount: number): Promise<TopUpSessionResult> {
+    const wallet = await storage.getCompanyWallet(companyId);
+    const baseUrl = process.env.BASE_URL || 'http://localhost:5000';
+
+    const topUp = await storage.createWalletTopUp({
+      companyId,
+      amount: amount.toFixed(2),
+      currency: wallet.currency,
+      status: 'pending',
+      createdBy: userId,
+    });
+
+    if (isSandboxMode()) {
+      const sessionId = `sandbox_topup_${topUp.id}`;
+      await storage.updateWalletTopUp(topUp.id, { stripeCheckoutSessionId: sessionId });
+      const completed = await this.completeTopUp(topUp.id, null);
+      console.log(`[Wallet] Sandbox top-up of ${amount.toFixed(2)} ${wallet.currency} credited for company ${companyId}`);
+      return {
+        topUp: completed ?? topUp,
+        checkoutUrl: `${baseUrl}/company/wallet?topup=${sessionId}`,
+      };
+    }
+
+    const stripe = getStripeClient();
+    const session = await stripe.checkout.sessions.create({
+      mode: 'payment',
+      line_items: [{
+        quantity: 1,
+        price_data: {
+          currency: wallet.currency.toLowerCase(),
+          unit_amount: Math.round(amount * 100),
+          product_data: { name: 'Wallet top-up' },
+        },
+      }],
+      metadata: { walletTopUpId: topUp.id, companyId },
+      success_url: `${baseUrl}/company/wallet?topup={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${baseUrl}/company/wallet`,
+    });
+
+    const updated = await storage.updateWalletTopUp(topUp.id, { stripeCheckoutSessionId: session.id });
+    console.log(`[Wallet] Created checkout session ${session.id} for top-up ${topUp.id}`);
+
+    return { topUp: updated ?? topUp, checkoutUrl: session.url || `${baseUrl}/company/wallet` };
+  }
+
+  /**
+   * Credit a top-up once Stripe reports its checkout session as paid. Safe to call repeatedly.
+   */
+  async confirmTopUp(sessionId: string, companyId: string): Promise<{ topUp: WalletTopUp; credited: boolean }> {
+    const topUp = await storage.getWalletTopUpBySession(sessionId);
+    if (!topUp || topUp.companyId !== companyId) {
+      throw new Error('Top-up not found');
+    }
+    if (topUp.status !== 'pending') {
+      return { topUp, credited: false };
+    }
+
+    const session = await getStripeClient().checkout.sessions.retrieve(sessionId);
+    if (session.payment_status !== 'paid') {
+      if (session.status === 'expired') {
+        const failed = await storage.updateWalletTopUp(topUp.id, { status: 'failed' });
+        return { topUp: failed ?? topUp, credited: false };
+      }
+      return { topUp, credited: false };
+    }
+
+    const paymentIntentId = typeof session.payment_intent === 'string'
+      ? session.payment_intent
+      : session.payment_intent?.id ?? null;
+    const completed = await this.completeTopUp(topUp.id, paymentIntentId);
+    return { topUp: completed ?? topUp, credited: completed?.status === 'completed' };
+  }
+
+  /**
+   * Draw an approved retainer payment from the contract's escrow reserve, if it has one
+   */
+  async drawForRetainerPayment(retainerPayment: RetainerPayment): Promise<void> {
+    try {
+      const reserve = await storage.getEscrowReserveByContract(retainerPayment.contractId);
+      if (!reserve || reserve.status === 'released') return;
+
+      // Retainer payments are in USD
+      const cost = await convertAmount(parseFloat(retainerPayment.grossAmount), 'USD', reserve.currency);
+      const draw = await storage.drawEscrowFunds(reserve.id, cost.amount, {
+        retainerPaymentId: retainerPayment.id,
+        description: retainerPayment.description || 'Retainer payment',
+      });
+
+      if (draw?.isLow && !draw.reserve.lowBalanceNotifiedAt) {
+        await this.notifyEscrowLow({ reserve: draw.reserve, offerPaused: false, shortfall: draw.shortfall });
+      }
+    } catch (error) {
+      console.error(`[Wallet] Error drawing escrow for retainer payment ${retainerPayment.id}:`, error);
+    }
+  }
+
+  /**
+   * Tell the company its reserve is running low (and that the offer was paused, if it was)
+   */
+  async notifyEscrowLow(alert: EscrowAlert): Promise<void> {
+    try {
+      const { reserve } = alert;
+      const company = await storage.getCompanyProfileById(reserve.companyId);
+      if (!company) return;
+
+      const offer = reserve.offerId ? await storage.getOffer(reserve.offerId) : undefined;
+      const contract = reserve.retainerContractId ? await storage.getRetainerContract(reserve.retainerContractId) : undefined;
+      const target = offer?.title || contract?.title || 'your campaign';
+      const remaining = `${parseFloat(reserve.remainingAmount).toFixed(2)} ${reserve.currency}`;
+
+      await this.notificationService.sendNotification(
+        company.userId,
+        'escrow_low_balance',
+        alert.offerPaused ? 'Offer Paused - Escrow Low' : 'Escrow Balance Low',
+        alert.offerPaused
+          ? `"${target}" has been paused because its escrow is down to ${remaining}. Add funds to resume it.`
+          : `The escrow for "${target}" is down to ${remaining}. Add funds to keep paying creators.`,
+        {
+          companyName: company.legalName,
+          offerId: offer?.id,
+          offerTitle: offer?.title,
+          contractId: contract?.id,
+          contractTitle: contract?.title,
+          remainingAmount: remaining,
+          amount: alert.shortfall > 0 ? `${alert.shortfall.toFixed(2)} ${reserve.currency}` : undefined,
+          offerPaused: alert.offerPaused,
+        }
+      );
+      await storage.markEscrowLowBalanceNotified(reserve.id);
+      console.log(`[Wallet] Escrow ${reserve.id} low (${remaining})${alert.offerPaused ? ' - offer paused' : ''}`);
+    } catch (error) {
+      console.error(`[Wallet] Error sending escrow low balance notification for reserve ${alert.reserve.id}:`, error);
+    }
+  }
+
+  private async completeTopUp(topUpId: string, paymentIntentId: string | null): Promise<WalletTopUp | undefined> {
+    const { topUp, credited } = await storage.completeWalletTopUp(topUpId, paymentIntentId);
+    if (topUp && credited) {
+      await ledgerService.recordWalletTopUp(topUp);
+      console.log(`[Wallet] Credited top-up ${topUp.id} (${topUp.amount} ${topUp.currency}) to company ${topUp.companyId}`);
+    }
+    return topUp;
+  }
+}
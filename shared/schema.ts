@@ -12,6 +12,7 @@ import {
   boolean,
   pgEnum,
   uuid,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -32,6 +33,22 @@ export const applicationStatusEnum = pgEnum('application_status', [
 ]);
 export const payoutMethodEnum = pgEnum('payout_method', ['etransfer', 'wire', 'paypal', 'crypto']);
 export const paymentStatusEnum = pgEnum('payment_status', ['pending', 'processing', 'completed', 'failed', 'refunded']);
+export const conversionSourceEnum = pgEnum('conversion_source', ['postback', 'pixel', 'manual']);
+export const conversationContextEnum = pgEnum('conversation_context', ['application', 'outreach', 'retainer_contract', 'retainer_application']);
+export const conversionStatusEnum = pgEnum('conversion_status', ['credited', 'reversed', 'pending_verification', 'rejected']);
+export const payoutAdjustmentStatusEnum = pgEnum('payout_adjustment_status', ['outstanding', 'applied']);
+export const attributionModelEnum = pgEnum('attribution_model', ['last_click', 'first_click', 'linear', 'time_decay']);
+export const payoutRunStatusEnum = pgEnum('payout_run_status', ['processing', 'completed', 'partially_failed', 'failed']);
+export const payoutRunItemStatusEnum = pgEnum('payout_run_item_status', ['pending', 'completed', 'failed']);
+export const taxFormTypeEnum = pgEnum('tax_form_type', ['w9', 'w8ben']);
+export const ledgerAccountTypeEnum = pgEnum('ledger_account_type', ['asset', 'liability', 'revenue', 'expense']);
+export const walletTopUpStatusEnum = pgEnum('wallet_top_up_status', ['pending', 'completed', 'failed']);
+export const escrowReserveStatusEnum = pgEnum('escrow_reserve_status', ['active', 'depleted', 'released']);
+export const walletTransactionTypeEnum = pgEnum('wallet_transaction_type', ['top_up', 'reserve', 'release', 'draw', 'refund']);
+export const fraudReviewItemTypeEnum = pgEnum('fraud_review_item_type', ['click', 'conversion']);
+export const fraudReviewStatusEnum = pgEnum('fraud_review_status', ['pending', 'approved', 'invalidated']);
+export const payoutHoldStatusEnum = pgEnum('payout_hold_status', ['active', 'released']);
+export const fraudRuleTypeEnum = pgEnum('fraud_rule_type', ['user_agent', 'missing_header', 'ip_blocklist', 'ip_list_file', 'velocity', 'conversion_without_click', 'fast_conversion', 'duplicate_order_id', 'sale_amount_outlier', 'conversion_velocity', 'conversion_ip_without_click', 'pixel_without_click']);
 export const retainerStatusEnum = pgEnum('retainer_status', ['open', 'in_progress', 'completed', 'cancelled', 'paused']);
 export const retainerApplicationStatusEnum = pgEnum('retainer_application_status', ['pending', 'approved', 'rejected']);
 export const deliverableStatusEnum = pgEnum('deliverable_status', ['pending_review', 'approved', 'revision_requested', 'rejected']);
@@ -71,7 +88,9 @@ export const notificationTypeEnum = pgEnum('notification_type', [
   'content_flagged',
   'high_risk_company',
   'account_deletion_otp',
-  'password_change_otp'
+  'password_change_otp',
+  'escrow_low_balance',
+  'conversion_pending_verification'
 ]);
 export const offerPendingActionEnum = pgEnum('offer_pending_action', ['delete', 'suspend']);
 export const keywordCategoryEnum = pgEnum('keyword_category', ['profanity', 'spam', 'legal', 'harassment', 'custom']);
@@ -245,6 +264,8 @@ export const companyProfiles = pgTable("company_profiles", {
   status: companyStatusEnum("status").notNull().default('pending'),
   approvedAt: timestamp("approved_at"),
   rejectionReason: text("rejection_reason"),
+  // Saved reply templates: when the default templates were added (they are never re-added after that)
+  messageTemplatesSeededAt: timestamp("message_templates_seeded_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -292,7 +313,11 @@ export const offers = pgTable("offers", {
   commissionType: commissionTypeEnum("commission_type").notNull(),
   commissionAmount: decimal("commission_amount", { precision: 10, scale: 2 }),
   commissionPercentage: decimal("commission_percentage", { precision: 5, scale: 2 }),
-  cookieDuration: integer("cookie_duration"),
+  currency: varchar("currency", { length: 3 }).notNull().default('USD'), // Currency commission amounts and reported sales are settled in
+  cookieDuration: integer("cookie_duration"), // Attribution window in days; conversions reported with a click id older than this are rejected
+  clickIdParameter: varchar("click_id_parameter", { length: 50 }).default('ax_click_id'), // Query param /go/:code appends the click id under
+  attributionModel: attributionModelEnum("attribution_model").notNull().default('last_click'), // How commission is split when several creators' links were clicked
+  commissionRules: jsonb("commission_rules"), // Tiered rates/milestone bonuses, see commissionRulesSchema
   averageOrderValue: decimal("average_order_value", { precision: 10, scale: 2 }),
   minimumPayout: decimal("minimum_payout", { precision: 10, scale: 2 }),
   retainerAmount: decimal("retainer_amount", { precision: 10, scale: 2 }),
@@ -300,7 +325,9 @@ export const offers = pgTable("offers", {
   paymentSchedule: varchar("payment_schedule"),
   minimumFollowers: integer("minimum_followers"),
   allowedPlatforms: text("allowed_platforms").array().default(sql`ARRAY[]::text[]`),
-  geographicRestrictions: text("geographic_restrictions").array().default(sql`ARRAY[]::text[]`),
+  geographicRestrictions: text("geographic_restrictions").array().default(sql`ARRAY[]::text[]`), // Countries (names or ISO codes) /go/:code lets through; empty or "Worldwide" = everyone
+  geoFallbackUrl: varchar("geo_fallback_url"), // Where visitors outside geographicRestrictions are sent; null shows the "not available in your region" page
+  geoDestinations: jsonb("geo_destinations"), // Per-country destination URLs keyed by ISO code, see geoDestinationsSchema
   ageRestriction: varchar("age_restriction"),
   contentStyleRequirements: text("content_style_requirements"),
   brandSafetyRequirements: text("brand_safety_requirements"),
@@ -367,6 +394,7 @@ export const applications = pgTable("applications", {
   status: applicationStatusEnum("status").notNull().default('pending'),
   trackingLink: varchar("tracking_link"),
   trackingCode: varchar("tracking_code"),
+  vanitySlug: varchar("vanity_slug", { length: 40 }).unique(), // Creator-chosen alias of trackingCode, /go/<slug>
   approvedAt: timestamp("approved_at"),
   completedAt: timestamp("completed_at"),
   autoApprovalScheduledAt: timestamp("auto_approval_scheduled_at"),
@@ -390,10 +418,14 @@ export const applicationsRelations = relations(applications, ({ one, many }) =>
 // Conversations
 export const conversations = pgTable("conversations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  applicationId: varchar("application_id").notNull().references(() => applications.id, { onDelete: 'cascade' }),
+  contextType: conversationContextEnum("context_type").notNull().default('application'), // What the conversation is about (see server/conversationContexts.ts)
+  applicationId: varchar("application_id").references(() => applications.id, { onDelete: 'cascade' }), // 'application' conversations
   creatorId: varchar("creator_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
   companyId: varchar("company_id").notNull().references(() => companyProfiles.id, { onDelete: 'cascade' }),
-  offerId: varchar("offer_id").notNull().references(() => offers.id, { onDelete: 'cascade' }),
+  offerId: varchar("offer_id").references(() => offers.id, { onDelete: 'cascade' }), // Application's offer, or the offer an outreach is about
+  retainerContractId: varchar("retainer_contract_id").references(() => retainerContracts.id, { onDelete: 'cascade' }), // 'retainer_contract' and 'retainer_application' conversations
+  retainerApplicationId: varchar("retainer_application_id").references(() => retainerApplications.id, { onDelete: 'cascade' }), // 'retainer_application' conversations
+  initiatedBy: varchar("initiated_by").references(() => users.id, { onDelete: 'set null' }),
   lastMessageAt: timestamp("last_message_at"),
   creatorUnreadCount: integer("creator_unread_count").default(0),
   companyUnreadCount: integer("company_unread_count").default(0),
@@ -428,6 +460,7 @@ export const messages = pgTable("messages", {
   content: text("content").notNull(),
   attachments: text("attachments").array().default(sql`ARRAY[]::text[]`),
   isRead: boolean("is_read").default(false),
+  readAt: timestamp("read_at"), // When the recipient opened the conversation (read receipt)
   deletedFor: text("deleted_for").array().default(sql`ARRAY[]::text[]`), // Array of user IDs who deleted "for me"
   senderType: varchar("sender_type", { length: 20 }).default("user"), // 'user' | 'platform' - platform messages are from admin
   createdAt: timestamp("created_at").defaultNow(),
@@ -444,6 +477,79 @@ export const messagesRelations = relations(messages, ({ one }) => ({
   }),
 }));
 
+// Saved reply templates, shared by a company's team. Content uses {{variable}} placeholders
+// resolved from the conversation (see server/messageTemplates.ts)
+export const messageTemplates = pgTable("message_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companyProfiles.id, { onDelete: 'cascade' }),
+  title: varchar("title", { length: 100 }).notNull(),
+  content: text("content").notNull(),
+  usageCount: integer("usage_count").notNull().default(0),
+  lastUsedAt: timestamp("last_used_at"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: 'set null' }),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_message_templates_company").on(table.companyId),
+]);
+
+export const messageTemplatesRelations = relations(messageTemplates, ({ one }) => ({
+  company: one(companyProfiles, {
+    fields: [messageTemplates.companyId],
+    references: [companyProfiles.id],
+  }),
+}));
+
+// A company's message to many of an offer's creators at once, sent into each creator's
+// application conversation (see server/messageBroadcasts.ts)
+export const messageBroadcasts = pgTable("message_broadcasts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  offerId: varchar("offer_id").notNull().references(() => offers.id, { onDelete: 'cascade' }),
+  companyId: varchar("company_id").notNull().references(() => companyProfiles.id, { onDelete: 'cascade' }),
+  senderId: varchar("sender_id").references(() => users.id, { onDelete: 'set null' }),
+  content: text("content").notNull(),
+  targetStatuses: text("target_statuses").array().notNull().default(sql`ARRAY[]::text[]`), // Application statuses sent to
+  targetSegments: text("target_segments").array().notNull().default(sql`ARRAY[]::text[]`), // Performance segments sent to; empty = all
+  recipientCount: integer("recipient_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_message_broadcasts_offer_created").on(table.offerId, table.createdAt),
+]);
+
+// One row per targeted application; messageId is null when sending to it failed
+export const messageBroadcastRecipients = pgTable("message_broadcast_recipients", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  broadcastId: varchar("broadcast_id").notNull().references(() => messageBroadcasts.id, { onDelete: 'cascade' }),
+  applicationId: varchar("application_id").notNull().references(() => applications.id, { onDelete: 'cascade' }),
+  creatorId: varchar("creator_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  conversationId: varchar("conversation_id").references(() => conversations.id, { onDelete: 'set null' }),
+  messageId: varchar("message_id").references(() => messages.id, { onDelete: 'set null' }),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_message_broadcast_recipients_broadcast_application").on(table.broadcastId, table.applicationId),
+]);
+
+export const messageBroadcastsRelations = relations(messageBroadcasts, ({ one, many }) => ({
+  offer: one(offers, {
+    fields: [messageBroadcasts.offerId],
+    references: [offers.id],
+  }),
+  recipients: many(messageBroadcastRecipients),
+}));
+
+export const messageBroadcastRecipientsRelations = relations(messageBroadcastRecipients, ({ one }) => ({
+  broadcast: one(messageBroadcasts, {
+    fields: [messageBroadcastRecipients.broadcastId],
+    references: [messageBroadcasts.id],
+  }),
+  message: one(messages, {
+    fields: [messageBroadcastRecipients.messageId],
+    references: [messages.id],
+  }),
+}));
+
 // Reviews
 export const reviews = pgTable("reviews", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -545,6 +651,7 @@ export const analytics = pgTable("analytics", {
   clicks: integer("clicks").default(0),
   uniqueClicks: integer("unique_clicks").default(0),
   conversions: integer("conversions").default(0),
+  geoBlockedClicks: integer("geo_blocked_clicks").default(0), // Clicks turned away by the offer's geographic restrictions (not in clicks)
   earnings: decimal("earnings", { precision: 10, scale: 2 }).default('0'),
   earningsPaid: decimal("earnings_paid", { precision: 10, scale: 2 }).default('0'),
   createdAt: timestamp("created_at").defaultNow(),
@@ -561,6 +668,7 @@ export const analyticsRelations = relations(analytics, ({ one }) => ({
 // Click Events
 export const clickEvents = pgTable("click_events", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clickId: varchar("click_id").unique(), // clk_<hex> minted by /go/:code and passed to the destination URL
   applicationId: varchar("application_id").notNull().references(() => applications.id, { onDelete: 'cascade' }),
   offerId: varchar("offer_id").notNull().references(() => offers.id, { onDelete: 'cascade' }),
   creatorId: varchar("creator_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
@@ -571,12 +679,88 @@ export const clickEvents = pgTable("click_events", {
   city: varchar("city"),
   fraudScore: integer("fraud_score").default(0),
   fraudFlags: text("fraud_flags"),
+  fraudBlocked: boolean("fraud_blocked").notNull().default(false), // Score reached the block score in force when the click was logged
   utmSource: varchar("utm_source"),
   utmMedium: varchar("utm_medium"),
   utmCampaign: varchar("utm_campaign"),
   utmTerm: varchar("utm_term"),
   utmContent: varchar("utm_content"),
+  visitorFingerprint: varchar("visitor_fingerprint", { length: 64 }), // Hash of IP + user agent, links a visitor's clicks across creators
+  geoBlocked: boolean("geo_blocked").notNull().default(false), // Visitor's country is outside the offer's geographic restrictions
+  deviceType: varchar("device_type", { length: 20 }), // Parsed from userAgent when logged (server/userAgent.ts): mobile, tablet, desktop, bot
+  os: varchar("os", { length: 40 }),
+  browser: varchar("browser", { length: 40 }),
+  deepLinkId: varchar("deep_link_id").references(() => trackingDeepLinks.id, { onDelete: 'set null' }), // Set when the click came through /go/:code/:linkCode
+  sub1: varchar("sub1", { length: 100 }), // Creator sub-ids: the deep link's defaults, overridden by ?sub1..sub5 on the link
+  sub2: varchar("sub2", { length: 100 }),
+  sub3: varchar("sub3", { length: 100 }),
+  sub4: varchar("sub4", { length: 100 }),
+  sub5: varchar("sub5", { length: 100 }),
   timestamp: timestamp("timestamp").defaultNow(),
+}, (table) => [
+  index("idx_click_events_offer_visitor").on(table.offerId, table.visitorFingerprint),
+  index("idx_click_events_timestamp").on(table.timestamp),
+]);
+
+// Analytics Hourly Rollups (rebuilt an hour at a time from click_events and conversions; see server/analyticsRollupScheduler.ts)
+export const analyticsHourly = pgTable("analytics_hourly", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hour: timestamp("hour").notNull(), // Start of the hour (UTC)
+  applicationId: varchar("application_id").notNull().references(() => applications.id, { onDelete: 'cascade' }),
+  offerId: varchar("offer_id").notNull().references(() => offers.id, { onDelete: 'cascade' }),
+  creatorId: varchar("creator_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  companyId: varchar("company_id").notNull().references(() => companyProfiles.id, { onDelete: 'cascade' }),
+  country: varchar("country").notNull().default(''), // Dimensions are '' when unknown so they can be part of the unique key
+  utmSource: varchar("utm_source").notNull().default(''),
+  deviceType: varchar("device_type", { length: 20 }).notNull().default(''), // mobile, tablet, desktop
+  clicks: integer("clicks").notNull().default(0), // Excludes fraud- and geo-blocked clicks, like analytics.clicks
+  uniqueClicks: integer("unique_clicks").notNull().default(0), // Distinct IPs within the row; not additive across rows
+  conversions: integer("conversions").notNull().default(0), // Credited conversions, counted against the primary application
+  earnings: decimal("earnings", { precision: 12, scale: 2 }).notNull().default('0'), // Credited earnings (each attribution share on its own application)
+  fraudBlockedClicks: integer("fraud_blocked_clicks").notNull().default(0),
+  geoBlockedClicks: integer("geo_blocked_clicks").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("analytics_hourly_dimensions_key").on(table.hour, table.applicationId, table.country, table.utmSource, table.deviceType),
+  index("idx_analytics_hourly_company_hour").on(table.companyId, table.hour),
+  index("idx_analytics_hourly_creator_hour").on(table.creatorId, table.hour),
+]);
+
+// Hours whose rollups need rebuilding: queued by new clicks and conversions and by later changes
+// to them (fraud review decisions, held conversions approved, reversals)
+export const analyticsRollupQueue = pgTable("analytics_rollup_queue", {
+  hour: timestamp("hour").primaryKey(),
+  queuedAt: timestamp("queued_at").defaultNow(),
+});
+
+// Tracking Deep Links (product-level sub-links of an application's tracking link, /go/:code/:linkCode)
+export const trackingDeepLinks = pgTable("tracking_deep_links", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  applicationId: varchar("application_id").notNull().references(() => applications.id, { onDelete: 'cascade' }),
+  code: varchar("code", { length: 16 }).notNull().unique(),
+  label: varchar("label", { length: 100 }),
+  destinationUrl: text("destination_url").notNull(), // Page on the company's verified website
+  sub1: varchar("sub1", { length: 100 }), // Default sub-ids recorded on every click of the link
+  sub2: varchar("sub2", { length: 100 }),
+  sub3: varchar("sub3", { length: 100 }),
+  sub4: varchar("sub4", { length: 100 }),
+  sub5: varchar("sub5", { length: 100 }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_tracking_deep_links_application_id").on(table.applicationId),
+]);
+
+// Company Link Domains (branded domain a company's tracking links resolve under, e.g. go.brand.com/<slug>)
+export const companyLinkDomains = pgTable("company_link_domains", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().unique().references(() => companyProfiles.id, { onDelete: 'cascade' }),
+  domain: varchar("domain", { length: 253 }).notNull().unique(), // Lower-cased host name, on the company's verified website domain
+  verificationToken: varchar("verification_token").notNull(), // Expected in the TXT record of _affiliatexchange-link.<domain>
+  verified: boolean("verified").notNull().default(false),
+  verifiedAt: timestamp("verified_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export const clickEventsRelations = relations(clickEvents, ({ one }) => ({
@@ -599,6 +783,8 @@ export const paymentSettings = pgTable("payment_settings", {
   cryptoNetwork: varchar("crypto_network"),
   stripeAccountId: varchar("stripe_account_id"), // Stripe Connect account ID for e-transfers
   taxInformation: jsonb("tax_information"),
+  payoutCurrency: varchar("payout_currency", { length: 3 }).notNull().default('USD'), // Currency payouts to this method are computed in
+  minimumPayout: decimal("minimum_payout", { precision: 10, scale: 2 }), // Creator's own payout threshold (falls back to the platform minimum)
   isDefault: boolean("is_default").default(false),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -611,6 +797,72 @@ export const paymentSettingsRelations = relations(paymentSettings, ({ one }) =>
   }),
 }));
 
+// Tax Profiles (W-9 for US persons, W-8BEN for everyone else; one per user)
+export const taxProfiles = pgTable("tax_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }).unique(),
+  formType: taxFormTypeEnum("form_type").notNull(),
+  legalName: varchar("legal_name", { length: 200 }).notNull(),
+  businessName: varchar("business_name", { length: 200 }),
+  taxClassification: varchar("tax_classification", { length: 30 }), // W-9 federal tax classification
+  country: varchar("country", { length: 2 }).notNull(), // ISO 3166-1 alpha-2 country of tax residence
+  addressLine1: varchar("address_line1", { length: 200 }).notNull(),
+  addressLine2: varchar("address_line2", { length: 200 }),
+  city: varchar("city", { length: 100 }).notNull(),
+  region: varchar("region", { length: 100 }),
+  postalCode: varchar("postal_code", { length: 20 }),
+  tinType: varchar("tin_type", { length: 20 }), // ssn | ein | itin | foreign_tin
+  tinEncrypted: text("tin_encrypted"), // AES-256-GCM, never returned to clients
+  tinLast4: varchar("tin_last4", { length: 4 }),
+  dateOfBirth: varchar("date_of_birth", { length: 10 }), // W-8BEN only, YYYY-MM-DD
+  treatyCountry: varchar("treaty_country", { length: 2 }), // W-8BEN treaty benefits claim
+  signatureName: varchar("signature_name", { length: 200 }).notNull(),
+  certifiedAt: timestamp("certified_at").notNull(),
+  completedAt: timestamp("completed_at"), // Set once every field the form requires is present and valid
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const taxProfilesRelations = relations(taxProfiles, ({ one }) => ({
+  user: one(users, {
+    fields: [taxProfiles.userId],
+    references: [users.id],
+  }),
+}));
+
+// Annual Tax Summaries (per-creator earnings for a calendar year, 1099-NEC style for W-9 creators)
+export const annualTaxSummaries = pgTable("annual_tax_summaries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  taxYear: integer("tax_year").notNull(),
+  reportType: varchar("report_type", { length: 20 }).notNull(), // 1099-NEC | 1042-S | summary (no tax profile)
+  recipientName: varchar("recipient_name", { length: 200 }),
+  recipientCountry: varchar("recipient_country", { length: 2 }),
+  recipientAddress: text("recipient_address"),
+  tinType: varchar("tin_type", { length: 20 }),
+  tinLast4: varchar("tin_last4", { length: 4 }),
+  currency: varchar("currency", { length: 3 }).notNull().default('USD'), // Totals below are in this currency
+  grossAmount: decimal("gross_amount", { precision: 12, scale: 2 }).notNull(), // Reported compensation (1099-NEC box 1)
+  feesAmount: decimal("fees_amount", { precision: 12, scale: 2 }).notNull(),
+  netAmount: decimal("net_amount", { precision: 12, scale: 2 }).notNull(),
+  affiliateAmount: decimal("affiliate_amount", { precision: 12, scale: 2 }).notNull().default('0'),
+  retainerAmount: decimal("retainer_amount", { precision: 12, scale: 2 }).notNull().default('0'),
+  paymentCount: integer("payment_count").notNull().default(0),
+  monthlyGross: jsonb("monthly_gross"), // 12 gross amounts, January first
+  currencyTotals: jsonb("currency_totals"), // Gross per original payout currency before conversion
+  generatedAt: timestamp("generated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("annual_tax_summaries_user_year_unique").on(table.userId, table.taxYear),
+  index("idx_annual_tax_summaries_tax_year").on(table.taxYear),
+]);
+
+export const annualTaxSummariesRelations = relations(annualTaxSummaries, ({ one }) => ({
+  user: one(users, {
+    fields: [annualTaxSummaries.userId],
+    references: [users.id],
+  }),
+}));
+
 // Payments
 export const payments = pgTable("payments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -622,6 +874,12 @@ export const payments = pgTable("payments", {
   platformFeeAmount: decimal("platform_fee_amount", { precision: 10, scale: 2 }).notNull(),
   stripeFeeAmount: decimal("stripe_fee_amount", { precision: 10, scale: 2 }).notNull(),
   netAmount: decimal("net_amount", { precision: 10, scale: 2 }).notNull(),
+  currency: varchar("currency", { length: 3 }).notNull().default('USD'), // Creator payout currency; gross/fee/net amounts are in it
+  sourceAmount: decimal("source_amount", { precision: 10, scale: 2 }), // Commission in the offer's currency, before conversion
+  sourceCurrency: varchar("source_currency", { length: 3 }),
+  exchangeRate: decimal("exchange_rate", { precision: 18, scale: 8 }), // sourceCurrency -> currency rate snapshot
+  exchangeRateSource: varchar("exchange_rate_source", { length: 20 }),
+  exchangeRateAt: timestamp("exchange_rate_at"),
   stripePaymentIntentId: varchar("stripe_payment_intent_id"),
   stripeTransferId: varchar("stripe_transfer_id"),
   providerTransactionId: varchar("provider_transaction_id"), // Transaction ID from payment provider (PayPal, bank, crypto, etc.)
@@ -629,13 +887,17 @@ export const payments = pgTable("payments", {
   status: paymentStatusEnum("status").notNull().default('pending'),
   paymentMethod: varchar("payment_method"),
   description: text("description"),
+  payoutRunId: varchar("payout_run_id").references(() => payoutRuns.id, { onDelete: 'set null' }), // Batched payout run that paid this
+  payoutRunItemId: varchar("payout_run_item_id").references(() => payoutRunItems.id, { onDelete: 'set null' }),
   initiatedAt: timestamp("initiated_at").defaultNow(),
   completedAt: timestamp("completed_at"),
   failedAt: timestamp("failed_at"),
   refundedAt: timestamp("refunded_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("idx_payments_status_payout_run_item").on(table.status, table.payoutRunItemId),
+]);
 
 export const paymentsRelations = relations(payments, ({ one }) => ({
   application: one(applications, {
@@ -656,6 +918,451 @@ export const paymentsRelations = relations(payments, ({ one }) => ({
   }),
 }));
 
+// Conversions (one row per reported conversion; orderId is unique per company so retried postbacks/pixels are not credited twice)
+export const conversions = pgTable("conversions", {
+  id: varchar("id").primaryKey(), // conv_<timestamp>_<hex> from generateConversionId()
+  applicationId: varchar("application_id").notNull().references(() => applications.id, { onDelete: 'cascade' }),
+  offerId: varchar("offer_id").notNull().references(() => offers.id, { onDelete: 'cascade' }),
+  creatorId: varchar("creator_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  companyId: varchar("company_id").notNull().references(() => companyProfiles.id, { onDelete: 'cascade' }),
+  eventType: varchar("event_type", { length: 20 }).notNull().default('sale'), // sale, lead, signup, install, custom
+  orderId: varchar("order_id"),
+  saleAmount: decimal("sale_amount", { precision: 10, scale: 2 }), // In the offer's currency
+  earnings: decimal("earnings", { precision: 10, scale: 2 }).notNull().default('0'), // In the offer's currency
+  currency: varchar("currency", { length: 3 }).notNull().default('USD'), // Offer currency (saleAmount/earnings)
+  originalSaleAmount: decimal("original_sale_amount", { precision: 12, scale: 2 }), // Sale amount as reported
+  originalCurrency: varchar("original_currency", { length: 3 }), // Currency the sale was reported in
+  exchangeRate: decimal("exchange_rate", { precision: 18, scale: 8 }), // originalCurrency -> currency rate used
+  source: conversionSourceEnum("source").notNull(),
+  rawPayload: jsonb("raw_payload"), // Request body/query as received, for dispute investigation
+  paymentId: varchar("payment_id").references(() => payments.id, { onDelete: 'set null' }),
+  status: conversionStatusEnum("status").notNull().default('credited'), // pending_verification: held by the fraud rules, nothing credited until approved
+  reversalType: varchar("reversal_type", { length: 20 }), // 'refund' | 'chargeback' | 'manual' | 'fraud'
+  reversalReason: text("reversal_reason"),
+  reversedAt: timestamp("reversed_at"),
+  clickId: varchar("click_id"), // Click the conversion was attributed to, when reported
+  clickedAt: timestamp("clicked_at"),
+  clickToConversionSeconds: integer("click_to_conversion_seconds"),
+  deepLinkId: varchar("deep_link_id").references(() => trackingDeepLinks.id, { onDelete: 'set null' }), // Copied from the attributed click
+  sub1: varchar("sub1", { length: 100 }),
+  sub2: varchar("sub2", { length: 100 }),
+  sub3: varchar("sub3", { length: 100 }),
+  sub4: varchar("sub4", { length: 100 }),
+  sub5: varchar("sub5", { length: 100 }),
+  ipAddress: varchar("ip_address"), // Visitor IP: the pixel request's, or the one a postback reports
+  userAgent: text("user_agent"),
+  fraudScore: integer("fraud_score").notNull().default(0), // From the conversion fraud rules when recorded
+  fraudFlags: text("fraud_flags"),
+  verifiedBy: varchar("verified_by").references(() => users.id, { onDelete: 'set null' }), // Who approved or rejected a pending_verification conversion
+  verifiedAt: timestamp("verified_at"),
+  verificationNotes: text("verification_notes"),
+  attributionModel: attributionModelEnum("attribution_model").notNull().default('last_click'), // Model the offer used when the conversion was credited
+  appliedCommissionTier: jsonb("applied_commission_tier"), // Tier/bonus from the offer's commission rules, null for flat commission
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("conversions_company_order_id_key").on(table.companyId, table.orderId),
+  index("idx_conversions_application_id").on(table.applicationId),
+  index("idx_conversions_creator_offer_created").on(table.creatorId, table.offerId, table.createdAt),
+  index("idx_conversions_ip_address_created_at").on(table.ipAddress, table.createdAt),
+  index("idx_conversions_created_at").on(table.createdAt),
+]);
+
+export const conversionsRelations = relations(conversions, ({ one }) => ({
+  application: one(applications, {
+    fields: [conversions.applicationId],
+    references: [applications.id],
+  }),
+  offer: one(offers, {
+    fields: [conversions.offerId],
+    references: [offers.id],
+  }),
+  company: one(companyProfiles, {
+    fields: [conversions.companyId],
+    references: [companyProfiles.id],
+  }),
+  payment: one(payments, {
+    fields: [conversions.paymentId],
+    references: [payments.id],
+  }),
+}));
+
+// Payout Adjustments (clawbacks for conversions reversed after the creator was already paid)
+// amount/remainingAmount are negative; remainingAmount moves toward 0 as future payouts are offset
+export const payoutAdjustments = pgTable("payout_adjustments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  creatorId: varchar("creator_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  companyId: varchar("company_id").notNull().references(() => companyProfiles.id, { onDelete: 'cascade' }),
+  conversionId: varchar("conversion_id").references(() => conversions.id, { onDelete: 'set null' }),
+  paymentId: varchar("payment_id").references(() => payments.id, { onDelete: 'set null' }), // Original (already paid) payment
+  currency: varchar("currency", { length: 3 }).notNull().default('USD'), // Currency of the original payment; only offset against payouts in it
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  remainingAmount: decimal("remaining_amount", { precision: 10, scale: 2 }).notNull(),
+  reason: text("reason"),
+  status: payoutAdjustmentStatusEnum("status").notNull().default('outstanding'),
+  lastAppliedPaymentId: varchar("last_applied_payment_id").references(() => payments.id, { onDelete: 'set null' }),
+  appliedAt: timestamp("applied_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const payoutAdjustmentsRelations = relations(payoutAdjustments, ({ one }) => ({
+  creator: one(users, {
+    fields: [payoutAdjustments.creatorId],
+    references: [users.id],
+  }),
+  company: one(companyProfiles, {
+    fields: [payoutAdjustments.companyId],
+    references: [companyProfiles.id],
+  }),
+  conversion: one(conversions, {
+    fields: [payoutAdjustments.conversionId],
+    references: [conversions.id],
+  }),
+}));
+
+// Payout Runs (scheduled or admin-triggered batches of approved creator earnings)
+export const payoutRuns = pgTable("payout_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  status: payoutRunStatusEnum("status").notNull().default('processing'),
+  trigger: varchar("trigger", { length: 20 }).notNull().default('schedule'), // schedule | manual
+  triggeredBy: varchar("triggered_by").references(() => users.id, { onDelete: 'set null' }),
+  creatorCount: integer("creator_count").notNull().default(0),
+  paymentCount: integer("payment_count").notNull().default(0),
+  totalAmounts: jsonb("total_amounts").$type<Record<string, string>>().notNull().default({}), // Sum of item amounts per currency: { USD: '120.00', EUR: '45.50' }
+  heldCreatorCount: integer("held_creator_count").notNull().default(0), // Creators below their minimum this run
+  heldAmounts: jsonb("held_amounts").$type<Record<string, string>>().notNull().default({}), // Held earnings per currency
+  failedItemCount: integer("failed_item_count").notNull().default(0),
+  batches: jsonb("batches"), // One entry per payout method/currency: { payoutMethod, currency, providerBatchId, itemCount, totalAmount, status }
+  errorMessage: text("error_message"),
+  startedAt: timestamp("started_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_payout_runs_created_at").on(table.createdAt),
+]);
+
+export const payoutRunsRelations = relations(payoutRuns, ({ many }) => ({
+  items: many(payoutRunItems),
+}));
+
+// Payout Run Items (one aggregated payout per creator and currency in a run)
+export const payoutRunItems = pgTable("payout_run_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  runId: varchar("run_id").notNull().references(() => payoutRuns.id, { onDelete: 'cascade' }),
+  creatorId: varchar("creator_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  paymentSettingId: varchar("payment_setting_id").references(() => paymentSettings.id, { onDelete: 'set null' }),
+  payoutMethod: payoutMethodEnum("payout_method").notNull(),
+  currency: varchar("currency", { length: 3 }).notNull().default('USD'),
+  grossAmount: decimal("gross_amount", { precision: 10, scale: 2 }).notNull(), // Sum of the payments' net amounts
+  clawbackAmount: decimal("clawback_amount", { precision: 10, scale: 2 }).notNull().default('0'), // Offset by outstanding payout adjustments
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // Amount actually sent
+  paymentCount: integer("payment_count").notNull().default(0),
+  status: payoutRunItemStatusEnum("status").notNull().default('pending'),
+  providerBatchId: varchar("provider_batch_id"),
+  providerTransactionId: varchar("provider_transaction_id"),
+  providerResponse: jsonb("provider_response"),
+  error: text("error"),
+  attempts: integer("attempts").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("idx_payout_run_items_run_id").on(table.runId),
+  index("idx_payout_run_items_creator_id").on(table.creatorId),
+]);
+
+export const payoutRunItemsRelations = relations(payoutRunItems, ({ one }) => ({
+  run: one(payoutRuns, {
+    fields: [payoutRunItems.runId],
+    references: [payoutRuns.id],
+  }),
+  creator: one(users, {
+    fields: [payoutRunItems.creatorId],
+    references: [users.id],
+  }),
+}));
+
+// Ledger Accounts (chart of accounts for the double-entry ledger; one per code, owner and currency)
+export const ledgerAccounts = pgTable("ledger_accounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  accountKey: varchar("account_key").notNull().unique(), // code:ownerId:currency, e.g. creator_payable:<userId>:USD
+  code: varchar("code", { length: 40 }).notNull(), // company_balance | creator_payable | platform_fee_revenue | processor_fees | refunds | platform_cash
+  type: ledgerAccountTypeEnum("type").notNull(),
+  ownerId: varchar("owner_id"), // Company profile ID or creator user ID; null for platform accounts
+  currency: varchar("currency", { length: 3 }).notNull().default('USD'),
+  name: varchar("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_ledger_accounts_code").on(table.code),
+  index("idx_ledger_accounts_owner_id").on(table.ownerId),
+]);
+
+export const ledgerAccountsRelations = relations(ledgerAccounts, ({ many }) => ({
+  entries: many(ledgerEntries),
+}));
+
+// Ledger Transactions (append-only journal; each balances across its entries)
+export const ledgerTransactions = pgTable("ledger_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  idempotencyKey: varchar("idempotency_key").notNull().unique(), // e.g. payment:<id>:accrual:1
+  eventType: varchar("event_type", { length: 40 }).notNull(), // accrual | accrual_reversal | payout | refund
+  paymentId: varchar("payment_id").references(() => payments.id, { onDelete: 'set null' }),
+  retainerPaymentId: varchar("retainer_payment_id").references(() => retainerPayments.id, { onDelete: 'set null' }),
+  payoutRunItemId: varchar("payout_run_item_id").references(() => payoutRunItems.id, { onDelete: 'set null' }),
+  currency: varchar("currency", { length: 3 }).notNull().default('USD'),
+  description: text("description"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_ledger_transactions_payment_id").on(table.paymentId),
+  index("idx_ledger_transactions_retainer_payment_id").on(table.retainerPaymentId),
+  index("idx_ledger_transactions_created_at").on(table.createdAt),
+]);
+
+export const ledgerTransactionsRelations = relations(ledgerTransactions, ({ one, many }) => ({
+  payment: one(payments, {
+    fields: [ledgerTransactions.paymentId],
+    references: [payments.id],
+  }),
+  retainerPayment: one(retainerPayments, {
+    fields: [ledgerTransactions.retainerPaymentId],
+    references: [retainerPayments.id],
+  }),
+  entries: many(ledgerEntries),
+}));
+
+// Ledger Entries (one debit or credit line against an account)
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionId: varchar("transaction_id").notNull().references(() => ledgerTransactions.id),
+  accountId: varchar("account_id").notNull().references(() => ledgerAccounts.id),
+  debit: decimal("debit", { precision: 12, scale: 2 }).notNull().default('0'),
+  credit: decimal("credit", { precision: 12, scale: 2 }).notNull().default('0'),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_ledger_entries_transaction_id").on(table.transactionId),
+  index("idx_ledger_entries_account_id_created_at").on(table.accountId, table.createdAt),
+]);
+
+export const ledgerEntriesRelations = relations(ledgerEntries, ({ one }) => ({
+  transaction: one(ledgerTransactions, {
+    fields: [ledgerEntries.transactionId],
+    references: [ledgerTransactions.id],
+  }),
+  account: one(ledgerAccounts, {
+    fields: [ledgerEntries.accountId],
+    references: [ledgerAccounts.id],
+  }),
+}));
+
+// Company Wallets (prepaid balance; available funds plus what is reserved in escrow)
+export const companyWallets = pgTable("company_wallets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companyProfiles.id, { onDelete: 'cascade' }).unique(),
+  currency: varchar("currency", { length: 3 }).notNull().default('USD'),
+  availableBalance: decimal("available_balance", { precision: 12, scale: 2 }).notNull().default('0'), // Not reserved for any offer or contract
+  reservedBalance: decimal("reserved_balance", { precision: 12, scale: 2 }).notNull().default('0'), // Sum of active reserves' remaining amounts
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const companyWalletsRelations = relations(companyWallets, ({ one }) => ({
+  company: one(companyProfiles, {
+    fields: [companyWallets.companyId],
+    references: [companyProfiles.id],
+  }),
+}));
+
+// Wallet Top-ups (funds added through Stripe Checkout; credited once the session is paid)
+export const walletTopUps = pgTable("wallet_top_ups", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companyProfiles.id, { onDelete: 'cascade' }),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  currency: varchar("currency", { length: 3 }).notNull().default('USD'),
+  status: walletTopUpStatusEnum("status").notNull().default('pending'),
+  stripeCheckoutSessionId: varchar("stripe_checkout_session_id").unique(),
+  stripePaymentIntentId: varchar("stripe_payment_intent_id"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: 'set null' }),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_wallet_top_ups_company_id").on(table.companyId),
+]);
+
+// Escrow Reserves (wallet funds set aside for one offer or retainer contract)
+export const escrowReserves = pgTable("escrow_reserves", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companyProfiles.id, { onDelete: 'cascade' }),
+  offerId: varchar("offer_id").references(() => offers.id, { onDelete: 'cascade' }),
+  retainerContractId: varchar("retainer_contract_id").references(() => retainerContracts.id, { onDelete: 'cascade' }),
+  currency: varchar("currency", { length: 3 }).notNull().default('USD'), // Always the wallet currency
+  fundedAmount: decimal("funded_amount", { precision: 12, scale: 2 }).notNull().default('0'), // Total ever reserved
+  remainingAmount: decimal("remaining_amount", { precision: 12, scale: 2 }).notNull().default('0'),
+  lowBalanceThreshold: decimal("low_balance_threshold", { precision: 12, scale: 2 }), // Null: 10% of funded amount
+  status: escrowReserveStatusEnum("status").notNull().default('active'),
+  lowBalanceNotifiedAt: timestamp("low_balance_notified_at"), // Cleared when the reserve is topped up
+  offerPausedAt: timestamp("offer_paused_at"), // Set when the offer was paused for low escrow; funding resumes it
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_escrow_reserves_company_id").on(table.companyId),
+  uniqueIndex("escrow_reserves_offer_id_unique").on(table.offerId),
+  uniqueIndex("escrow_reserves_retainer_contract_id_unique").on(table.retainerContractId),
+]);
+
+export const escrowReservesRelations = relations(escrowReserves, ({ one }) => ({
+  company: one(companyProfiles, {
+    fields: [escrowReserves.companyId],
+    references: [companyProfiles.id],
+  }),
+  offer: one(offers, {
+    fields: [escrowReserves.offerId],
+    references: [offers.id],
+  }),
+  retainerContract: one(retainerContracts, {
+    fields: [escrowReserves.retainerContractId],
+    references: [retainerContracts.id],
+  }),
+}));
+
+// Wallet Transactions (history of top-ups, reserves, releases and draws)
+export const walletTransactions = pgTable("wallet_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull().references(() => companyProfiles.id, { onDelete: 'cascade' }),
+  escrowReserveId: varchar("escrow_reserve_id").references(() => escrowReserves.id, { onDelete: 'set null' }),
+  type: walletTransactionTypeEnum("type").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  shortfallAmount: decimal("shortfall_amount", { precision: 12, scale: 2 }).notNull().default('0'), // Draw amount the reserve could not cover
+  availableAfter: decimal("available_after", { precision: 12, scale: 2 }).notNull(),
+  reserveRemainingAfter: decimal("reserve_remaining_after", { precision: 12, scale: 2 }),
+  topUpId: varchar("top_up_id").references(() => walletTopUps.id, { onDelete: 'set null' }),
+  paymentId: varchar("payment_id").references(() => payments.id, { onDelete: 'set null' }),
+  retainerPaymentId: varchar("retainer_payment_id").references(() => retainerPayments.id, { onDelete: 'set null' }),
+  description: text("description"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_wallet_transactions_company_id_created_at").on(table.companyId, table.createdAt),
+]);
+
+// Fraud Rules (admin-managed checks that score clicks and conversions; each match adds its weight)
+export const fraudRules = pgTable("fraud_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: varchar("code", { length: 50 }).notNull().unique(), // Recorded in click_events.fraud_flags when the rule matches
+  name: varchar("name", { length: 100 }).notNull(),
+  description: text("description"),
+  type: fraudRuleTypeEnum("type").notNull(),
+  config: jsonb("config").notNull(), // Shape depends on type, see fraudRuleConfigSchemas
+  weight: integer("weight").notNull(),
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Fraud Reviews (admin queue of fraud-flagged clicks and conversions)
+export const fraudReviews = pgTable("fraud_reviews", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  itemType: fraudReviewItemTypeEnum("item_type").notNull(),
+  clickEventId: varchar("click_event_id").unique().references(() => clickEvents.id, { onDelete: 'cascade' }),
+  conversionId: varchar("conversion_id").unique().references(() => conversions.id, { onDelete: 'cascade' }),
+  applicationId: varchar("application_id").notNull().references(() => applications.id, { onDelete: 'cascade' }),
+  offerId: varchar("offer_id").notNull().references(() => offers.id, { onDelete: 'cascade' }),
+  creatorId: varchar("creator_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  fraudScore: integer("fraud_score").notNull().default(0),
+  fraudFlags: text("fraud_flags"),
+  reason: text("reason"),
+  countedInAnalytics: boolean("counted_in_analytics").notNull().default(false), // Whether the click was added to analytics.clicks when logged
+  status: fraudReviewStatusEnum("status").notNull().default('pending'),
+  reviewedBy: varchar("reviewed_by").references(() => users.id, { onDelete: 'set null' }),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNotes: text("review_notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_fraud_reviews_status_created_at").on(table.status, table.createdAt),
+  index("idx_fraud_reviews_creator_id").on(table.creatorId),
+]);
+
+export const fraudReviewsRelations = relations(fraudReviews, ({ one }) => ({
+  clickEvent: one(clickEvents, {
+    fields: [fraudReviews.clickEventId],
+    references: [clickEvents.id],
+  }),
+  conversion: one(conversions, {
+    fields: [fraudReviews.conversionId],
+    references: [conversions.id],
+  }),
+  creator: one(users, {
+    fields: [fraudReviews.creatorId],
+    references: [users.id],
+  }),
+  offer: one(offers, {
+    fields: [fraudReviews.offerId],
+    references: [offers.id],
+  }),
+}));
+
+// Payout Holds (creators whose payouts are stopped; placed automatically when their fraud rate crosses the threshold)
+export const payoutHolds = pgTable("payout_holds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  creatorId: varchar("creator_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  reason: text("reason").notNull(),
+  fraudRate: decimal("fraud_rate", { precision: 5, scale: 2 }), // Percentage when the hold was placed
+  threshold: decimal("threshold", { precision: 5, scale: 2 }),
+  status: payoutHoldStatusEnum("status").notNull().default('active'),
+  releasedBy: varchar("released_by").references(() => users.id, { onDelete: 'set null' }), // Null when released automatically
+  releasedAt: timestamp("released_at"),
+  releaseNotes: text("release_notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("payout_holds_active_creator_unique").on(table.creatorId).where(sql`status = 'active'`),
+]);
+
+export const payoutHoldsRelations = relations(payoutHolds, ({ one }) => ({
+  creator: one(users, {
+    fields: [payoutHolds.creatorId],
+    references: [users.id],
+  }),
+}));
+
+// Conversion Attributions (how one conversion's commission was split across creators' applications)
+export const conversionAttributions = pgTable("conversion_attributions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversionId: varchar("conversion_id").notNull().references(() => conversions.id, { onDelete: 'cascade' }),
+  applicationId: varchar("application_id").notNull().references(() => applications.id, { onDelete: 'cascade' }),
+  offerId: varchar("offer_id").notNull().references(() => offers.id, { onDelete: 'cascade' }),
+  creatorId: varchar("creator_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  share: decimal("share", { precision: 5, scale: 4 }).notNull(), // 0..1, shares of one conversion sum to 1
+  earnings: decimal("earnings", { precision: 10, scale: 2 }).notNull(),
+  touchCount: integer("touch_count").notNull().default(1),
+  firstTouchAt: timestamp("first_touch_at"),
+  lastTouchAt: timestamp("last_touch_at"),
+  isPrimary: boolean("is_primary").notNull().default(false), // Application the conversion is counted against in analytics
+  paymentId: varchar("payment_id").references(() => payments.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_conversion_attributions_conversion_id").on(table.conversionId),
+  index("idx_conversion_attributions_creator_id").on(table.creatorId),
+]);
+
+export const conversionAttributionsRelations = relations(conversionAttributions, ({ one }) => ({
+  conversion: one(conversions, {
+    fields: [conversionAttributions.conversionId],
+    references: [conversions.id],
+  }),
+  application: one(applications, {
+    fields: [conversionAttributions.applicationId],
+    references: [applications.id],
+  }),
+  creator: one(users, {
+    fields: [conversionAttributions.creatorId],
+    references: [users.id],
+  }),
+  payment: one(payments, {
+    fields: [conversionAttributions.paymentId],
+    references: [payments.id],
+  }),
+}));
+
 // Retainer Contracts
 export const retainerContracts = pgTable("retainer_contracts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1151,13 +1858,241 @@ export const insertCreatorProfileSchema = createInsertSchema(creatorProfiles).om
   tiktokFollowers: z.number().min(0, "Followers cannot be negative").max(1000000000, "Follower count seems unrealistic").optional().nullable(),
   instagramFollowers: z.number().min(0, "Followers cannot be negative").max(1000000000, "Follower count seems unrealistic").optional().nullable(),
 });
-export const insertCompanyProfileSchema = createInsertSchema(companyProfiles).omit({ id: true, createdAt: true, updatedAt: true, approvedAt: true }).extend({
+export const insertCompanyProfileSchema = createInsertSchema(companyProfiles).omit({ id: true, createdAt: true, updatedAt: true, approvedAt: true, messageTemplatesSeededAt: true }).extend({
   description: z.string().max(5000, "Description must be less than 5000 characters").optional().nullable(),
   phoneNumber: z.string().min(7, "Phone number must be at least 7 digits").max(20, "Phone number must be less than 20 characters").regex(phoneRegex, "Please enter a valid phone number").optional().nullable().or(z.literal("")),
   websiteUrl: z.string().regex(urlRegex, "Please enter a valid URL starting with http:// or https://").optional().nullable().or(z.literal("")),
   businessAddress: z.string().max(500, "Business address must be less than 500 characters").optional().nullable(),
 });
-export const insertOfferSchema = createInsertSchema(offers).omit({ id: true, createdAt: true, updatedAt: true, viewCount: true, applicationCount: true, approvedAt: true });
+const commissionTierSchema = z.object({
+  minConversions: z.number().int().min(0, "Tier threshold can't be negative"),
+  commissionPercentage: z.number().min(0).max(100, "Commission percentage must be 100 or less").optional().nullable(),
+  commissionAmount: z.number().min(0).optional().nullable(),
+  label: z.string().max(50).optional(),
+}).strict();
+
+const commissionMilestoneSchema = z.object({
+  conversions: z.number().int().min(1, "Milestone must be at least 1 conversion"),
+  bonusAmount: z.number().positive("Bonus must be greater than 0"),
+}).strict();
+
+export const commissionRulesSchema = z.object({
+  period: z.enum(['month', 'quarter', 'year', 'lifetime']).default('month'),
+  tiers: z.array(commissionTierSchema).max(10).default([]),
+  milestones: z.array(commissionMilestoneSchema).max(10).default([]),
+}).strict();
+
+// Per-country destination URLs for /go/:code, e.g. { "CA": "https://example.ca/product" }
+export const geoDestinationsSchema = z.record(
+  z.string().regex(/^[A-Z]{2}$/, "Country must be a 2-letter ISO code"),
+  z.string().regex(urlRegex, "Please enter a valid URL starting with http:// or https://"),
+).refine((destinations) => Object.keys(destinations).length <= 50, "At most 50 country destinations");
+
+export const SUB_ID_FIELDS = ['sub1', 'sub2', 'sub3', 'sub4', 'sub5'] as const;
+
+const subIdSchema = z.string().trim().max(100, "Sub-ids can be at most 100 characters").optional().nullable();
+
+// Creating a deep link; the destination must also be on the company's verified website (checked in the route)
+export const deepLinkInputSchema = z.object({
+  destinationUrl: z.string().regex(urlRegex, "Please enter a valid URL starting with http:// or https://"),
+  label: z.string().trim().max(100, "Label can be at most 100 characters").optional().nullable(),
+  sub1: subIdSchema,
+  sub2: subIdSchema,
+  sub3: subIdSchema,
+  sub4: subIdSchema,
+  sub5: subIdSchema,
+});
+
+// Vanity slug for a tracking link: 3-40 lower-case letters, digits and single hyphens, e.g. jane-techgear
+export const vanitySlugSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(3, "Slug must be at least 3 characters")
+  .max(40, "Slug can be at most 40 characters")
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Use lower-case letters, numbers and single hyphens (e.g. jane-techgear)");
+
+export const linkDomainInputSchema = z.object({
+  domain: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .max(253)
+    .regex(/^(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/, "Enter a domain name such as go.yourbrand.com"),
+});
+
+export const ANALYTICS_ROLLUP_DIMENSIONS = ['offer', 'creator', 'application', 'country', 'utm_source', 'device'] as const;
+export const ANALYTICS_ROLLUP_GRANULARITIES = ['hour', 'day', 'week', 'month'] as const;
+
+// Query string of GET /api/analytics/timeseries, e.g. ?granularity=day&groupBy=offer,country&from=2026-01-01
+export const analyticsRollupQuerySchema = z.object({
+  granularity: z.enum(ANALYTICS_ROLLUP_GRANULARITIES).default('day'),
+  groupBy: z.preprocess(
+    (value) => (typeof value === 'string' ? value.split(',').map((part) => part.trim()).filter(Boolean) : value),
+    z.array(z.enum(ANALYTICS_ROLLUP_DIMENSIONS)).max(3, "Group by at most 3 dimensions").default([]),
+  ),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  offerId: z.string().optional(),
+  creatorId: z.string().optional(),
+  applicationId: z.string().optional(),
+  companyId: z.string().optional(), // Admins only
+  country: z.string().optional(),
+  utmSource: z.string().optional(),
+  device: z.string().optional(),
+});
+
+// Query string of GET /api/messages/search and GET /api/admin/messages/search,
+// e.g. ?q=tracking link&offerId=...&from=2026-01-01&hasAttachment=true
+export const messageSearchQuerySchema = z.object({
+  q: z.string().trim().min(2, "Search for at least 2 characters").max(200),
+  offerId: z.string().optional(),
+  counterpartyId: z.string().optional(), // Creator user id for companies, company profile id for creators
+  creatorId: z.string().optional(), // Admins only
+  companyId: z.string().optional(), // Admins only
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  hasAttachment: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Applications a broadcast can target: creators who have been approved onto the offer
+export const BROADCAST_APPLICATION_STATUSES = ['approved', 'active', 'paused', 'completed'] as const;
+// Creator performance on an offer, by earnings, conversions and conversion rate (same tiers as the creators page)
+export const PERFORMANCE_SEGMENTS = ['high', 'medium', 'low'] as const;
+
+// Body of POST /api/offers/:id/broadcasts
+export const messageBroadcastInputSchema = z.object({
+  content: z.string().trim().min(1, "Message cannot be empty").max(5000, "Message must be less than 5000 characters"),
+  statuses: z.array(z.enum(BROADCAST_APPLICATION_STATUSES)).min(1, "Choose at least one application status").default(['approved', 'active']),
+  segments: z.array(z.enum(PERFORMANCE_SEGMENTS)).default([]), // Empty = every segment
+});
+
+export const FRAUD_RULE_TYPES = [
+  'user_agent', 'missing_header', 'ip_blocklist', 'ip_list_file', 'velocity',
+  'conversion_without_click', 'fast_conversion', 'duplicate_order_id', 'sale_amount_outlier',
+  'conversion_velocity', 'conversion_ip_without_click', 'pixel_without_click',
+] as const;
+
+// Config for each fraud rule type. Click rules: user_agent, missing_header, ip_blocklist,
+// ip_list_file, velocity. The rest score conversions.
+export const fraudRuleConfigSchemas = {
+  // Case-insensitive substrings of the user agent
+  user_agent: z.object({
+    patterns: z.array(z.string().trim().min(1).max(200)).min(1, "Add at least one pattern").max(500),
+  }).strict(),
+  missing_header: z.object({
+    header: z.enum(['user-agent', 'referer']),
+  }).strict(),
+  // Single IPs or CIDR ranges, IPv4 or IPv6
+  ip_blocklist: z.object({
+    entries: z.array(z.string().trim().min(1).max(50)).min(1, "Add at least one IP or CIDR range").max(5000),
+  }).strict(),
+  // File in FRAUD_LISTS_DIR with one "<cidr> [AS<number>] [label]" entry per line; asns limits the match to those networks
+  ip_list_file: z.object({
+    file: z.string().regex(/^[\w.-]+$/, "File name only, no directories"),
+    asns: z.array(z.number().int().positive()).max(500).optional(),
+  }).strict(),
+  // Flags a click once maxClicks were already seen for the same key within the window
+  velocity: z.object({
+    scope: z.enum(['ip', 'ip_application', 'visitor']),
+    windowSeconds: z.number().int().min(1).max(7 * 24 * 60 * 60),
+    maxClicks: z.number().int().min(1).max(100000),
+  }).strict(),
+  // Conversion with no click on the application within the window
+  conversion_without_click: z.object({
+    windowHours: z.number().int().min(1).max(24 * 90),
+  }).strict(),
+  // Conversion arriving less than minSeconds after its click
+  fast_conversion: z.object({
+    minSeconds: z.number().int().min(1).max(24 * 60 * 60),
+  }).strict(),
+  // Order id matching another conversion of the company or creator once case and punctuation are ignored
+  duplicate_order_id: z.object({}).strict(),
+  // Sale amount more than maxMultiple times above or below the offer's averageOrderValue
+  sale_amount_outlier: z.object({
+    maxMultiple: z.number().min(1.5).max(1000),
+  }).strict(),
+  // Flags a conversion once maxConversions were already recorded for the same key within the window
+  conversion_velocity: z.object({
+    scope: z.enum(['application', 'ip']),
+    windowSeconds: z.number().int().min(1).max(7 * 24 * 60 * 60),
+    maxConversions: z.number().int().min(1).max(100000),
+  }).strict(),
+  // Conversion from a visitor IP with no click on the offer within the window
+  conversion_ip_without_click: z.object({
+    windowHours: z.number().int().min(1).max(24 * 90),
+  }).strict(),
+  // Pixel fire with no click id and no click from the same visitor on the tracking link within the window
+  pixel_without_click: z.object({
+    windowHours: z.number().int().min(1).max(24 * 90),
+  }).strict(),
+} satisfies Record<typeof FRAUD_RULE_TYPES[number], z.ZodTypeAny>;
+
+// Fraud rule as submitted from the admin rules editor
+export const fraudRuleInputSchema = z.object({
+  code: z.string().regex(/^[a-z0-9_]+$/, "Code may only contain lowercase letters, numbers and underscores").max(50),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  description: z.string().trim().max(500).optional().nullable(),
+  type: z.enum(FRAUD_RULE_TYPES),
+  config: z.record(z.unknown()),
+  weight: z.number().int().min(0).max(100),
+  isEnabled: z.boolean().default(true),
+}).superRefine((data, ctx) => {
+  const config = fraudRuleConfigSchemas[data.type].safeParse(data.config);
+  if (!config.success) {
+    const issue = config.error.issues[0];
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['config', ...issue.path], message: issue.message });
+  }
+});
+
+export const TAX_CLASSIFICATIONS = ['individual', 'sole_proprietor', 'c_corporation', 's_corporation', 'partnership', 'trust_estate', 'llc', 'other'] as const;
+
+// Tax profile as submitted by a creator; the TIN is optional on update to keep the stored one
+export const taxProfileInputSchema = z.object({
+  formType: z.enum(['w9', 'w8ben']),
+  legalName: z.string().trim().min(1, "Legal name is required").max(200),
+  businessName: z.string().trim().max(200).optional().nullable(),
+  taxClassification: z.enum(TAX_CLASSIFICATIONS).optional().nullable(),
+  country: z.string().regex(/^[A-Z]{2}$/, "Country must be a 2-letter ISO code"),
+  addressLine1: z.string().trim().min(1, "Address is required").max(200),
+  addressLine2: z.string().trim().max(200).optional().nullable(),
+  city: z.string().trim().min(1, "City is required").max(100),
+  region: z.string().trim().max(100).optional().nullable(),
+  postalCode: z.string().trim().max(20).optional().nullable(),
+  tinType: z.enum(['ssn', 'ein', 'itin', 'foreign_tin']).optional().nullable(),
+  tin: z.string().trim().max(30).optional().nullable(),
+  dateOfBirth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date of birth must be YYYY-MM-DD").optional().nullable(),
+  treatyCountry: z.string().regex(/^[A-Z]{2}$/, "Treaty country must be a 2-letter ISO code").optional().nullable(),
+  signatureName: z.string().trim().min(1, "Type your name to sign"),
+  certify: z.literal(true, { errorMap: () => ({ message: "You must certify the information is correct" }) }),
+}).superRefine((data, ctx) => {
+  if (data.formType === 'w9') {
+    if (data.country !== 'US') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['country'], message: "W-9 is for US persons; use W-8BEN for other countries" });
+    }
+    if (!data.taxClassification) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['taxClassification'], message: "Federal tax classification is required" });
+    }
+    if (data.tinType && !['ssn', 'ein', 'itin'].includes(data.tinType)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['tinType'], message: "W-9 requires an SSN, EIN or ITIN" });
+    }
+  } else {
+    if (data.country === 'US') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['country'], message: "US persons must submit a W-9" });
+    }
+    if (!data.dateOfBirth) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['dateOfBirth'], message: "Date of birth is required for W-8BEN" });
+    }
+  }
+});
+
+export const insertOfferSchema = createInsertSchema(offers).omit({ id: true, createdAt: true, updatedAt: true, viewCount: true, applicationCount: true, approvedAt: true }).extend({
+  commissionRules: commissionRulesSchema.optional().nullable(),
+  geoFallbackUrl: z.string().regex(urlRegex, "Please enter a valid fallback URL starting with http:// or https://").optional().nullable(),
+  geoDestinations: geoDestinationsSchema.optional().nullable(),
+});
 
 export const createOfferSchema = createInsertSchema(offers).omit({ id: true, companyId: true, createdAt: true, updatedAt: true, viewCount: true, applicationCount: true, approvedAt: true, status: true }).extend({
   productUrl: z.string().min(1, "Product URL is required").regex(urlRegex, "Please enter a valid URL starting with http:// or https://"),
@@ -1167,12 +2102,22 @@ export const createOfferSchema = createInsertSchema(offers).omit({ id: true, com
   brandSafetyRequirements: z.string().max(2000, "Brand safety requirements must be less than 2000 characters").optional().nullable(),
   customTerms: z.string().max(5000, "Custom terms must be less than 5000 characters").optional().nullable(),
   creatorRequirements: z.string().max(2000, "Creator requirements must be less than 2000 characters").optional().nullable(),
+  cookieDuration: z.number().int().min(1, "Cookie duration must be at least 1 day").max(365, "Cookie duration must be 365 days or less").optional().nullable(),
+  clickIdParameter: z.string().regex(/^[A-Za-z][A-Za-z0-9_-]{0,49}$/, "Click ID parameter may only contain letters, numbers, '-' and '_'").optional().nullable(),
+  commissionRules: commissionRulesSchema.optional().nullable(),
+  currency: z.string().regex(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO code").optional(),
+  geoFallbackUrl: z.string().regex(urlRegex, "Please enter a valid fallback URL starting with http:// or https://").optional().nullable(),
+  geoDestinations: geoDestinationsSchema.optional().nullable(),
 });
 export const insertOfferVideoSchema = createInsertSchema(offerVideos).omit({ id: true, createdAt: true });
 export const insertApplicationSchema = createInsertSchema(applications).omit({ id: true, createdAt: true, updatedAt: true, approvedAt: true, trackingLink: true, trackingCode: true, autoApprovalScheduledAt: true });
-export const insertMessageSchema = createInsertSchema(messages).omit({ id: true, createdAt: true }).extend({
+export const insertMessageSchema = createInsertSchema(messages).omit({ id: true, createdAt: true, readAt: true }).extend({
   content: z.string().min(1, "Message cannot be empty").max(5000, "Message must be less than 5000 characters"),
 });
+export const insertMessageTemplateSchema = createInsertSchema(messageTemplates).omit({ id: true, companyId: true, usageCount: true, lastUsedAt: true, createdBy: true, updatedBy: true, createdAt: true, updatedAt: true }).extend({
+  title: z.string().trim().min(1, "Title is required").max(100, "Title must be less than 100 characters"),
+  content: z.string().trim().min(1, "Template cannot be empty").max(5000, "Template must be less than 5000 characters"),
+});
 export const insertReviewSchema = createInsertSchema(reviews).omit({ id: true, createdAt: true, updatedAt: true, companyResponse: true, companyRespondedAt: true, adminResponse: true, respondedAt: true, respondedBy: true, isEdited: true, adminNote: true, isApproved: true, approvedBy: true, approvedAt: true, isHidden: true }).extend({
   reviewText: z.string().max(2000, "Review must be less than 2000 characters").optional().nullable(),
   overallRating: z.number().min(1, "Rating must be at least 1").max(5, "Rating must be at most 5"),
@@ -1203,6 +2148,25 @@ export const insertSavedSearchSchema = createInsertSchema(savedSearches)
   .extend({ filters: savedSearchFiltersSchema });
 export const insertPaymentSettingSchema = createInsertSchema(paymentSettings).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertPaymentSchema = createInsertSchema(payments).omit({ id: true, createdAt: true, updatedAt: true, initiatedAt: true, completedAt: true, failedAt: true, refundedAt: true });
+export const insertConversionSchema = createInsertSchema(conversions).omit({ createdAt: true });
+export const insertPayoutAdjustmentSchema = createInsertSchema(payoutAdjustments).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertPayoutRunSchema = createInsertSchema(payoutRuns).omit({ id: true, createdAt: true });
+export const insertPayoutRunItemSchema = createInsertSchema(payoutRunItems).omit({ id: true, createdAt: true });
+export const insertLedgerAccountSchema = createInsertSchema(ledgerAccounts).omit({ id: true, createdAt: true });
+export const insertLedgerTransactionSchema = createInsertSchema(ledgerTransactions).omit({ id: true, createdAt: true });
+export const insertLedgerEntrySchema = createInsertSchema(ledgerEntries).omit({ id: true, createdAt: true });
+export const insertCompanyWalletSchema = createInsertSchema(companyWallets).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertWalletTopUpSchema = createInsertSchema(walletTopUps).omit({ id: true, createdAt: true });
+export const insertEscrowReserveSchema = createInsertSchema(escrowReserves).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertWalletTransactionSchema = createInsertSchema(walletTransactions).omit({ id: true, createdAt: true });
+export const insertCompanyLinkDomainSchema = createInsertSchema(companyLinkDomains).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertDeepLinkSchema = createInsertSchema(trackingDeepLinks).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertFraudRuleSchema = createInsertSchema(fraudRules).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertFraudReviewSchema = createInsertSchema(fraudReviews).omit({ id: true, createdAt: true });
+export const insertPayoutHoldSchema = createInsertSchema(payoutHolds).omit({ id: true, createdAt: true });
+export const insertTaxProfileSchema = createInsertSchema(taxProfiles).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertAnnualTaxSummarySchema = createInsertSchema(annualTaxSummaries).omit({ id: true, generatedAt: true });
+export const insertConversionAttributionSchema = createInsertSchema(conversionAttributions).omit({ id: true, createdAt: true });
 export const insertSystemSettingSchema = createInsertSchema(systemSettings).omit({ id: true, createdAt: true, updatedAt: true });
 const decimalInput = z.union([z.string(), z.number()]).transform((val, ctx) => {
   const parsed = typeof val === "number" ? val : parseFloat(val);
@@ -1298,8 +2262,13 @@ export type InsertOfferVideo = z.infer<typeof insertOfferVideoSchema>;
 export type Application = typeof applications.$inferSelect;
 export type InsertApplication = z.infer<typeof insertApplicationSchema>;
 export type Conversation = typeof conversations.$inferSelect;
+export type ConversationContext = typeof conversationContextEnum.enumValues[number];
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type MessageTemplate = typeof messageTemplates.$inferSelect;
+export type InsertMessageTemplate = z.infer<typeof insertMessageTemplateSchema>;
+export type MessageBroadcast = typeof messageBroadcasts.$inferSelect;
+export type MessageBroadcastRecipient = typeof messageBroadcastRecipients.$inferSelect;
 export type Review = typeof reviews.$inferSelect;
 export type InsertReview = z.infer<typeof insertReviewSchema>;
 export type Favorite = typeof favorites.$inferSelect;
@@ -1307,10 +2276,62 @@ export type InsertFavorite = z.infer<typeof insertFavoriteSchema>;
 export type SavedSearch = typeof savedSearches.$inferSelect;
 export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
 export type Analytics = typeof analytics.$inferSelect;
+export type ClickEvent = typeof clickEvents.$inferSelect;
+export type DeepLink = typeof trackingDeepLinks.$inferSelect;
+export type InsertDeepLink = z.infer<typeof insertDeepLinkSchema>;
+export type DeepLinkInput = z.infer<typeof deepLinkInputSchema>;
+export type CompanyLinkDomain = typeof companyLinkDomains.$inferSelect;
+export type InsertCompanyLinkDomain = z.infer<typeof insertCompanyLinkDomainSchema>;
+export type SubIdField = typeof SUB_ID_FIELDS[number];
+export type AnalyticsHourly = typeof analyticsHourly.$inferSelect;
+export type AnalyticsRollupDimension = typeof ANALYTICS_ROLLUP_DIMENSIONS[number];
+export type AnalyticsRollupGranularity = typeof ANALYTICS_ROLLUP_GRANULARITIES[number];
+export type AnalyticsRollupQuery = z.infer<typeof analyticsRollupQuerySchema>;
 export type PaymentSetting = typeof paymentSettings.$inferSelect;
 export type InsertPaymentSetting = z.infer<typeof insertPaymentSettingSchema>;
 export type Payment = typeof payments.$inferSelect;
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type Conversion = typeof conversions.$inferSelect;
+export type InsertConversion = z.infer<typeof insertConversionSchema>;
+export type PayoutAdjustment = typeof payoutAdjustments.$inferSelect;
+export type InsertPayoutAdjustment = z.infer<typeof insertPayoutAdjustmentSchema>;
+export type PayoutRun = typeof payoutRuns.$inferSelect;
+export type InsertPayoutRun = z.infer<typeof insertPayoutRunSchema>;
+export type PayoutRunItem = typeof payoutRunItems.$inferSelect;
+export type InsertPayoutRunItem = z.infer<typeof insertPayoutRunItemSchema>;
+export type LedgerAccount = typeof ledgerAccounts.$inferSelect;
+export type InsertLedgerAccount = z.infer<typeof insertLedgerAccountSchema>;
+export type LedgerTransaction = typeof ledgerTransactions.$inferSelect;
+export type InsertLedgerTransaction = z.infer<typeof insertLedgerTransactionSchema>;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type InsertLedgerEntry = z.infer<typeof insertLedgerEntrySchema>;
+export type CompanyWallet = typeof companyWallets.$inferSelect;
+export type InsertCompanyWallet = z.infer<typeof insertCompanyWalletSchema>;
+export type WalletTopUp = typeof walletTopUps.$inferSelect;
+export type InsertWalletTopUp = z.infer<typeof insertWalletTopUpSchema>;
+export type EscrowReserve = typeof escrowReserves.$inferSelect;
+export type InsertEscrowReserve = z.infer<typeof insertEscrowReserveSchema>;
+export type WalletTransaction = typeof walletTransactions.$inferSelect;
+export type InsertWalletTransaction = z.infer<typeof insertWalletTransactionSchema>;
+export type FraudRule = typeof fraudRules.$inferSelect;
+export type InsertFraudRule = z.infer<typeof insertFraudRuleSchema>;
+export type FraudRuleInput = z.infer<typeof fraudRuleInputSchema>;
+export type FraudRuleType = typeof FRAUD_RULE_TYPES[number];
+export type FraudReview = typeof fraudReviews.$inferSelect;
+export type InsertFraudReview = z.infer<typeof insertFraudReviewSchema>;
+export type PayoutHold = typeof payoutHolds.$inferSelect;
+export type InsertPayoutHold = z.infer<typeof insertPayoutHoldSchema>;
+export type TaxProfile = typeof taxProfiles.$inferSelect;
+export type InsertTaxProfile = z.infer<typeof insertTaxProfileSchema>;
+export type TaxProfileInput = z.infer<typeof taxProfileInputSchema>;
+export type AnnualTaxSummary = typeof annualTaxSummaries.$inferSelect;
+export type InsertAnnualTaxSummary = z.infer<typeof insertAnnualTaxSummarySchema>;
+export type ConversionAttribution = typeof conversionAttributions.$inferSelect;
+export type CommissionRules = z.infer<typeof commissionRulesSchema>;
+export type GeoDestinations = z.infer<typeof geoDestinationsSchema>;
+export type CommissionTier = z.infer<typeof commissionTierSchema>;
+export type CommissionMilestone = z.infer<typeof commissionMilestoneSchema>;
+export type InsertConversionAttribution = z.infer<typeof insertConversionAttributionSchema>;
 export type SystemSetting = typeof systemSettings.$inferSelect;
 export type InsertSystemSetting = z.infer<typeof insertSystemSettingSchema>;
 export type RetainerContract = typeof retainerContracts.$inferSelect;